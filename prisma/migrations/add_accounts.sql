@@ -0,0 +1,56 @@
+-- Managed brokerage accounts
+-- Orders and trades reference an account so positions in two accounts at the same broker never net
+
+DO $$ BEGIN
+    CREATE TYPE account_type AS ENUM ('LIVE', 'PAPER', 'IRA', 'PROP');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS accounts (
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "userId" TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    "brokerId" TEXT REFERENCES brokers(id),
+    "externalId" TEXT NOT NULL,
+    nickname TEXT,
+    type account_type NOT NULL DEFAULT 'LIVE',
+    "startingBalance" DECIMAL(18, 2),
+    currency TEXT NOT NULL DEFAULT 'USD',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "accounts_userId_externalId_key" ON accounts("userId", "externalId");
+CREATE INDEX IF NOT EXISTS "accounts_userId_idx" ON accounts("userId");
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS "tradingAccountId" TEXT REFERENCES accounts(id) ON DELETE SET NULL;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "tradingAccountId" TEXT REFERENCES accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "orders_userId_tradingAccountId_idx" ON orders("userId", "tradingAccountId");
+CREATE INDEX IF NOT EXISTS "trades_userId_tradingAccountId_idx" ON trades("userId", "tradingAccountId");
+
+-- Create an account for every account identifier already on orders
+INSERT INTO accounts ("userId", "brokerId", "externalId")
+SELECT DISTINCT ON ("userId", COALESCE("accountId", "orderAccount"))
+    "userId", "brokerId", COALESCE("accountId", "orderAccount")
+FROM orders
+WHERE COALESCE("accountId", "orderAccount") IS NOT NULL
+ORDER BY "userId", COALESCE("accountId", "orderAccount"), "orderExecutedTime"
+ON CONFLICT ("userId", "externalId") DO NOTHING;
+
+-- Link orders, then trades through their orders
+UPDATE orders o
+SET "tradingAccountId" = a.id
+FROM accounts a
+WHERE a."userId" = o."userId"
+  AND a."externalId" = COALESCE(o."accountId", o."orderAccount")
+  AND o."tradingAccountId" IS NULL;
+
+UPDATE trades t
+SET "tradingAccountId" = o."tradingAccountId"
+FROM orders o
+WHERE o."tradeId" = t.id
+  AND o."tradingAccountId" IS NOT NULL
+  AND t."tradingAccountId" IS NULL;
+
+COMMENT ON TABLE accounts IS 'Brokerage accounts (live, paper, IRA, prop) that orders and trades belong to';
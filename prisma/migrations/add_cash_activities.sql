@@ -0,0 +1,40 @@
+-- Cash ledger
+-- Dividends, interest, fees, deposits, withdrawals and transfers imported from SnapTrade and CSV files
+
+DO $$ BEGIN
+    CREATE TYPE cash_activity_type AS ENUM (
+        'DEPOSIT', 'WITHDRAWAL', 'TRANSFER', 'DIVIDEND', 'INTEREST', 'FEE', 'BORROW_FEE', 'MARGIN_INTEREST', 'OTHER'
+    );
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS cash_activities (
+    id TEXT PRIMARY KEY,
+    "userId" TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    "tradingAccountId" TEXT REFERENCES accounts(id) ON DELETE SET NULL,
+    "activityType" cash_activity_type NOT NULL,
+    amount DECIMAL(18, 2) NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'USD',
+    symbol TEXT,
+    description TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "importSource" import_source NOT NULL,
+    "importBatchId" TEXT,
+    "activityHash" TEXT NOT NULL,
+    "brokerMetadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "cash_activities_userId_activityHash_key" ON cash_activities("userId", "activityHash");
+CREATE INDEX IF NOT EXISTS "cash_activities_userId_occurredAt_idx" ON cash_activities("userId", "occurredAt");
+CREATE INDEX IF NOT EXISTS "cash_activities_userId_tradingAccountId_idx" ON cash_activities("userId", "tradingAccountId");
+
+-- Sync cash activity types along with trades
+ALTER TABLE snaptrade_sync_config
+    ALTER COLUMN "activityTypes" SET DEFAULT 'BUY,SELL,DIVIDEND,INTEREST,FEE,CONTRIBUTION,WITHDRAWAL,TRANSFER';
+UPDATE snaptrade_sync_config
+    SET "activityTypes" = 'BUY,SELL,DIVIDEND,INTEREST,FEE,CONTRIBUTION,WITHDRAWAL,TRANSFER'
+    WHERE "activityTypes" = 'BUY,SELL';
+
+COMMENT ON TABLE cash_activities IS 'Non-trade cash movements per account, shown on the ledger and in the account equity curve';
@@ -0,0 +1,29 @@
+-- Change history
+-- Field-level before/after values for edits to trades, records notes and hand-entered orders, with undo
+
+DO $$ BEGIN
+    CREATE TYPE change_entity_type AS ENUM ('TRADE', 'RECORDS_ENTRY', 'ORDER');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS change_history (
+    id TEXT PRIMARY KEY,
+    "userId" TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    "actorId" TEXT NOT NULL,
+    "entityType" change_entity_type NOT NULL,
+    "entityId" TEXT NOT NULL,
+    field TEXT NOT NULL,
+    "oldValue" JSONB,
+    "newValue" JSONB,
+    source TEXT NOT NULL,
+    "revertOfId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "change_history_userId_entityType_entityId_createdAt_idx"
+    ON change_history("userId", "entityType", "entityId", "createdAt");
+CREATE INDEX IF NOT EXISTS "change_history_userId_createdAt_idx" ON change_history("userId", "createdAt");
+
+COMMENT ON TABLE change_history IS 'Field-level edit history of trades, records notes and manual orders';
+COMMENT ON COLUMN trades."notesChanges" IS 'Deprecated: notes edits are recorded in change_history';
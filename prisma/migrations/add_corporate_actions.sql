@@ -0,0 +1,31 @@
+-- Corporate actions (splits, reverse splits, ticker changes)
+-- Orders executed before an action are restated onto the new basis when trades are built
+
+DO $$ BEGIN
+    CREATE TYPE corporate_action_type AS ENUM ('SPLIT', 'REVERSE_SPLIT', 'SYMBOL_CHANGE');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS corporate_actions (
+    id TEXT PRIMARY KEY,
+    symbol TEXT NOT NULL,
+    "actionType" corporate_action_type NOT NULL,
+    "effectiveDate" DATE NOT NULL,
+    "ratioFrom" DECIMAL(12, 4),
+    "ratioTo" DECIMAL(12, 4),
+    "newSymbol" TEXT,
+    source TEXT NOT NULL DEFAULT 'ADMIN',
+    notes TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "corporate_actions_symbol_actionType_effectiveDate_key"
+    ON corporate_actions(symbol, "actionType", "effectiveDate");
+CREATE INDEX IF NOT EXISTS "corporate_actions_effectiveDate_idx" ON corporate_actions("effectiveDate");
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS "appliedCorporateActionIds" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE split_orders_parent_orders ADD COLUMN IF NOT EXISTS "appliedCorporateActionIds" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+COMMENT ON TABLE corporate_actions IS 'Market-wide splits and ticker changes applied to orders when building trades';
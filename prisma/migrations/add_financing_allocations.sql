@@ -0,0 +1,20 @@
+-- Financing cost attribution
+-- Borrow fees and margin interest from the cash ledger, split across the trades that incurred them
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "financingCost" DECIMAL(10, 2);
+
+CREATE TABLE IF NOT EXISTS financing_allocations (
+    id TEXT PRIMARY KEY,
+    "userId" TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    "cashActivityId" TEXT NOT NULL REFERENCES cash_activities(id) ON DELETE CASCADE,
+    "tradeId" TEXT NOT NULL REFERENCES trades(id) ON DELETE CASCADE,
+    amount DECIMAL(10, 2) NOT NULL,
+    days INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "financing_allocations_cashActivityId_tradeId_key" ON financing_allocations("cashActivityId", "tradeId");
+CREATE INDEX IF NOT EXISTS "financing_allocations_userId_idx" ON financing_allocations("userId");
+CREATE INDEX IF NOT EXISTS "financing_allocations_tradeId_idx" ON financing_allocations("tradeId");
+
+COMMENT ON TABLE financing_allocations IS 'Borrow fee and margin interest charges attributed to trades; trades.financingCost is their sum';
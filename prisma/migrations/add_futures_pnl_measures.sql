@@ -0,0 +1,13 @@
+-- Futures contract specifications
+-- Stores P&L in points/ticks on trades and backfills futures roots and point values
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "pnlPoints" DECIMAL(14, 4);
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "pnlTicks" DECIMAL(14, 2);
+
+-- underlyingSymbol now also holds the futures root so monthly contracts group together
+COMMENT ON COLUMN trades."underlyingSymbol" IS 'Option underlying ticker or futures root symbol (ESZ5, ESH6 -> ES)';
+COMMENT ON COLUMN trades."pnlPoints" IS 'Futures only: per-contract price move captured, in points';
+COMMENT ON COLUMN trades."pnlTicks" IS 'Futures only: per-contract price move captured, in ticks';
+
+-- Existing futures trades should be rebuilt so TradeBuilder applies point values from the contract registry:
+-- DELETE calculated futures trades and reset their orders (tradeId = NULL), then run trade calculation.
@@ -0,0 +1,25 @@
+-- Import templates
+-- User-private, versioned CSV mappings keyed by header fingerprint, applied without admin approval
+
+CREATE TABLE IF NOT EXISTS import_templates (
+    id TEXT PRIMARY KEY,
+    "userId" TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    "headerFingerprint" TEXT NOT NULL,
+    headers TEXT[] NOT NULL,
+    version INTEGER NOT NULL,
+    "fieldMappings" JSONB NOT NULL,
+    "dateFormat" TEXT,
+    timezone TEXT,
+    "brokerId" TEXT REFERENCES brokers(id) ON DELETE SET NULL,
+    "submittedFormatId" TEXT,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "lastUsed" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "import_templates_userId_headerFingerprint_version_key"
+    ON import_templates("userId", "headerFingerprint", version);
+CREATE INDEX IF NOT EXISTS "import_templates_userId_createdAt_idx" ON import_templates("userId", "createdAt");
+
+COMMENT ON TABLE import_templates IS 'User-private CSV import mappings; submittedFormatId links the broker_csv_formats row sent for approval';
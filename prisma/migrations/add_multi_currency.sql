@@ -0,0 +1,26 @@
+-- Multi-currency trades
+-- Orders keep the currency they executed in; trade P&L is converted to the user's base currency at close
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS currency TEXT;
+ALTER TABLE split_orders_parent_orders ADD COLUMN IF NOT EXISTS currency TEXT;
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "fxRate" DECIMAL(18, 8) DEFAULT 1;
+
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS "baseCurrency" TEXT NOT NULL DEFAULT 'USD';
+
+CREATE TABLE IF NOT EXISTS fx_rates (
+    id TEXT PRIMARY KEY,
+    "fromCurrency" TEXT NOT NULL,
+    "toCurrency" TEXT NOT NULL,
+    date DATE NOT NULL,
+    rate DECIMAL(18, 8) NOT NULL,
+    source TEXT NOT NULL DEFAULT 'CSV',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "fx_rates_fromCurrency_toCurrency_date_key"
+    ON fx_rates("fromCurrency", "toCurrency", date);
+
+COMMENT ON TABLE fx_rates IS 'Daily exchange rates used to convert trade P&L to each user''s base currency';
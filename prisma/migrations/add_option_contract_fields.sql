@@ -0,0 +1,65 @@
+-- Options-aware trade building
+-- Adds structured option contract fields and contract multipliers to orders and trades
+
+-- Create enums for option contracts (if they don't exist)
+DO $$ BEGIN
+    CREATE TYPE option_right AS ENUM ('CALL', 'PUT');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE option_event AS ENUM ('EXPIRATION', 'ASSIGNMENT', 'EXERCISE');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Orders
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS "underlyingSymbol" TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS "optionRight" option_right;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS "strikePrice" DECIMAL(12, 4);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS "expirationDate" TIMESTAMP(3);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS "contractMultiplier" DECIMAL(12, 4) NOT NULL DEFAULT 1;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS "optionEvent" option_event;
+
+-- Archived split parents mirror the orders table
+ALTER TABLE split_orders_parent_orders ADD COLUMN IF NOT EXISTS "underlyingSymbol" TEXT;
+ALTER TABLE split_orders_parent_orders ADD COLUMN IF NOT EXISTS "optionRight" option_right;
+ALTER TABLE split_orders_parent_orders ADD COLUMN IF NOT EXISTS "strikePrice" DECIMAL(12, 4);
+ALTER TABLE split_orders_parent_orders ADD COLUMN IF NOT EXISTS "expirationDate" TIMESTAMP(3);
+ALTER TABLE split_orders_parent_orders ADD COLUMN IF NOT EXISTS "contractMultiplier" DECIMAL(12, 4) NOT NULL DEFAULT 1;
+ALTER TABLE split_orders_parent_orders ADD COLUMN IF NOT EXISTS "optionEvent" option_event;
+
+-- Trades
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "underlyingSymbol" TEXT;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "optionRight" option_right;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "strikePrice" DECIMAL(12, 4);
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "expirationDate" TIMESTAMP(3);
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "contractMultiplier" DECIMAL(12, 4) NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS "trades_userId_underlyingSymbol_idx" ON trades("userId", "underlyingSymbol");
+
+-- Backfill option orders imported via SnapTrade, whose contract details were only kept in brokerMetadata
+UPDATE orders
+SET
+    "optionRight" = ("brokerMetadata"->>'optionType')::option_right,
+    "strikePrice" = ("brokerMetadata"->>'optionStrikePrice')::DECIMAL(12, 4),
+    "expirationDate" = ("brokerMetadata"->>'optionExpirationDate')::TIMESTAMP(3),
+    "contractMultiplier" = 100,
+    "assetClass" = 'OPTIONS'
+WHERE "brokerMetadata"->>'optionType' IN ('CALL', 'PUT')
+  AND "optionRight" IS NULL;
+
+-- Backfill the underlying from OCC symbols (root, YYMMDD, C/P, strike * 1000), with or without space padding
+UPDATE orders
+SET "underlyingSymbol" = substring(upper(replace(symbol, ' ', '')) from '^[.-]?([A-Z][A-Z0-9.]{0,5})[0-9]{6}[CP][0-9]{8}$')
+WHERE "assetClass" = 'OPTIONS'
+  AND "underlyingSymbol" IS NULL
+  AND upper(replace(symbol, ' ', '')) ~ '^[.-]?[A-Z][A-Z0-9.]{0,5}[0-9]{6}[CP][0-9]{8}$';
+
+-- Trades already built from these orders still hold per-share P&L (1/100th of the true value for
+-- standard options). Rebuild them once this migration has run:
+--   npm run rebuild:option-trades
+
+COMMENT ON COLUMN orders."contractMultiplier" IS 'Dollar value of a 1.0 price move for one contract (100 for standard equity options, 1 for shares)';
+COMMENT ON COLUMN orders."optionEvent" IS 'Marks expirations, assignments and exercises that close option positions';
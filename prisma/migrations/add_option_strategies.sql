@@ -0,0 +1,37 @@
+-- Multi-leg option strategies
+-- Option legs opened together on the same underlying are grouped into one strategy record
+
+DO $$ BEGIN
+    CREATE TYPE strategy_type AS ENUM (
+        'VERTICAL', 'IRON_CONDOR', 'IRON_BUTTERFLY', 'BUTTERFLY',
+        'STRADDLE', 'STRANGLE', 'CALENDAR', 'DIAGONAL', 'CUSTOM'
+    );
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS option_strategies (
+    id TEXT PRIMARY KEY,
+    "userId" TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    "underlyingSymbol" TEXT NOT NULL,
+    "strategyType" strategy_type NOT NULL,
+    "brokerId" TEXT,
+    "tradingAccountId" TEXT,
+    status trade_status NOT NULL DEFAULT 'OPEN',
+    "openTime" TIMESTAMP(3) NOT NULL,
+    "closeTime" TIMESTAMP(3),
+    "legCount" INTEGER NOT NULL,
+    pnl DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    "netPnl" DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    "maxRisk" DECIMAL(18, 2),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "option_strategies_userId_underlyingSymbol_idx" ON option_strategies("userId", "underlyingSymbol");
+CREATE INDEX IF NOT EXISTS "option_strategies_userId_strategyType_idx" ON option_strategies("userId", "strategyType");
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "strategyId" TEXT REFERENCES option_strategies(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS "trades_strategyId_idx" ON trades("strategyId");
+
+COMMENT ON TABLE option_strategies IS 'Multi-leg option strategies grouped from trades opened together';
@@ -0,0 +1,10 @@
+-- Manual executions
+-- Orders record where they came from so hand-entered executions can be listed, edited and deleted
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS "importSource" import_source NOT NULL DEFAULT 'CSV';
+ALTER TABLE split_orders_parent_orders ADD COLUMN IF NOT EXISTS "importSource" import_source NOT NULL DEFAULT 'CSV';
+
+-- Orders synced from SnapTrade are identified by their activity id
+UPDATE orders SET "importSource" = 'SNAPTRADE_API' WHERE "snapTradeActivityId" IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "orders_userId_importSource_idx" ON orders("userId", "importSource");
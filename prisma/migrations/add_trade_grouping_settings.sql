@@ -0,0 +1,11 @@
+-- Configurable trade grouping
+-- Users pick whether a trade runs flat-to-flat, ends at every exit, or merges quick same-side reopens
+
+DO $$ BEGIN
+    CREATE TYPE trade_grouping_mode AS ENUM ('FLAT_TO_FLAT', 'ROUND_TRIP', 'TIME_MERGED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "tradeGroupingMode" trade_grouping_mode NOT NULL DEFAULT 'FLAT_TO_FLAT';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "tradeMergeWindowMinutes" INTEGER NOT NULL DEFAULT 5;
@@ -0,0 +1,4 @@
+-- Trade corrections
+-- Trades merged, split or given orders by hand are locked so rebuilds keep the correction
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "isLocked" BOOLEAN NOT NULL DEFAULT false;
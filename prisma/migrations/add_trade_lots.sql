@@ -0,0 +1,31 @@
+-- Selectable lot matching
+-- Users pick how exits are matched to entry lots; each matched slice is stored as a trade lot
+
+DO $$ BEGIN
+    CREATE TYPE lot_matching_method AS ENUM ('FIFO', 'LIFO', 'AVERAGE_COST', 'HIGHEST_COST');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "lotMatchingMethod" lot_matching_method NOT NULL DEFAULT 'AVERAGE_COST';
+
+CREATE TABLE IF NOT EXISTS trade_lots (
+    id TEXT PRIMARY KEY,
+    "userId" TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    "tradeId" TEXT NOT NULL REFERENCES trades(id) ON DELETE CASCADE,
+    "openOrderId" TEXT NOT NULL,
+    "closeOrderId" TEXT NOT NULL,
+    method lot_matching_method NOT NULL,
+    quantity DECIMAL(20, 8) NOT NULL,
+    "openPrice" DECIMAL(18, 8) NOT NULL,
+    "closePrice" DECIMAL(18, 8) NOT NULL,
+    "openTime" TIMESTAMP(3) NOT NULL,
+    "closeTime" TIMESTAMP(3) NOT NULL,
+    pnl DECIMAL(10, 2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "trade_lots_userId_closeTime_idx" ON trade_lots("userId", "closeTime");
+CREATE INDEX IF NOT EXISTS "trade_lots_tradeId_idx" ON trade_lots("tradeId");
+
+COMMENT ON TABLE trade_lots IS 'Per-lot closing records produced by the trade builder';
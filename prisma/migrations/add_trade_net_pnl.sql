@@ -0,0 +1,25 @@
+-- Commission and fee allocation
+-- Trades store net P&L next to gross pnl so reports can switch between the two
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "netPnl" DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- Roll order costs up into trades built from orders
+UPDATE trades t
+SET
+    commission = costs.commission,
+    fees = costs.fees
+FROM (
+    SELECT "tradeId", SUM(COALESCE(commission, 0)) AS commission, SUM(COALESCE(fees, 0)) AS fees
+    FROM orders
+    WHERE "tradeId" IS NOT NULL
+    GROUP BY "tradeId"
+) costs
+WHERE costs."tradeId" = t.id
+  AND t.commission IS NULL
+  AND t.fees IS NULL;
+
+-- Backfill net P&L for every existing trade
+UPDATE trades
+SET "netPnl" = pnl - COALESCE(commission, 0) - COALESCE(fees, 0);
+
+COMMENT ON COLUMN trades."netPnl" IS 'Gross pnl less allocated commission and fees';
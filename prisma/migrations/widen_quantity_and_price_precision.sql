@@ -0,0 +1,26 @@
+-- Fractional quantities and sub-penny prices
+-- Crypto fills (0.0153 BTC), fractional shares and sub-penny stock/forex prices were truncated
+-- by the Int quantity and Decimal(10, 2) price columns. Widening is lossless for existing rows.
+
+-- Orders
+ALTER TABLE orders ALTER COLUMN "orderQuantity" TYPE DECIMAL(20, 8);
+ALTER TABLE orders ALTER COLUMN "limitPrice" TYPE DECIMAL(18, 8);
+ALTER TABLE orders ALTER COLUMN "stopPrice" TYPE DECIMAL(18, 8);
+
+-- Archived split parents mirror the orders table
+ALTER TABLE split_orders_parent_orders ALTER COLUMN "orderQuantity" TYPE DECIMAL(20, 8);
+ALTER TABLE split_orders_parent_orders ALTER COLUMN "limitPrice" TYPE DECIMAL(18, 8);
+ALTER TABLE split_orders_parent_orders ALTER COLUMN "stopPrice" TYPE DECIMAL(18, 8);
+
+-- Trades
+ALTER TABLE trades ALTER COLUMN "quantity" TYPE DECIMAL(20, 8);
+ALTER TABLE trades ALTER COLUMN "openQuantity" TYPE DECIMAL(20, 8);
+ALTER TABLE trades ALTER COLUMN "closeQuantity" TYPE DECIMAL(20, 8);
+ALTER TABLE trades ALTER COLUMN "remainingQuantity" TYPE DECIMAL(20, 8);
+ALTER TABLE trades ALTER COLUMN "averageFillPrice" TYPE DECIMAL(18, 8);
+ALTER TABLE trades ALTER COLUMN "entryPrice" TYPE DECIMAL(18, 8);
+ALTER TABLE trades ALTER COLUMN "exitPrice" TYPE DECIMAL(18, 8);
+ALTER TABLE trades ALTER COLUMN "highDuringTrade" TYPE DECIMAL(18, 8);
+ALTER TABLE trades ALTER COLUMN "lowDuringTrade" TYPE DECIMAL(18, 8);
+ALTER TABLE trades ALTER COLUMN "costBasis" TYPE DECIMAL(18, 4);
+ALTER TABLE trades ALTER COLUMN "proceeds" TYPE DECIMAL(18, 4);
@@ -0,0 +1,58 @@
+#!/usr/bin/env tsx
+/**
+ * Import daily exchange rates from a CSV file with date, from, to and rate columns
+ * Run with: npx tsx scripts/importFxRates.ts path/to/rates.csv
+ * Existing rates for the same pair and day are replaced; trades built without a rate are converted.
+ */
+
+import { readFileSync } from 'fs';
+import { prisma } from '../src/lib/prisma';
+import { parseFxRatesCsv } from '../src/lib/currency';
+import { fxRatesRepo } from '../src/lib/repositories/fxRatesRepo';
+import { tradesRepo } from '../src/lib/repositories/tradesRepo';
+
+async function importFxRates(filePath: string) {
+  console.log(`💱 Importing exchange rates from ${filePath}...`);
+
+  const { rates, errors } = parseFxRatesCsv(readFileSync(filePath, 'utf8'));
+  for (const error of errors) {
+    console.log(`  ⚠ ${error}`);
+  }
+
+  try {
+    const imported = await fxRatesRepo.upsertRates(rates, 'CSV');
+    const converted = await tradesRepo.convertUnconvertedTrades();
+
+    console.log('✅ Exchange rate import completed!');
+    console.log(`📊 Summary:`);
+    console.log(`   Imported: ${imported}`);
+    console.log(`   Invalid: ${errors.length}`);
+    console.log(`   Trades converted: ${converted}`);
+  } catch (error) {
+    console.error('❌ Error importing exchange rates:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  const filePath = process.argv[2];
+  if (!filePath) {
+    console.error('Usage: npx tsx scripts/importFxRates.ts path/to/rates.csv');
+    process.exit(1);
+  }
+
+  importFxRates(filePath)
+    .then(() => {
+      console.log('🎉 Import complete!');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('💥 Import failed:', error);
+      process.exit(1);
+    });
+}
+
+export { importFxRates };
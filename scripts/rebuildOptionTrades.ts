@@ -0,0 +1,58 @@
+#!/usr/bin/env tsx
+/**
+ * Rebuild the trades of users who hold option orders, after add_option_contract_fields.sql
+ * Run with: npx tsx scripts/rebuildOptionTrades.ts [userId]
+ * Trades built before the migration ignored the contract multiplier, so their P&L is per share.
+ */
+
+import { AssetClass } from '@prisma/client';
+import { prisma } from '../src/lib/prisma';
+import { rebuildUserTrades } from '../src/lib/tradeBuilder';
+
+async function rebuildOptionTrades(userId?: string) {
+  console.log('🔁 Rebuilding trades built from option orders...');
+
+  try {
+    const users = await prisma.order.findMany({
+      where: {
+        assetClass: AssetClass.OPTIONS,
+        tradeId: { not: null },
+        ...(userId && { userId }),
+      },
+      distinct: ['userId'],
+      select: { userId: true },
+    });
+
+    let rebuilt = 0;
+    for (const user of users) {
+      const trades = await rebuildUserTrades(user.userId);
+      rebuilt += trades;
+      console.log(`  ✓ ${user.userId}: ${trades} trades rebuilt`);
+    }
+
+    console.log('✅ Option trade rebuild completed!');
+    console.log(`📊 Summary:`);
+    console.log(`   Users: ${users.length}`);
+    console.log(`   Trades rebuilt: ${rebuilt}`);
+  } catch (error) {
+    console.error('❌ Error rebuilding option trades:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  rebuildOptionTrades(process.argv[2])
+    .then(() => {
+      console.log('🎉 Rebuild complete!');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('💥 Rebuild failed:', error);
+      process.exit(1);
+    });
+}
+
+export { rebuildOptionTrades };
@@ -0,0 +1,62 @@
+#!/usr/bin/env tsx
+/**
+ * Seed corporate actions (splits, reverse splits, ticker changes) from a local JSON file
+ * Run with: npx tsx scripts/seedCorporateActions.ts [path/to/actions.json]
+ * Defaults to scripts/data/corporateActions.json. Existing actions are left untouched.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { prisma } from '../src/lib/prisma';
+import { corporateActionSchema } from '../src/lib/schemas/corporateActions';
+import { corporateActionsRepo } from '../src/lib/repositories/corporateActionsRepo';
+
+const DEFAULT_FILE = path.join(__dirname, 'data', 'corporateActions.json');
+
+async function seedCorporateActions(filePath: string = DEFAULT_FILE) {
+  console.log(`🌱 Seeding corporate actions from ${filePath}...`);
+
+  const entries: unknown[] = JSON.parse(readFileSync(filePath, 'utf8'));
+  let seeded = 0;
+  let invalid = 0;
+
+  try {
+    for (const entry of entries) {
+      const validation = corporateActionSchema.safeParse(entry);
+      if (!validation.success) {
+        invalid++;
+        console.log(`  ⚠ Skipping invalid entry ${JSON.stringify(entry)}: ${validation.error.issues[0]?.message}`);
+        continue;
+      }
+
+      const action = await corporateActionsRepo.upsertCorporateAction(validation.data, 'SEED');
+      seeded++;
+      console.log(`  ✓ ${action.actionType} ${action.symbol} ${validation.data.effectiveDate}`);
+    }
+
+    console.log('✅ Corporate action seeding completed!');
+    console.log(`📊 Summary:`);
+    console.log(`   Seeded: ${seeded}`);
+    console.log(`   Invalid: ${invalid}`);
+  } catch (error) {
+    console.error('❌ Error seeding corporate actions:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  seedCorporateActions(process.argv[2])
+    .then(() => {
+      console.log('🎉 Seeding complete!');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('💥 Seeding failed:', error);
+      process.exit(1);
+    });
+}
+
+export { seedCorporateActions };
@@ -123,7 +123,7 @@ async function testPartialOrderFix() {
     let allPassed = true;
     
     for (const trade of newTrades) {
-      if (trade.quantity !== 200) {
+      if (Number(trade.quantity) !== 200) {
         console.error(`❌ Trade ${trade.id} has incorrect quantity: ${trade.quantity} (expected 200)`);
         allPassed = false;
       } else {
@@ -137,7 +137,7 @@ async function testPartialOrderFix() {
         console.log(`✅ Trade ${trade.id} is correctly marked as CLOSED`);
       }
       
-      if (trade.remainingQuantity !== 0) {
+      if (Number(trade.remainingQuantity) !== 0) {
         console.error(`❌ Trade ${trade.id} has remainingQuantity ${trade.remainingQuantity} (expected 0)`);
         allPassed = false;
       } else {
@@ -74,7 +74,7 @@ async function testQuantityFix() {
       console.log('New trade quantities:');
       let allCorrect = true;
       for (const trade of newTrades) {
-        const isCorrect = trade.quantity === 200 || trade.quantity === 100;
+        const isCorrect = Number(trade.quantity) === 200 || Number(trade.quantity) === 100;
         const symbol = isCorrect ? '✅' : '❌';
         console.log(`  ${symbol} Trade ${trade.id.substring(0, 8)}... : Quantity = ${trade.quantity}`);
         if (!isCorrect && trade.ordersInTrade.length > 1) {
@@ -525,7 +525,7 @@ export default function SnapTradeAdminPage() {
                         setConfig({ ...config, activityTypes: e.target.value });
                         setConfigChanged(true);
                       }}
-                      placeholder="BUY,SELL"
+                      placeholder="BUY,SELL,DIVIDEND,INTEREST,FEE,CONTRIBUTION,WITHDRAWAL,TRANSFER"
                     />
                   </div>
                 </div>
@@ -14,6 +14,7 @@ const DistributionCharts = lazy(() => import('@/components/charts/DistributionCh
 const TradeDistributionChart = lazy(() => import('@/components/charts/TradeDistributionChart'));
 const GaugeChart = lazy(() => import('@/components/charts/GaugeChart'));
 const LargestGainLossGauge = lazy(() => import('@/components/charts/LargestGainLossGauge'));
+const AccountEquityChart = lazy(() => import('@/components/charts/AccountEquityChart'));
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { FullPageTriangleLoader } from '@/components/ui/TriangleLoader';
 import { Upload, FileText } from 'lucide-react';
@@ -141,7 +142,7 @@ export default function DashboardComponent() {
     );
   }
 
-  const { kpiData: metrics, cumulativePnl: performanceData } = analytics;
+  const { kpiData: metrics, cumulativePnl: performanceData, accountEquity } = analytics;
 
   // Prepare pie chart data for winning vs losing trades
   const winLossData = [
@@ -432,6 +433,19 @@ export default function DashboardComponent() {
             />
           </div>
 
+          {/* Account Equity - only when there are cash activities or a starting balance */}
+          {accountEquity?.length > 0 && (
+            <div className="col-span-1 lg:col-span-6">
+              <Suspense fallback={<ChartSkeleton height={CHART_HEIGHTS.LG} />}>
+                <AccountEquityChart
+                  data={accountEquity}
+                  title="Account Equity"
+                  height={CHART_HEIGHTS.LG}
+                />
+              </Suspense>
+            </div>
+          )}
+
           {/* AdSense Ad Unit */}
           <div className="col-span-1 lg:col-span-6 hidden lg:block">
             <AdSense 
@@ -7,6 +7,7 @@ import TopBar from '@/components/TopBar';
 import EnhancedFileUpload from '@/components/csv/EnhancedFileUpload';
 import ColumnMappingModal from '@/components/csv/ColumnMappingModal';
 import BrokerList from '@/components/broker/BrokerList';
+import ManualExecutionsGrid from '@/components/ManualExecutionsGrid';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -15,7 +16,8 @@ import {
   Shield,
   TrendingUp,
   Building2,
-  Upload
+  Upload,
+  PencilLine
 } from 'lucide-react';
 import { FullPageTriangleLoader } from '@/components/ui/TriangleLoader';
 import Link from 'next/link';
@@ -198,14 +200,14 @@ export default function EnhancedImportPage() {
           {/* Header Section */}
           <div className="text-center space-y-4">
             <p className="text-lg text-gray-600 max-w-2xl mx-auto">
-              Import your trading data either by connecting your broker directly or uploading CSV files
-              with AI-powered column mapping and real-time validation.
+              Import your trading data by connecting your broker directly, uploading CSV files with
+              AI-powered column mapping and real-time validation, or entering executions by hand.
             </p>
           </div>
 
           {/* Import Methods Tabs */}
           <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-            <TabsList className="grid w-full grid-cols-2 mb-8">
+            <TabsList className="grid w-full grid-cols-3 mb-8">
               <TabsTrigger value="broker" className="flex items-center gap-2">
                 <Building2 className="h-4 w-4" />
                 Broker Connect
@@ -214,6 +216,10 @@ export default function EnhancedImportPage() {
                 <Upload className="h-4 w-4" />
                 Upload CSV
               </TabsTrigger>
+              <TabsTrigger value="manual" className="flex items-center gap-2">
+                <PencilLine className="h-4 w-4" />
+                Manual Entry
+              </TabsTrigger>
             </TabsList>
 
             {/* Broker Connection Tab */}
@@ -263,6 +269,11 @@ export default function EnhancedImportPage() {
                 onRefreshLimits={fetchUploadLimits}
               />
             </TabsContent>
+
+            {/* Manual Entry Tab */}
+            <TabsContent value="manual" className="space-y-6">
+              <ManualExecutionsGrid />
+            </TabsContent>
           </Tabs>
 
 
@@ -0,0 +1,238 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { CashActivityType } from '@prisma/client';
+import { Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import TopBar from '@/components/TopBar';
+import FilterPanel from '@/components/FilterPanel';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FullPageTriangleLoader } from '@/components/ui/TriangleLoader';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGlobalFilters } from '@/contexts/GlobalFilterContext';
+import { CASH_ACTIVITY_LABELS, EXTERNAL_FLOW_TYPES } from '@/lib/cashLedger';
+
+const ALL_TYPES = 'all';
+
+interface CashActivityRow {
+  id: string;
+  accountId: string | null;
+  activityType: CashActivityType;
+  amount: number;
+  currency: string;
+  symbol: string | null;
+  description: string | null;
+  occurredAt: string;
+  importSource: string;
+}
+
+interface CashActivityTotal {
+  activityType: CashActivityType;
+  amount: number;
+  count: number;
+}
+
+function formatAmount(amount: number, currency = 'USD') {
+  return amount.toLocaleString('en-US', { style: 'currency', currency });
+}
+
+export default function LedgerPage() {
+  const { isDemo } = useAuth();
+  const { toFilterOptions } = useGlobalFilters();
+  const [activityType, setActivityType] = useState<string>(ALL_TYPES);
+  const [activities, setActivities] = useState<CashActivityRow[]>([]);
+  const [totals, setTotals] = useState<CashActivityTotal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const filterOptions = toFilterOptions();
+  const { dateFrom, dateTo, accountId } = filterOptions;
+
+  const fetchLedger = useCallback(async () => {
+    try {
+      setError(null);
+      const params = new URLSearchParams();
+      if (dateFrom) params.append('dateFrom', dateFrom);
+      if (dateTo) params.append('dateTo', dateTo);
+      if (accountId) params.append('accountId', accountId);
+      if (activityType !== ALL_TYPES) params.append('activityType', activityType);
+
+      const response = await fetch(`/api/cash-activities?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load cash ledger');
+      }
+
+      setActivities(data.activities);
+      setTotals(data.totals);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load cash ledger');
+    } finally {
+      setLoading(false);
+    }
+  }, [dateFrom, dateTo, accountId, activityType]);
+
+  useEffect(() => {
+    fetchLedger();
+  }, [fetchLedger]);
+
+  const handleDelete = async (activity: CashActivityRow) => {
+    if (!confirm(`Delete this ${CASH_ACTIVITY_LABELS[activity.activityType].toLowerCase()} from the ledger?`)) return;
+
+    try {
+      const response = await fetch(`/api/cash-activities/${activity.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete cash activity');
+      }
+
+      toast.success('Cash activity deleted');
+      fetchLedger();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete cash activity');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="relative h-screen">
+        <FullPageTriangleLoader text="Loading cash ledger..." />
+      </div>
+    );
+  }
+
+  const netCashFlows = totals
+    .filter(total => EXTERNAL_FLOW_TYPES.includes(total.activityType))
+    .reduce((sum, total) => sum + total.amount, 0);
+  const netIncome = totals
+    .filter(total => !EXTERNAL_FLOW_TYPES.includes(total.activityType))
+    .reduce((sum, total) => sum + total.amount, 0);
+
+  return (
+    <div className="flex flex-col h-full">
+      <TopBar
+        title="Cash Ledger"
+        subtitle="Dividends, interest, fees, deposits, withdrawals and transfers"
+        showTimeRangeFilters={false}
+      />
+
+      <FilterPanel
+        showAdvanced={false}
+        demo={isDemo}
+      />
+
+      <div className="flex-1 overflow-auto p-3 sm:p-6 space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <Card className="bg-surface border-default">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-primary">Net deposits & transfers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${netCashFlows >= 0 ? 'text-positive' : 'text-negative'}`}>
+                {formatAmount(netCashFlows)}
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-surface border-default">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-primary">Income less fees</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${netIncome >= 0 ? 'text-positive' : 'text-negative'}`}>
+                {formatAmount(netIncome)}
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-surface border-default sm:col-span-2">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-primary">By type</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {totals.length === 0 ? (
+                <p className="text-sm text-muted">No cash activity in this period</p>
+              ) : (
+                <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                  {totals.map(total => (
+                    <div key={total.activityType} className="flex justify-between">
+                      <span className="text-muted">{CASH_ACTIVITY_LABELS[total.activityType]} ({total.count})</span>
+                      <span className={total.amount >= 0 ? 'text-positive' : 'text-negative'}>
+                        {formatAmount(total.amount)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="bg-surface border-default">
+          <CardHeader className="pb-2 flex flex-row items-center justify-between">
+            <CardTitle className="text-base font-medium text-primary">Activity</CardTitle>
+            <Select value={activityType} onValueChange={setActivityType}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TYPES}>All types</SelectItem>
+                {Object.values(CashActivityType).map(type => (
+                  <SelectItem key={type} value={type}>{CASH_ACTIVITY_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <p className="text-sm text-red-600">{error}</p>
+            ) : activities.length === 0 ? (
+              <p className="text-sm text-muted">
+                No cash activity yet. Broker syncs and CSV uploads record dividends, interest, fees and transfers here.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="w-10" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {activities.map(activity => (
+                    <TableRow key={activity.id}>
+                      <TableCell>{new Date(activity.occurredAt).toLocaleDateString()}</TableCell>
+                      <TableCell>{CASH_ACTIVITY_LABELS[activity.activityType]}</TableCell>
+                      <TableCell>{activity.symbol || '-'}</TableCell>
+                      <TableCell className="max-w-md truncate" title={activity.description || undefined}>
+                        {activity.description || '-'}
+                      </TableCell>
+                      <TableCell className={`text-right ${activity.amount >= 0 ? 'text-positive' : 'text-negative'}`}>
+                        {formatAmount(activity.amount, activity.currency)}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(activity)}
+                          title="Delete from ledger"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
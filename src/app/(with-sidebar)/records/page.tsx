@@ -1,15 +1,19 @@
 'use client';
 
 import React, { useEffect, useState, Suspense, useMemo, useRef } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import TopBar from '@/components/TopBar';
 import FilterPanel from '@/components/FilterPanel';
-import ExecutionsTable from '@/components/ExecutionsTable';
+import ExecutionsTable, { ExecutionOrder } from '@/components/ExecutionsTable';
+import MoveExecutionDialog, { MoveExecutionResult } from '@/components/MoveExecutionDialog';
+import ChangeHistoryPanel from '@/components/ChangeHistoryPanel';
 import StatsGrid from '@/components/StatsGrid';
 import TradesTable from '@/components/TradesTable';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
-import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Lock, LockOpen } from 'lucide-react';
+import { toast } from 'sonner';
 import { useAutoSave } from '@/hooks/useAutoSave';
 import { useRecordsData } from '@/hooks/useRecordsData';
 import { useTradesData } from '@/hooks/useTradesData';
@@ -21,6 +25,7 @@ import { calculateTradeMetrics } from '@/lib/tradeMetrics';
 import { MarketDataResponse } from '@/lib/marketData/types';
 
 function RecordsContent() {
+  const router = useRouter();
   const searchParams = useSearchParams();
   const selectedDate = searchParams.get('date');
   const selectedTradeId = searchParams.get('tradeId'); // Get specific trade ID if provided
@@ -28,7 +33,7 @@ function RecordsContent() {
   // const { isDemo } = useAuth(); // Currently not used but may be needed for demo features
 
   // Use real records data instead of mock data
-  const { data: recordsData, loading, error } = useRecordsData(selectedDate, selectedTradeId);
+  const { data: recordsData, loading, error, refetch } = useRecordsData(selectedDate, selectedTradeId);
 
   // Get trades data for the default view when no specific trade is selected
   const { data: tradesData, loading: tradesLoading } = useTradesData();
@@ -36,6 +41,9 @@ function RecordsContent() {
 
   // State for market data from the chart component
   const [chartMarketData, setChartMarketData] = useState<MarketDataResponse | null>(null);
+
+  // Execution being moved to another trade
+  const [movingExecution, setMovingExecution] = useState<ExecutionOrder | null>(null);
   
   // Calculate execution metrics from real data
   const executionMetrics = {
@@ -79,6 +87,61 @@ function RecordsContent() {
   };
 
 
+  // Split the execution's trade so the execution starts a new trade
+  const handleSplitTrade = async (execution: ExecutionOrder) => {
+    if (!execution.tradeId) return;
+    if (!confirm('Split the trade here? This execution and the ones after it become a new trade, and both trades are locked.')) return;
+
+    try {
+      const response = await fetch(`/api/trades/${execution.tradeId}/split`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId: execution.id })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to split trade');
+      }
+
+      toast.success('Trade split in two');
+      refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to split trade');
+    }
+  };
+
+  const handleExecutionMoved = (result: MoveExecutionResult) => {
+    setMovingExecution(null);
+    toast.success('Execution moved');
+
+    // The trade being viewed lost its last execution, so follow the execution to its new trade
+    if (selectedTradeId && result.deletedTradeIds.includes(selectedTradeId)) {
+      router.replace(`/records?date=${selectedDate ?? ''}&tradeId=${result.tradeIds[0]}`);
+      return;
+    }
+    refetch();
+  };
+
+  // Unlock a corrected trade so the next rebuild can regroup it
+  const handleUnlockTrade = async (tradeId: string) => {
+    try {
+      const response = await fetch(`/api/trades/${tradeId}/lock`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locked: false })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to unlock trade');
+      }
+
+      toast.success('Trade unlocked');
+      refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to unlock trade');
+    }
+  };
+
   // Get the correct initial notes value from either specific trade or records level
   const getInitialNotes = () => {
     if (targetTrade) {
@@ -113,6 +176,12 @@ function RecordsContent() {
     }
   }, [recordsData, targetTrade, setNotes]);
 
+  // A reverted change may be to the notes, so load them again along with the rest of the day
+  const handleChangeReverted = () => {
+    notesInitialized.current = false;
+    refetch();
+  };
+
 
   // All executions for this records entry - memoized to prevent unnecessary recalculations
   const { mostActiveSymbol, chartExecutions } = useMemo(() => {
@@ -243,6 +312,17 @@ function RecordsContent() {
             </div>
 
             <div className="flex items-center gap-2">
+              {targetTrade?.isLocked && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleUnlockTrade(targetTrade.id)}
+                  title="This trade was corrected by hand and is kept as it is through rebuilds"
+                >
+                  <LockOpen className="h-4 w-4 mr-1" />
+                  Unlock trade
+                </Button>
+              )}
               <ShareButton
                 date={selectedDate || undefined}
                 tradeId={selectedTradeId || undefined}
@@ -332,8 +412,29 @@ function RecordsContent() {
             onExecutionSelect={(execution) => {
 
             }}
+            onSplitTrade={handleSplitTrade}
+            onMoveExecution={setMovingExecution}
           />
 
+          <MoveExecutionDialog
+            execution={movingExecution}
+            trades={[
+              ...recordsData.trades,
+              ...(tradesData?.trades || []).filter(trade => !recordsData.trades.some(t => t.id === trade.id))
+            ]}
+            onClose={() => setMovingExecution(null)}
+            onMoved={handleExecutionMoved}
+          />
+
+          {selectedDate && (
+            <ChangeHistoryPanel
+              date={selectedDate}
+              tradeId={selectedTradeId || undefined}
+              refreshKey={recordsData}
+              onReverted={handleChangeReverted}
+            />
+          )}
+
           {/* AdSense Ad Unit */}
           <div className="mt-6">
             <AdSense 
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useMemo, useCallback } from 'react';
 import TopBar from '@/components/TopBar';
 import FilterPanel from '@/components/FilterPanel';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -17,6 +17,7 @@ import ShareButton from '@/components/ShareButton';
 import StatsSection from '@/components/reports/StatsSection';
 import ChartContainer from '@/components/reports/ChartContainer';
 import WinVsLossReport from '@/components/reports/WinVsLossReport';
+import FinancingCostsReport from '@/components/reports/FinancingCostsReport';
 import { FullPageTriangleLoader } from '@/components/ui/TriangleLoader';
 import { useDetailedReportsData } from '@/hooks/useDetailedReportsData';
 import { useAnalyticsData } from '@/hooks/useAnalyticsData';
@@ -29,6 +30,7 @@ import {
   aggregateByIntradayDuration,
   aggregateByPrice,
   aggregateByVolume,
+  aggregateByStrategyType,
   calculateWinLossRatio,
   calculateWinLossPnlComparison,
   calculateTradeExpectation,
@@ -38,8 +40,7 @@ import {
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
 
 export default function Reports() {
-  const [pnlType, setPnlType] = useState('Gross');
-  const { filters, toFilterOptions } = useGlobalFilters();
+  const { filters, toFilterOptions, updateFilter } = useGlobalFilters();
   const isMobile = useIsMobile();
 
   // Format date range for display using actual filter dates
@@ -114,6 +115,7 @@ export default function Reports() {
   const intradayDurationData = useMemo(() => aggregateByIntradayDuration(trades), [trades]);
   const priceData = useMemo(() => aggregateByPrice(trades), [trades]);
   const volumeData = useMemo(() => aggregateByVolume(trades), [trades]);
+  const strategyData = useMemo(() => aggregateByStrategyType(trades), [trades]);
   
   // Win/Loss/Expectation data
   const winLossRatio = useMemo(() => calculateWinLossRatio(trades), [trades]);
@@ -195,13 +197,13 @@ export default function Reports() {
             <div className="flex items-center gap-6">
               <div className="flex items-center gap-2">
                 <label className="text-sm font-medium text-primary">P&L Type</label>
-                <Select value={pnlType} onValueChange={setPnlType}>
+                <Select value={filters.viewMode || 'gross'} onValueChange={(value) => updateFilter('viewMode', value)}>
                   <SelectTrigger className="w-24 h-8 text-sm">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="Gross">Gross</SelectItem>
-                    <SelectItem value="Net">Net</SelectItem>
+                    <SelectItem value="gross">Gross</SelectItem>
+                    <SelectItem value="net">Net</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -228,6 +230,7 @@ export default function Reports() {
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="detailed">Detailed</TabsTrigger>
               <TabsTrigger value="win-vs-loss">Win/Loss</TabsTrigger>
+              <TabsTrigger value="financing">Financing</TabsTrigger>
             </TabsList>
           </div>
 
@@ -690,9 +693,29 @@ export default function Reports() {
                 </div>
               </TabsContent>
 
-              {/* Instrument Tab - Placeholder for future implementation */}
+              {/* Instrument Tab - Option strategies; symbol charts are placeholders for future implementation */}
               <TabsContent value="instrument" className="space-y-6">
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {/* Trade Distribution by Option Strategy */}
+                  <ChartContainer
+                    title="TRADE DISTRIBUTION BY STRATEGY"
+                    data={strategyData.distribution}
+                    chartType="distribution"
+                    valueType="shares"
+                    height={300}
+                    minWidth={400}
+                  />
+
+                  {/* Performance by Option Strategy */}
+                  <ChartContainer
+                    title="PERFORMANCE BY STRATEGY"
+                    data={strategyData.performance}
+                    chartType="performance"
+                    valueType="currency"
+                    height={300}
+                    minWidth={400}
+                  />
+
                   <Card className="bg-surface border-default">
                     <CardHeader>
                       <CardTitle className="text-base font-medium text-primary">
@@ -746,6 +769,15 @@ export default function Reports() {
             <WinVsLossReport trades={trades} loading={detailedLoading} error={detailedError} />
           </TabsContent>
 
+          {/* Financing Costs Tab - Borrow fees and margin interest attributed to trades */}
+          <TabsContent value="financing" className="space-y-6">
+            <FinancingCostsReport
+              dateFrom={toFilterOptions().dateFrom}
+              dateTo={toFilterOptions().dateTo}
+              accountId={toFilterOptions().accountId}
+            />
+          </TabsContent>
+
         </Tabs>
       </div>
     </div>
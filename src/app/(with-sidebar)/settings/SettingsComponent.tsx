@@ -17,7 +17,8 @@ import {
   Shield,
   Settings as SettingsIcon,
   Cookie,
-  Mail
+  Mail,
+  Layers
 } from 'lucide-react';
 import { FullPageTriangleLoader } from '@/components/ui/TriangleLoader';
 
@@ -27,6 +28,7 @@ import SubscriptionTab from './components/SubscriptionTab';
 import BillingTab from './components/BillingTab';
 import SecurityTab from './components/SecurityTab';
 import CookieSettingsTab from './components/CookieSettingsTab';
+import TradingTab from './components/TradingTab';
 
 export default function SettingsComponent() {
   const { user, isLoading } = useAuth();
@@ -64,6 +66,12 @@ export default function SettingsComponent() {
       icon: User,
       description: 'Manage your personal information'
     },
+    {
+      id: 'trading',
+      label: 'Trading',
+      icon: Layers,
+      description: 'How trades and P&L are calculated'
+    },
     {
       id: 'subscription',
       label: 'Subscription',
@@ -128,7 +136,7 @@ export default function SettingsComponent() {
           {/* Tabs Navigation */}
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
             <div className="overflow-x-auto">
-              <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:inline-flex">
+              <TabsList className="grid w-full grid-cols-6 lg:w-auto lg:inline-flex">
                 {tabs.map((tab) => (
                   <TabsTrigger 
                     key={tab.id} 
@@ -164,6 +172,10 @@ export default function SettingsComponent() {
                 <ProfileTab />
               </TabsContent>
 
+              <TabsContent value="trading" className="space-y-6">
+                <TradingTab />
+              </TabsContent>
+
               <TabsContent value="subscription" className="space-y-6">
                 <SubscriptionTab />
               </TabsContent>
@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Wallet, Save, Loader2 } from 'lucide-react';
+import { BrokerageAccount } from '@/types';
+import { useAccounts } from '@/hooks/useAccounts';
+
+const accountTypeLabels: Record<BrokerageAccount['type'], string> = {
+  LIVE: 'Live',
+  PAPER: 'Paper',
+  IRA: 'IRA',
+  PROP: 'Prop firm',
+};
+
+interface AccountFormState {
+  nickname: string;
+  type: BrokerageAccount['type'];
+  startingBalance: string;
+  currency: string;
+}
+
+function toFormState(account: BrokerageAccount): AccountFormState {
+  return {
+    nickname: account.nickname ?? '',
+    type: account.type,
+    startingBalance: account.startingBalance !== null ? account.startingBalance.toString() : '',
+    currency: account.currency,
+  };
+}
+
+function AccountRow({ account, onSaved }: { account: BrokerageAccount; onSaved: () => void }) {
+  const [form, setForm] = useState<AccountFormState>(() => toFormState(account));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(toFormState(account));
+  }, [account]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/accounts/${account.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          nickname: form.nickname.trim() || null,
+          type: form.type,
+          startingBalance: form.startingBalance.trim() ? parseFloat(form.startingBalance) : null,
+          currency: form.currency.trim(),
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.details?.[0]?.message || data.error || 'Failed to update account');
+        return;
+      }
+
+      toast.success('Account updated');
+      onSaved();
+    } catch (error) {
+      console.error('Failed to save account:', error);
+      toast.error('Failed to update account. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-5 items-end border-b border-default pb-4 last:border-b-0 last:pb-0">
+      <div className="space-y-1 sm:col-span-2">
+        <Label htmlFor={`nickname-${account.id}`}>{account.externalId}</Label>
+        <Input
+          id={`nickname-${account.id}`}
+          placeholder="Nickname"
+          value={form.nickname}
+          onChange={(e) => setForm(prev => ({ ...prev, nickname: e.target.value }))}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label>Type</Label>
+        <Select
+          value={form.type}
+          onValueChange={(value) => setForm(prev => ({ ...prev, type: value as BrokerageAccount['type'] }))}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(accountTypeLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`balance-${account.id}`}>Starting balance</Label>
+        <div className="flex gap-2">
+          <Input
+            id={`balance-${account.id}`}
+            type="number"
+            min="0"
+            step="0.01"
+            value={form.startingBalance}
+            onChange={(e) => setForm(prev => ({ ...prev, startingBalance: e.target.value }))}
+          />
+          <Input
+            aria-label="Currency"
+            className="w-20"
+            maxLength={3}
+            value={form.currency}
+            onChange={(e) => setForm(prev => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+          />
+        </div>
+      </div>
+      <Button onClick={handleSave} disabled={isSaving}>
+        {isSaving ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Save className="h-4 w-4 mr-2" />
+        )}
+        Save
+      </Button>
+    </div>
+  );
+}
+
+export default function AccountsCard() {
+  const { accounts, loading, refetch } = useAccounts();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5 text-blue-600" />
+          Accounts
+        </CardTitle>
+        <CardDescription>
+          Accounts are created from your imports and broker connections. Positions are tracked separately per account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : accounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No accounts yet. Accounts appear here once you import trades that include an account number.
+          </p>
+        ) : (
+          accounts.map(account => (
+            <AccountRow key={account.id} account={account} onSaved={refetch} />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { FileText, Download, Loader2 } from 'lucide-react';
+import type { Form8949Summary } from '@/lib/form8949';
+
+const currentYear = new Date().getFullYear();
+const taxYears = Array.from({ length: 6 }, (_, index) => currentYear - index);
+
+function formatCurrency(value: number): string {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+export default function TaxReportCard() {
+  const [taxYear, setTaxYear] = useState(currentYear - 1);
+  const [summary, setSummary] = useState<Form8949Summary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [downloadingFormat, setDownloadingFormat] = useState<'csv' | 'pdf' | null>(null);
+
+  useEffect(() => {
+    const loadSummary = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/user/tax-report?year=${taxYear}`);
+        if (!response.ok) throw new Error('Failed to fetch tax report');
+
+        const data = await response.json();
+        setSummary(data.summary);
+      } catch (error) {
+        console.error('Failed to load tax report:', error);
+        toast.error('Failed to load tax report');
+        setSummary(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSummary();
+  }, [taxYear]);
+
+  const handleDownload = async (format: 'csv' | 'pdf') => {
+    setDownloadingFormat(format);
+    try {
+      const response = await fetch(`/api/user/tax-report?year=${taxYear}&format=${format}`);
+      if (!response.ok) throw new Error('Failed to download tax report');
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `form_8949_${taxYear}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download tax report:', error);
+      toast.error('Failed to download tax report. Please try again.');
+    } finally {
+      setDownloadingFormat(null);
+    }
+  };
+
+  const parts = summary ? [
+    { label: 'Short-term', totals: summary.shortTerm },
+    { label: 'Long-term', totals: summary.longTerm },
+  ] : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5 text-blue-600" />
+          Tax Lots
+        </CardTitle>
+        <CardDescription>
+          Realized sales for a tax year with wash sales applied across all of your live accounts, split into
+          short-term and long-term. Export a Form 8949 style worksheet to check against your brokers&apos; 1099-B forms.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="taxYear">Tax year</Label>
+          <Select
+            value={String(taxYear)}
+            onValueChange={(value) => setTaxYear(parseInt(value))}
+            disabled={isLoading}
+          >
+            <SelectTrigger id="taxYear" className="w-full sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {taxYears.map((year) => (
+                <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading tax lots...
+          </div>
+        ) : summary && (
+          <div className="space-y-2 text-sm">
+            {parts.map(({ label, totals }) => (
+              <div key={label} className="flex justify-between border-b border-default pb-2">
+                <span>{label} ({totals.count} {totals.count === 1 ? 'sale' : 'sales'})</span>
+                <span className={totals.gainOrLoss >= 0 ? 'text-positive' : 'text-negative'}>
+                  {formatCurrency(totals.gainOrLoss)}
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span>Wash sales ({summary.washSales.count})</span>
+              <span className="text-muted-foreground">{formatCurrency(summary.washSales.disallowed)} disallowed</span>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {(['csv', 'pdf'] as const).map((format) => (
+            <Button
+              key={format}
+              variant="outline"
+              onClick={() => handleDownload(format)}
+              disabled={isLoading || downloadingFormat !== null}
+            >
+              {downloadingFormat === format ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-2" />
+              )}
+              {format.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
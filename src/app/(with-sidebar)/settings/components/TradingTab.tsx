@@ -0,0 +1,334 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { LotMatchingMethod, TradeGroupingMode } from '@prisma/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Layers, GitMerge, Coins, Save, Loader2 } from 'lucide-react';
+import { DEFAULT_LOT_MATCHING_METHOD, LOT_MATCHING_METHOD_LABELS } from '@/lib/lotMatching';
+import { DEFAULT_TRADE_GROUPING, MAX_MERGE_WINDOW_MINUTES, TRADE_GROUPING_MODE_LABELS } from '@/lib/tradeGrouping';
+import { COMMON_CURRENCIES, DEFAULT_BASE_CURRENCY } from '@/lib/currency';
+import AccountsCard from './AccountsCard';
+import TaxReportCard from './TaxReportCard';
+
+const methodDescriptions: Record<LotMatchingMethod, string> = {
+  FIFO: 'Exits close your oldest entries first.',
+  LIFO: 'Exits close your most recent entries first.',
+  AVERAGE_COST: 'Every entry is carried at the position\'s average price.',
+  HIGHEST_COST: 'Exits close the entry with the smallest gain first.',
+};
+
+const groupingDescriptions: Record<TradeGroupingMode, string> = {
+  FLAT_TO_FLAT: 'A trade runs from your first entry until the position is flat again.',
+  ROUND_TRIP: 'Every exit is its own trade, together with the entries it closed.',
+  TIME_MERGED: 'Like flat to flat, but re-entering the same side shortly after going flat continues the trade.',
+};
+
+export default function TradingTab() {
+  const [savedMethod, setSavedMethod] = useState<LotMatchingMethod>(DEFAULT_LOT_MATCHING_METHOD);
+  const [method, setMethod] = useState<LotMatchingMethod>(DEFAULT_LOT_MATCHING_METHOD);
+  const [savedGroupingMode, setSavedGroupingMode] = useState<TradeGroupingMode>(DEFAULT_TRADE_GROUPING.mode);
+  const [groupingMode, setGroupingMode] = useState<TradeGroupingMode>(DEFAULT_TRADE_GROUPING.mode);
+  const [savedMergeWindow, setSavedMergeWindow] = useState(DEFAULT_TRADE_GROUPING.mergeWindowMinutes);
+  const [mergeWindow, setMergeWindow] = useState(String(DEFAULT_TRADE_GROUPING.mergeWindowMinutes));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSavingGrouping, setIsSavingGrouping] = useState(false);
+  const [savedBaseCurrency, setSavedBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+  const [isSavingCurrency, setIsSavingCurrency] = useState(false);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch('/api/user/trade-settings');
+        if (!response.ok) throw new Error('Failed to fetch trade settings');
+
+        const data = await response.json();
+        const current = data.settings?.lotMatchingMethod ?? DEFAULT_LOT_MATCHING_METHOD;
+        setSavedMethod(current);
+        setMethod(current);
+
+        const currentMode = data.settings?.tradeGroupingMode ?? DEFAULT_TRADE_GROUPING.mode;
+        const currentWindow = data.settings?.tradeMergeWindowMinutes ?? DEFAULT_TRADE_GROUPING.mergeWindowMinutes;
+        setSavedGroupingMode(currentMode);
+        setGroupingMode(currentMode);
+        setSavedMergeWindow(currentWindow);
+        setMergeWindow(String(currentWindow));
+
+        const currentBaseCurrency = data.settings?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+        setSavedBaseCurrency(currentBaseCurrency);
+        setBaseCurrency(currentBaseCurrency);
+      } catch (error) {
+        console.error('Failed to load trade settings:', error);
+        toast.error('Failed to load trade settings');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/user/trade-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lotMatchingMethod: method })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.details?.[0]?.message || data.error || 'Failed to update trade settings');
+        return;
+      }
+
+      setSavedMethod(method);
+      toast.success(`Lot matching updated. ${data.tradesRecalculated} trades recalculated.`);
+    } catch (error) {
+      console.error('Failed to save trade settings:', error);
+      toast.error('Failed to update trade settings. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const mergeWindowMinutes = Number(mergeWindow);
+  const isMergeWindowValid = Number.isInteger(mergeWindowMinutes)
+    && mergeWindowMinutes >= 1
+    && mergeWindowMinutes <= MAX_MERGE_WINDOW_MINUTES;
+  const isGroupingChanged = groupingMode !== savedGroupingMode
+    || (groupingMode === TradeGroupingMode.TIME_MERGED && mergeWindowMinutes !== savedMergeWindow);
+
+  const handleSaveGrouping = async () => {
+    if (!isMergeWindowValid) {
+      toast.error(`Merge window must be between 1 and ${MAX_MERGE_WINDOW_MINUTES} minutes`);
+      return;
+    }
+
+    setIsSavingGrouping(true);
+    try {
+      const response = await fetch('/api/user/trade-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tradeGroupingMode: groupingMode, tradeMergeWindowMinutes: mergeWindowMinutes })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.details?.[0]?.message || data.error || 'Failed to update trade settings');
+        return;
+      }
+
+      setSavedGroupingMode(groupingMode);
+      setSavedMergeWindow(mergeWindowMinutes);
+      toast.success(`Trade grouping updated. ${data.tradesRecalculated} trades rebuilt.`);
+    } catch (error) {
+      console.error('Failed to save trade grouping:', error);
+      toast.error('Failed to update trade grouping. Please try again.');
+    } finally {
+      setIsSavingGrouping(false);
+    }
+  };
+
+  const handleSaveCurrency = async () => {
+    setIsSavingCurrency(true);
+    try {
+      const response = await fetch('/api/user/trade-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ baseCurrency })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.details?.[0]?.message || data.error || 'Failed to update trade settings');
+        return;
+      }
+
+      setSavedBaseCurrency(baseCurrency);
+      toast.success(`Base currency updated. ${data.tradesRecalculated} trades converted.`);
+    } catch (error) {
+      console.error('Failed to save base currency:', error);
+      toast.error('Failed to update base currency. Please try again.');
+    } finally {
+      setIsSavingCurrency(false);
+    }
+  };
+
+  const currencyOptions = COMMON_CURRENCIES.includes(savedBaseCurrency)
+    ? COMMON_CURRENCIES
+    : [savedBaseCurrency, ...COMMON_CURRENCIES];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-blue-600" />
+            Lot Matching
+          </CardTitle>
+          <CardDescription>
+            Choose how exits are matched to your entries when you scale in and out of a position.
+            Changing the method recalculates P&L for all of your existing trades.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="lotMatchingMethod">Matching method</Label>
+            <Select
+              value={method}
+              onValueChange={(value) => setMethod(value as LotMatchingMethod)}
+              disabled={isLoading || isSaving}
+            >
+              <SelectTrigger id="lotMatchingMethod" className="w-full sm:w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(LotMatchingMethod).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {LOT_MATCHING_METHOD_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">{methodDescriptions[method]}</p>
+          </div>
+
+          <Button
+            onClick={handleSave}
+            disabled={isLoading || isSaving || method === savedMethod}
+          >
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            {isSaving ? 'Recalculating...' : 'Save'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5 text-blue-600" />
+            Trade Grouping
+          </CardTitle>
+          <CardDescription>
+            Choose how your executions are grouped into trades.
+            Changing the grouping rebuilds all of your existing trades from their executions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="tradeGroupingMode">Grouping</Label>
+            <Select
+              value={groupingMode}
+              onValueChange={(value) => setGroupingMode(value as TradeGroupingMode)}
+              disabled={isLoading || isSavingGrouping}
+            >
+              <SelectTrigger id="tradeGroupingMode" className="w-full sm:w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(TradeGroupingMode).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {TRADE_GROUPING_MODE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">{groupingDescriptions[groupingMode]}</p>
+          </div>
+
+          {groupingMode === TradeGroupingMode.TIME_MERGED && (
+            <div className="space-y-2">
+              <Label htmlFor="tradeMergeWindowMinutes">Merge window (minutes)</Label>
+              <Input
+                id="tradeMergeWindowMinutes"
+                type="number"
+                min={1}
+                max={MAX_MERGE_WINDOW_MINUTES}
+                step={1}
+                value={mergeWindow}
+                onChange={(e) => setMergeWindow(e.target.value)}
+                disabled={isLoading || isSavingGrouping}
+                className="w-full sm:w-40"
+              />
+            </div>
+          )}
+
+          <Button
+            onClick={handleSaveGrouping}
+            disabled={isLoading || isSavingGrouping || !isGroupingChanged}
+          >
+            {isSavingGrouping ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            {isSavingGrouping ? 'Rebuilding...' : 'Save'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5 text-blue-600" />
+            Base Currency
+          </CardTitle>
+          <CardDescription>
+            Trades in other currencies are converted to your base currency with the exchange rate on the day they
+            closed, so reports and the calendar add them up correctly. Set each account&apos;s currency below.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="baseCurrency">Report P&L in</Label>
+            <Select
+              value={baseCurrency}
+              onValueChange={setBaseCurrency}
+              disabled={isLoading || isSavingCurrency}
+            >
+              <SelectTrigger id="baseCurrency" className="w-full sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencyOptions.map((currency) => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button
+            onClick={handleSaveCurrency}
+            disabled={isLoading || isSavingCurrency || baseCurrency === savedBaseCurrency}
+          >
+            {isSavingCurrency ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            {isSavingCurrency ? 'Converting...' : 'Save'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <AccountsCard />
+
+      <TaxReportCard />
+    </div>
+  );
+}
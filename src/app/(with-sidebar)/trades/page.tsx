@@ -11,13 +11,15 @@ import { FullPageTriangleLoader } from '@/components/ui/TriangleLoader';
 import { useAuth } from '@/contexts/AuthContext';
 import { useGlobalFilters } from '@/contexts/GlobalFilterContext';
 import AdSense from '@/components/AdSense';
+import { toast } from 'sonner';
 
 export default function Trades() {
   const [columnConfig, setColumnConfig] = useState<ColumnConfiguration[]>([]);
+  const [selectedTrades, setSelectedTrades] = useState<string[]>([]);
   
   const { isDemo } = useAuth();
   const { filters, toFilterOptions } = useGlobalFilters();
-  const { data: tradesData, loading, error } = useTradesData();
+  const { data: tradesData, loading, error, refetch } = useTradesData();
   
 
   // Format date range for display using actual filter dates
@@ -59,6 +61,29 @@ export default function Trades() {
     setColumnConfig(columns);
   };
 
+  // Merge the selected trades into one locked trade
+  const handleMergeSelected = async (tradeIds: string[]) => {
+    if (!confirm(`Merge ${tradeIds.length} trades into one? The merged trade is locked so rebuilds keep it.`)) return;
+
+    try {
+      const response = await fetch('/api/trades/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tradeIds }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to merge trades');
+      }
+
+      toast.success(`Merged ${tradeIds.length} trades`);
+      setSelectedTrades([]);
+      refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to merge trades');
+    }
+  };
+
   // Use real trades data instead of mock data
   const trades = tradesData?.trades || [];
   const filteredTrades = trades;
@@ -121,6 +146,9 @@ export default function Trades() {
           showPagination={true}
           onTradeSelect={handleTradeSelect}
           columnConfig={columnConfig}
+          externalSelectedTrades={selectedTrades}
+          onSelectionChange={setSelectedTrades}
+          onMergeSelected={isDemo ? undefined : handleMergeSelected}
         />
 
         {/* Summary Stats */}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { accountsRepo } from '@/lib/repositories/accountsRepo';
+import { fxRatesRepo } from '@/lib/repositories/fxRatesRepo';
+import { tradesRepo } from '@/lib/repositories/tradesRepo';
+import { AccountType } from '@prisma/client';
+import { z } from 'zod';
+
+// Request validation schema for account updates
+const updateAccountSchema = z.object({
+  nickname: z.string().max(100, 'Nickname must be less than 100 characters').nullable().optional(),
+  type: z.enum(AccountType).optional(),
+  startingBalance: z.number().nonnegative('Starting balance cannot be negative').nullable().optional(),
+  currency: z.string().length(3, 'Currency must be 3 characters').transform(value => value.toUpperCase()).optional(),
+});
+
+/**
+ * PUT /api/accounts/[accountId]
+ * Update an account's nickname, type, starting balance or currency
+ * Correcting the currency moves the account's trades in the old currency onto the new one and reconverts their P&L
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ accountId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { accountId } = await params;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = updateAccountSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const previous = (await accountsRepo.getAccounts(user.id)).find(existing => existing.id === accountId);
+    const account = await accountsRepo.updateAccount(user.id, accountId, validationResult.data);
+    if (!previous || !account) {
+      return NextResponse.json(
+        { error: 'Account not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    if (account.currency !== previous.currency) {
+      await tradesRepo.convertTrades(
+        user.id,
+        await fxRatesRepo.getBaseCurrency(user.id),
+        { tradingAccountId: account.id, currency: previous.currency },
+        account.currency
+      );
+    }
+
+    return NextResponse.json({
+      account: {
+        id: account.id,
+        externalId: account.externalId,
+        brokerId: account.brokerId,
+        nickname: account.nickname,
+        type: account.type,
+        startingBalance: account.startingBalance !== null ? Number(account.startingBalance) : null,
+        currency: account.currency,
+      },
+    });
+  } catch (error) {
+    console.error('[API] PUT /api/accounts/[accountId] error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update account' },
+      { status: 500 }
+    );
+  }
+}
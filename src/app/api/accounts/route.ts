@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { accountsRepo } from '@/lib/repositories/accountsRepo';
+
+/**
+ * GET /api/accounts
+ * List the user's brokerage accounts for the account selector and settings
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const accounts = await accountsRepo.getAccounts(user.id);
+
+    return NextResponse.json({
+      accounts: accounts.map(account => ({
+        id: account.id,
+        externalId: account.externalId,
+        brokerId: account.brokerId,
+        nickname: account.nickname,
+        type: account.type,
+        startingBalance: account.startingBalance !== null ? Number(account.startingBalance) : null,
+        currency: account.currency,
+      })),
+    });
+  } catch (error) {
+    console.error('[API] GET /api/accounts error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch accounts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '@/lib/auth0';
+import { corporateActionsRepo } from '@/lib/repositories/corporateActionsRepo';
+
+/**
+ * DELETE /api/admin/corporate-actions/[id]
+ * Remove a corporate action; orders it already restated keep their restated values
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdminAuth();
+    const { id } = await params;
+
+    const deleted = await corporateActionsRepo.deleteCorporateAction(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Corporate action not found' }, { status: 404 });
+    }
+
+    console.log(`[API] Admin ${admin.email} deleted corporate action ${id}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      }
+      if (error.message === 'Admin access required') {
+        return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+      }
+    }
+
+    console.error('Error deleting corporate action:', error);
+    return NextResponse.json({ error: 'Failed to delete corporate action' }, { status: 500 });
+  }
+}
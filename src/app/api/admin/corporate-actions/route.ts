@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { requireAdminAuth } from '@/lib/auth0';
+import { corporateActionSchema } from '@/lib/schemas/corporateActions';
+import { corporateActionsRepo } from '@/lib/repositories/corporateActionsRepo';
+
+/**
+ * GET /api/admin/corporate-actions
+ * List every split, reverse split and ticker change in effective date order
+ */
+export async function GET() {
+  try {
+    await requireAdminAuth();
+
+    const actions = await corporateActionsRepo.getCorporateActions();
+    return NextResponse.json({ actions });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      }
+      if (error.message === 'Admin access required') {
+        return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+      }
+    }
+
+    console.error('Error fetching corporate actions:', error);
+    return NextResponse.json({ error: 'Failed to fetch corporate actions' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/corporate-actions
+ * Add a corporate action; it is applied to each user's orders the next time their trades are built
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdminAuth();
+    const body = await request.json();
+
+    const validation = corporateActionSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const action = await corporateActionsRepo.createCorporateAction(validation.data, 'ADMIN');
+    console.log(`[API] Admin ${admin.email} added ${action.actionType} for ${action.symbol}`);
+
+    return NextResponse.json({ action }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      }
+      if (error.message === 'Admin access required') {
+        return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+      }
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'This corporate action already exists for the symbol and date' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error creating corporate action:', error);
+    return NextResponse.json({ error: 'Failed to create corporate action' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '@/lib/auth0';
+import { normalizeCurrency, parseFxRatesCsv } from '@/lib/currency';
+import { fxRatesRepo } from '@/lib/repositories/fxRatesRepo';
+import { tradesRepo } from '@/lib/repositories/tradesRepo';
+
+const MAX_CSV_SIZE = 5 * 1024 * 1024;
+
+/**
+ * GET /api/admin/fx-rates?currency=CAD
+ * List the most recent exchange rates, optionally for one currency
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdminAuth();
+
+    const { searchParams } = new URL(request.url);
+    const currency = normalizeCurrency(searchParams.get('currency')) ?? undefined;
+
+    const rates = await fxRatesRepo.getRates(currency);
+    return NextResponse.json({ rates });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      }
+      if (error.message === 'Admin access required') {
+        return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+      }
+    }
+
+    console.error('Error fetching exchange rates:', error);
+    return NextResponse.json({ error: 'Failed to fetch exchange rates' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/fx-rates
+ * Import daily rates from an uploaded CSV (date, from, to, rate); existing rates for a day are replaced
+ * Trades that were built without a rate are converted once the import completes
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdminAuth();
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A CSV file is required' }, { status: 400 });
+    }
+    if (file.size > MAX_CSV_SIZE) {
+      return NextResponse.json({ error: 'CSV file must be 5MB or smaller' }, { status: 400 });
+    }
+
+    const { rates, errors } = parseFxRatesCsv(await file.text());
+    if (rates.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid rates found in the file', details: errors.slice(0, 20) },
+        { status: 400 }
+      );
+    }
+
+    const imported = await fxRatesRepo.upsertRates(rates, 'CSV');
+    const tradesConverted = await tradesRepo.convertUnconvertedTrades();
+    console.log(`[API] Admin ${admin.email} imported ${imported} exchange rates`);
+
+    return NextResponse.json({
+      imported,
+      skipped: errors.length,
+      errors: errors.slice(0, 20),
+      tradesConverted,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      }
+      if (error.message === 'Admin access required') {
+        return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+      }
+    }
+
+    console.error('Error importing exchange rates:', error);
+    return NextResponse.json({ error: 'Failed to import exchange rates' }, { status: 500 });
+  }
+}
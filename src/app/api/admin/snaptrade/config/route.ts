@@ -38,7 +38,7 @@ export async function GET(request: NextRequest) {
           startDate: '2015-01-01',
           endDate: null,
           limit: 500,
-          activityTypes: 'BUY,SELL'
+          activityTypes: 'BUY,SELL,DIVIDEND,INTEREST,FEE,CONTRIBUTION,WITHDRAWAL,TRANSFER'
         }
       });
     }
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth0';
 import { prisma } from '@/lib/prisma';
 import { TradingAnalyzer } from '@/lib/analytics';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
 import { Prisma } from '@prisma/client';
 
 export async function GET(request: NextRequest) {
@@ -35,11 +36,16 @@ export async function GET(request: NextRequest) {
       where.symbol = symbol.toUpperCase();
     }
 
+    const accountId = TradeFilterService.parseAccountId(searchParams);
+    if (accountId) {
+      where.tradingAccountId = accountId;
+    }
+
     // Fetch trades
-    const trades = await prisma.trade.findMany({
+    const trades = TradeFilterService.applyViewMode(await prisma.trade.findMany({
       where,
       orderBy: { date: 'asc' }
-    });
+    }), TradeFilterService.parseViewMode(searchParams));
 
     // Create analyzer and calculate metrics (without dayData)
     const analyzer = new TradingAnalyzer(trades);
@@ -70,7 +76,7 @@ export async function GET(request: NextRequest) {
           date: trade.date,
           symbol: trade.symbol,
           side: trade.side,
-          volume: trade.quantity,
+          volume: Number(trade.quantity || 0),
           pnl: typeof trade.pnl === 'object' ? trade.pnl.toNumber() : trade.pnl
         })),
         topWinners: top5Winners.map(trade => ({
@@ -78,7 +84,7 @@ export async function GET(request: NextRequest) {
           date: trade.date,
           symbol: trade.symbol,
           side: trade.side,
-          volume: trade.quantity,
+          volume: Number(trade.quantity || 0),
           pnl: typeof trade.pnl === 'object' ? trade.pnl.toNumber() : trade.pnl
         })),
         topLosers: top5Losers.map(trade => ({
@@ -86,7 +92,7 @@ export async function GET(request: NextRequest) {
           date: trade.date,
           symbol: trade.symbol,
           side: trade.side,
-          volume: trade.quantity,
+          volume: Number(trade.quantity || 0),
           pnl: typeof trade.pnl === 'object' ? trade.pnl.toNumber() : trade.pnl
         }))
       }
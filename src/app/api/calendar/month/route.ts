@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getCurrentUser } from '@/lib/auth0';
 import { getDemoUserId } from '@/lib/demo/demoSession';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
 
 export async function GET(req: NextRequest) {
   try {
@@ -11,6 +12,8 @@ export async function GET(req: NextRequest) {
     const month = Number(url.searchParams.get('month')); // 1-12
     const startDate = url.searchParams.get('startDate'); // Optional: for calendar grid range
     const endDate = url.searchParams.get('endDate'); // Optional: for calendar grid range
+    const pnlColumn = TradeFilterService.pnlColumnSql(TradeFilterService.parseViewMode(url.searchParams));
+    const accountCondition = TradeFilterService.accountConditionSql(TradeFilterService.parseAccountId(url.searchParams));
 
     if (!year || !month || month < 1 || month > 12) {
       return NextResponse.json({ error: 'Invalid parameters' }, { status: 400 });
@@ -49,13 +52,14 @@ export async function GET(req: NextRequest) {
       SELECT 
         DATE(date) as day,
         COUNT(*) as trade_count,
-        SUM(pnl) as total_pnl,
-        SUM(CASE WHEN pnl > 0 THEN 1 ELSE 0 END) as wins
+        SUM(${pnlColumn}) as total_pnl,
+        SUM(CASE WHEN ${pnlColumn} > 0 THEN 1 ELSE 0 END) as wins
       FROM trades
       WHERE "userId" = ${userId}
         AND date >= ${start}
         AND date < ${end}
         AND status = 'CLOSED'
+        ${accountCondition}
       GROUP BY DATE(date)
       ORDER BY day;
     `;
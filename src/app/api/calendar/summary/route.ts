@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getCurrentUser } from '@/lib/auth0';
 import { getDemoUserId } from '@/lib/demo/demoSession';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
 import { mockTrades } from '@/data/mockData';
 import { Prisma } from '@prisma/client';
 
@@ -34,6 +35,8 @@ export async function GET(req: NextRequest) {
     const from = url.searchParams.get('from');
     const to = url.searchParams.get('to');
     const timeframe = url.searchParams.get('timeframe') || 'all'; // month, year, all
+    const pnlColumn = TradeFilterService.pnlColumnSql(TradeFilterService.parseViewMode(url.searchParams));
+    const accountCondition = TradeFilterService.accountConditionSql(TradeFilterService.parseAccountId(url.searchParams));
 
     let startDate: Date | null = null;
     let endDate: Date | null = null;
@@ -52,7 +55,7 @@ export async function GET(req: NextRequest) {
     }
 
     // Build WHERE clause
-    const whereClause = Prisma.sql`WHERE "userId" = ${userId} AND status = 'CLOSED'`;
+    const whereClause = Prisma.sql`WHERE "userId" = ${userId} AND status = 'CLOSED' ${accountCondition}`;
     const dateFilter = startDate && endDate 
       ? Prisma.sql` AND date >= ${startDate} AND date < ${endDate}`
       : Prisma.empty;
@@ -79,7 +82,7 @@ export async function GET(req: NextRequest) {
         quantity,
         "entryPrice" as entry_price,
         "exitPrice" as exit_price,
-        pnl,
+        ${pnlColumn} as pnl,
         status
       FROM trades
       ${whereClause}
@@ -99,13 +102,13 @@ export async function GET(req: NextRequest) {
 
     // Performance by Day of Month (1-31)
     const dailyPerf = await prisma.$queryRaw<
-      Array<{ day: number; total_pnl: number | null; trade_count: bigint; total_shares: bigint | null }>
+      Array<{ day: number; total_pnl: number | null; trade_count: bigint; total_shares: number | null }>
     >`
       SELECT 
         EXTRACT(DAY FROM date)::int as day,
-        SUM(pnl) as total_pnl,
+        SUM(${pnlColumn}) as total_pnl,
         COUNT(*) as trade_count,
-        SUM(COALESCE(quantity, 0)) as total_shares
+        SUM(COALESCE(quantity, 0))::FLOAT as total_shares
       FROM trades
       ${whereClause}
       ${dateFilter}
@@ -115,14 +118,14 @@ export async function GET(req: NextRequest) {
 
     // Performance by Month of Year
     const monthlyPerf = await prisma.$queryRaw<
-      Array<{ month: number; month_name: string; total_pnl: number | null; trade_count: bigint; total_shares: bigint | null }>
+      Array<{ month: number; month_name: string; total_pnl: number | null; trade_count: bigint; total_shares: number | null }>
     >`
       SELECT 
         EXTRACT(MONTH FROM date)::int as month,
         MAX(TO_CHAR(date, 'Mon')) as month_name,
-        SUM(pnl) as total_pnl,
+        SUM(${pnlColumn}) as total_pnl,
         COUNT(*) as trade_count,
-        SUM(COALESCE(quantity, 0)) as total_shares
+        SUM(COALESCE(quantity, 0))::FLOAT as total_shares
       FROM trades
       ${whereClause}
       ${dateFilter}
@@ -132,13 +135,13 @@ export async function GET(req: NextRequest) {
 
     // Performance by Year
     const yearlyPerf = await prisma.$queryRaw<
-      Array<{ year: number; total_pnl: number | null; trade_count: bigint; total_shares: bigint | null }>
+      Array<{ year: number; total_pnl: number | null; trade_count: bigint; total_shares: number | null }>
     >`
       SELECT 
         EXTRACT(YEAR FROM date)::int as year,
-        SUM(pnl) as total_pnl,
+        SUM(${pnlColumn}) as total_pnl,
         COUNT(*) as trade_count,
-        SUM(COALESCE(quantity, 0)) as total_shares
+        SUM(COALESCE(quantity, 0))::FLOAT as total_shares
       FROM trades
       ${whereClause}
       ${dateFilter}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getCurrentUser } from '@/lib/auth0';
 import { getDemoUserId } from '@/lib/demo/demoSession';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
 import { mockTrades } from '@/data/mockData';
 import { Prisma, TradeSide } from '@prisma/client';
 
@@ -94,14 +95,20 @@ export async function GET(req: NextRequest) {
       whereConditions.tags = { hasSome: tags };
     }
 
+    const accountId = TradeFilterService.parseAccountId(url.searchParams);
+    if (accountId) {
+      whereConditions.tradingAccountId = accountId;
+    }
+
     // Get trades grouped by date using Prisma
-    const trades = await prisma.trade.findMany({
+    const trades = TradeFilterService.applyViewMode(await prisma.trade.findMany({
       where: whereConditions,
       select: {
         date: true,
-        pnl: true
+        pnl: true,
+        netPnl: true
       }
-    });
+    }), TradeFilterService.parseViewMode(url.searchParams));
 
     // Group by date and calculate statistics
     const dailyMap: Record<string, {tradeCount: number; pnl: number; winRate: number}> = {};
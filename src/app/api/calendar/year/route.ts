@@ -2,12 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getCurrentUser } from '@/lib/auth0';
 import { getDemoUserId } from '@/lib/demo/demoSession';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
 
 export async function GET(req: NextRequest) {
   try {
     const url = new URL(req.url);
     const demo = url.searchParams.get('demo') === 'true';
     const year = Number(url.searchParams.get('year')) || new Date().getFullYear();
+    const pnlColumn = TradeFilterService.pnlColumnSql(TradeFilterService.parseViewMode(url.searchParams));
+    const accountCondition = TradeFilterService.accountConditionSql(TradeFilterService.parseAccountId(url.searchParams));
 
     let userId: string;
     
@@ -37,13 +40,14 @@ export async function GET(req: NextRequest) {
       SELECT 
         EXTRACT(MONTH FROM date)::int as month,
         TO_CHAR(date, 'Mon') as month_name,
-        SUM(pnl) as total_pnl,
+        SUM(${pnlColumn}) as total_pnl,
         COUNT(*) as trade_count,
-        SUM(CASE WHEN pnl > 0 THEN 1 ELSE 0 END) as wins
+        SUM(CASE WHEN ${pnlColumn} > 0 THEN 1 ELSE 0 END) as wins
       FROM trades
       WHERE "userId" = ${userId}
         AND EXTRACT(YEAR FROM date) = ${year}
         AND status = 'CLOSED'
+        ${accountCondition}
       GROUP BY EXTRACT(MONTH FROM date), TO_CHAR(date, 'Mon')
       ORDER BY month;
     `;
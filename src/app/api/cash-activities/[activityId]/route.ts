@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { cashActivitiesRepo } from '@/lib/repositories/cashActivitiesRepo';
+
+/**
+ * DELETE /api/cash-activities/[activityId]
+ * Remove a cash ledger entry, e.g. a row an upload misread as a cash movement
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ activityId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { activityId } = await params;
+    if (!await cashActivitiesRepo.deleteActivity(user.id, activityId)) {
+      return NextResponse.json(
+        { error: 'Cash activity not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API] DELETE /api/cash-activities/[activityId] error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete cash activity' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { cashActivitiesRepo, CashActivityFilters } from '@/lib/repositories/cashActivitiesRepo';
+import { cashActivitiesQuerySchema } from '@/lib/schemas/cashActivities';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
+
+/**
+ * GET /api/cash-activities?dateFrom=&dateTo=&accountId=&activityType=
+ * Cash ledger: dividends, interest, fees and cash movements, with the net amount per type
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validationResult = cashActivitiesQuerySchema.safeParse({
+      dateFrom: searchParams.get('dateFrom') || undefined,
+      dateTo: searchParams.get('dateTo') || undefined,
+      activityType: searchParams.get('activityType') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const { dateFrom, dateTo, activityType, limit } = validationResult.data;
+    const filters: CashActivityFilters = {
+      accountId: TradeFilterService.parseAccountId(searchParams),
+      dateFrom: dateFrom ? new Date(dateFrom) : undefined,
+      activityTypes: activityType ? [activityType] : undefined,
+    };
+    if (dateTo) {
+      filters.dateTo = new Date(dateTo);
+      filters.dateTo.setHours(23, 59, 59, 999);
+    }
+
+    const [activities, totals] = await Promise.all([
+      cashActivitiesRepo.getActivities(user.id, filters, limit),
+      cashActivitiesRepo.getTotals(user.id, filters),
+    ]);
+
+    return NextResponse.json({
+      activities: activities.map(activity => ({
+        id: activity.id,
+        accountId: activity.tradingAccountId,
+        activityType: activity.activityType,
+        amount: activity.amount.toNumber(),
+        currency: activity.currency,
+        symbol: activity.symbol,
+        description: activity.description,
+        occurredAt: activity.occurredAt.toISOString(),
+        importSource: activity.importSource,
+      })),
+      totals,
+    });
+  } catch (error) {
+    console.error('[API] GET /api/cash-activities error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch cash activities' },
+      { status: 500 }
+    );
+  }
+}
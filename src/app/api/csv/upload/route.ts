@@ -1,9 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { CsvIngestionService, FILE_SIZE_LIMITS } from '@/lib/csvIngestion';
+import { CsvIngestionService, FILE_SIZE_LIMITS, isSupportedUploadFile } from '@/lib/csvIngestion';
 import { getCurrentUser } from '@/lib/auth0';
 import { checkUploadLimit, incrementUploadCount } from '@/lib/uploadRateLimiter';
+import { convertXlsxToCsv, isXlsxFile, XlsxConversion, XlsxReadError } from '@/lib/xlsxWorkbook';
+import { ImportPreviewMismatchError } from '@/lib/importPreview';
 import { z } from 'zod';
 
+/**
+ * Text of an uploaded file; Excel workbooks are converted to CSV from the chosen sheet and header row
+ */
+async function readUploadContent(
+  file: File,
+  formData: FormData
+): Promise<{ fileContent: string; workbook?: Omit<XlsxConversion, 'csv'> }> {
+  if (!isXlsxFile(file.name)) {
+    return { fileContent: await file.text() };
+  }
+
+  const headerRow = parseInt(String(formData.get('headerRow') ?? ''), 10);
+  const { csv, ...workbook } = convertXlsxToCsv(Buffer.from(await file.arrayBuffer()), {
+    sheetName: (formData.get('sheetName') as string) || undefined,
+    headerRow: headerRow > 0 ? headerRow : undefined,
+  });
+  return { fileContent: csv, workbook };
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Get the authenticated user
@@ -34,9 +55,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+    if (!isSupportedUploadFile(file.name)) {
       return NextResponse.json({ 
-        error: 'Invalid file type. Only CSV files are supported.' 
+        error: 'Invalid file type. Only CSV and Excel (.xlsx) files, IBKR Flex Query XML exports, OFX / QFX statements and FIX logs are supported.' 
       }, { status: 400 });
     }
 
@@ -55,9 +76,13 @@ export async function POST(request: NextRequest) {
     
     const brokerName = formData.get('brokerName') as string;
 
+    // mode=preview reports what the import would change without writing anything; previewToken confirms a preview
+    const preview = formData.get('mode') === 'preview';
+    const previewToken = (formData.get('previewToken') as string) || undefined;
+
 
     // Read file content
-    const fileContent = await file.text();
+    const { fileContent } = await readUploadContent(file, formData);
 
     // Initialize ingestion service
     const ingestionService = new CsvIngestionService();
@@ -78,9 +103,14 @@ export async function POST(request: NextRequest) {
       user.id,
       accountTags,
       undefined, // userMappings
-      brokerName || undefined // brokerName
+      brokerName || undefined, // brokerName
+      { preview, previewToken }
     );
 
+    if (preview) {
+      return NextResponse.json(result);
+    }
+
 
 
     // ONLY increment upload count if session is complete
@@ -101,6 +131,10 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('CSV upload error:', error);
+
+    if (error instanceof XlsxReadError || error instanceof ImportPreviewMismatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     
     if (error instanceof z.ZodError) {
       return NextResponse.json({
@@ -131,13 +165,13 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
     }
 
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+    if (!isSupportedUploadFile(file.name)) {
       return NextResponse.json({ 
-        error: 'Invalid file type. Only CSV files are supported.' 
+        error: 'Invalid file type. Only CSV and Excel (.xlsx) files, IBKR Flex Query XML exports, OFX / QFX statements and FIX logs are supported.' 
       }, { status: 400 });
     }
 
-    const fileContent = await file.text();
+    const { fileContent, workbook } = await readUploadContent(file, formData);
     const ingestionService = new CsvIngestionService();
     
     // Just validate, don't process
@@ -146,7 +180,12 @@ export async function PUT(request: NextRequest) {
     // Include detected format information in response
     const response = {
       ...validation,
-      detectedFormatInfo: validation.detectedFormat ? {
+      workbook,
+      detectedFormatInfo: validation.nativeFormat ? {
+        ...validation.nativeFormat,
+        confidence: 1,
+        reasoning: [`Read by the built-in ${validation.nativeFormat.name} parser`],
+      } : validation.detectedFormat ? {
         name: validation.detectedFormat.name,
         description: validation.detectedFormat.description,
         confidence: validation.formatConfidence,
@@ -167,6 +206,10 @@ export async function PUT(request: NextRequest) {
 
   } catch (error) {
     console.error('CSV validation error:', error);
+
+    if (error instanceof XlsxReadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     
     return NextResponse.json({
       error: error instanceof Error ? error.message : 'Validation failed'
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth0';
 import { prisma } from '@/lib/prisma';
+import type { PnlViewMode } from '@/types';
 import { 
   calculatePerformanceByDayOfWeek,
   calculatePerformanceByMonthOfYear,
@@ -10,6 +11,10 @@ import {
 } from '@/lib/tradeAggregations';
 import { cacheService } from '@/lib/services/cacheService';
 import { calculateCumulativePnl } from '@/lib/cumulativePnlCalculation';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
+import { calculateAccountEquity } from '@/lib/cashLedger';
+import { cashActivitiesRepo } from '@/lib/repositories/cashActivitiesRepo';
+import { accountsRepo } from '@/lib/repositories/accountsRepo';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -18,10 +23,12 @@ export async function GET(request: Request) {
   const dateFrom = searchParams.get('dateFrom');
   const dateTo = searchParams.get('dateTo');
   const symbol = searchParams.get('symbol');
+  const accountId = TradeFilterService.parseAccountId(searchParams);
   const side = searchParams.get('side') as 'all' | 'long' | 'short' | null;
   const tags = searchParams.get('tags')?.split(',').filter(Boolean);
   const duration = searchParams.get('duration') as 'all' | 'intraday' | 'swing' | null;
   const showOpenTrades = searchParams.get('showOpenTrades') === 'true';
+  const viewMode = TradeFilterService.parseViewMode(searchParams);
   
   // Get current user (handles both demo and Auth0)
   const user = await getCurrentUser();
@@ -33,7 +40,7 @@ export async function GET(request: Request) {
 
   // Generate cache key based on filters
   const cacheKey = `dashboard:${userId}:${JSON.stringify({
-    dateFrom, dateTo, symbol, side, tags, duration, showOpenTrades
+    dateFrom, dateTo, symbol, accountId, side, tags, duration, showOpenTrades, viewMode
   })}`;
 
   // Try to get cached data first
@@ -50,11 +57,13 @@ export async function GET(request: Request) {
       dateFrom?: Date;
       dateTo?: Date;
       symbol?: string;
+      accountId?: string;
       side?: 'LONG' | 'SHORT';
       tags?: string[];
       duration?: 'all' | 'intraday' | 'swing';
       showOpenTrades?: boolean;
-    } = {};
+      viewMode: PnlViewMode;
+    } = { viewMode };
     if (dateFrom) filters.dateFrom = new Date(dateFrom);
     if (dateTo) {
       const endDate = new Date(dateTo);
@@ -62,6 +71,7 @@ export async function GET(request: Request) {
       filters.dateTo = endDate;
     }
     if (symbol && symbol !== 'all') filters.symbol = symbol;
+    if (accountId) filters.accountId = accountId;
     if (side && side !== 'all') filters.side = side.toUpperCase() as 'LONG' | 'SHORT';
     if (tags && tags.length > 0) filters.tags = tags;
     if (duration && duration !== 'all') filters.duration = duration;
@@ -87,6 +97,10 @@ export async function GET(request: Request) {
       whereClause.symbol = filters.symbol;
     }
     
+    if (filters.accountId) {
+      whereClause.tradingAccountId = filters.accountId;
+    }
+    
     if (filters.side) {
       whereClause.side = filters.side;
     }
@@ -104,25 +118,26 @@ export async function GET(request: Request) {
     }
 
     // Optimize database queries with parallel execution and selective fields
-    const trades = await prisma.trade.findMany({
+    const trades = TradeFilterService.applyViewMode(await prisma.trade.findMany({
       where: whereClause,
       select: {
         id: true,
         date: true,
         exitDate: true,
         pnl: true,
+        netPnl: true,
         quantity: true,
         timeInTrade: true,
         symbol: true,
         side: true
       },
       orderBy: { date: 'asc' }
-    });
+    }), viewMode);
 
     // Calculate basic KPIs from filtered trades
     const totalPnl = trades.reduce((sum, trade) => sum + (typeof trade.pnl === 'object' ? trade.pnl.toNumber() : Number(trade.pnl)), 0);
     const totalTrades = trades.length;
-    const totalVolume = trades.reduce((sum, trade) => sum + (trade.quantity || 0), 0);
+    const totalVolume = trades.reduce((sum, trade) => sum + Number(trade.quantity || 0), 0);
     const winningTrades = trades.filter(trade => (typeof trade.pnl === 'object' ? trade.pnl.toNumber() : Number(trade.pnl)) > 0);
     const losingTrades = trades.filter(trade => (typeof trade.pnl === 'object' ? trade.pnl.toNumber() : Number(trade.pnl)) < 0);
     const winRate = totalTrades > 0 ? (winningTrades.length / totalTrades) * 100 : 0;
@@ -164,6 +179,22 @@ export async function GET(request: Request) {
     // Calculate cumulative P&L using shared utility (consistent with reports page)
     const cumulativePnl = calculateCumulativePnl(trades, filters.dateFrom);
 
+    // Account equity: starting balance plus trading P&L, with cash flows kept as a separate series
+    const [cashActivities, accounts] = await Promise.all([
+      cashActivitiesRepo.getActivities(userId, {
+        accountId: filters.accountId,
+        dateFrom: filters.dateFrom,
+        dateTo: filters.dateTo,
+      }),
+      accountsRepo.getAccounts(userId),
+    ]);
+    const startingBalance = accounts
+      .filter(account => !filters.accountId || account.id === filters.accountId)
+      .reduce((sum, account) => sum + (account.startingBalance?.toNumber() ?? 0), 0);
+    const accountEquity = cashActivities.length > 0 || startingBalance !== 0
+      ? calculateAccountEquity(trades, cashActivities, startingBalance)
+      : [];
+
     // Execute all advanced metrics calculations in parallel for optimal performance
     const [
       performanceByDayOfWeek,
@@ -207,6 +238,7 @@ export async function GET(request: Request) {
         avgDailyVolume
       },
       cumulativePnl,
+      accountEquity,
       summary: {
         totalTrades,
         totalPnl,
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { ChangeHistoryError, revertChange } from '@/lib/changeTracking';
+
+/**
+ * POST /api/history/[changeId]/revert
+ * Put a field back to its value before the change; the revert is recorded as a change of its own
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ changeId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { changeId } = await params;
+    const fieldsChanged = await revertChange(user.id, changeId);
+
+    return NextResponse.json({ success: true, fieldsChanged });
+  } catch (error) {
+    if (error instanceof ChangeHistoryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[API] POST /api/history/[changeId]/revert error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revert change' },
+      { status: 500 }
+    );
+  }
+}
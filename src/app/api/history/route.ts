@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { getRecordsHistory } from '@/lib/changeTracking';
+import { recordsQuerySchema } from '@/lib/schemas/records';
+
+/**
+ * GET /api/history?date=&tradeId=
+ * Recorded changes for a records day, or for one trade and its executions when tradeId is given
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validationResult = recordsQuerySchema.safeParse({
+      date: searchParams.get('date') || undefined,
+      tradeId: searchParams.get('tradeId') || undefined,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const { date, tradeId } = validationResult.data;
+    const changes = await getRecordsHistory(user.id, new Date(date), tradeId);
+
+    return NextResponse.json({ changes });
+  } catch (error) {
+    console.error('[API] GET /api/history error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch change history' },
+      { status: 500 }
+    );
+  }
+}
@@ -79,7 +79,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         userEmail: batch.user?.email,
         userName: batch.user?.name
       },
-      orders: orders,
+      orders: orders.map(order => ({ ...order, orderQuantity: order.orderQuantity.toNumber() })),
       summary: {
         totalOrders: orders.length,
         orderStatuses: orders.reduce((acc, order) => {
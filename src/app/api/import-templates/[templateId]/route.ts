@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { importTemplatesRepo } from '@/lib/repositories/importTemplatesRepo';
+
+/**
+ * DELETE /api/import-templates/[templateId]
+ * Delete one version of a template; uploads go back to the previous version, or to format detection
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { templateId } = await params;
+    if (!await importTemplatesRepo.deleteTemplate(user.id, templateId)) {
+      return NextResponse.json(
+        { error: 'Import template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API] DELETE /api/import-templates/[templateId] error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete import template' },
+      { status: 500 }
+    );
+  }
+}
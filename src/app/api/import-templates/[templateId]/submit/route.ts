@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { ImportTemplateError, serializeImportTemplate } from '@/lib/importTemplates';
+import { importTemplatesRepo } from '@/lib/repositories/importTemplatesRepo';
+import { submitImportTemplateSchema } from '@/lib/schemas/importTemplates';
+
+/**
+ * POST /api/import-templates/[templateId]/submit
+ * Submit a template version for global approval; admins review it with the other pending broker formats
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const validationResult = submitImportTemplateSchema.safeParse(await request.json().catch(() => ({})));
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { templateId } = await params;
+    const template = await importTemplatesRepo.submitForApproval(user.id, templateId, validationResult.data.brokerName);
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Import template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ template: serializeImportTemplate(template) });
+  } catch (error) {
+    if (error instanceof ImportTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[API] POST /api/import-templates/[templateId]/submit error:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit import template' },
+      { status: 500 }
+    );
+  }
+}
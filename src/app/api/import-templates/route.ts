@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { ImportTemplateError, serializeImportTemplate } from '@/lib/importTemplates';
+import { importTemplatesRepo } from '@/lib/repositories/importTemplatesRepo';
+import { saveImportTemplateSchema } from '@/lib/schemas/importTemplates';
+
+/**
+ * GET /api/import-templates
+ * The user's import templates, every version, latest version of each layout first
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const templates = await importTemplatesRepo.getTemplates(user.id);
+    return NextResponse.json({ templates: templates.map(serializeImportTemplate) });
+  } catch (error) {
+    console.error('[API] GET /api/import-templates error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import templates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/import-templates
+ * Save a mapping as the next version of the user's template for its headers
+ * Uploads with the same headers use it from then on, without staging or review.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const validationResult = saveImportTemplateSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const template = await importTemplatesRepo.saveTemplate(user.id, validationResult.data);
+    return NextResponse.json({ template: serializeImportTemplate(template) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ImportTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[API] POST /api/import-templates error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save import template' },
+      { status: 500 }
+    );
+  }
+}
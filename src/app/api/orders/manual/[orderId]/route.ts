@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { accountsRepo } from '@/lib/repositories/accountsRepo';
+import { manualExecutionSchema } from '@/lib/schemas/manualExecutions';
+import { ChangeHistoryError, deleteManualExecution, editManualExecution } from '@/lib/changeTracking';
+
+/**
+ * PUT /api/orders/manual/[orderId]
+ * Edit a hand-entered execution and rebuild the trades it affects
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await params;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = manualExecutionSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const execution = validationResult.data;
+    if (execution.accountId) {
+      const accounts = await accountsRepo.getAccounts(user.id);
+      if (!accounts.some(account => account.id === execution.accountId)) {
+        return NextResponse.json(
+          { error: 'Account not found or access denied' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const tradesRebuilt = await editManualExecution(user.id, orderId, execution);
+
+    return NextResponse.json({ success: true, tradesRebuilt });
+  } catch (error) {
+    if (error instanceof ChangeHistoryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('[API] PUT /api/orders/manual/[orderId] error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update manual execution' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/orders/manual/[orderId]
+ * Delete a hand-entered execution and rebuild the trades it was part of
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await params;
+
+    const tradesRebuilt = await deleteManualExecution(user.id, orderId);
+
+    return NextResponse.json({ success: true, tradesRebuilt });
+  } catch (error) {
+    if (error instanceof ChangeHistoryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('[API] DELETE /api/orders/manual/[orderId] error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete manual execution' },
+      { status: 500 }
+    );
+  }
+}
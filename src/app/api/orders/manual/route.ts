@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { ordersRepo } from '@/lib/repositories/ordersRepo';
+import { accountsRepo } from '@/lib/repositories/accountsRepo';
+import { processUserOrders } from '@/lib/tradeBuilder';
+import { createManualExecutionsSchema } from '@/lib/schemas/manualExecutions';
+
+/**
+ * GET /api/orders/manual
+ * List the user's hand-entered executions
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const executions = await ordersRepo.getManualExecutions(user.id);
+    return NextResponse.json({ executions });
+  } catch (error) {
+    console.error('[API] GET /api/orders/manual error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch manual executions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/orders/manual
+ * Save hand-entered executions as MANUAL orders and build them into trades
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = createManualExecutionsSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const { executions } = validationResult.data;
+
+    const accountIds = new Set((await accountsRepo.getAccounts(user.id)).map(account => account.id));
+    if (executions.some(execution => execution.accountId && !accountIds.has(execution.accountId))) {
+      return NextResponse.json(
+        { error: 'Account not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const orderIds = await ordersRepo.createManualOrders(user.id, executions);
+    const trades = await processUserOrders(user.id);
+
+    return NextResponse.json({
+      success: true,
+      ordersCreated: orderIds.length,
+      tradesBuilt: trades.length,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('[API] POST /api/orders/manual error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save manual executions' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,10 @@
 import { NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth0';
 import { prisma } from '@/lib/prisma';
-import { TradeStatus } from '@prisma/client';
+import { ChangeEntityType, TradeStatus } from '@prisma/client';
+import { changeHistoryRepo } from '@/lib/repositories/changeHistoryRepo';
+import { CHANGE_SOURCES } from '@/lib/changeHistory';
+import { getTradeEntityType } from '@/lib/changeTracking';
 
 export async function POST(request: Request) {
   try {
@@ -58,6 +61,9 @@ export async function POST(request: Request) {
         where: { id: tradeId },
         data: updateData
       });
+      await changeHistoryRepo.recordChanges(
+        user.id, user.id, getTradeEntityType(existingTrade), tradeId, existingTrade, updateData, CHANGE_SOURCES.NOTES
+      );
 
       return NextResponse.json({
         success: true,
@@ -104,10 +110,14 @@ export async function POST(request: Request) {
 
       if (blankTrade) {
         // Update existing blank trade
+        const previousNotes = blankTrade.notes;
         blankTrade = await prisma.trade.update({
           where: { id: blankTrade.id },
           data: updateData
         });
+        await changeHistoryRepo.recordChanges(
+          user.id, user.id, ChangeEntityType.RECORDS_ENTRY, blankTrade.id, { notes: previousNotes }, updateData, CHANGE_SOURCES.NOTES
+        );
       } else {
         // Create new blank trade
         blankTrade = await prisma.trade.create({
@@ -127,6 +137,9 @@ export async function POST(request: Request) {
             isCalculated: false
           }
         });
+        await changeHistoryRepo.recordChanges(
+          user.id, user.id, ChangeEntityType.RECORDS_ENTRY, blankTrade.id, { notes: null }, updateData, CHANGE_SOURCES.NOTES
+        );
       }
 
       return NextResponse.json({
@@ -164,6 +177,9 @@ export async function POST(request: Request) {
         isCalculated: false
       }
     });
+    await changeHistoryRepo.recordChanges(
+      user.id, user.id, ChangeEntityType.RECORDS_ENTRY, blankTrade.id, { notes: null }, updateData, CHANGE_SOURCES.NOTES
+    );
 
     return NextResponse.json({
       success: true,
@@ -3,6 +3,9 @@ import { getCurrentUser } from '@/lib/auth0';
 import { tradesRepo } from '@/lib/repositories/tradesRepo';
 import { ordersRepo } from '@/lib/repositories/ordersRepo';
 import { prisma } from '@/lib/prisma';
+import { changeHistoryRepo } from '@/lib/repositories/changeHistoryRepo';
+import { CHANGE_SOURCES } from '@/lib/changeHistory';
+import { ChangeEntityType } from '@prisma/client';
 import { ExecutionOrder } from '@/components/ExecutionsTable';
 import { recordsQuerySchema, createRecordsSchema } from '@/lib/schemas/records';
 import { ERROR_MESSAGES, HTTP_STATUS, DATE_FORMATS, DEFAULTS } from '@/constants/app';
@@ -181,7 +184,7 @@ export async function GET(request: Request) {
             orderType: order.orderType,
             side: order.side,
             timeInForce: order.timeInForce,
-            orderQuantity: order.orderQuantity,
+            orderQuantity: Number(order.orderQuantity),
             limitPrice: order.limitPrice,
             stopPrice: order.stopPrice,
             orderStatus: order.orderStatus,
@@ -191,20 +194,30 @@ export async function GET(request: Request) {
             orderCancelledTime: order.orderCancelledTime,
             accountId: order.accountId,
             orderAccount: order.orderAccount,
+            tradingAccountId: order.tradingAccountId,
             orderRoute: order.orderRoute,
             brokerType: order.brokerType,
             brokerId: order.brokerId,
             commission: order.commission,
             fees: order.fees,
+            currency: order.currency,
             tags: order.tags,
             usedInTrade: order.usedInTrade,
             tradeId: order.tradeId,
             importBatchId: order.importBatchId,
+            importSource: order.importSource,
             snapTradeActivityId: order.snapTradeActivityId,
             datePrecision: order.datePrecision,
             importSequence: order.importSequence,
             activityHash: order.activityHash,
-            brokerMetadata: order.brokerMetadata
+            brokerMetadata: order.brokerMetadata,
+            underlyingSymbol: order.underlyingSymbol,
+            optionRight: order.optionRight,
+            strikePrice: order.strikePrice,
+            expirationDate: order.expirationDate,
+            contractMultiplier: order.contractMultiplier,
+            optionEvent: order.optionEvent,
+            appliedCorporateActionIds: order.appliedCorporateActionIds
           }));
             } catch (orderError) {
               console.error(`[RECORDS API] Error fetching orders for trade ${trade.id}:`, {
@@ -234,7 +247,7 @@ export async function GET(request: Request) {
           }) : '00:00',
           symbol: trade.symbol,
           side: trade.side.toLowerCase() as 'long' | 'short',
-          quantity: trade.quantity || 0,
+          quantity: Number(trade.quantity || 0),
           executions: trade.executions || executions.length,
           pnl: trade.pnl.toNumber(),
           entryPrice: trade.entryPrice ? trade.entryPrice.toString() : undefined,
@@ -245,6 +258,7 @@ export async function GET(request: Request) {
           notes: trade.notes,
           notesChanges: trade.notesChanges,
           tags: trade.tags,
+          isLocked: trade.isLocked,
           executionDetails: executions // Include detailed executions
         };
       })
@@ -394,6 +408,10 @@ export async function POST(request: Request) {
           }
         });
       }
+
+      await changeHistoryRepo.recordChanges(
+        user.id, user.id, ChangeEntityType.RECORDS_ENTRY, blankTrade.id, blankTradeForDate ?? { notes: null }, { notes }, CHANGE_SOURCES.NOTES
+      );
     }
 
     const recordsEntry = {
@@ -411,7 +429,7 @@ export async function POST(request: Request) {
         symbol: trade.symbol,
         side: trade.side.toLowerCase(),
         pnl: trade.pnl.toNumber(),
-        quantity: trade.quantity || 0,
+        quantity: Number(trade.quantity || 0),
         date: trade.date.toLocaleDateString('en-US', { 
           day: '2-digit', 
           month: 'short', 
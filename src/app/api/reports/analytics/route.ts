@@ -4,6 +4,8 @@ import { getDemoUserId } from '@/lib/demo/demoSession';
 import { prisma } from '@/lib/prisma';
 import { AnalyticsService } from '@/lib/services/analyticsService';
 import { CacheService } from '@/lib/services/cacheService';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
+import type { PnlViewMode } from '@/types';
 
 export interface AnalyticsRequest {
   dateRange?: {
@@ -13,10 +15,12 @@ export interface AnalyticsRequest {
   };
   filters?: {
     symbols?: string[];
+    accountId?: string;
     tags?: string[];
     side?: 'LONG' | 'SHORT';
     timeZone?: string;
   };
+  viewMode?: PnlViewMode;
   aggregations: ('distribution' | 'performance' | 'statistics' | 'time_analysis' | 'volume_analysis' | 'time_intervals')[];
   realTimeUpdates?: boolean;
 }
@@ -183,7 +187,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Initialize services
-    const analyticsService = new AnalyticsService(userId);
+    const analyticsService = new AnalyticsService(userId, body.viewMode === 'net' ? 'net' : 'gross');
     const cacheService = new CacheService();
 
     // Generate cache key based on request parameters
@@ -335,6 +339,7 @@ export async function GET(request: NextRequest) {
         symbols: searchParams.get('symbols')?.split(','),
         tags: searchParams.get('tags')?.split(','),
         side: searchParams.get('side') as 'LONG' | 'SHORT' | undefined,
+        accountId: TradeFilterService.parseAccountId(searchParams),
         timeZone: searchParams.get('timeZone') || 'America/New_York'
       }
     };
@@ -9,6 +9,7 @@ import {
   calculateMarketConditionPerformance,
   calculateTradeQualityMetrics
 } from '@/lib/tradeAggregations';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
 
 /**
  * Dashboard Metrics API
@@ -20,7 +21,9 @@ import {
  * - from: Start date (ISO string)
  * - to: End date (ISO string)
  * - symbol: Stock symbol filter
+ * - accountId: Account filter (all accounts when omitted)
  * - side: LONG or SHORT filter
+ * - viewMode: gross (default) or net of commission/fees
  * - metrics: Comma-separated list of specific metrics to return
  * 
  * Performance Notes:
@@ -45,15 +48,19 @@ export async function GET(request: NextRequest) {
     const dateFrom = searchParams.get('from') ? new Date(searchParams.get('from')!) : undefined;
     const dateTo = searchParams.get('to') ? new Date(searchParams.get('to')!) : undefined;
     const symbol = searchParams.get('symbol') || undefined;
+    const accountId = TradeFilterService.parseAccountId(searchParams);
     const side = searchParams.get('side') as 'LONG' | 'SHORT' | 'all' | undefined;
     const requestedMetrics = searchParams.get('metrics')?.split(',') || ['all'];
+    const viewMode = TradeFilterService.parseViewMode(searchParams);
 
     // Build filters object
     const filters = {
       ...(dateFrom && { dateFrom }),
       ...(dateTo && { dateTo }),
       ...(symbol && symbol !== 'all' && { symbol }),
+      ...(accountId && { accountId }),
       ...(side && side !== 'all' && { side: side as 'LONG' | 'SHORT' }),
+      viewMode,
     };
 
     // Initialize response object
@@ -4,11 +4,13 @@ import {
   calculateConsecutiveStreaks, 
   calculatePnlStandardDeviation, 
   calculateProfitFactor,
+  aggregateByFuturesRoot,
   formatDuration 
 } from '@/lib/reportCalculations';
 import { getCurrentUser } from '@/lib/auth0';
 import { getDemoUserId } from '@/lib/demo/demoSession';
 import { prisma } from '@/lib/prisma';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
 
 export async function GET(request: NextRequest) {
   try {
@@ -30,9 +32,11 @@ export async function GET(request: NextRequest) {
     const dateFrom = searchParams.get('from');
     const dateTo = searchParams.get('to');
     const symbol = searchParams.get('symbol');
+    const accountId = TradeFilterService.parseAccountId(searchParams);
     const side = searchParams.get('side');
     const tags = searchParams.get('tags')?.split(',').filter(Boolean);
     const duration = searchParams.get('duration');
+    const viewMode = TradeFilterService.parseViewMode(searchParams);
 
     // Build where clause for Prisma query (only include closed trades for accurate statistics)
     const where: Prisma.TradeWhereInput = {
@@ -54,8 +58,14 @@ export async function GET(request: NextRequest) {
     }
 
     // Add symbol filter
+    // Match on the underlying too, so a futures root (ES) includes its monthly contracts (ESZ5, ESH6)
     if (symbol && symbol !== 'all') {
-      where.symbol = symbol;
+      where.OR = [{ symbol }, { underlyingSymbol: symbol }];
+    }
+
+    // Add account filter
+    if (accountId) {
+      where.tradingAccountId = accountId;
     }
 
     // Add side filter
@@ -80,17 +90,22 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch trades from database
-    const trades = await prisma.trade.findMany({
+    const trades = TradeFilterService.applyViewMode(await prisma.trade.findMany({
       where,
       select: {
         id: true,
         symbol: true,
+        underlyingSymbol: true,
+        assetClass: true,
         side: true,
         entryDate: true,
         exitDate: true,
         timeInTrade: true,
         holdingPeriod: true,
         pnl: true,
+        netPnl: true,
+        pnlPoints: true,
+        pnlTicks: true,
         quantity: true,
         avgEntryPrice: true,
         entryPrice: true,
@@ -100,11 +115,13 @@ export async function GET(request: NextRequest) {
         fees: true,
         tags: true,
         date: true,
+        strategyId: true,
+        strategy: { select: { strategyType: true } },
       },
       orderBy: {
         entryDate: 'desc'
       }
-    });
+    }), viewMode);
 
     // Calculate statistics
     const totalTrades = trades.length;
@@ -131,7 +148,7 @@ export async function GET(request: NextRequest) {
       : 0;
 
     // Calculate volume metrics
-    const totalVolume = trades.reduce((sum, t) => sum + (t.quantity || 0), 0);
+    const totalVolume = trades.reduce((sum, t) => sum + Number(t.quantity || 0), 0);
     const avgPerShareGainLoss = totalVolume > 0 ? totalPnl / totalVolume : 0;
 
     // Calculate holding time averages
@@ -160,11 +177,14 @@ export async function GET(request: NextRequest) {
     const transformedTrades = trades.map(trade => ({
       ...trade,
       pnl: trade.pnl?.toNumber() || 0,
+      netPnl: trade.netPnl?.toNumber() || 0,
+      pnlPoints: trade.pnlPoints?.toNumber() ?? null,
+      pnlTicks: trade.pnlTicks?.toNumber() ?? null,
       avgEntryPrice: trade.avgEntryPrice?.toNumber() || null,
       avgExitPrice: trade.avgExitPrice?.toNumber() || null,
       entryPrice: trade.entryPrice?.toNumber() || null,
       exitPrice: trade.exitPrice?.toNumber() || null,
-      quantity: trade.quantity || 0,
+      quantity: Number(trade.quantity || 0),
       commissions: trade.commission?.toNumber() || null,
       fees: trade.fees?.toNumber() || null
     }));
@@ -173,6 +193,7 @@ export async function GET(request: NextRequest) {
     const streaks = calculateConsecutiveStreaks(transformedTrades);
     const stdDev = calculatePnlStandardDeviation(transformedTrades);
     const profitFactor = calculateProfitFactor(transformedTrades);
+    const futures = aggregateByFuturesRoot(transformedTrades);
 
     // Prepare statistics response
     const stats = {
@@ -206,17 +227,22 @@ export async function GET(request: NextRequest) {
     const formattedTrades = trades.map(trade => ({
       ...trade,
       pnl: Number(trade.pnl),
-      quantity: trade.quantity || 0,
+      netPnl: Number(trade.netPnl),
+      pnlPoints: trade.pnlPoints !== null ? Number(trade.pnlPoints) : undefined,
+      pnlTicks: trade.pnlTicks !== null ? Number(trade.pnlTicks) : undefined,
+      quantity: Number(trade.quantity || 0),
       avgEntryPrice: trade.avgEntryPrice ? Number(trade.avgEntryPrice) : undefined,
       entryPrice: trade.entryPrice ? Number(trade.entryPrice) : undefined,
       timeInTrade: trade.timeInTrade || 0,
       entryDate: trade.entryDate.toISOString(),
       exitDate: trade.exitDate?.toISOString(),
       date: trade.date.toISOString(),
+      strategyType: trade.strategy?.strategyType ?? null,
     }));
 
     return NextResponse.json({
       stats,
+      futures,
       trades: formattedTrades,
     });
 
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startOfDay, endOfDay } from 'date-fns';
+import { getCurrentUser } from '@/lib/auth0';
+import { cashActivitiesRepo } from '@/lib/repositories/cashActivitiesRepo';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
+
+/**
+ * GET /api/reports/financing-costs?from=&to=&accountId=
+ * Borrow fees and margin interest charged in the period, by symbol and by the trades they were attributed to
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    const summary = await cashActivitiesRepo.getFinancingSummary(user.id, {
+      accountId: TradeFilterService.parseAccountId(searchParams),
+      dateFrom: from ? startOfDay(new Date(from)) : undefined,
+      dateTo: to ? endOfDay(new Date(to)) : undefined,
+    });
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('[API] GET /api/reports/financing-costs error:', error);
+    return NextResponse.json({ error: 'Failed to load financing costs' }, { status: 500 });
+  }
+}
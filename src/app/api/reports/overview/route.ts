@@ -6,6 +6,7 @@ import { startOfDay, endOfDay, subDays, format } from 'date-fns';
 import { determineOptimalInterval } from '@/lib/timeIntervals';
 import { aggregateWinRatesByInterval } from '@/lib/reportCalculations';
 import { calculateCumulativePnl } from '@/lib/cumulativePnlCalculation';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,6 +19,7 @@ export async function GET(request: NextRequest) {
     }
     
     const userId = user.id;
+    const viewMode = TradeFilterService.parseViewMode(searchParams);
     
     // Parse date range
     const fromDate = searchParams.get('from') 
@@ -42,6 +44,11 @@ export async function GET(request: NextRequest) {
     if (searchParams.get('symbol')) {
       whereConditions.symbol = searchParams.get('symbol');
     }
+
+    const accountId = TradeFilterService.parseAccountId(searchParams);
+    if (accountId) {
+      whereConditions.tradingAccountId = accountId;
+    }
     
     if (searchParams.get('side') && searchParams.get('side') !== 'all') {
       whereConditions.side = searchParams.get('side')?.toUpperCase();
@@ -63,17 +70,18 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch trades
-    const trades = await prisma.trade.findMany({
+    const trades = TradeFilterService.applyViewMode(await prisma.trade.findMany({
       where: whereConditions,
       select: {
         id: true,
         date: true,
         exitDate: true,
         pnl: true,
+        netPnl: true,
         quantity: true
       },
       orderBy: { date: 'asc' }
-    });
+    }), viewMode);
 
 
     // Group trades by date for daily P&L calculation
@@ -98,7 +106,7 @@ export async function GET(request: NextRequest) {
       };
 
       const pnlValue = trade.pnl instanceof Decimal ? trade.pnl.toNumber() : Number(trade.pnl);
-      const quantity = trade.quantity || 0;
+      const quantity = Number(trade.quantity || 0);
 
       existing.pnl += pnlValue;
       existing.trades += 1;
@@ -151,7 +159,7 @@ export async function GET(request: NextRequest) {
     const winPercentage = trades.length > 0 ? (totalWins / trades.length) * 100 : 0;
 
     // Calculate total volume and average daily volume based on total days in period
-    const totalVolume = trades.reduce((sum, trade) => sum + (trade.quantity || 0), 0);
+    const totalVolume = trades.reduce((sum, trade) => sum + Number(trade.quantity || 0), 0);
     const averageDailyVolume = totalVolume / daysDiff;
 
     // Calculate average daily volume over trading days only (days with actual trades)
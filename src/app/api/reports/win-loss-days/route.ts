@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth0';
 import { getDemoUserId } from '@/lib/demo/demoSession';
 import { prisma } from '@/lib/prisma';
-import { TradeFilterService } from '@/lib/services/tradeFilterService';
+import { TradeFilterService, TradeFilters } from '@/lib/services/tradeFilterService';
 
 /**
  * Win vs Loss Days Report API
@@ -114,16 +114,7 @@ export async function GET(request: NextRequest) {
 /**
  * Calculate comprehensive metrics for winning and losing days
  */
-async function calculateDayMetrics(filters: {
-  userId: string;
-  symbol?: string;
-  side?: string;
-  dateFrom?: string;
-  dateTo?: string;
-  tags?: string[];
-  duration?: string;
-  showOpenTrades?: boolean;
-}): Promise<{
+async function calculateDayMetrics(filters: TradeFilters): Promise<{
   winningDays: DayMetrics;
   losingDays: DayMetrics;
 }> {
@@ -132,11 +123,12 @@ async function calculateDayMetrics(filters: {
   const whereClause = TradeFilterService.buildWhereClause(filters);
   
   // First, get the filtered trades using Prisma to ensure exact same filtering as other APIs
-  const filteredTrades = await prisma.trade.findMany({
+  const filteredTrades = TradeFilterService.applyViewMode(await prisma.trade.findMany({
     where: whereClause,
     select: {
       exitDate: true,
       pnl: true,
+      netPnl: true,
       quantity: true,
       symbol: true,
       side: true,
@@ -145,7 +137,7 @@ async function calculateDayMetrics(filters: {
       timeInTrade: true,
       entryDate: true
     }
-  });
+  }), filters.viewMode);
 
 
 
@@ -201,7 +193,7 @@ async function calculateDayMetrics(filters: {
   const convertedTrades = filteredTrades.map(trade => ({
     ...trade,
     pnl: typeof trade.pnl === 'object' ? trade.pnl.toNumber() : trade.pnl,
-    quantity: trade.quantity || 0,
+    quantity: Number(trade.quantity || 0),
     commission: typeof trade.commission === 'object' && trade.commission ? trade.commission.toNumber() : null,
     fees: typeof trade.fees === 'object' && trade.fees ? trade.fees.toNumber() : null,
     side: trade.side.toString()
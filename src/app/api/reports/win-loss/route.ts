@@ -3,6 +3,7 @@ import { Prisma } from '@prisma/client';
 import { getCurrentUser } from '@/lib/auth0';
 import { getDemoUserId } from '@/lib/demo/demoSession';
 import { prisma } from '@/lib/prisma';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
 
 /**
  * Win/Loss/Expectation Report API
@@ -61,6 +62,7 @@ export async function GET(request: NextRequest) {
     const dateTo = searchParams.get('to');
     const symbol = searchParams.get('symbol');
     const side = searchParams.get('side');
+    const pnlColumn = TradeFilterService.pnlColumnSql(TradeFilterService.parseViewMode(searchParams));
 
     // Build where clause for Prisma query
     const where: Prisma.TradeWhereInput = {
@@ -85,24 +87,29 @@ export async function GET(request: NextRequest) {
       where.symbol = symbol;
     }
 
+    const accountId = TradeFilterService.parseAccountId(searchParams);
+    if (accountId) {
+      where.tradingAccountId = accountId;
+    }
+
     if (side && side !== 'all') {
       where.side = side.toUpperCase() as 'LONG' | 'SHORT';
     }
 
     // 1. Calculate Win/Loss Metrics using optimized aggregation
-    const winLossMetrics = await calculateWinLossMetrics(userId, where);
+    const winLossMetrics = await calculateWinLossMetrics(userId, where, pnlColumn);
 
     // 2. Get cumulative P&L and drawdown data
-    const cumulativeData = await calculateCumulativeMetrics(userId, where);
+    const cumulativeData = await calculateCumulativeMetrics(userId, where, pnlColumn);
 
     // 3. Get trade distribution by P&L ranges for histogram
-    const pnlDistribution = await calculatePnlDistribution(userId, where);
+    const pnlDistribution = await calculatePnlDistribution(userId, where, pnlColumn);
 
     // 4. Get win/loss streaks
-    const streaks = await calculateStreaks(userId, where);
+    const streaks = await calculateStreaks(userId, where, pnlColumn);
 
     // 5. Get performance by trade duration (for win vs loss analysis)
-    const durationAnalysis = await analyzeTradeDuration(userId, where);
+    const durationAnalysis = await analyzeTradeDuration(userId, where, pnlColumn);
 
     return NextResponse.json({
       metrics: winLossMetrics,
@@ -127,20 +134,21 @@ export async function GET(request: NextRequest) {
  */
 async function calculateWinLossMetrics(
   userId: string, 
-  where: Prisma.TradeWhereInput
+  where: Prisma.TradeWhereInput,
+  pnlColumn: Prisma.Sql
 ): Promise<WinLossMetrics> {
   
   // Use raw SQL for complex aggregations - more efficient than multiple Prisma queries
   const result = await prisma.$queryRaw<Array<Record<string, number>>>`
     WITH trade_metrics AS (
       SELECT 
-        pnl::NUMERIC as pnl,
+        ${pnlColumn}::NUMERIC as pnl,
         CASE 
-          WHEN pnl > 0 THEN 'win'
-          WHEN pnl < 0 THEN 'loss'
+          WHEN ${pnlColumn} > 0 THEN 'win'
+          WHEN ${pnlColumn} < 0 THEN 'loss'
           ELSE 'scratch'
         END as outcome,
-        ABS(pnl::NUMERIC) as abs_pnl
+        ABS(${pnlColumn}::NUMERIC) as abs_pnl
       FROM trades
       WHERE 
         user_id = ${userId}
@@ -148,6 +156,7 @@ async function calculateWinLossMetrics(
         ${(typeof where.exitDate === 'object' && where.exitDate && 'gte' in where.exitDate) ? Prisma.sql`AND exit_date >= ${where.exitDate.gte}` : Prisma.empty}
         ${(typeof where.exitDate === 'object' && where.exitDate && 'lte' in where.exitDate) ? Prisma.sql`AND exit_date <= ${where.exitDate.lte}` : Prisma.empty}
         ${where.symbol ? Prisma.sql`AND symbol = ${where.symbol}` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
     )
     SELECT 
@@ -214,14 +223,15 @@ async function calculateWinLossMetrics(
  */
 async function calculateCumulativeMetrics(
   userId: string,
-  where: Prisma.TradeWhereInput
+  where: Prisma.TradeWhereInput,
+  pnlColumn: Prisma.Sql
 ): Promise<CumulativeDataPoint[]> {
   
   const result = await prisma.$queryRaw<Array<Record<string, number>>>`
     WITH daily_pnl AS (
       SELECT 
         DATE(exit_date) as trade_date,
-        SUM(pnl::NUMERIC) as daily_pnl,
+        SUM(${pnlColumn}::NUMERIC) as daily_pnl,
         COUNT(*) as daily_trades
       FROM trades
       WHERE 
@@ -231,6 +241,7 @@ async function calculateCumulativeMetrics(
         ${(typeof where.exitDate === 'object' && where.exitDate && 'gte' in where.exitDate) ? Prisma.sql`AND exit_date >= ${where.exitDate.gte}` : Prisma.empty}
         ${(typeof where.exitDate === 'object' && where.exitDate && 'lte' in where.exitDate) ? Prisma.sql`AND exit_date <= ${where.exitDate.lte}` : Prisma.empty}
         ${where.symbol ? Prisma.sql`AND symbol = ${where.symbol}` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       GROUP BY DATE(exit_date)
     ),
@@ -272,17 +283,18 @@ async function calculateCumulativeMetrics(
  */
 async function calculatePnlDistribution(
   userId: string,
-  where: Prisma.TradeWhereInput
+  where: Prisma.TradeWhereInput,
+  pnlColumn: Prisma.Sql
 ) {
   
   const result = await prisma.$queryRaw<Array<Record<string, number>>>`
     WITH pnl_ranges AS (
       SELECT 
-        WIDTH_BUCKET(pnl::NUMERIC, -1000, 1000, 20) as bucket,
+        WIDTH_BUCKET(${pnlColumn}::NUMERIC, -1000, 1000, 20) as bucket,
         COUNT(*) as count,
-        AVG(pnl::NUMERIC) as avg_pnl,
-        MIN(pnl::NUMERIC) as min_pnl,
-        MAX(pnl::NUMERIC) as max_pnl
+        AVG(${pnlColumn}::NUMERIC) as avg_pnl,
+        MIN(${pnlColumn}::NUMERIC) as min_pnl,
+        MAX(${pnlColumn}::NUMERIC) as max_pnl
       FROM trades
       WHERE 
         user_id = ${userId}
@@ -290,6 +302,7 @@ async function calculatePnlDistribution(
         ${(typeof where.exitDate === 'object' && where.exitDate && 'gte' in where.exitDate) ? Prisma.sql`AND exit_date >= ${where.exitDate.gte}` : Prisma.empty}
         ${(typeof where.exitDate === 'object' && where.exitDate && 'lte' in where.exitDate) ? Prisma.sql`AND exit_date <= ${where.exitDate.lte}` : Prisma.empty}
         ${where.symbol ? Prisma.sql`AND symbol = ${where.symbol}` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       GROUP BY bucket
     )
@@ -318,7 +331,8 @@ async function calculatePnlDistribution(
  */
 async function calculateStreaks(
   userId: string,
-  where: Prisma.TradeWhereInput
+  where: Prisma.TradeWhereInput,
+  pnlColumn: Prisma.Sql
 ) {
   
   const result = await prisma.$queryRaw<Array<Record<string, number>>>`
@@ -326,8 +340,8 @@ async function calculateStreaks(
       SELECT 
         exit_date,
         CASE 
-          WHEN pnl > 0 THEN 1
-          WHEN pnl < 0 THEN -1
+          WHEN ${pnlColumn} > 0 THEN 1
+          WHEN ${pnlColumn} < 0 THEN -1
           ELSE 0
         END as outcome,
         ROW_NUMBER() OVER (ORDER BY exit_date) as rn
@@ -339,6 +353,7 @@ async function calculateStreaks(
         ${(typeof where.exitDate === 'object' && where.exitDate && 'gte' in where.exitDate) ? Prisma.sql`AND exit_date >= ${where.exitDate.gte}` : Prisma.empty}
         ${(typeof where.exitDate === 'object' && where.exitDate && 'lte' in where.exitDate) ? Prisma.sql`AND exit_date <= ${where.exitDate.lte}` : Prisma.empty}
         ${where.symbol ? Prisma.sql`AND symbol = ${where.symbol}` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
     ),
     streak_groups AS (
@@ -371,7 +386,7 @@ async function calculateStreaks(
   const currentStreakResult = await prisma.$queryRaw<Array<{ current_streak: number; streak_type: string }>>`
     WITH recent_trades AS (
       SELECT 
-        pnl,
+        ${pnlColumn} as pnl,
         exit_date
       FROM trades
       WHERE 
@@ -379,6 +394,7 @@ async function calculateStreaks(
         AND status = 'CLOSED'
         AND exit_date IS NOT NULL
         ${where.symbol ? Prisma.sql`AND symbol = ${where.symbol}` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       ORDER BY exit_date DESC
       LIMIT 20
@@ -426,19 +442,20 @@ async function calculateStreaks(
  */
 async function analyzeTradeDuration(
   userId: string,
-  where: Prisma.TradeWhereInput
+  where: Prisma.TradeWhereInput,
+  pnlColumn: Prisma.Sql
 ) {
   
   const result = await prisma.$queryRaw<Array<Record<string, number>>>`
     WITH duration_analysis AS (
       SELECT 
         CASE 
-          WHEN pnl > 0 THEN 'win'
-          WHEN pnl < 0 THEN 'loss'
+          WHEN ${pnlColumn} > 0 THEN 'win'
+          WHEN ${pnlColumn} < 0 THEN 'loss'
           ELSE 'scratch'
         END as outcome,
         time_in_trade,
-        pnl::NUMERIC as pnl,
+        ${pnlColumn}::NUMERIC as pnl,
         CASE 
           WHEN time_in_trade < 60 THEN '< 1min'
           WHEN time_in_trade < 300 THEN '1-5min'
@@ -458,6 +475,7 @@ async function analyzeTradeDuration(
         ${(typeof where.exitDate === 'object' && where.exitDate && 'gte' in where.exitDate) ? Prisma.sql`AND exit_date >= ${where.exitDate.gte}` : Prisma.empty}
         ${(typeof where.exitDate === 'object' && where.exitDate && 'lte' in where.exitDate) ? Prisma.sql`AND exit_date <= ${where.exitDate.lte}` : Prisma.empty}
         ${where.symbol ? Prisma.sql`AND symbol = ${where.symbol}` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
     )
     SELECT 
@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma';
 import { getCurrentUser } from '@/lib/auth0';
 import { getDemoUserId } from '@/lib/demo/demoSession';
 import { startOfDay, endOfDay, subDays } from 'date-fns';
+import { TradeFilterService } from '@/lib/services/tradeFilterService';
 
 export async function GET(request: NextRequest) {
   try {
@@ -44,6 +45,11 @@ export async function GET(request: NextRequest) {
     if (searchParams.get('symbol')) {
       whereConditions.symbol = searchParams.get('symbol');
     }
+
+    const accountId = TradeFilterService.parseAccountId(searchParams);
+    if (accountId) {
+      whereConditions.tradingAccountId = accountId;
+    }
     
     if (searchParams.get('side') && searchParams.get('side') !== 'all') {
       whereConditions.side = searchParams.get('side')?.toUpperCase();
@@ -57,7 +63,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get all trades for the period
-    const trades = await prisma.trade.findMany({
+    const trades = TradeFilterService.applyViewMode(await prisma.trade.findMany({
       where: whereConditions,
       orderBy: [
         { date: 'desc' }
@@ -71,6 +77,7 @@ export async function GET(request: NextRequest) {
         quantity: true,
         executions: true,
         pnl: true,
+        netPnl: true,
         entryPrice: true,
         exitPrice: true,
         holdingPeriod: true,
@@ -82,7 +89,7 @@ export async function GET(request: NextRequest) {
         marketSession: true,
         orderType: true
       }
-    });
+    }), TradeFilterService.parseViewMode(searchParams));
 
     // Transform trades to match frontend interface
     const transformedTrades = trades.map(trade => ({
@@ -98,7 +105,7 @@ export async function GET(request: NextRequest) {
       }) : '00:00',
       symbol: trade.symbol,
       side: trade.side.toLowerCase() as 'long' | 'short',
-      quantity: trade.quantity,
+      quantity: Number(trade.quantity || 0),
       executions: trade.executions,
       pnl: typeof trade.pnl === 'object' ? trade.pnl.toNumber() : trade.pnl,
       entryPrice: trade.entryPrice ? (typeof trade.entryPrice === 'object' ? trade.entryPrice.toNumber() : trade.entryPrice) : undefined,
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth0';
 import { tradesRepo } from '@/lib/repositories/tradesRepo';
 import { ordersRepo } from '@/lib/repositories/ordersRepo';
+import { fxRatesRepo } from '@/lib/repositories/fxRatesRepo';
 import { prisma } from '@/lib/prisma';
 import crypto from 'crypto';
 import { Prisma } from '@prisma/client';
@@ -47,7 +48,9 @@ function sanitizeTradeData(trade: any) {
     proceeds: trade.proceeds,
     ordersCount: trade.ordersCount,
     netPnl: trade.netPnl || trade.pnl,
-    commissions: trade.commission
+    commissions: trade.commission,
+    currency: trade.currency, // Prices are in the trade currency; P&L was converted to the base currency at close
+    fxRate: trade.fxRate
   };
 }
 
@@ -60,7 +63,7 @@ function sanitizeOrderData(orders: any[]) {
     orderType: order.orderType,
     side: order.side,
     timeInForce: order.timeInForce,
-    orderQuantity: order.orderQuantity,
+    orderQuantity: Number(order.orderQuantity),
     limitPrice: order.limitPrice,
     stopPrice: order.stopPrice,
     orderStatus: order.orderStatus,
@@ -136,7 +139,7 @@ async function fetchStatistics(userId: string, dateFrom?: string, dateTo?: strin
     ? losingTrades.reduce((sum, t) => sum + Number(t.pnl), 0) / losingTrades.length
     : 0;
 
-  const totalVolume = trades.reduce((sum, t) => sum + (t.quantity || 0), 0);
+  const totalVolume = trades.reduce((sum, t) => sum + Number(t.quantity || 0), 0);
   const avgPerShareGainLoss = totalVolume > 0 ? totalPnl / totalVolume : 0;
 
   const winHoldTimes = winningTrades.map(t => t.timeInTrade || 0).filter(t => t > 0);
@@ -154,7 +157,7 @@ async function fetchStatistics(userId: string, dateFrom?: string, dateTo?: strin
   const transformedTrades = trades.map(trade => ({
     ...trade,
     pnl: trade.pnl?.toNumber() || 0,
-    quantity: trade.quantity || 0,
+    quantity: Number(trade.quantity || 0),
   }));
 
   const streaks = calculateConsecutiveStreaks(transformedTrades);
@@ -232,7 +235,7 @@ async function fetchStatistics(userId: string, dateFrom?: string, dateTo?: strin
   const convertedTrades = filteredTrades.map(trade => ({
     ...trade,
     pnl: typeof trade.pnl === 'object' ? trade.pnl.toNumber() : trade.pnl,
-    quantity: trade.quantity || 0,
+    quantity: Number(trade.quantity || 0),
     commission: typeof trade.commission === 'object' && trade.commission ? trade.commission.toNumber() : null,
     fees: typeof trade.fees === 'object' && trade.fees ? trade.fees.toNumber() : null,
   }));
@@ -636,6 +639,9 @@ export async function POST(request: Request) {
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + 14);
 
+    // P&L in every snapshot is in the sharer's base currency
+    const baseCurrency = await fxRatesRepo.getBaseCurrency(user.id);
+
     // Sanitize data for sharing based on share type
     let sanitizedTrade: any;
     let sanitizedOrders: any[];
@@ -649,7 +655,8 @@ export async function POST(request: Request) {
         isCalendarMonthShare: true,
         year,
         month,
-        createdBy: user.email
+        createdBy: user.email,
+        baseCurrency
       };
     } else if (shareType === 'calendar-year' && calendarData) {
       // For calendar year sharing, store the calendar data
@@ -658,7 +665,8 @@ export async function POST(request: Request) {
       metadata = {
         isCalendarYearShare: true,
         year,
-        createdBy: user.email
+        createdBy: user.email,
+        baseCurrency
       };
     } else if (shareType === 'statistics' && statisticsData) {
       // For statistics sharing, store the statistics data
@@ -668,7 +676,8 @@ export async function POST(request: Request) {
         isStatsShare: true,
         dateFrom,
         dateTo,
-        createdBy: user.email
+        createdBy: user.email,
+        baseCurrency
       };
     } else {
       // For record/trade sharing
@@ -678,7 +687,8 @@ export async function POST(request: Request) {
         originalTradeId: tradeId,
         shareDate: date,
         isRecordsShare: !!date,
-        createdBy: user.email
+        createdBy: user.email,
+        baseCurrency
       };
     }
 
@@ -52,7 +52,7 @@ export async function GET(
       symbol: order.symbol,
       side: order.side,
       orderType: order.orderType,
-      quantity: order.orderQuantity,
+      quantity: order.orderQuantity.toNumber(),
       price: order.limitPrice ? order.limitPrice.toNumber() : null,
       stopPrice: order.stopPrice ? order.stopPrice.toNumber() : null,
       status: order.orderStatus,
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { setTradeLocked, TradeCorrectionError } from '@/lib/tradeCorrections';
+import { tradeLockSchema } from '@/lib/schemas/tradeCorrections';
+
+/**
+ * PUT /api/trades/[tradeId]/lock
+ * Lock a trade against rebuilds, or unlock it so the next rebuild can regroup it
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ tradeId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { tradeId } = await params;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = tradeLockSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const { locked } = validationResult.data;
+    await setTradeLocked(user.id, tradeId, locked);
+
+    return NextResponse.json({ success: true, locked });
+  } catch (error) {
+    if (error instanceof TradeCorrectionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[API] PUT /api/trades/[tradeId]/lock error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update trade lock' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { splitTrade, TradeCorrectionError } from '@/lib/tradeCorrections';
+import { splitTradeSchema } from '@/lib/schemas/tradeCorrections';
+
+/**
+ * POST /api/trades/[tradeId]/split
+ * Split a trade at an execution; the execution and everything after it become a new trade
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tradeId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { tradeId } = await params;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = splitTradeSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await splitTrade(user.id, tradeId, validationResult.data.orderId);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof TradeCorrectionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[API] POST /api/trades/[tradeId]/split error:', error);
+    return NextResponse.json(
+      { error: 'Failed to split trade' },
+      { status: 500 }
+    );
+  }
+}
@@ -16,6 +16,7 @@ export async function GET() {
     { id: 'exitPrice', label: 'Exit Price', visible: true, sortable: true },
     { id: 'commission', label: 'Commission', visible: true, sortable: true },
     { id: 'fees', label: 'Fees', visible: true, sortable: true },
+    { id: 'financingCost', label: 'Financing', visible: true, sortable: true },
     { id: 'notes', label: 'NOTES', visible: true, sortable: false },
     { id: 'tags', label: 'TAGS', visible: true, sortable: false },
     { id: 'marketSession', label: 'Session', visible: true, sortable: true },
@@ -3,6 +3,7 @@ import { TradeFilters } from '@/types';
 import { Prisma, TradeSide } from '@prisma/client';
 import { getCurrentUser } from '@/lib/auth0';
 import { prisma } from '@/lib/prisma';
+import { TRADE_STRATEGY_SELECT, toTradeStrategy } from '@/lib/optionStrategies';
 
 // Helper function to convert 12-hour format to 24-hour format for comparison
 function convertTo24Hour(timeStr: string): string {
@@ -80,6 +81,11 @@ export async function POST(request: Request) {
       where.side = filters.side.toUpperCase() as TradeSide;
     }
 
+    // Account filter
+    if (filters.accountId && filters.accountId !== 'all') {
+      where.tradingAccountId = filters.accountId;
+    }
+
     // Price range filter (using entryPrice and exitPrice)
     if (filters.priceRange) {
       where.OR = [
@@ -198,6 +204,7 @@ export async function POST(request: Request) {
     // Get paginated results
     const trades = await prisma.trade.findMany({
       where,
+      include: { strategy: { select: TRADE_STRATEGY_SELECT } },
       orderBy: [
         { date: 'desc' },
         { openTime: 'desc' }
@@ -229,7 +236,7 @@ export async function POST(request: Request) {
       }) : '00:00',
       symbol: trade.symbol,
       side: trade.side.toLowerCase() as 'long' | 'short',
-      quantity: trade.quantity || 0,
+      quantity: Number(trade.quantity || 0),
       executions: trade.executions,
       pnl: typeof trade.pnl === 'object' ? trade.pnl.toNumber() : trade.pnl,
       shared: false,
@@ -242,7 +249,9 @@ export async function POST(request: Request) {
       commission: trade.commission ? Number(trade.commission) : undefined,
       fees: trade.fees ? Number(trade.fees) : undefined,
       marketSession: trade.marketSession || undefined,
-      orderType: trade.orderType || undefined
+      orderType: trade.orderType || undefined,
+      isLocked: trade.isLocked,
+      strategy: trade.strategy ? toTradeStrategy(trade.strategy) : undefined
     }));
 
     // Apply time range filter after transformation
@@ -266,7 +275,7 @@ export async function POST(request: Request) {
     
     const finalTotalVolume = filters.timeRange
       ? transformedTrades.reduce((sum, trade) => sum + trade.quantity, 0)
-      : (aggregateResult._sum.quantity || 0);
+      : Number(aggregateResult._sum.quantity || 0);
 
     const finalTotalCount = filters.timeRange ? transformedTrades.length : totalCount;
 
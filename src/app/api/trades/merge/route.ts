@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { mergeTrades, TradeCorrectionError } from '@/lib/tradeCorrections';
+import { mergeTradesSchema } from '@/lib/schemas/tradeCorrections';
+
+/**
+ * POST /api/trades/merge
+ * Merge trades into one locked trade, recalculated from all of their executions
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = mergeTradesSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await mergeTrades(user.id, validationResult.data.tradeIds);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof TradeCorrectionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[API] POST /api/trades/merge error:', error);
+    return NextResponse.json(
+      { error: 'Failed to merge trades' },
+      { status: 500 }
+    );
+  }
+}
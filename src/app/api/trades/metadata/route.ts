@@ -94,8 +94,8 @@ export async function GET(request: Request) {
       tags: tagsWithCounts,
       priceRange: finalPriceRange,
       volumeRange: {
-        min: volumeRange._min.quantity || 0,
-        max: volumeRange._max.quantity || 0
+        min: Number(volumeRange._min.quantity || 0),
+        max: Number(volumeRange._max.quantity || 0)
       },
       executionCountRange: {
         min: executionRange._min.executions || 1,
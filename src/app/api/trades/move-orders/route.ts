@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { moveOrders, TradeCorrectionError } from '@/lib/tradeCorrections';
+import { moveOrdersSchema } from '@/lib/schemas/tradeCorrections';
+
+/**
+ * POST /api/trades/move-orders
+ * Move executions into another trade, or into a new trade when targetTradeId is null
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = moveOrdersSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const { orderIds, targetTradeId } = validationResult.data;
+    const result = await moveOrders(user.id, orderIds, targetTradeId);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof TradeCorrectionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[API] POST /api/trades/move-orders error:', error);
+    return NextResponse.json(
+      { error: 'Failed to move executions' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,8 @@ import {
   generateCursor
 } from '@/lib/utils/pagination';
 import { tradesQuerySchema, createTradeSchema } from '@/lib/schemas/trades';
+import { calculateNetPnl } from '@/lib/tradeFees';
+import { TRADE_STRATEGY_SELECT, toTradeStrategy } from '@/lib/optionStrategies';
 import { ERROR_MESSAGES, HTTP_STATUS, DEFAULTS, DATE_FORMATS } from '@/constants/app';
 
 export async function GET(request: Request) {
@@ -17,6 +19,7 @@ export async function GET(request: Request) {
   // Validate query parameters using Zod
   const queryParams = {
     symbol: searchParams.get('symbol') || undefined,
+    accountId: searchParams.get('accountId') || undefined,
     side: searchParams.get('side') || undefined,
     dateFrom: searchParams.get('dateFrom') || undefined,
     dateTo: searchParams.get('dateTo') || undefined,
@@ -37,7 +40,7 @@ export async function GET(request: Request) {
     }, { status: HTTP_STATUS.BAD_REQUEST });
   }
 
-  const { symbol, side, dateFrom, dateTo, tags, duration, showOpenTrades, page, limit, sortBy, sortOrder } = validationResult.data;
+  const { symbol, accountId, side, dateFrom, dateTo, tags, duration, showOpenTrades, page, limit, sortBy, sortOrder } = validationResult.data;
   
   // Performance logging in development
   const startTime = process.env.NODE_ENV === 'development' ? Date.now() : 0;
@@ -72,6 +75,10 @@ export async function GET(request: Request) {
       where.symbol = symbol;
     }
 
+    if (accountId && accountId !== 'all') {
+      where.tradingAccountId = accountId;
+    }
+
     if (side && side.toLowerCase() !== 'all') {
       where.side = side.toUpperCase() as TradeSide;
     }
@@ -146,8 +153,11 @@ export async function GET(request: Request) {
           tags: true,
           commission: true,
           fees: true,
+          financingCost: true,
           marketSession: true,
-          orderType: true
+          orderType: true,
+          isLocked: true,
+          strategy: { select: TRADE_STRATEGY_SELECT }
         },
         orderBy: {
           [paginationParams.sortBy]: paginationParams.sortOrder
@@ -181,7 +191,7 @@ export async function GET(request: Request) {
       time: trade.openTime ? trade.openTime.toLocaleTimeString('en-US', DATE_FORMATS.TIME_FORMAT) : DEFAULTS.TIME_DISPLAY,
       symbol: trade.symbol,
       side: trade.side.toLowerCase() as 'long' | 'short',
-      quantity: trade.quantity,
+      quantity: Number(trade.quantity || 0),
       executions: trade.executions,
       pnl: typeof trade.pnl === 'object' ? trade.pnl.toNumber() : trade.pnl,
       entryPrice: trade.entryPrice ? (typeof trade.entryPrice === 'object' ? trade.entryPrice.toNumber() : trade.entryPrice) : undefined,
@@ -193,13 +203,16 @@ export async function GET(request: Request) {
       tags: trade.tags,
       commission: trade.commission ? (typeof trade.commission === 'object' ? trade.commission.toNumber() : trade.commission) : undefined,
       fees: trade.fees ? (typeof trade.fees === 'object' ? trade.fees.toNumber() : trade.fees) : undefined,
+      financingCost: trade.financingCost ? trade.financingCost.toNumber() : undefined,
       marketSession: trade.marketSession || undefined,
-      orderType: trade.orderType || undefined
+      orderType: trade.orderType || undefined,
+      isLocked: trade.isLocked,
+      strategy: trade.strategy ? toTradeStrategy(trade.strategy) : undefined
     }));
 
     // Calculate totals from database aggregates
     const totalPnl = aggregateResult._sum.pnl ? Number(aggregateResult._sum.pnl) : 0;
-    const totalVolume = aggregateResult._sum.quantity || 0;
+    const totalVolume = Number(aggregateResult._sum.quantity || 0);
     
     // Create paginated response
     const paginatedResponse = createPaginatedResponse(
@@ -282,6 +295,7 @@ export async function POST(request: Request) {
         quantity: validatedData.volume || validatedData.quantity || 0,
         executions: validatedData.executions,
         pnl: validatedData.pnl,
+        netPnl: calculateNetPnl(validatedData.pnl, validatedData.commission, validatedData.fees),
         entryPrice: validatedData.entryPrice,
         exitPrice: validatedData.exitPrice,
         notes: validatedData.notes,
@@ -311,7 +325,7 @@ export async function POST(request: Request) {
       }) : '00:00',
       symbol: newTrade.symbol,
       side: newTrade.side.toLowerCase() as 'long' | 'short',
-      volume: newTrade.quantity,
+      volume: Number(newTrade.quantity || 0),
       executions: newTrade.executions,
       pnl: typeof newTrade.pnl === 'object' ? newTrade.pnl.toNumber() : newTrade.pnl,
       shared: false,
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth0';
 import { prisma } from '@/lib/prisma';
-import { TradeBuilder } from '@/lib/tradeBuilder';
+import { processUserOrders } from '@/lib/tradeBuilder';
 import { incrementUploadCount } from '@/lib/uploadRateLimiter';
 
 /**
@@ -76,9 +76,7 @@ export async function POST(request: NextRequest) {
       console.log(`[Complete Session] - Total orders in session: ${latestBatch.completedRowCount}`);
       console.log(`[Complete Session] - Latest batch ID: ${latestBatch.id}`);
 
-      const tradeBuilder = new TradeBuilder();
-      await tradeBuilder.processUserOrders(user.id);
-      await tradeBuilder.persistTrades(user.id);
+      await processUserOrders(user.id);
 
       console.log(`[Complete Session] ✓ Trade calculation completed successfully`);
     } catch (error) {
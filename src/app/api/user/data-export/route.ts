@@ -117,9 +117,9 @@ export async function GET(request: Request) {
       'Exit Price': trade.exitPrice ? Number(trade.exitPrice) : '',
       'Avg Entry Price': trade.avgEntryPrice ? Number(trade.avgEntryPrice) : '',
       'Avg Exit Price': trade.avgExitPrice ? Number(trade.avgExitPrice) : '',
-      Quantity: trade.quantity || '',
-      'Open Quantity': trade.openQuantity || '',
-      'Close Quantity': trade.closeQuantity || '',
+      Quantity: trade.quantity ? Number(trade.quantity) : '',
+      'Open Quantity': trade.openQuantity ? Number(trade.openQuantity) : '',
+      'Close Quantity': trade.closeQuantity ? Number(trade.closeQuantity) : '',
       'P&L': Number(trade.pnl),
       Commission: trade.commission ? Number(trade.commission) : '',
       Fees: trade.fees ? Number(trade.fees) : '',
@@ -155,7 +155,7 @@ export async function GET(request: Request) {
       'Order Type': order.orderType,
       Side: order.side,
       'Time in Force': order.timeInForce,
-      'Order Quantity': order.orderQuantity,
+      'Order Quantity': Number(order.orderQuantity),
       'Limit Price': order.limitPrice ? Number(order.limitPrice) : '',
       'Stop Price': order.stopPrice ? Number(order.stopPrice) : '',
       'Order Status': order.orderStatus,
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { taxLotsRepo } from '@/lib/repositories/taxLotsRepo';
+import { buildForm8949Rows, WASH_SALE_WINDOW_DAYS } from '@/lib/taxLots';
+import { filterTaxYearRows, getTaxYearBounds, summarizeForm8949, toForm8949Csv, toForm8949Pdf } from '@/lib/form8949';
+import { z } from 'zod';
+
+const taxReportQuerySchema = z.object({
+  year: z.coerce.number().int().min(1990).max(2100),
+  format: z.enum(['json', 'csv', 'pdf']).default('json'),
+});
+
+/**
+ * GET /api/user/tax-report?year=2024&format=json|csv|pdf
+ * Realized sales for a tax year with wash-sale adjustments, as a summary or a Form 8949 style export
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validationResult = taxReportQuerySchema.safeParse({
+      year: searchParams.get('year') ?? new Date().getUTCFullYear(),
+      format: searchParams.get('format') ?? undefined,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const { year, format } = validationResult.data;
+    const { end } = getTaxYearBounds(year);
+
+    // Earlier years are included so washed losses reach replacement lots sold this year, and
+    // purchases early next year can still wash a loss taken in December
+    const replacementCutoff = new Date(end.getTime() + (WASH_SALE_WINDOW_DAYS + 1) * 24 * 60 * 60 * 1000);
+    const [dispositions, acquisitions] = await Promise.all([
+      taxLotsRepo.getDispositions(user.id, end),
+      taxLotsRepo.getAcquisitions(user.id, replacementCutoff),
+    ]);
+
+    const rows = filterTaxYearRows(buildForm8949Rows(dispositions, acquisitions), year);
+
+    if (format === 'csv') {
+      return new Response(toForm8949Csv(rows), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="form_8949_${year}.csv"`,
+          'Cache-Control': 'no-cache'
+        }
+      });
+    }
+
+    if (format === 'pdf') {
+      return new Response(new Uint8Array(toForm8949Pdf(rows, year)), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="form_8949_${year}.pdf"`,
+          'Cache-Control': 'no-cache'
+        }
+      });
+    }
+
+    return NextResponse.json({
+      summary: summarizeForm8949(rows, year),
+      rows,
+    });
+  } catch (error) {
+    console.error('[API] GET /api/user/tax-report error:', error);
+    return NextResponse.json(
+      { error: 'Failed to build tax report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth0';
+import { prisma } from '@/lib/prisma';
+import { rebuildUserTrades, recalculateUserTrades } from '@/lib/tradeBuilder';
+import { MAX_MERGE_WINDOW_MINUTES } from '@/lib/tradeGrouping';
+import { fxRatesRepo } from '@/lib/repositories/fxRatesRepo';
+import { tradesRepo } from '@/lib/repositories/tradesRepo';
+import { LotMatchingMethod, TradeGroupingMode } from '@prisma/client';
+import { z } from 'zod';
+
+const settingsSelect = {
+  lotMatchingMethod: true,
+  tradeGroupingMode: true,
+  tradeMergeWindowMinutes: true,
+} as const;
+
+// Request validation schema for trade settings updates; omitted settings are left unchanged
+const updateTradeSettingsSchema = z.object({
+  lotMatchingMethod: z.enum(LotMatchingMethod).optional(),
+  tradeGroupingMode: z.enum(TradeGroupingMode).optional(),
+  tradeMergeWindowMinutes: z.number().int().min(1).max(MAX_MERGE_WINDOW_MINUTES).optional(),
+  baseCurrency: z.string().regex(/^[A-Za-z]{3}$/, 'Currency must be a three letter code').transform(value => value.toUpperCase()).optional(),
+});
+
+/**
+ * GET /api/user/trade-settings
+ * Get the user's trade calculation settings
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const settings = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: settingsSelect,
+    });
+    const baseCurrency = await fxRatesRepo.getBaseCurrency(user.id);
+
+    return NextResponse.json({ settings: settings && { ...settings, baseCurrency } });
+  } catch (error) {
+    console.error('[API] GET /api/user/trade-settings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trade settings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/user/trade-settings
+ * Update trade calculation settings
+ * Changing the lot matching method recalculates P&L and closing lots for every existing trade
+ * Changing the grouping rules rebuilds every trade from its orders
+ * Changing the base currency converts every trade's P&L to the new currency
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = updateTradeSettingsSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const current = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: settingsSelect,
+    });
+    if (!current) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const settings = {
+      lotMatchingMethod: validationResult.data.lotMatchingMethod ?? current.lotMatchingMethod,
+      tradeGroupingMode: validationResult.data.tradeGroupingMode ?? current.tradeGroupingMode,
+      tradeMergeWindowMinutes: validationResult.data.tradeMergeWindowMinutes ?? current.tradeMergeWindowMinutes,
+    };
+
+    const lotMatchingChanged = settings.lotMatchingMethod !== current.lotMatchingMethod;
+    const groupingChanged = settings.tradeGroupingMode !== current.tradeGroupingMode
+      || settings.tradeMergeWindowMinutes !== current.tradeMergeWindowMinutes;
+
+    let tradesRecalculated = 0;
+    if (lotMatchingChanged || groupingChanged) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: settings,
+      });
+
+      // A rebuild re-matches lots too, so it covers a lot matching change made at the same time
+      tradesRecalculated = groupingChanged
+        ? await rebuildUserTrades(user.id)
+        : await recalculateUserTrades(user.id);
+    }
+
+    const currentBaseCurrency = await fxRatesRepo.getBaseCurrency(user.id);
+    const baseCurrency = validationResult.data.baseCurrency ?? currentBaseCurrency;
+    if (baseCurrency !== currentBaseCurrency) {
+      await fxRatesRepo.setBaseCurrency(user.id, baseCurrency);
+      const tradesConverted = await tradesRepo.convertTrades(user.id, baseCurrency);
+      tradesRecalculated = Math.max(tradesRecalculated, tradesConverted);
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings: { ...settings, baseCurrency },
+      tradesRecalculated,
+    });
+  } catch (error) {
+    console.error('[API] PUT /api/user/trade-settings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update trade settings' },
+      { status: 500 }
+    );
+  }
+}
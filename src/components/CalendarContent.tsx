@@ -34,7 +34,7 @@ const daysOfWeek = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 const CalendarContent = React.memo(() => {
   const { user, isLoading: authLoading, isDemo } = useAuth();
-  const { setCustomDateRange } = useGlobalFilters();
+  const { filters, setCustomDateRange } = useGlobalFilters();
   const searchParams = useSearchParams();
   const router = useRouter();
   
@@ -103,6 +103,12 @@ const CalendarContent = React.memo(() => {
         startDate: gridStartDate,
         endDate: gridEndDate
       });
+      if (filters.viewMode === 'net') {
+        params.append('viewMode', filters.viewMode);
+      }
+      if (filters.accountId) {
+        params.append('accountId', filters.accountId);
+      }
       if (isDemo) {
         params.append('demo', 'true');
       }
@@ -116,7 +122,7 @@ const CalendarContent = React.memo(() => {
     } finally {
       setIsLoading(false);
     }
-  }, [user, year, month, isDemo, currentDate]);
+  }, [user, year, month, isDemo, currentDate, filters.viewMode, filters.accountId]);
 
   // Fetch trades
   const fetchTrades = useCallback(async () => {
@@ -3,6 +3,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, ReferenceLine } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useGlobalFilters } from '@/contexts/GlobalFilterContext';
 
 // Custom hook to detect screen size
 const useScreenSize = () => {
@@ -36,6 +37,7 @@ export default function CalendarSummaryChartsRecharts({ isDemo = false }: Calend
   const [data, setData] = useState<ChartData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const { isSmallScreen } = useScreenSize();
+  const { filters } = useGlobalFilters();
 
   const fetchSummaryData = useCallback(async () => {
     setIsLoading(true);
@@ -43,6 +45,12 @@ export default function CalendarSummaryChartsRecharts({ isDemo = false }: Calend
       const params = new URLSearchParams({
         timeframe: timeframe
       });
+      if (filters.viewMode === 'net') {
+        params.append('viewMode', filters.viewMode);
+      }
+      if (filters.accountId) {
+        params.append('accountId', filters.accountId);
+      }
       if (isDemo) {
         params.append('demo', 'true');
       }
@@ -75,7 +83,7 @@ export default function CalendarSummaryChartsRecharts({ isDemo = false }: Calend
     } finally {
       setIsLoading(false);
     }
-  }, [timeframe, isDemo]);
+  }, [timeframe, isDemo, filters.viewMode, filters.accountId]);
 
   useEffect(() => {
     fetchSummaryData();
@@ -55,6 +55,8 @@ export default function CalendarYearView({ year: initialYear, isDemo = false }:
         ...(filters.tags?.length && { tags: filters.tags.join(',') }),
         ...(filters.customDateRange?.from && { dateFrom: filters.customDateRange.from }),
         ...(filters.customDateRange?.to && { dateTo: filters.customDateRange.to }),
+        ...(filters.viewMode === 'net' && { viewMode: filters.viewMode }),
+        ...(filters.accountId && { accountId: filters.accountId }),
       });
       if (isDemo) {
         params.append('demo', 'true');
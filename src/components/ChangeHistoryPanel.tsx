@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChangeHistoryEntry, CHANGE_SOURCES, formatChangeValue } from '@/lib/changeHistory';
+
+const SOURCE_LABELS: Record<string, string> = {
+  [CHANGE_SOURCES.NOTES]: 'Notes edit',
+  [CHANGE_SOURCES.MERGE]: 'Merge',
+  [CHANGE_SOURCES.SPLIT]: 'Split',
+  [CHANGE_SOURCES.MOVE]: 'Move',
+  [CHANGE_SOURCES.LOCK]: 'Lock',
+  [CHANGE_SOURCES.MANUAL_EXECUTION]: 'Execution edit',
+  [CHANGE_SOURCES.DELETE]: 'Execution deleted',
+  [CHANGE_SOURCES.REVERT]: 'Revert',
+};
+
+interface ChangeHistoryPanelProps {
+  date: string;
+  tradeId?: string; // Only this trade and its executions; otherwise the whole day
+  refreshKey?: unknown; // History is fetched again whenever this changes
+  onReverted: () => void;
+}
+
+export default function ChangeHistoryPanel({ date, tradeId, refreshKey, onReverted }: ChangeHistoryPanelProps) {
+  const [changes, setChanges] = useState<ChangeHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ date });
+      if (tradeId) params.set('tradeId', tradeId);
+
+      const response = await fetch(`/api/history?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch change history');
+      }
+      setChanges(data.changes);
+    } catch (err) {
+      console.error('Error fetching change history:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [date, tradeId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory, refreshKey]);
+
+  const handleRevert = async (change: ChangeHistoryEntry) => {
+    setRevertingId(change.id);
+    try {
+      const response = await fetch(`/api/history/${change.id}/revert`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revert change');
+      }
+
+      toast.success(`${change.fieldLabel} reverted`);
+      onReverted();
+      fetchHistory();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to revert change');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-surface border-default">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base font-medium text-primary">History</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted">Loading history...</p>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted">No changes recorded yet</p>
+        ) : (
+          <ul className="divide-y">
+            {changes.map(change => (
+              <li key={change.id} className="flex items-start justify-between gap-4 py-2">
+                <div className="min-w-0 text-sm">
+                  <div className="text-primary">
+                    <span className="font-medium">{change.entityLabel}</span> · {change.fieldLabel}
+                    <span className="text-muted"> · {SOURCE_LABELS[change.source] ?? change.source}</span>
+                  </div>
+                  <div className="text-muted break-words">
+                    <span className="line-through">{formatChangeValue(change.oldValue)}</span>
+                    {' → '}
+                    <span>{formatChangeValue(change.newValue)}</span>
+                  </div>
+                  <div className="text-xs text-muted">{new Date(change.createdAt).toLocaleString()}</div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevert(change)}
+                  disabled={revertingId !== null}
+                  title={`Set ${change.fieldLabel.toLowerCase()} back to ${formatChangeValue(change.oldValue)}`}
+                >
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  {revertingId === change.id ? 'Reverting...' : 'Revert'}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,7 +4,7 @@ import React, { useState, useMemo } from 'react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { ChevronUp, ChevronDown, MoreHorizontal, ChevronRight, Settings, GripVertical, Copy } from 'lucide-react';
+import { ChevronUp, ChevronDown, MoreHorizontal, ChevronRight, Settings, GripVertical, Copy, Scissors, ArrowRightLeft } from 'lucide-react';
 import { useMediaQuery } from '@/hooks/useMediaQuery';
 import { Order } from '@prisma/client';
 import { 
@@ -18,7 +18,8 @@ import {
 } from '@/components/ui/dropdown-menu';
 
 // Extended interface for execution orders with calculated fields
-export interface ExecutionOrder extends Omit<Order, 'tags'> {
+export interface ExecutionOrder extends Omit<Order, 'tags' | 'orderQuantity'> {
+  orderQuantity: number;  // Serialized as a number so fractional fills stay numeric on the client
   pnl?: number;           // Calculated P&L for this execution
   shared?: boolean;       // Whether this execution has been shared
   notes?: string;         // Notes for this execution
@@ -31,6 +32,8 @@ interface ExecutionsTableProps {
   error?: string | null;
   onExecutionSelect?: (execution: ExecutionOrder) => void;
   showActions?: boolean;
+  onSplitTrade?: (execution: ExecutionOrder) => void; // Split the execution's trade so it starts a new trade
+  onMoveExecution?: (execution: ExecutionOrder) => void; // Move the execution to another trade
 }
 
 type SortField = 'id' | 'orderId' | 'symbol' | 'orderType' | 'side' | 'timeInForce' | 'orderQuantity' | 'limitPrice' | 'costBasis' | 'stopPrice' | 'orderStatus' | 'orderPlacedTime' | 'orderExecutedTime' | 'orderCancelledTime' | 'orderRoute' | 'brokerType' | 'tradeId';
@@ -71,7 +74,9 @@ export default function ExecutionsTable({
   loading = false,
   error = null,
   onExecutionSelect,
-  showActions = true 
+  showActions = true,
+  onSplitTrade,
+  onMoveExecution
 }: ExecutionsTableProps) {
   const [sortField, setSortField] = useState<SortField>('orderExecutedTime');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
@@ -271,8 +276,8 @@ export default function ExecutionsTable({
           bValue = Number(b.limitPrice) || 0;
           break;
         case 'costBasis':
-          aValue = (a.orderQuantity || 0) * (Number(a.limitPrice) || 0);
-          bValue = (b.orderQuantity || 0) * (Number(b.limitPrice) || 0);
+          aValue = (a.orderQuantity || 0) * (Number(a.limitPrice) || 0) * (Number(a.contractMultiplier) || 1);
+          bValue = (b.orderQuantity || 0) * (Number(b.limitPrice) || 0) * (Number(b.contractMultiplier) || 1);
           break;
         case 'stopPrice':
           aValue = Number(a.stopPrice) || 0;
@@ -536,7 +541,7 @@ export default function ExecutionsTable({
           </TableCell>
         );
       case 'costBasis':
-        const costBasis = (execution.orderQuantity || 0) * (Number(execution.limitPrice) || 0);
+        const costBasis = (execution.orderQuantity || 0) * (Number(execution.limitPrice) || 0) * (Number(execution.contractMultiplier) || 1);
         return (
           <TableCell className={cn("text-sm text-theme-primary-text whitespace-nowrap font-medium", cellClassName)} style={cellStyle}>
             {costBasis > 0 ? formatPrice(costBasis) : '-'}
@@ -812,7 +817,7 @@ export default function ExecutionsTable({
       executions: acc.executions + 1,
       volume: acc.volume + execution.orderQuantity,
       pnl: acc.pnl + (execution.pnl || 0),
-      costBasis: acc.costBasis + ((execution.orderQuantity || 0) * (Number(execution.limitPrice) || 0))
+      costBasis: acc.costBasis + ((execution.orderQuantity || 0) * (Number(execution.limitPrice) || 0) * (Number(execution.contractMultiplier) || 1))
     }), { executions: 0, volume: 0, pnl: 0, costBasis: 0 });
   }, [executions]);
 
@@ -1092,6 +1097,24 @@ export default function ExecutionsTable({
                               </span>
                             </div>
                           </div>
+
+                          {execution.tradeId && (onSplitTrade || onMoveExecution) && (
+                            <>
+                              <DropdownMenuSeparator />
+                              {onSplitTrade && (
+                                <DropdownMenuItem onClick={() => onSplitTrade(execution)}>
+                                  <Scissors className="h-4 w-4 mr-2" />
+                                  Split trade here
+                                </DropdownMenuItem>
+                              )}
+                              {onMoveExecution && (
+                                <DropdownMenuItem onClick={() => onMoveExecution(execution)}>
+                                  <ArrowRightLeft className="h-4 w-4 mr-2" />
+                                  Move to another trade
+                                </DropdownMenuItem>
+                              )}
+                            </>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
@@ -10,6 +10,7 @@ import { Settings, ChevronDown, ChevronUp, Filter } from 'lucide-react';
 import DynamicFilterDropdown from '@/components/DynamicFilterDropdown';
 import AdvancedFiltersPanel from '@/components/AdvancedFiltersPanel';
 import { useTradesMetadata } from '@/hooks/useTradesMetadata';
+import { useAccounts, getAccountLabel } from '@/hooks/useAccounts';
 import { useGlobalFilters, type TimeFramePreset } from '@/contexts/GlobalFilterContext';
 import { cn } from '@/lib/utils';
 
@@ -29,6 +30,7 @@ export default function FilterPanel({
   const [isMobile, setIsMobile] = useState(false);
   
   const { metadata, loading: metadataLoading } = useTradesMetadata();
+  const { accounts } = useAccounts();
   const { 
     filters, 
     updateFilter, 
@@ -44,6 +46,7 @@ export default function FilterPanel({
   // Check if custom date filters are applied
   const hasCustomDateFilters = Boolean(filters.customDateRange?.from || filters.customDateRange?.to || filters.timeFramePreset);
   const shouldShowClearButton = hasCustomDateFilters || hasAdvancedFilters;
+  const selectedAccount = accounts.find(account => account.id === filters.accountId);
   
   // Detect mobile viewport
   useEffect(() => {
@@ -72,6 +75,7 @@ export default function FilterPanel({
     filters.tags && filters.tags.length > 0 ? 1 : 0,
     filters.side && filters.side !== 'all' ? 1 : 0,
     filters.duration && filters.duration !== 'all' ? 1 : 0,
+    filters.accountId ? 1 : 0,
     filters.showOpenTrades ? 1 : 0,
     hasCustomDateFilters ? 1 : 0,
     hasAdvancedFilters ? 1 : 0
@@ -144,6 +148,24 @@ export default function FilterPanel({
           </Select>
         </div>
 
+        {/* Account Filter */}
+        {accounts.length > 0 && (
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium text-primary">Account</label>
+            <Select value={filters.accountId || 'all'} onValueChange={(value) => updateFilter('accountId', value === 'all' ? undefined : value)}>
+              <SelectTrigger className="w-36 h-8 text-sm">
+                <SelectValue placeholder="All" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>{getAccountLabel(account)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Duration Filter */}
         <div className="flex items-center gap-2">
           <label className="text-sm font-medium text-primary">Duration</label>
@@ -301,6 +323,17 @@ export default function FilterPanel({
             </button>
           </Badge>
         )}
+        {filters.accountId && (
+          <Badge variant="secondary" className="text-xs">
+            Account: {selectedAccount ? getAccountLabel(selectedAccount) : filters.accountId}
+            <button 
+              onClick={() => updateFilter('accountId', undefined)}
+              className="ml-1 text-muted hover:text-primary"
+            >
+              ×
+            </button>
+          </Badge>
+        )}
         {filters.duration && filters.duration !== 'all' && (
           <Badge variant="secondary" className="text-xs">
             Duration: {filters.duration}
@@ -0,0 +1,437 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { OrderSide } from '@prisma/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { ClipboardPaste, Pencil, Plus, Save, Trash2, X, Loader2 } from 'lucide-react';
+import { useAccounts, getAccountLabel } from '@/hooks/useAccounts';
+import {
+  emptyDraft,
+  executionToDraft,
+  parseExecutionRows,
+  toManualExecutionInputs,
+  ManualExecution,
+  ManualExecutionDraft,
+} from '@/lib/manualExecutions';
+
+const NO_ACCOUNT = 'none';
+const INITIAL_ROWS = 5;
+
+type TextField = Exclude<keyof ManualExecutionDraft, 'side'>;
+
+// Cells after the side column
+const amountColumns: Array<{ field: TextField; label: string; placeholder: string; className: string }> = [
+  { field: 'quantity', label: 'Qty', placeholder: '100', className: 'w-24' },
+  { field: 'price', label: 'Price', placeholder: '187.25', className: 'w-28' },
+  { field: 'commission', label: 'Commission', placeholder: '0.00', className: 'w-24' },
+  { field: 'fees', label: 'Fees', placeholder: '0.00', className: 'w-24' },
+];
+
+function formatExecutedAt(value: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+function DraftCells({
+  draft,
+  onChange,
+  onPaste,
+  disabled,
+}: {
+  draft: ManualExecutionDraft;
+  onChange: (draft: ManualExecutionDraft) => void;
+  onPaste?: (event: React.ClipboardEvent<HTMLInputElement>) => void;
+  disabled: boolean;
+}) {
+  const textCell = (field: TextField, placeholder: string, className: string) => (
+    <Input
+      value={draft[field]}
+      placeholder={placeholder}
+      className={className}
+      disabled={disabled}
+      onPaste={onPaste}
+      onChange={(event) => onChange({ ...draft, [field]: event.target.value })}
+    />
+  );
+
+  return (
+    <>
+      <TableCell>{textCell('executedAt', '2024-03-01 09:31:05', 'w-44')}</TableCell>
+      <TableCell>{textCell('symbol', 'AAPL', 'w-28')}</TableCell>
+      <TableCell>
+        <Select
+          value={draft.side}
+          onValueChange={(side) => onChange({ ...draft, side: side as OrderSide })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-24">
+            <SelectValue placeholder="Side" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={OrderSide.BUY}>Buy</SelectItem>
+            <SelectItem value={OrderSide.SELL}>Sell</SelectItem>
+          </SelectContent>
+        </Select>
+      </TableCell>
+      {amountColumns.map(({ field, placeholder, className }) => (
+        <TableCell key={field}>{textCell(field, placeholder, className)}</TableCell>
+      ))}
+    </>
+  );
+}
+
+export default function ManualExecutionsGrid() {
+  const { accounts } = useAccounts();
+  const [accountId, setAccountId] = useState(NO_ACCOUNT);
+  const [drafts, setDrafts] = useState<ManualExecutionDraft[]>(() => Array.from({ length: INITIAL_ROWS }, emptyDraft));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [executions, setExecutions] = useState<ManualExecution[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<{ id: string; draft: ManualExecutionDraft } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadExecutions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/orders/manual');
+      if (!response.ok) throw new Error('Failed to fetch manual executions');
+
+      const data = await response.json();
+      setExecutions(data.executions);
+    } catch (error) {
+      console.error('Failed to load manual executions:', error);
+      toast.error('Failed to load manual executions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadExecutions();
+  }, [loadExecutions]);
+
+  const accountLabel = (id: string | null) => {
+    const account = accounts.find(candidate => candidate.id === id);
+    return account ? getAccountLabel(account) : '—';
+  };
+
+  // Pasting several cells or lines fills the grid from the row pasted into
+  const handlePaste = (rowIndex: number) => (event: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = event.clipboardData.getData('text');
+    if (!/[\t\n]/.test(text.trim())) return;
+
+    event.preventDefault();
+    const pasted = parseExecutionRows(text);
+    if (pasted.length === 0) {
+      toast.error('No executions found in the pasted text');
+      return;
+    }
+
+    setDrafts(current => {
+      const next = [...current];
+      next.splice(rowIndex, pasted.length, ...pasted);
+      return next;
+    });
+    toast.success(`Pasted ${pasted.length} ${pasted.length === 1 ? 'row' : 'rows'}`);
+  };
+
+  const handlePasteButton = async () => {
+    try {
+      const text = await navigator.clipboard.readText();
+      const pasted = parseExecutionRows(text);
+      if (pasted.length === 0) {
+        toast.error('No executions found on the clipboard');
+        return;
+      }
+
+      setDrafts(current => [...current.filter(draft => Object.values(draft).some(value => value !== '')), ...pasted]);
+      toast.success(`Pasted ${pasted.length} ${pasted.length === 1 ? 'row' : 'rows'}`);
+    } catch (error) {
+      console.error('Failed to read clipboard:', error);
+      toast.error('Clipboard access was blocked. Click a cell and paste with Ctrl+V instead.');
+    }
+  };
+
+  const updateDraft = (index: number, draft: ManualExecutionDraft) => {
+    setDrafts(current => current.map((existing, i) => (i === index ? draft : existing)));
+  };
+
+  const removeDraft = (index: number) => {
+    setDrafts(current => (current.length > 1 ? current.filter((_, i) => i !== index) : [emptyDraft()]));
+  };
+
+  const handleSave = async () => {
+    const { executions: toSave, errors } = toManualExecutionInputs(drafts, accountId === NO_ACCOUNT ? null : accountId);
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+    if (toSave.length === 0) {
+      toast.error('Add at least one execution');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/orders/manual', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ executions: toSave })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.details?.[0]?.message || data.error || 'Failed to save executions');
+        return;
+      }
+
+      toast.success(`Saved ${data.ordersCreated} executions. ${data.tradesBuilt} trades built.`);
+      setDrafts(Array.from({ length: INITIAL_ROWS }, emptyDraft));
+      await loadExecutions();
+    } catch (error) {
+      console.error('Failed to save manual executions:', error);
+      toast.error('Failed to save executions. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editing) return;
+
+    const original = executions.find(execution => execution.id === editing.id);
+    const { executions: [execution], errors } = toManualExecutionInputs([editing.draft], original?.accountId ?? null);
+    if (!execution) {
+      toast.error(errors[0]?.replace(/^Row 1: /, '') || 'Enter the execution details');
+      return;
+    }
+
+    setBusyId(editing.id);
+    try {
+      const response = await fetch(`/api/orders/manual/${editing.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(execution)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.details?.[0]?.message || data.error || 'Failed to update execution');
+        return;
+      }
+
+      toast.success('Execution updated and trades rebuilt');
+      setEditing(null);
+      await loadExecutions();
+    } catch (error) {
+      console.error('Failed to update manual execution:', error);
+      toast.error('Failed to update execution. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (execution: ManualExecution) => {
+    if (!confirm(`Delete the ${execution.side.toLowerCase()} of ${execution.quantity} ${execution.symbol}? Its trades will be rebuilt.`)) {
+      return;
+    }
+
+    setBusyId(execution.id);
+    try {
+      const response = await fetch(`/api/orders/manual/${execution.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to delete execution');
+        return;
+      }
+
+      toast.success('Execution deleted and trades rebuilt');
+      await loadExecutions();
+    } catch (error) {
+      console.error('Failed to delete manual execution:', error);
+      toast.error('Failed to delete execution. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const headers = (
+    <TableRow>
+      <TableHead>Date / Time</TableHead>
+      <TableHead>Symbol</TableHead>
+      <TableHead>Side</TableHead>
+      {amountColumns.map(({ field, label }) => (
+        <TableHead key={field}>{label}</TableHead>
+      ))}
+      <TableHead />
+    </TableRow>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Enter Executions</CardTitle>
+          <CardDescription>
+            Type each fill, or paste rows copied from a spreadsheet or your broker&apos;s fills window. Columns without a
+            header are read as date/time, symbol, side, quantity, price, commission and fees. Executions are built into
+            trades the same way as imported ones.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="manualAccount">Account</Label>
+              <Select value={accountId} onValueChange={setAccountId} disabled={isSaving}>
+                <SelectTrigger id="manualAccount" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{getAccountLabel(account)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={handlePasteButton} disabled={isSaving}>
+              <ClipboardPaste className="h-4 w-4 mr-2" />
+              Paste from Clipboard
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>{headers}</TableHeader>
+            <TableBody>
+              {drafts.map((draft, index) => (
+                <TableRow key={index}>
+                  <DraftCells
+                    draft={draft}
+                    onChange={(updated) => updateDraft(index, updated)}
+                    onPaste={handlePaste(index)}
+                    disabled={isSaving}
+                  />
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => removeDraft(index)} disabled={isSaving}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setDrafts(current => [...current, emptyDraft()])} disabled={isSaving}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Row
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              {isSaving ? 'Saving...' : 'Save Executions'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Manual Executions</CardTitle>
+          <CardDescription>
+            Editing or deleting an execution rebuilds the trades it belongs to. Notes and tags stay on trades that
+            still open at the same time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading executions...
+            </div>
+          ) : executions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No manual executions yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>{headers}</TableHeader>
+              <TableBody>
+                {executions.map((execution) => (
+                  <TableRow key={execution.id}>
+                    {editing?.id === execution.id ? (
+                      <>
+                        <DraftCells
+                          draft={editing.draft}
+                          onChange={(draft) => setEditing({ id: execution.id, draft })}
+                          disabled={busyId === execution.id}
+                        />
+                        <TableCell className="whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={handleUpdate} disabled={busyId === execution.id}>
+                            {busyId === execution.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setEditing(null)} disabled={busyId === execution.id}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </>
+                    ) : (
+                      <>
+                        <TableCell>{formatExecutedAt(execution.executedAt)}</TableCell>
+                        <TableCell>
+                          {execution.symbol}
+                          <span className="block text-xs text-muted-foreground">{accountLabel(execution.accountId)}</span>
+                        </TableCell>
+                        <TableCell className={execution.side === OrderSide.BUY ? 'text-positive' : 'text-negative'}>
+                          {execution.side === OrderSide.BUY ? 'Buy' : 'Sell'}
+                        </TableCell>
+                        <TableCell>{execution.quantity}</TableCell>
+                        <TableCell>{execution.price}</TableCell>
+                        <TableCell>{execution.commission ?? '—'}</TableCell>
+                        <TableCell>{execution.fees ?? '—'}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditing({ id: execution.id, draft: executionToDraft(execution) })}
+                            disabled={busyId !== null}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(execution)}
+                            disabled={busyId !== null}
+                          >
+                            {busyId === execution.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                          </Button>
+                        </TableCell>
+                      </>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
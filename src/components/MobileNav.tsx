@@ -30,7 +30,8 @@ import {
   Menu,
   Shield,
   Users,
-  AlertTriangle
+  AlertTriangle,
+  Wallet
 } from 'lucide-react';
 
 const navigation = [
@@ -39,6 +40,7 @@ const navigation = [
   { name: 'Reports', href: '/reports', icon: BarChart3 },
   { name: 'Trades', href: '/trades', icon: TrendingUp },
   { name: 'Records', href: '/records', icon: BookOpen },
+  { name: 'Cash Ledger', href: '/ledger', icon: Wallet },
   { name: 'Search', href: '/search', icon: Search },
   { name: 'Import Trades', href: '/import', icon: Import },
   { name: 'Settings', href: '/settings', icon: Settings },
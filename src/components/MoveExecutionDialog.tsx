@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trade } from '@/types';
+import { ExecutionOrder } from '@/components/ExecutionsTable';
+
+const NEW_TRADE = 'new';
+
+export interface MoveExecutionResult {
+  tradeIds: string[];
+  deletedTradeIds: string[];
+}
+
+interface MoveExecutionDialogProps {
+  execution: ExecutionOrder | null; // Dialog is open while an execution is set
+  trades: Trade[]; // Trades the execution could move to; other symbols are left out
+  onClose: () => void;
+  onMoved: (result: MoveExecutionResult) => void;
+}
+
+export default function MoveExecutionDialog({ execution, trades, onClose, onMoved }: MoveExecutionDialogProps) {
+  const [targetTradeId, setTargetTradeId] = useState(NEW_TRADE);
+  const [isMoving, setIsMoving] = useState(false);
+  const [moveError, setMoveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTargetTradeId(NEW_TRADE);
+    setMoveError(null);
+  }, [execution]);
+
+  const candidates = execution
+    ? trades.filter(trade => trade.symbol === execution.symbol && trade.id !== execution.tradeId)
+    : [];
+
+  const handleMove = async () => {
+    if (!execution) return;
+    setIsMoving(true);
+    setMoveError(null);
+
+    try {
+      const response = await fetch('/api/trades/move-orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          orderIds: [execution.id],
+          targetTradeId: targetTradeId === NEW_TRADE ? null : targetTradeId,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to move execution');
+      }
+
+      onMoved({ tradeIds: data.tradeIds, deletedTradeIds: data.deletedTradeIds });
+    } catch (err) {
+      setMoveError(err instanceof Error ? err.message : 'Failed to move execution');
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!execution} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Move Execution</DialogTitle>
+          <DialogDescription>
+            {execution
+              ? `${execution.side} ${execution.orderQuantity} ${execution.symbol}. Both trades are recalculated and locked so rebuilds keep the change.`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          <Select value={targetTradeId} onValueChange={setTargetTradeId} disabled={isMoving}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NEW_TRADE}>New trade</SelectItem>
+              {candidates.map(trade => (
+                <SelectItem key={trade.id} value={trade.id}>
+                  {trade.date} {trade.time} · {trade.side.toUpperCase()} {trade.quantity} {trade.symbol}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {moveError && (
+            <p className="text-sm text-red-600">{moveError}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isMoving}>
+            Cancel
+          </Button>
+          <Button onClick={handleMove} disabled={isMoving}>
+            {isMoving ? 'Moving...' : 'Move'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -46,7 +46,8 @@ import {
   AlertTriangle,
   RefreshCw,
   BookText,
-  Activity
+  Activity,
+  Wallet
 } from 'lucide-react';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Theme } from '@/lib/themes';
@@ -57,6 +58,7 @@ const navigation = [
   { name: 'Reports', href: '/reports', icon: BarChart3 },
   { name: 'Trades', href: '/trades', icon: TrendingUp },
   { name: 'Records', href: '/records', icon: BookOpen },
+  { name: 'Cash Ledger', href: '/ledger', icon: Wallet },
   { name: 'Search', href: '/search', icon: Search },
   { name: 'Import Trades', href: '/import', icon: Import },
   { name: 'Settings', href: '/settings', icon: Settings },
@@ -4,11 +4,12 @@ import React, { useState } from 'react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
-import { Trade, ColumnConfiguration } from '@/types';
+import { Trade, TradeStrategy, ColumnConfiguration } from '@/types';
 import { cn } from '@/lib/utils';
-import { ChevronUp, ChevronDown, MoreHorizontal, ChevronRight } from 'lucide-react';
+import { ChevronUp, ChevronDown, MoreHorizontal, ChevronRight, Lock, Merge } from 'lucide-react';
 import { useMediaQuery } from '@/hooks/useMediaQuery';
 import { useRouter } from 'next/navigation';
+import { STRATEGY_TYPE_LABELS } from '@/lib/optionStrategies';
 
 interface TradesTableProps {
   trades: Trade[];
@@ -19,11 +20,17 @@ interface TradesTableProps {
   isSharedView?: boolean;
   externalSelectedTrades?: string[];
   onSelectionChange?: (selectedIds: string[]) => void;
+  onMergeSelected?: (tradeIds: string[]) => void; // Shows a merge action when two or more trades are selected
 }
 
-type SortField = 'date' | 'time' | 'symbol' | 'side' | 'holdingPeriod' | 'entryPrice' | 'exitPrice' | 'volume' | 'executions' | 'pnl' | 'commission' | 'fees' | 'marketSession' | 'orderType';
+type SortField = 'date' | 'time' | 'symbol' | 'side' | 'holdingPeriod' | 'entryPrice' | 'exitPrice' | 'volume' | 'executions' | 'pnl' | 'commission' | 'fees' | 'financingCost' | 'marketSession' | 'orderType';
 type SortDirection = 'asc' | 'desc';
 
+// Legs of a multi-leg option strategy are shown under one expandable row
+type TableRowItem =
+  | { kind: 'trade'; trade: Trade }
+  | { kind: 'strategy'; strategy: TradeStrategy; legs: Trade[] };
+
 // Define priority columns for different screen sizes
 const PRIORITY_COLUMNS = {
   mobile: ['symbol', 'pnl', 'date'],
@@ -38,13 +45,15 @@ const TradesTable = React.memo<TradesTableProps>(({
   columnConfig = [],
   isSharedView = false,
   externalSelectedTrades,
-  onSelectionChange
+  onSelectionChange,
+  onMergeSelected
 }) => {
   const router = useRouter();
   const [internalSelectedTrades, setInternalSelectedTrades] = useState<string[]>([]);
   const [sortField, setSortField] = useState<SortField>('time');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [expandedRows, setExpandedRows] = useState<string[]>([]);
+  const [expandedStrategies, setExpandedStrategies] = useState<string[]>([]);
 
   // Use external selection if provided, otherwise use internal
   const selectedTrades = externalSelectedTrades !== undefined ? externalSelectedTrades : internalSelectedTrades;
@@ -68,6 +77,7 @@ const TradesTable = React.memo<TradesTableProps>(({
     { id: 'pnl', label: 'P&L', visible: true, sortable: true },
     { id: 'commission', label: 'Commission', visible: true, sortable: true },
     { id: 'fees', label: 'Fees', visible: true, sortable: true },
+    { id: 'financingCost', label: 'Financing', visible: true, sortable: true },
     { id: 'notes', label: 'NOTES', visible: true, sortable: false },
     { id: 'tags', label: 'TAGS', visible: true, sortable: false },
     { id: 'marketSession', label: 'Session', visible: true, sortable: true },
@@ -152,6 +162,28 @@ const TradesTable = React.memo<TradesTableProps>(({
     });
   }, [trades, sortField, sortDirection]);
 
+  // Group strategy legs at the position of their first leg; a lone leg on the page stays a plain row
+  const rowItems = React.useMemo(() => {
+    const legsByStrategy = new Map<string, Trade[]>();
+    sortedTrades.forEach(trade => {
+      if (!trade.strategy) return;
+      legsByStrategy.set(trade.strategy.id, [...(legsByStrategy.get(trade.strategy.id) || []), trade]);
+    });
+
+    const items: TableRowItem[] = [];
+    const addedStrategies = new Set<string>();
+    sortedTrades.forEach(trade => {
+      const legs = trade.strategy ? legsByStrategy.get(trade.strategy.id) || [] : [];
+      if (!trade.strategy || legs.length < 2) {
+        items.push({ kind: 'trade', trade });
+      } else if (!addedStrategies.has(trade.strategy.id)) {
+        addedStrategies.add(trade.strategy.id);
+        items.push({ kind: 'strategy', strategy: trade.strategy, legs });
+      }
+    });
+    return items;
+  }, [sortedTrades]);
+
   const handleSelectTrade = (tradeId: string, checked: boolean) => {
     const newSelection = checked
       ? [...selectedTrades, tradeId]
@@ -174,6 +206,27 @@ const TradesTable = React.memo<TradesTableProps>(({
     }
   };
   
+  const toggleStrategyExpansion = (strategyId: string) => {
+    setExpandedStrategies(prev =>
+      prev.includes(strategyId)
+        ? prev.filter(id => id !== strategyId)
+        : [...prev, strategyId]
+    );
+  };
+
+  const handleSelectStrategy = (legs: Trade[], checked: boolean) => {
+    const legIds = legs.map(leg => leg.id);
+    const newSelection = checked
+      ? Array.from(new Set([...selectedTrades, ...legIds]))
+      : selectedTrades.filter(id => !legIds.includes(id));
+
+    if (onSelectionChange) {
+      onSelectionChange(newSelection);
+    } else {
+      setInternalSelectedTrades(newSelection);
+    }
+  };
+
   const toggleRowExpansion = (tradeId: string) => {
     setExpandedRows(prev => 
       prev.includes(tradeId) 
@@ -210,7 +263,14 @@ const TradesTable = React.memo<TradesTableProps>(({
       case 'symbol':
         return (
           <TableCell className="text-sm font-medium text-primary">
-            {trade.symbol}
+            <span className="inline-flex items-center gap-1">
+              {trade.symbol}
+              {trade.isLocked && (
+                <span title="Corrected by hand; rebuilds keep this trade as it is">
+                  <Lock className="h-3 w-3 text-muted" />
+                </span>
+              )}
+            </span>
           </TableCell>
         );
       case 'side':
@@ -301,6 +361,12 @@ const TradesTable = React.memo<TradesTableProps>(({
             {trade.fees != null ? `$${Math.abs(trade.fees).toFixed(2)}` : '-'}
           </TableCell>
         );
+      case 'financingCost':
+        return (
+          <TableCell className="text-sm text-primary">
+            {trade.financingCost != null ? `$${trade.financingCost.toFixed(2)}` : '-'}
+          </TableCell>
+        );
       case 'marketSession':
         return (
           <TableCell className="text-sm text-primary">
@@ -338,6 +404,90 @@ const TradesTable = React.memo<TradesTableProps>(({
     }
   };
   
+  // Summary cells for a strategy row: combined figures of the legs shown on this page
+  const renderStrategyCellContent = (strategy: TradeStrategy, legs: Trade[], columnId: string) => {
+    const sum = (value: (leg: Trade) => number | undefined) => legs.reduce((total, leg) => total + (value(leg) || 0), 0);
+    const isExpanded = expandedStrategies.includes(strategy.id);
+
+    switch (columnId) {
+      case 'date':
+        return (
+          <TableCell className="text-sm text-primary font-medium whitespace-nowrap">
+            {legs[0].date}
+          </TableCell>
+        );
+      case 'time':
+        return (
+          <TableCell className="text-sm text-muted whitespace-nowrap">
+            {legs[0].time}
+          </TableCell>
+        );
+      case 'symbol':
+        return (
+          <TableCell className="text-sm font-medium text-primary">
+            <div className="flex items-center gap-1">
+              <ChevronRight className={cn('h-4 w-4 transition-transform', isExpanded && 'rotate-90')} />
+              <div>
+                <div className="whitespace-nowrap">
+                  {strategy.underlyingSymbol} {STRATEGY_TYPE_LABELS[strategy.type]}
+                </div>
+                <div className="text-xs text-muted font-normal whitespace-nowrap">
+                  {legs.length} legs · {strategy.maxRisk !== null ? `Max risk ${formatPnL(strategy.maxRisk)}` : 'Unlimited risk'}
+                </div>
+              </div>
+            </div>
+          </TableCell>
+        );
+      case 'volume':
+        return (
+          <TableCell className="text-sm text-primary">
+            {sum(leg => leg.quantity).toLocaleString()}
+          </TableCell>
+        );
+      case 'executions':
+        return (
+          <TableCell className="text-sm text-primary">
+            {sum(leg => leg.executions)}
+          </TableCell>
+        );
+      case 'pnl': {
+        const pnl = sum(leg => leg.pnl);
+        return (
+          <TableCell className={cn(
+            'text-sm font-medium whitespace-nowrap',
+            pnl >= 0 ? 'text-positive' : 'text-negative'
+          )}>
+            {formatPnL(pnl)}
+          </TableCell>
+        );
+      }
+      case 'commission':
+        return (
+          <TableCell className="text-sm text-primary">
+            ${Math.abs(sum(leg => leg.commission)).toFixed(2)}
+          </TableCell>
+        );
+      case 'fees':
+        return (
+          <TableCell className="text-sm text-primary">
+            ${Math.abs(sum(leg => leg.fees)).toFixed(2)}
+          </TableCell>
+        );
+      case 'financingCost':
+        return (
+          <TableCell className="text-sm text-primary">
+            ${sum(leg => leg.financingCost).toFixed(2)}
+          </TableCell>
+        );
+      default:
+        return (
+          <TableCell className="text-sm text-muted">
+            -
+          </TableCell>
+        );
+    }
+  };
+
   // Render expanded row details for mobile
   const renderExpandedDetails = (trade: Trade) => {
     const hiddenColumns = effectiveColumns.filter(col => 
@@ -370,6 +520,8 @@ const TradesTable = React.memo<TradesTableProps>(({
                       trade.commission != null ? `$${Math.abs(trade.commission).toFixed(2)}` : '-'
                     ) : col.id === 'fees' ? (
                       trade.fees != null ? `$${Math.abs(trade.fees).toFixed(2)}` : '-'
+                    ) : col.id === 'financingCost' ? (
+                      trade.financingCost != null ? `$${trade.financingCost.toFixed(2)}` : '-'
                     ) : col.id === 'marketSession' ? (
                       trade.marketSession === 'PRE_MARKET' ? 'Pre Market' :
                       trade.marketSession === 'REGULAR' ? 'Regular' :
@@ -387,7 +539,7 @@ const TradesTable = React.memo<TradesTableProps>(({
                       trade.orderType === 'PEGGED_TO_MIDPOINT' ? 'Pegged to Midpoint' :
                       trade.orderType || '-'
                     ) : (
-                      trade[col.id as keyof Trade] || '-'
+                      trade[col.id as Exclude<keyof Trade, 'strategy'>] || '-'
                     )}
                   </span>
                 </div>
@@ -399,6 +551,113 @@ const TradesTable = React.memo<TradesTableProps>(({
     );
   };
 
+  const renderTradeRow = (trade: Trade, isLeg = false) => (
+    <React.Fragment key={trade.id}>
+      <TableRow
+        className={cn(
+          "hover:bg-surface/50 border-b border-default",
+          !isSharedView && "cursor-pointer",
+          isLeg && "bg-surface/60"
+        )}
+        onClick={() => {
+          if (!isSharedView) {
+            // Call existing onTradeSelect callback if provided
+            onTradeSelect?.(trade);
+            // Navigate to records page
+            handleTradeClick(trade);
+          }
+        }}
+      >
+        {showCheckboxes && !isMobile && (
+          <TableCell className="sticky left-0 bg-inherit z-10">
+            <Checkbox 
+              checked={selectedTrades.includes(trade.id)}
+              onCheckedChange={(checked) => handleSelectTrade(trade.id, !!checked)}
+              onClick={(e) => e.stopPropagation()}
+            />
+          </TableCell>
+        )}
+        {isMobile && (
+          <TableCell className="w-8">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleRowExpansion(trade.id);
+              }}
+              className="p-1"
+            >
+              <ChevronRight 
+                className={cn(
+                  "h-4 w-4 transition-transform",
+                  expandedRows.includes(trade.id) && "rotate-90"
+                )}
+              />
+            </button>
+          </TableCell>
+        )}
+        {visibleColumns.map((column, index) => {
+          const cellContent = renderCellContent(trade, column.id);
+          if (index === 0 && !showCheckboxes && !isMobile) {
+            return (
+              <React.Fragment key={column.id}>
+                {React.cloneElement(cellContent as React.ReactElement<{className?: string}>, {
+                  className: cn(
+                    (cellContent as React.ReactElement<{className?: string}>).props?.className,
+                    "sticky left-0 bg-inherit z-10"
+                  )
+                })}
+              </React.Fragment>
+            );
+          }
+          return <React.Fragment key={column.id}>{cellContent}</React.Fragment>;
+        })}
+        {!isMobile && !isSharedView && (
+          <TableCell>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+              <MoreHorizontal className="h-3 w-3" />
+            </Button>
+          </TableCell>
+        )}
+        {!isMobile && isSharedView && (
+          <TableCell></TableCell>
+        )}
+      </TableRow>
+      {isMobile && expandedRows.includes(trade.id) && renderExpandedDetails(trade)}
+    </React.Fragment>
+  );
+
+  const renderStrategyRows = (strategy: TradeStrategy, legs: Trade[]) => {
+    const legIds = legs.map(leg => leg.id);
+    const isExpanded = expandedStrategies.includes(strategy.id);
+
+    return (
+      <React.Fragment key={`strategy-${strategy.id}`}>
+        <TableRow
+          className="hover:bg-surface/50 border-b border-default cursor-pointer"
+          onClick={() => toggleStrategyExpansion(strategy.id)}
+        >
+          {showCheckboxes && !isMobile && (
+            <TableCell className="sticky left-0 bg-inherit z-10">
+              <Checkbox
+                checked={legIds.every(id => selectedTrades.includes(id))}
+                onCheckedChange={(checked) => handleSelectStrategy(legs, !!checked)}
+                onClick={(e) => e.stopPropagation()}
+              />
+            </TableCell>
+          )}
+          {isMobile && <TableCell className="w-8"></TableCell>}
+          {visibleColumns.map(column => (
+            <React.Fragment key={column.id}>
+              {renderStrategyCellContent(strategy, legs, column.id)}
+            </React.Fragment>
+          ))}
+          {!isMobile && <TableCell></TableCell>}
+        </TableRow>
+        {isExpanded && legs.map(leg => renderTradeRow(leg, true))}
+      </React.Fragment>
+    );
+  };
+
   const SortButton = ({ field, children }: { field: SortField; children: React.ReactNode }) => (
     <button
       onClick={() => handleSort(field)}
@@ -427,6 +686,15 @@ const TradesTable = React.memo<TradesTableProps>(({
 
   return (
     <div className="bg-surface border border-default rounded-lg">
+      {onMergeSelected && showCheckboxes && selectedTrades.length >= 2 && (
+        <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-default text-sm">
+          <span className="text-muted">{selectedTrades.length} trades selected</span>
+          <Button variant="outline" size="sm" onClick={() => onMergeSelected(selectedTrades)}>
+            <Merge className="h-4 w-4 mr-1" />
+            Merge {selectedTrades.length} trades
+          </Button>
+        </div>
+      )}
       <div className="overflow-x-auto">
         <Table className="w-full">
         <TableHeader>
@@ -461,79 +729,11 @@ const TradesTable = React.memo<TradesTableProps>(({
           </TableRow>
         </TableHeader>
         <TableBody>
-          {sortedTrades.map((trade) => (
-            <React.Fragment key={trade.id}>
-              <TableRow
-                className={cn(
-                  "hover:bg-surface/50 border-b border-default",
-                  !isSharedView && "cursor-pointer"
-                )}
-                onClick={() => {
-                  if (!isSharedView) {
-                    // Call existing onTradeSelect callback if provided
-                    onTradeSelect?.(trade);
-                    // Navigate to records page
-                    handleTradeClick(trade);
-                  }
-                }}
-              >
-                {showCheckboxes && !isMobile && (
-                  <TableCell className="sticky left-0 bg-inherit z-10">
-                    <Checkbox 
-                      checked={selectedTrades.includes(trade.id)}
-                      onCheckedChange={(checked) => handleSelectTrade(trade.id, !!checked)}
-                      onClick={(e) => e.stopPropagation()}
-                    />
-                  </TableCell>
-                )}
-                {isMobile && (
-                  <TableCell className="w-8">
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        toggleRowExpansion(trade.id);
-                      }}
-                      className="p-1"
-                    >
-                      <ChevronRight 
-                        className={cn(
-                          "h-4 w-4 transition-transform",
-                          expandedRows.includes(trade.id) && "rotate-90"
-                        )}
-                      />
-                    </button>
-                  </TableCell>
-                )}
-                {visibleColumns.map((column, index) => {
-                  const cellContent = renderCellContent(trade, column.id);
-                  if (index === 0 && !showCheckboxes && !isMobile) {
-                    return (
-                      <React.Fragment key={column.id}>
-                        {React.cloneElement(cellContent as React.ReactElement<{className?: string}>, {
-                          className: cn(
-                            (cellContent as React.ReactElement<{className?: string}>).props?.className,
-                            "sticky left-0 bg-inherit z-10"
-                          )
-                        })}
-                      </React.Fragment>
-                    );
-                  }
-                  return <React.Fragment key={column.id}>{cellContent}</React.Fragment>;
-                })}
-                {!isMobile && !isSharedView && (
-                  <TableCell>
-                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
-                      <MoreHorizontal className="h-3 w-3" />
-                    </Button>
-                  </TableCell>
-                )}
-                {!isMobile && isSharedView && (
-                  <TableCell></TableCell>
-                )}
-              </TableRow>
-              {isMobile && expandedRows.includes(trade.id) && renderExpandedDetails(trade)}
-            </React.Fragment>
-          ))}
+          {rowItems.map(item =>
+            item.kind === 'strategy'
+              ? renderStrategyRows(item.strategy, item.legs)
+              : renderTradeRow(item.trade)
+          )}
           
           {/* Totals Row - Hidden on mobile */}
           {!isMobile && (
@@ -96,6 +96,7 @@ export default function WinLossExpectationTab({ data }: AnalyticsTabContentProps
     if (data.filters?.dateTo) params.append('to', data.filters.dateTo);
     if (data.filters?.symbol) params.append('symbol', data.filters.symbol);
     if (data.filters?.side) params.append('side', data.filters.side);
+    if (data.filters?.accountId) params.append('accountId', data.filters.accountId);
     
     return params.toString();
   }, [data]);
@@ -0,0 +1,80 @@
+'use client';
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatTimeAxis, CHART_FORMATTERS } from '@/lib/chartFormatters';
+import { AccountEquityPoint } from '@/lib/cashLedger';
+
+interface AccountEquityChartProps {
+  data: AccountEquityPoint[];
+  title: string;
+  height?: number;
+}
+
+const SERIES_LABELS: Record<string, string> = {
+  equity: 'Equity',
+  tradingPnl: 'Trading P&L',
+  cashFlows: 'Cash flows',
+};
+
+/**
+ * Account equity with trading P&L and cash flows (deposits, withdrawals, dividends, interest, fees)
+ * drawn separately, so growth from trading is not confused with money added to the account
+ */
+const AccountEquityChart = React.memo(function AccountEquityChart({ data, title, height = 300 }: AccountEquityChartProps) {
+  const formatTooltipValue = React.useCallback((value: number, name: string) => {
+    return [`$${value.toFixed(2)}`, SERIES_LABELS[name] ?? name];
+  }, []);
+
+  const formatYAxisTick = React.useCallback((value: number) => {
+    return CHART_FORMATTERS.currency.formatAxisValue(value);
+  }, []);
+
+  return (
+    <Card className="bg-surface border-default">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm sm:text-base font-medium text-primary">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={height}>
+          <LineChart data={data} margin={{ top: 5, right: 30, left: 5, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="var(--theme-chart-grid)" vertical={false} />
+            <XAxis
+              dataKey="date"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 12, fill: 'var(--theme-primary-text)' }}
+              tickFormatter={(value: string) => formatTimeAxis(value, 'short')}
+              minTickGap={24}
+            />
+            <YAxis
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 12, fill: 'var(--theme-primary-text)' }}
+              tickFormatter={formatYAxisTick}
+              domain={['auto', 'auto']}
+            />
+            <Tooltip
+              formatter={formatTooltipValue}
+              labelFormatter={(value) => formatTimeAxis(String(value), 'long')}
+              contentStyle={{
+                backgroundColor: 'var(--theme-chart-tooltip-bg)',
+                border: '1px solid var(--theme-chart-grid)',
+                borderRadius: '8px',
+                fontSize: '12px',
+                color: 'var(--theme-chart-tooltip-text)'
+              }}
+            />
+            <Legend formatter={(value: string) => SERIES_LABELS[value] ?? value} wrapperStyle={{ fontSize: '12px' }} />
+            <Line type="monotone" dataKey="equity" stroke="var(--theme-green)" strokeWidth={2} dot={false} />
+            <Line type="monotone" dataKey="tradingPnl" stroke="var(--theme-tertiary)" strokeWidth={1.5} dot={false} />
+            <Line type="monotone" dataKey="cashFlows" stroke="var(--theme-secondary-text)" strokeWidth={1.5} strokeDasharray="4 3" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+});
+
+export default AccountEquityChart;
@@ -15,8 +15,10 @@ import {
   Download,
   RefreshCw,
   Info,
-  Building2
+  Building2,
+  FileSpreadsheet
 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import BrokerSelector from '@/components/broker/BrokerSelector';
 import MappingReview from '@/components/csv/MappingReview';
 import { useImportTracking } from '@/hooks/useImportTracking';
@@ -31,6 +33,16 @@ interface DetectedFormatInfo {
   brokerName?: string;
 }
 
+// Sheet and header row an Excel upload was read from
+interface WorkbookSelection {
+  sheetName: string;
+  headerRow: number;
+}
+
+interface WorkbookInfo extends WorkbookSelection {
+  sheets: Array<{ name: string; rowCount: number | null }>;
+}
+
 interface ValidationResult {
   isValid: boolean;
   isStandardFormat: boolean;
@@ -40,15 +52,35 @@ interface ValidationResult {
   errors: string[];
   fileSize: number;
   detectedFormatInfo?: DetectedFormatInfo | null;
+  workbook?: WorkbookInfo;
+}
+
+// What an import would change, reported before anything is kept
+interface ImportPreview {
+  token: string;
+  newOrders: number;
+  duplicates: number;
+  cashActivities: number;
+  errors: number;
+  tradesCreated: number;
+  tradesChanged: number;
+  tradesRemoved: number;
+  pnlDelta: number;
+  orders: Array<{ symbol: string; side: string; quantity: number; price: number | null; executedAt: string | null }>;
 }
 
+// Upload response as returned by the upload route
+type UploadResult = Record<string, unknown> & {
+  positionWarnings?: string[]; // Statement open positions that differ from the journal's open trades
+};
+
 interface UploadState {
   file: File | null;
   isDragOver: boolean;
   isUploading: boolean;
   uploadProgress: number;
   validationResult: ValidationResult | null;
-  uploadResult: Record<string, unknown> | null;
+  uploadResult: UploadResult | null;
   error: string | null;
 }
 
@@ -91,6 +123,7 @@ export default function EnhancedFileUpload({
   });
 
   const [customAccountTags, setCustomAccountTags] = useState('');
+  const [headerRowInput, setHeaderRowInput] = useState('');
   
   // New state for broker selection and mapping review
   const [showBrokerSelector, setShowBrokerSelector] = useState(false);
@@ -98,6 +131,7 @@ export default function EnhancedFileUpload({
   const [pendingImportBatchId, setPendingImportBatchId] = useState<string | null>(null);
   const [aiMappingResult, setAiMappingResult] = useState<any>(null);
   const [aiIngestCheckId, setAiIngestCheckId] = useState<string | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
 
   // New function to clear only the file, keeping status messages
   const clearFileOnly = useCallback(() => {
@@ -112,11 +146,13 @@ export default function EnhancedFileUpload({
       // Keep uploadResult to show success message
     }));
     setCustomAccountTags('');
+    setHeaderRowInput('');
     setShowBrokerSelector(false);
     setShowMappingReview(false);
     setPendingImportBatchId(null);
     setAiMappingResult(null);
     setAiIngestCheckId(null);
+    setImportPreview(null);
   }, []);
 
   const resetState = useCallback(() => {
@@ -130,17 +166,19 @@ export default function EnhancedFileUpload({
       error: null,
     });
     setCustomAccountTags('');
+    setHeaderRowInput('');
     setShowBrokerSelector(false);
     setShowMappingReview(false);
     setPendingImportBatchId(null);
     setAiMappingResult(null);
     setAiIngestCheckId(null);
+    setImportPreview(null);
   }, []);
 
   const validateFile = useCallback((file: File): string | null => {
     // File type validation
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      return 'Please select a CSV file. Only CSV files are supported.';
+    if (!/\.(csv|xlsx|xml|ofx|qfx|log|txt|fix)$/i.test(file.name)) {
+      return 'Please select a CSV or Excel (.xlsx) file, an IBKR Flex Query XML export, an OFX / QFX statement or a FIX log.';
     }
 
     // File size validation (100MB limit)
@@ -195,9 +233,10 @@ export default function EnhancedFileUpload({
     await validateCsvFile(file);
   }, [validateFile, track]);
 
-  const validateCsvFile = async (file: File) => {
+  const validateCsvFile = async (file: File, selection?: Partial<WorkbookSelection>) => {
     try {
       setState(prev => ({ ...prev, isUploading: true, uploadProgress: 25 }));
+      setImportPreview(null);
 
       // Track validation start (non-blocking)
       track({
@@ -211,6 +250,8 @@ export default function EnhancedFileUpload({
 
       const formData = new FormData();
       formData.append('file', file);
+      if (selection?.sheetName) formData.append('sheetName', selection.sheetName);
+      if (selection?.headerRow) formData.append('headerRow', String(selection.headerRow));
 
       const response = await fetch('/api/csv/upload', {
         method: 'PUT',
@@ -229,6 +270,7 @@ export default function EnhancedFileUpload({
         isUploading: false,
         uploadProgress: 0
       }));
+      setHeaderRowInput(result.workbook ? String(result.workbook.headerRow) : '');
 
       // Track validation success (non-blocking)
       track({
@@ -266,7 +308,8 @@ export default function EnhancedFileUpload({
     }
   };
 
-  const handleUpload = async () => {
+  // Without a token the import is previewed first; confirming the preview sends its token
+  const handleUpload = async (previewToken?: string) => {
     if (!state.file || !user) return;
 
     try {
@@ -285,19 +328,41 @@ export default function EnhancedFileUpload({
         },
       });
 
-      const formData = new FormData();
-      formData.append('file', state.file);
-
+      const file = state.file;
       const allTags = [...accountTags];
       if (customAccountTags.trim()) {
         allTags.push(...customAccountTags.split(',').map(tag => tag.trim()).filter(Boolean));
       }
 
-      if (allTags.length > 0) {
-        formData.append('accountTags', allTags.join(','));
-      }
+      const postUpload = async (fields: Record<string, string>) => {
+        const formData = new FormData();
+        formData.append('file', file);
 
-      // No broker format needed - using automatic detection
+        if (allTags.length > 0) {
+          formData.append('accountTags', allTags.join(','));
+        }
+
+        // Excel uploads are read from the sheet and header row that were validated
+        const workbook = state.validationResult?.workbook;
+        if (workbook) {
+          formData.append('sheetName', workbook.sheetName);
+          formData.append('headerRow', String(workbook.headerRow));
+        }
+
+        Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
+
+        // No broker format needed - using automatic detection
+        const response = await fetch('/api/csv/upload', {
+          method: 'POST',
+          body: formData,
+        });
+        const body = await response.json();
+
+        if (!response.ok) {
+          throw new Error(body.error || 'Upload failed');
+        }
+        return body;
+      };
 
       // Simulate progress
       const progressInterval = setInterval(() => {
@@ -307,19 +372,24 @@ export default function EnhancedFileUpload({
         }));
       }, 200);
 
-      const response = await fetch('/api/csv/upload', {
-        method: 'POST',
-        body: formData,
-      });
+      let result;
+      try {
+        result = await postUpload(previewToken ? { previewToken } : { mode: 'preview' });
 
-      clearInterval(progressInterval);
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Upload failed');
+        if (!previewToken) {
+          // Files that need AI mapping or format approval come back without a preview and are imported directly
+          if (result.preview) {
+            setImportPreview(result.preview);
+            setState(prev => ({ ...prev, isUploading: false, uploadProgress: 0 }));
+            return;
+          }
+          result = await postUpload({});
+        }
+      } finally {
+        clearInterval(progressInterval);
       }
 
+      setImportPreview(null);
       setState(prev => ({
         ...prev,
         uploadResult: result,
@@ -746,6 +816,63 @@ export default function EnhancedFileUpload({
               </div>
             )}
 
+            {/* Workbook sheet and header row */}
+            {state.validationResult?.workbook && state.file && (
+              <div className="p-4 border border-theme-border rounded-lg space-y-3">
+                <div className="flex items-center space-x-2">
+                  <FileSpreadsheet className="h-5 w-5 text-theme-tertiary" />
+                  <h4 className="font-medium text-theme-primary-text">Workbook</h4>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-theme-primary-text mb-1">Sheet</label>
+                    <Select
+                      value={state.validationResult.workbook.sheetName}
+                      onValueChange={(sheetName) => validateCsvFile(state.file!, { sheetName })}
+                      disabled={state.isUploading}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {state.validationResult.workbook.sheets.map(sheet => (
+                          <SelectItem key={sheet.name} value={sheet.name}>
+                            {sheet.name}{sheet.rowCount !== null && ` (${sheet.rowCount} rows)`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-theme-primary-text mb-1">Header row</label>
+                    <div className="flex space-x-2">
+                      <input
+                        type="number"
+                        min={1}
+                        value={headerRowInput}
+                        onChange={(e) => setHeaderRowInput(e.target.value)}
+                        disabled={state.isUploading}
+                        className="w-full px-3 py-2 border border-theme-border rounded-lg focus:ring-2 focus:ring-theme-tertiary focus:border-transparent disabled:opacity-50 bg-white text-theme-primary-text"
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => validateCsvFile(state.file!, {
+                          sheetName: state.validationResult?.workbook?.sheetName,
+                          headerRow: parseInt(headerRowInput, 10) || undefined,
+                        })}
+                        disabled={state.isUploading || !headerRowInput || parseInt(headerRowInput, 10) === state.validationResult.workbook.headerRow}
+                      >
+                        Apply
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+                <p className="text-xs text-theme-secondary-text">
+                  Pick the sheet with your trades and the row holding its column headers; rows above it are ignored.
+                </p>
+              </div>
+            )}
+
             {/* Account Tags Input */}
             <div>
               <label className="block text-sm font-medium text-theme-primary-text mb-2">
@@ -825,12 +952,12 @@ export default function EnhancedFileUpload({
                   <div>
                     <Upload className="h-12 w-12 text-theme-secondary-text mx-auto mb-4" />
                     <p className="text-sm text-theme-primary-text mb-2">
-                      Drag and drop your CSV file here, or click to browse
+                      Drag and drop your CSV, Excel, IBKR Flex Query XML, OFX / QFX or FIX log file here, or click to browse
                     </p>
                     <input
                       ref={fileInputRef}
                       type="file"
-                      accept=".csv"
+                      accept=".csv,.xlsx,.xml,.ofx,.qfx,.log,.txt,.fix"
                       onChange={handleFileInput}
                       className="hidden"
                       id="file-input"
@@ -848,8 +975,8 @@ export default function EnhancedFileUpload({
 
             {/* Upload Button */}
             <Button 
-              onClick={handleUpload}
-              disabled={!state.file || state.isUploading || !state.validationResult?.isValid}
+              onClick={() => handleUpload()}
+              disabled={!state.file || state.isUploading || !state.validationResult?.isValid || Boolean(importPreview)}
               className="w-full bg-theme-green hover:bg-theme-green/90 text-white"
             >
               {state.isUploading ? (
@@ -860,7 +987,7 @@ export default function EnhancedFileUpload({
               ) : (
                 <>
                   <Upload className="h-4 w-4 mr-2" />
-                  Import Trades
+                  Preview Import
                 </>
               )}
             </Button>
@@ -889,6 +1016,76 @@ export default function EnhancedFileUpload({
               </div>
             )}
 
+            {/* Import Preview */}
+            {importPreview && (
+              <div className="p-4 bg-theme-tertiary/10 border border-theme-tertiary/30 rounded-lg space-y-3">
+                <div className="flex items-start space-x-2">
+                  <Info className="h-5 w-5 text-theme-tertiary flex-shrink-0 mt-0.5" />
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-theme-primary-text">Import Preview</p>
+                    <p className="text-xs text-theme-secondary-text mt-1">
+                      Nothing has been imported yet. Confirming imports exactly these changes.
+                    </p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-theme-primary-text">
+                  <span>New orders</span>
+                  <span className="text-right font-medium">{importPreview.newOrders}</span>
+                  <span>Duplicates skipped</span>
+                  <span className="text-right font-medium">{importPreview.duplicates}</span>
+                  {importPreview.cashActivities > 0 && (
+                    <>
+                      <span>Cash activities</span>
+                      <span className="text-right font-medium">{importPreview.cashActivities}</span>
+                    </>
+                  )}
+                  <span>Trades created / changed / removed</span>
+                  <span className="text-right font-medium">
+                    {importPreview.tradesCreated} / {importPreview.tradesChanged} / {importPreview.tradesRemoved}
+                  </span>
+                  <span>Net P&L change</span>
+                  <span className={`text-right font-medium ${importPreview.pnlDelta >= 0 ? 'text-theme-green' : 'text-theme-red'}`}>
+                    {importPreview.pnlDelta.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}
+                  </span>
+                  {importPreview.errors > 0 && (
+                    <>
+                      <span className="text-theme-red">Rows with errors</span>
+                      <span className="text-right font-medium text-theme-red">{importPreview.errors}</span>
+                    </>
+                  )}
+                </div>
+                {importPreview.orders.length > 0 && (
+                  <ul className="text-xs text-theme-secondary-text space-y-1 max-h-32 overflow-y-auto">
+                    {importPreview.orders.map((order, index) => (
+                      <li key={index}>
+                        • {order.executedAt ? new Date(order.executedAt).toLocaleString() : 'No time'} {order.side} {order.quantity} {order.symbol}
+                        {order.price !== null && ` @ ${order.price}`}
+                      </li>
+                    ))}
+                    {importPreview.newOrders > importPreview.orders.length && (
+                      <li className="font-medium">... and {importPreview.newOrders - importPreview.orders.length} more orders</li>
+                    )}
+                  </ul>
+                )}
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => handleUpload(importPreview.token)}
+                    disabled={state.isUploading}
+                    className="flex-1 bg-theme-green hover:bg-theme-green/90 text-white"
+                  >
+                    Confirm Import
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setImportPreview(null)}
+                    disabled={state.isUploading}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Validation Errors */}
             {state.validationResult?.errors && state.validationResult.errors.length > 0 && (
               <div className="p-4 bg-theme-red/10 border border-theme-red/30 rounded-lg max-h-48 overflow-y-auto">
@@ -1075,6 +1272,25 @@ export default function EnhancedFileUpload({
                     </div>
                   )}
 
+                  {result.positionWarnings && result.positionWarnings.length > 0 && (
+                    <div className="p-4 bg-theme-warning/10 border border-theme-warning/30 rounded-lg max-h-48 overflow-y-auto">
+                      <div className="flex items-start space-x-2 mb-2">
+                        <AlertTriangle className="h-5 w-5 text-theme-warning flex-shrink-0 mt-0.5" />
+                        <div className="flex-1">
+                          <p className="text-sm font-medium text-theme-warning mb-2">Open Positions Differ From Statement:</p>
+                          <ul className="text-xs text-theme-warning space-y-1">
+                            {result.positionWarnings.slice(0, 10).map((warning, index) => (
+                              <li key={index}>• {warning}</li>
+                            ))}
+                            {result.positionWarnings.length > 10 && (
+                              <li className="font-medium">... and {result.positionWarnings.length - 10} more positions</li>
+                            )}
+                          </ul>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
                   {Boolean(result.success && (result as any).message) && (
                     <div className="p-4 bg-theme-green/10 border border-theme-green/30 rounded-lg">
                       <div className="flex items-start space-x-2">
@@ -8,6 +8,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import {
   AlertTriangle,
   CheckCircle,
@@ -44,6 +46,10 @@ const ORDER_FIELDS = {
   accountId: 'Broker account identifier/number',
   orderAccount: 'Account name or description',
   orderRoute: 'Order routing destination (ARCA, NASDAQ, etc.)',
+  optionType: 'Option right (CALL/PUT) for option contracts',
+  strikePrice: 'Option strike price',
+  expirationDate: 'Option expiration date',
+  contractMultiplier: 'Contract multiplier (100 for standard equity options)',
   tags: 'User-defined tags or categories',
   tradeId: 'Associated trade group identifier'
 } as const;
@@ -102,6 +108,10 @@ export default function MappingReview({
   const [isProcessing, setIsProcessing] = useState(false);
   const [isAutoSubmitting, setIsAutoSubmitting] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [saveTemplate, setSaveTemplate] = useState(false);
+  const [templateName, setTemplateName] = useState(brokerName || fileName?.replace(/\.[^.]+$/, '') || '');
+  const [templateDateFormat, setTemplateDateFormat] = useState('');
+  const [templateTimezone, setTemplateTimezone] = useState('');
 
   // Utility function to wrap fetch with timeout
   const fetchWithTimeout = useCallback(async (url: string, options: RequestInit, timeoutMs = 30000) => {
@@ -309,6 +319,34 @@ export default function MappingReview({
     }
   };
 
+  // Save the final mappings as the user's own template, so the next upload of this layout imports directly
+  const saveAsTemplate = async (corrections: CorrectedMapping) => {
+    const fieldMappings = Object.fromEntries(csvHeaders.map(csvHeader => [csvHeader, {
+      fields: [corrections[csvHeader] || getAiSuggestedField(csvHeader)],
+      confidence: 1, // Chosen by the user, so low AI confidence no longer applies
+    }]));
+
+    const response = await fetchWithTimeout('/api/import-templates', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        name: templateName.trim() || 'My import template',
+        headers: sampleData.length > 0 ? Object.keys(sampleData[0]) : csvHeaders,
+        fieldMappings,
+        dateFormat: templateDateFormat.trim() || null,
+        timezone: templateTimezone.trim() || null,
+        brokerName: brokerName || null,
+      }),
+    });
+
+    if (!response.ok) {
+      const result = await response.json();
+      throw new Error(`Could not save the template: ${result.error || 'unknown error'}`);
+    }
+  };
+
   const handleUseAsIs = async () => {
     if (!importBatchId) {
       console.error('❌ Missing importBatchId, cannot finalize mappings');
@@ -320,6 +358,10 @@ export default function MappingReview({
     setErrorMessage(null);
 
     try {
+      if (saveTemplate) {
+        await saveAsTemplate({});
+      }
+
       const response = await fetchWithTimeout('/api/csv/finalize-mappings', {
         method: 'POST',
         headers: {
@@ -372,6 +414,10 @@ export default function MappingReview({
     setErrorMessage(null);
 
     try {
+      if (saveTemplate) {
+        await saveAsTemplate(actualCorrections);
+      }
+
       const response = await fetchWithTimeout('/api/csv/finalize-mappings', {
         method: 'POST',
         headers: {
@@ -837,6 +883,50 @@ export default function MappingReview({
           </div>
         )}
 
+        {/* Save as the user's own template */}
+        <div className="flex-shrink-0 space-y-3 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="save-import-template"
+              checked={saveTemplate}
+              onCheckedChange={(checked) => setSaveTemplate(checked === true)}
+              disabled={isProcessing || isAutoSubmitting}
+            />
+            <Label htmlFor="save-import-template" className="text-sm">
+              Save these mappings as my template for this file layout
+            </Label>
+          </div>
+          {saveTemplate && (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="template-name" className="text-xs">Template name</Label>
+                <Input id="template-name" value={templateName} onChange={(e) => setTemplateName(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="template-date-format" className="text-xs">Date format (optional)</Label>
+                <Input
+                  id="template-date-format"
+                  placeholder="e.g. DD/MM/YYYY HH:mm:ss"
+                  value={templateDateFormat}
+                  onChange={(e) => setTemplateDateFormat(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="template-timezone" className="text-xs">Timezone (optional)</Label>
+                <Input
+                  id="template-timezone"
+                  placeholder="e.g. America/New_York"
+                  value={templateTimezone}
+                  onChange={(e) => setTemplateTimezone(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Your next upload with the same columns is imported with this template, without review.
+          </p>
+        </div>
+
         {/* Action Buttons - No Cancel Option */}
         <div className="flex justify-between pt-4 flex-shrink-0 border-t bg-white dark:bg-gray-900">
           <div className="flex gap-2">
@@ -0,0 +1,179 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FinancingSummary } from '@/lib/financingCosts';
+
+// Trades listed in the attribution table, costliest first
+const MAX_TRADES = 25;
+
+interface FinancingCostsReportProps {
+  dateFrom?: string;
+  dateTo?: string;
+  accountId?: string;
+}
+
+function formatCurrency(value: number) {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+export default function FinancingCostsReport({ dateFrom, dateTo, accountId }: FinancingCostsReportProps) {
+  const [summary, setSummary] = useState<FinancingSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSummary = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams();
+        if (dateFrom) params.append('from', dateFrom);
+        if (dateTo) params.append('to', dateTo);
+        if (accountId) params.append('accountId', accountId);
+
+        const response = await fetch(`/api/reports/financing-costs?${params}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load financing costs');
+        }
+        setSummary(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load financing costs');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSummary();
+  }, [dateFrom, dateTo, accountId]);
+
+  if (loading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {Array.from({ length: 4 }).map((_, index) => (
+          <Skeleton key={index} className="h-24 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error || !summary) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-red-500">Error: {error}</div>
+      </div>
+    );
+  }
+
+  const totals = [
+    { label: 'Borrow fees', value: summary.borrowFees },
+    { label: 'Margin interest', value: summary.marginInterest },
+    { label: 'Attributed to trades', value: summary.attributed },
+    { label: 'Unattributed', value: summary.unattributed },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {totals.map(total => (
+          <Card key={total.label} className="bg-surface border-default">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-primary">{total.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${total.value > 0 ? 'text-negative' : 'text-primary'}`}>
+                {formatCurrency(total.value)}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {summary.trades.length === 0 ? (
+        <p className="text-sm text-muted text-center">
+          No borrow fees or margin interest were attributed to trades in this period. Charges appear here once
+          they are imported from a broker sync or a CSV that includes cash activity.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="bg-surface border-default">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base font-medium text-primary">By symbol</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead className="text-right">Borrow</TableHead>
+                    <TableHead className="text-right">Margin</TableHead>
+                    <TableHead className="text-right">Trades</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.bySymbol.map(row => (
+                    <TableRow key={row.symbol}>
+                      <TableCell className="font-medium">{row.symbol}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.borrowFees)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.marginInterest)}</TableCell>
+                      <TableCell className="text-right">{row.trades}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-surface border-default lg:col-span-2">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base font-medium text-primary">Trades carrying financing costs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Side</TableHead>
+                    <TableHead>Held</TableHead>
+                    <TableHead className="text-right">Gross P&L</TableHead>
+                    <TableHead className="text-right">Financing</TableHead>
+                    <TableHead className="text-right">Net P&L</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.trades.slice(0, MAX_TRADES).map(trade => (
+                    <TableRow key={trade.id}>
+                      <TableCell className="font-medium">{trade.symbol}</TableCell>
+                      <TableCell className={trade.side === 'SHORT' ? 'text-negative' : 'text-positive'}>
+                        {trade.side === 'SHORT' ? 'Short' : 'Long'}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(trade.entryDate), 'MMM d')} – {trade.exitDate ? format(new Date(trade.exitDate), 'MMM d, yyyy') : 'open'}
+                      </TableCell>
+                      <TableCell className={`text-right ${trade.pnl >= 0 ? 'text-positive' : 'text-negative'}`}>
+                        {formatCurrency(trade.pnl)}
+                      </TableCell>
+                      <TableCell className="text-right text-negative">{formatCurrency(trade.financingCost)}</TableCell>
+                      <TableCell className={`text-right ${trade.netPnl >= 0 ? 'text-positive' : 'text-negative'}`}>
+                        {formatCurrency(trade.netPnl)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {summary.trades.length > MAX_TRADES && (
+                <p className="text-xs text-muted mt-2">
+                  Showing the {MAX_TRADES} costliest of {summary.trades.length} trades
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { createContext, useContext, useReducer, useEffect, useCallback, ReactNode } from 'react';
-import { FilterOptions } from '@/types';
+import { FilterOptions, PnlViewMode } from '@/types';
 
 export interface TimeRange {
   value: '30' | '60' | '90';
@@ -26,6 +26,7 @@ export type TimeFramePreset =
 
 export interface GlobalFilterState {
   symbol?: string;
+  accountId?: string; // Managed Account.id; all accounts when unset
   side?: 'all' | 'long' | 'short';
   tags?: string[];
   duration?: 'all' | 'intraday' | 'swing';
@@ -37,6 +38,7 @@ export interface GlobalFilterState {
   executionCountRange?: { min: number; max: number };
   timeOfDayRange?: { start: string; end: string };
   customDateRange?: { from?: string; to?: string };
+  viewMode?: PnlViewMode; // Gross or net P&L, kept when filters are cleared
 }
 
 export interface GlobalFilterContextType {
@@ -236,7 +238,7 @@ function filterReducer(state: GlobalFilterState, action: FilterAction): GlobalFi
       break;
       
     case 'CLEAR_FILTERS':
-      newState = DEFAULT_STATE;
+      newState = { ...DEFAULT_STATE, viewMode: state.viewMode };
       break;
       
     case 'CLEAR_ADVANCED_FILTERS':
@@ -318,6 +320,7 @@ export function GlobalFilterProvider({ children }: GlobalFilterProviderProps) {
 
     return {
       symbol: state.symbol,
+      accountId: state.accountId,
       side: state.side,
       tags: state.tags,
       duration: state.duration,
@@ -327,7 +330,8 @@ export function GlobalFilterProvider({ children }: GlobalFilterProviderProps) {
       priceRange: state.priceRange,
       volumeRange: state.volumeRange,
       executionCountRange: state.executionCountRange,
-      timeRange: state.timeOfDayRange
+      timeRange: state.timeOfDayRange,
+      viewMode: state.viewMode
     };
   }, [state]);
 
@@ -335,6 +339,7 @@ export function GlobalFilterProvider({ children }: GlobalFilterProviderProps) {
 
   const hasActiveFilters = !!(
     state.symbol ||
+    state.accountId ||
     (state.side && state.side !== 'all') ||
     (state.tags && state.tags.length > 0) ||
     (state.duration && state.duration !== 'all') ||
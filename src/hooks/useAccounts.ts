@@ -0,0 +1,56 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { BrokerageAccount } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+
+export function getAccountLabel(account: BrokerageAccount): string {
+  return account.nickname || account.externalId;
+}
+
+export function useAccounts() {
+  const [accounts, setAccounts] = useState<BrokerageAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { isDemo, isLoading: authLoading } = useAuth();
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/accounts');
+      if (!response.ok) {
+        throw new Error('Failed to fetch accounts');
+      }
+
+      const result = await response.json();
+      setAccounts(result.accounts || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    // Don't fetch data until auth state is resolved; demo users have no managed accounts
+    if (authLoading) {
+      return;
+    }
+    if (isDemo) {
+      setAccounts([]);
+      setLoading(false);
+      return;
+    }
+
+    fetchAccounts();
+  }, [isDemo, authLoading, fetchAccounts]);
+
+  return {
+    accounts,
+    loading,
+    error,
+    refetch: fetchAccounts
+  };
+}
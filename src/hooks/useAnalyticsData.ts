@@ -238,7 +238,9 @@ export const useAnalyticsData = (standardTimeframe: StandardTimeframe, filters:
       dateFrom: filters.dateFrom,
       dateTo: filters.dateTo,
       customTimeRange: filters.customTimeRange,
-      predefinedTimeframe: filters.predefinedTimeframe
+      predefinedTimeframe: filters.predefinedTimeframe,
+      viewMode: filters.viewMode,
+      accountId: filters.accountId
     }),
     [
       standardTimeframe,
@@ -248,7 +250,9 @@ export const useAnalyticsData = (standardTimeframe: StandardTimeframe, filters:
       filters.dateFrom,
       filters.dateTo,
       filters.customTimeRange,
-      filters.predefinedTimeframe
+      filters.predefinedTimeframe,
+      filters.viewMode,
+      filters.accountId
     ]
   );
 
@@ -289,8 +293,10 @@ export const useAnalyticsData = (standardTimeframe: StandardTimeframe, filters:
           symbol: filters.symbol,
           tags: filters.tags,
           side: filters.side?.toUpperCase() as 'LONG' | 'SHORT' | undefined,
+          accountId: filters.accountId,
           timeZone: 'America/New_York',
         },
+        viewMode: filters.viewMode,
         aggregations: ['distribution', 'performance', 'statistics', 'time_analysis', 'volume_analysis', 'time_intervals'],
         realTimeUpdates: true,
       };
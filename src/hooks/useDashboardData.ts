@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { DayData, KPIData, ChartDataPoint } from '@/types';
+import { AccountEquityPoint } from '@/lib/cashLedger';
 import { useGlobalFilters } from '@/contexts/GlobalFilterContext';
 import { useAuth } from '@/contexts/AuthContext';
 
@@ -9,6 +10,7 @@ interface DashboardData {
   dayData: DayData[];
   kpiData: KPIData;
   cumulativePnl: ChartDataPoint[];
+  accountEquity: AccountEquityPoint[]; // Empty when the account has no cash activity or starting balance
   summary: {
     totalTrades: number;
     totalPnl: number;
@@ -66,6 +68,7 @@ export function useDashboardData() {
       if (options.dateFrom) params.append('dateFrom', options.dateFrom);
       if (options.dateTo) params.append('dateTo', options.dateTo);
       if (options.symbol) params.append('symbol', options.symbol);
+      if (options.accountId) params.append('accountId', options.accountId);
       if (options.side) params.append('side', options.side);
       if (options.tags && options.tags.length > 0) {
         params.append('tags', options.tags.join(','));
@@ -74,6 +77,7 @@ export function useDashboardData() {
       if (options.showOpenTrades !== undefined) {
         params.append('showOpenTrades', options.showOpenTrades.toString());
       }
+      if (options.viewMode === 'net') params.append('viewMode', options.viewMode);
       
       const response = await fetch(`/api/dashboard?${params.toString()}`, {
         signal: controller.signal
@@ -89,9 +89,11 @@ export function useDetailedReportsData() {
         if (filters.dateFrom) params.append('from', filters.dateFrom);
         if (filters.dateTo) params.append('to', filters.dateTo);
         if (filters.symbol) params.append('symbol', filters.symbol);
+        if (filters.accountId) params.append('accountId', filters.accountId);
         if (filters.side && filters.side !== 'all') params.append('side', filters.side);
         if (filters.tags?.length) params.append('tags', filters.tags.join(','));
         if (filters.duration && filters.duration !== 'all') params.append('duration', filters.duration);
+        if (filters.viewMode === 'net') params.append('viewMode', filters.viewMode);
 
         // Fetch detailed reports data from real API
         const response = await fetch(`/api/reports/detailed?${params}`);
@@ -42,7 +42,9 @@ export function useWinLossReport(
     if (filters.from) params.append('from', filters.from);
     if (filters.to) params.append('to', filters.to);
     if (filters.symbol && filters.symbol !== 'all') params.append('symbol', filters.symbol);
+    if (filters.accountId) params.append('accountId', filters.accountId);
     if (filters.side && filters.side !== 'all') params.append('side', filters.side);
+    if (filters.viewMode === 'net') params.append('viewMode', filters.viewMode);
     return params.toString();
   }, [filters]);
 
@@ -134,7 +136,9 @@ export function useDashboardMetrics(
     if (filters.from) params.append('from', filters.from);
     if (filters.to) params.append('to', filters.to);
     if (filters.symbol && filters.symbol !== 'all') params.append('symbol', filters.symbol);
+    if (filters.accountId) params.append('accountId', filters.accountId);
     if (filters.side && filters.side !== 'all') params.append('side', filters.side);
+    if (filters.viewMode === 'net') params.append('viewMode', filters.viewMode);
     params.append('metrics', metrics.join(','));
     return params.toString();
   }, [filters, metrics]);
@@ -229,7 +233,9 @@ export function useLiveCumulativePnL(
       if (filters.from) params.append('from', filters.from);
       if (filters.to) params.append('to', filters.to);
       if (filters.symbol && filters.symbol !== 'all') params.append('symbol', filters.symbol);
+      if (filters.accountId) params.append('accountId', filters.accountId);
       if (filters.side && filters.side !== 'all') params.append('side', filters.side);
+      if (filters.viewMode === 'net') params.append('viewMode', filters.viewMode);
 
       const response = await fetch(`/api/reports/win-loss?${params.toString()}`);
       
@@ -96,6 +96,7 @@ export function useTradesData(
             side: filters.side,
             duration: filters.duration,
             showOpenTrades: filters.showOpenTrades,
+            accountId: filters.accountId,
             priceRange: filters.priceRange,
             volumeRange: filters.volumeRange,
             executionCountRange: filters.executionCountRange,
@@ -139,6 +140,7 @@ export function useTradesData(
           // Use the original simple filtering endpoint
           const params = new URLSearchParams();
           if (filters.symbol) params.append('symbol', filters.symbol);
+          if (filters.accountId) params.append('accountId', filters.accountId);
           if (filters.side) params.append('side', filters.side);
           if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
           if (filters.dateTo) params.append('dateTo', filters.dateTo);
@@ -198,6 +200,7 @@ export function useTradesData(
           const filters = toFilterOptions();
           const params = new URLSearchParams();
           if (filters.symbol) params.append('symbol', filters.symbol);
+          if (filters.accountId) params.append('accountId', filters.accountId);
           if (filters.side) params.append('side', filters.side);
           if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
           if (filters.dateTo) params.append('dateTo', filters.dateTo);
@@ -268,6 +271,7 @@ export function useTradesData(
     const filters = toFilterOptions();
     const params = new URLSearchParams();
     if (filters.symbol) params.append('symbol', filters.symbol);
+    if (filters.accountId) params.append('accountId', filters.accountId);
     if (filters.side) params.append('side', filters.side);
     if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
     if (filters.dateTo) params.append('dateTo', filters.dateTo);
@@ -14,6 +14,7 @@ export interface ColumnMapping {
   confidence: number;
   reasoning: string;
   priority?: number; // Higher numbers = higher priority (0-10)
+  combinedWith?: string[]; // Further columns joined to the source column, e.g. a separate time column
 }
 
 // AI mapping result
@@ -0,0 +1,399 @@
+/**
+ * Offline CSV header matcher
+ *
+ * Maps CSV headers to TRADE_VOYAGER_FIELDS deterministically, without calling a language model.
+ * Each header is scored against each field by three signals:
+ * - its name, against a synonym dictionary per field
+ * - its sample values, sniffed for dates, sides, prices, tickers and order vocabularies
+ * - similarity to the headers of known (approved) broker formats and the fields they map to
+ * The best pairs are then assigned one header per field, highest confidence first.
+ */
+
+import { TRADE_VOYAGER_FIELDS } from '@/lib/csvFormatRegistry';
+import { CONFIDENCE_THRESHOLDS, type AiMappingResult, type ColumnMapping } from './csvMapper';
+
+export type TradeVoyagerField = keyof typeof TRADE_VOYAGER_FIELDS;
+
+// Headers and field mappings of an approved BrokerCsvFormat
+export interface KnownHeaderFormat {
+  headers: string[];
+  fieldMappings: Record<string, unknown>;
+}
+
+type ValueKind = 'ticker' | 'side' | 'number' | 'date' | 'orderType' | 'status' | 'timeInForce' | 'optionRight';
+
+interface FieldProfile {
+  synonyms: string[];
+  kind?: ValueKind; // What the field's sample values look like
+  excluded?: string[]; // Header words that rule the field out, e.g. "settle" for execution times
+  priority: number; // Breaks ties between fields; critical fields first
+}
+
+const TIME_EXCLUSIONS = ['settle', 'settlement', 'expiration', 'expiry', 'exp', 'maturity', 'report', 'cancel', 'cancelled', 'canceled'];
+const PRICE_EXCLUSIONS = ['stop', 'strike', 'close', 'closing', 'mark', 'last', 'bid', 'ask', 'cost', 'basis', 'trigger'];
+
+// Fields the order import reads, with the names brokers give them
+const FIELD_PROFILES: Partial<Record<TradeVoyagerField, FieldProfile>> = {
+  symbol: {
+    synonyms: ['symbol', 'ticker', 'ticker symbol', 'sym', 'instrument', 'stock', 'security', 'stock symbol', 'contract', 'underlying symbol'],
+    kind: 'ticker',
+    excluded: ['description', 'name', 'type'],
+    priority: 10,
+  },
+  side: {
+    synonyms: ['side', 'buy sell', 'b s', 'bs', 'action', 'direction', 'trade side', 'order side', 'transaction type', 'trans type', 'buy or sell'],
+    kind: 'side',
+    priority: 10,
+  },
+  orderQuantity: {
+    synonyms: ['quantity', 'qty', 'shares', 'size', 'filled qty', 'fill qty', 'exec qty', 'order qty', 'order quantity', 'quantity filled', 'qty filled', 'filled quantity', 'contracts', 'units', 'share count'],
+    kind: 'number',
+    excluded: ['remaining', 'leaves', 'open', 'position', 'price'],
+    priority: 10,
+  },
+  orderExecutedTime: {
+    synonyms: ['exec time', 'execution time', 'fill time', 'filled time', 'trade time', 'time executed', 'executed at', 'filled at', 'trade date', 'execution date', 'exec date', 'fill date', 'trade date time', 'execution date time', 'transaction time'],
+    kind: 'date',
+    excluded: TIME_EXCLUSIONS,
+    priority: 9,
+  },
+  orderPlacedTime: {
+    synonyms: ['order time', 'placed time', 'time placed', 'submitted time', 'submit time', 'order date', 'created', 'created at', 'date time', 'datetime', 'timestamp', 'date', 'time'],
+    kind: 'date',
+    excluded: TIME_EXCLUSIONS,
+    priority: 8,
+  },
+  limitPrice: {
+    synonyms: ['price', 'limit price', 'limit', 'lmt price', 'avg price', 'average price', 'fill price', 'exec price', 'execution price', 'trade price', 't price', 'px', 'avg fill price', 'filled price', 'price per share'],
+    kind: 'number',
+    excluded: PRICE_EXCLUSIONS,
+    priority: 7,
+  },
+  stopPrice: { synonyms: ['stop price', 'stop', 'trigger price', 'aux price', 'stop px'], kind: 'number', priority: 5 },
+  orderType: { synonyms: ['order type', 'type', 'ord type', 'price type'], kind: 'orderType', priority: 5 },
+  orderStatus: { synonyms: ['status', 'order status', 'state', 'fill status'], kind: 'status', priority: 5 },
+  timeInForce: { synonyms: ['tif', 'time in force', 'duration', 'validity'], kind: 'timeInForce', priority: 4 },
+  orderCancelledTime: { synonyms: ['cancel time', 'cancelled time', 'canceled time', 'time cancelled', 'time canceled'], kind: 'date', priority: 3 },
+  orderId: { synonyms: ['order id', 'order number', 'order no', 'order ref', 'order reference', 'orderid', 'id'], priority: 6 },
+  tradeId: { synonyms: ['trade id', 'execution id', 'exec id', 'fill id', 'trade number', 'transaction id', 'deal id', 'trade ref'], priority: 4 },
+  parentOrderId: { synonyms: ['parent order id', 'parent id', 'parent order', 'parent'], priority: 3 },
+  accountId: {
+    synonyms: ['account', 'account id', 'account number', 'acct', 'acct id', 'account no', 'acct no', 'acct number'],
+    excluded: ['name', 'type', 'value', 'balance', 'alias'],
+    priority: 4,
+  },
+  orderAccount: { synonyms: ['account name', 'account alias', 'acct name'], priority: 3 },
+  orderRoute: { synonyms: ['route', 'exchange', 'venue', 'destination', 'exch', 'dest', 'ecn', 'listing exchange'], priority: 3 },
+  commission: { synonyms: ['commission', 'comm', 'commissions', 'broker commission', 'ib commission', 'comm fee'], kind: 'number', priority: 4 },
+  fees: { synonyms: ['fees', 'fee', 'reg fees', 'regulatory fees', 'exchange fees', 'sec fee', 'taf', 'other fees', 'clearing fees', 'misc fees'], kind: 'number', priority: 3 },
+  expirationDate: { synonyms: ['expiration', 'expiry', 'exp', 'expiration date', 'exp date', 'expiry date', 'maturity', 'last trade date'], kind: 'date', priority: 3 },
+  strikePrice: { synonyms: ['strike', 'strike price'], kind: 'number', priority: 3 },
+  optionType: { synonyms: ['put call', 'call put', 'option type', 'right', 'p c', 'c p', 'option right'], kind: 'optionRight', priority: 3 },
+  contractMultiplier: { synonyms: ['multiplier', 'mult', 'contract multiplier', 'contract size'], kind: 'number', priority: 2 },
+  tags: { synonyms: ['tags', 'tag', 'label', 'labels'], priority: 1 },
+};
+
+// Fields an import cannot do without; one of the time fields is enough
+const REQUIRED_FIELDS: TradeVoyagerField[] = ['symbol', 'side', 'orderQuantity'];
+const TIME_FIELDS: TradeVoyagerField[] = ['orderExecutedTime', 'orderPlacedTime'];
+
+const SIDE_VALUES = new Set(['BUY', 'SELL', 'B', 'S', 'BOT', 'SLD', 'SHORT', 'COVER', 'SELL SHORT', 'BUY TO COVER', 'BUY TO OPEN', 'BUY TO CLOSE', 'SELL TO OPEN', 'SELL TO CLOSE', 'BTO', 'BTC', 'STO', 'STC', 'SS', 'BC', 'LONG']);
+const ORDER_TYPE_VALUES = new Set(['MARKET', 'MKT', 'LIMIT', 'LMT', 'STOP', 'STP', 'STOP LIMIT', 'STP LMT', 'STOP_LIMIT', 'MOC', 'LOC', 'MOO', 'LOO', 'TRAIL', 'TRAILING STOP', 'TRAIL LIMIT']);
+const STATUS_VALUES = new Set(['FILLED', 'FILL', 'CANCELLED', 'CANCELED', 'WORKING', 'PENDING', 'REJECTED', 'PARTIAL', 'PARTIALLY FILLED', 'OPEN', 'EXPIRED', 'EXECUTED', 'COMPLETE', 'COMPLETED']);
+const TIF_VALUES = new Set(['DAY', 'GTC', 'IOC', 'FOK', 'GTD', 'OPG', 'EXT', 'GTC_EXT', 'GTC EXT', 'DAY+', 'GTC+']);
+const OPTION_RIGHT_VALUES = new Set(['C', 'P', 'CALL', 'PUT', 'CALLS', 'PUTS']);
+const NON_TICKER_VALUES = new Set([...SIDE_VALUES, ...ORDER_TYPE_VALUES, ...STATUS_VALUES, ...TIF_VALUES, 'USD', 'STOCK', 'STOCKS', 'OPTION', 'OPTIONS', 'EQUITY']);
+
+const DATE_PATTERNS = [
+  /\d{4}[-/.]\d{1,2}[-/.]\d{1,2}/, // 2024-03-15
+  /\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}/, // 3/15/24
+  /^\d{8}(?:[;, T-]?\d{4,6})?$/, // 20240315;093012
+  /\d{1,2}[ -][A-Za-z]{3,9}[ ,-]+\d{2,4}/, // 15-Mar-2024
+  /[A-Za-z]{3,9} \d{1,2},? \d{4}/, // Mar 15, 2024
+];
+const TIME_ONLY_PATTERN = /^\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?\s*(?:[AP]M)?$/i;
+
+/**
+ * Lowercase words of a header, splitting camel case and punctuation: "OrderQty" and "order_qty" are "order qty"
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/#/g, ' no ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function bigrams(text: string): string[] {
+  const grams: string[] = [];
+  for (let index = 0; index < text.length - 1; index++) grams.push(text.slice(index, index + 2));
+  return grams;
+}
+
+// Dice coefficient of character bigrams, for misspelt and run-together headers
+function diceSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of bigrams(a)) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  let shared = 0;
+  for (const gram of bigrams(b)) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * shared) / (a.length + b.length - 2);
+}
+
+/**
+ * How alike two headers are, from 0 to 1
+ */
+export function headerSimilarity(a: string, b: string): number {
+  const left = normalizeHeader(a);
+  const right = normalizeHeader(b);
+  if (left === right) return 1;
+  return diceSimilarity(left.replace(/ /g, ''), right.replace(/ /g, ''));
+}
+
+// Score a normalized header against a field's synonyms
+function nameScore(header: string, profile: FieldProfile): { score: number; synonym?: string } {
+  const words = header.split(' ');
+  if (profile.excluded?.some(word => words.includes(word))) return { score: 0 };
+
+  const compact = header.replace(/ /g, '');
+  let best: { score: number; synonym?: string } = { score: 0 };
+  for (const synonym of profile.synonyms) {
+    let score = 0;
+    if (header === synonym) {
+      score = 0.95;
+    } else if (compact === synonym.replace(/ /g, '')) {
+      score = 0.9;
+    } else {
+      const synonymWords = synonym.split(' ');
+      if (synonym.length >= 3 && synonymWords.every(word => words.includes(word))) {
+        // Every word of the synonym appears in the header; each extra word makes it less certain
+        score = Math.max(0.6, 0.8 - 0.05 * (words.length - synonymWords.length));
+      } else {
+        const similarity = diceSimilarity(compact, synonym.replace(/ /g, ''));
+        if (similarity >= 0.75 && compact.length >= 4) score = 0.7 * similarity;
+      }
+    }
+    if (score > best.score) best = { score, synonym };
+  }
+  return best;
+}
+
+function parseSampleNumber(value: string): number | null {
+  const cleaned = value.replace(/[$,\s]/g, '').replace(/^\((.*)\)$/, '-$1');
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(cleaned)) return null;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function isDateValue(value: string): boolean {
+  return DATE_PATTERNS.some(pattern => pattern.test(value)) || TIME_ONLY_PATTERN.test(value);
+}
+
+function matchesKind(value: string, kind: ValueKind): boolean {
+  const upper = value.trim().toUpperCase();
+  switch (kind) {
+    case 'side': return SIDE_VALUES.has(upper);
+    case 'orderType': return ORDER_TYPE_VALUES.has(upper);
+    case 'status': return STATUS_VALUES.has(upper);
+    case 'timeInForce': return TIF_VALUES.has(upper);
+    case 'optionRight': return OPTION_RIGHT_VALUES.has(upper);
+    case 'number': return parseSampleNumber(value) !== null;
+    case 'date': return parseSampleNumber(value) === null ? isDateValue(value) : /^\d{8}$/.test(value.trim());
+    case 'ticker':
+      return !NON_TICKER_VALUES.has(upper)
+        && /^[A-Z/][A-Z0-9]{0,9}(?:[.\-/: ][A-Z0-9]{1,21})*$/.test(upper)
+        && /[A-Z]/.test(upper)
+        && value.trim() === upper; // Tickers are written in capitals
+  }
+}
+
+/**
+ * Share of a column's sample values that look like the kind, or null without samples
+ */
+export function sniffValues(values: string[], kind: ValueKind): number | null {
+  if (values.length === 0) return null;
+  return values.filter(value => matchesKind(value, kind)).length / values.length;
+}
+
+// Fields a known format maps a header to, across the mapping shapes stored over time
+export function knownFields(mapping: unknown): string[] {
+  if (typeof mapping === 'string') return [mapping];
+  if (!mapping || typeof mapping !== 'object') return [];
+  const { fields, field, tradeVoyagerField } = mapping as { fields?: unknown; field?: unknown; tradeVoyagerField?: unknown };
+  if (Array.isArray(fields)) return fields.filter((value): value is string => typeof value === 'string');
+  if (typeof field === 'string') return [field];
+  if (typeof tradeVoyagerField === 'string') return [tradeVoyagerField];
+  return [];
+}
+
+interface Candidate extends ColumnMapping {
+  targetColumn: TradeVoyagerField;
+  priority: number;
+}
+
+/**
+ * Map CSV headers to TRADE_VOYAGER_FIELDS from their names, sample values and known broker formats
+ */
+export function matchHeaders(
+  headers: string[],
+  sampleRows: Record<string, unknown>[] = [],
+  knownFormats: KnownHeaderFormat[] = []
+): AiMappingResult {
+  const samples = new Map(headers.map(header => [
+    header,
+    sampleRows
+      .map(row => row[header])
+      .filter(value => value !== undefined && value !== null && String(value).trim() !== '')
+      .map(value => String(value).trim()),
+  ]));
+
+  // What known formats map headers like these to
+  const knownMatches = new Map<string, Array<{ field: string; similarity: number; knownHeader: string }>>();
+  for (const header of headers) {
+    const matches: Array<{ field: string; similarity: number; knownHeader: string }> = [];
+    for (const format of knownFormats) {
+      for (const [knownHeader, mapping] of Object.entries(format.fieldMappings ?? {})) {
+        const similarity = headerSimilarity(header, knownHeader);
+        if (similarity < 0.8) continue;
+        for (const field of knownFields(mapping)) matches.push({ field, similarity, knownHeader });
+      }
+    }
+    knownMatches.set(header, matches);
+  }
+
+  const candidates: Candidate[] = [];
+  for (const header of headers) {
+    const normalized = normalizeHeader(header);
+    const values = samples.get(header)!;
+
+    for (const [field, profile] of Object.entries(FIELD_PROFILES) as Array<[TradeVoyagerField, FieldProfile]>) {
+      const byName = nameScore(normalized, profile);
+      const known = knownMatches.get(header)!
+        .filter(match => match.field === field)
+        .sort((a, b) => b.similarity - a.similarity)[0];
+      const byKnownFormat = known ? 0.9 * known.similarity : 0;
+      const valueScore = profile.kind ? sniffValues(values, profile.kind) : null;
+
+      let confidence = Math.max(byName.score, byKnownFormat);
+      const reasons: string[] = [];
+      if (byName.score > 0 && byName.score >= byKnownFormat) reasons.push(`header matches "${byName.synonym}"`);
+      if (byKnownFormat > byName.score) reasons.push(`a known broker format maps "${known!.knownHeader}" to ${field}`);
+
+      if (valueScore !== null && confidence > 0) {
+        // Sample values confirm the name, or contradict it
+        confidence = valueScore >= 0.5 ? confidence * (0.75 + 0.25 * valueScore) : confidence * 0.5;
+        reasons.push(`${Math.round(valueScore * values.length)}/${values.length} sample values fit`);
+      } else if (valueScore !== null && valueScore >= 0.9 && ['side', 'orderType', 'status', 'timeInForce'].includes(profile.kind!)) {
+        // Distinctive values identify the column whatever it is called
+        confidence = 0.55;
+        reasons.push(`sample values look like ${field} values`);
+      }
+
+      if (confidence >= CONFIDENCE_THRESHOLDS.LOW) {
+        candidates.push({
+          sourceColumn: header,
+          targetColumn: field,
+          confidence: Math.round(confidence * 100) / 100,
+          reasoning: reasons.join('; '),
+          priority: profile.priority,
+        });
+      }
+    }
+  }
+
+  // Best pairs first: one field per header and one header per field
+  candidates.sort((a, b) => b.confidence - a.confidence
+    || b.priority - a.priority
+    || headers.indexOf(a.sourceColumn) - headers.indexOf(b.sourceColumn));
+  const usedHeaders = new Set<string>();
+  const usedFields = new Set<string>();
+  const mappings: ColumnMapping[] = [];
+  for (const candidate of candidates) {
+    if (usedHeaders.has(candidate.sourceColumn) || usedFields.has(candidate.targetColumn)) continue;
+    usedHeaders.add(candidate.sourceColumn);
+    usedFields.add(candidate.targetColumn);
+    mappings.push(candidate);
+  }
+
+  combineDateAndTimeColumns(mappings, samples);
+  mappings.sort((a, b) => headers.indexOf(a.sourceColumn) - headers.indexOf(b.sourceColumn));
+
+  return summarize(mappings, samples);
+}
+
+/**
+ * Join a time-only column to the date-only column of the same timestamp, e.g. "Date" and "Time"
+ */
+function combineDateAndTimeColumns(mappings: ColumnMapping[], samples: Map<string, string[]>): void {
+  const isDateOnly = (header: string) => {
+    const values = samples.get(header) ?? [];
+    return values.length > 0 && values.every(value => isDateValue(value) && !/\d:\d{2}/.test(value));
+  };
+  const isTimeOnly = (header: string) => {
+    const values = samples.get(header) ?? [];
+    return values.length > 0 && values.every(value => TIME_ONLY_PATTERN.test(value));
+  };
+
+  const dateMapping = mappings.find(mapping => (TIME_FIELDS as string[]).includes(mapping.targetColumn) && isDateOnly(mapping.sourceColumn));
+  if (!dateMapping) return;
+
+  const timeHeader = [...samples.keys()].find(header => header !== dateMapping.sourceColumn
+    && isTimeOnly(header)
+    && normalizeHeader(header).split(' ').includes('time'));
+  if (!timeHeader) return;
+
+  const timeMappingIndex = mappings.findIndex(mapping => mapping.sourceColumn === timeHeader);
+  if (timeMappingIndex >= 0) {
+    if (!(TIME_FIELDS as string[]).includes(mappings[timeMappingIndex].targetColumn)) return;
+    mappings.splice(timeMappingIndex, 1);
+  }
+  dateMapping.combinedWith = [timeHeader];
+  dateMapping.reasoning += `; combined with the time in "${timeHeader}"`;
+}
+
+function summarize(mappings: ColumnMapping[], samples: Map<string, string[]>): AiMappingResult {
+  const byField = new Map(mappings.map(mapping => [mapping.targetColumn, mapping]));
+  const time = TIME_FIELDS.map(field => byField.get(field)).find(Boolean);
+
+  // Signed quantities carry the side, so a side column is not needed
+  const quantity = byField.get('orderQuantity');
+  const sideFromQuantity = !byField.has('side') && !!quantity
+    && (samples.get(quantity.sourceColumn) ?? []).some(value => (parseSampleNumber(value) ?? 0) < 0);
+
+  const required = REQUIRED_FIELDS.filter(field => field !== 'side' || !sideFromQuantity);
+  const missingRequired: string[] = required.filter(field => !byField.has(field));
+  if (!time) missingRequired.push(TIME_FIELDS[0]);
+
+  // Confidence of the fields every import needs, with missing ones counting as zero
+  const requiredMappings = [...required.map(field => byField.get(field)), time];
+  const overallConfidence = Math.round(
+    requiredMappings.reduce((sum, mapping) => sum + (mapping?.confidence ?? 0), 0) / requiredMappings.length * 100
+  ) / 100;
+
+  const suggestions: string[] = [];
+  if (missingRequired.length > 0) {
+    suggestions.push(`Could not find columns for: ${missingRequired.join(', ')}`);
+  }
+  const lowConfidence = mappings.filter(mapping => mapping.confidence < CONFIDENCE_THRESHOLDS.MEDIUM);
+  if (lowConfidence.length > 0) {
+    suggestions.push(`Please review low-confidence mappings: ${lowConfidence.map(mapping => mapping.sourceColumn).join(', ')}`);
+  }
+
+  return {
+    mappings,
+    overallConfidence,
+    requiresUserReview: overallConfidence < CONFIDENCE_THRESHOLDS.HIGH || missingRequired.length > 0,
+    missingRequired,
+    suggestions,
+  };
+}
@@ -1,5 +1,8 @@
 import OpenAI from 'openai';
 import { TRADE_VOYAGER_FIELDS } from '@/lib/csvFormatRegistry';
+import { prisma } from '@/lib/prisma';
+import type { AiMappingResult } from './csvMapper';
+import { matchHeaders, type KnownHeaderFormat } from './headerMatcher';
 
 // OpenAI mapping configuration
 const CONFIDENCE_THRESHOLDS = {
@@ -8,6 +11,9 @@ const CONFIDENCE_THRESHOLDS = {
   LOW: 0.3,
 } as const;
 
+// Approved formats the offline matcher compares headers with
+const KNOWN_FORMAT_LIMIT = 200;
+
 // All mappable Order table fields (excluding system-generated fields)
 const ORDER_FIELDS = {
   // Critical fields (must be mapped for valid trades)
@@ -32,6 +38,10 @@ const ORDER_FIELDS = {
   accountId: 'Broker account identifier/number',
   orderAccount: 'Account name or description',
   orderRoute: 'Order routing destination (ARCA, NASDAQ, etc.)',
+  optionType: 'Option right (CALL/PUT) for option contracts',
+  strikePrice: 'Option strike price',
+  expirationDate: 'Option expiration date',
+  contractMultiplier: 'Contract multiplier (100 for standard equity options)',
   commission: 'Commission charged by broker for the order',
   fees: 'Additional fees charged by broker (regulatory, exchange, etc.)',
   tags: 'User-defined tags or categories',
@@ -54,11 +64,13 @@ export interface OpenAiMappingResult {
       field: string;
       confidence: number;
       reasoning?: string;
+      combinedWith?: string[];
     };
   };
   overallConfidence: number;
   unmappedFields: string[];
   brokerMetadataFields: string[];
+  missingRequired?: string[]; // Order fields an import needs that no header was matched to
   suggestions: string[];
 }
 
@@ -78,7 +90,7 @@ export class OpenAiMappingService {
     const apiKey = process.env.OPENAI_API_KEY;
     
     if (!apiKey || apiKey === 'your_openai_api_key_here') {
-      console.warn('OpenAI API key not configured. Will fall back to heuristic mapping.');
+      console.warn('OpenAI API key not configured. Will use offline header matching only.');
       this.isConfigured = false;
       // Create a dummy client to prevent runtime errors
       this.client = {} as OpenAI;
@@ -91,7 +103,9 @@ export class OpenAiMappingService {
   }
 
   /**
-   * Analyze CSV headers and map them to Order table fields using OpenAI
+   * Analyze CSV headers and map them to Order table fields
+   * The offline header matcher runs first; OpenAI is only asked when the matcher is unsure
+   * and is configured, and the matcher's result stands whenever OpenAI fails.
    */
   async analyzeHeaders(request: MappingRequest): Promise<OpenAiMappingResult> {
     console.log('[OPENAI_MAPPING] Analyzing headers:', {
@@ -99,17 +113,22 @@ export class OpenAiMappingService {
       brokerName: request.brokerName,
       sampleDataRows: request.sampleData?.length || 0
     });
-    
-    if (!this.isConfigured) {
 
-      return this.fallbackToHeuristics(request);
+    const matched = matchHeaders(request.csvHeaders, request.sampleData ?? [], await this.loadKnownFormats());
+    if (!matched.requiresUserReview || !this.isConfigured) {
+      console.log('[OPENAI_MAPPING] Using offline header match:', {
+        mappingsCount: matched.mappings.length,
+        overallConfidence: matched.overallConfidence,
+        missingRequired: matched.missingRequired
+      });
+      return this.fromHeaderMatch(matched, request.csvHeaders);
     }
 
     try {
       const prompt = this.buildMappingPrompt(request);
       
       const response = await this.client.chat.completions.create({
-        model: 'gpt-4',
+        model: process.env.OPENAI_MAPPING_MODEL || 'gpt-4',
         messages: [
           {
             role: 'system',
@@ -133,6 +152,9 @@ export class OpenAiMappingService {
 
 
       const result = this.parseOpenAiResponse(content, request.csvHeaders);
+      if (Object.keys(result.mappings).length === 0) {
+        return this.fromHeaderMatch(matched, request.csvHeaders);
+      }
       console.log('[OPENAI_MAPPING] Analysis complete:', {
         mappingsCount: Object.keys(result.mappings).length,
         overallConfidence: result.overallConfidence,
@@ -144,7 +166,7 @@ export class OpenAiMappingService {
 
     } catch (error) {
       console.error('OpenAI mapping failed:', error);
-      return this.fallbackToHeuristics(request);
+      return this.fromHeaderMatch(matched, request.csvHeaders);
     }
   }
 
@@ -279,13 +301,13 @@ ${csvHeaders.map((header, i) => `${i + 1}. "${header}"`).join('\n')}`;
       console.error('Failed to parse OpenAI response:', error);
 
       
-      // Return empty result that will trigger heuristic fallback
+      // Return empty result that will fall back to the offline header match
       return {
         mappings: {},
         overallConfidence: 0,
         unmappedFields: csvHeaders,
         brokerMetadataFields: csvHeaders,
-        suggestions: ['Failed to parse OpenAI response, falling back to heuristic mapping']
+        suggestions: ['Failed to parse OpenAI response, falling back to offline header matching']
       };
     }
   }
@@ -312,185 +334,60 @@ ${csvHeaders.map((header, i) => `${i + 1}. "${header}"`).join('\n')}`;
   }
 
   /**
-   * Fallback to heuristic mapping when OpenAI is not available
+   * Headers and mappings of approved formats, most used first, for the offline matcher
    */
-  private fallbackToHeuristics(request: MappingRequest): OpenAiMappingResult {
-    const { csvHeaders } = request;
-    
+  private async loadKnownFormats(): Promise<KnownHeaderFormat[]> {
+    try {
+      const formats = await prisma.brokerCsvFormat.findMany({
+        where: { isApproved: true },
+        select: { headers: true, fieldMappings: true },
+        orderBy: { usageCount: 'desc' },
+        take: KNOWN_FORMAT_LIMIT,
+      });
+      return formats.map(format => ({
+        headers: format.headers,
+        fieldMappings: (format.fieldMappings ?? {}) as Record<string, unknown>,
+      }));
+    } catch (error) {
+      console.error('[OPENAI_MAPPING] Failed to load known formats, matching without them:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Convert the offline header match to the mapping result shape; unmatched headers go to brokerMetadata
+   */
+  private fromHeaderMatch(matched: AiMappingResult, csvHeaders: string[]): OpenAiMappingResult {
     const result: OpenAiMappingResult = {
       mappings: {},
-      overallConfidence: 0.3, // Lower confidence for heuristics
+      overallConfidence: matched.overallConfidence,
       unmappedFields: [],
       brokerMetadataFields: [],
-      suggestions: ['OpenAI not available - using heuristic mapping. Consider configuring OPENAI_API_KEY for better accuracy.']
-    };
-
-    // Comprehensive heuristic mappings for all Order fields
-    const heuristicMappings: Record<string, { field: string; confidence: number }> = {
-      // Symbol variations
-      'symbol': { field: 'symbol', confidence: 0.9 },
-      'ticker': { field: 'symbol', confidence: 0.8 },
-      'instrument': { field: 'symbol', confidence: 0.7 },
-      'stock': { field: 'symbol', confidence: 0.7 },
-      
-      // Side variations
-      'side': { field: 'side', confidence: 0.9 },
-      'buy/sell': { field: 'side', confidence: 0.9 },
-      'b/s': { field: 'side', confidence: 0.8 },
-      'action': { field: 'side', confidence: 0.7 },
-      'direction': { field: 'side', confidence: 0.6 },
-      
-      // Quantity variations
-      'quantity': { field: 'orderQuantity', confidence: 0.9 },
-      'qty': { field: 'orderQuantity', confidence: 0.9 },
-      'shares': { field: 'orderQuantity', confidence: 0.8 },
-      'volume': { field: 'orderQuantity', confidence: 0.7 },
-      'amount': { field: 'orderQuantity', confidence: 0.6 },
-      'size': { field: 'orderQuantity', confidence: 0.6 },
-      
-      // Price variations
-      'price': { field: 'limitPrice', confidence: 0.8 },
-      'limit price': { field: 'limitPrice', confidence: 0.9 },
-      'limitprice': { field: 'limitPrice', confidence: 0.9 },
-      'limit': { field: 'limitPrice', confidence: 0.8 },
-      'execution price': { field: 'limitPrice', confidence: 0.7 },
-      
-      // Stop price variations
-      'stop price': { field: 'stopPrice', confidence: 0.9 },
-      'stopprice': { field: 'stopPrice', confidence: 0.9 },
-      'stop': { field: 'stopPrice', confidence: 0.8 },
-      
-      // Order type variations
-      'order type': { field: 'orderType', confidence: 0.9 },
-      'ordertype': { field: 'orderType', confidence: 0.9 },
-      'type': { field: 'orderType', confidence: 0.7 },
-      
-      // Order status variations
-      'status': { field: 'orderStatus', confidence: 0.8 },
-      'order status': { field: 'orderStatus', confidence: 0.9 },
-      'orderstatus': { field: 'orderStatus', confidence: 0.9 },
-      'state': { field: 'orderStatus', confidence: 0.7 },
-      
-      // Time variations - Placed
-      'time placed': { field: 'orderPlacedTime', confidence: 0.9 },
-      'timeplaced': { field: 'orderPlacedTime', confidence: 0.9 },
-      'placed time': { field: 'orderPlacedTime', confidence: 0.9 },
-      'order time': { field: 'orderPlacedTime', confidence: 0.8 },
-      'submitted time': { field: 'orderPlacedTime', confidence: 0.8 },
-      'created time': { field: 'orderPlacedTime', confidence: 0.7 },
-      
-      // Time variations - Executed (only map if header contains execution-specific terms)
-      'exec time': { field: 'orderExecutedTime', confidence: 0.9 },
-      'exectime': { field: 'orderExecutedTime', confidence: 0.9 },
-      'executed time': { field: 'orderExecutedTime', confidence: 0.9 },
-      'executedtime': { field: 'orderExecutedTime', confidence: 0.9 },
-      'execution time': { field: 'orderExecutedTime', confidence: 0.9 },
-      'executiontime': { field: 'orderExecutedTime', confidence: 0.9 },
-      'exec date': { field: 'orderExecutedTime', confidence: 0.8 },
-      'execdate': { field: 'orderExecutedTime', confidence: 0.8 },
-      'execution date': { field: 'orderExecutedTime', confidence: 0.8 },
-      'executiondate': { field: 'orderExecutedTime', confidence: 0.8 },
-      'fill time': { field: 'orderExecutedTime', confidence: 0.8 },
-      'filltime': { field: 'orderExecutedTime', confidence: 0.8 },
-      'filled time': { field: 'orderExecutedTime', confidence: 0.8 },
-      'filledtime': { field: 'orderExecutedTime', confidence: 0.8 },
-      'fill date': { field: 'orderExecutedTime', confidence: 0.8 },
-      'filldate': { field: 'orderExecutedTime', confidence: 0.8 },
-      'filled date': { field: 'orderExecutedTime', confidence: 0.8 },
-      'filleddate': { field: 'orderExecutedTime', confidence: 0.8 },
-      'trade time': { field: 'orderExecutedTime', confidence: 0.7 },
-      'tradetime': { field: 'orderExecutedTime', confidence: 0.7 },
-      'trade date': { field: 'orderExecutedTime', confidence: 0.7 },
-      'tradedate': { field: 'orderExecutedTime', confidence: 0.7 },
-      
-      // Time variations - Updated
-      'updated time': { field: 'orderUpdatedTime', confidence: 0.9 },
-      'last modified': { field: 'orderUpdatedTime', confidence: 0.8 },
-      'modified time': { field: 'orderUpdatedTime', confidence: 0.8 },
-      
-      // Time variations - Cancelled
-      'cancelled time': { field: 'orderCancelledTime', confidence: 0.9 },
-      'cancel time': { field: 'orderCancelledTime', confidence: 0.8 },
-      
-      // Order ID variations
-      'order id': { field: 'orderId', confidence: 0.9 },
-      'orderid': { field: 'orderId', confidence: 0.9 },
-      'id': { field: 'orderId', confidence: 0.7 },
-      'order number': { field: 'orderId', confidence: 0.8 },
-      'order ref': { field: 'orderId', confidence: 0.8 },
-      
-      // Parent order variations
-      'parent order': { field: 'parentOrderId', confidence: 0.9 },
-      'parent id': { field: 'parentOrderId', confidence: 0.8 },
-      'original order': { field: 'parentOrderId', confidence: 0.7 },
-      
-      // Time in force variations
-      'time in force': { field: 'timeInForce', confidence: 0.9 },
-      'tif': { field: 'timeInForce', confidence: 0.8 },
-      'duration': { field: 'timeInForce', confidence: 0.7 },
-      
-      // Account variations
-      'account': { field: 'accountId', confidence: 0.8 },
-      'account id': { field: 'accountId', confidence: 0.9 },
-      'account number': { field: 'accountId', confidence: 0.9 },
-      'acct': { field: 'orderAccount', confidence: 0.7 },
-      'account name': { field: 'orderAccount', confidence: 0.8 },
-      
-      // Route variations
-      'route': { field: 'orderRoute', confidence: 0.8 },
-      'exchange': { field: 'orderRoute', confidence: 0.7 },
-      'venue': { field: 'orderRoute', confidence: 0.7 },
-      
-      // Tags variations
-      'tags': { field: 'tags', confidence: 0.9 },
-      'tag': { field: 'tags', confidence: 0.8 },
-      'category': { field: 'tags', confidence: 0.6 },
-      
-      // Trade ID variations
-      'trade id': { field: 'tradeId', confidence: 0.9 },
-      'tradeid': { field: 'tradeId', confidence: 0.9 },
-      'group id': { field: 'tradeId', confidence: 0.7 },
-      
-      // Commission variations
-      'commission': { field: 'commission', confidence: 0.9 },
-      'comm': { field: 'commission', confidence: 0.8 },
-      'broker commission': { field: 'commission', confidence: 0.9 },
-      'trade commission': { field: 'commission', confidence: 0.8 },
-      
-      // Fees variations
-      'fees': { field: 'fees', confidence: 0.9 },
-      'fee': { field: 'fees', confidence: 0.8 },
-      'regulatory fees': { field: 'fees', confidence: 0.8 },
-      'exchange fees': { field: 'fees', confidence: 0.8 },
-      'sec fees': { field: 'fees', confidence: 0.7 },
-      'taf': { field: 'fees', confidence: 0.7 },
-      'clearing fees': { field: 'fees', confidence: 0.7 },
+      missingRequired: matched.missingRequired,
+      suggestions: matched.suggestions
     };
 
-    // Apply heuristic mappings
+    const combined = new Set(matched.mappings.flatMap(mapping => mapping.combinedWith ?? []));
     for (const header of csvHeaders) {
-      const normalized = header.toLowerCase().trim();
-      const mapping = heuristicMappings[normalized];
-      
-      if (mapping && mapping.confidence >= CONFIDENCE_THRESHOLDS.MEDIUM) {
+      const mapping = matched.mappings.find(candidate => candidate.sourceColumn === header);
+      if (mapping) {
         result.mappings[header] = {
-          field: mapping.field,
+          field: mapping.targetColumn,
           confidence: mapping.confidence,
-          reasoning: 'Heuristic pattern match'
+          reasoning: mapping.reasoning,
+          ...(mapping.combinedWith && { combinedWith: mapping.combinedWith })
         };
-      } else {
-        // Store in brokerMetadata
+      } else if (!combined.has(header)) {
+        result.unmappedFields.push(header);
         result.brokerMetadataFields.push(header);
         result.mappings[header] = {
           field: 'brokerMetadata',
           confidence: 0.1,
-          reasoning: 'No clear pattern match - storing in brokerMetadata'
+          reasoning: 'No clear header or value match - storing in brokerMetadata'
         };
       }
     }
 
-    result.overallConfidence = this.calculateOverallConfidence(result.mappings, csvHeaders);
-    
     return result;
   }
 
@@ -54,7 +54,7 @@ export class TradingAnalyzer {
     }
 
     const totalPnl = this.trades.reduce((sum, trade) => sum + (typeof trade.pnl === 'object' ? trade.pnl.toNumber() : trade.pnl), 0);
-    const totalVolume = this.trades.reduce((sum, trade) => sum + (trade.quantity || 0), 0);
+    const totalVolume = this.trades.reduce((sum, trade) => sum + Number(trade.quantity || 0), 0);
     const totalTrades = this.trades.length;
 
     const winningTrades = this.trades.filter(trade => (typeof trade.pnl === 'object' ? trade.pnl.toNumber() : trade.pnl) > 0);
@@ -107,7 +107,7 @@ export class TradingAnalyzer {
     Object.keys(dayGroups).sort().forEach(dateStr => {
       const dayTrades = dayGroups[dateStr];
       const dayPnl = dayTrades.reduce((sum, trade) => sum + (typeof trade.pnl === 'object' ? trade.pnl.toNumber() : trade.pnl), 0);
-      const dayVolume = dayTrades.reduce((sum, trade) => sum + (trade.quantity || 0), 0);
+      const dayVolume = dayTrades.reduce((sum, trade) => sum + Number(trade.quantity || 0), 0);
       const winningTrades = dayTrades.filter(trade => (typeof trade.pnl === 'object' ? trade.pnl.toNumber() : trade.pnl) > 0).length;
       const winRate = dayTrades.length > 0 ? (winningTrades / dayTrades.length) * 100 : 0;
       
@@ -310,7 +310,7 @@ export function calculateWinRate(trades: Trade[]): number {
 }
 
 export function calculateVolume(trades: Trade[]): number {
-  return trades.reduce((sum, trade) => sum + (trade.quantity || 0), 0);
+  return trades.reduce((sum, trade) => sum + Number(trade.quantity || 0), 0);
 }
 
 export function formatCurrency(amount: number): string {
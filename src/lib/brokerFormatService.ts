@@ -39,10 +39,31 @@ export class BrokerFormatService {
    * Find or create a broker by name or alias
    */
   async findOrCreateBroker(brokerName: string): Promise<BrokerWithRelations> {
+    const broker = await this.findBroker(brokerName);
+    if (broker) {
+      return broker;
+    }
+
+    // Create new broker if not found
+    return await prisma.broker.create({
+      data: {
+        name: brokerName.trim(),
+      },
+      include: {
+        aliases: true,
+        csvFormats: true
+      }
+    });
+  }
+
+  /**
+   * Find a broker by name or alias
+   */
+  async findBroker(brokerName: string): Promise<BrokerWithRelations | null> {
     const normalizedName = brokerName.trim();
 
     // First try to find by exact name
-    let broker = await prisma.broker.findUnique({
+    const broker = await prisma.broker.findUnique({
       where: { name: normalizedName },
       include: {
         aliases: true,
@@ -71,22 +92,7 @@ export class BrokerFormatService {
       }
     });
 
-    if (aliasResult) {
-      return aliasResult.broker;
-    }
-
-    // Create new broker if not found
-    broker = await prisma.broker.create({
-      data: {
-        name: normalizedName,
-      },
-      include: {
-        aliases: true,
-        csvFormats: true
-      }
-    });
-
-    return broker;
+    return aliasResult?.broker ?? null;
   }
 
   /**
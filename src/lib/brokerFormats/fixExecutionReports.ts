@@ -0,0 +1,293 @@
+/**
+ * FIX drop-copy execution reports
+ *
+ * Direct-access platforms (DAS, Sterling and the like) can log the FIX 4.2 / 4.4 drop copy of an
+ * account: one tag=value message per line, fields separated by SOH, "|" or a literal "^A", often
+ * behind a log timestamp. Execution reports (35=8) that report a fill become one order each; a
+ * trade cancel or correct removes the fill it refers to by ExecRefID.
+ */
+
+import { AssetClass, OptionRight, OrderSide, OrderType, TimeInForce } from '@prisma/client';
+import { formatOccSymbol } from '@/lib/optionSymbols';
+import { FUTURES_MONTH_CODES, parseFuturesSymbol } from '@/lib/futuresContracts';
+
+export interface FixContract {
+  underlyingSymbol: string;
+  optionRight?: OptionRight;
+  strikePrice?: number;
+  expirationDate?: Date;
+  contractMultiplier: number;
+}
+
+export interface FixExecution {
+  execId: string; // ExecID (17); re-imports are deduplicated on it
+  orderId?: string; // OrderID (37), shared by the fills of one order
+  accountId?: string;
+  symbol: string;
+  assetClass: AssetClass;
+  side: OrderSide;
+  quantity: number; // LastQty (32)
+  price: number; // LastPx (31)
+  executedAt: Date; // TransactTime (60), UTC to the millisecond
+  orderType: OrderType;
+  timeInForce: TimeInForce;
+  exchange?: string;
+  currency: string;
+  commission: number; // Absolute amount for this fill
+  contract?: FixContract;
+  attributes: Record<string, string>; // Every field of the message, by tag name where known
+}
+
+export interface FixParseResult {
+  executions: FixExecution[];
+  skipped: number; // Non-fill execution reports (new, replaced, cancelled orders) and repeated fills
+  cancelled: number; // Fills removed by a later trade cancel or correct
+  errors: string[];
+}
+
+// Tags read here, named in the kept metadata
+const FIX_TAG_NAMES: Record<string, string> = {
+  '1': 'Account',
+  '6': 'AvgPx',
+  '11': 'ClOrdID',
+  '12': 'Commission',
+  '13': 'CommType',
+  '14': 'CumQty',
+  '15': 'Currency',
+  '17': 'ExecID',
+  '19': 'ExecRefID',
+  '20': 'ExecTransType',
+  '30': 'LastMkt',
+  '31': 'LastPx',
+  '32': 'LastQty',
+  '35': 'MsgType',
+  '37': 'OrderID',
+  '38': 'OrderQty',
+  '39': 'OrdStatus',
+  '40': 'OrdType',
+  '43': 'PossDupFlag',
+  '44': 'Price',
+  '49': 'SenderCompID',
+  '52': 'SendingTime',
+  '54': 'Side',
+  '55': 'Symbol',
+  '56': 'TargetCompID',
+  '59': 'TimeInForce',
+  '60': 'TransactTime',
+  '65': 'SymbolSfx',
+  '150': 'ExecType',
+  '151': 'LeavesQty',
+  '167': 'SecurityType',
+  '200': 'MaturityMonthYear',
+  '201': 'PutOrCall',
+  '202': 'StrikePrice',
+  '207': 'SecurityExchange',
+  '231': 'ContractMultiplier',
+  '541': 'MaturityDate',
+};
+
+// ExecType (150): 1 / 2 are partial fill / fill in FIX 4.2, F is a trade in FIX 4.4
+const FILL_EXEC_TYPES = ['1', '2', 'F'];
+const CANCEL_EXEC_TYPE = 'H';
+const CORRECT_EXEC_TYPE = 'G';
+
+// ExecTransType (20), FIX 4.2 only
+const EXEC_TRANS_CANCEL = '1';
+const EXEC_TRANS_CORRECT = '2';
+const EXEC_TRANS_STATUS = '3';
+
+// Side (54): 2 sell, 4 sell plus, 5 sell short, 6 sell short exempt
+const SELL_SIDES = ['2', '4', '5', '6'];
+
+const ORDER_TYPES: Record<string, OrderType> = {
+  '1': OrderType.MARKET,
+  '2': OrderType.LIMIT,
+  '3': OrderType.STOP,
+  '4': OrderType.STOP_LIMIT,
+  '5': OrderType.MARKET_ON_CLOSE,
+  'B': OrderType.LIMIT_ON_CLOSE,
+  'P': OrderType.PEGGED_TO_MIDPOINT,
+};
+
+const TIME_IN_FORCE: Record<string, TimeInForce> = {
+  '0': TimeInForce.DAY,
+  '1': TimeInForce.GTC,
+  '3': TimeInForce.IOC,
+  '4': TimeInForce.FOK,
+  '6': TimeInForce.GTD,
+};
+
+const FIX_MESSAGE_PATTERN = /8=FIXT?\.\d\.\d.*/;
+const FIELD_SEPARATOR = /\x01|\||\^A/;
+
+/**
+ * Whether a file is a FIX log with at least one execution report
+ */
+export function isFixLog(content: string): boolean {
+  const head = content.slice(0, 64 * 1024);
+  return FIX_MESSAGE_PATTERN.test(head) && /(^|\x01|\||\^A)35=8(\x01|\||\^A)/m.test(head);
+}
+
+/**
+ * Fields of one FIX message by tag number; repeated tags keep their first value
+ */
+export function parseFixMessage(line: string): Map<string, string> | null {
+  const message = line.match(FIX_MESSAGE_PATTERN)?.[0];
+  if (!message) return null;
+
+  const fields = new Map<string, string>();
+  for (const field of message.split(FIELD_SEPARATOR)) {
+    const separator = field.indexOf('=');
+    if (separator <= 0) continue;
+    const tag = field.slice(0, separator).trim();
+    if (/^\d+$/.test(tag) && !fields.has(tag)) {
+      fields.set(tag, field.slice(separator + 1));
+    }
+  }
+  return fields;
+}
+
+/**
+ * FIX UTC timestamps: 20240315-13:30:12, with optional milliseconds (or finer)
+ */
+export function parseFixTimestamp(value: string | undefined): Date | null {
+  const match = value?.trim().match(/^(\d{4})(\d{2})(\d{2})-(\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,9}))?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, fraction] = match;
+  const date = new Date(Date.UTC(
+    Number(year), Number(month) - 1, Number(day),
+    Number(hours), Number(minutes), Number(seconds),
+    Number((fraction ?? '0').padEnd(3, '0').slice(0, 3))
+  ));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toNumber(value: string | undefined): number {
+  const parsed = parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function namedAttributes(fields: Map<string, string>): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [tag, value] of fields) {
+    attributes[FIX_TAG_NAMES[tag] ?? tag] = value;
+  }
+  return attributes;
+}
+
+/**
+ * Commission (12) as an amount for the fill; CommType (13) 1 is per unit, 2 a percentage, 3 absolute
+ */
+function fillCommission(fields: Map<string, string>, quantity: number, price: number): number {
+  const commission = Math.abs(toNumber(fields.get('12')));
+  switch (fields.get('13')) {
+    case '1':
+      return Math.round(commission * quantity * 100) / 100;
+    case '2':
+      return Math.round(commission / 100 * quantity * price * 100) / 100;
+    default:
+      return commission;
+  }
+}
+
+function resolveInstrument(fields: Map<string, string>): { symbol: string; assetClass: AssetClass; contract?: FixContract } {
+  const suffix = fields.get('65');
+  const symbol = (suffix ? `${fields.get('55')}.${suffix}` : fields.get('55')!).trim().toUpperCase();
+  const securityType = fields.get('167')?.toUpperCase();
+  const contractMultiplier = toNumber(fields.get('231'));
+
+  if (securityType === 'OPT') {
+    const optionRight = fields.get('201') === '0' ? OptionRight.PUT : fields.get('201') === '1' ? OptionRight.CALL : null;
+    const strikePrice = toNumber(fields.get('202'));
+    const maturity = (fields.get('541') ?? '').match(/^(\d{4})(\d{2})(\d{2})$/);
+    if (optionRight && strikePrice > 0 && maturity) {
+      const expirationDate = new Date(Date.UTC(Number(maturity[1]), Number(maturity[2]) - 1, Number(maturity[3])));
+      return {
+        symbol: formatOccSymbol(symbol, expirationDate, optionRight, strikePrice),
+        assetClass: AssetClass.OPTIONS,
+        contract: { underlyingSymbol: symbol, optionRight, strikePrice, expirationDate, contractMultiplier: contractMultiplier || 100 },
+      };
+    }
+  }
+
+  if (securityType === 'FUT') {
+    // MaturityMonthYear (200) names the contract month when the symbol is only the root
+    const maturity = (fields.get('200') ?? '').match(/^(\d{4})(\d{2})/);
+    const contractSymbol = maturity && !parseFuturesSymbol(symbol)?.monthCode
+      ? `${symbol}${FUTURES_MONTH_CODES[Number(maturity[2]) - 1]}${Number(maturity[1]) % 10}`
+      : symbol;
+    const parsed = parseFuturesSymbol(contractSymbol);
+    return {
+      symbol: parsed?.contractSymbol ?? contractSymbol,
+      assetClass: AssetClass.FUTURES,
+      contract: { underlyingSymbol: parsed?.root ?? symbol, contractMultiplier: contractMultiplier || parsed?.spec.pointValue || 1 },
+    };
+  }
+
+  return { symbol, assetClass: AssetClass.EQUITY };
+}
+
+/**
+ * Read the fills of a FIX log
+ * Messages are taken in log order so cancels and corrects apply to the fills before them.
+ */
+export function parseFixExecutionReports(content: string): FixParseResult {
+  const result: FixParseResult = { executions: [], skipped: 0, cancelled: 0, errors: [] };
+  const fills = new Map<string, FixExecution>();
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const fields = parseFixMessage(line);
+    if (!fields || fields.get('35') !== '8') return;
+
+    const row = `Line ${index + 1}`;
+    const execType = fields.get('150');
+    const execTransType = fields.get('20');
+
+    // A cancel or correct withdraws the fill it refers to; a correct then stands as the new fill
+    if (execType === CANCEL_EXEC_TYPE || execType === CORRECT_EXEC_TYPE || execTransType === EXEC_TRANS_CANCEL || execTransType === EXEC_TRANS_CORRECT) {
+      const refId = fields.get('19');
+      if (refId && fills.delete(refId)) result.cancelled++;
+      if (execType === CANCEL_EXEC_TYPE || execTransType === EXEC_TRANS_CANCEL) return;
+    } else if (!FILL_EXEC_TYPES.includes(execType ?? '') || execTransType === EXEC_TRANS_STATUS) {
+      result.skipped++;
+      return;
+    }
+
+    const execId = fields.get('17');
+    const quantity = Math.abs(toNumber(fields.get('32')));
+    const price = toNumber(fields.get('31'));
+    const executedAt = parseFixTimestamp(fields.get('60')) ?? parseFixTimestamp(fields.get('52'));
+
+    if (!execId || !fields.get('55') || !quantity || !executedAt) {
+      result.errors.push(`${row}: execution report missing ExecID, Symbol, LastQty or TransactTime`);
+      return;
+    }
+
+    // Drop copies resend fills after a reconnect (PossDupFlag 43=Y)
+    if (fills.has(execId)) {
+      result.skipped++;
+      return;
+    }
+
+    fills.set(execId, {
+      execId,
+      orderId: fields.get('37') || undefined,
+      accountId: fields.get('1') || undefined,
+      ...resolveInstrument(fields),
+      side: SELL_SIDES.includes(fields.get('54') ?? '') ? OrderSide.SELL : OrderSide.BUY,
+      quantity,
+      price,
+      executedAt,
+      orderType: ORDER_TYPES[fields.get('40') ?? ''] ?? OrderType.MARKET,
+      timeInForce: TIME_IN_FORCE[fields.get('59') ?? ''] ?? TimeInForce.DAY,
+      exchange: fields.get('30') || fields.get('207') || undefined,
+      currency: (fields.get('15') || 'USD').toUpperCase(),
+      commission: fillCommission(fields, quantity, price),
+      attributes: namedAttributes(fields),
+    });
+  });
+
+  result.executions = [...fills.values()];
+  return result;
+}
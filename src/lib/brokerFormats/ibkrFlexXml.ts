@@ -0,0 +1,223 @@
+/**
+ * Interactive Brokers Flex Query XML
+ *
+ * Flex Queries export each fill as a <Trade> element whose fields are all attributes, nested in
+ * <FlexQueryResponse><FlexStatements><FlexStatement><Trades>. Unlike the flattened CSV export they
+ * carry IBKR's execution id, the asset category, contract multiplier and option/futures details,
+ * the trade currency and the currency commission was charged in, so fills map onto orders exactly.
+ */
+
+import { AssetClass, DatePrecision, OptionRight, OrderSide, OrderType } from '@prisma/client';
+import { formatOccSymbol, normalizeOptionRight } from '@/lib/optionSymbols';
+import { parseFuturesSymbol } from '@/lib/futuresContracts';
+import { readAttributes } from '@/lib/xmlText';
+
+export interface IbkrFlexContract {
+  underlyingSymbol: string;
+  optionRight?: OptionRight;
+  strikePrice?: number;
+  expirationDate?: Date;
+  contractMultiplier: number;
+}
+
+export interface IbkrFlexExecution {
+  execId: string; // ibExecID, unique across IBKR; re-imports are deduplicated on it
+  ibOrderId?: string; // Fills of one order share it
+  accountId?: string;
+  symbol: string; // OCC symbol for options, contract symbol for futures
+  assetClass: AssetClass;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  executedAt: Date;
+  datePrecision: DatePrecision; // DAILY when the query was run without execution times
+  placedAt?: Date;
+  orderType: OrderType;
+  exchange?: string;
+  currency: string;
+  commission: number; // Positive, in the trade currency
+  fees: number; // Transaction taxes, positive, in the trade currency
+  contract?: IbkrFlexContract;
+  attributes: Record<string, string>; // Every attribute of the element, kept as broker metadata
+}
+
+export interface IbkrFlexParseResult {
+  executions: IbkrFlexExecution[];
+  skipped: number; // Order summaries, closed lots, cancellations and currency conversions
+  errors: string[];
+}
+
+// IBKR asset categories; CASH (currency conversions) is not traded here
+const ASSET_CATEGORIES: Record<string, AssetClass> = {
+  STK: AssetClass.EQUITY,
+  ETF: AssetClass.EQUITY,
+  WAR: AssetClass.EQUITY,
+  FUND: AssetClass.EQUITY,
+  OPT: AssetClass.OPTIONS,
+  FOP: AssetClass.OPTIONS,
+  FUT: AssetClass.FUTURES,
+  CRYPTO: AssetClass.CRYPTO,
+};
+
+const ORDER_TYPES: Record<string, OrderType> = {
+  MKT: OrderType.MARKET,
+  LMT: OrderType.LIMIT,
+  STP: OrderType.STOP,
+  'STP LMT': OrderType.STOP_LIMIT,
+  TRAIL: OrderType.TRAILING_STOP,
+  'TRAIL LIMIT': OrderType.TRAILING_STOP,
+  MOC: OrderType.MARKET_ON_CLOSE,
+  LOC: OrderType.LIMIT_ON_CLOSE,
+  MIDPRICE: OrderType.PEGGED_TO_MIDPOINT,
+};
+
+/**
+ * Whether a file is a Flex Query XML export
+ */
+export function isIbkrFlexXml(content: string): boolean {
+  return /^\s*(<\?xml[^>]*\?>\s*)?<FlexQueryResponse\b/.test(content.replace(/^\uFEFF/, ''));
+}
+
+/**
+ * Attributes of every element with the given tag name
+ */
+function readElements(content: string, tagName: string): Record<string, string>[] {
+  const elements: Record<string, string>[] = [];
+  const elementPattern = new RegExp(`<${tagName}\\b([^>]*?)\\/?>`, 'g');
+
+  for (const [, body] of content.matchAll(elementPattern)) {
+    elements.push(readAttributes(body));
+  }
+  return elements;
+}
+
+/**
+ * Flex dates: 20240315, 2024-03-15 or 03/15/2024, optionally followed by ";093012", ";09:30:12" or " 09:30:12"
+ * Times are in the statement's time zone and read as local time, like CSV timestamps.
+ */
+export function parseFlexDateTime(value: string | undefined): Date | null {
+  if (!value) return null;
+  const match = value.trim().match(
+    /^(?:(\d{4})-?(\d{2})-?(\d{2})|(\d{2})\/(\d{2})\/(\d{4}))(?:[;,T\s]+(\d{2}):?(\d{2}):?(\d{2})?)?/
+  );
+  if (!match) return null;
+
+  const [, isoYear, isoMonth, isoDay, usMonth, usDay, usYear, hours, minutes, seconds] = match;
+  const date = new Date(
+    Number(isoYear ?? usYear),
+    Number(isoMonth ?? usMonth) - 1,
+    Number(isoDay ?? usDay),
+    Number(hours ?? 0),
+    Number(minutes ?? 0),
+    Number(seconds ?? 0)
+  );
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toNumber(value: string | undefined): number {
+  const parsed = parseFloat((value ?? '').replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function resolveContract(
+  attributes: Record<string, string>,
+  assetClass: AssetClass
+): { symbol: string; contract?: IbkrFlexContract } {
+  const symbol = attributes.symbol.trim().toUpperCase();
+  const underlyingSymbol = (attributes.underlyingSymbol || symbol.split(/\s+/)[0]).trim().toUpperCase();
+  const contractMultiplier = toNumber(attributes.multiplier) || 1;
+
+  if (assetClass === AssetClass.OPTIONS) {
+    const optionRight = normalizeOptionRight(attributes.putCall);
+    const strikePrice = toNumber(attributes.strike);
+    const expiry = parseFlexDateTime(attributes.expiry);
+    if (optionRight && strikePrice > 0 && expiry) {
+      const expirationDate = new Date(Date.UTC(expiry.getFullYear(), expiry.getMonth(), expiry.getDate()));
+      return {
+        symbol: formatOccSymbol(underlyingSymbol, expirationDate, optionRight, strikePrice),
+        contract: { underlyingSymbol, optionRight, strikePrice, expirationDate, contractMultiplier },
+      };
+    }
+  }
+
+  if (assetClass === AssetClass.FUTURES) {
+    return {
+      symbol: parseFuturesSymbol(symbol)?.contractSymbol ?? symbol,
+      contract: { underlyingSymbol, contractMultiplier },
+    };
+  }
+
+  return { symbol };
+}
+
+/**
+ * Read the executions of a Flex Query XML export
+ * Only execution-level <Trade> rows are taken; order summaries and closed lots repeat them.
+ */
+export function parseIbkrFlexXml(content: string): IbkrFlexParseResult {
+  const result: IbkrFlexParseResult = { executions: [], skipped: 0, errors: [] };
+
+  const statementError = readElements(content, 'FlexStatement').find(statement => statement.errorMessage);
+  if (statementError) {
+    result.errors.push(`Flex statement error: ${statementError.errorMessage}`);
+  }
+
+  readElements(content, 'Trade').forEach((attributes, index) => {
+    const row = `Trade ${index + 1}`;
+    const levelOfDetail = attributes.levelOfDetail?.toUpperCase();
+    const buySell = attributes.buySell?.toUpperCase() ?? '';
+    const assetClass = ASSET_CATEGORIES[attributes.assetCategory?.toUpperCase() ?? 'STK'];
+
+    // Cancelled fills are reported as "BUY (Ca.)" alongside the fill they cancel
+    if ((levelOfDetail && levelOfDetail !== 'EXECUTION') || buySell.includes('(CA.)') || !assetClass) {
+      result.skipped++;
+      return;
+    }
+
+    const execId = attributes.ibExecID || attributes.tradeID;
+    const quantity = Math.abs(toNumber(attributes.quantity));
+    const price = toNumber(attributes.tradePrice);
+    const dateTime = attributes.dateTime || [attributes.tradeDate, attributes.tradeTime].filter(Boolean).join(';');
+    const executedAt = parseFlexDateTime(dateTime);
+
+    if (!execId || !attributes.symbol || !quantity || !executedAt) {
+      result.errors.push(`${row}: missing execution id, symbol, quantity or date`);
+      return;
+    }
+
+    const side = buySell.startsWith('SELL') || (!buySell && toNumber(attributes.quantity) < 0)
+      ? OrderSide.SELL
+      : OrderSide.BUY;
+    const currency = (attributes.currency || 'USD').toUpperCase();
+
+    // Commission is charged in the account's base currency when it is not the trade currency
+    const commissionCurrency = (attributes.ibCommissionCurrency || currency).toUpperCase();
+    const fxRateToBase = toNumber(attributes.fxRateToBase) || 1;
+    const commission = Math.abs(toNumber(attributes.ibCommission)) / (commissionCurrency === currency ? 1 : fxRateToBase);
+
+    const { symbol, contract } = resolveContract(attributes, assetClass);
+
+    result.executions.push({
+      execId,
+      ibOrderId: attributes.ibOrderID || undefined,
+      accountId: attributes.accountId || undefined,
+      symbol,
+      assetClass,
+      side,
+      quantity,
+      price,
+      executedAt,
+      datePrecision: /[;,T\s]\d{2}:?\d{2}/.test(dateTime) ? DatePrecision.MILLISECOND : DatePrecision.DAILY,
+      placedAt: parseFlexDateTime(attributes.orderTime) ?? undefined,
+      orderType: ORDER_TYPES[attributes.orderType?.toUpperCase() ?? ''] ?? OrderType.MARKET,
+      exchange: attributes.exchange || undefined,
+      currency,
+      commission: Math.round(commission * 100) / 100,
+      fees: Math.round(Math.abs(toNumber(attributes.taxes)) * 100) / 100,
+      contract,
+      attributes,
+    });
+  });
+
+  return result;
+}
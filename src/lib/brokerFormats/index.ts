@@ -21,7 +21,7 @@ export const TOP_BROKER_FORMATS: BrokerFormat[] = [
   {
     id: 'interactive_brokers',
     name: 'Interactive Brokers',
-    description: 'IBKR Flex Query or Activity Statement export',
+    description: 'IBKR Activity Statement CSV, read section by section with dividends, fees and open positions; Flex Query XML files are read natively with execution ids, commissions and contract details',
     popularity: 1,
     columns: {
       date: { header: 'Date', required: true, description: 'Trade execution date', example: '2025-01-15' },
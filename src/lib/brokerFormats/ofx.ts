@@ -0,0 +1,438 @@
+/**
+ * OFX / QFX investment statements
+ *
+ * Brokers such as Fidelity, Vanguard and E*TRADE offer OFX downloads (QFX is Quicken's name for
+ * the same file). Version 1 files are SGML where simple elements have no closing tag; version 2
+ * files are XML. Both nest an investment statement (INVSTMTRS) with its transaction list and a
+ * security list (SECLIST) that the transactions point into by CUSIP or another security id.
+ */
+
+import { AssetClass, CashActivityType, DatePrecision, OptionRight, OrderSide } from '@prisma/client';
+import { formatOccSymbol, normalizeOptionRight } from '@/lib/optionSymbols';
+import { signCashAmount } from '@/lib/cashLedger';
+import { decodeEntities } from '@/lib/xmlText';
+
+interface OfxElement {
+  name: string;
+  value?: string; // Simple elements carry a value; aggregates carry children
+  children: OfxElement[];
+}
+
+export interface OfxContract {
+  underlyingSymbol: string;
+  optionRight: OptionRight;
+  strikePrice: number;
+  expirationDate: Date;
+  contractMultiplier: number;
+}
+
+export interface OfxExecution {
+  externalId: string; // Account id and FITID; FITIDs are only unique within an account
+  accountId?: string;
+  symbol: string; // Ticker, OCC symbol for options, or the CUSIP when the security list has no ticker
+  assetClass: AssetClass;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  executedAt: Date;
+  datePrecision: DatePrecision; // DAILY when the statement gives trade dates only
+  currency: string;
+  commission: number;
+  fees: number; // Fees, taxes and loads
+  contract?: OfxContract;
+  attributes: Record<string, string>; // The transaction's simple elements, kept as broker metadata
+}
+
+export interface OfxCashActivity {
+  externalId: string;
+  accountId?: string;
+  activityType: CashActivityType;
+  amount: number; // Signed: positive adds cash
+  currency: string;
+  symbol?: string;
+  description: string;
+  occurredAt: Date;
+  attributes: Record<string, string>;
+}
+
+export interface OfxParseResult {
+  institution?: string; // Broker name from the sign-on or account, when the file has one
+  executions: OfxExecution[];
+  cashActivities: OfxCashActivity[];
+  skipped: number; // Transactions with no trade or cash effect here: splits, bond trades, share transfers without a price
+  errors: string[];
+}
+
+interface OfxSecurity {
+  symbol: string;
+  name?: string;
+  assetClass?: AssetClass; // Unset for securities traded here only as cash (bonds, other)
+  contract?: OfxContract;
+}
+
+interface OfxStatementContext {
+  accountId?: string;
+  currency: string;
+  securities: Map<string, OfxSecurity>;
+}
+
+const BUY_TRANSACTIONS = ['BUYSTOCK', 'BUYMF', 'BUYOPT', 'BUYDEBT', 'BUYOTHER'];
+const SELL_TRANSACTIONS = ['SELLSTOCK', 'SELLMF', 'SELLOPT', 'SELLDEBT', 'SELLOTHER'];
+
+// OFX income types; capital gain distributions from funds are recorded as dividends
+const INCOME_TYPES: Record<string, { activityType: CashActivityType; label: string }> = {
+  DIV: { activityType: CashActivityType.DIVIDEND, label: 'Dividend' },
+  INTEREST: { activityType: CashActivityType.INTEREST, label: 'Interest' },
+  CGLONG: { activityType: CashActivityType.DIVIDEND, label: 'Long-term capital gain distribution' },
+  CGSHORT: { activityType: CashActivityType.DIVIDEND, label: 'Short-term capital gain distribution' },
+  MISC: { activityType: CashActivityType.OTHER, label: 'Income' },
+};
+
+// Bank transaction types (INVBANKTRAN) as cash ledger types
+const BANK_TRANSACTION_TYPES: Record<string, CashActivityType> = {
+  INT: CashActivityType.INTEREST,
+  DIV: CashActivityType.DIVIDEND,
+  FEE: CashActivityType.FEE,
+  SRVCHG: CashActivityType.FEE,
+  DEP: CashActivityType.DEPOSIT,
+  DIRECTDEP: CashActivityType.DEPOSIT,
+  CREDIT: CashActivityType.DEPOSIT,
+  DEBIT: CashActivityType.WITHDRAWAL,
+  ATM: CashActivityType.WITHDRAWAL,
+  CHECK: CashActivityType.WITHDRAWAL,
+  PAYMENT: CashActivityType.WITHDRAWAL,
+  DIRECTDEBIT: CashActivityType.WITHDRAWAL,
+  REPEATPMT: CashActivityType.WITHDRAWAL,
+  CASH: CashActivityType.WITHDRAWAL,
+  POS: CashActivityType.WITHDRAWAL,
+  XFER: CashActivityType.TRANSFER,
+  OTHER: CashActivityType.OTHER,
+};
+
+// OFX identifies brokers by domain or organisation; known ones get the name used elsewhere in the app
+const INSTITUTION_NAMES: Array<[RegExp, string]> = [
+  [/fidelity/i, 'Fidelity'],
+  [/vanguard/i, 'Vanguard'],
+  [/e\W?trade/i, 'E*TRADE'],
+  [/schwab/i, 'Charles Schwab'],
+  [/ameritrade/i, 'TD Ameritrade'],
+  [/interactive\s*brokers|ibkr/i, 'Interactive Brokers'],
+];
+
+/**
+ * Whether a file is an OFX or QFX statement, in either the SGML or the XML flavour
+ */
+export function isOfxFile(content: string): boolean {
+  const head = content.replace(/^\uFEFF/, '').slice(0, 2048);
+  return /^\s*OFXHEADER\s*:/i.test(head) || /<\?OFX\b/i.test(head) || /^\s*(<\?xml[^>]*\?>\s*)?<OFX>/i.test(head);
+}
+
+/**
+ * Read the <OFX> body into an element tree
+ * A tag followed by text is a simple element, whether or not it is closed; a tag followed directly
+ * by another tag opens an aggregate. Closing tags pop back to their aggregate, which also recovers
+ * from aggregates a broker forgot to close.
+ */
+function parseOfxTree(content: string): OfxElement {
+  const root: OfxElement = { name: 'ROOT', children: [] };
+  const stack: OfxElement[] = [root];
+  const bodyStart = content.search(/<OFX>/i);
+  const body = bodyStart >= 0 ? content.slice(bodyStart) : content;
+
+  for (const [, closing, rawName, trailing] of body.matchAll(/<(\/?)([A-Za-z0-9._]+)[^>]*>([^<]*)/g)) {
+    const name = rawName.toUpperCase();
+    const value = trailing.trim();
+
+    if (closing) {
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const element: OfxElement = { name, children: [] };
+    stack[stack.length - 1].children.push(element);
+    if (value) {
+      element.value = decodeEntities(value);
+    } else {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+function child(element: OfxElement | undefined, path: string): OfxElement | undefined {
+  return path.split('.').reduce<OfxElement | undefined>(
+    (current, name) => current?.children.find(c => c.name === name),
+    element
+  );
+}
+
+function text(element: OfxElement | undefined, path: string): string | undefined {
+  return child(element, path)?.value;
+}
+
+function descendants(element: OfxElement, name: string): OfxElement[] {
+  return element.children.flatMap(c => (c.name === name ? [c] : descendants(c, name)));
+}
+
+// Simple elements of an aggregate by tag name, nearest first
+function flatten(element: OfxElement, attributes: Record<string, string> = {}): Record<string, string> {
+  for (const c of element.children) {
+    if (c.value !== undefined) {
+      attributes[c.name] ??= c.value;
+    }
+  }
+  element.children.filter(c => c.value === undefined).forEach(c => flatten(c, attributes));
+  return attributes;
+}
+
+function toNumber(value: string | undefined): number {
+  const parsed = parseFloat((value ?? '').replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * OFX dates: YYYYMMDD, optionally followed by HHMMSS, milliseconds and a time zone such as
+ * "[-5:EST]". Dates with a zone are converted to UTC; dates without one are read as local time.
+ */
+export function parseOfxDate(value: string | undefined): { date: Date; hasTime: boolean } | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?(?:\.\d+)?)?(?:\s*\[\s*([+-]?\d+(?:\.\d+)?)(?::[^\]]*)?\])?/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, offset] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours ?? 0), Number(minutes ?? 0), Number(seconds ?? 0)] as const;
+  const date = offset !== undefined
+    ? new Date(Date.UTC(...parts) - Number(offset) * 60 * 60 * 1000)
+    : new Date(...parts);
+
+  if (isNaN(date.getTime())) return null;
+  // Brokers without execution times fill the time with zeros
+  return { date, hasTime: hours !== undefined && `${hours}${minutes}${seconds ?? ''}`.replace(/0/g, '') !== '' };
+}
+
+function securityKey(secId: OfxElement | undefined): string | undefined {
+  const uniqueId = text(secId, 'UNIQUEID');
+  return uniqueId ? `${text(secId, 'UNIQUEIDTYPE') ?? 'CUSIP'}:${uniqueId}`.toUpperCase() : undefined;
+}
+
+function institutionName(root: OfxElement): string | undefined {
+  const organisation = descendants(root, 'FI').map(fi => text(fi, 'ORG')).find(Boolean);
+  const brokerId = descendants(root, 'INVACCTFROM').map(account => text(account, 'BROKERID')).find(Boolean);
+  const raw = organisation || brokerId;
+  if (!raw) return undefined;
+  return INSTITUTION_NAMES.find(([pattern]) => pattern.test(raw))?.[1] ?? raw;
+}
+
+/**
+ * Securities by id, with options resolved to OCC symbols
+ * Underlyings are looked up after the first pass because the list is not ordered.
+ */
+function readSecurityList(root: OfxElement): Map<string, OfxSecurity> {
+  const securities = new Map<string, OfxSecurity>();
+  const options: Array<{ key: string; info: OfxElement }> = [];
+
+  for (const secList of descendants(root, 'SECLIST')) {
+    for (const info of secList.children) {
+      const key = securityKey(child(info, 'SECINFO.SECID'));
+      if (!key) continue;
+
+      const uniqueId = text(info, 'SECINFO.SECID.UNIQUEID')!;
+      const symbol = (text(info, 'SECINFO.TICKER') || uniqueId).trim().toUpperCase();
+      const name = text(info, 'SECINFO.SECNAME');
+      const assetClass = info.name === 'STOCKINFO' || info.name === 'MFINFO' ? AssetClass.EQUITY : undefined;
+
+      securities.set(key, { symbol, name, assetClass });
+      if (info.name === 'OPTINFO') options.push({ key, info });
+    }
+  }
+
+  for (const { key, info } of options) {
+    const security = securities.get(key)!;
+    const optionRight = normalizeOptionRight(text(info, 'OPTTYPE'));
+    const strikePrice = toNumber(text(info, 'STRIKEPRICE'));
+    const expiry = parseOfxDate(text(info, 'DTEXPIRE'))?.date;
+    const underlyingSymbol = securities.get(securityKey(child(info, 'SECID')) ?? '')?.symbol ?? security.symbol.split(/\s+/)[0];
+
+    if (!optionRight || strikePrice <= 0 || !expiry) continue;
+
+    const expirationDate = new Date(Date.UTC(expiry.getFullYear(), expiry.getMonth(), expiry.getDate()));
+    securities.set(key, {
+      ...security,
+      symbol: formatOccSymbol(underlyingSymbol, expirationDate, optionRight, strikePrice),
+      assetClass: AssetClass.OPTIONS,
+      contract: {
+        underlyingSymbol,
+        optionRight,
+        strikePrice,
+        expirationDate,
+        contractMultiplier: toNumber(text(info, 'SHPERCTRCT')) || 100,
+      },
+    });
+  }
+
+  return securities;
+}
+
+function transactionCurrency(transaction: OfxElement, context: OfxStatementContext): string {
+  return (text(transaction, 'CURRENCY.CURSYM') || text(transaction, 'ORIGCURRENCY.CURSYM') || context.currency).toUpperCase();
+}
+
+function readExecution(
+  transaction: OfxElement,
+  side: OrderSide,
+  context: OfxStatementContext,
+  result: OfxParseResult
+): void {
+  // Buys and sells wrap their details in INVBUY / INVSELL; reinvestments carry them directly
+  const detail = child(transaction, 'INVBUY') ?? child(transaction, 'INVSELL') ?? transaction;
+  const fitId = text(detail, 'INVTRAN.FITID');
+  const traded = parseOfxDate(text(detail, 'INVTRAN.DTTRADE'));
+  const security = context.securities.get(securityKey(child(detail, 'SECID')) ?? '');
+  const quantity = Math.abs(toNumber(text(detail, 'UNITS')));
+
+  if (!fitId || !traded || !security || !quantity) {
+    result.errors.push(`${[transaction.name, fitId].filter(Boolean).join(' ')}: missing transaction id, trade date, security or units`);
+    return;
+  }
+  if (!security.assetClass) {
+    result.skipped++;
+    return;
+  }
+
+  result.executions.push({
+    externalId: `${context.accountId ?? ''}:${fitId}`,
+    accountId: context.accountId,
+    symbol: security.symbol,
+    assetClass: security.assetClass,
+    side,
+    quantity,
+    price: Math.abs(toNumber(text(detail, 'UNITPRICE'))),
+    executedAt: traded.date,
+    datePrecision: traded.hasTime ? DatePrecision.MILLISECOND : DatePrecision.DAILY,
+    currency: transactionCurrency(detail, context),
+    commission: Math.abs(toNumber(text(detail, 'COMMISSION'))),
+    fees: Math.round(['FEES', 'TAXES', 'LOAD'].reduce((sum, name) => sum + Math.abs(toNumber(text(detail, name))), 0) * 100) / 100,
+    contract: security.contract,
+    attributes: flatten(transaction),
+  });
+}
+
+function readCashActivity(
+  transaction: OfxElement,
+  activityType: CashActivityType,
+  amount: number,
+  label: string,
+  context: OfxStatementContext,
+  result: OfxParseResult
+): void {
+  const fitId = text(transaction, 'INVTRAN.FITID') ?? text(transaction, 'STMTTRN.FITID');
+  const occurred = parseOfxDate(
+    text(transaction, 'INVTRAN.DTTRADE') ?? text(transaction, 'STMTTRN.DTPOSTED') ?? text(transaction, 'INVTRAN.DTSETTLE')
+  );
+
+  if (!fitId || !occurred) {
+    result.errors.push(`${transaction.name}: missing transaction id or date`);
+    return;
+  }
+
+  const security = context.securities.get(securityKey(child(transaction, 'SECID')) ?? '');
+  const memo = text(transaction, 'INVTRAN.MEMO') ?? text(transaction, 'STMTTRN.MEMO') ?? text(transaction, 'STMTTRN.NAME');
+
+  result.cashActivities.push({
+    externalId: `${context.accountId ?? ''}:${fitId}`,
+    accountId: context.accountId,
+    activityType,
+    amount: signCashAmount(activityType, amount),
+    currency: transactionCurrency(transaction, context),
+    symbol: security?.contract?.underlyingSymbol ?? security?.symbol,
+    description: memo || [label, security?.name].filter(Boolean).join(' - '),
+    occurredAt: occurred.date,
+    attributes: flatten(transaction),
+  });
+}
+
+function readTransaction(transaction: OfxElement, context: OfxStatementContext, result: OfxParseResult): void {
+  if (BUY_TRANSACTIONS.includes(transaction.name)) {
+    readExecution(transaction, OrderSide.BUY, context, result);
+    return;
+  }
+  if (SELL_TRANSACTIONS.includes(transaction.name)) {
+    readExecution(transaction, OrderSide.SELL, context, result);
+    return;
+  }
+
+  switch (transaction.name) {
+    case 'INCOME': {
+      const income = INCOME_TYPES[text(transaction, 'INCOMETYPE')?.toUpperCase() ?? ''] ?? INCOME_TYPES.MISC;
+      readCashActivity(transaction, income.activityType, toNumber(text(transaction, 'TOTAL')), income.label, context, result);
+      return;
+    }
+    case 'REINVEST': {
+      // A reinvested distribution is income followed by a purchase of the same security
+      const income = INCOME_TYPES[text(transaction, 'INCOMETYPE')?.toUpperCase() ?? ''] ?? INCOME_TYPES.DIV;
+      readCashActivity(transaction, income.activityType, Math.abs(toNumber(text(transaction, 'TOTAL'))), `Reinvested ${income.label.toLowerCase()}`, context, result);
+      readExecution(transaction, OrderSide.BUY, context, result);
+      return;
+    }
+    case 'INVEXPENSE':
+      readCashActivity(transaction, CashActivityType.FEE, toNumber(text(transaction, 'TOTAL')), 'Fee', context, result);
+      return;
+    case 'MARGININTEREST':
+      readCashActivity(transaction, CashActivityType.MARGIN_INTEREST, toNumber(text(transaction, 'TOTAL')), 'Margin interest', context, result);
+      return;
+    case 'RETOFCAP':
+      readCashActivity(transaction, CashActivityType.OTHER, toNumber(text(transaction, 'TOTAL')), 'Return of capital', context, result);
+      return;
+    case 'INVBANKTRAN': {
+      const activityType = BANK_TRANSACTION_TYPES[text(transaction, 'STMTTRN.TRNTYPE')?.toUpperCase() ?? ''] ?? CashActivityType.OTHER;
+      readCashActivity(transaction, activityType, toNumber(text(transaction, 'STMTTRN.TRNAMT')), 'Cash transaction', context, result);
+      return;
+    }
+    case 'TRANSFER': {
+      // Share transfers (ACATS) are recorded at their value when the statement prices them
+      const value = Math.abs(toNumber(text(transaction, 'UNITS')) * toNumber(text(transaction, 'UNITPRICE')));
+      if (!value) {
+        result.skipped++;
+        return;
+      }
+      const direction = text(transaction, 'TFERACTION')?.toUpperCase() === 'OUT' ? -1 : 1;
+      readCashActivity(transaction, CashActivityType.TRANSFER, direction * value, `Transfer ${direction > 0 ? 'in' : 'out'}`, context, result);
+      return;
+    }
+    default:
+      result.skipped++;
+  }
+}
+
+/**
+ * Read the trades and cash activity of every investment statement in an OFX or QFX file
+ */
+export function parseOfx(content: string): OfxParseResult {
+  const root = parseOfxTree(content.replace(/^\uFEFF/, ''));
+  const result: OfxParseResult = { institution: institutionName(root), executions: [], cashActivities: [], skipped: 0, errors: [] };
+  const securities = readSecurityList(root);
+
+  for (const status of descendants(root, 'STATUS')) {
+    if (text(status, 'SEVERITY')?.toUpperCase() === 'ERROR') {
+      result.errors.push(`OFX error ${text(status, 'CODE') ?? ''}: ${text(status, 'MESSAGE') ?? 'statement request failed'}`);
+    }
+  }
+
+  for (const statement of descendants(root, 'INVSTMTRS')) {
+    const context: OfxStatementContext = {
+      accountId: text(statement, 'INVACCTFROM.ACCTID'),
+      currency: (text(statement, 'CURDEF') || 'USD').toUpperCase(),
+      securities,
+    };
+
+    for (const transaction of child(statement, 'INVTRANLIST')?.children ?? []) {
+      if (transaction.value === undefined) {
+        readTransaction(transaction, context, result);
+      }
+    }
+  }
+
+  return result;
+}
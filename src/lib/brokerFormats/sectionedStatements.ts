@@ -0,0 +1,118 @@
+/**
+ * Multi-section broker statements
+ *
+ * Each format maps the sections of one statement layout; sections not listed here (account
+ * summaries, performance, mark-to-market tables) are ignored. See csvSections for how files are
+ * split and how each section kind is read.
+ */
+
+import type { SectionedStatementFormat } from '@/lib/csvSections';
+
+const IBKR_CASH_COLUMNS = {
+  currency: ['Currency'],
+  date: ['Date', 'Settle Date', 'Report Date'],
+  description: ['Description'],
+  amount: ['Amount'],
+};
+
+export const IBKR_ACTIVITY_STATEMENT: SectionedStatementFormat = {
+  id: 'ibkr-activity-statement',
+  name: 'IBKR Activity Statement',
+  description: 'Interactive Brokers Activity Statement CSV with trades, dividends, withholding tax, fees, interest, transfers and open positions',
+  brokerName: 'Interactive Brokers',
+  detection: {
+    fileStartPattern: /^\uFEFF?"?Statement"?,"?Header"?,/,
+    sectionHeaders: ['Trades', 'Open Positions', 'Dividends', 'Withholding Tax', 'Fees', 'Interest', 'Deposits & Withdrawals'],
+  },
+  sections: {
+    'Trades': {
+      kind: 'trades',
+      columns: {
+        account: ['Account'],
+        assetCategory: ['Asset Category'],
+        currency: ['Currency'],
+        symbol: ['Symbol'],
+        dateTime: ['Date/Time', 'TradeDate'],
+        quantity: ['Quantity'],
+        price: ['T. Price', 'TradePrice'],
+        commission: ['Comm/Fee', 'Comm in USD', 'IBCommission'],
+        multiplier: ['Multiplier', 'Mult'],
+      },
+      // Statements run with execution details list each order and then its executions
+      rowLevel: { column: 'DataDiscriminator', preference: ['Trade', 'Order'] },
+    },
+    'Dividends': { kind: 'dividends', columns: IBKR_CASH_COLUMNS },
+    'Payment In Lieu Of Dividends': { kind: 'dividends', columns: IBKR_CASH_COLUMNS },
+    // Tax withheld from a dividend is booked against it
+    'Withholding Tax': { kind: 'dividends', columns: IBKR_CASH_COLUMNS },
+    'Fees': { kind: 'fees', columns: IBKR_CASH_COLUMNS },
+    'Interest': { kind: 'interest', columns: IBKR_CASH_COLUMNS },
+    'Deposits & Withdrawals': { kind: 'transfers', columns: IBKR_CASH_COLUMNS },
+    'Open Positions': {
+      kind: 'positions',
+      columns: {
+        assetCategory: ['Asset Category'],
+        symbol: ['Symbol'],
+        quantity: ['Quantity'],
+        multiplier: ['Mult', 'Multiplier'],
+      },
+      rowLevel: { column: 'DataDiscriminator', preference: ['Summary'] },
+    },
+  },
+};
+
+export const SCHWAB_ACCOUNT_STATEMENT: SectionedStatementFormat = {
+  id: 'schwab-account-statement',
+  name: 'Schwab / thinkorswim Account Statement',
+  description: 'Schwab and thinkorswim account statement CSV with trade history, cash balance and position blocks per account',
+  brokerName: 'Charles Schwab',
+  detection: {
+    fileStartPattern: /^(?:[^\n]*\n){0,3}?\W*(Account Statement for|Positions for account)\b/i,
+    sectionHeaders: ['Account Trade History', 'Cash Balance', 'Equities', 'Options', 'Positions'],
+  },
+  sections: {
+    'Account Trade History': {
+      kind: 'trades',
+      columns: {
+        dateTime: ['Exec Time'],
+        side: ['Side'],
+        quantity: ['Qty'],
+        symbol: ['Symbol'],
+        expiration: ['Exp'],
+        strike: ['Strike'],
+        optionType: ['Type'],
+        price: ['Price'],
+        orderType: ['Order Type'],
+      },
+      // Legs of a spread after the first leave the execution time and order type blank
+      fillDown: ['dateTime', 'orderType'],
+    },
+    'Cash Balance': {
+      kind: 'cash',
+      columns: {
+        date: ['Date'],
+        time: ['Time'],
+        description: ['Description'],
+        amount: ['Amount'],
+      },
+    },
+    'Equities': {
+      kind: 'positions',
+      columns: { symbol: ['Symbol'], quantity: ['Qty'] },
+    },
+    'Options': {
+      kind: 'positions',
+      columns: { symbol: ['Symbol'], expiration: ['Exp'], strike: ['Strike'], optionType: ['Type'], quantity: ['Qty'] },
+    },
+    // Schwab positions export, one block per account
+    'Positions': {
+      kind: 'positions',
+      columns: { symbol: ['Symbol'], quantity: ['Quantity', 'Qty (Quantity)'], assetCategory: ['Security Type'] },
+    },
+  },
+};
+
+export const SECTIONED_STATEMENT_FORMATS: SectionedStatementFormat[] = [
+  IBKR_ACTIVITY_STATEMENT,
+  SCHWAB_ACCOUNT_STATEMENT,
+];
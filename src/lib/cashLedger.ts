@@ -0,0 +1,209 @@
+/**
+ * Cash ledger
+ *
+ * Money that moves in or out of an account without being a trade: deposits, withdrawals and
+ * transfers, and the dividends, interest and fees the account earns or pays. SnapTrade reports
+ * them as activity types; CSV exports have them as rows with an action such as "Qualified Dividend"
+ * or "Margin Interest". Both end up as CashActivity rows, which the ledger lists and the account
+ * equity curve adds to trading P&L.
+ */
+
+import { CashActivityType } from '@prisma/client';
+import { format } from 'date-fns';
+
+export const CASH_ACTIVITY_LABELS: Record<CashActivityType, string> = {
+  DEPOSIT: 'Deposit',
+  WITHDRAWAL: 'Withdrawal',
+  TRANSFER: 'Transfer',
+  DIVIDEND: 'Dividend',
+  INTEREST: 'Interest',
+  FEE: 'Fee',
+  BORROW_FEE: 'Borrow fee',
+  MARGIN_INTEREST: 'Margin interest',
+  OTHER: 'Other',
+};
+
+// Money put into or taken out of the account, as opposed to what the account earned or paid
+export const EXTERNAL_FLOW_TYPES: CashActivityType[] = [
+  CashActivityType.DEPOSIT,
+  CashActivityType.WITHDRAWAL,
+  CashActivityType.TRANSFER,
+];
+
+// Types that always take cash out, whatever sign the broker reports them with
+const OUTFLOW_TYPES: CashActivityType[] = [
+  CashActivityType.WITHDRAWAL,
+  CashActivityType.FEE,
+  CashActivityType.BORROW_FEE,
+  CashActivityType.MARGIN_INTEREST,
+];
+
+// SnapTrade activity types recorded in the ledger (trades, splits and reinvestments are not)
+export const SNAPTRADE_CASH_TYPES: Record<string, CashActivityType> = {
+  CONTRIBUTION: CashActivityType.DEPOSIT,
+  DEPOSIT: CashActivityType.DEPOSIT,
+  WITHDRAWAL: CashActivityType.WITHDRAWAL,
+  TRANSFER: CashActivityType.TRANSFER,
+  DIVIDEND: CashActivityType.DIVIDEND,
+  INTEREST: CashActivityType.INTEREST,
+  FEE: CashActivityType.FEE,
+};
+
+// Broker descriptions of cash rows, most specific first
+const CASH_KEYWORDS: [RegExp, CashActivityType][] = [
+  [/borrow|hard[\s-]to[\s-]borrow|\bhtb\b|stock loan/i, CashActivityType.BORROW_FEE],
+  [/margin interest|debit interest/i, CashActivityType.MARGIN_INTEREST],
+  [/dividend|\bdiv\b|cap(ital)? gains? (dist|distribution)|payment in lieu/i, CashActivityType.DIVIDEND],
+  [/interest|\bint\b/i, CashActivityType.INTEREST],
+  [/acats?\b|journal|transfer/i, CashActivityType.TRANSFER],
+  [/deposit|contribution|wire (in|funds received)|\bach in\b|funds received/i, CashActivityType.DEPOSIT],
+  [/withdraw|disbursement|wire out|\bach out\b|funds paid/i, CashActivityType.WITHDRAWAL],
+  [/\bfees?\b|charge/i, CashActivityType.FEE],
+];
+
+// Actions that describe a trade rather than a cash movement
+const TRADE_ACTION_PATTERN = /\b(buy|sell|bought|sold|short(?![\s-]term)|cover|bto|sto|btc|stc|assign(ed|ment)?|exercised?|expir(ed|ation)|reinvest shares)\b/i;
+
+// CSV headers of the columns cash rows are read from
+const ACTION_HEADER = /^(action|type|activity( type)?|transaction( type)?|trans(action)? code|entry type)$/i;
+const DESCRIPTION_HEADER = /^(description|memo|details)$/i;
+const AMOUNT_HEADER = /^(amount|net amount|net cash|cash amount|total|net|credit\/debit|amount \(\w+\))$/i;
+const DATE_HEADER = /^(date|run date|trade date|activity date|transaction date|posted date|settle(ment)? date)$/i;
+const SYMBOL_HEADER = /^(symbol|ticker)$/i;
+const ACCOUNT_HEADER = /^(account|account (number|id|#))$/i;
+const CURRENCY_HEADER = /^currency$/i;
+
+export interface DetectedCashRow {
+  activityType: CashActivityType;
+  amount: number; // Signed
+  occurredAt: Date;
+  description: string;
+  symbol?: string;
+  currency?: string;
+  externalAccountId?: string;
+}
+
+// CSV headers an import maps to the order's side, quantity and price
+export interface TradeColumns {
+  side?: string;
+  quantity?: string;
+  price?: string;
+}
+
+export interface AccountEquityPoint {
+  date: string;
+  tradingPnl: number; // Cumulative trading P&L
+  cashFlows: number; // Cumulative deposits, withdrawals, transfers, dividends, interest and fees
+  equity: number; // Starting balance plus both
+}
+
+/**
+ * The cash activity type a broker description stands for, or null when it is not a cash movement
+ */
+export function classifyCashActivity(text: string | null | undefined): CashActivityType | null {
+  if (!text || TRADE_ACTION_PATTERN.test(text)) return null;
+  return CASH_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+/**
+ * Give an amount the sign of its effect on cash
+ * Fees, withdrawals and financing charges always reduce cash; other types keep the broker's sign,
+ * so a dividend charged in lieu on a short position stays negative.
+ */
+export function signCashAmount(activityType: CashActivityType, amount: number): number {
+  return OUTFLOW_TYPES.includes(activityType) ? -Math.abs(amount) : amount;
+}
+
+/**
+ * Parse a money value as exported by brokers: "$1,234.56", "-12.50" or "(12.50)"
+ */
+export function parseCashAmount(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+  const digits = trimmed.replace(/[^0-9.]/g, '');
+  if (!digits) return null;
+
+  const amount = parseFloat(digits);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+/**
+ * Read a CSV row as a cash movement, or null when it is a trade or has no amount and date
+ * A quantity or price in the import's trade columns makes the row a trade. The mapped side, or else
+ * the action column, decides the type; the description is used only when the row has neither.
+ */
+export function detectCashRow(row: Record<string, unknown>, tradeColumns: TradeColumns = {}): DetectedCashRow | null {
+  const headers = Object.keys(row);
+  const hasValue = (header: string) => row[header] !== undefined && row[header] !== null && String(row[header]).trim() !== '';
+  const valueOf = (pattern: RegExp) => {
+    const header = headers.find(h => pattern.test(h.trim()) && hasValue(h));
+    return header ? String(row[header]).trim() : undefined;
+  };
+
+  const traded = [tradeColumns.quantity, tradeColumns.price].some(header => header && hasValue(header) && parseCashAmount(row[header]));
+  if (traded) return null;
+
+  const side = tradeColumns.side && hasValue(tradeColumns.side) ? String(row[tradeColumns.side]).trim() : undefined;
+  const action = side ?? valueOf(ACTION_HEADER);
+  const description = valueOf(DESCRIPTION_HEADER);
+  const activityType = classifyCashActivity(action ?? description);
+  if (!activityType) return null;
+
+  const amount = parseCashAmount(valueOf(AMOUNT_HEADER));
+  const dateValue = valueOf(DATE_HEADER);
+  const occurredAt = dateValue ? new Date(dateValue.split(/\s+as of\s+/i)[0]) : null;
+  if (amount === null || amount === 0 || !occurredAt || isNaN(occurredAt.getTime())) return null;
+
+  return {
+    activityType,
+    amount: signCashAmount(activityType, amount),
+    occurredAt,
+    description: [action, description].filter(Boolean).join(' - '),
+    symbol: valueOf(SYMBOL_HEADER)?.toUpperCase(),
+    currency: valueOf(CURRENCY_HEADER)?.toUpperCase(),
+    externalAccountId: valueOf(ACCOUNT_HEADER),
+  };
+}
+
+/**
+ * Account equity by day: starting balance, cumulative trading P&L and cumulative cash flows
+ * Trades count on their exit date like the cumulative P&L chart.
+ */
+export function calculateAccountEquity(
+  trades: { date: Date; exitDate?: Date | null; pnl: unknown }[],
+  cashActivities: { occurredAt: Date; amount: unknown }[],
+  startingBalance = 0
+): AccountEquityPoint[] {
+  const days = new Map<string, { pnl: number; cash: number }>();
+  const dayOf = (key: string) => {
+    const day = days.get(key) ?? { pnl: 0, cash: 0 };
+    days.set(key, day);
+    return day;
+  };
+
+  for (const trade of trades) {
+    dayOf(format(trade.exitDate || trade.date, 'yyyy-MM-dd')).pnl += Number(trade.pnl);
+  }
+  for (const activity of cashActivities) {
+    dayOf(format(activity.occurredAt, 'yyyy-MM-dd')).cash += Number(activity.amount);
+  }
+
+  let tradingPnl = 0;
+  let cashFlows = 0;
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => {
+      tradingPnl += day.pnl;
+      cashFlows += day.cash;
+      return {
+        date,
+        tradingPnl: parseFloat(tradingPnl.toFixed(2)),
+        cashFlows: parseFloat(cashFlows.toFixed(2)),
+        equity: parseFloat((startingBalance + tradingPnl + cashFlows).toFixed(2)),
+      };
+    });
+}
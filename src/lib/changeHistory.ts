@@ -0,0 +1,116 @@
+/**
+ * Change history
+ *
+ * Edits to trades, a day's records notes (stored on its BLANK trade) and hand-entered orders are
+ * recorded field by field with the value before and after, so the records page can list them and
+ * any one can be reverted. Reverting is itself recorded, so a revert can be undone the same way.
+ */
+
+import { ChangeEntityType } from '@prisma/client';
+
+export type ChangeValue = string | number | boolean | string[] | null;
+
+export interface FieldChange {
+  field: string;
+  oldValue: ChangeValue;
+  newValue: ChangeValue;
+}
+
+// What made a change
+export const CHANGE_SOURCES = {
+  NOTES: 'notes',
+  MERGE: 'merge',
+  SPLIT: 'split',
+  MOVE: 'move',
+  LOCK: 'lock',
+  MANUAL_EXECUTION: 'manual_execution',
+  DELETE: 'delete', // A manual execution deleted; its fields are recorded as cleared
+  REVERT: 'revert',
+} as const;
+
+export type ChangeSource = typeof CHANGE_SOURCES[keyof typeof CHANGE_SOURCES];
+
+// Fields whose edits are recorded and can be reverted, with their labels in the history panel.
+// Order fields are the fields of a manual execution (see ManualExecution).
+export const TRACKED_FIELDS: Record<ChangeEntityType, Record<string, string>> = {
+  TRADE: { notes: 'Notes', tags: 'Tags', isLocked: 'Locked' },
+  RECORDS_ENTRY: { notes: 'Notes' },
+  ORDER: {
+    executedAt: 'Executed at',
+    symbol: 'Symbol',
+    side: 'Side',
+    quantity: 'Quantity',
+    price: 'Price',
+    commission: 'Commission',
+    fees: 'Fees',
+    accountId: 'Account',
+  },
+};
+
+// Notes are autosaved while typing, so saves this close together are kept as one change
+export const NOTES_COALESCE_WINDOW_MS = 5 * 60 * 1000;
+
+// A change as listed in the history panel
+export interface ChangeHistoryEntry {
+  id: string;
+  entityType: ChangeEntityType;
+  entityId: string;
+  entityLabel: string; // e.g. "AAPL trade" or "Day notes"
+  field: string;
+  fieldLabel: string;
+  oldValue: ChangeValue;
+  newValue: ChangeValue;
+  source: string;
+  revertOfId: string | null;
+  createdAt: string;
+}
+
+/**
+ * Store a field value in a comparable form: dates as ISO strings, decimals as numbers and
+ * empty strings as null
+ */
+export function toChangeValue(value: unknown): ChangeValue {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (typeof value === 'object' && 'toNumber' in value && typeof value.toNumber === 'function') {
+    return value.toNumber() as number;
+  }
+  return String(value);
+}
+
+/**
+ * Tracked fields that differ between two versions of an entity
+ * Only fields present in `after` are compared, so partial updates can be passed as they are.
+ */
+export function diffFields(
+  entityType: ChangeEntityType,
+  before: object,
+  after: object
+): FieldChange[] {
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+
+  return Object.keys(TRACKED_FIELDS[entityType])
+    .filter(field => field in next)
+    .map(field => ({ field, oldValue: toChangeValue(previous[field]), newValue: toChangeValue(next[field]) }))
+    .filter(change => JSON.stringify(change.oldValue) !== JSON.stringify(change.newValue));
+}
+
+/**
+ * Whether a recorded change can be put back
+ */
+export function isRevertible(entityType: ChangeEntityType, field: string): boolean {
+  return field in TRACKED_FIELDS[entityType];
+}
+
+/**
+ * Show a recorded value in the history panel
+ */
+export function formatChangeValue(value: ChangeValue): string {
+  if (value === null) return '(empty)';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(none)';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
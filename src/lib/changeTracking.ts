@@ -0,0 +1,223 @@
+/**
+ * Recording and reverting edits
+ *
+ * Server side of the change history (see changeHistory.ts): edits to hand-entered executions go
+ * through here so their trades are rebuilt and the change is recorded, the records page history is
+ * assembled here, and any recorded change can be reverted.
+ */
+
+import { ChangeEntityType, Trade, TradeStatus } from '@prisma/client';
+import { changeHistoryRepo } from './repositories/changeHistoryRepo';
+import { ordersRepo } from './repositories/ordersRepo';
+import { tradesRepo } from './repositories/tradesRepo';
+import { rebuildTradesAfterOrderChange } from './tradeBuilder';
+import {
+  ChangeHistoryEntry,
+  ChangeSource,
+  ChangeValue,
+  CHANGE_SOURCES,
+  isRevertible,
+  TRACKED_FIELDS
+} from './changeHistory';
+import { ManualExecution } from './manualExecutions';
+import { manualExecutionSchema, ManualExecutionInput } from './schemas/manualExecutions';
+
+/**
+ * An edit or revert that cannot be made; status is the HTTP status to answer with
+ */
+export class ChangeHistoryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ChangeHistoryError';
+  }
+}
+
+/**
+ * The entity type a trade's edits are recorded under; a BLANK trade holds a day's records notes
+ */
+export function getTradeEntityType(trade: Pick<Trade, 'status'>): ChangeEntityType {
+  return trade.status === TradeStatus.BLANK ? ChangeEntityType.RECORDS_ENTRY : ChangeEntityType.TRADE;
+}
+
+/**
+ * Replace the details of a hand-entered execution, rebuild its trades and record what changed
+ * Returns the number of trades rebuilt.
+ */
+export async function editManualExecution(
+  userId: string,
+  orderId: string,
+  execution: ManualExecutionInput,
+  source: ChangeSource = CHANGE_SOURCES.MANUAL_EXECUTION,
+  revertOfId?: string
+): Promise<number> {
+  const before = await ordersRepo.getManualExecution(userId, orderId);
+  if (!before) {
+    throw new ChangeHistoryError('Manual execution not found', 404);
+  }
+
+  // Locked trades are never rebuilt, so their executions can only change once unlocked
+  if ((await tradesRepo.getLockedTradeIds(userId, before.tradeIds)).length > 0) {
+    throw new ChangeHistoryError('This execution is in a locked trade; unlock the trade to change it', 409);
+  }
+
+  const updated = await rebuildTradesAfterOrderChange(
+    userId,
+    before.tradeIds,
+    () => ordersRepo.updateManualOrder(userId, orderId, execution)
+  );
+  if (!updated) {
+    throw new ChangeHistoryError('Manual execution not found', 404);
+  }
+
+  const after = await ordersRepo.getManualExecution(userId, orderId);
+  if (after) {
+    await changeHistoryRepo.recordChanges(userId, userId, ChangeEntityType.ORDER, orderId, before, after, source, revertOfId);
+  }
+  return before.tradeIds.length;
+}
+
+/**
+ * Delete a hand-entered execution, rebuild the trades it was part of and record what it held
+ * Every field it had is recorded as cleared, so the history keeps a snapshot of the execution.
+ * Returns the number of trades rebuilt.
+ */
+export async function deleteManualExecution(userId: string, orderId: string): Promise<number> {
+  const before = await ordersRepo.getManualExecution(userId, orderId);
+  if (!before) {
+    throw new ChangeHistoryError('Manual execution not found', 404);
+  }
+
+  // Locked trades are never rebuilt, so their executions can only change once unlocked
+  if ((await tradesRepo.getLockedTradeIds(userId, before.tradeIds)).length > 0) {
+    throw new ChangeHistoryError('This execution is in a locked trade; unlock the trade to change it', 409);
+  }
+
+  const deleted = await rebuildTradesAfterOrderChange(
+    userId,
+    before.tradeIds,
+    () => ordersRepo.deleteManualOrder(userId, orderId)
+  );
+  if (!deleted) {
+    throw new ChangeHistoryError('Manual execution not found', 404);
+  }
+
+  const cleared = Object.fromEntries(Object.keys(TRACKED_FIELDS.ORDER).map(field => [field, null]));
+  await changeHistoryRepo.recordChanges(userId, userId, ChangeEntityType.ORDER, orderId, before, cleared, CHANGE_SOURCES.DELETE);
+  return before.tradeIds.length;
+}
+
+/**
+ * Put a field back to the value it had before a recorded change
+ * The revert is recorded as a change of its own. Returns the number of fields changed.
+ */
+export async function revertChange(userId: string, changeId: string): Promise<number> {
+  const change = await changeHistoryRepo.getChange(userId, changeId);
+  if (!change) {
+    throw new ChangeHistoryError('Change not found', 404);
+  }
+  if (!isRevertible(change.entityType, change.field)) {
+    throw new ChangeHistoryError('This change cannot be reverted');
+  }
+
+  const value = (change.oldValue ?? null) as ChangeValue;
+
+  if (change.entityType === ChangeEntityType.ORDER) {
+    const current = await ordersRepo.getManualExecution(userId, change.entityId);
+    if (!current) {
+      throw new ChangeHistoryError('The execution no longer exists', 404);
+    }
+
+    const validationResult = manualExecutionSchema.safeParse({
+      ...toManualExecutionInput(current),
+      [change.field]: value ?? undefined,
+    });
+    if (!validationResult.success) {
+      throw new ChangeHistoryError(`The earlier ${TRACKED_FIELDS.ORDER[change.field].toLowerCase()} is no longer valid`);
+    }
+
+    await editManualExecution(userId, change.entityId, validationResult.data, CHANGE_SOURCES.REVERT, change.id);
+    return 1;
+  }
+
+  if (change.field === 'isLocked') {
+    const trade = await tradesRepo.getTradeById(userId, change.entityId);
+    if (!trade || !await tradesRepo.setTradeLocked(userId, trade.id, value === true)) {
+      throw new ChangeHistoryError('The trade no longer exists', 404);
+    }
+    return await changeHistoryRepo.recordChanges(
+      userId, userId, change.entityType, trade.id, trade, { isLocked: value === true }, CHANGE_SOURCES.REVERT, change.id
+    );
+  }
+
+  const annotations = change.field === 'tags'
+    ? { tags: Array.isArray(value) ? value : [] }
+    : { notes: typeof value === 'string' ? value : null };
+  const before = await tradesRepo.updateAnnotations(userId, change.entityId, annotations);
+  if (!before) {
+    throw new ChangeHistoryError('The trade no longer exists', 404);
+  }
+
+  return await changeHistoryRepo.recordChanges(
+    userId, userId, change.entityType, before.id, before, annotations, CHANGE_SOURCES.REVERT, change.id
+  );
+}
+
+/**
+ * Changes shown on the records page: a single trade and its executions, or every trade of a day
+ * with the day's notes
+ */
+export async function getRecordsHistory(
+  userId: string,
+  date: Date,
+  tradeId?: string,
+  limit = 100
+): Promise<ChangeHistoryEntry[]> {
+  const trades = tradeId
+    ? [await tradesRepo.getTradeById(userId, tradeId)].filter((trade): trade is Trade => !!trade)
+    : await tradesRepo.getTradesForRecordsDate(userId, date);
+
+  // Split executions are recorded under the order as entered
+  const orders = await ordersRepo.getOrdersByIds(trades.flatMap(trade => trade.ordersInTrade));
+  const orderSymbols = new Map<string, string>();
+  for (const order of orders) {
+    orderSymbols.set(order.splitFromOrderId ?? order.id, order.symbol);
+  }
+
+  const changes = await changeHistoryRepo.getHistory(userId, [
+    { entityType: ChangeEntityType.TRADE, entityIds: trades.filter(trade => trade.status !== TradeStatus.BLANK).map(trade => trade.id) },
+    { entityType: ChangeEntityType.RECORDS_ENTRY, entityIds: trades.filter(trade => trade.status === TradeStatus.BLANK).map(trade => trade.id) },
+    { entityType: ChangeEntityType.ORDER, entityIds: Array.from(orderSymbols.keys()) },
+  ], limit);
+
+  const tradeSymbols = new Map(trades.map(trade => [trade.id, trade.symbol]));
+  return changes.map(change => ({
+    id: change.id,
+    entityType: change.entityType,
+    entityId: change.entityId,
+    entityLabel: change.entityType === ChangeEntityType.RECORDS_ENTRY
+      ? 'Day notes'
+      : change.entityType === ChangeEntityType.ORDER
+        ? `${orderSymbols.get(change.entityId) ?? ''} execution`.trim()
+        : `${tradeSymbols.get(change.entityId) ?? ''} trade`.trim(),
+    field: change.field,
+    fieldLabel: TRACKED_FIELDS[change.entityType][change.field] ?? change.field,
+    oldValue: (change.oldValue ?? null) as ChangeValue,
+    newValue: (change.newValue ?? null) as ChangeValue,
+    source: change.source,
+    revertOfId: change.revertOfId,
+    createdAt: change.createdAt.toISOString(),
+  }));
+}
+
+function toManualExecutionInput(execution: ManualExecution): ManualExecutionInput {
+  return {
+    executedAt: execution.executedAt,
+    symbol: execution.symbol,
+    side: execution.side,
+    quantity: execution.quantity,
+    price: execution.price,
+    commission: execution.commission ?? undefined,
+    fees: execution.fees ?? undefined,
+    accountId: execution.accountId,
+  };
+}
@@ -24,6 +24,34 @@ export const ORDER_FIELDS = [
     category: 'Instrument',
     required: true
   },
+  {
+    value: 'optionType',
+    label: 'Option Type',
+    description: 'CALL or PUT (options only)',
+    category: 'Instrument',
+    required: false
+  },
+  {
+    value: 'strikePrice',
+    label: 'Strike Price',
+    description: 'Option strike price (options only)',
+    category: 'Instrument',
+    required: false
+  },
+  {
+    value: 'expirationDate',
+    label: 'Expiration Date',
+    description: 'Option expiration date (options only)',
+    category: 'Instrument',
+    required: false
+  },
+  {
+    value: 'contractMultiplier',
+    label: 'Contract Multiplier',
+    description: 'Dollar value per point per contract (100 for standard options)',
+    category: 'Instrument',
+    required: false
+  },
 
   // Order specifications
   {
@@ -0,0 +1,104 @@
+/**
+ * Corporate actions: splits, reverse splits and ticker changes
+ *
+ * Orders executed before an action are restated onto the post-action basis (new symbol, quantity
+ * scaled by the split ratio, price scaled inversely), so a position held across the action lines up
+ * with the orders that close it. Cost basis and P&L are unchanged by the restatement.
+ */
+
+import { CorporateAction, CorporateActionType } from '@prisma/client';
+import { roundQuantity } from './precision';
+
+export interface CorporateActionTerms {
+  symbol: string;
+  actionType: CorporateActionType;
+  effectiveDate: Date;
+  ratioFrom: number | null;
+  ratioTo: number | null;
+  newSymbol: string | null;
+}
+
+export interface RestatedOrderValues {
+  symbol: string;
+  orderQuantity: number;
+  limitPrice: number | null;
+  stopPrice: number | null;
+}
+
+// The effective date is the first session on the new basis. 05:00 UTC falls after the previous
+// day's after-hours close and before pre-market opens in New York, in both standard and daylight time.
+const EFFECTIVE_HOUR_UTC = 5;
+
+/**
+ * Instant from which executions are already on the post-action basis
+ */
+export function getEffectiveTime(effectiveDate: Date): Date {
+  const effectiveTime = new Date(effectiveDate);
+  effectiveTime.setUTCHours(EFFECTIVE_HOUR_UTC, 0, 0, 0);
+  return effectiveTime;
+}
+
+/**
+ * Terms of a stored corporate action
+ */
+export function toCorporateActionTerms(action: CorporateAction): CorporateActionTerms {
+  return {
+    symbol: action.symbol,
+    actionType: action.actionType,
+    effectiveDate: action.effectiveDate,
+    ratioFrom: action.ratioFrom !== null ? Number(action.ratioFrom) : null,
+    ratioTo: action.ratioTo !== null ? Number(action.ratioTo) : null,
+    newSymbol: action.newSymbol,
+  };
+}
+
+/**
+ * New shares per old share (10 for a 10:1 split, 0.1 for a 1:10 reverse split)
+ * Ticker changes and incomplete ratios leave quantities untouched
+ */
+export function getSplitFactor(action: CorporateActionTerms): number {
+  if (action.actionType === CorporateActionType.SYMBOL_CHANGE) return 1;
+  if (!action.ratioFrom || !action.ratioTo) return 1;
+  return action.ratioTo / action.ratioFrom;
+}
+
+/**
+ * Restate an order executed before the action onto the post-action basis
+ */
+export function restateOrder(order: RestatedOrderValues, action: CorporateActionTerms): RestatedOrderValues {
+  const factor = getSplitFactor(action);
+  const restatePrice = (price: number | null) =>
+    price === null ? null : Math.round((price / factor) * 1e8) / 1e8;
+
+  return {
+    symbol: action.actionType === CorporateActionType.SYMBOL_CHANGE && action.newSymbol
+      ? action.newSymbol
+      : order.symbol,
+    orderQuantity: roundQuantity(order.orderQuantity * factor),
+    limitPrice: restatePrice(order.limitPrice),
+    stopPrice: restatePrice(order.stopPrice),
+  };
+}
+
+/**
+ * Read a split ratio from a broker description such as "2 for 1 split" or "1:10 reverse split"
+ * Returns old shares (from) and new shares (to); the larger number is the new side of a forward split
+ */
+export function parseSplitRatio(
+  description: string | null | undefined,
+  actionType: CorporateActionType
+): { ratioFrom: number; ratioTo: number } | null {
+  const match = description?.match(/(\d+(?:\.\d+)?)\s*(?:-\s*for\s*-|for|:|\/)\s*(\d+(?:\.\d+)?)/i);
+  if (!match) return null;
+
+  const first = parseFloat(match[1]);
+  const second = parseFloat(match[2]);
+  if (!first || !second || first === second) return null;
+
+  // Brokers write both "1 for 10" and "10 for 1" for the same reverse split, so order by action type
+  const larger = Math.max(first, second);
+  const smaller = Math.min(first, second);
+  return actionType === CorporateActionType.REVERSE_SPLIT
+    ? { ratioFrom: larger, ratioTo: smaller }
+    : { ratioFrom: smaller, ratioTo: larger };
+}
@@ -43,6 +43,7 @@ export const TRADE_VOYAGER_FIELDS = {
   // Core identification
   tradeId: { required: false, type: 'string', description: 'Unique trade/execution ID' },
   orderId: { required: false, type: 'string', description: 'Parent order ID' },
+  parentOrderId: { required: false, type: 'string', description: 'Parent order ID of a multi-leg or bracket order' },
   symbol: { required: true, type: 'string', description: 'Stock ticker symbol' },
   
   // Basic trade info
@@ -62,6 +63,7 @@ export const TRADE_VOYAGER_FIELDS = {
   
   // Account & metadata
   account: { required: false, type: 'string', description: 'Account identifier' },
+  accountId: { required: false, type: 'string', description: 'Broker account identifier' },
   accountNumber: { required: false, type: 'string', description: 'Account number' },
   orderAccount: { required: false, type: 'string', description: 'Order account identifier' },
   orderRoute: { required: false, type: 'string', description: 'Order routing venue' },
@@ -71,6 +73,7 @@ export const TRADE_VOYAGER_FIELDS = {
   orderType: { required: false, type: 'string', description: 'Market/Limit/Stop/etc' },
   orderQuantity: { required: false, type: 'number', description: 'Total order quantity' },
   limitPrice: { required: false, type: 'number', description: 'Order limit price' },
+  stopPrice: { required: false, type: 'number', description: 'Order stop (trigger) price' },
   orderPlaceTime: { required: false, type: 'date', description: 'Order placement timestamp' },
   orderPlacedTime: { required: false, type: 'date', description: 'Order placed timestamp' },
   orderExecutedTime: { required: false, type: 'date', description: 'Order executed timestamp' },
@@ -86,6 +89,7 @@ export const TRADE_VOYAGER_FIELDS = {
   expirationDate: { required: false, type: 'string', description: 'Option expiration date' },
   strikePrice: { required: false, type: 'number', description: 'Option strike price' },
   optionType: { required: false, type: 'string', description: 'Option type (CALL/PUT)' },
+  contractMultiplier: { required: false, type: 'number', description: 'Contract multiplier (100 for standard options)' },
   
   // P&L and performance
   realizedPnL: { required: false, type: 'number', description: 'Realized profit/loss' },
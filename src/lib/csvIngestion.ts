@@ -1,6 +1,6 @@
 import { parse } from 'csv-parse/sync';
 import { prisma } from '@/lib/prisma';
-import { BrokerType, OrderType, TimeInForce, OrderStatus, Prisma } from '@prisma/client';
+import { BrokerType, CorporateActionType, DatePrecision, ImportBatch, ImportSource, ImportTemplate, Order, OrderType, TimeInForce, OrderStatus, OptionRight, Prisma, TradeSide, TradeStatus } from '@prisma/client';
 import {
   StandardCsvRowSchema,
   normalizeStandardCsvRow,
@@ -19,9 +19,36 @@ import {
 } from '@/lib/csvFormatRegistry';
 import { BrokerFormatService, type FormatDetectionResult } from '@/lib/brokerFormatService';
 import { OpenAiMappingService, type OpenAiMappingResult } from '@/lib/ai/openAiMappingService';
-import { TradeBuilder } from '@/lib/tradeBuilder';
+import { knownFields } from '@/lib/ai/headerMatcher';
+import { processUserOrders, TradeBuilder } from '@/lib/tradeBuilder';
+import { TradeSandbox, toSandboxOrder } from '@/lib/tradeSandbox';
 import { OrderStagingService } from '@/lib/services/OrderStagingService';
+import {
+  parseOptionSymbol,
+  formatOccSymbol,
+  normalizeOptionRight,
+  STANDARD_OPTION_MULTIPLIER
+} from '@/lib/optionSymbols';
+import { parseFuturesSymbol, isFuturesContractSymbol } from '@/lib/futuresContracts';
+import { parseQuantity, toQuantity } from '@/lib/precision';
+import { calculateNetPnl } from '@/lib/tradeFees';
 import { createHash } from 'crypto';
+import { normalizeCurrency } from '@/lib/currency';
+import { detectCashRow, type TradeColumns } from '@/lib/cashLedger';
+import { cashActivitiesRepo, type CreateCashActivityData } from '@/lib/repositories/cashActivitiesRepo';
+import { ordersRepo } from '@/lib/repositories/ordersRepo';
+import { tradesRepo } from '@/lib/repositories/tradesRepo';
+import { tradeLotsRepo } from '@/lib/repositories/tradeLotsRepo';
+import { accountsRepo } from '@/lib/repositories/accountsRepo';
+import { corporateActionsRepo } from '@/lib/repositories/corporateActionsRepo';
+import { isIbkrFlexXml, parseIbkrFlexXml } from '@/lib/brokerFormats/ibkrFlexXml';
+import { isOfxFile, parseOfx } from '@/lib/brokerFormats/ofx';
+import { isFixLog, parseFixExecutionReports } from '@/lib/brokerFormats/fixExecutionReports';
+import { detectSectionedFormat, mapSectionedStatement, reconcilePositions, splitCsvSections } from '@/lib/csvSections';
+import { SECTIONED_STATEMENT_FORMATS } from '@/lib/brokerFormats/sectionedStatements';
+import { buildImportPreview, ImportPreviewMismatchError, toPreviewTrades, type ImportPreview } from '@/lib/importPreview';
+import { applyTemplateTransformer, normalizeTemplateDates, type TemplateDateOptions } from '@/lib/importTemplates';
+import { importTemplatesRepo } from '@/lib/repositories/importTemplatesRepo';
 
 export type CustomCsvRow = Record<string, string>;
 
@@ -32,6 +59,14 @@ export const FILE_SIZE_LIMITS = {
   MAX: 100 * 1024 * 1024,    // 100MB - absolute maximum
 } as const;
 
+// File extensions the upload accepts: CSV, Excel workbooks (converted to CSV), plus broker exports read by a dedicated parser
+export const SUPPORTED_UPLOAD_EXTENSIONS = ['.csv', '.xlsx', '.xml', '.ofx', '.qfx', '.log', '.txt', '.fix'] as const;
+
+export function isSupportedUploadFile(fileName: string): boolean {
+  const name = fileName.toLowerCase();
+  return SUPPORTED_UPLOAD_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
 // CSV ingestion result
 export interface CsvIngestionResult {
   success: boolean;
@@ -41,6 +76,9 @@ export interface CsvIngestionResult {
   successCount: number;
   errorCount: number;
   duplicateCount?: number; // Number of orders skipped as duplicates
+  cashActivityCount?: number; // Rows recorded in the cash ledger instead of as orders
+  positionWarnings?: string[]; // Statement open positions that differ from the journal's open trades
+  preview?: ImportPreview; // What the import would change; set on previews
   errors: string[];
   duplicateMessages?: string[]; // Details about skipped duplicates
   aiMappingResult?: AiMappingResult;
@@ -49,6 +87,7 @@ export interface CsvIngestionResult {
   requiresBrokerSelection: boolean;
   backgroundJobId?: string;
   brokerFormatUsed?: string; // Name of broker format that was used
+  importTemplateUsed?: string; // Name and version of the user's import template that was used
   aiIngestCheckId?: string; // ID of AI ingestion check for user review
   orderIds?: string[]; // IDs of created orders for AiIngestToCheck tracking
   staged?: boolean; // True if orders were staged instead of created
@@ -63,6 +102,18 @@ export interface CsvIngestionResult {
   sessionAttempt?: number; // Current attempt number for this session
 }
 
+export interface IngestOptions {
+  preview?: boolean; // Report what the import would change without writing anything
+  previewToken?: string; // Import only if previewing again reproduces the preview with this token
+}
+
+// What a preview run records instead of writing
+interface PreviewRun {
+  orders: Order[];
+  calculatesTrades: boolean; // The import would rebuild trades
+  skipped: boolean; // The import needs AI mapping or approval, so it is not previewed
+}
+
 // CSV validation result
 export interface CsvValidationResult {
   isValid: boolean;
@@ -76,8 +127,36 @@ export interface CsvValidationResult {
   formatConfidence?: number;
   formatReasoning?: string[];
   brokerDetection?: FormatDetectionResult;
+  nativeFormat?: NativeFileFormat; // Set for broker files read by a dedicated parser instead of as CSV
+  sectionedFormatId?: string; // Set for multi-section statements, read section by section
 }
 
+// Broker export read by a dedicated parser rather than through CSV column mapping
+export interface NativeFileFormat {
+  name: string;
+  description: string;
+  brokerName: string;
+}
+
+const IBKR_FLEX_FORMAT: NativeFileFormat = {
+  name: 'IBKR Flex Query XML',
+  description: 'Interactive Brokers Flex Query trades with execution ids, commissions and contract details',
+  brokerName: 'Interactive Brokers',
+};
+
+// The broker is read from the statement; brokerName is used when it does not say
+const OFX_FORMAT: NativeFileFormat = {
+  name: 'OFX / QFX statement',
+  description: 'Investment statement with trades, income, fees and transfers, securities resolved through its security list',
+  brokerName: 'OFX Import',
+};
+
+const FIX_LOG_FORMAT: NativeFileFormat = {
+  name: 'FIX execution reports',
+  description: 'FIX 4.2 / 4.4 drop-copy log, one order per fill keyed by ExecID',
+  brokerName: 'FIX Drop Copy',
+};
+
 // Schwab order data structure
 interface SchwabOrder {
   symbol?: string;
@@ -120,6 +199,26 @@ interface NormalizedOrder {
   orderAccount?: string | null;
   orderRoute?: string | null;
   tags: string[];
+  instrument?: ContractFields;
+}
+
+// Structured option/futures contract fields stored on Order
+interface ContractFields {
+  underlyingSymbol: string; // Option underlying or futures root
+  optionRight?: OptionRight;
+  strikePrice?: number;
+  expirationDate?: Date;
+  contractMultiplier: number;
+}
+
+// Column mappings applied row by row: an approved broker format or one of the user's import templates
+interface StoredMappingSource {
+  name: string;
+  fieldMappings: Record<string, any>;
+  confidence: number;
+  brokerName: string | null;
+  brokerId: string | null;
+  dateOptions?: TemplateDateOptions; // Templates read dates in their own format and timezone
 }
 
 // Upload Session information
@@ -135,6 +234,7 @@ export class CsvIngestionService {
   private formatDetector: CsvFormatDetector;
   private brokerFormatService: BrokerFormatService;
   private openAiService: OpenAiMappingService;
+  private preview: PreviewRun | null = null; // Set while an import is previewed
 
   constructor() {
     // Initialize AI mapper with API key from environment
@@ -390,7 +490,7 @@ export class CsvIngestionService {
     symbol: string,
     orderQuantity: number,
     orderExecutedTime: Date,
-    brokerId: string,
+    brokerId: string | null,
     limitPrice?: number | null
   ): Promise<boolean> {
     const whereClause: any = {
@@ -410,7 +510,115 @@ export class CsvIngestionService {
       where: whereClause
     });
 
-    return !!existingOrder;
+    // A preview writes nothing, so earlier rows of the same file are checked as well
+    const previewedOrder = this.preview?.orders.some(order =>
+      order.symbol === symbol &&
+      toQuantity(order.orderQuantity) === orderQuantity &&
+      order.orderExecutedTime?.getTime() === orderExecutedTime.getTime() &&
+      order.brokerId === brokerId &&
+      (limitPrice === null || limitPrice === undefined || Number(order.limitPrice) === limitPrice)
+    );
+
+    return !!existingOrder || !!previewedOrder;
+  }
+
+  /**
+   * The CSV headers mapped to the order's side, quantity and price, from [header, mapping] pairs
+   */
+  private getTradeColumns(mappings: [string, unknown][]): TradeColumns {
+    const headerFor = (field: string) => mappings.find(([, mapping]) => knownFields(mapping).includes(field))?.[0];
+    return { side: headerFor('side'), quantity: headerFor('orderQuantity'), price: headerFor('limitPrice') };
+  }
+
+  /**
+   * Record a dividend, interest, fee or cash movement row in the cash ledger instead of as an order
+   * Returns true for cash rows, including ones an earlier upload already recorded
+   */
+  private async recordCashRow(userId: string, importBatchId: string, row: Record<string, unknown>, tradeColumns: TradeColumns): Promise<boolean> {
+    const cashRow = detectCashRow(row, tradeColumns);
+    if (!cashRow) return false;
+    if (this.preview) return true;
+
+    await cashActivitiesRepo.createActivities(userId, [{
+      ...cashRow,
+      currency: normalizeCurrency(cashRow.currency),
+      importSource: ImportSource.CSV,
+      importBatchId,
+      brokerMetadata: row as Prisma.InputJsonValue,
+    }]);
+    return true;
+  }
+
+  /**
+   * Attribute newly recorded borrow fees and margin interest to trades
+   * Trade calculation does this as well; uploads with only cash rows need it on their own.
+   */
+  private async attributeFinancingCosts(userId: string): Promise<void> {
+    if (this.preview) return;
+
+    try {
+      await cashActivitiesRepo.attributeFinancingCosts(userId);
+    } catch (error: unknown) {
+      console.error('Financing cost attribution error:', error);
+      // Don't fail the import if attribution fails
+    }
+  }
+
+  // Writes of the imports that can be previewed go through the helpers below, which only record them in a preview
+
+  private async createImportBatch(args: { data: Prisma.ImportBatchUncheckedCreateInput }): Promise<Pick<ImportBatch, 'id' | 'sessionAttempts'>> {
+    if (this.preview) {
+      return { id: '', sessionAttempts: args.data.sessionAttempts ?? 1 };
+    }
+    return await prisma.importBatch.create(args);
+  }
+
+  private async updateImportBatch(args: { where: { id: string }; data: Prisma.ImportBatchUncheckedUpdateInput }): Promise<void> {
+    if (this.preview) return;
+
+    await prisma.importBatch.update(args);
+  }
+
+  private async createOrder(args: { data: Prisma.OrderUncheckedCreateInput }): Promise<{ id: string }> {
+    if (this.preview) {
+      const order = toSandboxOrder(`preview-${this.preview.orders.length}`, args.data);
+      this.preview.orders.push(order);
+      return order;
+    }
+    return await prisma.order.create(args);
+  }
+
+  /**
+   * Id for an order whose row has none
+   * Previews use a fixed one so that previewing the same file twice gives the same token.
+   */
+  private generateOrderId(prefix: string, index: number): string {
+    return `${prefix}-${this.preview ? 'preview' : Date.now()}-${index}`;
+  }
+
+  // A preview looks the broker up and leaves creating it to the import
+  private async getImportBroker(brokerName: string): Promise<{ id: string; name: string }> {
+    if (this.preview) {
+      return await this.brokerFormatService.findBroker(brokerName) ?? { id: '', name: brokerName.trim() };
+    }
+    return await this.brokerFormatService.findOrCreateBroker(brokerName);
+  }
+
+  private async createCashActivities(userId: string, activities: CreateCashActivityData[]): Promise<number> {
+    if (this.preview) {
+      return await cashActivitiesRepo.countNewActivities(userId, activities);
+    }
+    return await cashActivitiesRepo.createActivities(userId, activities);
+  }
+
+  // Rebuild the user's trades from the new orders with their lot matching and grouping settings
+  private async calculateTrades(userId: string): Promise<void> {
+    if (this.preview) {
+      this.preview.calculatesTrades = true;
+      return;
+    }
+
+    await processUserOrders(userId);
   }
 
   // Validate and clean mappings to prevent conflicts
@@ -503,6 +711,86 @@ export class CsvIngestionService {
       };
     }
 
+    if (isIbkrFlexXml(fileContent)) {
+      const flexResult = parseIbkrFlexXml(fileContent);
+      const sampleRows = flexResult.executions.slice(0, 3).map(execution => execution.attributes);
+
+      return {
+        isValid: flexResult.executions.length > 0,
+        isStandardFormat: false,
+        headers: sampleRows[0] ? Object.keys(sampleRows[0]) : [],
+        sampleRows,
+        rowCount: flexResult.executions.length,
+        errors: flexResult.executions.length > 0
+          ? flexResult.errors
+          : [...flexResult.errors, 'No executions found in the Flex Query; include the Trades section at execution level'],
+        fileSize,
+        nativeFormat: IBKR_FLEX_FORMAT,
+      };
+    }
+
+    if (isOfxFile(fileContent)) {
+      const ofxResult = parseOfx(fileContent);
+      const rowCount = ofxResult.executions.length + ofxResult.cashActivities.length;
+      const sampleRows = [...ofxResult.executions, ...ofxResult.cashActivities].slice(0, 3).map(row => row.attributes);
+
+      return {
+        isValid: rowCount > 0,
+        isStandardFormat: false,
+        headers: sampleRows[0] ? Object.keys(sampleRows[0]) : [],
+        sampleRows,
+        rowCount,
+        errors: rowCount > 0
+          ? ofxResult.errors
+          : [...ofxResult.errors, 'No investment transactions found in the OFX file; download it from the brokerage account rather than a bank account'],
+        fileSize,
+        nativeFormat: OFX_FORMAT,
+      };
+    }
+
+    if (isFixLog(fileContent)) {
+      const fixResult = parseFixExecutionReports(fileContent);
+      const sampleRows = fixResult.executions.slice(0, 3).map(execution => execution.attributes);
+
+      return {
+        isValid: fixResult.executions.length > 0,
+        isStandardFormat: false,
+        headers: sampleRows[0] ? Object.keys(sampleRows[0]) : [],
+        sampleRows,
+        rowCount: fixResult.executions.length,
+        errors: fixResult.executions.length > 0
+          ? fixResult.errors
+          : [...fixResult.errors, 'No fills found in the FIX log; it needs execution reports (35=8) with ExecType fill or trade'],
+        fileSize,
+        nativeFormat: FIX_LOG_FORMAT,
+      };
+    }
+
+    const sectionedFormat = detectSectionedFormat(fileContent, SECTIONED_STATEMENT_FORMATS);
+    if (sectionedFormat) {
+      const statement = mapSectionedStatement(splitCsvSections(fileContent), sectionedFormat);
+      const rowCount = statement.executions.length + statement.cashActivities.length;
+      const sampleRows = [...statement.executions, ...statement.cashActivities].slice(0, 3).map(row => row.attributes);
+
+      return {
+        isValid: rowCount > 0 || statement.positions.length > 0,
+        isStandardFormat: false,
+        headers: sampleRows[0] ? Object.keys(sampleRows[0]) : [],
+        sampleRows,
+        rowCount,
+        errors: rowCount > 0 || statement.positions.length > 0
+          ? statement.errors
+          : [...statement.errors, `No trades, cash activity or positions found in the ${sectionedFormat.name} sections`],
+        fileSize,
+        nativeFormat: {
+          name: sectionedFormat.name,
+          description: sectionedFormat.description,
+          brokerName: sectionedFormat.brokerName,
+        },
+        sectionedFormatId: sectionedFormat.id,
+      };
+    }
+
     try {
       // Special handling for Schwab "Today's Trade Activity" format
       const schwabPattern = /Today's Trade Activity for \d+\w*\s+.*on\s+\d{1,2}\/\d{1,2}\/\d{2,4}/i;
@@ -615,7 +903,115 @@ export class CsvIngestionService {
   //   return hasAllRequired && standardColumnRatio >= 0.6;
   // }
 
+  /**
+   * Import a file for a user
+   * A preview parses the file and reports what importing it would change without writing anything;
+   * given a preview token, the file is only imported when previewing it again gives the same token.
+   */
   async ingestCsv(
+    fileContent: string,
+    fileName: string,
+    userId: string,
+    accountTags: string[] = [],
+    userMappings?: ColumnMapping[],
+    brokerName?: string,
+    options: IngestOptions = {}
+  ): Promise<CsvIngestionResult> {
+    const ingest = () => this.runIngestion(fileContent, fileName, userId, accountTags, userMappings, brokerName);
+    if (!options.preview && !options.previewToken) {
+      return ingest();
+    }
+
+    const preview = await this.previewIngestion(ingest, userId);
+    if (options.preview) {
+      return preview;
+    }
+    if (preview.preview && preview.preview.token !== options.previewToken) {
+      throw new ImportPreviewMismatchError('The import no longer matches its preview because your orders or trades changed; preview it again');
+    }
+    return ingest();
+  }
+
+  /**
+   * Run an import in preview mode: orders, cash activities and the trade rebuild are worked out
+   * without being written
+   */
+  private async previewIngestion(ingest: () => Promise<CsvIngestionResult>, userId: string): Promise<CsvIngestionResult> {
+    const run: PreviewRun = { orders: [], calculatesTrades: false, skipped: false };
+    this.preview = run;
+
+    try {
+      const result = await ingest();
+      if (run.skipped) {
+        return result;
+      }
+
+      const trades = run.calculatesTrades && run.orders.length > 0
+        ? await this.buildPreviewTrades(userId, run.orders)
+        : { before: [], after: [] };
+      const preview = buildImportPreview(result, run.orders, toPreviewTrades(trades.before), toPreviewTrades(trades.after));
+
+      return { ...result, importBatchId: '', orderIds: [], preview };
+    } finally {
+      this.preview = null;
+    }
+  }
+
+  /**
+   * Build the trades of the symbols a preview's orders trade, without and with those orders
+   * Both builds run in memory over the stored orders of those symbols, with the user's lot matching and grouping settings.
+   */
+  private async buildPreviewTrades(userId: string, orders: Order[]) {
+    // Ticker changes carry positions from one symbol to the other
+    const symbols = new Set(orders.map(order => order.symbol));
+    for (const action of await corporateActionsRepo.getCorporateActions()) {
+      if (action.actionType !== CorporateActionType.SYMBOL_CHANGE || !action.newSymbol) continue;
+      if (symbols.has(action.symbol) || symbols.has(action.newSymbol)) {
+        symbols.add(action.symbol);
+        symbols.add(action.newSymbol);
+      }
+    }
+
+    // Imports link orders to their accounts before building trades; accounts the import would create get a stand-in id
+    const accountIds = new Map((await accountsRepo.getAccounts(userId)).map(account => [account.externalId, account.id]));
+    const linkAccount = (order: Order): Order => {
+      const externalId = (order.accountId || order.orderAccount)?.trim();
+      if (order.tradingAccountId || !externalId) return order;
+      return { ...order, tradingAccountId: accountIds.get(externalId) ?? `new:${externalId}` };
+    };
+
+    const stored = (await ordersRepo.getOrdersForSymbols(userId, Array.from(symbols))).map(linkAccount);
+    const lotMatchingMethod = await tradeLotsRepo.getLotMatchingMethod(userId);
+    const grouping = await tradesRepo.getTradeGroupingSettings(userId);
+    const build = (sandboxOrders: Order[]) =>
+      new TradeBuilder(lotMatchingMethod, grouping, new TradeSandbox(sandboxOrders)).buildTradeData(userId);
+
+    return { before: await build(stored), after: await build([...stored, ...orders.map(linkAccount)]) };
+  }
+
+  /**
+   * End a preview of an import that needs AI mapping or approval, which are not previewed
+   * The caller imports such files directly.
+   */
+  private skipPreview(totalRecords: number): CsvIngestionResult {
+    this.preview!.skipped = true;
+
+    return {
+      success: true,
+      importBatchId: '',
+      importType: 'CUSTOM',
+      totalRecords,
+      successCount: 0,
+      errorCount: 0,
+      errors: [],
+      requiresUserReview: false,
+      requiresBrokerSelection: false,
+      orderIds: [],
+      message: 'Files whose columns need mapping or whose format needs approval are imported without a preview',
+    };
+  }
+
+  private async runIngestion(
     fileContent: string,
     fileName: string,
     userId: string,
@@ -623,7 +1019,6 @@ export class CsvIngestionService {
     userMappings?: ColumnMapping[],
     brokerName?: string
   ): Promise<CsvIngestionResult> {
-    
 
     // First validate the file
     const validation = await this.validateCsvFile(fileContent);
@@ -643,6 +1038,25 @@ export class CsvIngestionService {
 
 
     try {
+      if (validation.nativeFormat === IBKR_FLEX_FORMAT) {
+        return await this.processIbkrFlexXml(fileContent, fileName, userId, accountTags, uploadLog.id, validation.fileSize);
+      }
+      if (validation.nativeFormat === OFX_FORMAT) {
+        return await this.processOfxStatement(fileContent, fileName, userId, accountTags, uploadLog.id, validation.fileSize);
+      }
+      if (validation.nativeFormat === FIX_LOG_FORMAT) {
+        return await this.processFixLog(fileContent, fileName, userId, accountTags, uploadLog.id, validation.fileSize);
+      }
+      if (validation.sectionedFormatId) {
+        return await this.processSectionedStatement(fileContent, fileName, userId, accountTags, uploadLog.id, validation.fileSize, validation.sectionedFormatId);
+      }
+
+      // The user's own template for these headers applies before any shared format
+      const template = userMappings ? null : await importTemplatesRepo.findTemplateForHeaders(userId, validation.headers);
+      if (template) {
+        return await this.processWithImportTemplate(fileContent, fileName, userId, accountTags, uploadLog.id, validation.fileSize, template);
+      }
+
       // Check for Schwab Today's Trade Activity format first (special case)
       const schwabPattern = /Today's Trade Activity for \d+\w*\s+.*on\s+\d{1,2}\/\d{1,2}\/\d{2,4}/i;
       const isSchwabFormat = schwabPattern.test(fileContent);
@@ -790,22 +1204,111 @@ export class CsvIngestionService {
     // Continue with normal processing for approved formats
     console.log(`[CSV Ingestion] Processing with approved format ${brokerDetection.format.formatName}`);
 
+    const result = await this.importWithStoredMappings(
+      records as Record<string, unknown>[],
+      {
+        name: brokerDetection.format.formatName,
+        fieldMappings: brokerDetection.format.fieldMappings as Record<string, any>,
+        confidence: brokerDetection.confidence,
+        brokerName: brokerDetection.broker.name,
+        brokerId: brokerDetection.format.brokerId, // Get brokerId from matched format
+      },
+      fileName,
+      userId,
+      accountTags,
+      uploadLogId,
+      fileSize
+    );
+
+    // Update format usage statistics
+    if (!this.preview) {
+      await this.brokerFormatService.updateFormatUsage(brokerDetection.format.id, result.successCount > 0);
+    }
+
+    return { ...result, brokerFormatUsed: brokerDetection.format.formatName };
+  }
+
+  /**
+   * Process CSV with the user's own import template for its headers
+   * Templates are private to the user, so they apply without admin approval or staging.
+   */
+  private async processWithImportTemplate(
+    fileContent: string,
+    fileName: string,
+    userId: string,
+    accountTags: string[],
+    uploadLogId: string,
+    fileSize: number,
+    template: ImportTemplate
+  ): Promise<CsvIngestionResult> {
+    const records = parse(fileContent, {
+      columns: true,
+      skip_empty_lines: true,
+      trim: true,
+      bom: true,
+    });
+
+    if (records.length === 0) {
+      throw new Error('No data found in CSV file');
+    }
+
+    console.log(`[CSV Ingestion] Processing with import template ${template.name} v${template.version}`);
+
+    const broker = template.brokerId
+      ? await prisma.broker.findUnique({ where: { id: template.brokerId }, select: { name: true } })
+      : null;
+    const result = await this.importWithStoredMappings(
+      records as Record<string, unknown>[],
+      {
+        name: template.name,
+        fieldMappings: template.fieldMappings as Record<string, any>,
+        confidence: 1.0,
+        brokerName: broker?.name ?? null,
+        brokerId: template.brokerId,
+        dateOptions: { dateFormat: template.dateFormat, timezone: template.timezone },
+      },
+      fileName,
+      userId,
+      accountTags,
+      uploadLogId,
+      fileSize
+    );
+
+    if (!this.preview) {
+      await importTemplatesRepo.recordUsage(template.id);
+    }
+
+    return { ...result, importTemplateUsed: `${template.name} v${template.version}` };
+  }
+
+  /**
+   * Create orders from CSV rows with stored column mappings, holding the trade rebuild until the upload session is complete
+   */
+  private async importWithStoredMappings(
+    records: Record<string, unknown>[],
+    source: StoredMappingSource,
+    fileName: string,
+    userId: string,
+    accountTags: string[],
+    uploadLogId: string,
+    fileSize: number
+  ): Promise<CsvIngestionResult> {
     // Detect or create upload session BEFORE creating orders
     const session = await this.detectOrCreateSession(userId, fileName, records.length);
 
     // Create import batch with session info
-    const importBatch = await prisma.importBatch.create({
+    const importBatch = await this.createImportBatch({
       data: {
         userId,
         filename: fileName,
         fileSize,
-        brokerType: this.getBrokerTypeFromName(brokerDetection.broker.name),
+        brokerType: source.brokerName ? this.getBrokerTypeFromName(source.brokerName) : BrokerType.GENERIC_CSV,
         importType: 'CUSTOM',
         status: 'PROCESSING',
         totalRecords: records.length,
         aiMappingUsed: false,
-        mappingConfidence: brokerDetection.confidence,
-        columnMappings: brokerDetection.format.fieldMappings as any,
+        mappingConfidence: source.confidence,
+        columnMappings: source.fieldMappings as Prisma.InputJsonValue,
         userReviewRequired: false,
         // Session fields
         uploadSessionId: session.id,
@@ -826,22 +1329,30 @@ export class CsvIngestionService {
     let successCount = 0;
     let errorCount = 0;
     let duplicateCount = 0;
+    let cashActivityCount = 0;
     const createdOrderIds: string[] = []; // Track created order IDs for AiIngestToCheck
 
-    // Extract mappings from the stored format
-    const fieldMappings = brokerDetection.format.fieldMappings as Record<string, any>;
-    const brokerName = brokerDetection.broker.name.replace(/[^A-Za-z0-9]/g, '_'); // Clean broker name for ID
+    const fieldMappings = source.fieldMappings;
+    const brokerName = (source.brokerName ?? source.name).replace(/[^A-Za-z0-9]/g, '_'); // Clean broker name for ID
+    const brokerType = source.brokerName ? this.getBrokerTypeFromName(source.brokerName) : BrokerType.GENERIC_CSV;
+    const brokerId = source.brokerId;
+    const tradeColumns = this.getTradeColumns(Object.entries(fieldMappings));
 
     // Process each row using stored broker format mappings
     for (let i = 0; i < records.length; i++) {
       try {
+        if (await this.recordCashRow(userId, importBatch.id, records[i] as Record<string, unknown>, tradeColumns)) {
+          cashActivityCount++;
+          continue; // Dividends, interest, fees and cash movements go to the cash ledger
+        }
+
         const mappedData: Record<string, unknown> = {};
         const brokerMetadata: Record<string, unknown> = {};
 
         // Apply stored mappings (supports both single and multiple field mappings)
         for (const [csvHeader, mapping] of Object.entries(fieldMappings)) {
           // Use combineFieldValues to get the value (handles field combination)
-          const value = this.combineFieldValues(records[i] as Record<string, unknown>, csvHeader, mapping);
+          const value = applyTemplateTransformer(this.combineFieldValues(records[i] as Record<string, unknown>, csvHeader, mapping), mapping.transformer);
 
           if (value !== undefined && value !== null && value !== '') {
             // Handle new format with multiple fields
@@ -872,14 +1383,16 @@ export class CsvIngestionService {
 
         // Infer side from quantity if no explicit side indicator exists
         this.inferSideFromQuantity(mappedData, records[i] as Record<string, unknown>, fieldMappings);
+        if (source.dateOptions) {
+          normalizeTemplateDates(mappedData, source.dateOptions);
+        }
 
         // Calculate times using helper method
         const orderPlacedTime = this.parseDateSafely(mappedData.orderPlacedTime) || new Date();
-        const orderExecutedTime = this.getOrderExecutedTime(mappedData, brokerDetection.format.fieldMappings as Record<string, any>);
-        const symbol = String(mappedData.symbol || '');
-        const orderQuantity = Number(mappedData.orderQuantity) || 0;
-        const brokerType = this.getBrokerTypeFromName(brokerDetection.broker.name);
-        const brokerId = brokerDetection.format.brokerId; // Get brokerId from matched format
+        const orderExecutedTime = this.getOrderExecutedTime(mappedData, fieldMappings);
+        const instrument = this.resolveInstrument(String(mappedData.symbol || ''), mappedData);
+        const symbol = instrument?.symbol ?? String(mappedData.symbol || '');
+        const orderQuantity = parseQuantity(mappedData.orderQuantity) ?? 0;
 
         // Check for duplicate
         const limitPrice = mappedData.limitPrice ? Number(mappedData.limitPrice) : null;
@@ -892,14 +1405,14 @@ export class CsvIngestionService {
         }
 
         // Create order record
-        const createdOrder = await prisma.order.create({
+        const createdOrder = await this.createOrder({
           data: {
             userId,
             importBatchId: importBatch.id,
-            orderId: String(mappedData.orderId || `${brokerName}-${Date.now()}-${i}`),
+            orderId: String(mappedData.orderId || this.generateOrderId(brokerName, i)),
             parentOrderId: mappedData.parentOrderId ? String(mappedData.parentOrderId) : null,
             symbol,
-            assetClass: this.normalizeAssetClass(String(mappedData.assetClass || 'EQUITY')) as any,
+            assetClass: this.normalizeAssetClass(String(mappedData.assetClass || 'EQUITY'), symbol) as any,
             orderType: this.normalizeOrderType(String(mappedData.orderType || 'MARKET')),
             side: this.normalizeOrderSide(String(mappedData.side || 'BUY')),
             timeInForce: this.normalizeTimeInForce(String(mappedData.timeInForce || 'DAY')),
@@ -912,8 +1425,9 @@ export class CsvIngestionService {
             accountId: mappedData.accountId ? String(mappedData.accountId) : null,
             orderAccount: mappedData.orderAccount ? String(mappedData.orderAccount) : null,
             orderRoute: mappedData.orderRoute ? String(mappedData.orderRoute) : null,
+            ...instrument?.contract,
             brokerType,
-            brokerId: brokerId, // From matched BrokerCsvFormat
+            brokerId, // From the matched BrokerCsvFormat or the template
             brokerMetadata: Object.keys(brokerMetadata).length > 0 ? brokerMetadata as any : null,
             tags: [...accountTags, ...(mappedData.tags ? String(mappedData.tags).split(',') : [])],
           },
@@ -931,14 +1445,14 @@ export class CsvIngestionService {
     }
 
     // Calculate total valid rows (new inserts + duplicates)
-    const totalValidRows = successCount + duplicateCount;
+    const totalValidRows = successCount + duplicateCount + cashActivityCount;
     // Only count new inserts toward completedRowCount
     const totalCompleted = session.previousCompleted + successCount;
     // Session is complete when all expected rows are accounted for (including duplicates)
     const isComplete = totalValidRows >= session.expectedRowCount;
 
     // Update import batch with results and session status
-    await prisma.importBatch.update({
+    await this.updateImportBatch({
       where: { id: importBatch.id },
       data: {
         status: errorCount === records.length ? 'FAILED' : (isComplete ? 'COMPLETED' : 'PARTIAL'),
@@ -953,9 +1467,6 @@ export class CsvIngestionService {
       },
     });
 
-    // Update format usage statistics
-    await this.brokerFormatService.updateFormatUsage(brokerDetection.format.id, successCount > 0);
-
     // Update upload log
     await this.updateUploadLog(uploadLogId, 'IMPORTED', 'STANDARD');
 
@@ -968,9 +1479,7 @@ export class CsvIngestionService {
         console.log(`[Trade Calculation] - Import batch: ${importBatch.id}`);
         console.log(`[Trade Calculation] - User: ${userId}`);
 
-        const tradeBuilder = new TradeBuilder();
-        await tradeBuilder.processUserOrders(userId);
-        await tradeBuilder.persistTrades(userId);
+        await this.calculateTrades(userId);
 
         console.log(`[Trade Calculation] ✓ Trade calculation completed successfully`);
       } catch (error: unknown) {
@@ -987,6 +1496,10 @@ export class CsvIngestionService {
       console.log(`[Trade Calculation] ⏭️  No successful rows in this batch. Session status: ${isComplete ? 'COMPLETE' : 'INCOMPLETE'}`);
     }
 
+    if (cashActivityCount > 0) {
+      await this.attributeFinancingCosts(userId);
+    }
+
     return {
       success: successCount > 0 || isComplete,
       importBatchId: importBatch.id,
@@ -995,11 +1508,11 @@ export class CsvIngestionService {
       successCount,
       errorCount,
       duplicateCount: duplicateCount > 0 ? duplicateCount : undefined,
+      cashActivityCount: cashActivityCount > 0 ? cashActivityCount : undefined,
       errors,
       duplicateMessages: duplicateMessages.length > 0 ? duplicateMessages : undefined,
       requiresUserReview: false,
       requiresBrokerSelection: false,
-      brokerFormatUsed: brokerDetection.format.formatName,
       orderIds: createdOrderIds,
       // Session-specific fields
       sessionComplete: isComplete,
@@ -1023,6 +1536,10 @@ export class CsvIngestionService {
     isNewFormat: boolean = false
   ): Promise<CsvIngestionResult> {
 
+    if (this.preview) {
+      return this.skipPreview(records.length);
+    }
+
     console.log(`[CSV Ingestion] Staging ${records.length} orders for unapproved format ${format.id}`);
 
     // Create import batch for staging
@@ -1162,6 +1679,7 @@ export class CsvIngestionService {
             quantity: normalizedTrade.volume,
             executions: 1,
             pnl: normalizedTrade.pnl,
+            netPnl: calculateNetPnl(normalizedTrade.pnl, normalizedTrade.commission, normalizedTrade.fees),
             entryPrice: normalizedTrade.price,
             commission: normalizedTrade.commission,
             fees: normalizedTrade.fees,
@@ -1196,9 +1714,7 @@ export class CsvIngestionService {
     // Calculate trades after successful import
     if (successCount > 0) {
       try {
-        const tradeBuilder = new TradeBuilder();
-        await tradeBuilder.processUserOrders(userId);
-        await tradeBuilder.persistTrades(userId);
+        await processUserOrders(userId);
       } catch (error: unknown) {
         console.error('Trade calculation error:', error);
         // Don't fail the import if trade calculation fails
@@ -1251,7 +1767,7 @@ export class CsvIngestionService {
     // Create import batch with session info
     const brokerType = this.getBrokerTypeFromFormat(detectedFormat);
 
-    const importBatch = await prisma.importBatch.create({
+    const importBatch = await this.createImportBatch({
       data: {
         userId,
         filename: fileName,
@@ -1283,10 +1799,17 @@ export class CsvIngestionService {
     let successCount = 0;
     let errorCount = 0;
     let duplicateCount = 0;
+    let cashActivityCount = 0;
+    const tradeColumns = this.getTradeColumns(Object.entries(detectedFormat.fieldMappings));
 
     // Process each row using detected format mappings
     for (let i = 0; i < records.length; i++) {
       try {
+        if (await this.recordCashRow(userId, importBatch.id, records[i] as Record<string, unknown>, tradeColumns)) {
+          cashActivityCount++;
+          continue; // Dividends, interest, fees and cash movements go to the cash ledger
+        }
+
         const normalizedOrder = this.applyDetectedFormatMapping(records[i] as Record<string, unknown>, detectedFormat, accountTags);
 
         // Create order record
@@ -1305,14 +1828,14 @@ export class CsvIngestionService {
           continue; // Skip this duplicate order
         }
 
-        await prisma.order.create({
+        await this.createOrder({
           data: {
             userId,
             importBatchId: importBatch.id,
             orderId: normalizedOrder.orderId,
             parentOrderId: normalizedOrder.parentOrderId,
             symbol: normalizedOrder.symbol,
-            assetClass: this.normalizeAssetClass(String(normalizedOrder.assetClass || 'EQUITY')) as any,
+            assetClass: this.normalizeAssetClass(String(normalizedOrder.assetClass || 'EQUITY'), normalizedOrder.symbol) as any,
             orderType: normalizedOrder.orderType as OrderType,
             side: normalizedOrder.side,
             timeInForce: normalizedOrder.timeInForce as TimeInForce,
@@ -1325,6 +1848,7 @@ export class CsvIngestionService {
             accountId: normalizedOrder.accountId,
             orderAccount: normalizedOrder.orderAccount,
             orderRoute: normalizedOrder.orderRoute,
+            ...normalizedOrder.instrument,
             brokerType: orderBrokerType,
             brokerId: brokerCsvFormat?.brokerId, // From matched BrokerCsvFormat
             tags: normalizedOrder.tags,
@@ -1340,14 +1864,14 @@ export class CsvIngestionService {
     }
 
     // Calculate total valid rows (new inserts + duplicates)
-    const totalValidRows = successCount + duplicateCount;
+    const totalValidRows = successCount + duplicateCount + cashActivityCount;
     // Only count new inserts toward completedRowCount
     const totalCompleted = session.previousCompleted + successCount;
     // Session is complete when all expected rows are accounted for (including duplicates)
     const isComplete = totalValidRows >= session.expectedRowCount;
 
     // Update import batch with results and session status
-    await prisma.importBatch.update({
+    await this.updateImportBatch({
       where: { id: importBatch.id },
       data: {
         status: errorCount === records.length ? 'FAILED' : (isComplete ? 'COMPLETED' : 'PARTIAL'),
@@ -1374,9 +1898,7 @@ export class CsvIngestionService {
         console.log(`[Trade Calculation] - Import batch: ${importBatch.id}`);
         console.log(`[Trade Calculation] - User: ${userId}`);
 
-        const tradeBuilder = new TradeBuilder();
-        await tradeBuilder.processUserOrders(userId);
-        await tradeBuilder.persistTrades(userId);
+        await this.calculateTrades(userId);
 
         console.log(`[Trade Calculation] ✓ Trade calculation completed successfully`);
       } catch (error: unknown) {
@@ -1393,6 +1915,10 @@ export class CsvIngestionService {
       console.log(`[Trade Calculation] ⏭️  No successful rows in this batch. Session status: ${isComplete ? 'COMPLETE' : 'INCOMPLETE'}`);
     }
 
+    if (cashActivityCount > 0) {
+      await this.attributeFinancingCosts(userId);
+    }
+
     return {
       success: successCount > 0 || isComplete,
       importBatchId: importBatch.id,
@@ -1401,6 +1927,7 @@ export class CsvIngestionService {
       successCount,
       errorCount,
       duplicateCount: duplicateCount > 0 ? duplicateCount : undefined,
+      cashActivityCount: cashActivityCount > 0 ? cashActivityCount : undefined,
       errors,
       duplicateMessages: duplicateMessages.length > 0 ? duplicateMessages : undefined,
       requiresUserReview: false,
@@ -1434,6 +1961,10 @@ export class CsvIngestionService {
       throw new Error('No data found in CSV file');
     }
 
+    if (this.preview) {
+      return this.skipPreview(records.length);
+    }
+
     const headers = Object.keys(records[0] as Record<string, unknown>);
     let mappingResult: AiMappingResult;
 
@@ -1588,6 +2119,7 @@ export class CsvIngestionService {
     let successCount = 0;
     let errorCount = 0;
     let duplicateCount = 0;
+    let cashActivityCount = 0;
 
     try {
       // Check if this is an order format (has orderId field mapping)
@@ -1601,9 +2133,18 @@ export class CsvIngestionService {
       }
       
       if (isOrderFormat) {
+        const tradeColumns = this.getTradeColumns(mappingResult.mappings.flatMap(mapping =>
+          'csvColumn' in mapping ? [[mapping.csvColumn, mapping] as [string, unknown]] : []
+        ));
+
         // Process as orders
         for (const [index, row] of records.entries()) {
           try {
+            if (await this.recordCashRow(userId, importBatch.id, row as Record<string, unknown>, tradeColumns)) {
+              cashActivityCount++;
+              continue; // Dividends, interest, fees and cash movements go to the cash ledger
+            }
+
             const mappedData: Record<string, unknown> = {};
             const mappedFields = new Set<string>(); // Track which target fields have been mapped
             const skippedMappings: string[] = []; // Track skipped mappings for logging
@@ -1647,8 +2188,9 @@ export class CsvIngestionService {
             // Calculate times using helper method
             const orderPlacedTime = this.parseDateSafely(mappedData.orderPlacedTime) || new Date();
             const orderExecutedTime = this.getOrderExecutedTime(mappedData, mappingResult.mappings);
-            const symbol = String(mappedData.symbol || '');
-            const orderQuantity = Number(mappedData.orderQuantity) || 0;
+            const instrument = this.resolveInstrument(String(mappedData.symbol || ''), mappedData);
+            const symbol = instrument?.symbol ?? String(mappedData.symbol || '');
+            const orderQuantity = parseQuantity(mappedData.orderQuantity) ?? 0;
 
             // Check for duplicate
             const limitPrice = mappedData.limitPrice ? Number(mappedData.limitPrice) : null;
@@ -1668,7 +2210,7 @@ export class CsvIngestionService {
                 orderId: String(mappedData.orderId || `auto-${Date.now()}-${index}`),
                 parentOrderId: mappedData.parentOrderId ? String(mappedData.parentOrderId) : null,
                 symbol,
-                assetClass: this.normalizeAssetClass(String(mappedData.assetClass || 'EQUITY')) as any,
+                assetClass: this.normalizeAssetClass(String(mappedData.assetClass || 'EQUITY'), symbol) as any,
                 orderType: this.normalizeOrderType(String(mappedData.orderType || 'MARKET')),
                 side: this.normalizeOrderSide(String(mappedData.side || 'BUY')),
                 timeInForce: this.normalizeTimeInForce(String(mappedData.timeInForce || 'DAY')),
@@ -1681,6 +2223,7 @@ export class CsvIngestionService {
                 accountId: mappedData.accountId ? String(mappedData.accountId) : null,
                 orderAccount: mappedData.orderAccount ? String(mappedData.orderAccount) : null,
                 orderRoute: mappedData.orderRoute ? String(mappedData.orderRoute) : null,
+                ...instrument?.contract,
                 brokerType,
                 brokerId, // From detected format if available
                 tags: [...accountTags, ...(mappedData.tags ? String(mappedData.tags).split(',') : [])],
@@ -1711,6 +2254,7 @@ export class CsvIngestionService {
                 quantity: trade.volume,
                 executions: 1,
                 pnl: trade.pnl,
+                netPnl: calculateNetPnl(trade.pnl, trade.commission, trade.fees),
                 entryPrice: trade.price,
                 commission: trade.commission,
                 fees: trade.fees,
@@ -1753,23 +2297,26 @@ export class CsvIngestionService {
     // Calculate trades after successful import
     if (successCount > 0) {
       try {
-        const tradeBuilder = new TradeBuilder();
-        await tradeBuilder.processUserOrders(userId);
-        await tradeBuilder.persistTrades(userId);
+        await processUserOrders(userId);
       } catch (error: unknown) {
         console.error('Trade calculation error:', error);
         // Don't fail the import if trade calculation fails
       }
     }
 
+    if (cashActivityCount > 0) {
+      await this.attributeFinancingCosts(userId);
+    }
+
     return {
-      success: successCount > 0,
+      success: successCount > 0 || cashActivityCount > 0,
       importBatchId: importBatch.id,
       importType: 'CUSTOM',
       totalRecords: records.length,
       successCount,
       errorCount,
       duplicateCount: duplicateCount > 0 ? duplicateCount : undefined,
+      cashActivityCount: cashActivityCount > 0 ? cashActivityCount : undefined,
       errors,
       duplicateMessages: duplicateMessages.length > 0 ? duplicateMessages : undefined,
       aiMappingResult: mappingResult,
@@ -1802,6 +2349,10 @@ export class CsvIngestionService {
       throw new Error('No data found in CSV file');
     }
 
+    if (this.preview) {
+      return this.skipPreview(records.length);
+    }
+
     const headers = Object.keys(records[0] as Record<string, unknown>);
     const sampleData = records.slice(0, 5) as Record<string, unknown>[];
 
@@ -1947,10 +2498,18 @@ export class CsvIngestionService {
     let successCount = 0;
     let errorCount = 0;
     let duplicateCount = 0;
+    let cashActivityCount = 0;
+
+    const tradeColumns = this.getTradeColumns(Object.entries(aiResult.mappings));
 
     try {
       for (const [index, row] of records.entries()) {
         try {
+          if (await this.recordCashRow(userId, importBatch.id, row as Record<string, unknown>, tradeColumns)) {
+            cashActivityCount++;
+            continue; // Dividends, interest, fees and cash movements go to the cash ledger
+          }
+
           const mappedData: Record<string, unknown> = {};
           const brokerMetadata: Record<string, unknown> = {};
 
@@ -1982,8 +2541,9 @@ export class CsvIngestionService {
           // Calculate times using helper method
           const orderPlacedTime = this.parseDateSafely(mappedData.orderPlacedTime) || new Date();
           const orderExecutedTime = this.getOrderExecutedTime(mappedData, aiResult.mappings);
-          const symbol = String(mappedData.symbol || '');
-          const orderQuantity = Number(mappedData.orderQuantity) || 0;
+          const instrument = this.resolveInstrument(String(mappedData.symbol || ''), mappedData);
+          const symbol = instrument?.symbol ?? String(mappedData.symbol || '');
+          const orderQuantity = parseQuantity(mappedData.orderQuantity) ?? 0;
 
           // Use proper broker type detection
           let brokerType: BrokerType = BrokerType.GENERIC_CSV;
@@ -2009,7 +2569,7 @@ export class CsvIngestionService {
               orderId: String(mappedData.orderId || `ai-${Date.now()}-${index}`),
               parentOrderId: mappedData.parentOrderId ? String(mappedData.parentOrderId) : null,
               symbol,
-              assetClass: this.normalizeAssetClass(String(mappedData.assetClass || 'EQUITY')) as any,
+              assetClass: this.normalizeAssetClass(String(mappedData.assetClass || 'EQUITY'), symbol) as any,
               orderType: this.normalizeOrderType(String(mappedData.orderType || 'MARKET')),
               side: this.normalizeOrderSide(String(mappedData.side || 'BUY')),
               timeInForce: this.normalizeTimeInForce(String(mappedData.timeInForce || 'DAY')),
@@ -2022,6 +2582,7 @@ export class CsvIngestionService {
               accountId: mappedData.accountId ? String(mappedData.accountId) : null,
               orderAccount: mappedData.orderAccount ? String(mappedData.orderAccount) : null,
               orderRoute: mappedData.orderRoute ? String(mappedData.orderRoute) : null,
+              ...instrument?.contract,
               brokerType,
               brokerId, // From broker lookup if brokerName provided
               brokerMetadata: Object.keys(brokerMetadata).length > 0 ? brokerMetadata as any : null,
@@ -2041,7 +2602,7 @@ export class CsvIngestionService {
     }
 
     // Calculate total valid rows (new inserts + duplicates)
-    const totalValidRows = successCount + duplicateCount;
+    const totalValidRows = successCount + duplicateCount + cashActivityCount;
     // Only count new inserts toward completedRowCount
     const totalCompleted = session.previousCompleted + successCount;
     // Session is complete when all expected rows are accounted for (including duplicates)
@@ -2078,9 +2639,7 @@ export class CsvIngestionService {
         console.log(`[Trade Calculation] - Import batch: ${importBatch.id}`);
         console.log(`[Trade Calculation] - User: ${userId}`);
 
-        const tradeBuilder = new TradeBuilder();
-        await tradeBuilder.processUserOrders(userId);
-        await tradeBuilder.persistTrades(userId);
+        await processUserOrders(userId);
 
         console.log(`[Trade Calculation] ✓ Trade calculation completed successfully`);
       } catch (error: unknown) {
@@ -2097,6 +2656,10 @@ export class CsvIngestionService {
       console.log(`[Trade Calculation] ⏭️  No successful rows in this batch. Session status: ${isComplete ? 'COMPLETE' : 'INCOMPLETE'}`);
     }
 
+    if (cashActivityCount > 0) {
+      await this.attributeFinancingCosts(userId);
+    }
+
     return {
       success: successCount > 0 || isComplete,
       importBatchId: importBatch.id,
@@ -2105,6 +2668,7 @@ export class CsvIngestionService {
       successCount,
       errorCount,
       duplicateCount: duplicateCount > 0 ? duplicateCount : undefined,
+      cashActivityCount: cashActivityCount > 0 ? cashActivityCount : undefined,
       errors,
       duplicateMessages: duplicateMessages.length > 0 ? duplicateMessages : undefined,
       openAiMappingResult: aiResult,
@@ -2224,6 +2788,8 @@ export class CsvIngestionService {
       return BrokerType.FIDELITY;
     } else if (normalized.includes('robinhood')) {
       return BrokerType.ROBINHOOD;
+    } else if (normalized.includes('vanguard')) {
+      return BrokerType.VANGUARD;
     } else {
       return BrokerType.GENERIC_CSV;
     }
@@ -2303,7 +2869,9 @@ export class CsvIngestionService {
     filename: string, 
     headers: string[], 
     rowCount: number
-  ) {
+  ): Promise<{ id: string }> {
+    if (this.preview) return { id: '' };
+
     return await prisma.csvUploadLog.create({
       data: {
         userId,
@@ -2323,6 +2891,8 @@ export class CsvIngestionService {
     errorMessage?: string,
     importBatchId?: string
   ) {
+    if (this.preview) return;
+
     const updateData: Record<string, unknown> = { uploadStatus: status };
 
     if (parseMethod) updateData.parseMethod = parseMethod;
@@ -2370,7 +2940,7 @@ export class CsvIngestionService {
         console.log(`[Session] Row count changed: ${activeSession.expectedRowCount} → ${rowCount}. Superseding old session.`);
 
         // Mark old session as SUPERSEDED
-        await prisma.importBatch.update({
+        await this.updateImportBatch({
           where: { id: activeSession.id },
           data: { sessionStatus: 'SUPERSEDED' }
         });
@@ -2490,7 +3060,10 @@ export class CsvIngestionService {
     return brokerMap[format.id] || BrokerType.GENERIC_CSV;
   }
 
-  private normalizeAssetClass(value: string): string {
+  private normalizeAssetClass(value: string, symbol?: string): string {
+    // OCC-style and monthly futures symbols win over whatever the asset class column says
+    if (symbol && parseOptionSymbol(symbol)) return 'OPTIONS';
+    if (symbol && isFuturesContractSymbol(symbol)) return 'FUTURES';
     if (!value) return 'EQUITY';
     const normalized = value.toUpperCase().trim();
 
@@ -2501,6 +3074,8 @@ export class CsvIngestionService {
         return 'EQUITY';
       case 'OPTION':
       case 'OPTIONS':
+      case 'OPT':
+      case 'EQUITY AND INDEX OPTIONS':
         return 'OPTIONS';
       case 'FUTURE':
       case 'FUTURES':
@@ -2516,6 +3091,65 @@ export class CsvIngestionService {
     }
   }
 
+  /**
+   * Resolve structured contract fields for a row
+   * Options come from OCC/broker option notation or explicit strike/expiration/right columns,
+   * futures from the contract-spec registry. Returns the canonical symbol alongside the fields.
+   */
+  private resolveInstrument(
+    rawSymbol: string,
+    data: Record<string, unknown>
+  ): { symbol: string; contract: ContractFields } | null {
+    const futures = parseFuturesSymbol(rawSymbol);
+    if (futures && (futures.monthCode || this.normalizeAssetClass(String(data.assetClass || '')) === 'FUTURES')) {
+      return {
+        symbol: futures.contractSymbol,
+        contract: {
+          underlyingSymbol: futures.root,
+          contractMultiplier: futures.spec.pointValue,
+        },
+      };
+    }
+
+    const multiplier = Number(data.contractMultiplier) || STANDARD_OPTION_MULTIPLIER;
+    const parsed = parseOptionSymbol(rawSymbol);
+
+    if (parsed) {
+      return {
+        symbol: parsed.occSymbol,
+        contract: {
+          underlyingSymbol: parsed.underlyingSymbol,
+          optionRight: parsed.optionRight,
+          strikePrice: parsed.strikePrice,
+          expirationDate: parsed.expirationDate,
+          contractMultiplier: multiplier,
+        },
+      };
+    }
+
+    const optionRight = normalizeOptionRight(data.optionType);
+    const strikePrice = Number(String(data.strikePrice ?? '').replace(/[$,]/g, ''));
+    const expiration = this.parseDateSafely(data.expirationDate);
+    const underlyingSymbol = rawSymbol.toUpperCase().trim();
+
+    if (!optionRight || !(strikePrice > 0) || !expiration || !underlyingSymbol) {
+      return null;
+    }
+
+    const expirationDate = new Date(Date.UTC(expiration.getFullYear(), expiration.getMonth(), expiration.getDate()));
+
+    return {
+      symbol: formatOccSymbol(underlyingSymbol, expirationDate, optionRight, strikePrice),
+      contract: {
+        underlyingSymbol,
+        optionRight,
+        strikePrice,
+        expirationDate,
+        contractMultiplier: multiplier,
+      },
+    };
+  }
+
   private applyDetectedFormatMapping(row: Record<string, unknown>, format: CsvFormat, accountTags: string[]): NormalizedOrder {
     const normalizedData: Record<string, unknown> = {};
     const mappedFields = new Set<string>(); // Track which target fields have been mapped
@@ -2638,15 +3272,19 @@ export class CsvIngestionService {
       orderExecutedTime = currentTime;
     }
 
+    // Options/futures: normalize the symbol and carry the structured contract fields
+    const instrument = this.resolveInstrument(String(normalizedData.symbol || ''), normalizedData);
+
     // Ensure required fields have defaults for orders
     const order: NormalizedOrder = {
       orderId: String(normalizedData.orderId || ''),
       parentOrderId: normalizedData.parentOrderId ? String(normalizedData.parentOrderId) : null,
-      symbol: String(normalizedData.symbol || ''),
+      symbol: instrument?.symbol ?? String(normalizedData.symbol || ''),
+      assetClass: normalizedData.assetClass ? String(normalizedData.assetClass) : null,
       orderType: String(normalizedData.orderType || 'MARKET'),
       side: this.normalizeOrderSide(String(normalizedData.side) || 'BUY'),
       timeInForce: 'DAY',
-      orderQuantity: Number(normalizedData.orderQuantity) || 0,
+      orderQuantity: parseQuantity(normalizedData.orderQuantity) ?? 0,
       limitPrice: normalizedData.limitPrice ? Number(normalizedData.limitPrice) : null,
       stopPrice: normalizedData.stopPrice ? Number(normalizedData.stopPrice) : null,
       orderStatus: 'FILLED',
@@ -2656,6 +3294,7 @@ export class CsvIngestionService {
       orderAccount: normalizedData.orderAccount ? String(normalizedData.orderAccount) : null,
       orderRoute: normalizedData.orderRoute ? String(normalizedData.orderRoute) : null,
       tags: Array.isArray(normalizedData.tags) ? normalizedData.tags as string[] : accountTags,
+      instrument: instrument?.contract,
     };
     
     return order;
@@ -2702,7 +3341,7 @@ export class CsvIngestionService {
     }
 
     // No side field exists - infer from quantity
-    const quantity = Number(mappedData.orderQuantity) || Number(mappedData.quantity) || 0;
+    const quantity = parseQuantity(mappedData.orderQuantity) || parseQuantity(mappedData.quantity) || 0;
 
     if (quantity === 0) {
       // No quantity or zero quantity - can't infer, leave as-is
@@ -2784,11 +3423,11 @@ export class CsvIngestionService {
                        schwabResult.cancelledOrders.length;
 
     // Look up or create Charles Schwab broker to get brokerId
-    const broker = await this.brokerFormatService.findOrCreateBroker('Charles Schwab');
+    const broker = await this.getImportBroker('Charles Schwab');
     const brokerId = broker.id;
 
     // Create import batch
-    const importBatch = await prisma.importBatch.create({
+    const importBatch = await this.createImportBatch({
       data: {
         userId,
         filename: fileName,
@@ -2815,11 +3454,11 @@ export class CsvIngestionService {
     for (let index = 0; index < filledOrders.length; index++) {
       const order = filledOrders[index];
       try {
-        await prisma.order.create({
+        await this.createOrder({
           data: {
             userId,
             importBatchId: importBatch.id,
-            orderId: `schwab-${Date.now()}-${index}`,
+            orderId: this.generateOrderId('schwab', index),
             symbol: order.symbol || '',
             assetClass: 'EQUITY' as any,
             orderType: this.normalizeOrderType(order.orderType || 'Market'),
@@ -2848,11 +3487,11 @@ export class CsvIngestionService {
     for (let index = 0; index < workingOrders.length; index++) {
       const order = workingOrders[index];
       try {
-        await prisma.order.create({
+        await this.createOrder({
           data: {
             userId,
             importBatchId: importBatch.id,
-            orderId: `schwab-working-${Date.now()}-${index}`,
+            orderId: this.generateOrderId('schwab-working', index),
             symbol: order.symbol || '',
             assetClass: 'EQUITY' as any,
             orderType: this.normalizeOrderType(order.orderType || 'Market'),
@@ -2881,11 +3520,11 @@ export class CsvIngestionService {
       const order = cancelledOrders[index];
       try {
         if (order.symbol) { // Only process orders with symbols
-          await prisma.order.create({
+          await this.createOrder({
             data: {
               userId,
               importBatchId: importBatch.id,
-              orderId: `schwab-cancelled-${Date.now()}-${index}`,
+              orderId: this.generateOrderId('schwab-cancelled', index),
               symbol: order.symbol,
               assetClass: 'EQUITY' as any,
               orderType: this.normalizeOrderType(order.orderType || 'Market'),
@@ -2917,7 +3556,7 @@ export class CsvIngestionService {
     }
 
     // Update import batch with results
-    await prisma.importBatch.update({
+    await this.updateImportBatch({
       where: { id: importBatch.id },
       data: {
         status: errorCount === totalTrades ? 'FAILED' : 'COMPLETED',
@@ -2944,6 +3583,630 @@ export class CsvIngestionService {
     };
   }
 
+  /**
+   * Import an Interactive Brokers Flex Query XML export
+   * Each execution becomes a filled order keyed by its IBKR execution id, so re-importing an
+   * overlapping statement skips fills that are already in.
+   */
+  private async processIbkrFlexXml(
+    fileContent: string,
+    fileName: string,
+    userId: string,
+    accountTags: string[],
+    uploadLogId: string,
+    fileSize: number
+  ): Promise<CsvIngestionResult> {
+    const flexResult = parseIbkrFlexXml(fileContent);
+    const executions = flexResult.executions;
+
+    const broker = await this.getImportBroker(IBKR_FLEX_FORMAT.brokerName);
+
+    const importBatch = await this.createImportBatch({
+      data: {
+        userId,
+        filename: fileName,
+        fileSize,
+        brokerType: BrokerType.INTERACTIVE_BROKERS,
+        importType: 'CUSTOM',
+        status: 'PROCESSING',
+        totalRecords: executions.length,
+        aiMappingUsed: false,
+        mappingConfidence: 1.0, // Native parser, no column mapping involved
+        userReviewRequired: false,
+      },
+    });
+
+    await this.updateUploadLog(uploadLogId, 'PARSING', 'STANDARD', undefined, importBatch.id);
+
+    const errors: string[] = [...flexResult.errors];
+    const duplicateMessages: string[] = [];
+    const createdOrderIds: string[] = [];
+    let successCount = 0;
+    let errorCount = flexResult.errors.length;
+    let duplicateCount = 0;
+
+    // Execution ids are unique per broker across all users
+    const existingOrders = await prisma.order.findMany({
+      where: { brokerType: BrokerType.INTERACTIVE_BROKERS, orderId: { in: executions.map(execution => execution.execId) } },
+      select: { orderId: true },
+    });
+    const existingExecIds = new Set(existingOrders.map(order => order.orderId));
+
+    for (const execution of executions) {
+      if (existingExecIds.has(execution.execId)) {
+        duplicateCount++;
+        duplicateMessages.push(`Execution ${execution.execId}: ${execution.symbol} ${execution.quantity} at ${execution.executedAt.toISOString()} already imported`);
+        continue;
+      }
+      existingExecIds.add(execution.execId);
+
+      try {
+        const createdOrder = await this.createOrder({
+          data: {
+            userId,
+            importBatchId: importBatch.id,
+            orderId: execution.execId,
+            parentOrderId: execution.ibOrderId ?? null,
+            symbol: execution.symbol,
+            assetClass: execution.assetClass,
+            orderType: execution.orderType,
+            side: execution.side,
+            timeInForce: TimeInForce.DAY,
+            orderQuantity: execution.quantity,
+            limitPrice: execution.price,
+            orderStatus: OrderStatus.FILLED,
+            orderPlacedTime: execution.placedAt ?? execution.executedAt,
+            orderExecutedTime: execution.executedAt,
+            datePrecision: execution.datePrecision,
+            accountId: execution.accountId ?? null,
+            orderAccount: execution.accountId ?? null,
+            orderRoute: execution.exchange ?? null,
+            commission: execution.commission,
+            fees: execution.fees,
+            currency: normalizeCurrency(execution.currency),
+            ...execution.contract,
+            brokerType: BrokerType.INTERACTIVE_BROKERS,
+            brokerId: broker.id,
+            brokerMetadata: execution.attributes,
+            tags: accountTags,
+          },
+        });
+
+        createdOrderIds.push(createdOrder.id);
+        successCount++;
+      } catch (error: unknown) {
+        errorCount++;
+        errors.push(`Execution ${execution.execId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    await this.updateImportBatch({
+      where: { id: importBatch.id },
+      data: {
+        status: successCount === 0 && duplicateCount === 0 ? 'FAILED' : 'COMPLETED',
+        successCount,
+        errorCount,
+        errors: errors.length > 0 ? errors : undefined,
+        processingCompleted: new Date(),
+      },
+    });
+
+    await this.updateUploadLog(uploadLogId, 'IMPORTED', 'STANDARD');
+
+    if (successCount > 0) {
+      try {
+        await this.calculateTrades(userId);
+      } catch (error: unknown) {
+        console.error('Trade calculation error:', error);
+        // Don't fail the import if trade calculation fails
+      }
+    }
+
+    console.log(`[CSV_INGESTION] IBKR Flex import: ${successCount} orders, ${duplicateCount} duplicates, ${flexResult.skipped} rows skipped`);
+
+    return {
+      success: successCount > 0 || duplicateCount > 0,
+      importBatchId: importBatch.id,
+      importType: 'CUSTOM',
+      totalRecords: executions.length,
+      successCount,
+      errorCount,
+      duplicateCount: duplicateCount > 0 ? duplicateCount : undefined,
+      errors,
+      duplicateMessages: duplicateMessages.length > 0 ? duplicateMessages : undefined,
+      requiresUserReview: false,
+      requiresBrokerSelection: false,
+      brokerFormatUsed: IBKR_FLEX_FORMAT.name,
+      orderIds: createdOrderIds,
+      sessionComplete: true, // The whole statement is read in one pass
+    };
+  }
+
+  /**
+   * Import an OFX / QFX investment statement
+   * Trades become filled orders and income, fees and transfers go to the cash ledger, both keyed by
+   * account and FITID so overlapping statement downloads only add what is new.
+   */
+  private async processOfxStatement(
+    fileContent: string,
+    fileName: string,
+    userId: string,
+    accountTags: string[],
+    uploadLogId: string,
+    fileSize: number
+  ): Promise<CsvIngestionResult> {
+    const ofxResult = parseOfx(fileContent);
+    const { executions, cashActivities } = ofxResult;
+    const totalRecords = executions.length + cashActivities.length;
+
+    const broker = await this.getImportBroker(ofxResult.institution ?? OFX_FORMAT.brokerName);
+    const brokerType = this.getBrokerTypeFromName(broker.name);
+
+    const importBatch = await this.createImportBatch({
+      data: {
+        userId,
+        filename: fileName,
+        fileSize,
+        brokerType,
+        importType: 'CUSTOM',
+        status: 'PROCESSING',
+        totalRecords,
+        aiMappingUsed: false,
+        mappingConfidence: 1.0, // Native parser, no column mapping involved
+        userReviewRequired: false,
+      },
+    });
+
+    await this.updateUploadLog(uploadLogId, 'PARSING', 'STANDARD', undefined, importBatch.id);
+
+    const errors: string[] = [...ofxResult.errors];
+    const duplicateMessages: string[] = [];
+    const createdOrderIds: string[] = [];
+    let successCount = 0;
+    let errorCount = ofxResult.errors.length;
+    let duplicateCount = 0;
+    let cashActivityCount = 0;
+
+    const existingOrders = await prisma.order.findMany({
+      where: { brokerType, orderId: { in: executions.map(execution => execution.externalId) } },
+      select: { orderId: true },
+    });
+    const existingIds = new Set(existingOrders.map(order => order.orderId));
+
+    for (const execution of executions) {
+      if (existingIds.has(execution.externalId)) {
+        duplicateCount++;
+        duplicateMessages.push(`Transaction ${execution.externalId}: ${execution.symbol} ${execution.quantity} at ${execution.executedAt.toISOString()} already imported`);
+        continue;
+      }
+      existingIds.add(execution.externalId);
+
+      try {
+        const createdOrder = await this.createOrder({
+          data: {
+            userId,
+            importBatchId: importBatch.id,
+            orderId: execution.externalId,
+            symbol: execution.symbol,
+            assetClass: execution.assetClass,
+            orderType: OrderType.MARKET, // OFX does not record order types
+            side: execution.side,
+            timeInForce: TimeInForce.DAY,
+            orderQuantity: execution.quantity,
+            limitPrice: execution.price,
+            orderStatus: OrderStatus.FILLED,
+            orderPlacedTime: execution.executedAt,
+            orderExecutedTime: execution.executedAt,
+            datePrecision: execution.datePrecision,
+            accountId: execution.accountId ?? null,
+            orderAccount: execution.accountId ?? null,
+            commission: execution.commission,
+            fees: execution.fees,
+            currency: normalizeCurrency(execution.currency),
+            ...execution.contract,
+            brokerType,
+            brokerId: broker.id,
+            brokerMetadata: execution.attributes,
+            tags: accountTags,
+          },
+        });
+
+        createdOrderIds.push(createdOrder.id);
+        successCount++;
+      } catch (error: unknown) {
+        errorCount++;
+        errors.push(`Transaction ${execution.externalId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (cashActivities.length > 0) {
+      try {
+        cashActivityCount = await this.createCashActivities(userId, cashActivities.map(activity => ({
+          activityType: activity.activityType,
+          amount: activity.amount,
+          currency: normalizeCurrency(activity.currency),
+          symbol: activity.symbol,
+          description: activity.description,
+          occurredAt: activity.occurredAt,
+          importSource: ImportSource.CSV,
+          importBatchId: importBatch.id,
+          externalAccountId: activity.accountId,
+          externalId: activity.externalId,
+          brokerMetadata: activity.attributes,
+        })));
+        duplicateCount += cashActivities.length - cashActivityCount;
+      } catch (error: unknown) {
+        errorCount += cashActivities.length;
+        errors.push(`Cash activity: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    await this.updateImportBatch({
+      where: { id: importBatch.id },
+      data: {
+        status: successCount === 0 && cashActivityCount === 0 && duplicateCount === 0 ? 'FAILED' : 'COMPLETED',
+        successCount,
+        errorCount,
+        errors: errors.length > 0 ? errors : undefined,
+        processingCompleted: new Date(),
+      },
+    });
+
+    await this.updateUploadLog(uploadLogId, 'IMPORTED', 'STANDARD');
+
+    if (successCount > 0) {
+      try {
+        await this.calculateTrades(userId);
+      } catch (error: unknown) {
+        console.error('Trade calculation error:', error);
+        // Don't fail the import if trade calculation fails
+      }
+    } else if (cashActivityCount > 0) {
+      await this.attributeFinancingCosts(userId);
+    }
+
+    console.log(`[CSV_INGESTION] OFX import from ${broker.name}: ${successCount} orders, ${cashActivityCount} cash activities, ${duplicateCount} duplicates, ${ofxResult.skipped} transactions skipped`);
+
+    return {
+      success: successCount > 0 || cashActivityCount > 0 || duplicateCount > 0,
+      importBatchId: importBatch.id,
+      importType: 'CUSTOM',
+      totalRecords,
+      successCount,
+      errorCount,
+      duplicateCount: duplicateCount > 0 ? duplicateCount : undefined,
+      cashActivityCount: cashActivityCount > 0 ? cashActivityCount : undefined,
+      errors,
+      duplicateMessages: duplicateMessages.length > 0 ? duplicateMessages : undefined,
+      requiresUserReview: false,
+      requiresBrokerSelection: false,
+      brokerFormatUsed: OFX_FORMAT.name,
+      orderIds: createdOrderIds,
+      sessionComplete: true,
+    };
+  }
+
+  /**
+   * Import a FIX drop-copy log
+   * Every fill becomes a filled order keyed by its ExecID. ExecIDs are only unique per session
+   * counterparty, so duplicates are looked up within the user's own FIX imports.
+   */
+  private async processFixLog(
+    fileContent: string,
+    fileName: string,
+    userId: string,
+    accountTags: string[],
+    uploadLogId: string,
+    fileSize: number
+  ): Promise<CsvIngestionResult> {
+    const fixResult = parseFixExecutionReports(fileContent);
+    const executions = fixResult.executions;
+
+    const broker = await this.getImportBroker(FIX_LOG_FORMAT.brokerName);
+
+    const importBatch = await this.createImportBatch({
+      data: {
+        userId,
+        filename: fileName,
+        fileSize,
+        brokerType: BrokerType.GENERIC_CSV,
+        importType: 'CUSTOM',
+        status: 'PROCESSING',
+        totalRecords: executions.length,
+        aiMappingUsed: false,
+        mappingConfidence: 1.0, // Native parser, no column mapping involved
+        userReviewRequired: false,
+      },
+    });
+
+    await this.updateUploadLog(uploadLogId, 'PARSING', 'STANDARD', undefined, importBatch.id);
+
+    const errors: string[] = [...fixResult.errors];
+    const duplicateMessages: string[] = [];
+    const createdOrderIds: string[] = [];
+    let successCount = 0;
+    let errorCount = fixResult.errors.length;
+    let duplicateCount = 0;
+
+    const existingOrders = await prisma.order.findMany({
+      where: { userId, brokerId: broker.id, orderId: { in: executions.map(execution => execution.execId) } },
+      select: { orderId: true },
+    });
+    const existingExecIds = new Set(existingOrders.map(order => order.orderId));
+
+    for (const execution of executions) {
+      if (existingExecIds.has(execution.execId)) {
+        duplicateCount++;
+        duplicateMessages.push(`ExecID ${execution.execId}: ${execution.symbol} ${execution.quantity} at ${execution.executedAt.toISOString()} already imported`);
+        continue;
+      }
+
+      try {
+        const createdOrder = await this.createOrder({
+          data: {
+            userId,
+            importBatchId: importBatch.id,
+            orderId: execution.execId,
+            parentOrderId: execution.orderId ?? null,
+            symbol: execution.symbol,
+            assetClass: execution.assetClass,
+            orderType: execution.orderType,
+            side: execution.side,
+            timeInForce: execution.timeInForce,
+            orderQuantity: execution.quantity,
+            limitPrice: execution.price,
+            orderStatus: OrderStatus.FILLED,
+            orderPlacedTime: execution.executedAt,
+            orderExecutedTime: execution.executedAt,
+            datePrecision: DatePrecision.MILLISECOND,
+            accountId: execution.accountId ?? null,
+            orderAccount: execution.accountId ?? null,
+            orderRoute: execution.exchange ?? null,
+            commission: execution.commission,
+            currency: normalizeCurrency(execution.currency),
+            ...execution.contract,
+            brokerType: BrokerType.GENERIC_CSV,
+            brokerId: broker.id,
+            brokerMetadata: execution.attributes,
+            tags: accountTags,
+          },
+        });
+
+        createdOrderIds.push(createdOrder.id);
+        successCount++;
+      } catch (error: unknown) {
+        errorCount++;
+        errors.push(`ExecID ${execution.execId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    await this.updateImportBatch({
+      where: { id: importBatch.id },
+      data: {
+        status: successCount === 0 && duplicateCount === 0 ? 'FAILED' : 'COMPLETED',
+        successCount,
+        errorCount,
+        errors: errors.length > 0 ? errors : undefined,
+        processingCompleted: new Date(),
+      },
+    });
+
+    await this.updateUploadLog(uploadLogId, 'IMPORTED', 'STANDARD');
+
+    if (successCount > 0) {
+      try {
+        await this.calculateTrades(userId);
+      } catch (error: unknown) {
+        console.error('Trade calculation error:', error);
+        // Don't fail the import if trade calculation fails
+      }
+    }
+
+    console.log(`[CSV_INGESTION] FIX log import: ${successCount} orders, ${duplicateCount} duplicates, ${fixResult.cancelled} busted fills, ${fixResult.skipped} reports skipped`);
+
+    return {
+      success: successCount > 0 || duplicateCount > 0,
+      importBatchId: importBatch.id,
+      importType: 'CUSTOM',
+      totalRecords: executions.length,
+      successCount,
+      errorCount,
+      duplicateCount: duplicateCount > 0 ? duplicateCount : undefined,
+      errors,
+      duplicateMessages: duplicateMessages.length > 0 ? duplicateMessages : undefined,
+      requiresUserReview: false,
+      requiresBrokerSelection: false,
+      brokerFormatUsed: FIX_LOG_FORMAT.name,
+      orderIds: createdOrderIds,
+      sessionComplete: true,
+    };
+  }
+
+  /**
+   * Import a multi-section statement as one import batch
+   * Trade sections become filled orders and cash sections cash activities. Rows without an
+   * execution id are keyed by a digest of the row, so re-imports of overlapping statements are
+   * deduplicated within the user's imports from the broker. Open positions are not imported; they
+   * are compared with the journal's open trades once trades are rebuilt.
+   */
+  private async processSectionedStatement(
+    fileContent: string,
+    fileName: string,
+    userId: string,
+    accountTags: string[],
+    uploadLogId: string,
+    fileSize: number,
+    formatId: string
+  ): Promise<CsvIngestionResult> {
+    const format = SECTIONED_STATEMENT_FORMATS.find(candidate => candidate.id === formatId)!;
+    const statement = mapSectionedStatement(splitCsvSections(fileContent), format);
+    const { executions, cashActivities, positions } = statement;
+    const totalRecords = executions.length + cashActivities.length;
+
+    const broker = await this.getImportBroker(format.brokerName);
+    const brokerType = this.getBrokerTypeFromName(broker.name);
+
+    const importBatch = await this.createImportBatch({
+      data: {
+        userId,
+        filename: fileName,
+        fileSize,
+        brokerType,
+        importType: 'CUSTOM',
+        status: 'PROCESSING',
+        totalRecords,
+        aiMappingUsed: false,
+        mappingConfidence: 1.0, // Section mappings are defined per format
+        userReviewRequired: false,
+      },
+    });
+
+    await this.updateUploadLog(uploadLogId, 'PARSING', 'STANDARD', undefined, importBatch.id);
+
+    const errors: string[] = [...statement.errors];
+    const duplicateMessages: string[] = [];
+    const createdOrderIds: string[] = [];
+    let successCount = 0;
+    let errorCount = statement.errors.length;
+    let duplicateCount = 0;
+    let cashActivityCount = 0;
+
+    const existingOrders = await prisma.order.findMany({
+      where: { userId, brokerId: broker.id, orderId: { in: executions.map(execution => execution.externalId) } },
+      select: { orderId: true },
+    });
+    const existingIds = new Set(existingOrders.map(order => order.orderId));
+
+    for (const execution of executions) {
+      if (existingIds.has(execution.externalId)) {
+        duplicateCount++;
+        duplicateMessages.push(`${execution.section}: ${execution.side} ${execution.quantity} ${execution.symbol} at ${execution.executedAt.toISOString()} already imported`);
+        continue;
+      }
+      existingIds.add(execution.externalId);
+
+      try {
+        const createdOrder = await this.createOrder({
+          data: {
+            userId,
+            importBatchId: importBatch.id,
+            orderId: execution.externalId,
+            symbol: execution.symbol,
+            assetClass: execution.assetClass,
+            orderType: execution.orderType,
+            side: execution.side,
+            timeInForce: TimeInForce.DAY,
+            orderQuantity: execution.quantity,
+            limitPrice: execution.price,
+            orderStatus: OrderStatus.FILLED,
+            orderPlacedTime: execution.executedAt,
+            orderExecutedTime: execution.executedAt,
+            datePrecision: execution.datePrecision,
+            accountId: execution.accountId ?? null,
+            orderAccount: execution.accountId ?? null,
+            commission: execution.commission,
+            fees: execution.fees,
+            currency: normalizeCurrency(execution.currency),
+            ...execution.contract,
+            brokerType,
+            brokerId: broker.id,
+            brokerMetadata: execution.attributes,
+            tags: accountTags,
+          },
+        });
+
+        createdOrderIds.push(createdOrder.id);
+        successCount++;
+      } catch (error: unknown) {
+        errorCount++;
+        errors.push(`${execution.section} ${execution.symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (cashActivities.length > 0) {
+      try {
+        cashActivityCount = await this.createCashActivities(userId, cashActivities.map(activity => ({
+          activityType: activity.activityType,
+          amount: activity.amount,
+          currency: normalizeCurrency(activity.currency),
+          symbol: activity.symbol,
+          description: activity.description,
+          occurredAt: activity.occurredAt,
+          importSource: ImportSource.CSV,
+          importBatchId: importBatch.id,
+          externalAccountId: activity.accountId,
+          externalId: activity.externalId,
+          brokerMetadata: activity.attributes,
+        })));
+        duplicateCount += cashActivities.length - cashActivityCount;
+      } catch (error: unknown) {
+        errorCount += cashActivities.length;
+        errors.push(`Cash activity: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    await this.updateImportBatch({
+      where: { id: importBatch.id },
+      data: {
+        status: successCount === 0 && cashActivityCount === 0 && duplicateCount === 0 && positions.length === 0 ? 'FAILED' : 'COMPLETED',
+        successCount,
+        errorCount,
+        errors: errors.length > 0 ? errors : undefined,
+        processingCompleted: new Date(),
+      },
+    });
+
+    await this.updateUploadLog(uploadLogId, 'IMPORTED', 'STANDARD');
+
+    if (successCount > 0) {
+      try {
+        await this.calculateTrades(userId);
+      } catch (error: unknown) {
+        console.error('Trade calculation error:', error);
+        // Don't fail the import if trade calculation fails
+      }
+    } else if (cashActivityCount > 0) {
+      await this.attributeFinancingCosts(userId);
+    }
+
+    let positionWarnings: string[] = [];
+    if (positions.length > 0) {
+      const openTrades = await prisma.trade.findMany({
+        where: { userId, status: TradeStatus.OPEN, symbol: { in: [...new Set(positions.map(position => position.symbol))] } },
+        select: { symbol: true, side: true, remainingQuantity: true },
+      });
+      positionWarnings = reconcilePositions(positions, openTrades.map(trade => ({
+        symbol: trade.symbol,
+        quantity: Number(trade.remainingQuantity ?? 0) * (trade.side === TradeSide.SHORT ? -1 : 1),
+      })));
+    }
+
+    const sectionSummary = statement.sections
+      .filter(section => section.kind)
+      .map(section => `${section.name} (${section.rows})`)
+      .join(', ');
+    console.log(`[CSV_INGESTION] ${format.name} import: ${successCount} orders, ${cashActivityCount} cash activities, ${duplicateCount} duplicates, ${positionWarnings.length} position differences; sections ${sectionSummary}`);
+
+    return {
+      success: successCount > 0 || cashActivityCount > 0 || duplicateCount > 0 || positions.length > 0,
+      importBatchId: importBatch.id,
+      importType: 'CUSTOM',
+      totalRecords,
+      successCount,
+      errorCount,
+      duplicateCount: duplicateCount > 0 ? duplicateCount : undefined,
+      cashActivityCount: cashActivityCount > 0 ? cashActivityCount : undefined,
+      positionWarnings: positionWarnings.length > 0 ? positionWarnings : undefined,
+      errors,
+      duplicateMessages: duplicateMessages.length > 0 ? duplicateMessages : undefined,
+      requiresUserReview: false,
+      requiresBrokerSelection: false,
+      brokerFormatUsed: format.name,
+      orderIds: createdOrderIds,
+      sessionComplete: true,
+    };
+  }
+
   private normalizeOrderType(orderType: string): 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP' | 'MARKET_ON_CLOSE' | 'LIMIT_ON_CLOSE' | 'PEGGED_TO_MIDPOINT' {
     const typeMap: { [key: string]: 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP' | 'MARKET_ON_CLOSE' | 'LIMIT_ON_CLOSE' | 'PEGGED_TO_MIDPOINT' } = {
       'Market': 'MARKET',
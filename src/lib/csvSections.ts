@@ -0,0 +1,589 @@
+/**
+ * Multi-section CSV statements
+ *
+ * Some broker statements are several CSV tables in one file. IBKR Activity Statements tag every
+ * row with its section and row kind ("Trades,Header,..." then "Trades,Data,..."); Schwab and
+ * thinkorswim account statements put a title line above each table and end it with a blank line.
+ * The file is split into sections here and a format definition maps each section on its own:
+ * trades become orders, dividends, fees, interest and transfers become cash activities, and open
+ * positions are kept to check the journal against.
+ */
+
+import { parse } from 'csv-parse/sync';
+import { createHash } from 'crypto';
+import { AssetClass, CashActivityType, DatePrecision, OptionRight, OrderSide, OrderType } from '@prisma/client';
+import type { CsvFormat } from '@/lib/csvFormatRegistry';
+import { classifyCashActivity, parseCashAmount, signCashAmount } from '@/lib/cashLedger';
+import { formatOccSymbol, normalizeOptionRight, parseOptionSymbol } from '@/lib/optionSymbols';
+import { parseFuturesSymbol } from '@/lib/futuresContracts';
+
+export interface CsvSection {
+  name: string;
+  headers: string[];
+  rows: Record<string, string>[];
+  accountId?: string; // From an "Account Statement for ..." line or an account information section
+  line: number; // Line of the section's header row
+}
+
+export type StatementSectionKind = 'trades' | 'dividends' | 'fees' | 'interest' | 'transfers' | 'cash' | 'positions';
+
+export type StatementColumn =
+  | 'executionId'
+  | 'account'
+  | 'symbol'
+  | 'description'
+  | 'assetCategory'
+  | 'dateTime'
+  | 'date'
+  | 'time'
+  | 'side'
+  | 'quantity'
+  | 'price'
+  | 'commission'
+  | 'fees'
+  | 'amount'
+  | 'currency'
+  | 'multiplier'
+  | 'expiration'
+  | 'strike'
+  | 'optionType'
+  | 'orderType';
+
+export interface SectionMapping {
+  kind: StatementSectionKind;
+  columns: Partial<Record<StatementColumn, string[]>>; // Candidate headers, the first one present is read
+  // Sections that list the same activity at several levels (IBKR orders and their executions):
+  // only rows whose column holds the first of the values found in the section are read
+  rowLevel?: { column: string; preference: string[] };
+  fillDown?: StatementColumn[]; // Blank cells take the value of the row above (spread legs)
+}
+
+export interface SectionedStatementFormat {
+  id: string;
+  name: string;
+  description: string;
+  brokerName: string;
+  detection: NonNullable<CsvFormat['detectionPatterns']['specialDetection']>;
+  sections: Record<string, SectionMapping>; // By section name, case-insensitive
+}
+
+export interface StatementContract {
+  underlyingSymbol: string;
+  optionRight?: OptionRight;
+  strikePrice?: number;
+  expirationDate?: Date;
+  contractMultiplier: number;
+}
+
+export interface StatementExecution {
+  externalId: string; // Execution id when the statement has one, otherwise a digest of the row
+  section: string;
+  accountId?: string;
+  symbol: string;
+  assetClass: AssetClass;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  executedAt: Date;
+  datePrecision: DatePrecision;
+  orderType: OrderType;
+  currency: string;
+  commission: number; // Positive
+  fees: number; // Positive
+  contract?: StatementContract;
+  attributes: Record<string, string>;
+}
+
+export interface StatementCashActivity {
+  externalId: string;
+  section: string;
+  activityType: CashActivityType;
+  amount: number; // Signed by its effect on cash
+  occurredAt: Date;
+  description: string;
+  symbol?: string;
+  currency: string;
+  accountId?: string;
+  attributes: Record<string, string>;
+}
+
+export interface StatementPosition {
+  section: string;
+  accountId?: string;
+  symbol: string;
+  assetClass: AssetClass;
+  quantity: number; // Negative for short positions
+}
+
+export interface SectionedStatement {
+  executions: StatementExecution[];
+  cashActivities: StatementCashActivity[];
+  positions: StatementPosition[];
+  sections: { name: string; kind?: StatementSectionKind; rows: number }[];
+  skipped: number; // Rows of mapped sections that are not activity (balances, summaries, trades in a cash section)
+  errors: string[];
+}
+
+// IBKR row kinds; only Header and Data rows carry the table
+const TAGGED_ROW_KINDS = ['Header', 'Data', 'SubTotal', 'Total', 'Notes'];
+const ACCOUNT_LINE = /^account statement for\s+([\w-]+)/i;
+// Schwab blocks: "Positions for account Individual ...123 as of 03:45 PM ET, 2024/03/15" titles the table below it
+const TITLED_ACCOUNT_LINE = /^([a-z][a-z ]*?) for account\s+(.+?)(?:\s+as of\b.*)?$/i;
+const TOTAL_CELL = /^(overall )?totals?( .* in [A-Z]{3})?$/i;
+const SELL_SIDE = /^(s|sell|sold|sld|short|sell short|sell to (open|close))\b/i;
+
+const ORDER_TYPES: Record<string, OrderType> = {
+  MKT: OrderType.MARKET,
+  MARKET: OrderType.MARKET,
+  LMT: OrderType.LIMIT,
+  LIMIT: OrderType.LIMIT,
+  STP: OrderType.STOP,
+  STOP: OrderType.STOP,
+  'STP LMT': OrderType.STOP_LIMIT,
+  'STOP LIMIT': OrderType.STOP_LIMIT,
+};
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// Cash sections whose rows all share one type; 'cash' sections are classified row by row
+const CASH_KIND_TYPES: Partial<Record<StatementSectionKind, CashActivityType>> = {
+  dividends: CashActivityType.DIVIDEND,
+  fees: CashActivityType.FEE,
+  interest: CashActivityType.INTEREST,
+};
+
+function readRecords(content: string): { cells: string[]; line: number }[] {
+  const records = parse(content, {
+    bom: true,
+    relax_column_count: true,
+    relax_quotes: true,
+    skip_empty_lines: false,
+    info: true,
+  }) as unknown as { record: string[]; info: { lines: number } }[];
+
+  // Spreadsheet-safe exports write text as ="value"
+  return records.map(({ record, info }) => ({
+    cells: record.map(cell => cell.trim().replace(/^="(.*)"$/, '$1')),
+    line: info.lines,
+  }));
+}
+
+function toRow(headers: string[], cells: string[]): Record<string, string> {
+  const row: Record<string, string> = {};
+  headers.forEach((header, index) => {
+    if (header || cells[index]) row[header || `Column ${index + 1}`] = cells[index] ?? '';
+  });
+  return row;
+}
+
+function isTotalRow(cells: string[]): boolean {
+  return cells.some(cell => TOTAL_CELL.test(cell));
+}
+
+function isTagged(records: { cells: string[] }[]): boolean {
+  const filled = records.filter(({ cells }) => cells.some(Boolean)).slice(0, 50);
+  const tagged = filled.filter(({ cells }) => TAGGED_ROW_KINDS.includes(cells[1]));
+  return tagged.length > 0 && tagged.length >= filled.length / 2;
+}
+
+/**
+ * IBKR style: every row starts with its section name and row kind
+ * A section can repeat its header when its columns change (stocks, then options), which starts a new table.
+ */
+function splitTaggedSections(records: { cells: string[]; line: number }[]): CsvSection[] {
+  const sections: CsvSection[] = [];
+  const current = new Map<string, CsvSection>();
+  let accountId: string | undefined;
+
+  for (const { cells, line } of records) {
+    const [name, kind, ...values] = cells;
+    if (kind === 'Header') {
+      const section: CsvSection = { name, headers: values, rows: [], accountId, line };
+      current.set(name, section);
+      sections.push(section);
+      continue;
+    }
+
+    const section = current.get(name);
+    if (kind !== 'Data' || !section || isTotalRow(values)) continue;
+
+    const row = toRow(section.headers, values);
+    section.rows.push(row);
+
+    // Account information is a field name / value table listed before the activity
+    if (/^account information$/i.test(name) && /^account$/i.test(row['Field Name'] ?? '')) {
+      accountId = row['Field Value'] || undefined;
+      sections.forEach(existing => { existing.accountId ??= accountId; });
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Schwab / thinkorswim style: a title line, a header row and data rows up to a blank line
+ */
+function splitBlockSections(records: { cells: string[]; line: number }[]): CsvSection[] {
+  const sections: CsvSection[] = [];
+  let title: string | undefined;
+  let current: CsvSection | undefined;
+  let accountId: string | undefined;
+
+  for (const { cells, line } of records) {
+    const filled = cells.filter(Boolean);
+    if (filled.length === 0) {
+      current = undefined;
+      title = undefined;
+      continue;
+    }
+
+    const account = filled.length === 1 ? filled[0].match(ACCOUNT_LINE) : null;
+    if (account) {
+      accountId = account[1];
+      current = undefined;
+      continue;
+    }
+
+    const titledAccount = filled.length === 1 ? filled[0].match(TITLED_ACCOUNT_LINE) : null;
+    if (titledAccount) {
+      title = titledAccount[1];
+      accountId = titledAccount[2];
+      current = undefined;
+      continue;
+    }
+
+    // A lone value in the first cell titles the next table, also when no blank line came before it
+    if (filled.length === 1 && cells[0] && (!current || cells.length === 1)) {
+      title = cells[0];
+      current = undefined;
+      continue;
+    }
+
+    if (!current) {
+      if (!title) continue;
+      current = { name: title, headers: cells, rows: [], accountId, line };
+      sections.push(current);
+      title = undefined;
+      continue;
+    }
+
+    if (!isTotalRow(cells)) {
+      current.rows.push(toRow(current.headers, cells));
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Split a statement into its tables
+ */
+export function splitCsvSections(content: string): CsvSection[] {
+  const records = readRecords(content);
+  return isTagged(records) ? splitTaggedSections(records) : splitBlockSections(records);
+}
+
+/**
+ * The format a statement is written in, or null for ordinary single-table CSV files
+ * The file start pattern decides when the format has one; otherwise at least two of its section
+ * titles must appear as sections.
+ */
+export function detectSectionedFormat(
+  content: string,
+  formats: SectionedStatementFormat[]
+): SectionedStatementFormat | null {
+  const head = content.slice(0, 64 * 1024);
+  const candidates = formats.filter(format =>
+    format.detection.fileStartPattern?.test(head)
+    || (format.detection.sectionHeaders ?? []).filter(section => content.includes(section)).length >= 2
+  );
+  if (candidates.length === 0) return null;
+
+  const names = new Set(splitCsvSections(content).map(section => section.name.toLowerCase()));
+  return candidates.find(format =>
+    (format.detection.sectionHeaders ?? []).filter(section => names.has(section.toLowerCase())).length
+      >= (format.detection.fileStartPattern?.test(head) ? 1 : 2)
+  ) ?? null;
+}
+
+/**
+ * Statement dates: 2024-03-15, 03/15/2024, 3/15/24 or 20240315, optionally followed by a time
+ * Times are in the statement's time zone and read as local time, like CSV timestamps.
+ */
+export function parseStatementDateTime(value: string | undefined): { date: Date; hasTime: boolean } | null {
+  const match = value?.trim().match(
+    /^(?:(\d{4})-(\d{1,2})-(\d{1,2})|(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})|(\d{4})(\d{2})(\d{2}))(?:[,;T\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?/i
+  );
+  if (!match) return null;
+
+  const [, isoYear, isoMonth, isoDay, usMonth, usDay, usYear, year, month, day, hours, minutes, seconds, meridiem] = match;
+  const fullYear = Number(isoYear ?? year ?? (usYear.length === 2 ? `20${usYear}` : usYear));
+  let hour = Number(hours ?? 0);
+  if (meridiem) hour = (hour % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+
+  const date = new Date(
+    fullYear,
+    Number(isoMonth ?? usMonth ?? month) - 1,
+    Number(isoDay ?? usDay ?? day),
+    hour,
+    Number(minutes ?? 0),
+    Number(seconds ?? 0)
+  );
+  return isNaN(date.getTime()) ? null : { date, hasTime: hours !== undefined };
+}
+
+// Option expirations: "19 JAN 24", "19JAN24", "Jan 19 2024" or any statement date
+function parseExpiration(value: string | undefined): Date | null {
+  const text = value?.trim().toUpperCase() ?? '';
+  const dayFirst = text.match(/^(\d{1,2})\s*([A-Z]{3})\s*(\d{2}|\d{4})$/);
+  const monthFirst = text.match(/^([A-Z]{3})\s+(\d{1,2}),?\s+(\d{2}|\d{4})$/);
+  const [day, month, year] = dayFirst
+    ? [dayFirst[1], dayFirst[2], dayFirst[3]]
+    : monthFirst ? [monthFirst[2], monthFirst[1], monthFirst[3]] : [];
+
+  if (day && month && year && MONTHS.includes(month)) {
+    return new Date(Date.UTC(Number(year.length === 2 ? `20${year}` : year), MONTHS.indexOf(month), Number(day)));
+  }
+
+  const parsed = parseStatementDateTime(text);
+  return parsed ? new Date(Date.UTC(parsed.date.getFullYear(), parsed.date.getMonth(), parsed.date.getDate())) : null;
+}
+
+function toNumber(value: string | undefined): number {
+  return parseCashAmount(value) ?? 0;
+}
+
+function digest(parts: (string | number | undefined)[]): string {
+  return createHash('sha256').update(parts.map(part => part ?? '').join('|')).digest('hex').slice(0, 24);
+}
+
+function resolveInstrument(
+  read: (column: StatementColumn) => string | undefined
+): { symbol: string; assetClass: AssetClass; contract?: StatementContract } | null {
+  const symbol = read('symbol')?.toUpperCase().replace(/^\./, '');
+  if (!symbol) return null;
+
+  const category = read('assetCategory') ?? '';
+  const typeValue = read('optionType');
+  const optionRight = typeValue ? normalizeOptionRight(typeValue) : null;
+  const strikePrice = toNumber(read('strike'));
+  const expirationDate = parseExpiration(read('expiration'));
+  const multiplier = toNumber(read('multiplier'));
+
+  // Contract spelled out across columns
+  if (optionRight && strikePrice > 0 && expirationDate) {
+    const underlyingSymbol = symbol.split(/\s+/)[0];
+    return {
+      symbol: formatOccSymbol(underlyingSymbol, expirationDate, optionRight, strikePrice),
+      assetClass: AssetClass.OPTIONS,
+      contract: { underlyingSymbol, optionRight, strikePrice, expirationDate, contractMultiplier: multiplier || 100 },
+    };
+  }
+
+  const option = parseOptionSymbol(symbol);
+  if (option && (/option/i.test(category) || !category)) {
+    return {
+      symbol: option.occSymbol,
+      assetClass: AssetClass.OPTIONS,
+      contract: { ...option, contractMultiplier: multiplier || 100 },
+    };
+  }
+
+  if (/future/i.test(category)) {
+    const futures = parseFuturesSymbol(symbol);
+    return {
+      symbol: futures?.contractSymbol ?? symbol,
+      assetClass: AssetClass.FUTURES,
+      contract: { underlyingSymbol: futures?.root ?? symbol, contractMultiplier: multiplier || futures?.spec.pointValue || 1 },
+    };
+  }
+
+  if (/crypto/i.test(category)) {
+    return { symbol, assetClass: AssetClass.CRYPTO };
+  }
+
+  return { symbol: symbol.split(/\s+/)[0], assetClass: AssetClass.EQUITY };
+}
+
+function mappingFor(format: SectionedStatementFormat, name: string): SectionMapping | undefined {
+  const key = Object.keys(format.sections).find(section => section.toLowerCase() === name.toLowerCase());
+  return key ? format.sections[key] : undefined;
+}
+
+/**
+ * Read the sections of a statement through a format's section mappings
+ * Sections the format does not map are listed without being read.
+ */
+export function mapSectionedStatement(sections: CsvSection[], format: SectionedStatementFormat): SectionedStatement {
+  const result: SectionedStatement = { executions: [], cashActivities: [], positions: [], sections: [], skipped: 0, errors: [] };
+  // Identical rows are separate fills; the occurrence keeps their digests apart
+  const occurrences = new Map<string, number>();
+  const keyed = (parts: (string | number | undefined)[]) => {
+    const key = digest(parts);
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+    return `${format.id}-${occurrence === 0 ? key : digest([key, occurrence])}`;
+  };
+
+  for (const section of sections) {
+    const mapping = mappingFor(format, section.name);
+    result.sections.push({ name: section.name, kind: mapping?.kind, rows: section.rows.length });
+    if (!mapping) continue;
+
+    const header = (column: StatementColumn) =>
+      mapping.columns[column]?.find(candidate => section.headers.some(h => h.toLowerCase() === candidate.toLowerCase()));
+    const headers = Object.fromEntries(
+      (Object.keys(mapping.columns) as StatementColumn[]).map(column => {
+        const candidate = header(column);
+        return [column, candidate ? section.headers.find(h => h.toLowerCase() === candidate.toLowerCase()) : undefined];
+      })
+    ) as Partial<Record<StatementColumn, string>>;
+
+    const levelColumn = mapping.rowLevel && section.headers.includes(mapping.rowLevel.column) ? mapping.rowLevel.column : undefined;
+    const level = levelColumn
+      ? mapping.rowLevel!.preference.find(value => section.rows.some(row => row[levelColumn] === value))
+      : undefined;
+
+    let previous: Record<string, string> = {};
+    section.rows.forEach((row, index) => {
+      const label = `${section.name} row ${index + 1}`;
+      if (levelColumn && row[levelColumn] !== level) {
+        result.skipped++;
+        return;
+      }
+
+      const read = (column: StatementColumn): string | undefined => {
+        const name = headers[column];
+        const value = name ? row[name]?.trim() : undefined;
+        if (!value && mapping.fillDown?.includes(column)) return previous[column];
+        return value || undefined;
+      };
+      previous = Object.fromEntries(
+        (Object.keys(headers) as StatementColumn[]).map(column => [column, read(column) ?? ''])
+      );
+
+      const accountId = read('account') ?? section.accountId;
+      const currency = (read('currency') ?? 'USD').toUpperCase();
+      const dateText = read('dateTime') ?? [read('date'), read('time')].filter(Boolean).join(' ');
+      const when = parseStatementDateTime(dateText);
+
+      if (mapping.kind === 'positions') {
+        const instrument = resolveInstrument(read);
+        const quantity = toNumber(read('quantity'));
+        if (!instrument || !quantity) {
+          result.skipped++;
+          return;
+        }
+        result.positions.push({ section: section.name, accountId, symbol: instrument.symbol, assetClass: instrument.assetClass, quantity });
+        return;
+      }
+
+      if (mapping.kind === 'trades') {
+        // Currency conversions are not traded positions
+        if (/^(forex|cash)$/i.test(read('assetCategory') ?? '')) {
+          result.skipped++;
+          return;
+        }
+
+        const instrument = resolveInstrument(read);
+        const signedQuantity = toNumber(read('quantity'));
+        const quantity = Math.abs(signedQuantity);
+        if (!instrument || !quantity || !when) {
+          result.errors.push(`${label}: missing symbol, quantity or date`);
+          return;
+        }
+
+        const sideValue = read('side');
+        const side = sideValue ? (SELL_SIDE.test(sideValue) ? OrderSide.SELL : OrderSide.BUY) : (signedQuantity < 0 ? OrderSide.SELL : OrderSide.BUY);
+        const price = Math.abs(toNumber(read('price')));
+        const executionId = read('executionId');
+
+        result.executions.push({
+          externalId: executionId ?? keyed([accountId, section.name, instrument.symbol, side, quantity, price, dateText]),
+          section: section.name,
+          accountId,
+          ...instrument,
+          side,
+          quantity,
+          price,
+          executedAt: when.date,
+          datePrecision: when.hasTime ? DatePrecision.MILLISECOND : DatePrecision.DAILY,
+          orderType: ORDER_TYPES[read('orderType')?.toUpperCase() ?? ''] ?? OrderType.MARKET,
+          currency,
+          commission: Math.abs(toNumber(read('commission'))),
+          fees: Math.abs(toNumber(read('fees'))),
+          attributes: { section: section.name, ...row },
+        });
+        return;
+      }
+
+      // Cash sections
+      const amount = toNumber(read('amount'));
+      const description = read('description') ?? '';
+      if (!amount || !when) {
+        result.skipped++;
+        return;
+      }
+
+      const classified = classifyCashActivity(description);
+      let activityType: CashActivityType | null;
+      if (mapping.kind === 'transfers') {
+        activityType = classified === CashActivityType.TRANSFER && /acats?\b|journal/i.test(description)
+          ? CashActivityType.TRANSFER
+          : amount > 0 ? CashActivityType.DEPOSIT : CashActivityType.WITHDRAWAL;
+      } else if (mapping.kind === 'cash') {
+        activityType = classified;
+      } else {
+        // A more specific type wins: borrow fees in a fees section, debit interest in an interest section
+        activityType = classified && classified !== CashActivityType.TRANSFER ? classified : CASH_KIND_TYPES[mapping.kind]!;
+      }
+
+      if (!activityType) {
+        result.skipped++;
+        return;
+      }
+
+      // Dividend and tax descriptions lead with the ticker: "AAPL(US0378331005) Cash Dividend ..."
+      const symbol = read('symbol')?.toUpperCase() ?? description.match(/^([A-Z][A-Z0-9.]*)\s*\(/)?.[1];
+
+      result.cashActivities.push({
+        externalId: keyed([accountId, section.name, dateText, description, amount, currency]),
+        section: section.name,
+        activityType,
+        amount: signCashAmount(activityType, amount),
+        occurredAt: when.date,
+        description,
+        symbol,
+        currency,
+        accountId,
+        attributes: { section: section.name, ...row },
+      });
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Differences between a statement's open positions and the journal's open trades, one message each
+ * Quantities are compared per symbol across accounts; journal quantities are signed like positions.
+ */
+export function reconcilePositions(
+  positions: StatementPosition[],
+  journal: { symbol: string; quantity: number }[]
+): string[] {
+  const sum = (rows: { symbol: string; quantity: number }[]) => rows.reduce((totals, row) => {
+    totals.set(row.symbol, (totals.get(row.symbol) ?? 0) + row.quantity);
+    return totals;
+  }, new Map<string, number>());
+
+  const statement = sum(positions);
+  const journalTotals = sum(journal.filter(row => statement.has(row.symbol)));
+
+  return [...statement].flatMap(([symbol, quantity]) => {
+    const recorded = journalTotals.get(symbol) ?? 0;
+    return Math.abs(recorded - quantity) > 1e-8
+      ? [`${symbol}: statement shows ${quantity} open, journal has ${recorded}`]
+      : [];
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * Trade currencies and conversion to the user's base currency
+ *
+ * Orders keep the currency they executed in. When a trade is built its P&L, commission and fees are
+ * converted to the user's base currency with the daily rate for the day it closed, so every report
+ * can sum trades across currencies. Prices, cost basis and proceeds stay in the trade currency.
+ */
+
+import Papa from 'papaparse';
+
+export interface FxRateInput {
+  fromCurrency: string;
+  toCurrency: string;
+  date: string; // YYYY-MM-DD
+  rate: number; // Units of toCurrency for one unit of fromCurrency
+}
+
+export interface ParsedFxRates {
+  rates: FxRateInput[];
+  errors: string[];
+}
+
+export interface ConvertibleMoney {
+  pnl: number;
+  netPnl: number;
+  commission?: number;
+  fees?: number;
+}
+
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+// Rates are published on trading days only, so a weekend or holiday close uses the last rate before it
+export const FX_RATE_MAX_AGE_DAYS = 7;
+
+export const COMMON_CURRENCIES = ['USD', 'CAD', 'EUR', 'GBP', 'AUD', 'JPY', 'CHF', 'HKD', 'SGD', 'NZD', 'SEK', 'NOK', 'DKK', 'INR', 'MXN'];
+
+/**
+ * Upper-cased ISO 4217 code, or null when the value is not a three letter code
+ */
+export function normalizeCurrency(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const code = value.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+/**
+ * Convert a trade's money fields with a rate, rounded to cents
+ */
+export function convertMoney<T extends ConvertibleMoney>(money: T, rate: number): T {
+  const convert = (amount: number) => Math.round(amount * rate * 100) / 100 || 0;
+  return {
+    ...money,
+    pnl: convert(money.pnl),
+    netPnl: convert(money.netPnl),
+    commission: money.commission !== undefined ? convert(money.commission) : undefined,
+    fees: money.fees !== undefined ? convert(money.fees) : undefined,
+  };
+}
+
+/**
+ * Parse rates from a CSV with date, from, to and rate columns
+ * "base"/"quote" and "fromCurrency"/"toCurrency" are accepted for the currency columns. Rows that
+ * cannot be read are reported by line number and skipped.
+ */
+export function parseFxRatesCsv(csv: string): ParsedFxRates {
+  const parsed = Papa.parse<Record<string, string>>(csv.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: header => header.trim().toLowerCase().replace(/[\s_]/g, ''),
+  });
+
+  const rates: FxRateInput[] = [];
+  const errors: string[] = [];
+
+  parsed.data.forEach((row, index) => {
+    const line = index + 2; // Header is line 1
+    const fromCurrency = normalizeCurrency(row.from ?? row.base ?? row.fromcurrency);
+    const toCurrency = normalizeCurrency(row.to ?? row.quote ?? row.tocurrency);
+    const date = row.date?.trim();
+    const rate = parseFloat(row.rate ?? '');
+
+    if (!fromCurrency || !toCurrency || fromCurrency === toCurrency) {
+      errors.push(`Line ${line}: from and to must be different three letter currency codes`);
+    } else if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      errors.push(`Line ${line}: date must be YYYY-MM-DD`);
+    } else if (!isFinite(rate) || rate <= 0) {
+      errors.push(`Line ${line}: rate must be a positive number`);
+    } else {
+      rates.push({ fromCurrency, toCurrency, date, rate });
+    }
+  });
+
+  return { rates, errors };
+}
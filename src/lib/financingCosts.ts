@@ -0,0 +1,146 @@
+/**
+ * Financing cost attribution
+ *
+ * Brokers charge borrow fees on short positions and interest on margin debit balances as
+ * account-level cash activities, usually once a month, so they never reach per-trade P&L.
+ * Each charge is split across the positions held while it accrued: borrow fees over short
+ * positions in the charged symbol, margin interest over long positions in the account. A
+ * position's share follows its notional value times the days it was held within the window.
+ */
+
+import { CashActivityType, TradeSide } from '@prisma/client';
+import { addDays, differenceInCalendarDays, max as latest, min as earliest, startOfDay, subDays } from 'date-fns';
+
+export const FINANCING_TYPES: CashActivityType[] = [
+  CashActivityType.BORROW_FEE,
+  CashActivityType.MARGIN_INTEREST,
+];
+
+// Longest period one charge is taken to cover; brokers bill financing monthly
+export const ACCRUAL_WINDOW_DAYS = 31;
+
+export interface FinancingCharge {
+  id: string;
+  activityType: CashActivityType;
+  amount: number; // Signed as in the ledger: negative for a charge
+  symbol?: string | null;
+  accountId?: string | null;
+  occurredAt: Date;
+}
+
+export interface FinancedPosition {
+  id: string;
+  symbol: string;
+  side: TradeSide;
+  quantity: number;
+  price: number; // Entry price
+  multiplier?: number;
+  accountId?: string | null;
+  entryDate: Date;
+  exitDate?: Date | null; // Open positions are held through the charge date
+}
+
+export interface FinancingShare {
+  cashActivityId: string;
+  tradeId: string;
+  amount: number; // Positive for a cost
+  days: number;
+}
+
+export interface FinancingSummary {
+  borrowFees: number; // Charged in the period, positive for a cost
+  marginInterest: number;
+  attributed: number; // Part of the charges carried by trades
+  unattributed: number; // Charged while no matching position was held
+  bySymbol: Array<{ symbol: string; borrowFees: number; marginInterest: number; trades: number }>;
+  trades: Array<{
+    id: string;
+    symbol: string;
+    side: TradeSide;
+    entryDate: string;
+    exitDate: string | null;
+    pnl: number;
+    financingCost: number; // Share of the period's charges
+    netPnl: number;
+  }>;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100 || 0;
+}
+
+/**
+ * Days a position was held within [windowStart, windowEnd], counting the entry and exit days
+ */
+export function daysHeldInWindow(position: Pick<FinancedPosition, 'entryDate' | 'exitDate'>, windowStart: Date, windowEnd: Date): number {
+  const start = latest([startOfDay(position.entryDate), windowStart]);
+  const end = earliest([startOfDay(position.exitDate ?? windowEnd), windowEnd]);
+  return Math.max(0, differenceInCalendarDays(end, start) + 1);
+}
+
+function chargeKey(charge: FinancingCharge): string {
+  return [charge.activityType, charge.symbol?.toUpperCase() ?? '', charge.accountId ?? ''].join('|');
+}
+
+function isFinancedBy(charge: FinancingCharge, position: FinancedPosition): boolean {
+  if (charge.accountId && position.accountId && charge.accountId !== position.accountId) return false;
+
+  if (charge.activityType === CashActivityType.BORROW_FEE) {
+    return position.side === TradeSide.SHORT &&
+      (!charge.symbol || charge.symbol.toUpperCase() === position.symbol.toUpperCase());
+  }
+  return position.side === TradeSide.LONG;
+}
+
+/**
+ * Split each financing charge across the positions that incurred it
+ * A charge covers the days since the previous charge of the same kind (same type, symbol and
+ * account), at most ACCRUAL_WINDOW_DAYS. Charges no position was held for are left unattributed.
+ */
+export function allocateFinancingCosts(charges: FinancingCharge[], positions: FinancedPosition[]): FinancingShare[] {
+  const shares: FinancingShare[] = [];
+  const previousCharge = new Map<string, Date>();
+
+  const ordered = charges
+    .filter(charge => FINANCING_TYPES.includes(charge.activityType))
+    .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+  for (const charge of ordered) {
+    const key = chargeKey(charge);
+    const windowEnd = startOfDay(charge.occurredAt);
+    const previous = previousCharge.get(key);
+    const windowStart = latest([
+      subDays(windowEnd, ACCRUAL_WINDOW_DAYS - 1),
+      previous ? addDays(previous, 1) : new Date(0),
+    ]);
+    previousCharge.set(key, windowEnd);
+
+    const weighted = positions
+      .filter(position => isFinancedBy(charge, position))
+      .map(position => {
+        const days = daysHeldInWindow(position, windowStart, windowEnd);
+        const notional = Math.abs(position.quantity * position.price * (position.multiplier ?? 1)) || Math.abs(position.quantity) || 1;
+        return { position, days, weight: notional * days };
+      })
+      .filter(entry => entry.days > 0);
+
+    const totalWeight = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+    if (totalWeight === 0) continue;
+
+    // The last position takes the rounding remainder so the shares add back to the charge
+    const cost = roundCents(-charge.amount);
+    let remaining = cost;
+    weighted.forEach((entry, index) => {
+      const amount = index === weighted.length - 1
+        ? roundCents(remaining)
+        : roundCents(cost * (entry.weight / totalWeight));
+      remaining -= amount;
+
+      if (amount !== 0) {
+        shares.push({ cashActivityId: charge.id, tradeId: entry.position.id, amount, days: entry.days });
+      }
+    });
+  }
+
+  return shares;
+}
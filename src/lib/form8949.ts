@@ -0,0 +1,153 @@
+/**
+ * Form 8949 style exports of a tax year's rows
+ *
+ * Part I lists short-term sales and Part II long-term sales, each with the form's columns (a)-(h).
+ * The export is a worksheet to reconcile against broker 1099-Bs, not a filled-in IRS form.
+ */
+
+import Papa from 'papaparse';
+import { Form8949Row, Form8949Totals, sumForm8949Rows, TaxTerm } from './taxLots';
+import { renderTextPdf } from './textPdf';
+
+export interface Form8949Summary {
+  taxYear: number;
+  shortTerm: Form8949Totals & { count: number };
+  longTerm: Form8949Totals & { count: number };
+  washSales: { count: number; disallowed: number };
+}
+
+const PART_TITLES: Record<TaxTerm, string> = {
+  SHORT: 'Part I - Short-Term (held one year or less)',
+  LONG: 'Part II - Long-Term (held more than one year)',
+};
+
+/**
+ * Start (inclusive) and end (exclusive) of a tax year in UTC
+ */
+export function getTaxYearBounds(taxYear: number): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(taxYear, 0, 1)),
+    end: new Date(Date.UTC(taxYear + 1, 0, 1)),
+  };
+}
+
+/**
+ * Rows sold within the tax year, short-term first, each part in date sold order
+ */
+export function filterTaxYearRows(rows: Form8949Row[], taxYear: number): Form8949Row[] {
+  const { start, end } = getTaxYearBounds(taxYear);
+  return rows
+    .filter(row => row.dateSold >= start && row.dateSold < end)
+    .sort((a, b) =>
+      (a.term === b.term ? 0 : a.term === 'SHORT' ? -1 : 1) ||
+      a.dateSold.getTime() - b.dateSold.getTime()
+    );
+}
+
+/**
+ * Totals per part and the wash sales in the year
+ */
+export function summarizeForm8949(rows: Form8949Row[], taxYear: number): Form8949Summary {
+  const shortTerm = rows.filter(row => row.term === 'SHORT');
+  const longTerm = rows.filter(row => row.term === 'LONG');
+  const washed = rows.filter(row => row.adjustmentCode === 'W');
+
+  return {
+    taxYear,
+    shortTerm: { ...sumForm8949Rows(shortTerm), count: shortTerm.length },
+    longTerm: { ...sumForm8949Rows(longTerm), count: longTerm.length },
+    washSales: { count: washed.length, disallowed: sumForm8949Rows(washed).adjustment },
+  };
+}
+
+/**
+ * One CSV row per sale, with the form's column headings
+ */
+export function toForm8949Csv(rows: Form8949Row[]): string {
+  return Papa.unparse(rows.map(row => ({
+    'Part': row.term === 'SHORT' ? 'I' : 'II',
+    '(a) Description of property': row.description,
+    '(b) Date acquired': formatDate(row.dateAcquired),
+    '(c) Date sold or disposed of': formatDate(row.dateSold),
+    '(d) Proceeds': row.proceeds.toFixed(2),
+    '(e) Cost or other basis': row.costBasis.toFixed(2),
+    '(f) Code': row.adjustmentCode,
+    '(g) Amount of adjustment': row.adjustment ? row.adjustment.toFixed(2) : '',
+    '(h) Gain or (loss)': row.gainOrLoss.toFixed(2),
+    'Account': row.accountName ?? '',
+  })));
+}
+
+/**
+ * Printable worksheet with each part on its own pages and totals at the end of each part
+ */
+export function toForm8949Pdf(rows: Form8949Row[], taxYear: number): Buffer {
+  const header = [
+    pad('(a) Description', 34),
+    pad('(b) Acquired', 12),
+    pad('(c) Sold', 12),
+    padStart('(d) Proceeds', 14),
+    padStart('(e) Basis', 14),
+    pad(' (f)', 5),
+    padStart('(g) Adjust.', 12),
+    padStart('(h) Gain/(loss)', 16),
+  ].join(' ');
+
+  const lines: string[] = [];
+  (['SHORT', 'LONG'] as TaxTerm[]).forEach((term, index) => {
+    const partRows = rows.filter(row => row.term === term);
+    const totals = sumForm8949Rows(partRows);
+
+    if (index > 0) lines.push('\f');
+    lines.push(`Form 8949 worksheet - Sales and Other Dispositions of Capital Assets - Tax year ${taxYear}`);
+    lines.push(PART_TITLES[term]);
+    lines.push('');
+    lines.push(header);
+    lines.push('-'.repeat(header.length));
+
+    if (partRows.length === 0) lines.push('No sales');
+    for (const row of partRows) {
+      lines.push([
+        pad(row.description, 34),
+        pad(formatDate(row.dateAcquired), 12),
+        pad(formatDate(row.dateSold), 12),
+        padStart(formatMoney(row.proceeds), 14),
+        padStart(formatMoney(row.costBasis), 14),
+        pad(` ${row.adjustmentCode}`, 5),
+        padStart(row.adjustment ? formatMoney(row.adjustment) : '', 12),
+        padStart(formatMoney(row.gainOrLoss), 16),
+      ].join(' '));
+    }
+
+    lines.push('-'.repeat(header.length));
+    lines.push([
+      pad('Totals', 60),
+      padStart(formatMoney(totals.proceeds), 14),
+      padStart(formatMoney(totals.costBasis), 14),
+      pad('', 5),
+      padStart(totals.adjustment ? formatMoney(totals.adjustment) : '', 12),
+      padStart(formatMoney(totals.gainOrLoss), 16),
+    ].join(' '));
+  });
+
+  return renderTextPdf(lines);
+}
+
+function formatDate(date: Date): string {
+  const iso = date.toISOString();
+  return `${iso.slice(5, 7)}/${iso.slice(8, 10)}/${iso.slice(0, 4)}`;
+}
+
+// Losses in parentheses, as on the form
+function formatMoney(value: number): string {
+  const formatted = Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return value < 0 ? `(${formatted})` : formatted;
+}
+
+function pad(value: string, width: number): string {
+  return value.length > width ? value.slice(0, width) : value.padEnd(width);
+}
+
+function padStart(value: string, width: number): string {
+  return value.padStart(width);
+}
@@ -0,0 +1,252 @@
+/**
+ * Futures contract specification registry
+ *
+ * Maps a root symbol (ES, NQ, CL...) to the values needed to turn price moves into dollars.
+ * Monthly contracts (ESZ5, /ESZ25, ESH6) all resolve to their root so analytics can group them.
+ */
+
+export type FuturesExchange = 'CME' | 'CBOT' | 'NYMEX' | 'COMEX' | 'CFE';
+
+export interface FuturesSessionHours {
+  open: string;          // Electronic session open (HH:mm, in the exchange's timezone)
+  close: string;         // Electronic session close
+  regularOpen: string;   // Regular trading hours open
+  regularClose: string;  // Regular trading hours close
+}
+
+export interface FuturesContractSpec {
+  root: string;
+  name: string;
+  exchange: FuturesExchange;
+  pointValue: number;    // Dollars per 1.0 point move per contract
+  tickSize: number;      // Minimum price increment in points
+  sessionHours: FuturesSessionHours;
+}
+
+export interface ParsedFuturesSymbol {
+  root: string;
+  monthCode?: string;    // F G H J K M N Q U V X Z
+  year?: number;         // Four-digit contract year
+  contractSymbol: string; // Canonical symbol, e.g. ESZ5 (or the root for continuous symbols)
+  spec: FuturesContractSpec;
+}
+
+export interface FuturesPnlMeasures {
+  pnlPoints: number;     // Per-contract price move captured, in points
+  pnlTicks: number;      // Same move expressed in ticks
+}
+
+export const FUTURES_MONTH_CODES = ['F', 'G', 'H', 'J', 'K', 'M', 'N', 'Q', 'U', 'V', 'X', 'Z'] as const;
+
+// Timezone each exchange states its session hours in; CME Group venues trade on Globex in Chicago
+export const FUTURES_EXCHANGE_TIMEZONES: Record<FuturesExchange, string> = {
+  CME: 'America/Chicago',
+  CBOT: 'America/Chicago',
+  NYMEX: 'America/Chicago',
+  COMEX: 'America/Chicago',
+  CFE: 'America/Chicago',
+};
+
+const EQUITY_INDEX_HOURS: FuturesSessionHours = { open: '17:00', close: '16:00', regularOpen: '08:30', regularClose: '15:00' };
+const ENERGY_HOURS: FuturesSessionHours = { open: '17:00', close: '16:00', regularOpen: '08:00', regularClose: '13:30' };
+const METALS_HOURS: FuturesSessionHours = { open: '17:00', close: '16:00', regularOpen: '07:20', regularClose: '12:30' };
+const RATES_HOURS: FuturesSessionHours = { open: '17:00', close: '16:00', regularOpen: '07:20', regularClose: '14:00' };
+const GRAINS_HOURS: FuturesSessionHours = { open: '19:00', close: '13:20', regularOpen: '08:30', regularClose: '13:20' };
+const LIVESTOCK_HOURS: FuturesSessionHours = { open: '08:30', close: '13:05', regularOpen: '08:30', regularClose: '13:05' };
+const FX_HOURS: FuturesSessionHours = { open: '17:00', close: '16:00', regularOpen: '07:20', regularClose: '14:00' };
+const VIX_HOURS: FuturesSessionHours = { open: '17:00', close: '16:00', regularOpen: '08:30', regularClose: '15:15' };
+
+function spec(
+  root: string,
+  name: string,
+  exchange: FuturesExchange,
+  pointValue: number,
+  tickSize: number,
+  sessionHours: FuturesSessionHours
+): FuturesContractSpec {
+  return { root, name, exchange, pointValue, tickSize, sessionHours };
+}
+
+export const FUTURES_CONTRACT_SPECS: Record<string, FuturesContractSpec> = Object.fromEntries([
+  // Equity index
+  spec('ES', 'E-mini S&P 500', 'CME', 50, 0.25, EQUITY_INDEX_HOURS),
+  spec('MES', 'Micro E-mini S&P 500', 'CME', 5, 0.25, EQUITY_INDEX_HOURS),
+  spec('NQ', 'E-mini Nasdaq-100', 'CME', 20, 0.25, EQUITY_INDEX_HOURS),
+  spec('MNQ', 'Micro E-mini Nasdaq-100', 'CME', 2, 0.25, EQUITY_INDEX_HOURS),
+  spec('YM', 'E-mini Dow', 'CBOT', 5, 1, EQUITY_INDEX_HOURS),
+  spec('MYM', 'Micro E-mini Dow', 'CBOT', 0.5, 1, EQUITY_INDEX_HOURS),
+  spec('RTY', 'E-mini Russell 2000', 'CME', 50, 0.1, EQUITY_INDEX_HOURS),
+  spec('M2K', 'Micro E-mini Russell 2000', 'CME', 5, 0.1, EQUITY_INDEX_HOURS),
+  spec('VX', 'Cboe VIX', 'CFE', 1000, 0.05, VIX_HOURS),
+
+  // Energy
+  spec('CL', 'Crude Oil', 'NYMEX', 1000, 0.01, ENERGY_HOURS),
+  spec('MCL', 'Micro Crude Oil', 'NYMEX', 100, 0.01, ENERGY_HOURS),
+  spec('QM', 'E-mini Crude Oil', 'NYMEX', 500, 0.025, ENERGY_HOURS),
+  spec('NG', 'Natural Gas', 'NYMEX', 10000, 0.001, ENERGY_HOURS),
+  spec('RB', 'RBOB Gasoline', 'NYMEX', 42000, 0.0001, ENERGY_HOURS),
+  spec('HO', 'Heating Oil', 'NYMEX', 42000, 0.0001, ENERGY_HOURS),
+
+  // Metals
+  spec('GC', 'Gold', 'COMEX', 100, 0.1, METALS_HOURS),
+  spec('MGC', 'Micro Gold', 'COMEX', 10, 0.1, METALS_HOURS),
+  spec('SI', 'Silver', 'COMEX', 5000, 0.005, METALS_HOURS),
+  spec('SIL', 'Micro Silver', 'COMEX', 1000, 0.005, METALS_HOURS),
+  spec('HG', 'Copper', 'COMEX', 25000, 0.0005, METALS_HOURS),
+  spec('PL', 'Platinum', 'NYMEX', 50, 0.1, METALS_HOURS),
+
+  // Interest rates
+  spec('ZB', '30-Year Treasury Bond', 'CBOT', 1000, 1 / 32, RATES_HOURS),
+  spec('UB', 'Ultra Treasury Bond', 'CBOT', 1000, 1 / 32, RATES_HOURS),
+  spec('ZN', '10-Year Treasury Note', 'CBOT', 1000, 1 / 64, RATES_HOURS),
+  spec('ZF', '5-Year Treasury Note', 'CBOT', 1000, 1 / 128, RATES_HOURS),
+  spec('ZT', '2-Year Treasury Note', 'CBOT', 2000, 1 / 256, RATES_HOURS),
+
+  // Agriculture
+  spec('ZC', 'Corn', 'CBOT', 50, 0.25, GRAINS_HOURS),
+  spec('ZS', 'Soybeans', 'CBOT', 50, 0.25, GRAINS_HOURS),
+  spec('ZW', 'Chicago Wheat', 'CBOT', 50, 0.25, GRAINS_HOURS),
+  spec('ZL', 'Soybean Oil', 'CBOT', 600, 0.01, GRAINS_HOURS),
+  spec('ZM', 'Soybean Meal', 'CBOT', 100, 0.1, GRAINS_HOURS),
+  spec('LE', 'Live Cattle', 'CME', 400, 0.025, LIVESTOCK_HOURS),
+  spec('HE', 'Lean Hogs', 'CME', 400, 0.025, LIVESTOCK_HOURS),
+
+  // Currencies
+  spec('6E', 'Euro FX', 'CME', 125000, 0.00005, FX_HOURS),
+  spec('M6E', 'Micro Euro FX', 'CME', 12500, 0.0001, FX_HOURS),
+  spec('6J', 'Japanese Yen', 'CME', 12500000, 0.0000005, FX_HOURS),
+  spec('6B', 'British Pound', 'CME', 62500, 0.0001, FX_HOURS),
+  spec('6A', 'Australian Dollar', 'CME', 100000, 0.00005, FX_HOURS),
+  spec('6C', 'Canadian Dollar', 'CME', 100000, 0.00005, FX_HOURS),
+  spec('6S', 'Swiss Franc', 'CME', 125000, 0.00005, FX_HOURS),
+
+  // Crypto
+  spec('BTC', 'Bitcoin', 'CME', 5, 5, EQUITY_INDEX_HOURS),
+  spec('MBT', 'Micro Bitcoin', 'CME', 0.1, 5, EQUITY_INDEX_HOURS),
+].map(contract => [contract.root, contract]));
+
+// Root, month code, then a 1, 2 or 4 digit year (ESZ5, ESZ25, ESZ2025)
+const CONTRACT_PATTERN = /^(.+?)([FGHJKMNQUVXZ])(\d|\d{2}|\d{4})$/;
+
+function normalizeFuturesSymbol(symbol: string): string {
+  return symbol.toUpperCase().trim().replace(/^\//, '').replace(/\s+/g, '');
+}
+
+/**
+ * Resolve a contract year; single digits map to the closest matching year within five years of now
+ */
+function resolveContractYear(year: string, now: Date = new Date()): number {
+  if (year.length === 4) return parseInt(year, 10);
+  if (year.length === 2) return 2000 + parseInt(year, 10);
+
+  const currentYear = now.getFullYear();
+  const candidate = currentYear - (currentYear % 10) + parseInt(year, 10);
+  if (candidate > currentYear + 4) return candidate - 10;
+  if (candidate < currentYear - 5) return candidate + 10;
+  return candidate;
+}
+
+/**
+ * Parse a futures symbol (ESZ5, /ESZ25, ES) into its root and contract month
+ * Returns null when the root is not in the registry
+ */
+export function parseFuturesSymbol(symbol: string | null | undefined): ParsedFuturesSymbol | null {
+  if (!symbol) return null;
+  const value = normalizeFuturesSymbol(symbol);
+
+  const match = value.match(CONTRACT_PATTERN);
+  if (match) {
+    const [, root, monthCode, year] = match;
+    const contractSpec = FUTURES_CONTRACT_SPECS[root];
+    if (contractSpec) {
+      const fullYear = resolveContractYear(year);
+      return {
+        root,
+        monthCode,
+        year: fullYear,
+        contractSymbol: `${root}${monthCode}${fullYear % 10}`,
+        spec: contractSpec,
+      };
+    }
+  }
+
+  // Continuous/front-month symbols are just the root
+  const contractSpec = FUTURES_CONTRACT_SPECS[value];
+  if (contractSpec) {
+    return { root: value, contractSymbol: value, spec: contractSpec };
+  }
+
+  return null;
+}
+
+/**
+ * Whether a symbol names a specific monthly futures contract (ESZ5), not just a root
+ * Used for asset class detection where a bare root could be an equity ticker
+ */
+export function isFuturesContractSymbol(symbol: string | null | undefined): boolean {
+  return !!parseFuturesSymbol(symbol)?.monthCode;
+}
+
+/**
+ * Get the contract spec for a root or monthly contract symbol
+ */
+export function getFuturesContractSpec(symbol: string | null | undefined): FuturesContractSpec | null {
+  return parseFuturesSymbol(symbol)?.spec ?? null;
+}
+
+/**
+ * Get the root symbol used to group monthly contracts (ESZ5, ESH6 -> ES)
+ */
+export function getFuturesRoot(symbol: string | null | undefined): string | null {
+  return parseFuturesSymbol(symbol)?.root ?? null;
+}
+
+/**
+ * Express a per-contract price move in points and ticks
+ */
+export function calculateFuturesPnlMeasures(
+  contractSpec: FuturesContractSpec,
+  side: 'LONG' | 'SHORT',
+  avgEntryPrice: number,
+  avgExitPrice: number
+): FuturesPnlMeasures {
+  const pnlPoints = side === 'LONG' ? avgExitPrice - avgEntryPrice : avgEntryPrice - avgExitPrice;
+  return {
+    pnlPoints: Math.round(pnlPoints * 10000) / 10000,
+    pnlTicks: Math.round((pnlPoints / contractSpec.tickSize) * 100) / 100,
+  };
+}
+
+/**
+ * Minutes past midnight on the exchange's wall clock, whatever the server timezone
+ */
+function exchangeMinutesOfDay(time: Date, exchange: FuturesExchange): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: FUTURES_EXCHANGE_TIMEZONES[exchange],
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(time);
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return value('hour') * 60 + value('minute');
+}
+
+/**
+ * Classify a time against the contract's regular trading hours, read on the exchange's clock
+ */
+export function getFuturesMarketSession(
+  contractSpec: FuturesContractSpec,
+  time: Date
+): 'PRE_MARKET' | 'REGULAR' | 'AFTER_HOURS' {
+  const toMinutes = (hhmm: string) => {
+    const [hours, minutes] = hhmm.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  const timeInMinutes = exchangeMinutesOfDay(time, contractSpec.exchange);
+  const regularOpen = toMinutes(contractSpec.sessionHours.regularOpen);
+  const regularClose = toMinutes(contractSpec.sessionHours.regularClose);
+
+  if (timeInMinutes < regularOpen) return 'PRE_MARKET';
+  if (timeInMinutes < regularClose) return 'REGULAR';
+  return 'AFTER_HOURS';
+}
@@ -0,0 +1,176 @@
+/**
+ * Import previews
+ *
+ * A preview parses an import without writing it, and reports what it would change: orders created,
+ * duplicates skipped, trades created, changed or removed by the trade rebuild and the resulting P&L
+ * delta. Trades are built in memory over the stored and parsed orders of the symbols the import
+ * touches. The preview's token is a digest of those effects; a confirmed import is only run when
+ * previewing it again reproduces the token.
+ */
+
+import { createHash } from 'crypto';
+import type { CreateTradeData } from '@/lib/repositories/tradesRepo';
+
+// Orders listed in a preview
+export const PREVIEW_SAMPLE_SIZE = 20;
+
+export class ImportPreviewMismatchError extends Error {
+  constructor(message: string, public status = 409) {
+    super(message);
+    this.name = 'ImportPreviewMismatchError';
+  }
+}
+
+export interface PreviewOrderRow {
+  orderId: string | null; // The broker's id
+  symbol: string;
+  side: string;
+  orderQuantity: unknown;
+  limitPrice: unknown;
+  orderExecutedTime: Date | null;
+  accountId: string | null;
+}
+
+export interface PreviewTradeRow {
+  key: string; // Position, side and open time, which a trade keeps when it is rebuilt
+  status: string;
+  quantity: unknown;
+  pnl: unknown;
+  netPnl: unknown;
+  exitDate: Date | null;
+}
+
+export interface PreviewOrder {
+  symbol: string;
+  side: string;
+  quantity: number;
+  price: number | null;
+  executedAt: string | null;
+}
+
+export interface ImportPreview {
+  token: string;
+  newOrders: number;
+  duplicates: number;
+  cashActivities: number;
+  errors: number;
+  tradesCreated: number;
+  tradesChanged: number;
+  tradesRemoved: number;
+  pnlDelta: number; // Net P&L after the import less net P&L before it
+  orders: PreviewOrder[]; // The first PREVIEW_SAMPLE_SIZE orders, by execution time
+}
+
+function toNumber(value: unknown): number {
+  const parsed = Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Preview rows of built trades
+ * Trades sharing a position, side and open time are told apart by the order they were built in.
+ */
+export function toPreviewTrades(trades: CreateTradeData[]): PreviewTradeRow[] {
+  const seen = new Map<string, number>();
+
+  return trades.map(trade => {
+    const position = [trade.symbol, trade.brokerId ?? '', trade.tradingAccountId ?? '', trade.side, trade.openTime.toISOString()].join('|');
+    const occurrence = seen.get(position) ?? 0;
+    seen.set(position, occurrence + 1);
+
+    return {
+      key: `${position}|${occurrence}`,
+      status: trade.status,
+      quantity: trade.quantity,
+      pnl: trade.pnl,
+      netPnl: trade.netPnl ?? trade.pnl, // As saveTrade stores it
+      exitDate: trade.closeTime ?? null,
+    };
+  });
+}
+
+/**
+ * Trades the import creates, changes and removes, and how it moves net P&L
+ * Trades match on their key, so a trade the import opens earlier counts as removed and created.
+ */
+export function diffTrades(
+  before: PreviewTradeRow[],
+  after: PreviewTradeRow[]
+): { created: number; changed: number; removed: number; pnlDelta: number } {
+  const previous = new Map(before.map(trade => [trade.key, trade]));
+  const current = new Set(after.map(trade => trade.key));
+  let created = 0;
+  let changed = 0;
+
+  for (const trade of after) {
+    const old = previous.get(trade.key);
+    if (!old) {
+      created++;
+    } else if (
+      old.status !== trade.status
+      || toNumber(old.quantity) !== toNumber(trade.quantity)
+      || toNumber(old.pnl) !== toNumber(trade.pnl)
+      || toNumber(old.netPnl) !== toNumber(trade.netPnl)
+      || old.exitDate?.getTime() !== trade.exitDate?.getTime()
+    ) {
+      changed++;
+    }
+  }
+
+  const netPnl = (trades: PreviewTradeRow[]) => trades.reduce((total, trade) => total + toNumber(trade.netPnl), 0);
+
+  return {
+    created,
+    changed,
+    removed: before.filter(trade => !current.has(trade.key)).length,
+    pnlDelta: Math.round((netPnl(after) - netPnl(before)) * 100) / 100,
+  };
+}
+
+/**
+ * Summarize an import run for its preview
+ */
+export function buildImportPreview(
+  result: { successCount: number; errorCount: number; duplicateCount?: number; cashActivityCount?: number },
+  orders: PreviewOrderRow[],
+  tradesBefore: PreviewTradeRow[],
+  tradesAfter: PreviewTradeRow[]
+): ImportPreview {
+  const trades = diffTrades(tradesBefore, tradesAfter);
+  const sorted = orders
+    .map(order => ({
+      orderId: order.orderId ?? '',
+      accountId: order.accountId ?? '',
+      symbol: order.symbol,
+      side: order.side,
+      quantity: toNumber(order.orderQuantity),
+      price: order.limitPrice === null || order.limitPrice === undefined ? null : toNumber(order.limitPrice),
+      executedAt: order.orderExecutedTime?.toISOString() ?? null,
+    }))
+    .sort((a, b) => (a.executedAt ?? '').localeCompare(b.executedAt ?? '')
+      || a.symbol.localeCompare(b.symbol)
+      || a.orderId.localeCompare(b.orderId));
+
+  const effects = {
+    orders: sorted.map(order => [order.orderId, order.accountId, order.symbol, order.side, order.quantity, order.price, order.executedAt]),
+    duplicates: result.duplicateCount ?? 0,
+    cashActivities: result.cashActivityCount ?? 0,
+    errors: result.errorCount,
+    trades,
+  };
+
+  return {
+    token: createHash('sha256').update(JSON.stringify(effects)).digest('hex'),
+    newOrders: result.successCount,
+    duplicates: effects.duplicates,
+    cashActivities: effects.cashActivities,
+    errors: result.errorCount,
+    tradesCreated: trades.created,
+    tradesChanged: trades.changed,
+    tradesRemoved: trades.removed,
+    pnlDelta: trades.pnlDelta,
+    orders: sorted.slice(0, PREVIEW_SAMPLE_SIZE).map(({ symbol, side, quantity, price, executedAt }) => ({
+      symbol, side, quantity, price, executedAt,
+    })),
+  };
+}
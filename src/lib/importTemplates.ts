@@ -0,0 +1,266 @@
+/**
+ * Import templates
+ *
+ * A template is a user's own mapping for a CSV layout: the column mappings of a BrokerCsvFormat,
+ * optionally a DATA_TRANSFORMERS transformer per column, the format the file's dates are written in
+ * and the timezone its times are in. Templates are private to the user and keyed by header
+ * fingerprint, so they apply to the user's next upload of the same layout without admin approval.
+ */
+
+import type { ImportTemplate } from '@prisma/client';
+import { DATA_TRANSFORMERS } from '@/lib/csvFormatRegistry';
+
+export class ImportTemplateError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ImportTemplateError';
+  }
+}
+
+export interface TemplateFieldMapping {
+  fields: string[]; // Order fields the column fills; brokerMetadata keeps the raw value
+  confidence: number;
+  combinedWith?: string[]; // Further columns joined to this one, e.g. a separate time column
+  transformer?: string; // Name of a DATA_TRANSFORMERS function applied to the value
+}
+
+export type TemplateFieldMappings = Record<string, TemplateFieldMapping>;
+
+export interface TemplateDateOptions {
+  dateFormat?: string | null;
+  timezone?: string | null;
+}
+
+// Order fields read as dates
+export const TEMPLATE_DATE_FIELDS = ['orderPlacedTime', 'orderExecutedTime', 'orderCancelledTime'] as const;
+
+// Order fields a template must fill
+const REQUIRED_TEMPLATE_FIELDS = ['symbol', 'orderQuantity'];
+
+type DatePart = 'year' | 'month' | 'day' | 'hour' | 'minute' | 'second' | 'millisecond' | 'meridiem';
+
+// Longest tokens first, so YYYY is not read as YY twice
+const DATE_TOKENS: Array<{ token: string; part: DatePart; pattern: string }> = [
+  { token: 'YYYY', part: 'year', pattern: '(\\d{4})' },
+  { token: 'YY', part: 'year', pattern: '(\\d{2})' },
+  { token: 'MM', part: 'month', pattern: '(\\d{2})' },
+  { token: 'M', part: 'month', pattern: '(\\d{1,2})' },
+  { token: 'DD', part: 'day', pattern: '(\\d{2})' },
+  { token: 'D', part: 'day', pattern: '(\\d{1,2})' },
+  { token: 'HH', part: 'hour', pattern: '(\\d{2})' },
+  { token: 'H', part: 'hour', pattern: '(\\d{1,2})' },
+  { token: 'hh', part: 'hour', pattern: '(\\d{2})' },
+  { token: 'h', part: 'hour', pattern: '(\\d{1,2})' },
+  { token: 'mm', part: 'minute', pattern: '(\\d{2})' },
+  { token: 'ss', part: 'second', pattern: '(\\d{2})' },
+  { token: 'SSS', part: 'millisecond', pattern: '(\\d{3})' },
+  { token: 'A', part: 'meridiem', pattern: '([AaPp][Mm])' },
+  { token: 'a', part: 'meridiem', pattern: '([AaPp][Mm])' },
+];
+
+interface CompiledDateFormat {
+  regex: RegExp;
+  parts: DatePart[];
+}
+
+const compiledFormats = new Map<string, CompiledDateFormat>();
+
+function compileDateFormat(dateFormat: string): CompiledDateFormat {
+  const cached = compiledFormats.get(dateFormat);
+  if (cached) return cached;
+
+  let pattern = '';
+  const parts: DatePart[] = [];
+  let index = 0;
+  while (index < dateFormat.length) {
+    const match = DATE_TOKENS.find(({ token }) => dateFormat.startsWith(token, index));
+    if (match) {
+      pattern += match.pattern;
+      parts.push(match.part);
+      index += match.token.length;
+    } else {
+      pattern += dateFormat[index].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      index++;
+    }
+  }
+
+  if (!parts.includes('year') || !parts.includes('month') || !parts.includes('day')) {
+    throw new ImportTemplateError(`Date format "${dateFormat}" needs a year, month and day`);
+  }
+
+  const compiled = { regex: new RegExp(`^${pattern}$`), parts };
+  compiledFormats.set(dateFormat, compiled);
+  return compiled;
+}
+
+/**
+ * Whether timezone is an IANA zone this runtime knows
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Milliseconds the zone's wall clock is ahead of UTC at the instant
+function zoneOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time in the zone stands for
+ * Times skipped by a daylight saving change are read with the offset after the change.
+ */
+function fromZonedTime(wallClock: number, timezone: string): number {
+  const guess = wallClock - zoneOffset(wallClock, timezone);
+  const offset = zoneOffset(guess, timezone);
+  return wallClock - offset;
+}
+
+/**
+ * Read a date written in the template's date format and timezone
+ * Without a format the value is parsed natively; values carrying their own offset keep it.
+ */
+export function parseTemplateDate(value: unknown, options: TemplateDateOptions = {}): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+
+  let wallClock: [number, number, number, number, number, number, number];
+  if (options.dateFormat) {
+    const { regex, parts } = compileDateFormat(options.dateFormat);
+    const match = regex.exec(text);
+    if (!match) return null;
+
+    const read: Partial<Record<DatePart, string>> = {};
+    parts.forEach((part, index) => { read[part] = match[index + 1]; });
+
+    let year = Number(read.year);
+    if (read.year!.length === 2) year += 2000;
+    let hour = Number(read.hour ?? 0);
+    if (read.meridiem) {
+      const pm = read.meridiem.toUpperCase() === 'PM';
+      if (hour === 12) hour = pm ? 12 : 0;
+      else if (pm) hour += 12;
+    }
+    const month = Number(read.month);
+    const day = Number(read.day);
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23) return null;
+
+    wallClock = [year, month - 1, day, hour, Number(read.minute ?? 0), Number(read.second ?? 0), Number(read.millisecond ?? 0)];
+  } else {
+    const parsed = new Date(text);
+    if (isNaN(parsed.getTime())) return null;
+    // An explicit offset or Z already fixes the instant
+    if (!options.timezone || /(Z|[+-]\d{2}:?\d{2})$/i.test(text)) return parsed;
+
+    wallClock = [parsed.getFullYear(), parsed.getMonth(), parsed.getDate(), parsed.getHours(), parsed.getMinutes(), parsed.getSeconds(), parsed.getMilliseconds()];
+  }
+
+  // Reject dates that roll over, e.g. 31/02
+  const utcWallClock = Date.UTC(...wallClock);
+  if (new Date(utcWallClock).getUTCDate() !== wallClock[2]) return null;
+
+  const date = options.timezone
+    ? new Date(fromZonedTime(utcWallClock, options.timezone))
+    : new Date(...wallClock);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Apply a column's transformer; values without one pass through
+ */
+export function applyTemplateTransformer(value: unknown, transformer?: string): unknown {
+  if (!transformer || value === undefined || value === null || value === '') return value;
+  const transform = DATA_TRANSFORMERS[transformer as keyof typeof DATA_TRANSFORMERS] as ((input: string) => unknown) | undefined;
+  if (!transform) return value;
+
+  const transformed = transform(String(value));
+  return transformed === null || transformed === undefined ? value : transformed;
+}
+
+/**
+ * Replace the date fields of a mapped row with ISO timestamps read in the template's date format and timezone
+ * Throws for dates that do not match, so the row is reported instead of imported at the wrong time.
+ */
+export function normalizeTemplateDates(mappedData: Record<string, unknown>, options: TemplateDateOptions): void {
+  for (const field of TEMPLATE_DATE_FIELDS) {
+    const value = mappedData[field];
+    if (value === undefined || value === null || value === '') continue;
+
+    const date = parseTemplateDate(value, options);
+    if (!date) {
+      throw new Error(`${field} "${String(value)}" does not match the template's date format${options.dateFormat ? ` ${options.dateFormat}` : ''}`);
+    }
+    mappedData[field] = date.toISOString();
+  }
+}
+
+/**
+ * Check a template before saving it
+ */
+export function validateTemplate(headers: string[], fieldMappings: TemplateFieldMappings, options: TemplateDateOptions): void {
+  if (headers.length === 0) {
+    throw new ImportTemplateError('A template needs the headers of the file it maps');
+  }
+
+  const headerSet = new Set(headers);
+  const mappedFields = new Set<string>();
+  for (const [header, mapping] of Object.entries(fieldMappings)) {
+    const columns = [header, ...(mapping.combinedWith ?? [])];
+    const missing = columns.find(column => !headerSet.has(column));
+    if (missing) {
+      throw new ImportTemplateError(`Column "${missing}" is not one of the file's headers`);
+    }
+    if (mapping.transformer && !(mapping.transformer in DATA_TRANSFORMERS)) {
+      throw new ImportTemplateError(`Unknown transformer "${mapping.transformer}" for column "${header}"`);
+    }
+    mapping.fields.forEach(field => mappedFields.add(field));
+  }
+
+  const unmapped = REQUIRED_TEMPLATE_FIELDS.filter(field => !mappedFields.has(field));
+  if (unmapped.length > 0) {
+    throw new ImportTemplateError(`A template must map ${unmapped.join(' and ')}`);
+  }
+  if (options.dateFormat) {
+    compileDateFormat(options.dateFormat);
+  }
+  if (options.timezone && !isValidTimezone(options.timezone)) {
+    throw new ImportTemplateError(`Unknown timezone "${options.timezone}"`);
+  }
+}
+
+/**
+ * A template as the API returns it
+ */
+export function serializeImportTemplate(template: ImportTemplate) {
+  return {
+    id: template.id,
+    name: template.name,
+    version: template.version,
+    headers: template.headers,
+    fieldMappings: template.fieldMappings,
+    dateFormat: template.dateFormat,
+    timezone: template.timezone,
+    brokerId: template.brokerId,
+    submitted: !!template.submittedFormatId,
+    usageCount: template.usageCount,
+    lastUsed: template.lastUsed?.toISOString() ?? null,
+    createdAt: template.createdAt.toISOString(),
+  };
+}
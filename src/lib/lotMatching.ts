@@ -0,0 +1,136 @@
+/**
+ * Lot matching for scaled positions
+ *
+ * Every entry fill opens a lot. When a position is reduced, the user's matching method picks
+ * which lots the exit closes, and each slice becomes a closing record with its own P&L.
+ * Average cost keeps the historical behaviour: every lot is carried at the position's average price.
+ */
+
+import { LotMatchingMethod, TradeSide } from '@prisma/client';
+import { roundQuantity } from './precision';
+
+export interface PositionLot {
+  orderId: string;
+  quantity: number;
+  price: number;
+  openTime: Date;
+}
+
+export interface ClosedLot {
+  openOrderId: string;
+  closeOrderId: string;
+  quantity: number;
+  openPrice: number;
+  closePrice: number;
+  openTime: Date;
+  closeTime: Date;
+  pnl: number;
+}
+
+export interface LotExit {
+  orderId: string;
+  quantity: number;
+  price: number;
+  time: Date;
+}
+
+export interface LotMatchResult {
+  closedLots: ClosedLot[];
+  remainingLots: PositionLot[];
+}
+
+export const DEFAULT_LOT_MATCHING_METHOD: LotMatchingMethod = LotMatchingMethod.AVERAGE_COST;
+
+export const LOT_MATCHING_METHOD_LABELS: Record<LotMatchingMethod, string> = {
+  FIFO: 'First in, first out (FIFO)',
+  LIFO: 'Last in, first out (LIFO)',
+  AVERAGE_COST: 'Average cost',
+  HIGHEST_COST: 'Highest cost',
+};
+
+/**
+ * Realized P&L for one closed slice, scaled by the contract multiplier
+ */
+export function calculateLotPnl(
+  side: TradeSide,
+  openPrice: number,
+  closePrice: number,
+  quantity: number,
+  multiplier: number
+): number {
+  const priceChange = side === TradeSide.LONG ? closePrice - openPrice : openPrice - closePrice;
+  return Math.round(priceChange * quantity * multiplier * 100) / 100;
+}
+
+/**
+ * Weighted average price of a set of lots
+ */
+export function averageLotPrice(lots: PositionLot[]): number {
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (quantity === 0) return 0;
+  return lots.reduce((sum, lot) => sum + lot.quantity * lot.price, 0) / quantity;
+}
+
+/**
+ * Order lots in the sequence the method closes them
+ * Highest cost closes the lot with the smallest gain first: the highest buy for longs, the lowest sale for shorts
+ */
+function orderLotsForMatching(lots: PositionLot[], method: LotMatchingMethod, side: TradeSide): PositionLot[] {
+  switch (method) {
+    case LotMatchingMethod.LIFO:
+      return [...lots].reverse();
+    case LotMatchingMethod.HIGHEST_COST:
+      // Array.sort is stable, so equal prices still close oldest first
+      return [...lots].sort((a, b) => side === TradeSide.LONG ? b.price - a.price : a.price - b.price);
+    default:
+      return [...lots];
+  }
+}
+
+/**
+ * Close an exit fill against open lots
+ * Lots are never mutated; quantities beyond the open lots are ignored (reversals are split before matching)
+ */
+export function matchLots(
+  lots: PositionLot[],
+  exit: LotExit,
+  method: LotMatchingMethod,
+  side: TradeSide,
+  multiplier: number = 1
+): LotMatchResult {
+  const averagePrice = averageLotPrice(lots);
+  const isAverageCost = method === LotMatchingMethod.AVERAGE_COST;
+  const remaining = new Map(lots.map(lot => [lot, lot.quantity]));
+  const closedLots: ClosedLot[] = [];
+  let quantityToClose = exit.quantity;
+
+  for (const lot of orderLotsForMatching(lots, method, side)) {
+    if (quantityToClose <= 0) break;
+
+    const quantity = Math.min(lot.quantity, quantityToClose);
+    const openPrice = isAverageCost ? averagePrice : lot.price;
+    closedLots.push({
+      openOrderId: lot.orderId,
+      closeOrderId: exit.orderId,
+      quantity,
+      openPrice,
+      closePrice: exit.price,
+      openTime: lot.openTime,
+      closeTime: exit.time,
+      pnl: calculateLotPnl(side, openPrice, exit.price, quantity, multiplier),
+    });
+
+    remaining.set(lot, roundQuantity(lot.quantity - quantity));
+    quantityToClose = roundQuantity(quantityToClose - quantity);
+  }
+
+  const remainingLots = lots
+    .filter(lot => (remaining.get(lot) ?? 0) > 0)
+    .map(lot => ({
+      ...lot,
+      quantity: remaining.get(lot) ?? 0,
+      price: isAverageCost ? averagePrice : lot.price,
+    }));
+
+  return { closedLots, remainingLots };
+}
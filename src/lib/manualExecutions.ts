@@ -0,0 +1,244 @@
+/**
+ * Hand-entered executions
+ *
+ * Manual trades are entered as executions in a grid (typed, or pasted from a spreadsheet or a
+ * broker's fills window) and saved as MANUAL orders, so they go through the trade builder like any
+ * import and get lots, charts and metrics. Editing or deleting one unwinds and rebuilds its trades.
+ */
+
+import Papa from 'papaparse';
+import { format } from 'date-fns';
+import { AssetClass, OptionRight, OrderSide } from '@prisma/client';
+import { parseFuturesSymbol } from '@/lib/futuresContracts';
+import { parseOptionSymbol, STANDARD_OPTION_MULTIPLIER } from '@/lib/optionSymbols';
+import type { ManualExecutionInput } from '@/lib/schemas/manualExecutions';
+
+// One grid row as typed or pasted; every cell stays text until the row is submitted
+export interface ManualExecutionDraft {
+  executedAt: string;
+  symbol: string;
+  side: OrderSide | '';
+  quantity: string;
+  price: string;
+  commission: string;
+  fees: string;
+}
+
+export interface ConvertedDrafts {
+  executions: ManualExecutionInput[];
+  errors: string[];
+}
+
+// A saved manual execution as listed in the grid
+export interface ManualExecution {
+  id: string;
+  executedAt: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  commission: number | null;
+  fees: number | null;
+  accountId: string | null;
+  tradeIds: string[]; // Trades the execution (or the parts it was split into) belongs to
+}
+
+export interface ManualInstrument {
+  symbol: string;
+  assetClass: AssetClass;
+  underlyingSymbol?: string;
+  optionRight?: OptionRight;
+  strikePrice?: number;
+  expirationDate?: Date;
+  contractMultiplier: number;
+}
+
+type DraftField = keyof ManualExecutionDraft;
+
+// Column order of the grid, used for pasted rows without a header
+export const MANUAL_EXECUTION_COLUMNS: DraftField[] = ['executedAt', 'symbol', 'side', 'quantity', 'price', 'commission', 'fees'];
+
+const HEADER_PATTERNS: Array<[DraftField | 'date' | 'time', RegExp]> = [
+  ['executedAt', /^(date\s*\/?\s*time|datetime|executed(\s*at)?|execution\s*time|timestamp|fill\s*time)$/],
+  ['date', /^(date|trade\s*date)$/],
+  ['time', /^time$/],
+  ['symbol', /^(symbol|ticker|instrument|contract)$/],
+  ['side', /^(side|action|b\/s|buy\/sell)$/],
+  ['quantity', /^(qty|quantity|shares|size|contracts|filled)$/],
+  ['price', /^(price|fill\s*price|avg\s*price|execution\s*price)$/],
+  ['commission', /^(commission|commissions|comm)$/],
+  ['fees', /^(fees?|reg\s*fees?|other\s*fees?)$/],
+];
+
+export function emptyDraft(): ManualExecutionDraft {
+  return { executedAt: '', symbol: '', side: '', quantity: '', price: '', commission: '', fees: '' };
+}
+
+/**
+ * Grid row for editing a saved execution, with the time in the browser's time zone
+ */
+export function executionToDraft(execution: ManualExecution): ManualExecutionDraft {
+  return {
+    executedAt: format(new Date(execution.executedAt), 'yyyy-MM-dd HH:mm:ss'),
+    symbol: execution.symbol,
+    side: execution.side,
+    quantity: String(execution.quantity),
+    price: String(execution.price),
+    commission: execution.commission !== null ? String(execution.commission) : '',
+    fees: execution.fees !== null ? String(execution.fees) : '',
+  };
+}
+
+/**
+ * Read a side from the words brokers use for it; short sales are sells and covers are buys
+ */
+export function parseSide(value: string): OrderSide | null {
+  const side = value.trim().toUpperCase();
+  if (/^(B|BUY|BOT|BOUGHT|BTO|BTC|BUY TO (OPEN|CLOSE|COVER)|COVER)$/.test(side)) return OrderSide.BUY;
+  if (/^(S|SELL|SLD|SOLD|SS|SHORT|STO|STC|SELL SHORT|SELL TO (OPEN|CLOSE))$/.test(side)) return OrderSide.SELL;
+  return null;
+}
+
+/**
+ * Turn clipboard text into grid rows
+ * Tab, comma and semicolon separated text is accepted. When the first row is a header its
+ * columns are matched by name (including separate date and time columns); otherwise cells are
+ * read in grid order. A signed quantity with no side is read as a buy or a sell.
+ */
+export function parseExecutionRows(text: string): ManualExecutionDraft[] {
+  const parsed = Papa.parse<string[]>(text.trim(), { skipEmptyLines: true });
+  const rows = parsed.data.map(row => row.map(cell => (cell ?? '').trim()));
+  if (rows.length === 0) return [];
+
+  const headerColumns = matchHeader(rows[0]);
+  const dataRows = headerColumns ? rows.slice(1) : rows;
+  const columns = headerColumns ?? MANUAL_EXECUTION_COLUMNS;
+
+  return dataRows
+    .filter(row => row.some(cell => cell !== ''))
+    .map(row => {
+      const draft = emptyDraft();
+      let date = '';
+      let time = '';
+
+      columns.forEach((column, index) => {
+        const cell = row[index] ?? '';
+        if (!column || !cell) return;
+        if (column === 'date') date = cell;
+        else if (column === 'time') time = cell;
+        else if (column === 'side') draft.side = parseSide(cell) ?? '';
+        else draft[column] = column === 'symbol' ? cell.toUpperCase() : cell;
+      });
+
+      if (!draft.executedAt) draft.executedAt = [date, time].filter(Boolean).join(' ');
+
+      const quantity = parseNumber(draft.quantity);
+      if (quantity !== null && quantity < 0) {
+        draft.side = draft.side || OrderSide.SELL;
+        draft.quantity = String(Math.abs(quantity));
+      } else if (quantity !== null && !draft.side) {
+        draft.side = OrderSide.BUY;
+      }
+
+      return draft;
+    });
+}
+
+/**
+ * Validate grid rows into executions to save, reporting problems by row number
+ * Blank rows are ignored. Times without a zone are read in the browser's time zone.
+ */
+export function toManualExecutionInputs(
+  drafts: ManualExecutionDraft[],
+  accountId: string | null = null
+): ConvertedDrafts {
+  const executions: ManualExecutionInput[] = [];
+  const errors: string[] = [];
+
+  drafts.forEach((draft, index) => {
+    if (Object.values(draft).every(value => value === '')) return;
+
+    const row = index + 1;
+    const executedAt = new Date(draft.executedAt);
+    const quantity = parseNumber(draft.quantity);
+    const price = parseNumber(draft.price);
+    const commission = parseNumber(draft.commission);
+    const fees = parseNumber(draft.fees);
+
+    if (!draft.executedAt || isNaN(executedAt.getTime())) {
+      errors.push(`Row ${row}: enter a date and time`);
+    } else if (!draft.symbol.trim()) {
+      errors.push(`Row ${row}: enter a symbol`);
+    } else if (!draft.side) {
+      errors.push(`Row ${row}: choose buy or sell`);
+    } else if (quantity === null || quantity <= 0) {
+      errors.push(`Row ${row}: quantity must be greater than 0`);
+    } else if (price === null || price < 0) {
+      errors.push(`Row ${row}: enter a price`);
+    } else {
+      executions.push({
+        executedAt: executedAt.toISOString(),
+        symbol: draft.symbol.trim().toUpperCase(),
+        side: draft.side,
+        quantity,
+        price,
+        commission: commission !== null ? Math.abs(commission) : undefined,
+        fees: fees !== null ? Math.abs(fees) : undefined,
+        accountId,
+      });
+    }
+  });
+
+  return { executions, errors };
+}
+
+/**
+ * Contract details for a typed symbol: OCC/broker option symbols and dated futures contracts
+ */
+export function resolveManualInstrument(rawSymbol: string): ManualInstrument {
+  const symbol = rawSymbol.trim().toUpperCase();
+
+  const futures = parseFuturesSymbol(symbol);
+  if (futures?.monthCode) {
+    return {
+      symbol: futures.contractSymbol,
+      assetClass: AssetClass.FUTURES,
+      underlyingSymbol: futures.root,
+      contractMultiplier: futures.spec.pointValue,
+    };
+  }
+
+  const option = parseOptionSymbol(symbol);
+  if (option) {
+    return {
+      symbol: option.occSymbol,
+      assetClass: AssetClass.OPTIONS,
+      underlyingSymbol: option.underlyingSymbol,
+      optionRight: option.optionRight,
+      strikePrice: option.strikePrice,
+      expirationDate: option.expirationDate,
+      contractMultiplier: STANDARD_OPTION_MULTIPLIER,
+    };
+  }
+
+  return { symbol, assetClass: AssetClass.EQUITY, contractMultiplier: 1 };
+}
+
+function matchHeader(row: string[]): Array<DraftField | 'date' | 'time' | null> | null {
+  const columns = row.map(cell => {
+    const name = cell.toLowerCase().replace(/[_#]/g, ' ').trim();
+    return HEADER_PATTERNS.find(([, pattern]) => pattern.test(name))?.[0] ?? null;
+  });
+  return columns.includes('symbol') ? columns : null;
+}
+
+function parseNumber(value: string): number | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  // Accounting style negatives: (1,234.50)
+  const negative = /^\(.*\)$/.test(text);
+  const number = Number(text.replace(/[()$,\s]/g, ''));
+  if (!isFinite(number)) return null;
+  return negative ? -number : number;
+}
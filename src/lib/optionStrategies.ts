@@ -0,0 +1,193 @@
+/**
+ * Multi-leg option strategy detection
+ *
+ * Each option contract is built into its own trade. Legs opened together on the same underlying
+ * (same broker and account, within a short window) are grouped into one strategy, classified by
+ * the shape of their strikes/expirations, and given a max risk from their payoff at expiration.
+ */
+
+import { OptionRight, StrategyType, TradeSide } from '@prisma/client';
+import type { TradeStrategy } from '@/types';
+
+export interface StrategyLeg {
+  tradeId: string;
+  underlyingSymbol: string;
+  optionRight: OptionRight;
+  strikePrice: number;
+  expirationDate: Date;
+  side: TradeSide;
+  quantity: number; // Contracts opened
+  entryPrice: number; // Premium per share
+  multiplier: number;
+  openTime: Date;
+  brokerId: string | null;
+  tradingAccountId: string | null;
+}
+
+// Legs of a spread order fill within seconds of each other; a minute allows for legged-in entries
+export const STRATEGY_LEG_WINDOW_MS = 60 * 1000;
+
+export const STRATEGY_TYPE_LABELS: Record<StrategyType, string> = {
+  VERTICAL: 'Vertical',
+  IRON_CONDOR: 'Iron Condor',
+  IRON_BUTTERFLY: 'Iron Butterfly',
+  BUTTERFLY: 'Butterfly',
+  STRADDLE: 'Straddle',
+  STRANGLE: 'Strangle',
+  CALENDAR: 'Calendar',
+  DIAGONAL: 'Diagonal',
+  CUSTOM: 'Custom',
+};
+
+// Strategy columns selected alongside a trade for the trades list
+export const TRADE_STRATEGY_SELECT = {
+  id: true,
+  strategyType: true,
+  underlyingSymbol: true,
+  legCount: true,
+  pnl: true,
+  maxRisk: true,
+} as const;
+
+/**
+ * Shape a strategy row for the trades list
+ */
+export function toTradeStrategy(strategy: {
+  id: string;
+  strategyType: StrategyType;
+  underlyingSymbol: string;
+  legCount: number;
+  pnl: { toString(): string } | number;
+  maxRisk: { toString(): string } | number | null;
+}): TradeStrategy {
+  return {
+    id: strategy.id,
+    type: strategy.strategyType,
+    underlyingSymbol: strategy.underlyingSymbol,
+    legCount: strategy.legCount,
+    pnl: Number(strategy.pnl),
+    maxRisk: strategy.maxRisk !== null ? Number(strategy.maxRisk) : null,
+  };
+}
+
+function directionOf(leg: StrategyLeg): number {
+  return leg.side === TradeSide.LONG ? 1 : -1;
+}
+
+function sameExpiration(legs: StrategyLeg[]): boolean {
+  return legs.every(leg => leg.expirationDate.getTime() === legs[0].expirationDate.getTime());
+}
+
+function sameQuantity(legs: StrategyLeg[]): boolean {
+  return legs.every(leg => leg.quantity === legs[0].quantity);
+}
+
+/**
+ * Group legs opened together into candidate strategies
+ * Legs are grouped per underlying, broker and account; a group spans the window from its first leg.
+ * Only groups with at least two legs are returned.
+ */
+export function groupStrategyLegs(
+  legs: StrategyLeg[],
+  windowMs: number = STRATEGY_LEG_WINDOW_MS
+): StrategyLeg[][] {
+  const sorted = [...legs].sort((a, b) => a.openTime.getTime() - b.openTime.getTime());
+  const openGroups = new Map<string, StrategyLeg[]>();
+  const groups: StrategyLeg[][] = [];
+
+  for (const leg of sorted) {
+    const key = `${leg.underlyingSymbol}|${leg.brokerId ?? ''}|${leg.tradingAccountId ?? ''}`;
+    const group = openGroups.get(key);
+
+    if (group && leg.openTime.getTime() - group[0].openTime.getTime() <= windowMs) {
+      group.push(leg);
+    } else {
+      const newGroup = [leg];
+      openGroups.set(key, newGroup);
+      groups.push(newGroup);
+    }
+  }
+
+  return groups.filter(group => group.length >= 2);
+}
+
+/**
+ * Classify a group of legs by the shape of their strikes, rights and expirations
+ */
+export function classifyStrategy(legs: StrategyLeg[]): StrategyType {
+  const sorted = [...legs].sort((a, b) => a.strikePrice - b.strikePrice);
+
+  if (sorted.length === 2 && sameQuantity(sorted)) {
+    const [a, b] = sorted;
+    const sameRight = a.optionRight === b.optionRight;
+
+    if (sameExpiration(sorted)) {
+      if (sameRight && a.side !== b.side && a.strikePrice !== b.strikePrice) return StrategyType.VERTICAL;
+      if (!sameRight && a.side === b.side) {
+        return a.strikePrice === b.strikePrice ? StrategyType.STRADDLE : StrategyType.STRANGLE;
+      }
+    } else if (sameRight && a.side !== b.side) {
+      return a.strikePrice === b.strikePrice ? StrategyType.CALENDAR : StrategyType.DIAGONAL;
+    }
+  }
+
+  if (sorted.length === 3 && sameExpiration(sorted) && sorted.every(leg => leg.optionRight === sorted[0].optionRight)) {
+    const [lower, middle, upper] = sorted;
+    const isButterfly =
+      lower.strikePrice < middle.strikePrice &&
+      middle.strikePrice < upper.strikePrice &&
+      lower.side === upper.side &&
+      middle.side !== lower.side &&
+      lower.quantity === upper.quantity &&
+      middle.quantity === lower.quantity * 2;
+    if (isButterfly) return StrategyType.BUTTERFLY;
+  }
+
+  if (sorted.length === 4 && sameExpiration(sorted) && sameQuantity(sorted)) {
+    const puts = sorted.filter(leg => leg.optionRight === OptionRight.PUT);
+    const calls = sorted.filter(leg => leg.optionRight === OptionRight.CALL);
+
+    if (puts.length === 2 && calls.length === 2 && puts[0].side !== puts[1].side && calls[0].side !== calls[1].side) {
+      // The inner strikes are the put spread's upper leg and the call spread's lower leg
+      return puts[1].strikePrice === calls[0].strikePrice ? StrategyType.IRON_BUTTERFLY : StrategyType.IRON_CONDOR;
+    }
+  }
+
+  return StrategyType.CUSTOM;
+}
+
+/**
+ * Worst case loss of the strategy, as a positive dollar amount
+ * Single-expiration strategies use the payoff at expiration, which is piecewise linear between
+ * strikes, so checking every strike (and zero) finds the minimum. Net short calls lose without
+ * bound and return null. Multi-expiration strategies can't be priced at one expiration, so a
+ * debit position risks its debit and a credit position is reported as unlimited.
+ */
+export function calculateMaxRisk(legs: StrategyLeg[]): number | null {
+  if (legs.length === 0) return null;
+
+  const netDebit = legs.reduce(
+    (sum, leg) => sum + directionOf(leg) * leg.quantity * leg.multiplier * leg.entryPrice,
+    0
+  );
+
+  if (!sameExpiration(legs)) {
+    return netDebit > 0 ? Math.round(netDebit * 100) / 100 : null;
+  }
+
+  // Above the highest strike every call moves one for one; a net short call position has no cap
+  const callSlope = legs
+    .filter(leg => leg.optionRight === OptionRight.CALL)
+    .reduce((sum, leg) => sum + directionOf(leg) * leg.quantity * leg.multiplier, 0);
+  if (callSlope < 0) return null;
+
+  const payoffAt = (price: number) => legs.reduce((sum, leg) => {
+    const intrinsic = leg.optionRight === OptionRight.CALL
+      ? Math.max(price - leg.strikePrice, 0)
+      : Math.max(leg.strikePrice - price, 0);
+    return sum + directionOf(leg) * leg.quantity * leg.multiplier * (intrinsic - leg.entryPrice);
+  }, 0);
+
+  const worstPayoff = Math.min(payoffAt(0), ...legs.map(leg => payoffAt(leg.strikePrice)));
+  return Math.round(Math.max(0, -worstPayoff) * 100) / 100;
+}
@@ -0,0 +1,130 @@
+/**
+ * Option contract symbol utilities
+ *
+ * Brokers describe the same contract in several ways. Everything is normalized to the
+ * compact OCC form (e.g. AAPL240119C00190000) so positions from different sources match.
+ */
+
+import { OptionRight } from '@prisma/client';
+
+export const STANDARD_OPTION_MULTIPLIER = 100;
+export const MINI_OPTION_MULTIPLIER = 10;
+
+export interface ParsedOptionSymbol {
+  underlyingSymbol: string;
+  optionRight: OptionRight;
+  strikePrice: number;
+  expirationDate: Date; // UTC midnight of the expiration day
+  occSymbol: string;
+}
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// OCC: root (up to 6 chars, space padded), YYMMDD, C/P, strike * 1000 as 8 digits
+const OCC_PATTERN = /^([A-Z][A-Z0-9.]{0,5})\s*(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/;
+// Thinkorswim style: .AAPL240119C187.5
+const TOS_PATTERN = /^\.?([A-Z][A-Z0-9.]{0,5})(\d{2})(\d{2})(\d{2})([CP])(\d+(?:\.\d+)?)$/;
+// Schwab style: AAPL 01/19/2024 190.00 C
+const SLASH_DATE_PATTERN = /^([A-Z][A-Z0-9.]{0,5})\s+(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\s+(\d+(?:\.\d+)?)\s+(C|P|CALL|PUT)$/;
+// IBKR style: AAPL 19JAN24 190 C
+const MONTH_NAME_PATTERN = /^([A-Z][A-Z0-9.]{0,5})\s+(\d{1,2})([A-Z]{3})(\d{2})\s+(\d+(?:\.\d+)?)\s+(C|P|CALL|PUT)$/;
+
+function toFullYear(year: string): number {
+  const value = parseInt(year, 10);
+  return year.length === 2 ? 2000 + value : value;
+}
+
+function toOptionRight(value: string): OptionRight {
+  return value.startsWith('C') ? OptionRight.CALL : OptionRight.PUT;
+}
+
+function buildParsed(
+  underlying: string,
+  year: number,
+  month: number,
+  day: number,
+  right: OptionRight,
+  strike: number
+): ParsedOptionSymbol | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || !isFinite(strike) || strike <= 0) {
+    return null;
+  }
+
+  const expirationDate = new Date(Date.UTC(year, month - 1, day));
+  const underlyingSymbol = underlying.trim();
+
+  return {
+    underlyingSymbol,
+    optionRight: right,
+    strikePrice: strike,
+    expirationDate,
+    occSymbol: formatOccSymbol(underlyingSymbol, expirationDate, right, strike),
+  };
+}
+
+/**
+ * Build the compact OCC symbol for a contract
+ */
+export function formatOccSymbol(
+  underlyingSymbol: string,
+  expirationDate: Date,
+  optionRight: OptionRight,
+  strikePrice: number
+): string {
+  const yy = String(expirationDate.getUTCFullYear() % 100).padStart(2, '0');
+  const mm = String(expirationDate.getUTCMonth() + 1).padStart(2, '0');
+  const dd = String(expirationDate.getUTCDate()).padStart(2, '0');
+  const strike = String(Math.round(strikePrice * 1000)).padStart(8, '0');
+  const right = optionRight === OptionRight.CALL ? 'C' : 'P';
+
+  return `${underlyingSymbol.toUpperCase()}${yy}${mm}${dd}${right}${strike}`;
+}
+
+/**
+ * Parse an option symbol in OCC, Thinkorswim, Schwab or IBKR notation
+ * Returns null when the symbol does not describe an option contract
+ */
+export function parseOptionSymbol(symbol: string | null | undefined): ParsedOptionSymbol | null {
+  if (!symbol) return null;
+  const value = symbol.toUpperCase().trim().replace(/\s{2,}/g, ' ');
+
+  let match = value.match(OCC_PATTERN);
+  if (match) {
+    const [, root, yy, mm, dd, right, strike] = match;
+    return buildParsed(root, toFullYear(yy), parseInt(mm, 10), parseInt(dd, 10), toOptionRight(right), parseInt(strike, 10) / 1000);
+  }
+
+  match = value.match(TOS_PATTERN);
+  if (match) {
+    const [, root, yy, mm, dd, right, strike] = match;
+    return buildParsed(root, toFullYear(yy), parseInt(mm, 10), parseInt(dd, 10), toOptionRight(right), parseFloat(strike));
+  }
+
+  match = value.match(SLASH_DATE_PATTERN);
+  if (match) {
+    const [, root, mm, dd, yyyy, strike, right] = match;
+    return buildParsed(root, toFullYear(yyyy), parseInt(mm, 10), parseInt(dd, 10), toOptionRight(right), parseFloat(strike));
+  }
+
+  match = value.match(MONTH_NAME_PATTERN);
+  if (match) {
+    const [, root, dd, mon, yy, strike, right] = match;
+    const monthIndex = MONTHS.indexOf(mon);
+    if (monthIndex === -1) return null;
+    return buildParsed(root, toFullYear(yy), monthIndex + 1, parseInt(dd, 10), toOptionRight(right), parseFloat(strike));
+  }
+
+  return null;
+}
+
+/**
+ * Normalize a CALL/PUT indicator from a CSV column or broker payload
+ */
+export function normalizeOptionRight(value: unknown): OptionRight | null {
+  if (value === undefined || value === null) return null;
+  const normalized = String(value).toUpperCase().trim();
+
+  if (normalized === 'C' || normalized === 'CALL' || normalized === 'CALLS') return OptionRight.CALL;
+  if (normalized === 'P' || normalized === 'PUT' || normalized === 'PUTS') return OptionRight.PUT;
+  return null;
+}
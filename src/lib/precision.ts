@@ -0,0 +1,38 @@
+/**
+ * Quantity and price precision helpers
+ *
+ * Quantities and prices are stored as Decimal(20, 8) / Decimal(18, 8) so crypto fills,
+ * fractional shares and sub-penny prices survive import. Position math runs on plain numbers,
+ * so results are rounded back to the stored scale to keep float drift (0.1 + 0.2) from leaving
+ * phantom open quantities behind.
+ */
+
+export const QUANTITY_SCALE = 8;
+
+const QUANTITY_FACTOR = 10 ** QUANTITY_SCALE;
+
+/**
+ * Round a quantity to the stored scale
+ */
+export function roundQuantity(value: number): number {
+  return Math.round(value * QUANTITY_FACTOR) / QUANTITY_FACTOR || 0; // || 0 drops -0
+}
+
+/**
+ * Convert a stored quantity (Prisma Decimal, string or number) to a number
+ */
+export function toQuantity(value: { toString(): string } | number | string | null | undefined): number {
+  if (value === null || value === undefined) return 0;
+  const parsed = typeof value === 'number' ? value : parseFloat(value.toString());
+  return isFinite(parsed) ? roundQuantity(parsed) : 0;
+}
+
+/**
+ * Parse a quantity from CSV/broker input, keeping fractional shares and crypto amounts
+ * Thousands separators are ignored; returns null when the value is not a number
+ */
+export function parseQuantity(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value).replace(/[,\s]/g, ''));
+  return isFinite(parsed) ? roundQuantity(parsed) : null;
+}
@@ -1,4 +1,8 @@
 
+import { getFuturesRoot } from '@/lib/futuresContracts';
+import { STRATEGY_TYPE_LABELS } from '@/lib/optionStrategies';
+import type { StrategyType } from '@/types';
+
 // Trade interface for type safety
 interface TradeData {
   pnl?: string | number | null;
@@ -10,6 +14,13 @@ interface TradeData {
   entryPrice?: string | number | null;
   quantity?: string | number | null;
   holdingPeriod?: string | null;
+  symbol?: string | null;
+  underlyingSymbol?: string | null;
+  assetClass?: string | null;
+  pnlPoints?: string | number | null;
+  pnlTicks?: string | number | null;
+  strategyId?: string | null;
+  strategyType?: string | null;
 }
 
 // Time bucket definitions
@@ -467,6 +478,63 @@ export function aggregateByVolume(trades: TradeData[]) {
   };
 }
 
+// Aggregate futures trades by contract root, so ESZ5 and ESH6 report together as ES
+export function aggregateByFuturesRoot(trades: TradeData[]) {
+  const roots: Record<string, { root: string; trades: number; pnl: number; points: number; ticks: number }> = {};
+
+  trades.forEach(trade => {
+    if (trade.assetClass !== 'FUTURES') return;
+    const root = trade.underlyingSymbol || getFuturesRoot(trade.symbol) || trade.symbol;
+    if (!root) return;
+
+    if (!roots[root]) {
+      roots[root] = { root, trades: 0, pnl: 0, points: 0, ticks: 0 };
+    }
+    roots[root].trades += 1;
+    roots[root].pnl += Number(trade.pnl || 0);
+    roots[root].points += Number(trade.pnlPoints || 0);
+    roots[root].ticks += Number(trade.pnlTicks || 0);
+  });
+
+  return Object.values(roots).sort((a, b) => b.pnl - a.pnl);
+}
+
+// Aggregate option trades by strategy type; distribution counts strategies, not legs
+// Option legs outside a multi-leg strategy report as single leg
+export function aggregateByStrategyType(trades: TradeData[]) {
+  const types: Record<string, { strategies: Set<string>; singles: number; pnl: number }> = {};
+
+  trades.forEach(trade => {
+    const isStrategyLeg = Boolean(trade.strategyId && trade.strategyType);
+    if (!isStrategyLeg && trade.assetClass !== 'OPTION') return;
+
+    const label = isStrategyLeg
+      ? STRATEGY_TYPE_LABELS[trade.strategyType as StrategyType] ?? trade.strategyType!
+      : 'Single Leg';
+    if (!types[label]) {
+      types[label] = { strategies: new Set(), singles: 0, pnl: 0 };
+    }
+    if (isStrategyLeg) {
+      types[label].strategies.add(trade.strategyId!);
+    } else {
+      types[label].singles += 1;
+    }
+    types[label].pnl += Number(trade.pnl || 0);
+  });
+
+  const entries = Object.entries(types).sort((a, b) => b[1].pnl - a[1].pnl);
+  return {
+    distribution: entries.map(([label, data]) => ({
+      date: label,
+      value: data.strategies.size + data.singles
+    })),
+    performance: entries.map(([label, data]) => ({
+      date: label,
+      value: data.pnl
+    }))
+  };
+}
+
 /* 
  * Database Engineer Review Point:
  * These calculations can be optimized with database aggregations:
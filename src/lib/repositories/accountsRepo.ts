@@ -0,0 +1,108 @@
+import { prisma } from '@/lib/prisma';
+import { Account, AccountType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export interface UpsertAccountData {
+  externalId: string;
+  brokerId?: string | null;
+  nickname?: string | null;
+}
+
+export interface UpdateAccountData {
+  nickname?: string | null;
+  type?: AccountType;
+  startingBalance?: number | null;
+  currency?: string;
+}
+
+export class AccountsRepository {
+  /**
+   * Get all accounts for a user
+   */
+  async getAccounts(userId: string): Promise<Account[]> {
+    return await prisma.account.findMany({
+      where: { userId },
+      orderBy: [{ nickname: 'asc' }, { externalId: 'asc' }],
+    });
+  }
+
+  /**
+   * Create an account the first time a broker account identifier is seen
+   * Existing accounts keep their user-managed nickname and settings
+   */
+  async upsertAccount(userId: string, data: UpsertAccountData): Promise<Account> {
+    return await prisma.account.upsert({
+      where: { userId_externalId: { userId, externalId: data.externalId } },
+      create: {
+        userId,
+        externalId: data.externalId,
+        brokerId: data.brokerId ?? undefined,
+        nickname: data.nickname ?? undefined,
+      },
+      update: {},
+    });
+  }
+
+  /**
+   * Update the user-managed fields of an account
+   */
+  async updateAccount(userId: string, accountId: string, data: UpdateAccountData): Promise<Account | null> {
+    const result = await prisma.account.updateMany({
+      where: { id: accountId, userId },
+      data: {
+        nickname: data.nickname,
+        type: data.type,
+        startingBalance: data.startingBalance === null
+          ? null
+          : data.startingBalance !== undefined ? new Decimal(data.startingBalance) : undefined,
+        currency: data.currency,
+      },
+    });
+
+    if (result.count === 0) return null;
+    return await prisma.account.findUnique({ where: { id: accountId } });
+  }
+
+  /**
+   * Link orders to accounts from their broker account identifier (accountId, falling back to orderAccount)
+   * Creates accounts for identifiers seen for the first time; returns the number of orders linked
+   */
+  async linkOrdersToAccounts(userId: string): Promise<number> {
+    const unlinkedOrders = await prisma.order.findMany({
+      where: {
+        userId,
+        tradingAccountId: null,
+        OR: [{ accountId: { not: null } }, { orderAccount: { not: null } }],
+      },
+      select: { id: true, accountId: true, orderAccount: true, brokerId: true },
+    });
+
+    const ordersByExternalId = new Map<string, { brokerId: string | null; orderIds: string[] }>();
+    for (const order of unlinkedOrders) {
+      const externalId = (order.accountId || order.orderAccount)?.trim();
+      if (!externalId) continue;
+
+      const group = ordersByExternalId.get(externalId) ?? { brokerId: order.brokerId, orderIds: [] };
+      group.orderIds.push(order.id);
+      ordersByExternalId.set(externalId, group);
+    }
+
+    let linked = 0;
+    for (const [externalId, group] of ordersByExternalId) {
+      const account = await this.upsertAccount(userId, { externalId, brokerId: group.brokerId });
+      const result = await prisma.order.updateMany({
+        where: { id: { in: group.orderIds } },
+        data: { tradingAccountId: account.id },
+      });
+      linked += result.count;
+    }
+
+    if (linked > 0) {
+      console.log(`[ACCOUNTS REPO] Linked ${linked} orders to ${ordersByExternalId.size} accounts for user ${userId}`);
+    }
+
+    return linked;
+  }
+}
+
+export const accountsRepo = new AccountsRepository();
@@ -0,0 +1,324 @@
+import { prisma } from '@/lib/prisma';
+import { CashActivity, CashActivityType, ImportSource, Prisma, TradeStatus } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { createHash } from 'crypto';
+import { subDays } from 'date-fns';
+import { accountsRepo } from './accountsRepo';
+import { ACCRUAL_WINDOW_DAYS, allocateFinancingCosts, FINANCING_TYPES, FinancingSummary } from '@/lib/financingCosts';
+import { calculateNetPnl } from '@/lib/tradeFees';
+
+export interface CreateCashActivityData {
+  activityType: CashActivityType;
+  amount: number; // Signed: positive adds cash
+  currency?: string | null;
+  symbol?: string | null;
+  description?: string | null;
+  occurredAt: Date;
+  importSource: ImportSource;
+  importBatchId?: string | null;
+  externalAccountId?: string | null; // Broker account identifier; resolved to an account
+  externalId?: string | null; // Broker's id for the activity, when it has one
+  brokerMetadata?: Prisma.InputJsonValue;
+}
+
+export interface CashActivityFilters {
+  accountId?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+  activityTypes?: CashActivityType[];
+}
+
+export interface CashActivityTotal {
+  activityType: CashActivityType;
+  amount: number;
+  count: number;
+}
+
+export class CashActivitiesRepository {
+  /**
+   * Save cash activities, skipping ones already recorded by an earlier sync or upload
+   * Returns the number of activities created.
+   */
+  async createActivities(userId: string, activities: CreateCashActivityData[]): Promise<number> {
+    if (activities.length === 0) return 0;
+
+    // Resolve each broker account identifier once
+    const accountIds = new Map<string, string>();
+    for (const externalId of new Set(activities.map(activity => activity.externalAccountId?.trim()).filter(Boolean))) {
+      const account = await accountsRepo.upsertAccount(userId, { externalId: externalId! });
+      accountIds.set(externalId!, account.id);
+    }
+
+    const result = await prisma.cashActivity.createMany({
+      data: activities.map(activity => ({
+        userId,
+        tradingAccountId: activity.externalAccountId ? accountIds.get(activity.externalAccountId.trim()) ?? null : null,
+        activityType: activity.activityType,
+        amount: new Decimal(activity.amount),
+        currency: activity.currency || 'USD',
+        symbol: activity.symbol || null,
+        description: activity.description || null,
+        occurredAt: activity.occurredAt,
+        importSource: activity.importSource,
+        importBatchId: activity.importBatchId ?? null,
+        activityHash: this.createActivityHash(activity),
+        brokerMetadata: activity.brokerMetadata,
+      })),
+      skipDuplicates: true,
+    });
+
+    console.log(`[CASH ACTIVITIES REPO] Created ${result.count} of ${activities.length} cash activities for user ${userId}`);
+    return result.count;
+  }
+
+  /**
+   * Count the activities createActivities would record, leaving out ones already recorded
+   */
+  async countNewActivities(userId: string, activities: CreateCashActivityData[]): Promise<number> {
+    const hashes = Array.from(new Set(activities.map(activity => this.createActivityHash(activity))));
+    if (hashes.length === 0) return 0;
+
+    const recorded = await prisma.cashActivity.count({
+      where: { userId, activityHash: { in: hashes } },
+    });
+    return hashes.length - recorded;
+  }
+
+  /**
+   * Get a user's cash activities, newest first
+   */
+  async getActivities(userId: string, filters: CashActivityFilters = {}, limit?: number): Promise<CashActivity[]> {
+    return await prisma.cashActivity.findMany({
+      where: this.buildWhere(userId, filters),
+      orderBy: [{ occurredAt: 'desc' }, { createdAt: 'desc' }],
+      take: limit,
+    });
+  }
+
+  /**
+   * Net amount and number of activities per type
+   */
+  async getTotals(userId: string, filters: CashActivityFilters = {}): Promise<CashActivityTotal[]> {
+    const groups = await prisma.cashActivity.groupBy({
+      by: ['activityType'],
+      where: this.buildWhere(userId, filters),
+      _sum: { amount: true },
+      _count: { _all: true },
+    });
+
+    return groups.map(group => ({
+      activityType: group.activityType,
+      amount: group._sum.amount?.toNumber() ?? 0,
+      count: group._count._all,
+    }));
+  }
+
+  /**
+   * Delete a cash activity; returns false when the user has no such activity
+   */
+  async deleteActivity(userId: string, activityId: string): Promise<boolean> {
+    const activity = await prisma.cashActivity.findFirst({
+      where: { id: activityId, userId },
+      select: { activityType: true },
+    });
+    if (!activity) return false;
+
+    await prisma.cashActivity.delete({ where: { id: activityId } });
+
+    // Trades that carried a share of a deleted borrow fee or margin interest charge get it back
+    if (FINANCING_TYPES.includes(activity.activityType)) {
+      await this.attributeFinancingCosts(userId);
+    }
+    return true;
+  }
+
+  /**
+   * Attribute every borrow fee and margin interest charge to the trades held while it accrued
+   * Replaces the user's allocations and updates financingCost and netPnl on each trade whose
+   * share changed. Returns the number of trades updated.
+   */
+  async attributeFinancingCosts(userId: string): Promise<number> {
+    const charges = await prisma.cashActivity.findMany({
+      where: { userId, activityType: { in: FINANCING_TYPES } },
+      select: { id: true, activityType: true, amount: true, symbol: true, tradingAccountId: true, occurredAt: true },
+    });
+
+    const tradeSelect = {
+      id: true, symbol: true, side: true, quantity: true, openQuantity: true, entryPrice: true, avgEntryPrice: true,
+      contractMultiplier: true, tradingAccountId: true, entryDate: true, exitDate: true,
+      pnl: true, netPnl: true, commission: true, fees: true, financingCost: true,
+    } satisfies Prisma.TradeSelect;
+
+    // Positions held at some point in a charge's window, plus trades still carrying an earlier share
+    const occurredAt = charges.map(charge => charge.occurredAt.getTime());
+    const positions = charges.length === 0 ? [] : await prisma.trade.findMany({
+      where: {
+        userId,
+        status: { not: TradeStatus.BLANK },
+        entryDate: { lte: new Date(Math.max(...occurredAt)) },
+        OR: [{ exitDate: null }, { exitDate: { gte: subDays(new Date(Math.min(...occurredAt)), ACCRUAL_WINDOW_DAYS) } }],
+      },
+      select: tradeSelect,
+    });
+    const previouslyFinanced = await prisma.trade.findMany({
+      where: { userId, financingCost: { not: null }, id: { notIn: positions.map(trade => trade.id) } },
+      select: tradeSelect,
+    });
+
+    const shares = allocateFinancingCosts(
+      charges.map(charge => ({
+        id: charge.id,
+        activityType: charge.activityType,
+        amount: charge.amount.toNumber(),
+        symbol: charge.symbol,
+        accountId: charge.tradingAccountId,
+        occurredAt: charge.occurredAt,
+      })),
+      positions.map(trade => ({
+        id: trade.id,
+        symbol: trade.symbol,
+        side: trade.side,
+        quantity: Number(trade.openQuantity ?? trade.quantity ?? 0),
+        price: Number(trade.avgEntryPrice ?? trade.entryPrice ?? 0),
+        multiplier: Number(trade.contractMultiplier),
+        accountId: trade.tradingAccountId,
+        entryDate: trade.entryDate,
+        exitDate: trade.exitDate,
+      }))
+    );
+
+    const costByTrade = new Map<string, number>();
+    for (const share of shares) {
+      costByTrade.set(share.tradeId, (costByTrade.get(share.tradeId) ?? 0) + share.amount);
+    }
+
+    const updates = [...positions, ...previouslyFinanced].flatMap(trade => {
+      const cost = costByTrade.get(trade.id);
+      const financingCost = cost !== undefined ? Math.round(cost * 100) / 100 : null;
+      const netPnl = calculateNetPnl(Number(trade.pnl), trade.commission, trade.fees, financingCost);
+      const unchanged = (trade.financingCost === null ? null : trade.financingCost.toNumber()) === financingCost &&
+        trade.netPnl.toNumber() === netPnl;
+      return unchanged ? [] : [{ id: trade.id, financingCost, netPnl }];
+    });
+
+    await prisma.$transaction([
+      prisma.financingAllocation.deleteMany({ where: { userId } }),
+      prisma.financingAllocation.createMany({
+        data: shares.map(share => ({ userId, ...share, amount: new Decimal(share.amount) })),
+      }),
+      ...updates.map(update => prisma.trade.update({
+        where: { id: update.id },
+        data: {
+          financingCost: update.financingCost === null ? null : new Decimal(update.financingCost),
+          netPnl: new Decimal(update.netPnl),
+        },
+      })),
+    ]);
+
+    if (shares.length > 0 || updates.length > 0) {
+      console.log(`[CASH ACTIVITIES REPO] Attributed ${charges.length} financing charges to ${costByTrade.size} trades for user ${userId}, updated ${updates.length}`);
+    }
+    return updates.length;
+  }
+
+  /**
+   * Borrow fees and margin interest charged in a period, and how they were attributed to trades
+   */
+  async getFinancingSummary(userId: string, filters: CashActivityFilters = {}): Promise<FinancingSummary> {
+    const chargeFilters = { ...filters, activityTypes: FINANCING_TYPES };
+    const [totals, allocations] = await Promise.all([
+      this.getTotals(userId, chargeFilters),
+      prisma.financingAllocation.findMany({
+        where: { userId, cashActivity: this.buildWhere(userId, chargeFilters) },
+        select: {
+          amount: true,
+          cashActivity: { select: { activityType: true } },
+          trade: {
+            select: { id: true, symbol: true, side: true, entryDate: true, exitDate: true, pnl: true, netPnl: true, financingCost: true },
+          },
+        },
+      }),
+    ]);
+
+    const charged = (type: CashActivityType) => -(totals.find(total => total.activityType === type)?.amount ?? 0);
+    const summary: FinancingSummary = {
+      borrowFees: charged(CashActivityType.BORROW_FEE),
+      marginInterest: charged(CashActivityType.MARGIN_INTEREST),
+      attributed: 0,
+      unattributed: 0,
+      bySymbol: [],
+      trades: [],
+    };
+
+    const symbols = new Map<string, FinancingSummary['bySymbol'][number]>();
+    const trades = new Map<string, FinancingSummary['trades'][number]>();
+    for (const allocation of allocations) {
+      const amount = allocation.amount.toNumber();
+      const isBorrowFee = allocation.cashActivity.activityType === CashActivityType.BORROW_FEE;
+      summary.attributed += amount;
+
+      const symbol = symbols.get(allocation.trade.symbol) ?? { symbol: allocation.trade.symbol, borrowFees: 0, marginInterest: 0, trades: 0 };
+      symbols.set(symbol.symbol, symbol);
+      if (isBorrowFee) symbol.borrowFees += amount;
+      else symbol.marginInterest += amount;
+
+      if (!trades.has(allocation.trade.id)) {
+        symbol.trades += 1;
+        trades.set(allocation.trade.id, {
+          id: allocation.trade.id,
+          symbol: allocation.trade.symbol,
+          side: allocation.trade.side,
+          entryDate: allocation.trade.entryDate.toISOString(),
+          exitDate: allocation.trade.exitDate?.toISOString() ?? null,
+          pnl: allocation.trade.pnl.toNumber(),
+          financingCost: 0,
+          netPnl: allocation.trade.netPnl.toNumber(),
+        });
+      }
+      trades.get(allocation.trade.id)!.financingCost += amount;
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    summary.attributed = round(summary.attributed);
+    summary.unattributed = round(summary.borrowFees + summary.marginInterest - summary.attributed);
+    summary.bySymbol = Array.from(symbols.values())
+      .map(symbol => ({ ...symbol, borrowFees: round(symbol.borrowFees), marginInterest: round(symbol.marginInterest) }))
+      .sort((a, b) => (b.borrowFees + b.marginInterest) - (a.borrowFees + a.marginInterest));
+    summary.trades = Array.from(trades.values())
+      .map(trade => ({ ...trade, financingCost: round(trade.financingCost) }))
+      .sort((a, b) => b.financingCost - a.financingCost);
+
+    return summary;
+  }
+
+  private buildWhere(userId: string, filters: CashActivityFilters): Prisma.CashActivityWhereInput {
+    return {
+      userId,
+      tradingAccountId: filters.accountId,
+      activityType: filters.activityTypes?.length ? { in: filters.activityTypes } : undefined,
+      occurredAt: filters.dateFrom || filters.dateTo
+        ? { gte: filters.dateFrom, lte: filters.dateTo }
+        : undefined,
+    };
+  }
+
+  /**
+   * Identify an activity across syncs and uploads: the broker's id when it has one, otherwise its contents
+   */
+  private createActivityHash(activity: CreateCashActivityData): string {
+    const hashInput = activity.externalId
+      ? [activity.importSource, activity.externalId]
+      : [
+          activity.externalAccountId?.trim(),
+          activity.activityType,
+          activity.amount.toFixed(2),
+          activity.occurredAt.toISOString(),
+          activity.symbol,
+          activity.description,
+        ];
+
+    return createHash('sha256').update(hashInput.join('|')).digest('hex');
+  }
+}
+
+export const cashActivitiesRepo = new CashActivitiesRepository();
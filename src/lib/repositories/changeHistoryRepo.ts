@@ -0,0 +1,122 @@
+import { prisma } from '@/lib/prisma';
+import { ChangeEntityType, ChangeHistory, Prisma } from '@prisma/client';
+import { ChangeSource, ChangeValue, CHANGE_SOURCES, diffFields, NOTES_COALESCE_WINDOW_MS } from '@/lib/changeHistory';
+
+export interface ChangedEntities {
+  entityType: ChangeEntityType;
+  entityIds: string[];
+}
+
+export class ChangeHistoryRepository {
+  /**
+   * Record the tracked fields that differ between two versions of an entity
+   * Notes saved again within the coalesce window update the previous notes change instead of
+   * adding one per autosave. Returns the number of fields recorded.
+   */
+  async recordChanges(
+    userId: string,
+    actorId: string,
+    entityType: ChangeEntityType,
+    entityId: string,
+    before: object,
+    after: object,
+    source: ChangeSource,
+    revertOfId?: string
+  ): Promise<number> {
+    const changes = diffFields(entityType, before, after);
+    if (changes.length === 0) return 0;
+
+    for (const change of changes) {
+      if (source === CHANGE_SOURCES.NOTES && await this.coalesceNotes(userId, actorId, entityType, entityId, change.field, change.newValue)) {
+        continue;
+      }
+
+      await prisma.changeHistory.create({
+        data: {
+          userId,
+          actorId,
+          entityType,
+          entityId,
+          field: change.field,
+          oldValue: this.toJson(change.oldValue),
+          newValue: this.toJson(change.newValue),
+          source,
+          revertOfId,
+        },
+      });
+    }
+
+    console.log(`[CHANGE HISTORY REPO] Recorded ${changes.length} ${entityType} changes for ${entityId}`, { source });
+    return changes.length;
+  }
+
+  /**
+   * Get the most recent changes to any of the given entities, newest first
+   */
+  async getHistory(userId: string, entities: ChangedEntities[], limit = 100): Promise<ChangeHistory[]> {
+    const filters = entities.filter(entity => entity.entityIds.length > 0);
+    if (filters.length === 0) return [];
+
+    return await prisma.changeHistory.findMany({
+      where: {
+        userId,
+        OR: filters.map(entity => ({ entityType: entity.entityType, entityId: { in: entity.entityIds } })),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Get one of a user's recorded changes
+   */
+  async getChange(userId: string, changeId: string): Promise<ChangeHistory | null> {
+    return await prisma.changeHistory.findFirst({
+      where: { id: changeId, userId },
+    });
+  }
+
+  /**
+   * Fold a notes save into the previous notes change when it was made moments ago
+   * The earlier change keeps its old value; it is removed when the notes are back where they started.
+   */
+  private async coalesceNotes(
+    userId: string,
+    actorId: string,
+    entityType: ChangeEntityType,
+    entityId: string,
+    field: string,
+    newValue: ChangeValue
+  ): Promise<boolean> {
+    const previous = await prisma.changeHistory.findFirst({
+      where: { userId, entityType, entityId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (
+      !previous ||
+      previous.field !== field ||
+      previous.source !== CHANGE_SOURCES.NOTES ||
+      previous.actorId !== actorId ||
+      Date.now() - previous.createdAt.getTime() > NOTES_COALESCE_WINDOW_MS
+    ) {
+      return false;
+    }
+
+    if (JSON.stringify(previous.oldValue ?? null) === JSON.stringify(newValue)) {
+      await prisma.changeHistory.delete({ where: { id: previous.id } });
+    } else {
+      await prisma.changeHistory.update({
+        where: { id: previous.id },
+        data: { newValue: this.toJson(newValue) },
+      });
+    }
+    return true;
+  }
+
+  private toJson(value: ChangeValue): Prisma.InputJsonValue | typeof Prisma.DbNull {
+    return value === null ? Prisma.DbNull : value;
+  }
+}
+
+export const changeHistoryRepo = new ChangeHistoryRepository();
@@ -0,0 +1,137 @@
+import { prisma } from '@/lib/prisma';
+import { CorporateAction, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { toQuantity } from '@/lib/precision';
+import { getEffectiveTime, restateOrder, toCorporateActionTerms } from '@/lib/corporateActions';
+import { CorporateActionInput } from '@/lib/schemas/corporateActions';
+
+export type CorporateActionSource = 'ADMIN' | 'SEED' | 'SNAPTRADE';
+
+export class CorporateActionsRepository {
+  /**
+   * Get every corporate action in the order they took effect
+   */
+  async getCorporateActions(): Promise<CorporateAction[]> {
+    return await prisma.corporateAction.findMany({
+      orderBy: [{ effectiveDate: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Create a corporate action; throws on a duplicate symbol/type/date
+   */
+  async createCorporateAction(data: CorporateActionInput, source: CorporateActionSource): Promise<CorporateAction> {
+    return await prisma.corporateAction.create({ data: this.toCreateData(data, source) });
+  }
+
+  /**
+   * Create a corporate action unless one already exists for the symbol/type/date
+   * Existing rows win, so broker-reported and seeded actions never overwrite an admin's correction
+   */
+  async upsertCorporateAction(data: CorporateActionInput, source: CorporateActionSource): Promise<CorporateAction> {
+    const createData = this.toCreateData(data, source);
+    return await prisma.corporateAction.upsert({
+      where: {
+        symbol_actionType_effectiveDate: {
+          symbol: createData.symbol,
+          actionType: createData.actionType,
+          effectiveDate: createData.effectiveDate,
+        },
+      },
+      create: createData,
+      update: {},
+    });
+  }
+
+  /**
+   * Delete a corporate action
+   * Orders already restated keep their restated values; only future imports are affected
+   */
+  async deleteCorporateAction(id: string): Promise<boolean> {
+    const result = await prisma.corporateAction.deleteMany({ where: { id } });
+    return result.count > 0;
+  }
+
+  /**
+   * Get the trades holding orders a corporate action has not been applied to yet
+   * They are unwound before restating, so every order executed before the action is restated
+   * whether its trades were built before or after the action was added.
+   */
+  async getPendingTradeIds(userId: string, action: CorporateAction): Promise<string[]> {
+    const orders = await prisma.order.findMany({
+      where: { ...this.getPendingOrdersWhere(userId, action), tradeId: { not: null } },
+      select: { tradeId: true },
+      distinct: ['tradeId'],
+    });
+    return orders.map(order => order.tradeId!);
+  }
+
+  /**
+   * Restate the user's unprocessed orders executed before the action onto the new basis
+   * Orders of trades that were not unwound (locked or entered by hand) keep their terms. Each order
+   * records the action so it is never restated twice. Returns the number of orders restated.
+   */
+  async restateOrders(userId: string, action: CorporateAction): Promise<number> {
+    const orders = await prisma.order.findMany({
+      where: { ...this.getPendingOrdersWhere(userId, action), tradeId: null },
+      select: { id: true, symbol: true, orderQuantity: true, limitPrice: true, stopPrice: true },
+    });
+    if (orders.length === 0) return 0;
+
+    const terms = toCorporateActionTerms(action);
+    await prisma.$transaction(orders.map(order => {
+      const restated = restateOrder({
+        symbol: order.symbol,
+        orderQuantity: toQuantity(order.orderQuantity),
+        limitPrice: order.limitPrice !== null ? Number(order.limitPrice) : null,
+        stopPrice: order.stopPrice !== null ? Number(order.stopPrice) : null,
+      }, terms);
+
+      return prisma.order.update({
+        where: { id: order.id },
+        data: {
+          symbol: restated.symbol,
+          orderQuantity: new Decimal(restated.orderQuantity),
+          limitPrice: restated.limitPrice !== null ? new Decimal(restated.limitPrice) : null,
+          stopPrice: restated.stopPrice !== null ? new Decimal(restated.stopPrice) : null,
+          appliedCorporateActionIds: { push: action.id },
+        },
+      });
+    }));
+
+    console.log(`[CORPORATE ACTIONS REPO] Restated ${orders.length} ${action.symbol} orders for ${action.actionType}`, {
+      userId,
+      actionId: action.id,
+    });
+
+    return orders.length;
+  }
+
+  /**
+   * Share orders (option contracts are left alone) on the old basis that the action has not been applied to
+   */
+  private getPendingOrdersWhere(userId: string, action: CorporateAction): Prisma.OrderWhereInput {
+    return {
+      userId,
+      symbol: action.symbol,
+      optionRight: null,
+      orderExecutedTime: { lt: getEffectiveTime(action.effectiveDate) },
+      NOT: { appliedCorporateActionIds: { has: action.id } },
+    };
+  }
+
+  private toCreateData(data: CorporateActionInput, source: CorporateActionSource) {
+    return {
+      symbol: data.symbol,
+      actionType: data.actionType,
+      effectiveDate: new Date(`${data.effectiveDate}T00:00:00.000Z`),
+      ratioFrom: data.ratioFrom !== undefined ? new Decimal(data.ratioFrom) : null,
+      ratioTo: data.ratioTo !== undefined ? new Decimal(data.ratioTo) : null,
+      newSymbol: data.newSymbol ?? null,
+      source,
+      notes: data.notes ?? null,
+    };
+  }
+}
+
+export const corporateActionsRepo = new CorporateActionsRepository();
@@ -0,0 +1,110 @@
+import { prisma } from '@/lib/prisma';
+import { FxRate } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { DEFAULT_BASE_CURRENCY, FX_RATE_MAX_AGE_DAYS, FxRateInput } from '@/lib/currency';
+
+// Rates missing for a pair are crossed through this currency
+const CROSS_CURRENCY = 'USD';
+
+export class FxRatesRepository {
+  /**
+   * Get the currency a user's P&L is reported in
+   */
+  async getBaseCurrency(userId: string): Promise<string> {
+    const preferences = await prisma.userPreferences.findUnique({
+      where: { userId },
+      select: { baseCurrency: true },
+    });
+    return preferences?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+  }
+
+  /**
+   * Set the currency a user's P&L is reported in
+   */
+  async setBaseCurrency(userId: string, baseCurrency: string): Promise<void> {
+    await prisma.userPreferences.upsert({
+      where: { userId },
+      create: { userId, baseCurrency },
+      update: { baseCurrency },
+    });
+  }
+
+  /**
+   * Rate to convert one unit of fromCurrency into toCurrency on a day
+   * Uses the latest rate on or before the day, the inverse of the opposite pair, or a cross through
+   * USD, in that order. Returns null when no rate is recent enough.
+   */
+  async getRate(fromCurrency: string, toCurrency: string, date: Date): Promise<number | null> {
+    if (fromCurrency === toCurrency) return 1;
+
+    const direct = await this.getPairRate(fromCurrency, toCurrency, date);
+    if (direct !== null) return direct;
+
+    if (fromCurrency !== CROSS_CURRENCY && toCurrency !== CROSS_CURRENCY) {
+      const [fromCross, crossTo] = await Promise.all([
+        this.getPairRate(fromCurrency, CROSS_CURRENCY, date),
+        this.getPairRate(CROSS_CURRENCY, toCurrency, date),
+      ]);
+      if (fromCross !== null && crossTo !== null) return fromCross * crossTo;
+    }
+
+    return null;
+  }
+
+  /**
+   * Insert or replace daily rates; returns the number of rates written
+   */
+  async upsertRates(rates: FxRateInput[], source: string): Promise<number> {
+    const BATCH_SIZE = 500;
+    for (let start = 0; start < rates.length; start += BATCH_SIZE) {
+      await prisma.$transaction(rates.slice(start, start + BATCH_SIZE).map(rate => {
+        const date = new Date(`${rate.date}T00:00:00.000Z`);
+        return prisma.fxRate.upsert({
+          where: {
+            fromCurrency_toCurrency_date: { fromCurrency: rate.fromCurrency, toCurrency: rate.toCurrency, date },
+          },
+          create: { ...rate, date, rate: new Decimal(rate.rate), source },
+          update: { rate: new Decimal(rate.rate), source },
+        });
+      }));
+    }
+
+    console.log(`[FX RATES REPO] Upserted ${rates.length} rates from ${source}`);
+    return rates.length;
+  }
+
+  /**
+   * Get the most recent rates, optionally for one currency on either side of the pair
+   */
+  async getRates(currency?: string, limit = 100): Promise<FxRate[]> {
+    return await prisma.fxRate.findMany({
+      where: currency ? { OR: [{ fromCurrency: currency }, { toCurrency: currency }] } : undefined,
+      orderBy: [{ date: 'desc' }, { fromCurrency: 'asc' }, { toCurrency: 'asc' }],
+      take: limit,
+    });
+  }
+
+  /**
+   * Latest rate for a pair in either direction within the staleness window
+   */
+  private async getPairRate(fromCurrency: string, toCurrency: string, date: Date): Promise<number | null> {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    const oldest = new Date(day.getTime() - FX_RATE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000);
+
+    const rate = await prisma.fxRate.findFirst({
+      where: {
+        date: { gte: oldest, lte: day },
+        OR: [
+          { fromCurrency, toCurrency },
+          { fromCurrency: toCurrency, toCurrency: fromCurrency },
+        ],
+      },
+      orderBy: { date: 'desc' },
+    });
+
+    if (!rate) return null;
+    return rate.fromCurrency === fromCurrency ? Number(rate.rate) : 1 / Number(rate.rate);
+  }
+}
+
+export const fxRatesRepo = new FxRatesRepository();
@@ -0,0 +1,160 @@
+import { prisma } from '@/lib/prisma';
+import { ImportTemplate, Prisma } from '@prisma/client';
+import { OpenAiMappingService } from '@/lib/ai/openAiMappingService';
+import { BrokerFormatService } from '@/lib/brokerFormatService';
+import { ImportTemplateError, TemplateFieldMappings, validateTemplate } from '@/lib/importTemplates';
+
+export interface SaveImportTemplateData {
+  name: string;
+  headers: string[];
+  fieldMappings: TemplateFieldMappings;
+  dateFormat?: string | null;
+  timezone?: string | null;
+  brokerName?: string | null;
+}
+
+export class ImportTemplatesRepository {
+  /**
+   * Save a template as the next version of the user's template for its headers
+   */
+  async saveTemplate(userId: string, data: SaveImportTemplateData): Promise<ImportTemplate> {
+    validateTemplate(data.headers, data.fieldMappings, data);
+
+    const headerFingerprint = this.fingerprint(data.headers);
+    const latest = await prisma.importTemplate.findFirst({
+      where: { userId, headerFingerprint },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+    const broker = data.brokerName ? await new BrokerFormatService().findOrCreateBroker(data.brokerName) : null;
+
+    try {
+      const template = await prisma.importTemplate.create({
+        data: {
+          userId,
+          name: data.name.trim(),
+          headerFingerprint,
+          headers: data.headers,
+          version: (latest?.version ?? 0) + 1,
+          fieldMappings: data.fieldMappings as unknown as Prisma.InputJsonValue,
+          dateFormat: data.dateFormat || null,
+          timezone: data.timezone || null,
+          brokerId: broker?.id ?? null,
+        },
+      });
+
+      console.log(`[IMPORT TEMPLATES REPO] Saved template "${template.name}" v${template.version} for user ${userId}`);
+      return template;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ImportTemplateError('This template was saved from another session at the same time; save it again', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Latest version of the user's template for a file's headers
+   * Like format detection, a fingerprint match only counts when the header count matches too.
+   */
+  async findTemplateForHeaders(userId: string, headers: string[]): Promise<ImportTemplate | null> {
+    const template = await prisma.importTemplate.findFirst({
+      where: { userId, headerFingerprint: this.fingerprint(headers) },
+      orderBy: { version: 'desc' },
+    });
+
+    return template && template.headers.length === headers.length ? template : null;
+  }
+
+  /**
+   * The user's templates, latest version of each first, older versions after it
+   */
+  async getTemplates(userId: string): Promise<ImportTemplate[]> {
+    return await prisma.importTemplate.findMany({
+      where: { userId },
+      orderBy: [{ headerFingerprint: 'asc' }, { version: 'desc' }],
+    });
+  }
+
+  async getTemplate(userId: string, templateId: string): Promise<ImportTemplate | null> {
+    return await prisma.importTemplate.findFirst({
+      where: { id: templateId, userId },
+    });
+  }
+
+  /**
+   * Delete one version of a template; the previous version applies again
+   */
+  async deleteTemplate(userId: string, templateId: string): Promise<boolean> {
+    const result = await prisma.importTemplate.deleteMany({
+      where: { id: templateId, userId },
+    });
+    return result.count > 0;
+  }
+
+  async recordUsage(templateId: string): Promise<void> {
+    await prisma.importTemplate.update({
+      where: { id: templateId },
+      data: { usageCount: { increment: 1 }, lastUsed: new Date() },
+    });
+  }
+
+  /**
+   * Submit a template for global approval as an unapproved broker format
+   * Admins review it with the other pending formats; once approved it applies to every user's uploads.
+   */
+  async submitForApproval(userId: string, templateId: string, brokerName?: string): Promise<ImportTemplate | null> {
+    const template = await this.getTemplate(userId, templateId);
+    if (!template) return null;
+
+    if (template.submittedFormatId) {
+      throw new ImportTemplateError('This template version has already been submitted', 409);
+    }
+
+    const broker = brokerName
+      ? await new BrokerFormatService().findOrCreateBroker(brokerName)
+      : template.brokerId ? await prisma.broker.findUnique({ where: { id: template.brokerId } }) : null;
+    if (!broker) {
+      throw new ImportTemplateError('Choose the broker this template is for before submitting it');
+    }
+
+    const existing = await prisma.brokerCsvFormat.findUnique({
+      where: { brokerId_headerFingerprint: { brokerId: broker.id, headerFingerprint: template.headerFingerprint } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ImportTemplateError(`${broker.name} already has a format for these headers`, 409);
+    }
+
+    const dateNotes = [
+      template.dateFormat && `dates written ${template.dateFormat}`,
+      template.timezone && `times in ${template.timezone}`,
+    ].filter(Boolean);
+    const format = await prisma.brokerCsvFormat.create({
+      data: {
+        brokerId: broker.id,
+        formatName: template.name,
+        description: `Submitted from a user import template${dateNotes.length > 0 ? ` (${dateNotes.join(', ')})` : ''}`,
+        headerFingerprint: template.headerFingerprint,
+        headers: template.headers,
+        fieldMappings: template.fieldMappings as Prisma.InputJsonValue,
+        confidence: 1.0,
+        createdBy: userId,
+        isApproved: false,
+      },
+    });
+
+    console.log(`[IMPORT TEMPLATES REPO] Submitted template ${template.id} as format ${format.id} for approval`);
+    return await prisma.importTemplate.update({
+      where: { id: template.id },
+      data: { submittedFormatId: format.id, brokerId: broker.id },
+    });
+  }
+
+  // Same fingerprint format detection matches BrokerCsvFormat rows on
+  private fingerprint(headers: string[]): string {
+    return new OpenAiMappingService().generateHeaderFingerprint(headers);
+  }
+}
+
+export const importTemplatesRepo = new ImportTemplatesRepository();
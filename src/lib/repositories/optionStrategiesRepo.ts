@@ -0,0 +1,142 @@
+import { prisma } from '@/lib/prisma';
+import { OptionStrategy, Trade, TradeStatus } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { toQuantity } from '@/lib/precision';
+import { StrategyLeg, groupStrategyLegs, classifyStrategy, calculateMaxRisk } from '@/lib/optionStrategies';
+
+export class OptionStrategiesRepository {
+  /**
+   * Get a user's strategies with their legs
+   */
+  async getStrategies(userId: string): Promise<Array<OptionStrategy & { legs: Trade[] }>> {
+    return await prisma.optionStrategy.findMany({
+      where: { userId },
+      include: { legs: { orderBy: { strikePrice: 'asc' } } },
+      orderBy: { openTime: 'desc' },
+    });
+  }
+
+  /**
+   * Group newly built option legs into strategies and refresh every strategy's combined figures
+   * Strategies that lost or gained legs (e.g. after a back-dated rebuild) are dissolved first,
+   * so their legs are grouped again from scratch. Returns the number of strategies created.
+   */
+  async detectStrategies(userId: string): Promise<number> {
+    await this.dissolveChangedStrategies(userId);
+
+    const ungroupedTrades = await prisma.trade.findMany({
+      where: {
+        userId,
+        isCalculated: true,
+        strategyId: null,
+        optionRight: { not: null },
+        strikePrice: { not: null },
+        expirationDate: { not: null },
+      },
+    });
+
+    const legs = ungroupedTrades
+      .map(trade => this.toStrategyLeg(trade))
+      .filter((leg): leg is StrategyLeg => leg !== null);
+
+    const groups = groupStrategyLegs(legs);
+    for (const group of groups) {
+      const maxRisk = calculateMaxRisk(group);
+      await prisma.$transaction(async (tx) => {
+        const strategy = await tx.optionStrategy.create({
+          data: {
+            userId,
+            underlyingSymbol: group[0].underlyingSymbol,
+            strategyType: classifyStrategy(group),
+            brokerId: group[0].brokerId,
+            tradingAccountId: group[0].tradingAccountId,
+            openTime: group[0].openTime,
+            legCount: group.length,
+            maxRisk: maxRisk !== null ? new Decimal(maxRisk) : null,
+          },
+        });
+        await tx.trade.updateMany({
+          where: { id: { in: group.map(leg => leg.tradeId) }, strategyId: null },
+          data: { strategyId: strategy.id },
+        });
+      });
+    }
+
+    await this.refreshStrategies(userId);
+
+    if (groups.length > 0) {
+      console.log(`[OPTION STRATEGIES REPO] Grouped ${groups.length} strategies for user ${userId}`);
+    }
+
+    return groups.length;
+  }
+
+  /**
+   * Recalculate combined P&L, status and close time from the current legs
+   */
+  async refreshStrategies(userId: string): Promise<void> {
+    const strategies = await prisma.optionStrategy.findMany({
+      where: { userId },
+      include: { legs: { select: { pnl: true, netPnl: true, status: true, closeTime: true } } },
+    });
+
+    for (const strategy of strategies) {
+      const pnl = strategy.legs.reduce((sum, leg) => sum + Number(leg.pnl), 0);
+      const netPnl = strategy.legs.reduce((sum, leg) => sum + Number(leg.netPnl), 0);
+      const isClosed = strategy.legs.every(leg => leg.status === TradeStatus.CLOSED);
+      const closeTimes = strategy.legs
+        .map(leg => leg.closeTime?.getTime())
+        .filter((time): time is number => time !== undefined);
+
+      await prisma.optionStrategy.update({
+        where: { id: strategy.id },
+        data: {
+          pnl: new Decimal(Math.round(pnl * 100) / 100),
+          netPnl: new Decimal(Math.round(netPnl * 100) / 100),
+          status: isClosed ? TradeStatus.CLOSED : TradeStatus.OPEN,
+          closeTime: isClosed && closeTimes.length > 0 ? new Date(Math.max(...closeTimes)) : null,
+        },
+      });
+    }
+  }
+
+  /**
+   * Delete strategies whose leg count no longer matches, unlinking their remaining legs
+   */
+  private async dissolveChangedStrategies(userId: string): Promise<void> {
+    const strategies = await prisma.optionStrategy.findMany({
+      where: { userId },
+      select: { id: true, legCount: true, _count: { select: { legs: true } } },
+    });
+
+    const changedIds = strategies
+      .filter(strategy => strategy._count.legs !== strategy.legCount)
+      .map(strategy => strategy.id);
+
+    if (changedIds.length > 0) {
+      // Trade.strategyId is SET NULL on delete, so the legs become ungrouped
+      await prisma.optionStrategy.deleteMany({ where: { id: { in: changedIds } } });
+    }
+  }
+
+  private toStrategyLeg(trade: Trade): StrategyLeg | null {
+    if (!trade.optionRight || !trade.strikePrice || !trade.expirationDate) return null;
+
+    return {
+      tradeId: trade.id,
+      underlyingSymbol: trade.underlyingSymbol || trade.symbol,
+      optionRight: trade.optionRight,
+      strikePrice: Number(trade.strikePrice),
+      expirationDate: trade.expirationDate,
+      side: trade.side,
+      quantity: toQuantity(trade.openQuantity ?? trade.quantity ?? 0),
+      entryPrice: Number(trade.avgEntryPrice ?? trade.entryPrice ?? 0),
+      multiplier: Number(trade.contractMultiplier) || 1,
+      openTime: trade.openTime || trade.entryDate,
+      brokerId: trade.brokerId,
+      tradingAccountId: trade.tradingAccountId,
+    };
+  }
+}
+
+export const optionStrategiesRepo = new OptionStrategiesRepository();
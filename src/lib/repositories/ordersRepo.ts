@@ -1,5 +1,16 @@
 import { prisma } from '@/lib/prisma';
-import { Order } from '@prisma/client';
+import { BrokerType, ImportSource, ImportStatus, Order, OrderSide, OrderStatus, OrderType, Prisma, TimeInForce, Trade } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { roundQuantity, toQuantity } from '@/lib/precision';
+import { prorateCost } from '@/lib/tradeFees';
+import { ManualExecution, resolveManualInstrument } from '@/lib/manualExecutions';
+import type { ManualExecutionInput } from '@/lib/schemas/manualExecutions';
+
+export interface PositionScope {
+  symbol: string;
+  brokerId: string | null;
+  tradingAccountId: string | null;
+}
 
 export class OrdersRepository {
   /**
@@ -39,6 +50,17 @@ export class OrdersRepository {
     });
   }
 
+  /**
+   * Update the side of an order
+   * Used to align option expiration/assignment/exercise events with the position they close
+   */
+  async updateOrderSide(orderId: string, side: OrderSide): Promise<void> {
+    await prisma.order.update({
+      where: { id: orderId },
+      data: { side },
+    });
+  }
+
   /**
    * Get orders by their order IDs
    */
@@ -64,6 +86,20 @@ export class OrdersRepository {
     });
   }
 
+  /**
+   * Get every order a user has for the given symbols, in execution order
+   * Orders sharing an execution time keep a stable order, so builds over them are repeatable
+   */
+  async getOrdersForSymbols(userId: string, symbols: string[]): Promise<Order[]> {
+    return await prisma.order.findMany({
+      where: {
+        userId,
+        symbol: { in: symbols },
+      },
+      orderBy: [{ orderExecutedTime: 'asc' }, { id: 'asc' }],
+    });
+  }
+
   /**
    * Check if orders are shared across multiple trades
    * Returns a map of orderId -> array of trade IDs that reference it
@@ -111,6 +147,164 @@ export class OrdersRepository {
     return result.count;
   }
 
+  /**
+   * Get the calculated trades of a position that have executions at or after a point in time
+   * Used to find the trades a back-dated import lands inside of
+   */
+  async getTradeIdsExecutedSince(userId: string, scope: PositionScope, since: Date): Promise<string[]> {
+    const orders = await prisma.order.findMany({
+      where: {
+        userId,
+        symbol: scope.symbol,
+        brokerId: scope.brokerId,
+        tradingAccountId: scope.tradingAccountId,
+        tradeId: { not: null },
+        orderExecutedTime: { gte: since },
+      },
+      select: { tradeId: true },
+      distinct: ['tradeId'],
+    });
+
+    return orders.map(order => order.tradeId!);
+  }
+
+  /**
+   * Get the distinct share symbols a user has orders for (option contracts excluded)
+   */
+  async getShareSymbols(userId: string): Promise<string[]> {
+    const orders = await prisma.order.findMany({
+      where: { userId, optionRight: null },
+      select: { symbol: true },
+      distinct: ['symbol'],
+    });
+
+    return orders.map(order => order.symbol);
+  }
+
+  /**
+   * Unwind calculated trades so their orders can be rebuilt
+   * Orders split by the trade builder are merged back into their archived parent, every other
+   * order is unlinked, and the trades (with their closing records) are deleted. Trades sharing a
+   * split order with a requested trade are unwound too. Locked trades are never unwound: a split
+   * order with a part in a locked trade stays split and its other parts are only unlinked.
+   * Returns the deleted trades so callers can carry over user annotations.
+   */
+  async unwindTrades(userId: string, tradeIds: string[]): Promise<Trade[]> {
+    if (tradeIds.length === 0) return [];
+
+    const { trades, restoredCount } = await prisma.$transaction(async (tx) => {
+      const requestedIds = new Set(tradeIds);
+
+      // A split parent is restored from all of its parts, so trades holding a part of the same
+      // original order (a reversal, or a round trip's partly closed entry) are unwound with it
+      const seenParentIds = new Set<string>();
+      let parentIds = (await tx.order.findMany({
+        where: { tradeId: { in: tradeIds }, splitFromOrderId: { not: null } },
+        select: { splitFromOrderId: true },
+      })).map(order => order.splitFromOrderId!);
+
+      while (parentIds.length > 0) {
+        parentIds = parentIds.filter(id => !seenParentIds.has(id));
+        parentIds.forEach(id => seenParentIds.add(id));
+        if (parentIds.length === 0) break;
+
+        const [parts, archived] = await Promise.all([
+          tx.order.findMany({
+            where: { splitFromOrderId: { in: parentIds }, tradeId: { not: null } },
+            select: { tradeId: true },
+          }),
+          tx.splitOrdersParentOrders.findMany({
+            where: { userId, OR: [{ id: { in: parentIds } }, { splitFromOrderId: { in: parentIds } }] },
+            select: { id: true, splitFromOrderId: true },
+          }),
+        ]);
+
+        const candidateIds = Array.from(new Set(parts.map(part => part.tradeId!).filter(id => !requestedIds.has(id))));
+        const newTradeIds = candidateIds.length > 0
+          ? (await tx.trade.findMany({
+              where: { id: { in: candidateIds }, isLocked: false },
+              select: { id: true },
+            })).map(trade => trade.id)
+          : [];
+        newTradeIds.forEach(id => requestedIds.add(id));
+
+        // Follow parents that were themselves split parts, parts that were split again, and the
+        // other split orders of newly added trades
+        const siblingOrders = newTradeIds.length > 0
+          ? await tx.order.findMany({
+              where: { tradeId: { in: newTradeIds }, splitFromOrderId: { not: null } },
+              select: { splitFromOrderId: true },
+            })
+          : [];
+        parentIds = [
+          ...archived.flatMap(order => [order.id, order.splitFromOrderId].filter((id): id is string => !!id)),
+          ...siblingOrders.map(order => order.splitFromOrderId!),
+        ];
+      }
+
+      const trades = await tx.trade.findMany({
+        where: { id: { in: Array.from(requestedIds) }, userId, isCalculated: true, isLocked: false },
+      });
+      const ids = trades.map(trade => trade.id);
+      const unwoundIds = new Set(ids);
+
+      let restoredCount = 0;
+      let pending = await tx.order.findMany({
+        where: { tradeId: { in: ids }, splitFromOrderId: { not: null } },
+      });
+
+      // Restore one split level per pass; a part that was split again is restored before its own parent
+      while (pending.length > 0) {
+        const parentIds = Array.from(new Set(pending.map(order => order.splitFromOrderId!)));
+        const parents = await tx.splitOrdersParentOrders.findMany({
+          where: { id: { in: parentIds }, userId },
+        });
+
+        const restored: Order[] = [];
+        for (const parent of parents) {
+          const parts = await tx.order.findMany({ where: { splitFromOrderId: parent.id } });
+
+          // Leave the order split while a part is held by a trade that stays (a locked trade), or
+          // while one of its parts is itself still split
+          const stillSplit = await tx.splitOrdersParentOrders.count({ where: { splitFromOrderId: parent.id } });
+          if (stillSplit > 0 || parts.some(part => part.tradeId && !unwoundIds.has(part.tradeId))) continue;
+
+          await tx.order.deleteMany({ where: { splitFromOrderId: parent.id } });
+          await tx.splitOrdersParentOrders.delete({ where: { id: parent.id } });
+
+          // The archive predates managed accounts, so the account comes from the parts
+          const { archivedAt: _archivedAt, brokerMetadata, ...orderData } = parent;
+          restored.push(await tx.order.create({
+            data: {
+              ...orderData,
+              brokerMetadata: brokerMetadata ?? undefined,
+              tradingAccountId: parts.find(part => part.tradingAccountId)?.tradingAccountId ?? null,
+              tradeId: null,
+              usedInTrade: false,
+            },
+          }));
+        }
+
+        restoredCount += restored.length;
+        pending = restored.filter(order => order.splitFromOrderId);
+      }
+
+      await tx.order.updateMany({
+        where: { tradeId: { in: ids } },
+        data: { tradeId: null, usedInTrade: false },
+      });
+      await tx.trade.deleteMany({ where: { id: { in: ids } } });
+
+      return { trades, restoredCount };
+    });
+
+    console.log(`[ORDERS REPO] Unwound ${trades.length} trades for user ${userId}`, {
+      restoredSplitOrders: restoredCount,
+    });
+
+    return trades;
+  }
+
   /**
    * Split an order into two separate orders
    * Used when an order participates in closing one trade and opening another
@@ -134,7 +328,7 @@ export class OrdersRepository {
     }
 
     // Validate quantities
-    if (quantity1 + quantity2 !== originalOrder.orderQuantity) {
+    if (roundQuantity(quantity1 + quantity2) !== toQuantity(originalOrder.orderQuantity)) {
       throw new Error(
         `Split quantities (${quantity1} + ${quantity2}) must equal original quantity (${originalOrder.orderQuantity})`
       );
@@ -144,6 +338,10 @@ export class OrdersRepository {
       throw new Error('Split quantities must be greater than 0');
     }
 
+    // Pro-rate commission and fees by quantity so each part carries its share
+    const [commission1, commission2] = prorateCost(originalOrder.commission, quantity1, quantity2) ?? [null, null];
+    const [fees1, fees2] = prorateCost(originalOrder.fees, quantity1, quantity2) ?? [null, null];
+
     // Create two new orders with the split quantities
     const [order1, order2] = await prisma.$transaction(async (tx) => {
       // Create first split order
@@ -167,11 +365,14 @@ export class OrdersRepository {
           orderCancelledTime: originalOrder.orderCancelledTime,
           accountId: originalOrder.accountId,
           orderAccount: originalOrder.orderAccount,
+          tradingAccountId: originalOrder.tradingAccountId,
           orderRoute: originalOrder.orderRoute,
           brokerType: originalOrder.brokerType,
           brokerId: originalOrder.brokerId, // Copy brokerId from original order
-          commission: originalOrder.commission,
-          fees: originalOrder.fees,
+          commission: commission1,
+          fees: fees1,
+          currency: originalOrder.currency,
+          importSource: originalOrder.importSource,
           tags: originalOrder.tags,
           usedInTrade: false,
           importBatchId: originalOrder.importBatchId,
@@ -179,6 +380,13 @@ export class OrdersRepository {
           brokerMetadata: originalOrder.brokerMetadata ?? undefined,
           datePrecision: originalOrder.datePrecision,
           importSequence: originalOrder.importSequence,
+          underlyingSymbol: originalOrder.underlyingSymbol,
+          optionRight: originalOrder.optionRight,
+          strikePrice: originalOrder.strikePrice,
+          expirationDate: originalOrder.expirationDate,
+          contractMultiplier: originalOrder.contractMultiplier,
+          optionEvent: originalOrder.optionEvent,
+          appliedCorporateActionIds: originalOrder.appliedCorporateActionIds,
         },
       });
 
@@ -203,11 +411,14 @@ export class OrdersRepository {
           orderCancelledTime: originalOrder.orderCancelledTime,
           accountId: originalOrder.accountId,
           orderAccount: originalOrder.orderAccount,
+          tradingAccountId: originalOrder.tradingAccountId,
           orderRoute: originalOrder.orderRoute,
           brokerType: originalOrder.brokerType,
           brokerId: originalOrder.brokerId, // Copy brokerId from original order
-          commission: originalOrder.commission,
-          fees: originalOrder.fees,
+          commission: commission2,
+          fees: fees2,
+          currency: originalOrder.currency,
+          importSource: originalOrder.importSource,
           tags: originalOrder.tags,
           usedInTrade: false,
           importBatchId: originalOrder.importBatchId,
@@ -215,6 +426,13 @@ export class OrdersRepository {
           brokerMetadata: originalOrder.brokerMetadata ?? undefined,
           datePrecision: originalOrder.datePrecision,
           importSequence: originalOrder.importSequence,
+          underlyingSymbol: originalOrder.underlyingSymbol,
+          optionRight: originalOrder.optionRight,
+          strikePrice: originalOrder.strikePrice,
+          expirationDate: originalOrder.expirationDate,
+          contractMultiplier: originalOrder.contractMultiplier,
+          optionEvent: originalOrder.optionEvent,
+          appliedCorporateActionIds: originalOrder.appliedCorporateActionIds,
         },
       });
 
@@ -246,6 +464,8 @@ export class OrdersRepository {
           brokerId: originalOrder.brokerId, // Copy brokerId from original order
           commission: originalOrder.commission,
           fees: originalOrder.fees,
+          currency: originalOrder.currency,
+          importSource: originalOrder.importSource,
           tags: originalOrder.tags,
           usedInTrade: true,
           tradeId: originalOrder.tradeId,
@@ -254,6 +474,13 @@ export class OrdersRepository {
           brokerMetadata: originalOrder.brokerMetadata ?? undefined,
           datePrecision: originalOrder.datePrecision,
           importSequence: originalOrder.importSequence,
+          underlyingSymbol: originalOrder.underlyingSymbol,
+          optionRight: originalOrder.optionRight,
+          strikePrice: originalOrder.strikePrice,
+          expirationDate: originalOrder.expirationDate,
+          contractMultiplier: originalOrder.contractMultiplier,
+          optionEvent: originalOrder.optionEvent,
+          appliedCorporateActionIds: originalOrder.appliedCorporateActionIds,
           snapTradeActivityId: originalOrder.snapTradeActivityId,
         },
       });
@@ -274,6 +501,221 @@ export class OrdersRepository {
 
     return [order1.id, order2.id];
   }
+
+  /**
+   * Save hand-entered executions as filled MANUAL orders under one import batch
+   * Returns the created order IDs
+   */
+  async createManualOrders(userId: string, executions: ManualExecutionInput[]): Promise<string[]> {
+    const orderIds = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const importBatch = await tx.importBatch.create({
+        data: {
+          userId,
+          filename: 'Manual entry',
+          brokerType: BrokerType.GENERIC_CSV,
+          status: ImportStatus.COMPLETED,
+          totalRecords: executions.length,
+          successCount: executions.length,
+          processingStarted: now,
+          processingCompleted: now,
+        },
+      });
+
+      const ids: string[] = [];
+      for (const execution of executions) {
+        const order = await tx.order.create({
+          data: {
+            userId,
+            orderId: `manual-${randomUUID()}`,
+            importBatchId: importBatch.id,
+            importSource: ImportSource.MANUAL,
+            orderType: OrderType.MARKET,
+            timeInForce: TimeInForce.DAY,
+            orderStatus: OrderStatus.FILLED,
+            ...this.toManualOrderData(execution),
+          },
+        });
+        ids.push(order.id);
+      }
+      return ids;
+    });
+
+    console.log(`[ORDERS REPO] Created ${orderIds.length} manual orders for user ${userId}`);
+    return orderIds;
+  }
+
+  /**
+   * Get a user's hand-entered executions, newest first
+   * Executions the trade builder split are listed once, as entered, from the archived original.
+   */
+  async getManualExecutions(userId: string): Promise<ManualExecution[]> {
+    const [orders, archived] = await Promise.all([
+      prisma.order.findMany({
+        where: { userId, importSource: ImportSource.MANUAL, splitFromOrderId: null },
+      }),
+      prisma.splitOrdersParentOrders.findMany({
+        where: { userId, importSource: ImportSource.MANUAL, splitFromOrderId: null },
+      }),
+    ]);
+
+    // Split originals take their trades and account from their parts
+    const parts = archived.length > 0
+      ? await prisma.order.findMany({
+          where: { splitFromOrderId: { in: archived.map(order => order.id) } },
+          select: { splitFromOrderId: true, tradeId: true, tradingAccountId: true },
+        })
+      : [];
+
+    const executions = [
+      ...orders.map(order => this.toManualExecution(order, order.tradingAccountId, order.tradeId ? [order.tradeId] : [])),
+      ...archived.map(order => {
+        const orderParts = parts.filter(part => part.splitFromOrderId === order.id);
+        return this.toManualExecution(
+          order,
+          orderParts.find(part => part.tradingAccountId)?.tradingAccountId ?? null,
+          Array.from(new Set(orderParts.map(part => part.tradeId).filter((id): id is string => !!id)))
+        );
+      }),
+    ];
+
+    return executions.sort((a, b) => b.executedAt.localeCompare(a.executedAt));
+  }
+
+  /**
+   * Get one hand-entered execution as entered, or null when the user has no manual execution with this ID
+   */
+  async getManualExecution(userId: string, orderId: string): Promise<ManualExecution | null> {
+    const where = { id: orderId, userId, importSource: ImportSource.MANUAL, splitFromOrderId: null };
+    const [order, archived] = await Promise.all([
+      prisma.order.findFirst({ where }),
+      prisma.splitOrdersParentOrders.findFirst({ where }),
+    ]);
+
+    const tradeIds = await this.getManualExecutionTradeIds(userId, orderId) ?? [];
+    if (order) return this.toManualExecution(order, order.tradingAccountId, tradeIds);
+    if (!archived) return null;
+
+    // A split original takes its account from its parts
+    const part = await prisma.order.findFirst({
+      where: { splitFromOrderId: archived.id, tradingAccountId: { not: null } },
+      select: { tradingAccountId: true },
+    });
+    return this.toManualExecution(archived, part?.tradingAccountId ?? null, tradeIds);
+  }
+
+  /**
+   * Get the trades holding a hand-entered execution or any part split from it
+   * Returns null when the user has no manual execution with this ID
+   */
+  async getManualExecutionTradeIds(userId: string, orderId: string): Promise<string[] | null> {
+    const where = { id: orderId, userId, importSource: ImportSource.MANUAL, splitFromOrderId: null };
+    const [order, archived] = await Promise.all([
+      prisma.order.findFirst({ where, select: { tradeId: true } }),
+      prisma.splitOrdersParentOrders.findFirst({ where, select: { id: true } }),
+    ]);
+
+    if (!order && !archived) return null;
+
+    const tradeIds = new Set<string>(order?.tradeId ? [order.tradeId] : []);
+    let parentIds = archived ? [archived.id] : [];
+
+    // Parts can be split again, so follow the archive down one level per pass
+    while (parentIds.length > 0) {
+      const [parts, archivedParts] = await Promise.all([
+        prisma.order.findMany({
+          where: { splitFromOrderId: { in: parentIds }, tradeId: { not: null } },
+          select: { tradeId: true },
+        }),
+        prisma.splitOrdersParentOrders.findMany({
+          where: { userId, splitFromOrderId: { in: parentIds } },
+          select: { id: true },
+        }),
+      ]);
+
+      parts.forEach(part => tradeIds.add(part.tradeId!));
+      parentIds = archivedParts.map(part => part.id);
+    }
+
+    return Array.from(tradeIds);
+  }
+
+  /**
+   * Replace the details of a hand-entered execution
+   * The trades holding it must be unwound first so the order is whole and unlinked.
+   * Returns false when the order was not found.
+   */
+  async updateManualOrder(userId: string, orderId: string, execution: ManualExecutionInput): Promise<boolean> {
+    const result = await prisma.order.updateMany({
+      where: { id: orderId, userId, importSource: ImportSource.MANUAL },
+      data: {
+        ...this.toManualOrderData(execution),
+        tradeId: null,
+        usedInTrade: false,
+        appliedCorporateActionIds: [], // Restated again from the new details on rebuild
+      },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Delete a hand-entered execution; the trades holding it must be unwound first
+   * Returns false when the order was not found.
+   */
+  async deleteManualOrder(userId: string, orderId: string): Promise<boolean> {
+    const result = await prisma.order.deleteMany({
+      where: { id: orderId, userId, importSource: ImportSource.MANUAL },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Order fields set from a grid row
+   * Contract fields are always written so an edit from an option to a stock clears them.
+   */
+  private toManualOrderData(execution: ManualExecutionInput) {
+    const instrument = resolveManualInstrument(execution.symbol);
+    const executedAt = new Date(execution.executedAt);
+
+    return {
+      symbol: instrument.symbol,
+      assetClass: instrument.assetClass,
+      side: execution.side,
+      orderQuantity: new Prisma.Decimal(execution.quantity),
+      limitPrice: new Prisma.Decimal(execution.price),
+      orderPlacedTime: executedAt,
+      orderExecutedTime: executedAt,
+      commission: execution.commission !== undefined ? new Prisma.Decimal(execution.commission) : null,
+      fees: execution.fees !== undefined ? new Prisma.Decimal(execution.fees) : null,
+      tradingAccountId: execution.accountId ?? null,
+      underlyingSymbol: instrument.underlyingSymbol ?? null,
+      optionRight: instrument.optionRight ?? null,
+      strikePrice: instrument.strikePrice !== undefined ? new Prisma.Decimal(instrument.strikePrice) : null,
+      expirationDate: instrument.expirationDate ?? null,
+      contractMultiplier: new Prisma.Decimal(instrument.contractMultiplier),
+    };
+  }
+
+  private toManualExecution(
+    order: Pick<Order, 'id' | 'orderExecutedTime' | 'orderPlacedTime' | 'symbol' | 'side' | 'orderQuantity' | 'limitPrice' | 'commission' | 'fees'>,
+    accountId: string | null,
+    tradeIds: string[]
+  ): ManualExecution {
+    return {
+      id: order.id,
+      executedAt: (order.orderExecutedTime ?? order.orderPlacedTime).toISOString(),
+      symbol: order.symbol,
+      side: order.side,
+      quantity: toQuantity(order.orderQuantity),
+      price: order.limitPrice ? Number(order.limitPrice) : 0,
+      commission: order.commission !== null ? Number(order.commission) : null,
+      fees: order.fees !== null ? Number(order.fees) : null,
+      accountId,
+      tradeIds,
+    };
+  }
 }
 
 export const ordersRepo = new OrdersRepository();
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { prisma } from '@/lib/prisma';
+import { AccountType, AssetClass, OrderSide, Prisma, TradeSide } from '@prisma/client';
+import { toQuantity } from '@/lib/precision';
+import { TaxLotAcquisition, TaxLotDisposition } from '@/lib/taxLots';
+
+// Paper and prop firm accounts are not the user's own taxable holdings. IRA sales are not reported,
+// but IRA purchases still replace a loss taken in a taxable account.
+const REPORTED_ACCOUNT_TYPES: AccountType[] = [AccountType.LIVE];
+const REPLACEMENT_ACCOUNT_TYPES: AccountType[] = [AccountType.LIVE, AccountType.IRA];
+
+export class TaxLotsRepository {
+  /**
+   * Get the lots sold before a cutoff, across every taxable account and broker
+   * Futures are excluded; they are marked to market on Form 6781 rather than reported per lot.
+   * Each trade's commissions and fees are spread over its lots by quantity and added to cost basis.
+   */
+  async getDispositions(userId: string, soldBefore: Date): Promise<TaxLotDisposition[]> {
+    const lots = await prisma.tradeLot.findMany({
+      where: {
+        userId,
+        closeTime: { lt: soldBefore },
+        trade: {
+          assetClass: { not: AssetClass.FUTURES },
+          ...this.getAccountWhere(REPORTED_ACCOUNT_TYPES),
+        },
+      },
+      include: {
+        trade: {
+          select: {
+            symbol: true,
+            side: true,
+            assetClass: true,
+            contractMultiplier: true,
+            commission: true,
+            fees: true,
+            fxRate: true,
+            tradingAccount: { select: { nickname: true, externalId: true } },
+          },
+        },
+      },
+      orderBy: [{ closeTime: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const quantityByTrade = new Map<string, number>();
+    for (const lot of lots) {
+      quantityByTrade.set(lot.tradeId, (quantityByTrade.get(lot.tradeId) ?? 0) + toQuantity(lot.quantity));
+    }
+
+    return lots.map(lot => {
+      const quantity = toQuantity(lot.quantity);
+      const multiplier = Number(lot.trade.contractMultiplier) || 1;
+      const openValue = quantity * Number(lot.openPrice) * multiplier;
+      const closeValue = quantity * Number(lot.closePrice) * multiplier;
+      // Lot prices are in the trade currency, while commission and fees were converted to the base currency
+      const tradeCosts = (Number(lot.trade.commission ?? 0) + Number(lot.trade.fees ?? 0)) / (Number(lot.trade.fxRate) || 1);
+      const costs = tradeCosts * (quantity / (quantityByTrade.get(lot.tradeId) || quantity));
+
+      // A short sale's proceeds come from the opening sale and its basis from the cover
+      const isLong = lot.trade.side === TradeSide.LONG;
+      const account = lot.trade.tradingAccount;
+
+      return {
+        id: lot.id,
+        symbol: lot.trade.symbol,
+        side: lot.trade.side,
+        assetClass: lot.trade.assetClass,
+        quantity,
+        openOrderId: lot.openOrderId,
+        acquiredTime: lot.openTime,
+        soldTime: lot.closeTime,
+        proceeds: isLong ? closeValue : openValue,
+        costBasis: (isLong ? openValue : closeValue) + costs,
+        accountName: account ? account.nickname ?? account.externalId : null,
+      };
+    });
+  }
+
+  /**
+   * Get every entry order executed before a cutoff; these are the lots that can replace a loss
+   */
+  async getAcquisitions(userId: string, acquiredBefore: Date): Promise<TaxLotAcquisition[]> {
+    const orders = await prisma.order.findMany({
+      where: {
+        userId,
+        tradeId: { not: null },
+        orderExecutedTime: { lt: acquiredBefore },
+      },
+      select: {
+        id: true,
+        symbol: true,
+        side: true,
+        orderQuantity: true,
+        orderExecutedTime: true,
+        tradeId: true,
+      },
+      orderBy: { orderExecutedTime: 'asc' },
+    });
+    if (orders.length === 0) return [];
+
+    const trades = await prisma.trade.findMany({
+      where: {
+        id: { in: Array.from(new Set(orders.map(order => order.tradeId!))) },
+        assetClass: { not: AssetClass.FUTURES },
+        ...this.getAccountWhere(REPLACEMENT_ACCOUNT_TYPES),
+      },
+      select: { id: true, side: true },
+    });
+    const sideByTrade = new Map(trades.map(trade => [trade.id, trade.side]));
+
+    // Entries are the buys of a long trade and the sells of a short one
+    return orders
+      .filter(order => {
+        const side = sideByTrade.get(order.tradeId!);
+        return side !== undefined && order.side === (side === TradeSide.LONG ? OrderSide.BUY : OrderSide.SELL);
+      })
+      .map(order => ({
+        orderId: order.id,
+        symbol: order.symbol,
+        side: sideByTrade.get(order.tradeId!)!,
+        quantity: toQuantity(order.orderQuantity),
+        acquiredTime: order.orderExecutedTime!,
+      }));
+  }
+
+  /**
+   * Trades without an account predate managed accounts and are treated as taxable
+   */
+  private getAccountWhere(accountTypes: AccountType[]): Prisma.TradeWhereInput {
+    return {
+      OR: [
+        { tradingAccountId: null },
+        { tradingAccount: { type: { in: accountTypes } } },
+      ],
+    };
+  }
+}
+
+export const taxLotsRepo = new TaxLotsRepository();
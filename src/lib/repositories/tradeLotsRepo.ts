@@ -0,0 +1,59 @@
+import { prisma } from '@/lib/prisma';
+import { LotMatchingMethod, TradeLot } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { ClosedLot, DEFAULT_LOT_MATCHING_METHOD } from '@/lib/lotMatching';
+
+export class TradeLotsRepository {
+  /**
+   * Get the lot matching method a user has selected
+   */
+  async getLotMatchingMethod(userId: string): Promise<LotMatchingMethod> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { lotMatchingMethod: true },
+    });
+    return user?.lotMatchingMethod ?? DEFAULT_LOT_MATCHING_METHOD;
+  }
+
+  /**
+   * Replace the closing records of a trade
+   * The trade builder recalculates every lot of a trade, so old rows are dropped rather than merged
+   */
+  async replaceTradeLots(
+    userId: string,
+    tradeId: string,
+    method: LotMatchingMethod,
+    lots: ClosedLot[]
+  ): Promise<void> {
+    await prisma.$transaction([
+      prisma.tradeLot.deleteMany({ where: { tradeId } }),
+      prisma.tradeLot.createMany({
+        data: lots.map(lot => ({
+          userId,
+          tradeId,
+          openOrderId: lot.openOrderId,
+          closeOrderId: lot.closeOrderId,
+          method,
+          quantity: new Decimal(lot.quantity),
+          openPrice: new Decimal(lot.openPrice),
+          closePrice: new Decimal(lot.closePrice),
+          openTime: lot.openTime,
+          closeTime: lot.closeTime,
+          pnl: new Decimal(lot.pnl),
+        })),
+      }),
+    ]);
+  }
+
+  /**
+   * Get the closing records of a trade in the order they were matched
+   */
+  async getTradeLots(userId: string, tradeId: string): Promise<TradeLot[]> {
+    return await prisma.tradeLot.findMany({
+      where: { userId, tradeId },
+      orderBy: [{ closeTime: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+}
+
+export const tradeLotsRepo = new TradeLotsRepository();
@@ -1,6 +1,9 @@
 import { prisma } from '@/lib/prisma';
-import { Trade, TradeStatus, TradeSide, MarketSession, HoldingPeriod, AssetClass } from '@prisma/client';
+import { Prisma, Trade, TradeStatus, TradeSide, MarketSession, HoldingPeriod, AssetClass, OptionRight, ImportSource } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import { TradeGroupingSettings, DEFAULT_TRADE_GROUPING } from '@/lib/tradeGrouping';
+import { convertMoney, DEFAULT_BASE_CURRENCY } from '@/lib/currency';
+import { fxRatesRepo } from '@/lib/repositories/fxRatesRepo';
 
 export interface CreateTradeData {
   userId: string;
@@ -13,7 +16,12 @@ export interface CreateTradeData {
   avgExitPrice?: Decimal;
   openQuantity?: number;
   closeQuantity?: number;
-  pnl: number;
+  pnl: number; // Money fields are in the user's base currency, converted at fxRate
+  netPnl?: number; // pnl less commission and fees
+  commission?: number; // Rolled up from the trade's orders
+  fees?: number;
+  currency?: string; // Currency the trade's prices are quoted in
+  fxRate?: number | null; // Trade currency -> base currency; null when no rate was found
   ordersInTrade: string[];
   ordersCount: number;
   executions: number;
@@ -25,8 +33,20 @@ export interface CreateTradeData {
   costBasis?: number;
   proceeds?: number;
   importBatchId?: string;
+  importSource?: ImportSource;
   brokerId?: string; // Reference to Broker.id - tracks which broker this trade came from
+  tradingAccountId?: string; // Reference to Account.id
   assetClass?: AssetClass; // Asset class from orders
+  underlyingSymbol?: string; // Option contract fields from orders
+  optionRight?: OptionRight;
+  strikePrice?: Decimal;
+  expirationDate?: Date;
+  contractMultiplier?: number;
+  pnlPoints?: number; // Futures only: per-contract points/ticks captured
+  pnlTicks?: number;
+  notes?: string; // User annotations, only set when a rebuilt trade inherits them
+  tags?: string[];
+  isLocked?: boolean; // Corrected by hand, so rebuilds leave the trade as it is
 }
 
 export class TradesRepository {
@@ -47,6 +67,11 @@ export class TradesRepository {
         openQuantity: tradeData.openQuantity,
         closeQuantity: tradeData.closeQuantity,
         pnl: new Decimal(tradeData.pnl),
+        netPnl: new Decimal(tradeData.netPnl ?? tradeData.pnl),
+        commission: tradeData.commission,
+        fees: tradeData.fees,
+        currency: tradeData.currency,
+        fxRate: tradeData.fxRate,
         ordersInTrade: tradeData.ordersInTrade,
         ordersCount: tradeData.ordersCount,
         executions: tradeData.executions,
@@ -56,7 +81,7 @@ export class TradesRepository {
         marketSession: tradeData.marketSession as MarketSession | undefined,
         holdingPeriod: tradeData.holdingPeriod,
         costBasis: tradeData.costBasis ? new Decimal(tradeData.costBasis) : undefined,
-        proceeds: tradeData.proceeds ? new Decimal(tradeData.proceeds) : undefined,
+        proceeds: tradeData.proceeds !== undefined ? new Decimal(tradeData.proceeds) : undefined,
         entryDate: tradeData.openTime,
         exitDate: tradeData.closeTime,
         date: tradeData.closeTime || tradeData.openTime,
@@ -64,8 +89,20 @@ export class TradesRepository {
         exitPrice: tradeData.avgExitPrice?.toNumber(),
         isCalculated: true,
         importBatchId: tradeData.importBatchId,
+        importSource: tradeData.importSource,
         brokerId: tradeData.brokerId, // Save brokerId to trades table
+        tradingAccountId: tradeData.tradingAccountId,
         assetClass: tradeData.assetClass, // Save assetClass to trades table
+        underlyingSymbol: tradeData.underlyingSymbol,
+        optionRight: tradeData.optionRight,
+        strikePrice: tradeData.strikePrice,
+        expirationDate: tradeData.expirationDate,
+        contractMultiplier: tradeData.contractMultiplier,
+        pnlPoints: tradeData.pnlPoints,
+        pnlTicks: tradeData.pnlTicks,
+        notes: tradeData.notes,
+        tags: tradeData.tags,
+        isLocked: tradeData.isLocked,
       },
     });
   }
@@ -113,7 +150,8 @@ export class TradesRepository {
       data: {
         ...updateFields,
         marketSession: marketSession as MarketSession | undefined,
-        pnl: updateData.pnl ? new Decimal(updateData.pnl) : undefined,
+        pnl: updateData.pnl !== undefined ? new Decimal(updateData.pnl) : undefined,
+        netPnl: updateData.netPnl !== undefined ? new Decimal(updateData.netPnl) : undefined,
         entryPrice: updateData.avgEntryPrice?.toNumber(),
         exitPrice: updateData.avgExitPrice?.toNumber(),
         exitDate: updateData.closeTime,
@@ -124,6 +162,35 @@ export class TradesRepository {
     });
   }
 
+  /**
+   * Overwrite the calculated fields of a trade whose orders were changed by hand
+   * Unlike updateTrade, fields the new data leaves out (the close time of a trade that is open
+   * again, the exit of a trade with no exits left) are cleared. Notes and tags are kept.
+   */
+  async replaceTradeCalculation(tradeId: string, tradeData: CreateTradeData): Promise<Trade> {
+    const { userId: _userId, notes: _notes, tags: _tags, marketSession, ...updateFields } = tradeData;
+    return await prisma.trade.update({
+      where: { id: tradeId },
+      data: {
+        ...updateFields,
+        marketSession: marketSession as MarketSession,
+        closeTime: tradeData.closeTime ?? null,
+        avgExitPrice: tradeData.avgExitPrice ?? null,
+        closeQuantity: tradeData.closeQuantity ?? null,
+        proceeds: tradeData.proceeds ?? null,
+        pnlPoints: tradeData.pnlPoints ?? null,
+        pnlTicks: tradeData.pnlTicks ?? null,
+        pnl: new Decimal(tradeData.pnl),
+        netPnl: new Decimal(tradeData.netPnl ?? tradeData.pnl),
+        entryDate: tradeData.openTime,
+        exitDate: tradeData.closeTime ?? null,
+        date: tradeData.closeTime || tradeData.openTime,
+        entryPrice: tradeData.avgEntryPrice?.toNumber(),
+        exitPrice: tradeData.avgExitPrice?.toNumber() ?? null,
+      },
+    });
+  }
+
   /**
    * Get completed trades for a user
    */
@@ -155,6 +222,105 @@ export class TradesRepository {
     });
   }
 
+  /**
+   * Get how a user wants executions grouped into trades
+   */
+  async getTradeGroupingSettings(userId: string): Promise<TradeGroupingSettings> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { tradeGroupingMode: true, tradeMergeWindowMinutes: true },
+    });
+
+    return user
+      ? { mode: user.tradeGroupingMode, mergeWindowMinutes: user.tradeMergeWindowMinutes }
+      : DEFAULT_TRADE_GROUPING;
+  }
+
+  /**
+   * Re-apply exchange rates to a user's calculated trades
+   * Used when the base currency, an account's currency or the rate table changes. Stored money fields
+   * are in the currency of the rate they were converted with, so each trade is scaled by new rate / old
+   * rate. Pass currency to relabel the matched trades first (an account's currency was corrected).
+   * Returns the number of trades converted.
+   */
+  async convertTrades(
+    userId: string,
+    baseCurrency: string,
+    where: Prisma.TradeWhereInput = {},
+    currency?: string
+  ): Promise<number> {
+    const trades = await prisma.trade.findMany({
+      where: { ...where, userId, isCalculated: true },
+      select: {
+        id: true,
+        currency: true,
+        fxRate: true,
+        pnl: true,
+        netPnl: true,
+        commission: true,
+        fees: true,
+        closeTime: true,
+      },
+    });
+
+    const rates = new Map<string, number | null>();
+    for (const trade of trades) {
+      const tradeCurrency = currency ?? trade.currency;
+      const rateDate = trade.closeTime ?? new Date();
+      const rateKey = `${tradeCurrency}|${rateDate.toISOString().slice(0, 10)}`;
+      if (!rates.has(rateKey)) {
+        rates.set(rateKey, await fxRatesRepo.getRate(tradeCurrency, baseCurrency, rateDate));
+      }
+
+      const fxRate = rates.get(rateKey) ?? null;
+      const money = convertMoney({
+        pnl: Number(trade.pnl),
+        netPnl: Number(trade.netPnl),
+        commission: trade.commission !== null ? Number(trade.commission) : undefined,
+        fees: trade.fees !== null ? Number(trade.fees) : undefined,
+      }, (fxRate ?? 1) / Number(trade.fxRate ?? 1));
+
+      await prisma.trade.update({
+        where: { id: trade.id },
+        data: {
+          currency: tradeCurrency,
+          fxRate,
+          pnl: new Decimal(money.pnl),
+          netPnl: new Decimal(money.netPnl),
+          commission: money.commission,
+          fees: money.fees,
+        },
+      });
+    }
+
+    if (trades.length > 0) {
+      console.log(`[TRADES REPO] Converted ${trades.length} trades to ${baseCurrency} for user ${userId}`);
+    }
+    return trades.length;
+  }
+
+  /**
+   * Convert trades that had no exchange rate when they were built, across all users
+   * Run after new rates are imported. Returns the number of trades converted.
+   */
+  async convertUnconvertedTrades(): Promise<number> {
+    const users = await prisma.trade.findMany({
+      where: { fxRate: null, isCalculated: true },
+      select: { userId: true },
+      distinct: ['userId'],
+    });
+
+    let converted = 0;
+    for (const { userId } of users) {
+      const preferences = await prisma.userPreferences.findUnique({
+        where: { userId },
+        select: { baseCurrency: true },
+      });
+      converted += await this.convertTrades(userId, preferences?.baseCurrency ?? DEFAULT_BASE_CURRENCY, { fxRate: null });
+    }
+    return converted;
+  }
+
   /**
    * Get trades for a specific date for records purposes
    * Includes both calculated trades and blank records entries
@@ -193,6 +359,62 @@ export class TradesRepository {
     });
   }
 
+  /**
+   * Get the trades among the given ones that are locked against rebuilds
+   */
+  async getLockedTradeIds(userId: string, tradeIds: string[]): Promise<string[]> {
+    if (tradeIds.length === 0) return [];
+
+    const trades = await prisma.trade.findMany({
+      where: { id: { in: tradeIds }, userId, isLocked: true },
+      select: { id: true },
+    });
+    return trades.map(trade => trade.id);
+  }
+
+  /**
+   * Set a trade's notes and tags as edited by the user
+   * Returns the trade as it was before the update, or null when it is not the user's
+   */
+  async updateAnnotations(
+    userId: string,
+    tradeId: string,
+    annotations: { notes?: string | null; tags?: string[] }
+  ): Promise<Trade | null> {
+    const trade = await this.getTradeById(userId, tradeId);
+    if (!trade) return null;
+
+    await prisma.trade.update({
+      where: { id: tradeId },
+      data: annotations,
+    });
+    return trade;
+  }
+
+  /**
+   * Lock or unlock a calculated trade; returns false when the trade is not the user's
+   */
+  async setTradeLocked(userId: string, tradeId: string, isLocked: boolean): Promise<boolean> {
+    const result = await prisma.trade.updateMany({
+      where: { id: tradeId, userId, isCalculated: true },
+      data: { isLocked },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Delete trades whose orders were all moved to other trades
+   */
+  async deleteEmptyTrades(userId: string, tradeIds: string[]): Promise<number> {
+    if (tradeIds.length === 0) return 0;
+
+    // Closing records cascade with the trade
+    const result = await prisma.trade.deleteMany({
+      where: { id: { in: tradeIds }, userId },
+    });
+    return result.count;
+  }
+
   /**
    * Get trade with associated orders for records display
    * Uses Order.tradeId as primary relationship (as per schema comment line 86)
@@ -266,7 +488,7 @@ export class TradesRepository {
 
     const totalPnl = trades.reduce((sum, trade) => sum + trade.pnl.toNumber(), 0);
     const totalTrades = trades.length;
-    const totalVolume = trades.reduce((sum, trade) => sum + (trade.quantity || 0), 0);
+    const totalVolume = trades.reduce((sum, trade) => sum + Number(trade.quantity || 0), 0);
     const winningTrades = trades.filter(trade => trade.pnl.toNumber() > 0).length;
     const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
 
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { CashActivityType } from '@prisma/client';
+
+export const cashActivitiesQuerySchema = z.object({
+  dateFrom: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid date format"
+  }).optional(),
+  dateTo: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid date format"
+  }).optional(),
+  activityType: z.enum(CashActivityType).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(500)
+});
+
+export type CashActivitiesQuery = z.infer<typeof cashActivitiesQuerySchema>;
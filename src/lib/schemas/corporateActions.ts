@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { CorporateActionType } from '@prisma/client';
+
+export const corporateActionSchema = z.object({
+  symbol: z.string().trim().min(1).max(32).transform(symbol => symbol.toUpperCase()),
+  actionType: z.enum(CorporateActionType),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+    message: "Effective date must be YYYY-MM-DD"
+  }),
+  ratioFrom: z.number().positive().optional(),
+  ratioTo: z.number().positive().optional(),
+  newSymbol: z.string().trim().min(1).max(32).transform(symbol => symbol.toUpperCase()).optional(),
+  notes: z.string().max(1000).optional()
+}).superRefine((action, ctx) => {
+  if (action.actionType === CorporateActionType.SYMBOL_CHANGE) {
+    if (!action.newSymbol || action.newSymbol === action.symbol) {
+      ctx.addIssue({ code: 'custom', path: ['newSymbol'], message: "A symbol change needs a different new symbol" });
+    }
+    return;
+  }
+
+  if (!action.ratioFrom || !action.ratioTo) {
+    ctx.addIssue({ code: 'custom', path: ['ratioFrom'], message: "A split needs both ratioFrom and ratioTo" });
+    return;
+  }
+
+  const isForward = action.ratioTo > action.ratioFrom;
+  if (isForward !== (action.actionType === CorporateActionType.SPLIT)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['ratioTo'],
+      message: action.actionType === CorporateActionType.SPLIT
+        ? "A split must increase the share count (ratioTo > ratioFrom)"
+        : "A reverse split must decrease the share count (ratioTo < ratioFrom)"
+    });
+  }
+});
+
+export type CorporateActionInput = z.infer<typeof corporateActionSchema>;
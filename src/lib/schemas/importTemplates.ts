@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+const templateFieldMappingSchema = z.object({
+  fields: z.array(z.string().min(1)).min(1),
+  confidence: z.number().min(0).max(1).default(1),
+  combinedWith: z.array(z.string()).optional(),
+  transformer: z.string().optional(),
+});
+
+export const saveImportTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  headers: z.array(z.string()).min(1),
+  fieldMappings: z.record(z.string(), templateFieldMappingSchema),
+  dateFormat: z.string().max(40).nullable().optional(),
+  timezone: z.string().max(64).nullable().optional(),
+  brokerName: z.string().trim().min(1).max(100).nullable().optional(),
+});
+
+export const submitImportTemplateSchema = z.object({
+  brokerName: z.string().trim().min(1).max(100).optional(),
+});
+
+export type SaveImportTemplateRequest = z.infer<typeof saveImportTemplateSchema>;
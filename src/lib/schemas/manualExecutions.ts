@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { OrderSide } from '@prisma/client';
+
+export const manualExecutionSchema = z.object({
+  executedAt: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid date format"
+  }),
+  symbol: z.string().trim().min(1, "Symbol is required").max(32, "Symbol too long").transform(symbol => symbol.toUpperCase()),
+  side: z.enum(OrderSide),
+  quantity: z.number().positive("Quantity must be greater than 0"),
+  price: z.number().nonnegative("Price cannot be negative"),
+  commission: z.number().nonnegative().optional(),
+  fees: z.number().nonnegative().optional(),
+  accountId: z.string().nullable().optional()
+});
+
+export const createManualExecutionsSchema = z.object({
+  executions: z.array(manualExecutionSchema).min(1, "Add at least one execution").max(500, "Enter at most 500 executions at a time")
+});
+
+export type ManualExecutionInput = z.infer<typeof manualExecutionSchema>;
+export type CreateManualExecutions = z.infer<typeof createManualExecutionsSchema>;
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+export const mergeTradesSchema = z.object({
+  tradeIds: z.array(z.string().min(1)).min(2, "Select at least two trades to merge").max(50, "Merge at most 50 trades at a time")
+});
+
+export const splitTradeSchema = z.object({
+  orderId: z.string().min(1, "Choose the execution to split the trade at")
+});
+
+export const moveOrdersSchema = z.object({
+  orderIds: z.array(z.string().min(1)).min(1, "Select at least one execution").max(200, "Move at most 200 executions at a time"),
+  targetTradeId: z.string().min(1).nullable() // null moves the executions into a new trade
+});
+
+export const tradeLockSchema = z.object({
+  locked: z.boolean()
+});
+
+export type MergeTradesInput = z.infer<typeof mergeTradesSchema>;
+export type SplitTradeInput = z.infer<typeof splitTradeSchema>;
+export type MoveOrdersInput = z.infer<typeof moveOrdersSchema>;
+export type TradeLockInput = z.infer<typeof tradeLockSchema>;
@@ -3,6 +3,7 @@ import { TradeSide, AssetClass, OrderType, TimeInForce, MarketSession, HoldingPe
 
 export const tradesQuerySchema = z.object({
   symbol: z.string().optional(),
+  accountId: z.string().optional(),
   side: z.enum(['LONG', 'SHORT', 'all']).optional(),
   dateFrom: z.string().refine((date) => !isNaN(Date.parse(date)), {
     message: "Invalid date format"
@@ -25,8 +26,8 @@ export const createTradeSchema = z.object({
   }).optional(),
   symbol: z.string().min(1, "Symbol is required").max(20, "Symbol too long"),
   side: z.enum(['long', 'short', 'LONG', 'SHORT']).default('long'),
-  volume: z.number().int().positive().optional(),
-  quantity: z.number().int().positive().optional(),
+  volume: z.number().positive().optional(),
+  quantity: z.number().positive().optional(),
   executions: z.number().int().positive().default(1),
   pnl: z.number().default(0),
   entryPrice: z.number().positive().optional(),
@@ -3,6 +3,8 @@
  * Prevents malicious input and validates data before processing
  */
 
+import { roundQuantity } from '@/lib/precision';
+
 export class InputValidator {
   /**
    * Sanitize and validate stock/option symbol
@@ -61,11 +63,12 @@ export class InputValidator {
   static validateQuantity(quantity: any): number {
     const num = Number(quantity);
 
-    if (!Number.isInteger(num) || num <= 0 || num > 1000000) {
-      throw new Error(`Invalid quantity: ${quantity}. Must be a positive integer between 1 and 1,000,000.`);
+    // Fractional shares and crypto amounts are allowed
+    if (!isFinite(num) || num <= 0 || num > 1000000) {
+      throw new Error(`Invalid quantity: ${quantity}. Must be a positive number no greater than 1,000,000.`);
     }
 
-    return num;
+    return roundQuantity(num);
   }
 
   /**
@@ -135,6 +135,21 @@ class AccountDeletionServiceImpl implements AccountDeletionService {
         where: { userId }
       });
 
+      // Delete edit history, which keeps earlier versions of notes
+      await tx.changeHistory.deleteMany({
+        where: { userId }
+      });
+
+      // Delete financing cost attributions
+      await tx.financingAllocation.deleteMany({
+        where: { userId }
+      });
+
+      // Delete cash ledger entries
+      await tx.cashActivity.deleteMany({
+        where: { userId }
+      });
+
       // Log the anonymization
       await tx.accountDeletionLog.create({
         data: {
@@ -221,6 +236,21 @@ class AccountDeletionServiceImpl implements AccountDeletionService {
         where: { userId }
       });
 
+      // Delete edit history
+      await tx.changeHistory.deleteMany({
+        where: { userId }
+      });
+
+      // Delete financing cost attributions
+      await tx.financingAllocation.deleteMany({
+        where: { userId }
+      });
+
+      // Delete cash ledger entries
+      await tx.cashActivity.deleteMany({
+        where: { userId }
+      });
+
       // 6. Log final deletion before deleting audit trail
       await tx.accountDeletionLog.create({
         data: {
@@ -344,6 +374,21 @@ class AccountDeletionServiceImpl implements AccountDeletionService {
         where: { userId }
       });
 
+      // Delete edit history
+      await tx.changeHistory.deleteMany({
+        where: { userId }
+      });
+
+      // Delete financing cost attributions
+      await tx.financingAllocation.deleteMany({
+        where: { userId }
+      });
+
+      // Delete cash ledger entries
+      await tx.cashActivity.deleteMany({
+        where: { userId }
+      });
+
       // 5. Delete user preferences if they exist
       await tx.userPreferences.deleteMany({
         where: { userId }
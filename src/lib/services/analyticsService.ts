@@ -1,13 +1,19 @@
 import { prisma } from '@/lib/prisma';
 import { Prisma } from '@prisma/client';
 import { CacheService } from './cacheService';
+import type { PnlViewMode } from '@/types';
 
 export class AnalyticsService {
   private userId: string;
+  private viewMode: PnlViewMode;
+  private pnlColumn: Prisma.Sql;
   private cacheService: CacheService;
 
-  constructor(userId: string) {
+  constructor(userId: string, viewMode: PnlViewMode = 'gross') {
     this.userId = userId;
+    this.viewMode = viewMode;
+    // Raw queries read gross pnl or netPnl (after commission/fees) depending on the view
+    this.pnlColumn = Prisma.raw(viewMode === 'net' ? '"netPnl"' : 'pnl');
     this.cacheService = new CacheService();
   }
 
@@ -116,6 +122,7 @@ export class AnalyticsService {
     dateRange: { start: Date; end: Date },
     filters?: {
       symbols?: string[];
+      accountId?: string;
       tags?: string[];
       side?: 'LONG' | 'SHORT';
     }
@@ -134,6 +141,10 @@ export class AnalyticsService {
       where.symbol = { in: filters.symbols.map(s => s.toUpperCase()) };
     }
 
+    if (filters?.accountId && filters.accountId !== 'all') {
+      where.tradingAccountId = filters.accountId;
+    }
+
     if (filters?.tags && filters.tags.length > 0) {
       where.tags = { hasSome: filters.tags };
     }
@@ -152,7 +163,7 @@ export class AnalyticsService {
     where: Prisma.TradeWhereInput,
     _timeZone: string = 'America/New_York'
   ) {
-    const cacheKey = `distribution:${this.userId}:${JSON.stringify(where)}`;
+    const cacheKey = `distribution:${this.userId}:${this.viewMode}:${JSON.stringify(where)}`;
     const cached = await this.cacheService.getTimeAggregation(this.userId, 'daily', cacheKey);
     
     if (cached) return cached;
@@ -167,8 +178,8 @@ export class AnalyticsService {
       SELECT 
         EXTRACT(MONTH FROM date) as month,
         COUNT(*) as trades,
-        SUM(pnl) as pnl,
-        ROUND((SUM(CASE WHEN pnl > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate
+        SUM(${this.pnlColumn}) as pnl,
+        ROUND((SUM(CASE WHEN ${this.pnlColumn} > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate
       FROM trades
       WHERE "userId" = ${this.userId}
         AND "isCalculated" = true
@@ -176,6 +187,7 @@ export class AnalyticsService {
         AND date >= ${this.getDateFilterValue(where.date, 'gte')}
         AND date <= ${this.getDateFilterValue(where.date, 'lte')}
         ${where.symbol ? Prisma.sql`AND symbol = ANY(${this.getArrayFilterValue(where.symbol)})` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       GROUP BY EXTRACT(MONTH FROM date)
       ORDER BY month
@@ -201,8 +213,8 @@ export class AnalyticsService {
           WHEN 6 THEN 'Saturday'
         END as day_name,
         COUNT(*) as trades,
-        SUM(pnl) as pnl,
-        ROUND((SUM(CASE WHEN pnl > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate
+        SUM(${this.pnlColumn}) as pnl,
+        ROUND((SUM(CASE WHEN ${this.pnlColumn} > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate
       FROM trades
       WHERE "userId" = ${this.userId}
         AND "isCalculated" = true
@@ -210,6 +222,7 @@ export class AnalyticsService {
         AND date >= ${this.getDateFilterValue(where.date, 'gte')}
         AND date <= ${this.getDateFilterValue(where.date, 'lte')}
         ${where.symbol ? Prisma.sql`AND symbol = ANY(${this.getArrayFilterValue(where.symbol)})` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       GROUP BY EXTRACT(DOW FROM date)
       ORDER BY day_num
@@ -225,8 +238,8 @@ export class AnalyticsService {
       SELECT 
         EXTRACT(HOUR FROM "openTime") as hour,
         COUNT(*) as trades,
-        SUM(pnl) as pnl,
-        ROUND((SUM(CASE WHEN pnl > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate
+        SUM(${this.pnlColumn}) as pnl,
+        ROUND((SUM(CASE WHEN ${this.pnlColumn} > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate
       FROM trades
       WHERE "userId" = ${this.userId}
         AND "isCalculated" = true
@@ -235,6 +248,7 @@ export class AnalyticsService {
         AND date >= ${this.getDateFilterValue(where.date, 'gte')}
         AND date <= ${this.getDateFilterValue(where.date, 'lte')}
         ${where.symbol ? Prisma.sql`AND symbol = ANY(${this.getArrayFilterValue(where.symbol)})` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       GROUP BY EXTRACT(HOUR FROM "openTime")
       ORDER BY hour
@@ -259,7 +273,7 @@ export class AnalyticsService {
           ELSE '> 1 day'
         END as bracket,
         COUNT(*) as trades,
-        SUM(pnl) as pnl,
+        SUM(${this.pnlColumn}) as pnl,
         ROUND(AVG("timeInTrade"), 0) as avg_duration
       FROM trades
       WHERE "userId" = ${this.userId}
@@ -268,6 +282,7 @@ export class AnalyticsService {
         AND date >= ${this.getDateFilterValue(where.date, 'gte')}
         AND date <= ${this.getDateFilterValue(where.date, 'lte')}
         ${where.symbol ? Prisma.sql`AND symbol = ANY(${this.getArrayFilterValue(where.symbol)})` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       GROUP BY 
         CASE 
@@ -312,7 +327,7 @@ export class AnalyticsService {
           ELSE '> 2 hours'
         END as bracket,
         COUNT(*) as trades,
-        SUM(pnl) as pnl,
+        SUM(${this.pnlColumn}) as pnl,
         ROUND(AVG("timeInTrade"), 0) as avg_duration
       FROM trades
       WHERE "userId" = ${this.userId}
@@ -322,6 +337,7 @@ export class AnalyticsService {
         AND date >= ${this.getDateFilterValue(where.date, 'gte')}
         AND date <= ${this.getDateFilterValue(where.date, 'lte')}
         ${where.symbol ? Prisma.sql`AND symbol = ANY(${this.getArrayFilterValue(where.symbol)})` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       GROUP BY 
         CASE 
@@ -433,8 +449,8 @@ export class AnalyticsService {
           ELSE 0 
         END as normalized_daily_volume,
         COUNT(*) as trade_count,
-        ROUND(AVG(pnl), 2) as avg_daily_pnl,
-        ROUND((SUM(CASE WHEN pnl > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate
+        ROUND(AVG(${this.pnlColumn}), 2) as avg_daily_pnl,
+        ROUND((SUM(CASE WHEN ${this.pnlColumn} > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate
       FROM trades
       WHERE "userId" = ${this.userId}
         AND "isCalculated" = true
@@ -443,6 +459,7 @@ export class AnalyticsService {
         AND date >= ${this.getDateFilterValue(where.date, 'gte')}
         AND date <= ${this.getDateFilterValue(where.date, 'lte')}
         ${where.symbol ? Prisma.sql`AND symbol = ANY(${this.getArrayFilterValue(where.symbol)})` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       GROUP BY ${periodSelector}
       ORDER BY period
@@ -470,7 +487,7 @@ export class AnalyticsService {
     dateRange: { start: Date; end: Date }
   ): Promise<number> {
     const result = await prisma.$queryRaw<Array<{ total_pnl: number }>>`
-      SELECT SUM(pnl) as total_pnl
+      SELECT SUM(${this.pnlColumn}) as total_pnl
       FROM trades
       WHERE "userId" = ${this.userId}
         AND "isCalculated" = true
@@ -478,6 +495,7 @@ export class AnalyticsService {
         AND date >= ${this.getDateFilterValue(where.date, 'gte')}
         AND date <= ${this.getDateFilterValue(where.date, 'lte')}
         ${where.symbol ? Prisma.sql`AND symbol = ANY(${this.getArrayFilterValue(where.symbol)})` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
     `;
 
@@ -534,10 +552,10 @@ export class AnalyticsService {
     }>>`
       SELECT 
         date::date as date,
-        SUM(pnl) as pnl,
-        ROUND((SUM(CASE WHEN pnl > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate,
+        SUM(${this.pnlColumn}) as pnl,
+        ROUND((SUM(CASE WHEN ${this.pnlColumn} > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate,
         COUNT(*) as trades,
-        SUM(SUM(pnl)) OVER (ORDER BY date::date) as cumulative_pnl
+        SUM(SUM(${this.pnlColumn})) OVER (ORDER BY date::date) as cumulative_pnl
       FROM trades
       WHERE "userId" = ${this.userId}
         AND "isCalculated" = true
@@ -545,6 +563,7 @@ export class AnalyticsService {
         AND date >= ${this.getDateFilterValue(where.date, 'gte')}
         AND date <= ${this.getDateFilterValue(where.date, 'lte')}
         ${where.symbol ? Prisma.sql`AND symbol = ANY(${this.getArrayFilterValue(where.symbol)})` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       GROUP BY date::date
       ORDER BY date::date
@@ -561,8 +580,8 @@ export class AnalyticsService {
       SELECT 
         DATE_TRUNC('week', date) as week_start,
         TO_CHAR(DATE_TRUNC('week', date), 'YYYY-"W"WW') as period,
-        SUM(pnl) as pnl,
-        ROUND((SUM(CASE WHEN pnl > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate,
+        SUM(${this.pnlColumn}) as pnl,
+        ROUND((SUM(CASE WHEN ${this.pnlColumn} > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate,
         COUNT(*) as trades
       FROM trades
       WHERE "userId" = ${this.userId}
@@ -571,6 +590,7 @@ export class AnalyticsService {
         AND date >= ${this.getDateFilterValue(where.date, 'gte')}
         AND date <= ${this.getDateFilterValue(where.date, 'lte')}
         ${where.symbol ? Prisma.sql`AND symbol = ANY(${this.getArrayFilterValue(where.symbol)})` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       GROUP BY DATE_TRUNC('week', date)
       ORDER BY week_start
@@ -589,11 +609,11 @@ export class AnalyticsService {
         SELECT 
           DATE_TRUNC('month', date) as month_start,
           TO_CHAR(DATE_TRUNC('month', date), 'YYYY-MM') as period,
-          SUM(pnl) as pnl,
-          ROUND((SUM(CASE WHEN pnl > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate,
+          SUM(${this.pnlColumn}) as pnl,
+          ROUND((SUM(CASE WHEN ${this.pnlColumn} > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate,
           COUNT(*) as trades,
-          STDDEV(pnl) as pnl_stddev,
-          AVG(pnl) as avg_pnl
+          STDDEV(${this.pnlColumn}) as pnl_stddev,
+          AVG(${this.pnlColumn}) as avg_pnl
         FROM trades
         WHERE "userId" = ${this.userId}
           AND "isCalculated" = true
@@ -601,6 +621,7 @@ export class AnalyticsService {
           AND date >= ${this.getDateFilterValue(where.date, 'gte')}
           AND date <= ${this.getDateFilterValue(where.date, 'lte')}
           ${where.symbol ? Prisma.sql`AND symbol = ANY(${this.getArrayFilterValue(where.symbol)})` : Prisma.empty}
+          ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
           ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
         GROUP BY DATE_TRUNC('month', date)
       )
@@ -623,8 +644,8 @@ export class AnalyticsService {
     }>>`
       SELECT 
         EXTRACT(HOUR FROM "openTime") as hour,
-        ROUND(AVG(pnl), 2) as avg_pnl,
-        ROUND((SUM(CASE WHEN pnl > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate,
+        ROUND(AVG(${this.pnlColumn}), 2) as avg_pnl,
+        ROUND((SUM(CASE WHEN ${this.pnlColumn} > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate,
         COUNT(*) as trades
       FROM trades
       WHERE "userId" = ${this.userId}
@@ -634,6 +655,7 @@ export class AnalyticsService {
         AND date >= ${this.getDateFilterValue(where.date, 'gte')}
         AND date <= ${this.getDateFilterValue(where.date, 'lte')}
         ${where.symbol ? Prisma.sql`AND symbol = ANY(${this.getArrayFilterValue(where.symbol)})` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       GROUP BY EXTRACT(HOUR FROM "openTime")
       ORDER BY hour
@@ -677,6 +699,7 @@ export class AnalyticsService {
       where,
       select: {
         pnl: true,
+        netPnl: true,
         quantity: true,
         commission: true,
         fees: true,
@@ -689,7 +712,7 @@ export class AnalyticsService {
       return this.getEmptyStatistics();
     }
 
-    const pnls = trades.map(t => Number(t.pnl));
+    const pnls = trades.map(t => Number(this.viewMode === 'net' ? t.netPnl : t.pnl));
     const totalPnl = pnls.reduce((sum, pnl) => sum + pnl, 0);
     const winningTrades = pnls.filter(pnl => pnl > 0);
     const losingTrades = pnls.filter(pnl => pnl < 0);
@@ -714,7 +737,7 @@ export class AnalyticsService {
     const maxDrawdown = this.calculateMaxDrawdown(pnls);
 
     // Daily aggregations for additional metrics
-    const tradesForGrouping = trades.map(t => ({ pnl: Number(t.pnl), date: t.date }));
+    const tradesForGrouping = trades.map((t, index) => ({ pnl: pnls[index], date: t.date }));
     const dailyGroups = this.groupByDay(tradesForGrouping);
     const dailyPnls = Object.values(dailyGroups).map(dayTrades => 
       dayTrades.reduce((sum, trade) => sum + Number(trade.pnl), 0)
@@ -736,8 +759,8 @@ export class AnalyticsService {
         profitFactor,
         sharpeRatio,
         maxDrawdown,
-        totalVolume: trades.reduce((sum, t) => sum + (t.quantity || 0), 0),
-        avgPositionSize: trades.reduce((sum, t) => sum + (t.quantity || 0), 0) / trades.length,
+        totalVolume: trades.reduce((sum, t) => sum + Number(t.quantity || 0), 0),
+        avgPositionSize: trades.reduce((sum, t) => sum + Number(t.quantity || 0), 0) / trades.length,
         totalCommissions: trades.reduce((sum, t) => sum + Number(t.commission || 0), 0),
         totalFees: trades.reduce((sum, t) => sum + Number(t.fees || 0), 0)
       },
@@ -762,8 +785,8 @@ export class AnalyticsService {
       SELECT 
         "marketSession" as market_session,
         COUNT(*) as trades,
-        SUM(pnl) as pnl,
-        ROUND((SUM(CASE WHEN pnl > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate
+        SUM(${this.pnlColumn}) as pnl,
+        ROUND((SUM(CASE WHEN ${this.pnlColumn} > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate
       FROM trades
       WHERE "userId" = ${this.userId}
         AND "isCalculated" = true
@@ -771,6 +794,7 @@ export class AnalyticsService {
         AND date >= ${this.getDateFilterValue(where.date, 'gte')}
         AND date <= ${this.getDateFilterValue(where.date, 'lte')}
         ${where.symbol ? Prisma.sql`AND symbol = ANY(${this.getArrayFilterValue(where.symbol)})` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       GROUP BY "marketSession"
     `;
@@ -786,8 +810,8 @@ export class AnalyticsService {
       SELECT 
         "holdingPeriod" as holding_period,
         COUNT(*) as trades,
-        SUM(pnl) as pnl,
-        ROUND((SUM(CASE WHEN pnl > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate,
+        SUM(${this.pnlColumn}) as pnl,
+        ROUND((SUM(CASE WHEN ${this.pnlColumn} > 0 THEN 1 ELSE 0 END)::numeric / COUNT(*)) * 100, 2) as win_rate,
         ROUND(AVG("timeInTrade"), 0) as avg_duration
       FROM trades
       WHERE "userId" = ${this.userId}
@@ -796,6 +820,7 @@ export class AnalyticsService {
         AND date >= ${this.getDateFilterValue(where.date, 'gte')}
         AND date <= ${this.getDateFilterValue(where.date, 'lte')}
         ${where.symbol ? Prisma.sql`AND symbol = ANY(${this.getArrayFilterValue(where.symbol)})` : Prisma.empty}
+        ${where.tradingAccountId ? Prisma.sql`AND "tradingAccountId" = ${where.tradingAccountId}` : Prisma.empty}
         ${where.side ? Prisma.sql`AND side = ${where.side}` : Prisma.empty}
       GROUP BY "holdingPeriod"
     `;
@@ -828,7 +853,7 @@ export class AnalyticsService {
     }>>`
       SELECT 
         EXTRACT(HOUR FROM "openTime") as hour,
-        ROUND(AVG(pnl), 2) as avg_pnl
+        ROUND(AVG(${this.pnlColumn}), 2) as avg_pnl
       FROM trades
       WHERE "userId" = ${this.userId}
         AND "isCalculated" = true
@@ -856,7 +881,7 @@ export class AnalyticsService {
           WHEN 5 THEN 'Friday'
           WHEN 6 THEN 'Saturday'
         END as day_name,
-        ROUND(AVG(pnl), 2) as avg_pnl
+        ROUND(AVG(${this.pnlColumn}), 2) as avg_pnl
       FROM trades
       WHERE "userId" = ${this.userId}
         AND "isCalculated" = true
@@ -873,7 +898,7 @@ export class AnalyticsService {
     }>>`
       SELECT 
         EXTRACT(MONTH FROM date) as month,
-        ROUND(AVG(pnl), 2) as avg_pnl
+        ROUND(AVG(${this.pnlColumn}), 2) as avg_pnl
       FROM trades
       WHERE "userId" = ${this.userId}
         AND "isCalculated" = true
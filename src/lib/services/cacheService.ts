@@ -280,11 +280,13 @@ export class CacheService {
       dateRange: request.dateRange,
       filters: {
         symbols: request.filters?.symbols?.sort(),
+        accountId: request.filters?.accountId,
         tags: request.filters?.tags?.sort(),
         side: request.filters?.side,
         timeZone: request.filters?.timeZone || 'America/New_York'
       },
-      aggregations: request.aggregations.sort()
+      aggregations: request.aggregations.sort(),
+      viewMode: request.viewMode || 'gross'
     };
 
     // Simple hash implementation (consider using crypto.createHash for production)
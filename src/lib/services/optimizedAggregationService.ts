@@ -87,7 +87,7 @@ export async function calculateOptimizedDashboardMetrics(
       SELECT 
         COUNT(*) as total_trades,
         SUM(pnl::NUMERIC) as total_pnl,
-        SUM(quantity) as total_volume,
+        SUM(quantity)::FLOAT as total_volume,
         AVG(pnl::NUMERIC) as avg_pnl,
         COUNT(*) FILTER (WHERE pnl > 0) as winning_trades,
         COUNT(*) FILTER (WHERE pnl < 0) as losing_trades,
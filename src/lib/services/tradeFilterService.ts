@@ -1,14 +1,17 @@
 import { Prisma, TradeSide } from '@prisma/client';
+import type { PnlViewMode } from '@/types';
 
 export interface TradeFilters {
   userId: string;
   symbol?: string;
+  accountId?: string;
   side?: string;
   dateFrom?: string;
   dateTo?: string;
   tags?: string[];
   duration?: string;
   showOpenTrades?: boolean;
+  viewMode?: PnlViewMode;
 }
 
 /**
@@ -26,9 +29,14 @@ export class TradeFilterService {
       userId: filters.userId
     };
 
-    // Symbol filter
+    // Symbol filter (a futures root like ES also matches its monthly contracts)
     if (filters.symbol && filters.symbol !== 'Symbol' && filters.symbol !== 'all') {
-      where.symbol = filters.symbol;
+      where.OR = [{ symbol: filters.symbol }, { underlyingSymbol: filters.symbol }];
+    }
+
+    // Account filter
+    if (filters.accountId && filters.accountId !== 'all') {
+      where.tradingAccountId = filters.accountId;
     }
 
     // Side filter  
@@ -79,15 +87,55 @@ export class TradeFilterService {
     return {
       userId,
       symbol: searchParams.get('symbol') || undefined,
+      accountId: TradeFilterService.parseAccountId(searchParams),
       side: searchParams.get('side') || undefined,
       dateFrom: searchParams.get('dateFrom') || searchParams.get('from') || undefined,
       dateTo: searchParams.get('dateTo') || searchParams.get('to') || undefined,
       tags: searchParams.get('tags')?.split(',').filter(Boolean) || undefined,
       duration: searchParams.get('duration') || undefined,
-      showOpenTrades: searchParams.get('showOpenTrades') === 'true'
+      showOpenTrades: searchParams.get('showOpenTrades') === 'true',
+      viewMode: TradeFilterService.parseViewMode(searchParams)
     };
   }
 
+  /**
+   * Parse the account selector; 'all' or a missing value covers every account
+   */
+  static parseAccountId(searchParams: URLSearchParams): string | undefined {
+    const accountId = searchParams.get('accountId');
+    return accountId && accountId !== 'all' ? accountId : undefined;
+  }
+
+  /**
+   * Raw SQL condition for the account selector (empty when every account is selected)
+   */
+  static accountConditionSql(accountId?: string): Prisma.Sql {
+    return accountId ? Prisma.sql`AND "tradingAccountId" = ${accountId}` : Prisma.empty;
+  }
+
+  /**
+   * Parse the gross/net P&L toggle; anything other than 'net' reports gross P&L
+   */
+  static parseViewMode(searchParams: URLSearchParams): PnlViewMode {
+    return searchParams.get('viewMode') === 'net' ? 'net' : 'gross';
+  }
+
+  /**
+   * Trade P&L column for raw queries in the requested view mode
+   */
+  static pnlColumnSql(viewMode?: PnlViewMode): Prisma.Sql {
+    return Prisma.raw(viewMode === 'net' ? '"netPnl"' : 'pnl');
+  }
+
+  /**
+   * Report net P&L in the pnl field when the net view is selected
+   * Lets existing calculations keep reading trade.pnl
+   */
+  static applyViewMode<T extends { pnl: unknown; netPnl?: unknown }>(trades: T[], viewMode?: PnlViewMode): T[] {
+    if (viewMode !== 'net') return trades;
+    return trades.map(trade => ({ ...trade, pnl: trade.netPnl ?? trade.pnl }));
+  }
+
   /**
    * Build SQL fragments for raw queries
    * For complex queries that need raw SQL
@@ -100,10 +148,15 @@ export class TradeFilterService {
     const params: Record<string, unknown> = { userId: filters.userId };
 
     if (filters.symbol && filters.symbol !== 'Symbol' && filters.symbol !== 'all') {
-      conditions.push(`symbol = $symbol`);
+      conditions.push(`(symbol = $symbol OR "underlyingSymbol" = $symbol)`);
       params.symbol = filters.symbol;
     }
 
+    if (filters.accountId && filters.accountId !== 'all') {
+      conditions.push(`"tradingAccountId" = $accountId`);
+      params.accountId = filters.accountId;
+    }
+
     if (filters.side && filters.side.toLowerCase() !== 'all') {
       conditions.push(`side = $side`);
       params.side = filters.side.toUpperCase();
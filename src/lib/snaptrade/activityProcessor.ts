@@ -4,13 +4,27 @@ import { prisma } from '@/lib/prisma';
 import { SnapTradeActivity, SyncStatus, SyncType } from './types';
 import { mapBrokerType } from './mapper';
 import { lookupBrokerType } from './brokerLookup';
-import { DatePrecision, OrderSide, OrderType, OrderStatus, TimeInForce } from '@prisma/client';
+import { AssetClass, CashActivityType, CorporateActionType, DatePrecision, ImportSource, OptionEvent, OrderSide, OrderType, OrderStatus, TimeInForce } from '@prisma/client';
 import { createHash } from 'crypto';
 import { AccountUniversalActivity } from 'snaptrade-typescript-sdk';
+import {
+  parseOptionSymbol,
+  normalizeOptionRight,
+  STANDARD_OPTION_MULTIPLIER,
+  MINI_OPTION_MULTIPLIER
+} from '@/lib/optionSymbols';
+import { roundQuantity } from '@/lib/precision';
+import { accountsRepo } from '@/lib/repositories/accountsRepo';
+import { corporateActionsRepo } from '@/lib/repositories/corporateActionsRepo';
+import { parseSplitRatio } from '@/lib/corporateActions';
+import { normalizeCurrency } from '@/lib/currency';
+import { cashActivitiesRepo, CreateCashActivityData } from '@/lib/repositories/cashActivitiesRepo';
+import { classifyCashActivity, signCashAmount, SNAPTRADE_CASH_TYPES } from '@/lib/cashLedger';
 
 export interface ActivityProcessorOptions {
   dateFrom?: Date;
   dateTo?: Date;
+  activityTypes?: string[]; // Cash activity types to record in the ledger; all of them when not given
   onProgress?: (progress: number, message: string) => void;
 }
 
@@ -21,6 +35,33 @@ export interface ProcessResult {
   errors: string[];
   success: boolean;
   createdOrderIds?: string[];
+  corporateActionsRecorded?: number;
+  cashActivitiesRecorded?: number;
+}
+
+// Option lifecycle activities close option positions just like a SELL/BUY would
+const OPTION_EVENT_TYPES: Record<string, OptionEvent> = {
+  OPTIONEXPIRATION: OptionEvent.EXPIRATION,
+  OPTIONASSIGNMENT: OptionEvent.ASSIGNMENT,
+  OPTIONEXERCISE: OptionEvent.EXERCISE,
+};
+
+// Activity types that become orders
+const TRADE_ACTIVITY_TYPES = ['BUY', 'SELL', ...Object.keys(OPTION_EVENT_TYPES)];
+
+function isTradeActivity(activity: SnapTradeActivity): boolean {
+  return TRADE_ACTIVITY_TYPES.includes(activity.type?.toUpperCase() || '');
+}
+
+// Split activities become market-wide corporate actions rather than orders
+const SPLIT_ACTIVITY_TYPES: Record<string, CorporateActionType> = {
+  SPLIT: CorporateActionType.SPLIT,
+  STOCK_SPLIT: CorporateActionType.SPLIT,
+  REVERSE_SPLIT: CorporateActionType.REVERSE_SPLIT,
+};
+
+function isSplitActivity(activity: SnapTradeActivity): boolean {
+  return (activity.type?.toUpperCase() || '') in SPLIT_ACTIVITY_TYPES;
 }
 
 /**
@@ -55,6 +96,7 @@ function adaptAccountActivity(activity: AccountUniversalActivity, accountInfo: {
     description: activity.description || '',
     quantity: activity.units || 0,
     price: activity.price || 0,
+    amount: activity.amount ?? undefined,
     currency: {
       id: activity.currency?.id || '',
       code: activity.currency?.code || '',
@@ -64,6 +106,14 @@ function adaptAccountActivity(activity: AccountUniversalActivity, accountInfo: {
     option_type: activity.option_type,
     option_strike_price: activity.option_symbol?.strike_price,
     option_expiration_date: activity.option_symbol?.expiration_date,
+    option_symbol: activity.option_symbol ? {
+      ticker: activity.option_symbol.ticker,
+      option_type: activity.option_symbol.option_type,
+      strike_price: activity.option_symbol.strike_price,
+      expiration_date: activity.option_symbol.expiration_date,
+      is_mini_option: activity.option_symbol.is_mini_option,
+      underlying_symbol: activity.option_symbol.underlying_symbol?.symbol,
+    } : undefined,
   } as SnapTradeActivity;
 }
 
@@ -131,6 +181,32 @@ export class SnapTradeActivityProcessor {
     return dailyPrecisionBrokers.some(b => broker.includes(b)) ? DatePrecision.DAILY : DatePrecision.MILLISECOND;
   }
 
+  /**
+   * Resolve symbol and structured option fields for an activity
+   * Option activities carry the OCC ticker in option_symbol rather than symbol
+   */
+  private mapOptionContract(activity: SnapTradeActivity) {
+    const option = activity.option_symbol;
+    const parsed = parseOptionSymbol(option?.ticker);
+    const optionRight = normalizeOptionRight(option?.option_type ?? activity.option_type);
+
+    if (!option || !parsed || !optionRight) {
+      return {
+        symbol: activity.symbol?.symbol || '',
+      };
+    }
+
+    return {
+      symbol: parsed.occSymbol,
+      assetClass: AssetClass.OPTIONS,
+      underlyingSymbol: option.underlying_symbol || parsed.underlyingSymbol,
+      optionRight,
+      strikePrice: option.strike_price ?? parsed.strikePrice,
+      expirationDate: parsed.expirationDate,
+      contractMultiplier: option.is_mini_option ? MINI_OPTION_MULTIPLIER : STANDARD_OPTION_MULTIPLIER,
+    };
+  }
+
   /**
    * Convert SnapTrade activity to Order format
    */
@@ -149,23 +225,28 @@ export class SnapTradeActivityProcessor {
     const brokerType = await lookupBrokerType(activity.institution || '');
 
     // Determine order side
+    // Option events carry no reliable side - TradeBuilder aligns them with the position they close
     const isBuy = activity.type === 'BUY' || (activity.quantity && activity.quantity > 0);
     const side = isBuy ? OrderSide.BUY : OrderSide.SELL;
+    const optionEvent = OPTION_EVENT_TYPES[activity.type?.toUpperCase() || ''];
 
     return {
       userId,
       orderId: `ST-${broker.replace(/\s+/g, '')}-${activity.id}`,
-      symbol: activity.symbol?.symbol || '',
+      ...this.mapOptionContract(activity),
+      optionEvent,
       orderType: OrderType.MARKET, // SnapTrade activities are typically market orders
       side,
       timeInForce: TimeInForce.DAY,
-      orderQuantity: Math.abs(activity.quantity || 0),
-      limitPrice: activity.price || 0,
+      orderQuantity: roundQuantity(Math.abs(activity.quantity || 0)),
+      limitPrice: optionEvent === OptionEvent.EXPIRATION ? 0 : activity.price || 0,
       orderStatus: OrderStatus.FILLED,
       orderPlacedTime: adjustedTime,
       orderExecutedTime: adjustedTime,
       accountId: activity.account?.id,
       brokerType,
+      currency: normalizeCurrency(activity.currency?.code),
+      importSource: ImportSource.SNAPTRADE_API,
 
       // SnapTrade-specific fields
       snapTradeActivityId: activity.id,
@@ -188,6 +269,94 @@ export class SnapTradeActivityProcessor {
     };
   }
 
+  /**
+   * Record a split reported by the broker as a corporate action
+   * The ratio is read from the description when it has one, otherwise from the shares received
+   * against the shares the account held before the split. Returns false when no ratio can be found.
+   */
+  private async recordSplitActivity(activity: SnapTradeActivity, userId: string): Promise<boolean> {
+    const symbol = activity.symbol?.symbol;
+    const effectiveDate = activity.trade_date?.split('T')[0];
+    if (!symbol || !effectiveDate) return false;
+
+    const sharesReceived = activity.quantity || 0;
+    let actionType = SPLIT_ACTIVITY_TYPES[activity.type.toUpperCase()];
+    // Some brokers report reverse splits as SPLIT; the description or a share decrease gives them away
+    if (/reverse/i.test(activity.description || '') || sharesReceived < 0) {
+      actionType = CorporateActionType.REVERSE_SPLIT;
+    }
+
+    let ratio = parseSplitRatio(activity.description, actionType);
+    if (!ratio && sharesReceived !== 0) {
+      const priorOrders = await prisma.order.findMany({
+        where: {
+          userId,
+          accountId: activity.account?.id,
+          symbol,
+          optionRight: null,
+          orderExecutedTime: { lt: new Date(`${effectiveDate}T00:00:00.000Z`) },
+        },
+        select: { side: true, orderQuantity: true },
+      });
+      const sharesHeld = priorOrders.reduce(
+        (sum, order) => sum + (order.side === OrderSide.BUY ? 1 : -1) * Number(order.orderQuantity),
+        0
+      );
+      if (sharesHeld > 0 && sharesHeld + sharesReceived > 0) {
+        ratio = { ratioFrom: sharesHeld, ratioTo: roundQuantity(sharesHeld + sharesReceived) };
+      }
+    }
+
+    if (!ratio) {
+      console.warn(`[SNAPTRADE] Could not determine ratio for ${activity.type} ${symbol} on ${effectiveDate}, skipping`);
+      return false;
+    }
+
+    await corporateActionsRepo.upsertCorporateAction({
+      symbol: symbol.toUpperCase(),
+      actionType,
+      effectiveDate,
+      ...ratio,
+      notes: activity.description || undefined,
+    }, 'SNAPTRADE');
+    return true;
+  }
+
+  /**
+   * Convert a dividend, interest, fee or cash movement to a cash ledger entry
+   * Fees and interest described as borrow or margin charges are recorded as financing costs.
+   */
+  private mapCashActivity(activity: SnapTradeActivity, activityTypes?: string[]): CreateCashActivityData | null {
+    const type = activity.type?.toUpperCase() || '';
+    let activityType = SNAPTRADE_CASH_TYPES[type];
+    if (!activityType || (activityTypes && !activityTypes.includes(type))) return null;
+
+    const described = classifyCashActivity(activity.description);
+    if (described === CashActivityType.BORROW_FEE || described === CashActivityType.MARGIN_INTEREST) {
+      activityType = described;
+    }
+
+    const amount = activity.amount ?? (activity.quantity || 0) * (activity.price || 0);
+    if (!amount || !activity.trade_date) return null;
+
+    return {
+      activityType,
+      amount: signCashAmount(activityType, amount),
+      currency: normalizeCurrency(activity.currency?.code),
+      symbol: activity.symbol?.symbol || null,
+      description: activity.description || null,
+      occurredAt: new Date(activity.trade_date),
+      importSource: ImportSource.SNAPTRADE_API,
+      externalAccountId: activity.account?.id,
+      externalId: activity.id || null,
+      brokerMetadata: {
+        type: activity.type,
+        institution: activity.institution,
+        settlementDate: activity.settlement_date,
+      },
+    };
+  }
+
   /**
    * Check for duplicate activities by hash
    */
@@ -217,11 +386,13 @@ export class SnapTradeActivityProcessor {
     userId: string,
     options: ActivityProcessorOptions = {}
   ): Promise<ProcessResult> {
-    const { dateFrom, dateTo, onProgress } = options;
+    const { dateFrom, dateTo, activityTypes, onProgress } = options;
     const errors: string[] = [];
     let activitiesFound = 0;
     let ordersCreated = 0;
     let duplicatesSkipped = 0;
+    let corporateActionsRecorded = 0;
+    let cashActivitiesRecorded = 0;
 
     try {
       // Get the user's SnapTrade credentials
@@ -267,6 +438,7 @@ export class SnapTradeActivityProcessor {
 
       let processedAccounts = 0;
       const allOrders: any[] = [];
+      const allCashActivities: CreateCashActivityData[] = [];
 
       // Process each account
       for (const account of accounts) {
@@ -276,6 +448,9 @@ export class SnapTradeActivityProcessor {
             `Processing account ${account.name || account.id}`
           );
 
+          // Register the account so its orders and trades can be filtered and kept apart
+          await accountsRepo.upsertAccount(userId, { externalId: account.id, nickname: account.name });
+
           await RateLimitHelper.checkRateLimit();
           
           // Get activities for this account
@@ -308,10 +483,19 @@ export class SnapTradeActivityProcessor {
             adaptAccountActivity(activity, { id: account.id, name: account.name || '', number: account.number })
           );
 
-          // Filter for trade activities only (BUY/SELL)
-          const tradeActivities = activities.filter(activity => 
-            ['BUY', 'SELL'].includes(activity.type?.toUpperCase() || '')
-          );
+          // Filter for trade activities only (BUY/SELL and option lifecycle events)
+          const tradeActivities = activities.filter(isTradeActivity);
+
+          for (const activity of activities.filter(isSplitActivity)) {
+            if (await this.recordSplitActivity(activity, userId)) {
+              corporateActionsRecorded++;
+            }
+          }
+
+          const cashActivities = activities
+            .map(activity => this.mapCashActivity(activity, activityTypes))
+            .filter((activity): activity is CreateCashActivityData => !!activity);
+          allCashActivities.push(...cashActivities);
 
           activitiesFound += tradeActivities.length;
 
@@ -365,6 +549,11 @@ export class SnapTradeActivityProcessor {
         }
       }
 
+      cashActivitiesRecorded = await cashActivitiesRepo.createActivities(userId, allCashActivities);
+      if (cashActivitiesRecorded > 0) {
+        await cashActivitiesRepo.attributeFinancingCosts(userId);
+      }
+
       onProgress?.(100, 'Import completed');
 
       return {
@@ -373,7 +562,9 @@ export class SnapTradeActivityProcessor {
         duplicatesSkipped,
         errors,
         success: errors.length === 0,
-        createdOrderIds
+        createdOrderIds,
+        corporateActionsRecorded,
+        cashActivitiesRecorded
       };
 
     } catch (error) {
@@ -386,7 +577,9 @@ export class SnapTradeActivityProcessor {
         duplicatesSkipped,
         errors,
         success: false,
-        createdOrderIds: []
+        createdOrderIds: [],
+        corporateActionsRecorded,
+        cashActivitiesRecorded
       };
     } finally {
       // Reset date counters for next run
@@ -430,10 +623,8 @@ export class SnapTradeActivityProcessor {
 
       onProgress?.(30, 'Filtering for trade activities (BUY/SELL)');
 
-      // Filter for trade activities only (BUY/SELL) - same logic as processActivities
-      const tradeActivities = activities.filter(activity => 
-        ['BUY', 'SELL'].includes(activity.type?.toUpperCase() || '')
-      );
+      // Filter for trade activities only - same logic as processActivities
+      const tradeActivities = activities.filter(isTradeActivity);
 
       activitiesFound = tradeActivities.length;
 
@@ -585,9 +776,7 @@ export class SnapTradeActivityProcessor {
           adaptAccountActivity(activity, { id: sampleAccount.id, name: sampleAccount.name || '', number: sampleAccount.number })
         );
 
-        const tradeActivities = activities.filter(activity => 
-          ['BUY', 'SELL'].includes(activity.type?.toUpperCase() || '')
-        );
+        const tradeActivities = activities.filter(isTradeActivity);
 
         // Estimate for all accounts (assuming similar activity levels)
         totalEstimate = tradeActivities.length * accounts.length;
@@ -4,6 +4,9 @@ import { SyncRequest, SyncResult, SyncStatus, SyncType } from './types';
 import { SnapTradeActivityProcessor } from './activityProcessor';
 import { processUserOrders, ProcessedTrade } from '../tradeBuilder';
 
+// Trades plus the cash activity types recorded in the ledger
+const DEFAULT_ACTIVITY_TYPES = 'BUY,SELL,DIVIDEND,INTEREST,FEE,CONTRIBUTION,WITHDRAWAL,TRANSFER';
+
 /**
  * Get sync configuration from database or create default
  */
@@ -17,7 +20,7 @@ async function getSyncConfig() {
         startDate: '2015-01-01',
         endDate: null, // Use current date
         limit: 500,
-        activityTypes: 'BUY,SELL'
+        activityTypes: DEFAULT_ACTIVITY_TYPES
       }
     });
   }
@@ -81,6 +84,7 @@ export async function syncTradesForConnection(
       {
         dateFrom: startDate,
         dateTo: endDate,
+        activityTypes: config.activityTypes.split(',').map(type => type.trim().toUpperCase()).filter(Boolean),
         onProgress: (progress, message) => {
           console.log(`[SNAPTRADE_SYNC] ${request.userId}: ${progress}% - ${message}`);
         }
@@ -194,7 +198,7 @@ export async function updateSyncConfig(config: {
         startDate: config.startDate || '2015-01-01',
         endDate: config.endDate,
         limit: config.limit || 500,
-        activityTypes: config.activityTypes || 'BUY,SELL'
+        activityTypes: config.activityTypes || DEFAULT_ACTIVITY_TYPES
       }
     });
   } else {
@@ -182,6 +182,7 @@ export interface SnapTradeActivity {
   description: string;
   quantity: number;
   price: number;
+  amount?: number; // Cash effect, positive when it adds to the balance
   currency: {
     id: string;
     code: string;
@@ -192,6 +193,14 @@ export interface SnapTradeActivity {
   option_type?: string;
   option_strike_price?: number;
   option_expiration_date?: string;
+  option_symbol?: {
+    ticker: string;
+    option_type: 'CALL' | 'PUT';
+    strike_price: number;
+    expiration_date: string;
+    is_mini_option?: boolean;
+    underlying_symbol?: string;
+  };
 }
 
 export interface SnapTradeErrorResponse {
@@ -0,0 +1,247 @@
+/**
+ * Tax lots, wash sales and Form 8949 rows
+ *
+ * Every closing record of a trade is a disposition of the lot its entry order opened. Dispositions
+ * are walked in the order they were sold: a loss is disallowed when substantially identical lots
+ * (same symbol and side, in any account or broker) were acquired within 30 days either side of the
+ * sale. The disallowed loss moves into the cost basis of those replacement lots, along with the
+ * washed lot's holding period, and comes back when the replacement shares are sold.
+ */
+
+import { AssetClass, TradeSide } from '@prisma/client';
+import { roundQuantity } from './precision';
+
+export type TaxTerm = 'SHORT' | 'LONG';
+
+export interface TaxLotDisposition {
+  id: string; // Closing record (TradeLot) id
+  symbol: string;
+  side: TradeSide;
+  assetClass: AssetClass;
+  quantity: number;
+  openOrderId: string; // Entry order the sold lot was acquired by
+  acquiredTime: Date;
+  soldTime: Date;
+  proceeds: number;
+  costBasis: number; // Including the share of commissions and fees
+  accountName: string | null;
+}
+
+export interface TaxLotAcquisition {
+  orderId: string;
+  symbol: string;
+  side: TradeSide;
+  quantity: number;
+  acquiredTime: Date;
+}
+
+export interface Form8949Row {
+  dispositionId: string;
+  description: string;
+  symbol: string;
+  quantity: number;
+  dateAcquired: Date; // Moved back by the holding period of any washed lot this one replaced
+  dateSold: Date;
+  proceeds: number;
+  costBasis: number; // Adjusted for losses washed into this lot
+  adjustmentCode: '' | 'W';
+  adjustment: number; // Disallowed wash-sale loss, entered as a positive amount
+  gainOrLoss: number;
+  term: TaxTerm;
+  accountName: string | null;
+}
+
+export interface Form8949Totals {
+  proceeds: number;
+  costBasis: number;
+  adjustment: number;
+  gainOrLoss: number;
+}
+
+export const WASH_SALE_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Basis and holding period carried by some of an acquisition's shares after a wash sale
+interface WashedShares {
+  quantity: number;
+  basis: number;
+  heldMs: number;
+}
+
+interface AcquisitionState {
+  acquisition: TaxLotAcquisition;
+  disposedQuantity: number;
+  replacementQuantity: number; // Shares already used to replace an earlier loss
+  washedShares: WashedShares[];
+}
+
+/**
+ * Held for more than one year: sold after the anniversary of the acquisition date
+ */
+export function isLongTerm(dateAcquired: Date, dateSold: Date): boolean {
+  const anniversary = new Date(dateAcquired);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return toDateKey(dateSold) > toDateKey(anniversary);
+}
+
+/**
+ * Column (a) of Form 8949, e.g. "100 sh AAPL" or "2 AAPL 240119C00150000"
+ */
+export function describeLot(quantity: number, symbol: string, assetClass: AssetClass): string {
+  return assetClass === AssetClass.EQUITY ? `${quantity} sh ${symbol}` : `${quantity} ${symbol}`;
+}
+
+/**
+ * Build Form 8949 rows for every disposition, applying wash sales across all of them
+ * Pass the user's full history; filter the rows to a tax year afterwards so losses washed in
+ * earlier years still reach the replacement lots sold this year.
+ */
+export function buildForm8949Rows(
+  dispositions: TaxLotDisposition[],
+  acquisitions: TaxLotAcquisition[]
+): Form8949Row[] {
+  const states = new Map<string, AcquisitionState>(acquisitions.map(acquisition => [
+    acquisition.orderId,
+    { acquisition, disposedQuantity: 0, replacementQuantity: 0, washedShares: [] },
+  ]));
+
+  const sorted = [...dispositions].sort((a, b) =>
+    a.soldTime.getTime() - b.soldTime.getTime() || a.id.localeCompare(b.id)
+  );
+
+  const rows: Form8949Row[] = [];
+  for (const disposition of sorted) {
+    const state = states.get(disposition.openOrderId);
+
+    // Shares carrying a washed loss are sold first, each slice with its own basis and holding period
+    for (const slice of takeSlices(state, disposition.quantity)) {
+      const share = slice.quantity / disposition.quantity;
+      const proceeds = disposition.proceeds * share;
+      const costBasis = disposition.costBasis * share + slice.basis;
+      const dateAcquired = new Date(disposition.acquiredTime.getTime() - slice.heldMs);
+      const gainOrLoss = proceeds - costBasis;
+
+      const adjustment = gainOrLoss < 0
+        ? washLoss(states, disposition, slice.quantity, -gainOrLoss, dateAcquired)
+        : 0;
+
+      rows.push({
+        dispositionId: disposition.id,
+        description: describeLot(slice.quantity, disposition.symbol, disposition.assetClass),
+        symbol: disposition.symbol,
+        quantity: slice.quantity,
+        dateAcquired,
+        dateSold: disposition.soldTime,
+        proceeds: roundMoney(proceeds),
+        costBasis: roundMoney(costBasis),
+        adjustmentCode: adjustment > 0 ? 'W' : '',
+        adjustment: roundMoney(adjustment),
+        gainOrLoss: roundMoney(gainOrLoss + adjustment),
+        // Short sales take the holding period of the shares delivered to close them, which is short-term
+        term: disposition.side === TradeSide.LONG && isLongTerm(dateAcquired, disposition.soldTime) ? 'LONG' : 'SHORT',
+        accountName: disposition.accountName,
+      });
+    }
+
+    if (state) {
+      state.disposedQuantity = roundQuantity(state.disposedQuantity + disposition.quantity);
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Sum the money columns of a set of rows
+ */
+export function sumForm8949Rows(rows: Form8949Row[]): Form8949Totals {
+  return rows.reduce((totals, row) => ({
+    proceeds: roundMoney(totals.proceeds + row.proceeds),
+    costBasis: roundMoney(totals.costBasis + row.costBasis),
+    adjustment: roundMoney(totals.adjustment + row.adjustment),
+    gainOrLoss: roundMoney(totals.gainOrLoss + row.gainOrLoss),
+  }), { proceeds: 0, costBasis: 0, adjustment: 0, gainOrLoss: 0 });
+}
+
+/**
+ * Split a sale of an acquisition's shares into washed slices and the plain remainder
+ */
+function takeSlices(state: AcquisitionState | undefined, quantity: number): WashedShares[] {
+  const slices: WashedShares[] = [];
+  let remaining = quantity;
+
+  while (state && remaining > 0 && state.washedShares.length > 0) {
+    const washed = state.washedShares[0];
+    const taken = Math.min(remaining, washed.quantity);
+    const basis = washed.basis * (taken / washed.quantity);
+
+    slices.push({ quantity: taken, basis, heldMs: washed.heldMs });
+    washed.basis -= basis;
+    washed.quantity = roundQuantity(washed.quantity - taken);
+    // Sold replacement shares count as disposed, so they stop counting as replacements
+    state.replacementQuantity = roundQuantity(state.replacementQuantity - taken);
+    if (washed.quantity <= 0) state.washedShares.shift();
+    remaining = roundQuantity(remaining - taken);
+  }
+
+  if (remaining > 0) {
+    slices.push({ quantity: remaining, basis: 0, heldMs: 0 });
+  }
+  return slices;
+}
+
+/**
+ * Move a loss into the replacement lots acquired within the window; returns the amount disallowed
+ */
+function washLoss(
+  states: Map<string, AcquisitionState>,
+  disposition: TaxLotDisposition,
+  quantity: number,
+  loss: number,
+  dateAcquired: Date
+): number {
+  const windowStart = disposition.soldTime.getTime() - WASH_SALE_WINDOW_DAYS * DAY_MS;
+  const windowEnd = disposition.soldTime.getTime() + WASH_SALE_WINDOW_DAYS * DAY_MS;
+
+  const replacements = Array.from(states.values())
+    .filter(({ acquisition }) =>
+      acquisition.orderId !== disposition.openOrderId &&
+      acquisition.symbol === disposition.symbol &&
+      acquisition.side === disposition.side &&
+      acquisition.acquiredTime.getTime() >= windowStart &&
+      acquisition.acquiredTime.getTime() <= windowEnd
+    )
+    .sort((a, b) => a.acquisition.acquiredTime.getTime() - b.acquisition.acquiredTime.getTime());
+
+  let unmatched = quantity;
+  let disallowed = 0;
+  for (const state of replacements) {
+    if (unmatched <= 0) break;
+
+    // Shares already sold can no longer carry the basis, and each share replaces only one loss
+    const available = roundQuantity(state.acquisition.quantity - state.disposedQuantity - state.replacementQuantity);
+    if (available <= 0) continue;
+
+    const matched = Math.min(unmatched, available);
+    const washed = loss * (matched / quantity);
+    state.washedShares.push({
+      quantity: matched,
+      basis: washed,
+      heldMs: disposition.soldTime.getTime() - dateAcquired.getTime(),
+    });
+    state.replacementQuantity = roundQuantity(state.replacementQuantity + matched);
+    disallowed += washed;
+    unmatched = roundQuantity(unmatched - matched);
+  }
+
+  return disallowed;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100 || 0;
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,83 @@
+/**
+ * Minimal PDF writer for monospaced text reports
+ *
+ * Lays out lines of Courier on landscape letter pages. Enough for tabular exports that need to be
+ * printable and archived without pulling a PDF rendering library into the server bundle.
+ */
+
+export interface TextPdfOptions {
+  fontSize?: number;
+  landscape?: boolean;
+}
+
+const LETTER_SHORT = 612;
+const LETTER_LONG = 792;
+const MARGIN = 36;
+
+/**
+ * Render lines of text to a PDF document, starting a new page when a page is full
+ * A form feed ('\f') line forces a page break
+ */
+export function renderTextPdf(lines: string[], options: TextPdfOptions = {}): Buffer {
+  const fontSize = options.fontSize ?? 8;
+  const landscape = options.landscape ?? true;
+  const width = landscape ? LETTER_LONG : LETTER_SHORT;
+  const height = landscape ? LETTER_SHORT : LETTER_LONG;
+  const leading = Math.round(fontSize * 1.25 * 100) / 100;
+  const linesPerPage = Math.floor((height - MARGIN * 2) / leading);
+
+  const pages: string[][] = [[]];
+  for (const line of lines) {
+    const page = pages[pages.length - 1];
+    if (line === '\f') {
+      if (page.length > 0) pages.push([]);
+      continue;
+    }
+    if (page.length >= linesPerPage) pages.push([line]);
+    else page.push(line);
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3 font, then a page and a content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((pageLines, index) => {
+    const pageId = pageIds[index];
+    const text = pageLines.map(line => `(${escapePdfText(line)}) Tj T*`).join('\n');
+    const stream = `BT\n/F1 ${fontSize} Tf\n${leading} TL\n${MARGIN} ${height - MARGIN - fontSize} Td\n${text}\nET`;
+
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * Escape a line for a PDF string literal; characters outside Latin-1 are replaced
+ */
+function escapePdfText(line: string): string {
+  return line
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
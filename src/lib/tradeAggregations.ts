@@ -17,6 +17,7 @@
 
 import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import type { PnlViewMode } from '@/types';
 
 /**
  * Calculate Kelly Criterion for position sizing
@@ -28,18 +29,21 @@ export async function calculateKellyCriterion(
     dateFrom: Date;
     dateTo: Date;
     symbol: string;
+    accountId: string;
     side: 'LONG' | 'SHORT';
+    viewMode: PnlViewMode;
   }>
 ): Promise<number> {
   const filterConditions = buildFilterConditions(filters);
+  const pnlColumn = buildPnlColumn(filters);
   
   const result = await prisma.$queryRaw<Array<Record<string, unknown>>>`
     WITH trade_stats AS (
       SELECT 
-        COUNT(*) FILTER (WHERE pnl > 0) as wins,
-        COUNT(*) FILTER (WHERE pnl < 0) as losses,
-        AVG(pnl) FILTER (WHERE pnl > 0) as avg_win,
-        AVG(ABS(pnl)) FILTER (WHERE pnl < 0) as avg_loss
+        COUNT(*) FILTER (WHERE ${pnlColumn} > 0) as wins,
+        COUNT(*) FILTER (WHERE ${pnlColumn} < 0) as losses,
+        AVG(${pnlColumn}) FILTER (WHERE ${pnlColumn} > 0) as avg_win,
+        AVG(ABS(${pnlColumn})) FILTER (WHERE ${pnlColumn} < 0) as avg_loss
       FROM trades
       WHERE 
         user_id = ${userId}
@@ -73,17 +77,20 @@ export async function calculateSharpeRatio(
     dateFrom: Date;
     dateTo: Date;
     symbol: string;
+    accountId: string;
     side: 'LONG' | 'SHORT';
+    viewMode: PnlViewMode;
   }>
 ): Promise<number> {
   const filterConditions = buildFilterConditions(filters);
+  const pnlColumn = buildPnlColumn(filters);
   const periodTrunc = period === 'daily' ? 'day' : period === 'weekly' ? 'week' : 'month';
   
   const result = await prisma.$queryRaw<Array<Record<string, unknown>>>`
     WITH period_returns AS (
       SELECT 
         DATE_TRUNC('${Prisma.raw(periodTrunc)}', exit_date) as period,
-        SUM(pnl::NUMERIC) as period_return
+        SUM(${pnlColumn}::NUMERIC) as period_return
       FROM trades
       WHERE 
         user_id = ${userId}
@@ -126,7 +133,9 @@ export async function calculateDrawdownMetrics(
     dateFrom: Date;
     dateTo: Date;
     symbol: string;
+    accountId: string;
     side: 'LONG' | 'SHORT';
+    viewMode: PnlViewMode;
   }>
 ): Promise<{
   maxDrawdown: number;
@@ -137,13 +146,14 @@ export async function calculateDrawdownMetrics(
   recoveryTime: number | null; // days to recover from max drawdown
 }> {
   const filterConditions = buildFilterConditions(filters);
+  const pnlColumn = buildPnlColumn(filters);
   
   const result = await prisma.$queryRaw<Array<Record<string, unknown>>>`
     WITH cumulative_pnl AS (
       SELECT 
         exit_date,
-        SUM(pnl::NUMERIC) OVER (ORDER BY exit_date) as cum_pnl,
-        MAX(SUM(pnl::NUMERIC) OVER (ORDER BY exit_date)) 
+        SUM(${pnlColumn}::NUMERIC) OVER (ORDER BY exit_date) as cum_pnl,
+        MAX(SUM(${pnlColumn}::NUMERIC) OVER (ORDER BY exit_date)) 
           OVER (ORDER BY exit_date ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW) as running_max
       FROM trades
       WHERE 
@@ -208,8 +218,8 @@ export async function calculateDrawdownMetrics(
       FROM (
         SELECT 
           exit_date,
-          SUM(pnl::NUMERIC) OVER (ORDER BY exit_date) - 
-          MAX(SUM(pnl::NUMERIC) OVER (ORDER BY exit_date)) 
+          SUM(${pnlColumn}::NUMERIC) OVER (ORDER BY exit_date) - 
+          MAX(SUM(${pnlColumn}::NUMERIC) OVER (ORDER BY exit_date)) 
             OVER (ORDER BY exit_date ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW) as drawdown
         FROM trades
         WHERE 
@@ -226,7 +236,7 @@ export async function calculateDrawdownMetrics(
       FROM (
         SELECT 
           exit_date,
-          SUM(pnl::NUMERIC) OVER (ORDER BY exit_date) as cum_pnl
+          SUM(${pnlColumn}::NUMERIC) OVER (ORDER BY exit_date) as cum_pnl
         FROM trades
         WHERE 
           user_id = ${userId}
@@ -235,7 +245,7 @@ export async function calculateDrawdownMetrics(
           ${filterConditions}
       ) t
       WHERE cum_pnl >= (
-        SELECT MAX(SUM(pnl::NUMERIC) OVER (ORDER BY exit_date))
+        SELECT MAX(SUM(${pnlColumn}::NUMERIC) OVER (ORDER BY exit_date))
         FROM trades
         WHERE 
           user_id = ${userId}
@@ -271,7 +281,9 @@ export async function calculateRMultiples(
     dateFrom: Date;
     dateTo: Date;
     symbol: string;
+    accountId: string;
     side: 'LONG' | 'SHORT';
+    viewMode: PnlViewMode;
   }>
 ): Promise<{
   distribution: Array<{ rMultiple: string; count: number; totalPnl: number }>;
@@ -279,20 +291,21 @@ export async function calculateRMultiples(
   expectancy: number;
 }> {
   const filterConditions = buildFilterConditions(filters);
+  const pnlColumn = buildPnlColumn(filters);
   
   const result = await prisma.$queryRaw<Array<Record<string, unknown>>>`
     WITH r_multiples AS (
       SELECT 
-        pnl::NUMERIC / ${initialRisk} as r_multiple,
-        pnl::NUMERIC as pnl,
+        ${pnlColumn}::NUMERIC / ${initialRisk} as r_multiple,
+        ${pnlColumn}::NUMERIC as pnl,
         CASE 
-          WHEN pnl::NUMERIC / ${initialRisk} < -2 THEN '< -2R'
-          WHEN pnl::NUMERIC / ${initialRisk} < -1 THEN '-2R to -1R'
-          WHEN pnl::NUMERIC / ${initialRisk} < 0 THEN '-1R to 0R'
-          WHEN pnl::NUMERIC / ${initialRisk} < 1 THEN '0R to 1R'
-          WHEN pnl::NUMERIC / ${initialRisk} < 2 THEN '1R to 2R'
-          WHEN pnl::NUMERIC / ${initialRisk} < 3 THEN '2R to 3R'
-          WHEN pnl::NUMERIC / ${initialRisk} < 5 THEN '3R to 5R'
+          WHEN ${pnlColumn}::NUMERIC / ${initialRisk} < -2 THEN '< -2R'
+          WHEN ${pnlColumn}::NUMERIC / ${initialRisk} < -1 THEN '-2R to -1R'
+          WHEN ${pnlColumn}::NUMERIC / ${initialRisk} < 0 THEN '-1R to 0R'
+          WHEN ${pnlColumn}::NUMERIC / ${initialRisk} < 1 THEN '0R to 1R'
+          WHEN ${pnlColumn}::NUMERIC / ${initialRisk} < 2 THEN '1R to 2R'
+          WHEN ${pnlColumn}::NUMERIC / ${initialRisk} < 3 THEN '2R to 3R'
+          WHEN ${pnlColumn}::NUMERIC / ${initialRisk} < 5 THEN '3R to 5R'
           ELSE '> 5R'
         END as r_bucket
       FROM trades
@@ -323,8 +336,8 @@ export async function calculateRMultiples(
 
   const statsResult = await prisma.$queryRaw<Array<Record<string, unknown>>>`
     SELECT 
-      AVG(pnl::NUMERIC / ${initialRisk}) as avg_r_multiple,
-      SUM(pnl::NUMERIC / ${initialRisk}) / COUNT(*) as expectancy
+      AVG(${pnlColumn}::NUMERIC / ${initialRisk}) as avg_r_multiple,
+      SUM(${pnlColumn}::NUMERIC / ${initialRisk}) / COUNT(*) as expectancy
     FROM trades
     WHERE 
       user_id = ${userId}
@@ -355,10 +368,13 @@ export async function calculateMarketConditionPerformance(
     dateFrom: Date;
     dateTo: Date;
     symbol: string;
+    accountId: string;
     side: 'LONG' | 'SHORT';
+    viewMode: PnlViewMode;
   }>
 ) {
   const filterConditions = buildFilterConditions(filters);
+  const pnlColumn = buildPnlColumn(filters);
   
   // This would require market data integration
   // For now, we'll analyze by volatility of returns
@@ -366,11 +382,11 @@ export async function calculateMarketConditionPerformance(
     WITH daily_volatility AS (
       SELECT 
         DATE(exit_date) as trade_date,
-        STDDEV(pnl::NUMERIC) OVER (
+        STDDEV(${pnlColumn}::NUMERIC) OVER (
           ORDER BY DATE(exit_date) 
           ROWS BETWEEN 19 PRECEDING AND CURRENT ROW
         ) as rolling_volatility,
-        SUM(pnl::NUMERIC) as daily_pnl,
+        SUM(${pnlColumn}::NUMERIC) as daily_pnl,
         COUNT(*) as daily_trades
       FROM trades
       WHERE 
@@ -378,7 +394,7 @@ export async function calculateMarketConditionPerformance(
         AND status = 'CLOSED'
         AND exit_date IS NOT NULL
         ${filterConditions}
-      GROUP BY DATE(exit_date), exit_date, pnl
+      GROUP BY DATE(exit_date), exit_date, ${pnlColumn}
     ),
     volatility_buckets AS (
       SELECT 
@@ -428,17 +444,20 @@ export async function calculateTradeQualityMetrics(
     dateFrom: Date;
     dateTo: Date;
     symbol: string;
+    accountId: string;
     side: 'LONG' | 'SHORT';
+    viewMode: PnlViewMode;
   }>
 ) {
   const filterConditions = buildFilterConditions(filters);
+  const pnlColumn = buildPnlColumn(filters);
   
   // Note: This requires high/low during trade data
   // Using available data for approximation
   const result = await prisma.$queryRaw<Array<Record<string, unknown>>>`
     WITH trade_quality AS (
       SELECT 
-        pnl::NUMERIC as pnl,
+        ${pnlColumn}::NUMERIC as pnl,
         CASE 
           WHEN side = 'LONG' THEN 
             GREATEST(0, (high_during_trade - avg_entry_price) * quantity)
@@ -486,6 +505,13 @@ export async function calculateTradeQualityMetrics(
   };
 }
 
+/**
+ * Helper function to pick the trade P&L column (gross or net of commission/fees) for raw SQL
+ */
+function buildPnlColumn(filters?: Partial<{ viewMode: PnlViewMode }>): Prisma.Sql {
+  return Prisma.raw(filters?.viewMode === 'net' ? '"netPnl"' : '"pnl"');
+}
+
 /**
  * Helper function to build filter conditions for raw SQL
  */
@@ -493,6 +519,7 @@ function buildFilterConditions(filters?: Partial<{
   dateFrom: Date;
   dateTo: Date;
   symbol: string;
+  accountId: string;
   side: 'LONG' | 'SHORT';
   tags: string[];
   duration: 'all' | 'intraday' | 'swing';
@@ -514,6 +541,11 @@ function buildFilterConditions(filters?: Partial<{
     conditions.push(Prisma.sql`AND "symbol" = ${filters.symbol}`);
   }
   
+  // Account filter
+  if (filters.accountId && filters.accountId !== 'all') {
+    conditions.push(Prisma.sql`AND "tradingAccountId" = ${filters.accountId}`);
+  }
+  
   // Side filter
   if (filters.side) {
     conditions.push(Prisma.sql`AND "side" = ${filters.side}`);
@@ -547,23 +579,26 @@ export async function calculateDashboardMetrics(
     dateFrom: Date;
     dateTo: Date;
     symbol: string;
+    accountId: string;
     side: 'LONG' | 'SHORT';
+    viewMode: PnlViewMode;
   }>
 ) {
   const filterConditions = buildFilterConditions(filters);
+  const pnlColumn = buildPnlColumn(filters);
   
   const result = await prisma.$queryRaw<Array<Record<string, unknown>>>`
     WITH trade_metrics AS (
       SELECT 
-        pnl::NUMERIC as pnl,
+        ${pnlColumn}::NUMERIC as pnl,
         exit_date,
         symbol,
         side,
         time_in_trade,
         quantity,
         CASE 
-          WHEN pnl > 0 THEN 'win'
-          WHEN pnl < 0 THEN 'loss'
+          WHEN ${pnlColumn} > 0 THEN 'win'
+          WHEN ${pnlColumn} < 0 THEN 'loss'
           ELSE 'scratch'
         END as outcome
       FROM trades
@@ -588,7 +623,7 @@ export async function calculateDashboardMetrics(
         SUM(pnl) FILTER (WHERE outcome = 'win') as gross_profit,
         SUM(ABS(pnl)) FILTER (WHERE outcome = 'loss') as gross_loss,
         AVG(time_in_trade) as avg_hold_time,
-        SUM(quantity) as total_volume
+        SUM(quantity)::FLOAT as total_volume
       FROM trade_metrics
     ),
     daily_stats AS (
@@ -644,13 +679,16 @@ export async function calculatePerformanceByDayOfWeek(
     dateFrom: Date;
     dateTo: Date;
     symbol: string;
+    accountId: string;
     side: 'LONG' | 'SHORT';
+    viewMode: PnlViewMode;
     tags: string[];
     duration: 'all' | 'intraday' | 'swing';
     showOpenTrades: boolean;
   }>
 ) {
   const filterConditions = buildFilterConditions(filters);
+  const pnlColumn = buildPnlColumn(filters);
   const statusFilter = filters?.showOpenTrades 
     ? Prisma.sql`` 
     : Prisma.sql`AND "status" = 'CLOSED'`;
@@ -669,10 +707,10 @@ export async function calculatePerformanceByDayOfWeek(
           WHEN 6 THEN 'Saturday'
         END as day_name,
         COUNT(*) as trades,
-        SUM("pnl"::NUMERIC) as total_pnl,
-        AVG("pnl"::NUMERIC) as avg_pnl,
-        COUNT(*) FILTER (WHERE "pnl" > 0) as wins,
-        COUNT(*) FILTER (WHERE "pnl" < 0) as losses
+        SUM(${pnlColumn}::NUMERIC) as total_pnl,
+        AVG(${pnlColumn}::NUMERIC) as avg_pnl,
+        COUNT(*) FILTER (WHERE ${pnlColumn} > 0) as wins,
+        COUNT(*) FILTER (WHERE ${pnlColumn} < 0) as losses
       FROM "trades"
       WHERE 
         "userId" = ${userId}
@@ -717,13 +755,16 @@ export async function calculatePerformanceByMonthOfYear(
     dateFrom: Date;
     dateTo: Date;
     symbol: string;
+    accountId: string;
     side: 'LONG' | 'SHORT';
+    viewMode: PnlViewMode;
     tags: string[];
     duration: 'all' | 'intraday' | 'swing';
     showOpenTrades: boolean;
   }>
 ) {
   const filterConditions = buildFilterConditions(filters);
+  const pnlColumn = buildPnlColumn(filters);
   const statusFilter = filters?.showOpenTrades 
     ? Prisma.sql`` 
     : Prisma.sql`AND "status" = 'CLOSED'`;
@@ -734,10 +775,10 @@ export async function calculatePerformanceByMonthOfYear(
         EXTRACT(MONTH FROM "date") as month_num,
         TO_CHAR("date", 'Mon') as month_name,
         COUNT(*) as trades,
-        SUM("pnl"::NUMERIC) as total_pnl,
-        AVG("pnl"::NUMERIC) as avg_pnl,
-        COUNT(*) FILTER (WHERE "pnl" > 0) as wins,
-        COUNT(*) FILTER (WHERE "pnl" < 0) as losses
+        SUM(${pnlColumn}::NUMERIC) as total_pnl,
+        AVG(${pnlColumn}::NUMERIC) as avg_pnl,
+        COUNT(*) FILTER (WHERE ${pnlColumn} > 0) as wins,
+        COUNT(*) FILTER (WHERE ${pnlColumn} < 0) as losses
       FROM "trades"
       WHERE 
         "userId" = ${userId}
@@ -801,28 +842,31 @@ export async function calculateHoldTimeStatistics(
     dateFrom: Date;
     dateTo: Date;
     symbol: string;
+    accountId: string;
     side: 'LONG' | 'SHORT';
+    viewMode: PnlViewMode;
     tags: string[];
     duration: 'all' | 'intraday' | 'swing';
     showOpenTrades: boolean;
   }>
 ) {
   const filterConditions = buildFilterConditions(filters);
+  const pnlColumn = buildPnlColumn(filters);
   const statusFilter = filters?.showOpenTrades 
     ? Prisma.sql`` 
     : Prisma.sql`AND "status" = 'CLOSED'`;
   
   const result = await prisma.$queryRaw<Array<Record<string, unknown>>>`
     SELECT 
-      AVG("timeInTrade") FILTER (WHERE "pnl" > 0) as avg_hold_time_winning,
-      AVG("timeInTrade") FILTER (WHERE "pnl" < 0) as avg_hold_time_losing,
+      AVG("timeInTrade") FILTER (WHERE ${pnlColumn} > 0) as avg_hold_time_winning,
+      AVG("timeInTrade") FILTER (WHERE ${pnlColumn} < 0) as avg_hold_time_losing,
       AVG("timeInTrade") as avg_hold_time_overall,
-      PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY "timeInTrade") FILTER (WHERE "pnl" > 0) as median_hold_time_winning,
-      PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY "timeInTrade") FILTER (WHERE "pnl" < 0) as median_hold_time_losing,
-      MAX("timeInTrade") FILTER (WHERE "pnl" > 0) as max_hold_time_winning,
-      MAX("timeInTrade") FILTER (WHERE "pnl" < 0) as max_hold_time_losing,
-      MIN("timeInTrade") FILTER (WHERE "pnl" > 0) as min_hold_time_winning,
-      MIN("timeInTrade") FILTER (WHERE "pnl" < 0) as min_hold_time_losing
+      PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY "timeInTrade") FILTER (WHERE ${pnlColumn} > 0) as median_hold_time_winning,
+      PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY "timeInTrade") FILTER (WHERE ${pnlColumn} < 0) as median_hold_time_losing,
+      MAX("timeInTrade") FILTER (WHERE ${pnlColumn} > 0) as max_hold_time_winning,
+      MAX("timeInTrade") FILTER (WHERE ${pnlColumn} < 0) as max_hold_time_losing,
+      MIN("timeInTrade") FILTER (WHERE ${pnlColumn} > 0) as min_hold_time_winning,
+      MIN("timeInTrade") FILTER (WHERE ${pnlColumn} < 0) as min_hold_time_losing
     FROM "trades"
     WHERE 
       "userId" = ${userId}
@@ -855,23 +899,26 @@ export async function calculateLargestGainLoss(
     dateFrom: Date;
     dateTo: Date;
     symbol: string;
+    accountId: string;
     side: 'LONG' | 'SHORT';
+    viewMode: PnlViewMode;
     tags: string[];
     duration: 'all' | 'intraday' | 'swing';
     showOpenTrades: boolean;
   }>
 ) {
   const filterConditions = buildFilterConditions(filters);
+  const pnlColumn = buildPnlColumn(filters);
   const statusFilter = filters?.showOpenTrades 
     ? Prisma.sql`` 
     : Prisma.sql`AND "status" = 'CLOSED'`;
   
   const result = await prisma.$queryRaw<Array<Record<string, unknown>>>`
     SELECT 
-      MAX("pnl"::NUMERIC) FILTER (WHERE "pnl"::NUMERIC > 0) as largest_gain,
-      MIN("pnl"::NUMERIC) FILTER (WHERE "pnl"::NUMERIC < 0) as largest_loss,
-      MAX("pnl"::NUMERIC) FILTER (WHERE "pnl"::NUMERIC > 0 AND "date" >= CURRENT_DATE - INTERVAL '30 days') as largest_gain_30d,
-      MIN("pnl"::NUMERIC) FILTER (WHERE "pnl"::NUMERIC < 0 AND "date" >= CURRENT_DATE - INTERVAL '30 days') as largest_loss_30d
+      MAX(${pnlColumn}::NUMERIC) FILTER (WHERE ${pnlColumn}::NUMERIC > 0) as largest_gain,
+      MIN(${pnlColumn}::NUMERIC) FILTER (WHERE ${pnlColumn}::NUMERIC < 0) as largest_loss,
+      MAX(${pnlColumn}::NUMERIC) FILTER (WHERE ${pnlColumn}::NUMERIC > 0 AND "date" >= CURRENT_DATE - INTERVAL '30 days') as largest_gain_30d,
+      MIN(${pnlColumn}::NUMERIC) FILTER (WHERE ${pnlColumn}::NUMERIC < 0 AND "date" >= CURRENT_DATE - INTERVAL '30 days') as largest_loss_30d
     FROM "trades"
     WHERE 
       "userId" = ${userId}
@@ -898,13 +945,16 @@ export async function calculatePerformanceByDuration(
     dateFrom: Date;
     dateTo: Date;
     symbol: string;
+    accountId: string;
     side: 'LONG' | 'SHORT';
+    viewMode: PnlViewMode;
     tags: string[];
     duration: 'all' | 'intraday' | 'swing';
     showOpenTrades: boolean;
   }>
 ) {
   const filterConditions = buildFilterConditions(filters);
+  const pnlColumn = buildPnlColumn(filters);
   const statusFilter = filters?.showOpenTrades 
     ? Prisma.sql`` 
     : Prisma.sql`AND "status" = 'CLOSED'`;
@@ -918,10 +968,10 @@ export async function calculatePerformanceByDuration(
           ELSE 'Other'
         END as duration_category,
         COUNT(*) as trades,
-        SUM("pnl"::NUMERIC) as total_pnl,
-        AVG("pnl"::NUMERIC) as avg_pnl,
-        COUNT(*) FILTER (WHERE "pnl" > 0) as wins,
-        COUNT(*) FILTER (WHERE "pnl" < 0) as losses,
+        SUM(${pnlColumn}::NUMERIC) as total_pnl,
+        AVG(${pnlColumn}::NUMERIC) as avg_pnl,
+        COUNT(*) FILTER (WHERE ${pnlColumn} > 0) as wins,
+        COUNT(*) FILTER (WHERE ${pnlColumn} < 0) as losses,
         AVG("timeInTrade") as avg_hold_time
       FROM "trades"
       WHERE 
@@ -1,17 +1,45 @@
-import { Order, OrderSide, TradeSide, TradeStatus, HoldingPeriod } from '@prisma/client';
-import { ordersRepo } from './repositories/ordersRepo';
-import { tradesRepo, CreateTradeData } from './repositories/tradesRepo';
+import { Order, OrderSide, Trade, TradeSide, TradeStatus, HoldingPeriod, AssetClass, LotMatchingMethod, CorporateActionType, TradeGroupingMode } from '@prisma/client';
+import { ordersRepo, OrdersRepository } from './repositories/ordersRepo';
+import { tradesRepo, CreateTradeData, TradesRepository } from './repositories/tradesRepo';
+import { tradeLotsRepo } from './repositories/tradeLotsRepo';
+import { accountsRepo } from './repositories/accountsRepo';
+import { optionStrategiesRepo } from './repositories/optionStrategiesRepo';
+import { corporateActionsRepo, CorporateActionsRepository } from './repositories/corporateActionsRepo';
+import { fxRatesRepo } from './repositories/fxRatesRepo';
+import { cashActivitiesRepo } from './repositories/cashActivitiesRepo';
 import { Decimal } from '@prisma/client/runtime/library';
+import {
+  FuturesContractSpec,
+  getFuturesContractSpec,
+  getFuturesMarketSession,
+  calculateFuturesPnlMeasures
+} from './futuresContracts';
+import { roundQuantity, toQuantity } from './precision';
+import { sumOrderCosts, calculateNetPnl } from './tradeFees';
+import { convertMoney, ConvertibleMoney, DEFAULT_BASE_CURRENCY, normalizeCurrency } from './currency';
+import { PositionLot, ClosedLot, matchLots, DEFAULT_LOT_MATCHING_METHOD } from './lotMatching';
+import {
+  TradeGroupingSettings,
+  DEFAULT_TRADE_GROUPING,
+  canMergeReopen,
+  getMergeWindowMs,
+  planEntrySplits
+} from './tradeGrouping';
 
 export interface OpenPosition {
   symbol: string;
   side: TradeSide;
   brokerId: string | null; // Broker ID to ensure trades from different brokers are tracked separately
+  tradingAccountId: string | null; // Managed account, so two accounts at the same broker never net
   openQuantity: number;
-  totalCostBasis: number;
+  entryQuantity: number; // Every entry fill, used for the reported average entry price
+  entryCost: number;
+  lots: PositionLot[]; // Entry lots still open, matched by the user's lot matching method
+  closedLots: ClosedLot[]; // Closing records produced so far
   openTime: Date;
   orderIds: string[];
   existingTradeId?: string; // Track if this position came from an existing trade
+  multiplier: number; // Contract multiplier (100 for standard options, 1 for shares)
 }
 
 export interface ProcessedTrade {
@@ -27,18 +55,59 @@ export interface ProcessedTrade {
   closeQuantity?: number;
   pnl: number;
   ordersInTrade: string[];
+  multiplier: number;
+  closedLots: ClosedLot[];
+}
+
+/**
+ * The stored orders and trades a build reads and changes before it saves anything
+ * The repositories by default; import previews build over an in-memory TradeSandbox instead
+ */
+export type TradeBuilderStore =
+  Pick<OrdersRepository,
+    'getUnprocessedOrders' | 'getOrdersByIds' | 'getTradeIdsExecutedSince' | 'getShareSymbols' |
+    'unwindTrades' | 'splitOrder' | 'updateOrderSide'>
+  & Pick<TradesRepository, 'getAllOpenTrades'>
+  & Pick<CorporateActionsRepository, 'getPendingTradeIds' | 'restateOrders'>;
+
+const repositoryStore: TradeBuilderStore = {
+  getUnprocessedOrders: userId => ordersRepo.getUnprocessedOrders(userId),
+  getOrdersByIds: orderIds => ordersRepo.getOrdersByIds(orderIds),
+  getTradeIdsExecutedSince: (userId, scope, since) => ordersRepo.getTradeIdsExecutedSince(userId, scope, since),
+  getShareSymbols: userId => ordersRepo.getShareSymbols(userId),
+  unwindTrades: (userId, tradeIds) => ordersRepo.unwindTrades(userId, tradeIds),
+  splitOrder: (orderId, quantity1, quantity2) => ordersRepo.splitOrder(orderId, quantity1, quantity2),
+  updateOrderSide: (orderId, side) => ordersRepo.updateOrderSide(orderId, side),
+  getAllOpenTrades: userId => tradesRepo.getAllOpenTrades(userId),
+  getPendingTradeIds: (userId, action) => corporateActionsRepo.getPendingTradeIds(userId, action),
+  restateOrders: (userId, action) => corporateActionsRepo.restateOrders(userId, action),
+};
+
+interface TradeAnnotations {
+  notes: string | null;
+  tags: string[];
 }
 
 export class TradeBuilder {
   private openPositions: Map<string, OpenPosition> = new Map();
   private newTrades: ProcessedTrade[] = [];
+  private unwoundAnnotations: Map<string, TradeAnnotations> = new Map(); // Notes/tags of trades unwound for a rebuild
+  private recentlyClosed: Map<string, { trade: ProcessedTrade; position: OpenPosition }> = new Map(); // Time-merged reopen candidates
+  private baseCurrency?: string;
+  private accountCurrencies?: Map<string, string>;
+
+  constructor(
+    private lotMatchingMethod: LotMatchingMethod = DEFAULT_LOT_MATCHING_METHOD,
+    private grouping: TradeGroupingSettings = DEFAULT_TRADE_GROUPING,
+    private store: TradeBuilderStore = repositoryStore
+  ) {}
 
   /**
    * Calculate total quantity across all orders in a trade
    */
   private async calculateTotalQuantity(orderIds: string[]): Promise<number> {
-    const orders = await ordersRepo.getOrdersByIds(orderIds);
-    return orders.reduce((total, order) => total + order.orderQuantity, 0);
+    const orders = await this.store.getOrdersByIds(orderIds);
+    return roundQuantity(orders.reduce((total, order) => total + toQuantity(order.orderQuantity), 0));
   }
 
   /**
@@ -54,32 +123,43 @@ export class TradeBuilder {
    */
   private async calculateAvgExitPrice(orderIds: string[], tradeSide: TradeSide): Promise<number | undefined> {
     const exitSide = tradeSide === TradeSide.LONG ? 'SELL' : 'BUY';
-    const orders = await ordersRepo.getOrdersByIds(orderIds);
+    const orders = await this.store.getOrdersByIds(orderIds);
     const exitOrders = orders.filter(order => order.side === exitSide && order.limitPrice);
 
     if (exitOrders.length === 0) return undefined;
 
-    const totalQuantity = exitOrders.reduce((sum, order) => sum + order.orderQuantity, 0);
+    const totalQuantity = exitOrders.reduce((sum, order) => sum + toQuantity(order.orderQuantity), 0);
     const weightedSum = exitOrders.reduce((sum, order) =>
-      sum + (order.orderQuantity * Number(order.limitPrice || 0)), 0);
+      sum + (toQuantity(order.orderQuantity) * Number(order.limitPrice || 0)), 0);
 
     return weightedSum / totalQuantity;
   }
 
+  /**
+   * When a closed trade closed: the execution time of its last closing order
+   */
+  private calculateCloseTime(orders: Order[], tradeSide: TradeSide): Date | undefined {
+    const exitSide = tradeSide === TradeSide.LONG ? OrderSide.SELL : OrderSide.BUY;
+    return orders
+      .filter(order => order.side === exitSide && order.orderExecutedTime)
+      .map(order => order.orderExecutedTime!)
+      .reduce<Date | undefined>((latest, time) => (!latest || time > latest ? time : latest), undefined);
+  }
+
   /**
    * Calculate remaining quantity for open trades
    */
   private async calculateRemainingQuantity(orderIds: string[], tradeSide: TradeSide): Promise<number> {
-    const orders = await ordersRepo.getOrdersByIds(orderIds);
+    const orders = await this.store.getOrdersByIds(orderIds);
     const entryQuantity = orders
       .filter(order => order.side === (tradeSide === TradeSide.LONG ? 'BUY' : 'SELL'))
-      .reduce((sum, order) => sum + order.orderQuantity, 0);
+      .reduce((sum, order) => sum + toQuantity(order.orderQuantity), 0);
     
     const exitQuantity = orders
       .filter(order => order.side === (tradeSide === TradeSide.LONG ? 'SELL' : 'BUY'))
-      .reduce((sum, order) => sum + order.orderQuantity, 0);
+      .reduce((sum, order) => sum + toQuantity(order.orderQuantity), 0);
     
-    return entryQuantity - exitQuantity;
+    return roundQuantity(entryQuantity - exitQuantity);
   }
 
   /**
@@ -89,37 +169,42 @@ export class TradeBuilder {
     orderIds: string[],
     tradeSide: TradeSide
   ): Promise<{openQuantity: number, closeQuantity: number}> {
-    const orders = await ordersRepo.getOrdersByIds(orderIds);
+    const orders = await this.store.getOrdersByIds(orderIds);
 
     if (tradeSide === TradeSide.LONG) {
       // For LONG trades: BUY orders open, SELL orders close
       const openQuantity = orders
         .filter(order => order.side === 'BUY')
-        .reduce((sum, order) => sum + order.orderQuantity, 0);
+        .reduce((sum, order) => sum + toQuantity(order.orderQuantity), 0);
 
       const closeQuantity = orders
         .filter(order => order.side === 'SELL')
-        .reduce((sum, order) => sum + order.orderQuantity, 0);
+        .reduce((sum, order) => sum + toQuantity(order.orderQuantity), 0);
 
-      return { openQuantity, closeQuantity };
+      return { openQuantity: roundQuantity(openQuantity), closeQuantity: roundQuantity(closeQuantity) };
     } else {
       // For SHORT trades: SELL orders open, BUY orders close
       const openQuantity = orders
         .filter(order => order.side === 'SELL')
-        .reduce((sum, order) => sum + order.orderQuantity, 0);
+        .reduce((sum, order) => sum + toQuantity(order.orderQuantity), 0);
 
       const closeQuantity = orders
         .filter(order => order.side === 'BUY')
-        .reduce((sum, order) => sum + order.orderQuantity, 0);
+        .reduce((sum, order) => sum + toQuantity(order.orderQuantity), 0);
 
-      return { openQuantity, closeQuantity };
+      return { openQuantity: roundQuantity(openQuantity), closeQuantity: roundQuantity(closeQuantity) };
     }
   }
 
   /**
    * Calculate market session based on first order time
+   * Futures use the regular trading hours from their contract spec
    */
-  private calculateMarketSession(openTime: Date): string {
+  private calculateMarketSession(openTime: Date, futuresSpec?: FuturesContractSpec | null): string {
+    if (futuresSpec) {
+      return getFuturesMarketSession(futuresSpec, openTime);
+    }
+
     const hour = openTime.getHours();
     const minute = openTime.getMinutes();
     const timeInMinutes = hour * 60 + minute;
@@ -159,27 +244,163 @@ export class TradeBuilder {
   }
 
   /**
-   * Generate position key that includes brokerId
-   * This ensures trades from different brokers are tracked separately
+   * Realized P&L in dollars across the position's closing records
+   * Lot P&L is scaled by the contract multiplier so option/futures P&L is per contract, not per point
+   */
+  private calculateRealizedPnl(position: OpenPosition): number {
+    return Math.round(position.closedLots.reduce((sum, lot) => sum + lot.pnl, 0) * 100) / 100;
+  }
+
+  /**
+   * Average price across every entry fill of the position
+   */
+  private calculateAvgEntryPrice(position: OpenPosition): number {
+    return position.entryQuantity > 0 ? position.entryCost / position.entryQuantity : 0;
+  }
+
+  /**
+   * Open a lot for an entry fill
+   */
+  private addLot(position: OpenPosition, quantity: number, price: number, openTime: Date, orderId: string): void {
+    position.lots.push({ orderId, quantity, price, openTime });
+    position.openQuantity = roundQuantity(position.openQuantity + quantity);
+    position.entryQuantity = roundQuantity(position.entryQuantity + quantity);
+    position.entryCost += quantity * price;
+  }
+
+  /**
+   * Match an exit fill against the open lots and record the closing slices
+   */
+  private closeLots(position: OpenPosition, quantity: number, price: number, closeTime: Date, orderId: string): void {
+    const { closedLots, remainingLots } = matchLots(
+      position.lots,
+      { orderId, quantity, price, time: closeTime },
+      this.lotMatchingMethod,
+      position.side,
+      position.multiplier
+    );
+
+    position.lots = remainingLots;
+    position.closedLots.push(...closedLots);
+    position.openQuantity = roundQuantity(position.openQuantity - quantity);
+  }
+
+  /**
+   * Contract multiplier for an order
+   * Futures fall back to the registry point value when the order was stored without one
+   */
+  private getContractMultiplier(order: Order): number {
+    const multiplier = Number(order.contractMultiplier ?? 1) || 1;
+    if (order.assetClass === AssetClass.FUTURES && multiplier === 1) {
+      return getFuturesContractSpec(order.symbol)?.pointValue ?? multiplier;
+    }
+    return multiplier;
+  }
+
+  /**
+   * Contract spec for futures trades (null for every other asset class)
    */
-  private getPositionKey(symbol: string, brokerId: string | null): string {
-    return brokerId ? `${symbol}-${brokerId}` : `${symbol}-unknown`;
+  private getFuturesSpec(symbol: string, assetClass?: AssetClass | null): FuturesContractSpec | null {
+    return assetClass === AssetClass.FUTURES ? getFuturesContractSpec(symbol) : null;
+  }
+
+  /**
+   * P&L in points and ticks for closed futures trades
+   */
+  private calculateFuturesMeasures(
+    futuresSpec: FuturesContractSpec | null,
+    side: TradeSide,
+    status: TradeStatus,
+    avgEntryPrice?: number,
+    avgExitPrice?: number
+  ): { pnlPoints?: number; pnlTicks?: number } {
+    if (!futuresSpec || status !== TradeStatus.CLOSED || avgEntryPrice === undefined || avgExitPrice === undefined) {
+      return {};
+    }
+    return calculateFuturesPnlMeasures(futuresSpec, side, avgEntryPrice, avgExitPrice);
+  }
+
+  /**
+   * Generate position key that includes brokerId and account
+   * This ensures trades from different brokers and accounts are tracked separately
+   */
+  private getPositionKey(symbol: string, brokerId: string | null, tradingAccountId: string | null): string {
+    const brokerKey = brokerId ? `${symbol}-${brokerId}` : `${symbol}-unknown`;
+    return tradingAccountId ? `${brokerKey}-${tradingAccountId}` : brokerKey;
   }
 
   /**
    * Main function to process user orders and create trades
    */
   async processUserOrders(userId: string): Promise<ProcessedTrade[]> {
+    this.resetState();
+    return this.buildTrades(userId);
+  }
+
+  /**
+   * Build trades and return what saving them would store, without saving them
+   * Meant for a TradeSandbox store: the build then starts from no stored trades and only changes the
+   * sandbox's copies of the orders. Import previews use it.
+   */
+  async buildTradeData(userId: string): Promise<CreateTradeData[]> {
+    const trades = await this.processUserOrders(userId);
+
+    const tradeData: CreateTradeData[] = [];
+    for (const trade of trades) {
+      tradeData.push(await this.toTradeData(userId, trade));
+    }
+    return tradeData;
+  }
+
+  /**
+   * Unwind every calculated trade and build them again, e.g. after the grouping settings change
+   * Trade boundaries move, so notes and tags carry over to rebuilt trades that open at the same time
+   */
+  async rebuildTrades(userId: string): Promise<ProcessedTrade[]> {
+    this.resetState();
+
+    const trades = await tradesRepo.getAllCalculatedTrades(userId);
+    this.rememberAnnotations(await this.store.unwindTrades(userId, trades.map(trade => trade.id)));
+
+    return this.buildTrades(userId);
+  }
+
+  /**
+   * Unwind trades, apply a change to their orders and build them again
+   * Used when executions are edited or deleted by hand. The released orders are unprocessed again,
+   * so the back-dated order check also rebuilds the later trades of each position they touch.
+   */
+  async rebuildAfterOrderChange<T>(userId: string, tradeIds: string[], applyChange: () => Promise<T>): Promise<T> {
+    this.resetState();
+    this.rememberAnnotations(await this.store.unwindTrades(userId, tradeIds));
+
+    try {
+      return await applyChange();
+    } finally {
+      // A change that fails leaves the orders as they were; their trades are rebuilt either way
+      await this.buildTrades(userId);
+    }
+  }
+
+  private resetState(): void {
     this.openPositions.clear();
     this.newTrades = [];
+    this.unwoundAnnotations.clear();
+    this.recentlyClosed.clear();
+  }
 
-    // Load existing open positions
-    await this.loadExistingOpenPositions(userId);
+  private async buildTrades(userId: string): Promise<ProcessedTrade[]> {
+    // Restate orders held across splits and ticker changes before anything is matched
+    await this.applyCorporateActions(userId);
 
-    // Get unprocessed orders
-    const orders = await ordersRepo.getUnprocessedOrders(userId);
-    
+    // Get unprocessed orders; back-dated orders unwind the trades they land inside of first
+    let orders = await this.store.getUnprocessedOrders(userId);
+    if (await this.unwindBackdatedTrades(userId, orders)) {
+      orders = await this.store.getUnprocessedOrders(userId);
+    }
 
+    // Load existing open positions
+    await this.loadExistingOpenPositions(userId);
 
     // Process each order in chronological order
     for (const order of orders) {
@@ -187,23 +408,124 @@ export class TradeBuilder {
     }
 
     // Create trades for any remaining open positions
-    await this.createTradesForOpenPositions();
+    await this.createTradesForOpenPositions(userId);
 
 
     return this.newTrades;
   }
 
+  /**
+   * Unwind the trades that back-dated orders fall before or inside of
+   * For each position the earliest new execution marks where the stored trades stop being valid;
+   * every trade with an execution from that point on is unwound (split orders merged back) and its
+   * orders are rebuilt with the new ones, so the result matches a clean recalculation.
+   * Returns true when any trade was unwound.
+   */
+  private async unwindBackdatedTrades(userId: string, orders: Order[]): Promise<boolean> {
+    // Orders arrive sorted by execution time, so the first order seen per position is the earliest
+    const earliestByPosition = new Map<string, Order>();
+    for (const order of orders) {
+      // Orders processOrder would skip never change a position
+      if (!order.orderExecutedTime || (!order.limitPrice && !order.optionEvent)) continue;
+      const positionKey = this.getPositionKey(order.symbol, order.brokerId, order.tradingAccountId);
+      if (!earliestByPosition.has(positionKey)) {
+        earliestByPosition.set(positionKey, order);
+      }
+    }
+
+    // Time-merged grouping can join a new execution to a trade that closed just before it
+    const mergeWindowMs = getMergeWindowMs(this.grouping);
+    const tradeIds = new Set<string>();
+    for (const order of earliestByPosition.values()) {
+      const affected = await this.store.getTradeIdsExecutedSince(
+        userId,
+        { symbol: order.symbol, brokerId: order.brokerId, tradingAccountId: order.tradingAccountId },
+        new Date(order.orderExecutedTime!.getTime() - mergeWindowMs)
+      );
+      affected.forEach(tradeId => tradeIds.add(tradeId));
+    }
+
+    if (tradeIds.size === 0) return false;
+
+    const unwoundTrades = await this.store.unwindTrades(userId, Array.from(tradeIds));
+    this.rememberAnnotations(unwoundTrades);
+
+    console.log(`[TRADE BUILDER] Unwound ${unwoundTrades.length} trades for back-dated orders`, {
+      positions: earliestByPosition.size,
+    });
+    return unwoundTrades.length > 0;
+  }
+
+  /**
+   * Restate orders held across splits, reverse splits and ticker changes onto the post-action basis
+   * Trades holding orders from before an action are unwound first, so their orders are restated
+   * together and rebuilt, whenever the action was added. Actions are applied in date order and a ticker
+   * change carries the position onto the new symbol's later actions.
+   * Returns the number of orders restated.
+   */
+  private async applyCorporateActions(userId: string): Promise<number> {
+    const actions = await corporateActionsRepo.getCorporateActions();
+    if (actions.length === 0) return 0;
+
+    const symbols = new Set(await this.store.getShareSymbols(userId));
+    let restated = 0;
+
+    for (const action of actions) {
+      if (!symbols.has(action.symbol)) continue;
+      const renamedTo = action.actionType === CorporateActionType.SYMBOL_CHANGE ? action.newSymbol : null;
+      if (renamedTo) symbols.add(renamedTo);
+
+      const tradeIds = await this.store.getPendingTradeIds(userId, action);
+      if (tradeIds.length > 0) {
+        // Rebuilt trades carry the new ticker, so their annotations are keyed by it
+        this.rememberAnnotations(await this.store.unwindTrades(userId, tradeIds), renamedTo ?? undefined);
+      }
+      restated += await this.store.restateOrders(userId, action);
+    }
+
+    if (restated > 0) {
+      console.log(`[TRADE BUILDER] Restated ${restated} orders for corporate actions`);
+    }
+    return restated;
+  }
+
+  /**
+   * Keep the notes and tags of unwound trades so the rebuilt trades get them back
+   */
+  private rememberAnnotations(unwoundTrades: Trade[], symbol?: string): void {
+    for (const trade of unwoundTrades) {
+      if (!trade.notes && trade.tags.length === 0) continue;
+      this.unwoundAnnotations.set(
+        this.getAnnotationKey(symbol ?? trade.symbol, trade.brokerId, trade.tradingAccountId, trade.side, trade.openTime || trade.entryDate),
+        { notes: trade.notes, tags: trade.tags }
+      );
+    }
+  }
+
+  /**
+   * Identify a trade across a rebuild: the same position opened at the same time on the same side
+   */
+  private getAnnotationKey(
+    symbol: string,
+    brokerId: string | null,
+    tradingAccountId: string | null,
+    side: TradeSide,
+    openTime: Date
+  ): string {
+    return `${this.getPositionKey(symbol, brokerId, tradingAccountId)}|${side}|${openTime.getTime()}`;
+  }
+
   /**
    * Update an existing trade with new orders from the current position
    */
-  private async updateExistingTrade(position: OpenPosition): Promise<void> {
+  private async updateExistingTrade(position: OpenPosition, userId: string): Promise<void> {
     if (!position.existingTradeId) {
       console.warn('[TRADE BUILDER] Cannot update trade: no existingTradeId');
       return;
     }
 
     // Recalculate all metrics based on updated position
-    const avgEntryPrice = position.totalCostBasis / position.openQuantity;
+    const avgEntryPrice = this.calculateAvgEntryPrice(position);
     const avgExitPrice = await this.calculateAvgExitPrice(position.orderIds, position.side);
     const { openQuantity, closeQuantity } = await this.calculateOpenCloseQuantities(
       position.orderIds,
@@ -212,26 +534,34 @@ export class TradeBuilder {
     const remainingQuantity = await this.calculateRemainingQuantity(position.orderIds, position.side);
     const totalQuantity = await this.calculateTotalQuantity(position.orderIds);
     const timeInTrade = this.calculateTimeInTrade(position.openTime);
-    const marketSession = this.calculateMarketSession(position.openTime);
     const holdingPeriod = this.calculateHoldingPeriod(position.openTime, undefined);
 
     // Determine if trade should be OPEN or CLOSED based on remaining quantity
     const status = remainingQuantity === 0 ? TradeStatus.CLOSED : TradeStatus.OPEN;
 
-    // Calculate P&L for closed trades
-    let pnl = 0;
-    if (status === TradeStatus.CLOSED && avgExitPrice) {
-      pnl = position.side === TradeSide.LONG
-        ? Math.round(((avgExitPrice - avgEntryPrice) * closeQuantity) * 100) / 100
-        : Math.round(((avgEntryPrice - avgExitPrice) * closeQuantity) * 100) / 100;
-    }
+    // Calculate P&L for closed trades (an exit price of 0 is valid for expired options)
+    const pnl = status === TradeStatus.CLOSED ? this.calculateRealizedPnl(position) : 0;
 
-    const costBasis = avgEntryPrice * openQuantity;
-    const proceeds = avgExitPrice && closeQuantity ? avgExitPrice * closeQuantity : undefined;
+    const costBasis = avgEntryPrice * openQuantity * position.multiplier;
+    const proceeds = avgExitPrice !== undefined && closeQuantity
+      ? avgExitPrice * closeQuantity * position.multiplier
+      : undefined;
 
     // Get importBatchId from the orders in this trade
-    const orders = await ordersRepo.getOrdersByIds(position.orderIds);
+    const orders = await this.store.getOrdersByIds(position.orderIds);
     const importBatchId = orders.find(o => o.importBatchId)?.importBatchId ?? undefined;
+    const futuresSpec = this.getFuturesSpec(position.symbol, orders.find(o => o.assetClass)?.assetClass);
+    const marketSession = this.calculateMarketSession(position.openTime, futuresSpec);
+    const { commission, fees } = sumOrderCosts(orders);
+    // Rates are looked up for the day the trade closed, which back-dated imports place in the past
+    const closeTime = status === TradeStatus.CLOSED ? this.calculateCloseTime(orders, position.side) : undefined;
+    const money = await this.convertToBaseCurrency(
+      userId,
+      orders,
+      position.tradingAccountId,
+      closeTime,
+      { pnl, netPnl: calculateNetPnl(pnl, commission, fees), commission, fees }
+    );
 
     // Update the existing trade
     await tradesRepo.updateTrade(position.existingTradeId, {
@@ -240,12 +570,12 @@ export class TradeBuilder {
       side: position.side,
       status,
       openTime: position.openTime,
-      closeTime: status === TradeStatus.CLOSED ? new Date() : undefined,
+      closeTime,
       avgEntryPrice: new Decimal(avgEntryPrice),
-      avgExitPrice: avgExitPrice ? new Decimal(avgExitPrice) : undefined,
+      avgExitPrice: avgExitPrice !== undefined ? new Decimal(avgExitPrice) : undefined,
       openQuantity,
       closeQuantity,
-      pnl,
+      ...money,
       ordersInTrade: position.orderIds,
       ordersCount: position.orderIds.length,
       executions: position.orderIds.length,
@@ -257,8 +587,11 @@ export class TradeBuilder {
       costBasis,
       proceeds,
       importBatchId,
+      ...this.calculateFuturesMeasures(futuresSpec, position.side, status, avgEntryPrice, avgExitPrice),
     });
 
+    await tradeLotsRepo.replaceTradeLots(userId, position.existingTradeId, this.lotMatchingMethod, position.closedLots);
+
     // Link new orders to this trade (orders that don't have tradeId yet)
     await ordersRepo.updateOrdersWithTradeId(position.orderIds, position.existingTradeId);
 
@@ -272,15 +605,15 @@ export class TradeBuilder {
   /**
    * Create trades for any remaining open positions
    */
-  private async createTradesForOpenPositions(): Promise<void> {
-    for (const [symbol, position] of this.openPositions.entries()) {
+  private async createTradesForOpenPositions(userId: string): Promise<void> {
+    for (const position of this.openPositions.values()) {
       // Update existing trade if this position already has a trade in the database
       if (position.existingTradeId) {
-        await this.updateExistingTrade(position);
+        await this.updateExistingTrade(position, userId);
         continue;
       }
 
-      const avgEntryPrice = position.totalCostBasis / position.openQuantity;
+      const avgEntryPrice = this.calculateAvgEntryPrice(position);
       const avgExitPrice = await this.calculateAvgExitPrice(position.orderIds, position.side);
       const { openQuantity, closeQuantity } = await this.calculateOpenCloseQuantities(
         position.orderIds,
@@ -292,26 +625,27 @@ export class TradeBuilder {
       const status = remainingQuantity === 0 ? TradeStatus.CLOSED : TradeStatus.OPEN;
       
       // Calculate P&L for closed trades
-      let pnl = 0;
-      if (status === TradeStatus.CLOSED && avgExitPrice) {
-        pnl = position.side === TradeSide.LONG
-          ? Math.round(((avgExitPrice - avgEntryPrice) * closeQuantity) * 100) / 100
-          : Math.round(((avgEntryPrice - avgExitPrice) * closeQuantity) * 100) / 100;
-      }
-      
+      const pnl = status === TradeStatus.CLOSED ? this.calculateRealizedPnl(position) : 0;
+      const closeTime = status === TradeStatus.CLOSED
+        ? this.calculateCloseTime(await this.store.getOrdersByIds(position.orderIds), position.side)
+        : undefined;
+
+
       const openTrade: ProcessedTrade = {
         id: '',
         symbol: position.symbol,
         side: position.side,
         status,
         openTime: position.openTime,
-        closeTime: status === TradeStatus.CLOSED ? new Date() : undefined, // Use current time if closed
+        closeTime,
         avgEntryPrice,
         avgExitPrice,
         openQuantity,
         closeQuantity,
         pnl,
         ordersInTrade: position.orderIds,
+        multiplier: position.multiplier,
+        closedLots: position.closedLots,
       };
 
       this.newTrades.push(openTrade);
@@ -322,51 +656,200 @@ export class TradeBuilder {
    * Load existing open positions from the database
    */
   private async loadExistingOpenPositions(userId: string): Promise<void> {
-    const openTrades = await tradesRepo.getAllOpenTrades(userId);
+    const openTrades = await this.store.getAllOpenTrades(userId);
 
     for (const trade of openTrades) {
-      const positionKey = this.getPositionKey(trade.symbol, trade.brokerId);
-      this.openPositions.set(positionKey, {
-        symbol: trade.symbol,
-        side: trade.side,
-        brokerId: trade.brokerId,
-        openQuantity: trade.openQuantity || 0,
-        totalCostBasis: Number(trade.costBasis || 0),
-        openTime: trade.openTime || trade.entryDate,
-        orderIds: trade.ordersInTrade,
-        existingTradeId: trade.id, // Store the existing trade ID
+      const positionKey = this.getPositionKey(trade.symbol, trade.brokerId, trade.tradingAccountId);
+      this.openPositions.set(positionKey, await this.replayTradeOrders(trade));
+    }
+  }
+
+  /**
+   * Rebuild a stored trade's lots by replaying its orders in execution order
+   */
+  private async replayTradeOrders(trade: Trade): Promise<OpenPosition> {
+    const position: OpenPosition = {
+      symbol: trade.symbol,
+      side: trade.side,
+      brokerId: trade.brokerId,
+      tradingAccountId: trade.tradingAccountId,
+      openQuantity: 0,
+      entryQuantity: 0,
+      entryCost: 0,
+      lots: [],
+      closedLots: [],
+      openTime: trade.openTime || trade.entryDate,
+      orderIds: [...trade.ordersInTrade],
+      existingTradeId: trade.id, // Store the existing trade ID
+      multiplier: Number(trade.contractMultiplier ?? 1) || 1,
+    };
+
+    this.replayOrders(position, await this.getOrdersInSequence(trade.ordersInTrade));
+    return position;
+  }
+
+  /**
+   * Get executed orders sorted by execution time
+   * Orders sharing an execution time keep their order in the given list
+   */
+  private async getOrdersInSequence(orderIds: string[]): Promise<Order[]> {
+    const sequence = new Map(orderIds.map((orderId, index) => [orderId, index]));
+    return (await this.store.getOrdersByIds(orderIds))
+      .filter(order => order.orderExecutedTime)
+      .sort((a, b) =>
+        a.orderExecutedTime!.getTime() - b.orderExecutedTime!.getTime() ||
+        (sequence.get(a.id) ?? 0) - (sequence.get(b.id) ?? 0)
+      );
+  }
+
+  /**
+   * Open and close the position's lots with its orders, in the order given
+   */
+  private replayOrders(position: OpenPosition, orders: Order[]): void {
+    const entrySide = position.side === TradeSide.LONG ? OrderSide.BUY : OrderSide.SELL;
+    for (const order of orders) {
+      const quantity = toQuantity(order.orderQuantity);
+      const price = Number(order.limitPrice ?? 0);
+      if (order.side === entrySide) {
+        this.addLot(position, quantity, price, order.orderExecutedTime!, order.id);
+      } else {
+        this.closeLots(position, Math.min(quantity, position.openQuantity), price, order.orderExecutedTime!, order.id);
+      }
+    }
+  }
+
+  /**
+   * Save a trade made by hand from exactly the given orders and lock it against rebuilds
+   * Used to merge, split and move orders between trades. The first execution sets the side and
+   * every derived field is recalculated from the orders. An existing trade keeps its id, notes
+   * and tags; without one a new trade is created.
+   */
+  async saveCorrectedTrade(userId: string, orderIds: string[], tradeId?: string): Promise<ProcessedTrade> {
+    const orders = await this.getOrdersInSequence(orderIds);
+    if (orders.length === 0) {
+      throw new Error('A trade needs at least one executed order');
+    }
+
+    const first = orders[0];
+    const position: OpenPosition = {
+      symbol: first.symbol,
+      side: first.side === OrderSide.BUY ? TradeSide.LONG : TradeSide.SHORT,
+      brokerId: first.brokerId,
+      tradingAccountId: first.tradingAccountId,
+      openQuantity: 0,
+      entryQuantity: 0,
+      entryCost: 0,
+      lots: [],
+      closedLots: [],
+      openTime: first.orderExecutedTime!,
+      orderIds: orders.map(order => order.id),
+      existingTradeId: tradeId,
+      multiplier: this.getContractMultiplier(first),
+    };
+    this.replayOrders(position, orders);
+
+    const status = position.openQuantity === 0 ? TradeStatus.CLOSED : TradeStatus.OPEN;
+    const { openQuantity, closeQuantity } = await this.calculateOpenCloseQuantities(position.orderIds, position.side);
+    const trade: ProcessedTrade = {
+      id: tradeId ?? '',
+      symbol: position.symbol,
+      side: position.side,
+      status,
+      openTime: position.openTime,
+      closeTime: status === TradeStatus.CLOSED ? orders[orders.length - 1].orderExecutedTime! : undefined,
+      avgEntryPrice: this.calculateAvgEntryPrice(position),
+      avgExitPrice: await this.calculateAvgExitPrice(position.orderIds, position.side),
+      openQuantity,
+      closeQuantity,
+      pnl: status === TradeStatus.CLOSED ? this.calculateRealizedPnl(position) : 0,
+      ordersInTrade: position.orderIds,
+      multiplier: position.multiplier,
+      closedLots: position.closedLots,
+    };
+
+    const tradeData: CreateTradeData = { ...(await this.toTradeData(userId, trade)), isLocked: true };
+    if (tradeId) {
+      await tradesRepo.replaceTradeCalculation(tradeId, tradeData);
+    } else {
+      trade.id = (await tradesRepo.saveTrade(tradeData)).id;
+    }
+
+    await tradeLotsRepo.replaceTradeLots(userId, trade.id, this.lotMatchingMethod, trade.closedLots);
+    await ordersRepo.updateOrdersWithTradeId(trade.ordersInTrade, trade.id);
+
+    console.log(`[TRADE BUILDER] Saved corrected trade ${trade.id}:`, {
+      symbol: trade.symbol,
+      status,
+      ordersCount: trade.ordersInTrade.length,
+    });
+    return trade;
+  }
+
+  /**
+   * Recalculate P&L and closing records for every calculated trade with the current lot matching method
+   * Trade boundaries do not depend on the method, so trades are updated in place and keep their notes and tags
+   */
+  async recalculateTrades(userId: string): Promise<number> {
+    const trades = await tradesRepo.getAllCalculatedTrades(userId);
+
+    for (const trade of trades) {
+      const position = await this.replayTradeOrders(trade);
+      const localPnl = trade.status === TradeStatus.CLOSED ? this.calculateRealizedPnl(position) : 0;
+
+      // Keep the rate the trade was converted with; commission and fees are already in the base currency
+      const pnl = Math.round(localPnl * Number(trade.fxRate ?? 1) * 100) / 100;
+      await tradesRepo.updateTrade(trade.id, {
+        pnl,
+        netPnl: calculateNetPnl(pnl, trade.commission, trade.fees, trade.financingCost),
       });
+      await tradeLotsRepo.replaceTradeLots(userId, trade.id, this.lotMatchingMethod, position.closedLots);
     }
+
+    console.log(`[TRADE BUILDER] Recalculated ${trades.length} trades with ${this.lotMatchingMethod} lot matching`);
+    return trades.length;
   }
 
   /**
    * Process a single order
    */
   private async processOrder(order: Order): Promise<void> {
-    if (!order.orderExecutedTime || !order.limitPrice) {
+    if (!order.orderExecutedTime || (!order.limitPrice && !order.optionEvent)) {
       console.warn(`Order ${order.id} missing execution time or price, skipping`);
       return;
     }
 
+    if (order.optionEvent) {
+      await this.processOptionEvent(order);
+      return;
+    }
+
     const symbol = order.symbol;
     const orderSide = order.side;
-    const quantity = order.orderQuantity;
+    const quantity = toQuantity(order.orderQuantity);
     const price = Number(order.limitPrice);
     const orderTime = order.orderExecutedTime;
     const brokerId = order.brokerId; // Get brokerId from the order
+    const tradingAccountId = order.tradingAccountId;
+    const multiplier = this.getContractMultiplier(order);
 
     const tradeSide = orderSide === OrderSide.BUY ? TradeSide.LONG : TradeSide.SHORT;
-    const positionKey = this.getPositionKey(symbol, brokerId);
+    const positionKey = this.getPositionKey(symbol, brokerId, tradingAccountId);
     const existingPosition = this.openPositions.get(positionKey);
 
     if (!existingPosition) {
-      // No existing position - open new position
-      await this.openNewPosition(symbol, tradeSide, brokerId, quantity, price, orderTime, order.id);
+      const reopened = this.reopenRecentlyClosed(positionKey, tradeSide, orderTime);
+      if (reopened) {
+        // Time-merged grouping - the reopen continues the trade that just closed
+        this.addToPosition(reopened, quantity, price, orderTime, order.id);
+      } else {
+        // No existing position - open new position
+        await this.openNewPosition(symbol, tradeSide, brokerId, tradingAccountId, quantity, price, orderTime, order.id, multiplier);
+      }
     } else {
       // Existing position - check if same or opposite side
       if (existingPosition.side === tradeSide) {
         // Same side - add to position
-        this.addToPosition(existingPosition, quantity, price, order.id);
+        this.addToPosition(existingPosition, quantity, price, orderTime, order.id);
       } else {
         // Opposite side - close or reverse position
         await this.handleOppositeOrder(existingPosition, brokerId, quantity, price, orderTime, order.id);
@@ -374,6 +857,121 @@ export class TradeBuilder {
     }
   }
 
+  /**
+   * Take back a trade closed within the merge window so a same-side reopen extends it
+   * Returns the position to add to, or null when the reopen starts a new trade
+   */
+  private reopenRecentlyClosed(positionKey: string, side: TradeSide, reopenTime: Date): OpenPosition | null {
+    const recent = this.recentlyClosed.get(positionKey);
+    if (!recent || recent.position.side !== side || !canMergeReopen(this.grouping, recent.trade.closeTime!, reopenTime)) {
+      return null;
+    }
+
+    this.recentlyClosed.delete(positionKey);
+    this.newTrades = this.newTrades.filter(trade => trade !== recent.trade);
+    recent.position.orderIds = [...recent.trade.ordersInTrade];
+    this.openPositions.set(positionKey, recent.position);
+    return recent.position;
+  }
+
+  /**
+   * Report a partial exit as its own trade (round trip grouping)
+   * The entries the exit closed move to the new trade; an entry only partly closed is split so each
+   * trade keeps whole orders. The position carries on with the entries still open.
+   */
+  private async closeRoundTrip(
+    position: OpenPosition,
+    exitLots: ClosedLot[],
+    closingOrderId: string,
+    price: number,
+    closeTime: Date
+  ): Promise<void> {
+    const roundTripOrderIds = new Map<string, string>(); // Entry order -> order (or split part) in the round trip
+
+    for (const split of planEntrySplits(exitLots, position.lots)) {
+      if (split.remainingQuantity > 0) {
+        const [closedPartId, openPartId] = await this.store.splitOrder(
+          split.orderId,
+          split.closedQuantity,
+          split.remainingQuantity
+        );
+        roundTripOrderIds.set(split.orderId, closedPartId);
+        position.lots = position.lots.map(lot => lot.orderId === split.orderId ? { ...lot, orderId: openPartId } : lot);
+        position.orderIds = position.orderIds.map(orderId => orderId === split.orderId ? openPartId : orderId);
+      } else {
+        roundTripOrderIds.set(split.orderId, split.orderId);
+        position.orderIds = position.orderIds.filter(orderId => orderId !== split.orderId);
+      }
+    }
+
+    const closedLots = exitLots.map(lot => ({
+      ...lot,
+      openOrderId: roundTripOrderIds.get(lot.openOrderId) ?? lot.openOrderId,
+    }));
+    const quantity = roundQuantity(closedLots.reduce((sum, lot) => sum + lot.quantity, 0));
+    const entryCost = closedLots.reduce((sum, lot) => sum + lot.quantity * lot.openPrice, 0);
+
+    this.newTrades.push({
+      id: '',
+      symbol: position.symbol,
+      side: position.side,
+      status: TradeStatus.CLOSED,
+      openTime: new Date(Math.min(...closedLots.map(lot => lot.openTime.getTime()))),
+      closeTime,
+      avgEntryPrice: quantity > 0 ? entryCost / quantity : 0,
+      avgExitPrice: price,
+      openQuantity: quantity,
+      closeQuantity: quantity,
+      pnl: Math.round(closedLots.reduce((sum, lot) => sum + lot.pnl, 0) * 100) / 100,
+      ordersInTrade: [...roundTripOrderIds.values(), closingOrderId],
+      multiplier: position.multiplier,
+      closedLots,
+    });
+
+    // The position now only holds the entries still open
+    position.closedLots = position.closedLots.filter(lot => !exitLots.includes(lot));
+    position.entryQuantity = roundQuantity(position.lots.reduce((sum, lot) => sum + lot.quantity, 0));
+    position.entryCost = position.lots.reduce((sum, lot) => sum + lot.quantity * lot.price, 0);
+    position.openTime = new Date(Math.min(...position.lots.map(lot => lot.openTime.getTime())));
+  }
+
+  /**
+   * Close an option position from an expiration, assignment or exercise
+   * These events carry no reliable side, so they always close the matching position and never reverse it
+   */
+  private async processOptionEvent(order: Order): Promise<void> {
+    const positionKey = this.getPositionKey(order.symbol, order.brokerId, order.tradingAccountId);
+    const position = this.openPositions.get(positionKey);
+
+    if (!position) {
+      console.warn(`[TRADE BUILDER] ${order.optionEvent} order ${order.id} has no open ${order.symbol} position, skipping`);
+      return;
+    }
+
+    // Store the event with the side that closes the position so exit price/quantity calculations pick it up
+    const closingSide = position.side === TradeSide.LONG ? OrderSide.SELL : OrderSide.BUY;
+    if (order.side !== closingSide) {
+      await this.store.updateOrderSide(order.id, closingSide);
+    }
+
+    const eventQuantity = toQuantity(order.orderQuantity);
+    if (eventQuantity > position.openQuantity) {
+      console.warn(`[TRADE BUILDER] ${order.optionEvent} order ${order.id} exceeds open quantity for ${order.symbol}:`, {
+        eventQuantity,
+        openQuantity: position.openQuantity,
+      });
+    }
+
+    await this.handleOppositeOrder(
+      position,
+      order.brokerId,
+      Math.min(eventQuantity, position.openQuantity),
+      Number(order.limitPrice ?? 0),
+      order.orderExecutedTime!,
+      order.id
+    );
+  }
+
   /**
    * Open a new position
    */
@@ -381,23 +979,31 @@ export class TradeBuilder {
     symbol: string,
     side: TradeSide,
     brokerId: string | null,
+    tradingAccountId: string | null,
     quantity: number,
     price: number,
     openTime: Date,
-    orderId: string
+    orderId: string,
+    multiplier: number
   ): Promise<void> {
     const position: OpenPosition = {
       symbol,
       side,
       brokerId,
-      openQuantity: quantity,
-      totalCostBasis: quantity * price,
+      tradingAccountId,
+      openQuantity: 0,
+      entryQuantity: 0,
+      entryCost: 0,
+      lots: [],
+      closedLots: [],
       openTime,
       orderIds: [orderId],
+      multiplier,
       // No existingTradeId since this is a new position
     };
+    this.addLot(position, quantity, price, openTime, orderId);
 
-    const positionKey = this.getPositionKey(symbol, brokerId);
+    const positionKey = this.getPositionKey(symbol, brokerId, tradingAccountId);
     this.openPositions.set(positionKey, position);
 
     // Don't create trade record yet - only when position is closed or at end of processing
@@ -410,14 +1016,11 @@ export class TradeBuilder {
     position: OpenPosition,
     quantity: number,
     price: number,
+    openTime: Date,
     orderId: string
   ): void {
-    // Update position
-    const newTotalQuantity = position.openQuantity + quantity;
-    const newTotalCostBasis = position.totalCostBasis + (quantity * price);
-
-    position.openQuantity = newTotalQuantity;
-    position.totalCostBasis = newTotalCostBasis;
+    // Each fill is its own lot
+    this.addLot(position, quantity, price, openTime, orderId);
     position.orderIds.push(orderId);
 
     // No need to update trades array since we don't create trades until positions close
@@ -436,11 +1039,11 @@ export class TradeBuilder {
     orderId: string
   ): Promise<void> {
     const closingQuantity = Math.min(quantity, position.openQuantity);
-    const remainingOrderQuantity = quantity - closingQuantity;
-    const remainingPositionQuantity = position.openQuantity - closingQuantity;
+    const remainingOrderQuantity = roundQuantity(quantity - closingQuantity);
+    const remainingPositionQuantity = roundQuantity(position.openQuantity - closingQuantity);
 
     // Calculate average entry price
-    const avgEntryPrice = position.totalCostBasis / position.openQuantity;
+    const avgEntryPrice = this.calculateAvgEntryPrice(position);
 
     // Handle order splitting if needed
     let closingOrderId = orderId;
@@ -456,7 +1059,7 @@ export class TradeBuilder {
         positionSide: position.side
       });
 
-      const [splitOrder1Id, splitOrder2Id] = await ordersRepo.splitOrder(
+      const [splitOrder1Id, splitOrder2Id] = await this.store.splitOrder(
         orderId,
         closingQuantity,
         remainingOrderQuantity
@@ -468,6 +1071,8 @@ export class TradeBuilder {
 
     // Add the closing order ID to the list
     const allOrderIds = [...position.orderIds, closingOrderId];
+    const closedLotCount = position.closedLots.length;
+    this.closeLots(position, closingQuantity, price, orderTime, closingOrderId);
 
     if (remainingPositionQuantity === 0) {
       // Position fully closed - create closed trade
@@ -479,12 +1084,10 @@ export class TradeBuilder {
       const avgExitPrice = await this.calculateAvgExitPrice(
         allOrderIds,
         position.side
-      ) || price;
+      ) ?? price;
 
-      // Calculate P&L - now simple since all orders are complete (no allocations needed)
-      const pnl = position.side === TradeSide.LONG
-        ? Math.round(((avgExitPrice - avgEntryPrice) * closeQuantity) * 100) / 100
-        : Math.round(((avgEntryPrice - avgExitPrice) * closeQuantity) * 100) / 100;
+      // P&L is the sum of the lots this exit and earlier partial exits closed
+      const pnl = this.calculateRealizedPnl(position);
 
       const closedTrade: ProcessedTrade = {
         id: '',
@@ -499,15 +1102,22 @@ export class TradeBuilder {
         closeQuantity,
         pnl,
         ordersInTrade: allOrderIds,
+        multiplier: position.multiplier,
+        closedLots: position.closedLots,
       };
 
       this.newTrades.push(closedTrade);
-      const positionKey = this.getPositionKey(position.symbol, position.brokerId);
+      const positionKey = this.getPositionKey(position.symbol, position.brokerId, position.tradingAccountId);
       this.openPositions.delete(positionKey);
+
+      if (this.grouping.mode === TradeGroupingMode.TIME_MERGED) {
+        this.recentlyClosed.set(positionKey, { trade: closedTrade, position });
+      }
+    } else if (this.grouping.mode === TradeGroupingMode.ROUND_TRIP) {
+      // Position partially closed - the exit and the entries it closed become their own trade
+      await this.closeRoundTrip(position, position.closedLots.slice(closedLotCount), closingOrderId, price, orderTime);
     } else {
-      // Position partially closed - update position but don't create trade yet
-      position.openQuantity = remainingPositionQuantity;
-      position.totalCostBasis = avgEntryPrice * remainingPositionQuantity;
+      // Position partially closed - closeLots already reduced the open lots, don't create trade yet
       position.orderIds = allOrderIds;
 
       // The position remains open with reduced quantity
@@ -524,74 +1134,150 @@ export class TradeBuilder {
         symbol: position.symbol,
         side: newSide,
         brokerId, // Use the brokerId from the incoming order
-        openQuantity: remainingOrderQuantity,
-        totalCostBasis: remainingOrderQuantity * price,
+        tradingAccountId: position.tradingAccountId, // Same account, the key already matched it
+        openQuantity: 0,
+        entryQuantity: 0,
+        entryCost: 0,
+        lots: [],
+        closedLots: [],
         openTime: orderTime,
         orderIds: [orderIdForNewPosition],
+        multiplier: position.multiplier,
         // No existingTradeId since this is a new position from reversal
       };
+      this.addLot(newPosition, remainingOrderQuantity, price, orderTime, orderIdForNewPosition);
 
-      const newPositionKey = this.getPositionKey(position.symbol, brokerId);
+      const newPositionKey = this.getPositionKey(position.symbol, brokerId, position.tradingAccountId);
       this.openPositions.set(newPositionKey, newPosition);
     }
   }
 
+  /**
+   * Convert a trade's P&L, commission and fees to the user's base currency
+   * The trade is in the currency its orders executed in, falling back to the account currency. The rate
+   * is the one for the day the trade closed (today while open); without a rate the values stay unconverted.
+   */
+  private async convertToBaseCurrency<T extends ConvertibleMoney>(
+    userId: string,
+    orders: Order[],
+    tradingAccountId: string | null,
+    closeTime: Date | undefined,
+    money: T
+  ): Promise<T & { currency: string; fxRate: number | null }> {
+    if (this.baseCurrency === undefined) {
+      this.baseCurrency = await fxRatesRepo.getBaseCurrency(userId);
+    }
+    if (this.accountCurrencies === undefined) {
+      const accounts = await accountsRepo.getAccounts(userId);
+      this.accountCurrencies = new Map(accounts.map(account => [account.id, account.currency]));
+    }
+
+    const currency = orders.map(order => normalizeCurrency(order.currency)).find(Boolean)
+      ?? (tradingAccountId ? normalizeCurrency(this.accountCurrencies.get(tradingAccountId)) : null)
+      ?? DEFAULT_BASE_CURRENCY;
+
+    const fxRate = await fxRatesRepo.getRate(currency, this.baseCurrency, closeTime ?? new Date());
+    if (fxRate === null) {
+      console.warn(`[TRADE BUILDER] No ${currency}/${this.baseCurrency} rate near ${(closeTime ?? new Date()).toISOString()}, P&L left in ${currency}`);
+    }
+
+    return { ...convertMoney(money, fxRate ?? 1), currency, fxRate };
+  }
+
+  /**
+   * Everything stored for a built trade, derived from the trade and its orders
+   */
+  private async toTradeData(userId: string, trade: ProcessedTrade): Promise<CreateTradeData> {
+    const totalQuantity = await this.calculateTotalQuantity(trade.ordersInTrade);
+    const timeInTrade = this.calculateTimeInTrade(trade.openTime, trade.closeTime);
+    const remainingQuantity = trade.status === TradeStatus.OPEN
+      ? await this.calculateRemainingQuantity(trade.ordersInTrade, trade.side)
+      : 0;
+    const holdingPeriod = this.calculateHoldingPeriod(trade.openTime, trade.closeTime);
+
+    // Get importBatchId, brokerId, and assetClass from the orders in this trade
+    const orders = await this.store.getOrdersByIds(trade.ordersInTrade);
+    const importBatchId = orders.find(o => o.importBatchId)?.importBatchId ?? undefined;
+    const importSource = orders[0]?.importSource; // Where the opening execution came from
+    const brokerId = orders.find(o => o.brokerId)?.brokerId ?? undefined; // Get brokerId from first order
+    const tradingAccountId = orders.find(o => o.tradingAccountId)?.tradingAccountId ?? undefined;
+    const assetClass = orders.find(o => o.assetClass)?.assetClass ?? undefined; // Get assetClass from first order
+    const optionOrder = orders.find(o => o.optionRight); // Option contract details, if this is an option trade
+    const futuresSpec = this.getFuturesSpec(trade.symbol, assetClass);
+    const marketSession = this.calculateMarketSession(trade.openTime, futuresSpec);
+    const pnl = Math.round(trade.pnl * 100) / 100;
+    const { commission, fees } = sumOrderCosts(orders); // Split orders already carry their pro-rated share
+    const money = await this.convertToBaseCurrency(
+      userId,
+      orders,
+      tradingAccountId ?? null,
+      trade.closeTime,
+      { pnl, netPnl: calculateNetPnl(pnl, commission, fees), commission, fees }
+    );
+    const annotations = this.unwoundAnnotations.get(
+      this.getAnnotationKey(trade.symbol, brokerId ?? null, tradingAccountId ?? null, trade.side, trade.openTime)
+    );
+
+    return {
+      userId,
+      symbol: trade.symbol,
+      side: trade.side,
+      status: trade.status,
+      openTime: trade.openTime,
+      closeTime: trade.closeTime,
+      avgEntryPrice: trade.avgEntryPrice ? new Decimal(trade.avgEntryPrice) : undefined,
+      avgExitPrice: trade.avgExitPrice !== undefined ? new Decimal(trade.avgExitPrice) : undefined,
+      openQuantity: trade.openQuantity,
+      closeQuantity: trade.closeQuantity,
+      ...money,
+      ordersInTrade: trade.ordersInTrade,
+      ordersCount: trade.ordersInTrade.length,
+      executions: trade.ordersInTrade.length,
+      quantity: totalQuantity,
+      timeInTrade,
+      remainingQuantity,
+      marketSession,
+      holdingPeriod,
+      costBasis: trade.avgEntryPrice && trade.openQuantity
+        ? trade.avgEntryPrice * trade.openQuantity * trade.multiplier
+        : undefined,
+      proceeds: trade.avgExitPrice !== undefined && trade.closeQuantity
+        ? trade.avgExitPrice * trade.closeQuantity * trade.multiplier
+        : undefined,
+      importBatchId,
+      importSource,
+      brokerId, // Add brokerId to trade data
+      tradingAccountId,
+      assetClass, // Add assetClass to trade data
+      underlyingSymbol: orders.find(o => o.underlyingSymbol)?.underlyingSymbol ?? futuresSpec?.root ?? undefined,
+      optionRight: optionOrder?.optionRight ?? undefined,
+      strikePrice: optionOrder?.strikePrice ?? undefined,
+      expirationDate: optionOrder?.expirationDate ?? undefined,
+      contractMultiplier: trade.multiplier,
+      notes: annotations?.notes ?? undefined, // Carried over when a back-dated import rebuilt this trade
+      tags: annotations?.tags,
+      ...this.calculateFuturesMeasures(futuresSpec, trade.side, trade.status, trade.avgEntryPrice, trade.avgExitPrice),
+    };
+  }
+
   /**
    * Persist trades to database and link orders
    */
   async persistTrades(userId: string): Promise<void> {
     for (const trade of this.newTrades) {
-      const totalQuantity = await this.calculateTotalQuantity(trade.ordersInTrade);
-      const timeInTrade = this.calculateTimeInTrade(trade.openTime, trade.closeTime);
-      const remainingQuantity = trade.status === TradeStatus.OPEN
-        ? await this.calculateRemainingQuantity(trade.ordersInTrade, trade.side)
-        : 0;
-      const marketSession = this.calculateMarketSession(trade.openTime);
-      const holdingPeriod = this.calculateHoldingPeriod(trade.openTime, trade.closeTime);
-
-      // Get importBatchId, brokerId, and assetClass from the orders in this trade
-      const orders = await ordersRepo.getOrdersByIds(trade.ordersInTrade);
-      const importBatchId = orders.find(o => o.importBatchId)?.importBatchId ?? undefined;
-      const brokerId = orders.find(o => o.brokerId)?.brokerId ?? undefined; // Get brokerId from first order
-      const assetClass = orders.find(o => o.assetClass)?.assetClass ?? undefined; // Get assetClass from first order
-
-      const tradeData: CreateTradeData = {
-        userId,
-        symbol: trade.symbol,
-        side: trade.side,
-        status: trade.status,
-        openTime: trade.openTime,
-        closeTime: trade.closeTime,
-        avgEntryPrice: trade.avgEntryPrice ? new Decimal(trade.avgEntryPrice) : undefined,
-        avgExitPrice: trade.avgExitPrice ? new Decimal(trade.avgExitPrice) : undefined,
-        openQuantity: trade.openQuantity,
-        closeQuantity: trade.closeQuantity,
-        pnl: Math.round(trade.pnl * 100) / 100,
-        ordersInTrade: trade.ordersInTrade,
-        ordersCount: trade.ordersInTrade.length,
-        executions: trade.ordersInTrade.length,
-        quantity: totalQuantity,
-        timeInTrade,
-        remainingQuantity,
-        marketSession,
-        holdingPeriod,
-        costBasis: trade.avgEntryPrice && trade.openQuantity
-          ? trade.avgEntryPrice * trade.openQuantity
-          : undefined,
-        proceeds: trade.avgExitPrice && trade.closeQuantity
-          ? trade.avgExitPrice * trade.closeQuantity
-          : undefined,
-        importBatchId,
-        brokerId, // Add brokerId to trade data
-        assetClass, // Add assetClass to trade data
-      };
-
-      const savedTrade = await tradesRepo.saveTrade(tradeData);
+      const savedTrade = await tradesRepo.saveTrade(await this.toTradeData(userId, trade));
       trade.id = savedTrade.id;
 
+      if (trade.closedLots.length > 0) {
+        await tradeLotsRepo.replaceTradeLots(userId, savedTrade.id, this.lotMatchingMethod, trade.closedLots);
+      }
+
       // Link orders to this trade
       await ordersRepo.updateOrdersWithTradeId(trade.ordersInTrade, savedTrade.id);
     }
+
+    // Rebuilt trades have new ids and fresh net P&L, so borrow fees and margin interest are attributed again
+    await cashActivitiesRepo.attributeFinancingCosts(userId);
   }
 }
 
@@ -600,8 +1286,64 @@ export class TradeBuilder {
  * This is the primary entry point for trade processing
  */
 export async function processUserOrders(userId: string): Promise<ProcessedTrade[]> {
-  const builder = new TradeBuilder();
+  await accountsRepo.linkOrdersToAccounts(userId);
+  const builder = new TradeBuilder(
+    await tradeLotsRepo.getLotMatchingMethod(userId),
+    await tradesRepo.getTradeGroupingSettings(userId)
+  );
   const trades = await builder.processUserOrders(userId);
   await builder.persistTrades(userId);
+  await optionStrategiesRepo.detectStrategies(userId);
   return trades;
-}
\ No newline at end of file
+}
+
+/**
+ * Recalculate a user's trades after their lot matching method changes
+ * Trades are recalculated in place only under flat-to-flat grouping; other modes rebuild them.
+ */
+export async function recalculateUserTrades(userId: string): Promise<number> {
+  const grouping = await tradesRepo.getTradeGroupingSettings(userId);
+  if (grouping.mode !== TradeGroupingMode.FLAT_TO_FLAT) {
+    return rebuildUserTrades(userId);
+  }
+
+  const builder = new TradeBuilder(await tradeLotsRepo.getLotMatchingMethod(userId), grouping);
+  const recalculated = await builder.recalculateTrades(userId);
+  await optionStrategiesRepo.refreshStrategies(userId);
+  return recalculated;
+}
+
+/**
+ * Rebuild every trade of a user after their trade grouping settings change
+ */
+export async function rebuildUserTrades(userId: string): Promise<number> {
+  const builder = new TradeBuilder(
+    await tradeLotsRepo.getLotMatchingMethod(userId),
+    await tradesRepo.getTradeGroupingSettings(userId)
+  );
+  const trades = await builder.rebuildTrades(userId);
+  await builder.persistTrades(userId);
+  await optionStrategiesRepo.detectStrategies(userId);
+  return trades.length;
+}
+
+/**
+ * Rebuild a user's trades around orders edited or deleted by hand
+ * applyChange runs once the trades holding the orders are unwound; its result is returned
+ */
+export async function rebuildTradesAfterOrderChange<T>(
+  userId: string,
+  tradeIds: string[],
+  applyChange: () => Promise<T>
+): Promise<T> {
+  const builder = new TradeBuilder(
+    await tradeLotsRepo.getLotMatchingMethod(userId),
+    await tradesRepo.getTradeGroupingSettings(userId)
+  );
+  try {
+    return await builder.rebuildAfterOrderChange(userId, tradeIds, applyChange);
+  } finally {
+    await builder.persistTrades(userId);
+    await optionStrategiesRepo.detectStrategies(userId);
+  }
+}
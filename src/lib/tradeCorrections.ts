@@ -0,0 +1,258 @@
+/**
+ * Trade corrections
+ *
+ * Merge trades, split a trade at an execution and move executions between trades when the trade
+ * builder grouped fills differently than they were traded. Every trade touched is recalculated from
+ * its orders and locked, so rebuilds, back-dated imports and grouping changes keep the correction.
+ */
+
+import { ChangeEntityType, Order, OrderSide, Trade } from '@prisma/client';
+import { changeHistoryRepo } from './repositories/changeHistoryRepo';
+import { ordersRepo } from './repositories/ordersRepo';
+import { tradesRepo } from './repositories/tradesRepo';
+import { tradeLotsRepo } from './repositories/tradeLotsRepo';
+import { optionStrategiesRepo } from './repositories/optionStrategiesRepo';
+import { cashActivitiesRepo } from './repositories/cashActivitiesRepo';
+import { TradeBuilder } from './tradeBuilder';
+import { roundQuantity, toQuantity } from './precision';
+import { ChangeSource, CHANGE_SOURCES } from './changeHistory';
+
+/**
+ * A correction that cannot be made; status is the HTTP status to answer with
+ */
+export class TradeCorrectionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'TradeCorrectionError';
+  }
+}
+
+export interface TradeCorrectionResult {
+  tradeIds: string[]; // Trades saved by the correction, all locked
+  deletedTradeIds: string[]; // Trades left without orders
+}
+
+type CorrectedOrder = Pick<Order, 'id' | 'symbol' | 'tradingAccountId' | 'side' | 'orderQuantity' | 'orderExecutedTime'>;
+
+/**
+ * Sort orders by execution time, keeping the given order for fills at the same time
+ */
+export function inExecutionOrder<T extends CorrectedOrder>(orders: T[], orderIds: string[]): T[] {
+  const sequence = new Map(orderIds.map((orderId, index) => [orderId, index]));
+  return orders
+    .filter(order => order.orderExecutedTime)
+    .sort((a, b) =>
+      a.orderExecutedTime!.getTime() - b.orderExecutedTime!.getTime() ||
+      (sequence.get(a.id) ?? 0) - (sequence.get(b.id) ?? 0)
+    );
+}
+
+/**
+ * Check that orders, in execution order, can make up one trade
+ * They must be one symbol in one account, and with the first execution setting the side, no
+ * exit may close more than is open at that point. Reaching flat and opening again is allowed.
+ */
+export function assertOneTrade(orders: CorrectedOrder[]): void {
+  if (orders.length === 0) {
+    throw new TradeCorrectionError('A trade needs at least one execution');
+  }
+
+  const [first] = orders;
+  if (orders.some(order => order.symbol !== first.symbol || order.tradingAccountId !== first.tradingAccountId)) {
+    throw new TradeCorrectionError('Only executions of the same symbol and account can be in one trade');
+  }
+
+  let openQuantity = 0;
+  for (const order of orders) {
+    const quantity = toQuantity(order.orderQuantity);
+    openQuantity = roundQuantity(openQuantity + (order.side === first.side ? quantity : -quantity));
+    if (openQuantity < 0) {
+      throw new TradeCorrectionError(
+        `The ${order.side === OrderSide.BUY ? 'buy' : 'sell'} at ${order.orderExecutedTime!.toISOString()} would close more than the trade holds`
+      );
+    }
+  }
+}
+
+/**
+ * Merge trades into the earliest one, which keeps its id and gets the notes and tags of all of them
+ */
+export async function mergeTrades(userId: string, tradeIds: string[]): Promise<TradeCorrectionResult> {
+  const trades = await getTrades(userId, Array.from(new Set(tradeIds)));
+  if (trades.length < 2) {
+    throw new TradeCorrectionError('Select at least two trades to merge');
+  }
+
+  trades.sort((a, b) => (a.openTime || a.entryDate).getTime() - (b.openTime || b.entryDate).getTime());
+  const [kept, ...merged] = trades;
+
+  const orderIds = trades.flatMap(trade => trade.ordersInTrade);
+  const orders = inExecutionOrder(await ordersRepo.getOrdersByIds(orderIds), orderIds);
+  assertOneTrade(orders);
+
+  const builder = await getBuilder(userId);
+  await builder.saveCorrectedTrade(userId, orders.map(order => order.id), kept.id);
+
+  const notes = trades.map(trade => trade.notes?.trim()).filter(Boolean).join('\n\n');
+  const annotations = {
+    notes: notes || kept.notes,
+    tags: Array.from(new Set(trades.flatMap(trade => trade.tags))),
+  };
+  await tradesRepo.updateTrade(kept.id, {
+    notes: annotations.notes ?? undefined,
+    tags: annotations.tags,
+  });
+  await changeHistoryRepo.recordChanges(
+    userId, userId, ChangeEntityType.TRADE, kept.id, kept, { ...annotations, isLocked: true }, CHANGE_SOURCES.MERGE
+  );
+
+  const deletedTradeIds = merged.map(trade => trade.id);
+  await tradesRepo.deleteEmptyTrades(userId, deletedTradeIds);
+  await cashActivitiesRepo.attributeFinancingCosts(userId);
+  await optionStrategiesRepo.detectStrategies(userId);
+
+  console.log(`[TRADE CORRECTIONS] Merged ${trades.length} trades into ${kept.id}`);
+  return { tradeIds: [kept.id], deletedTradeIds };
+}
+
+/**
+ * Split a trade in two: executions before the chosen one stay, the chosen one and later move to a new trade
+ */
+export async function splitTrade(userId: string, tradeId: string, orderId: string): Promise<TradeCorrectionResult> {
+  const [trade] = await getTrades(userId, [tradeId]);
+  const orders = inExecutionOrder(await ordersRepo.getOrdersByIds(trade.ordersInTrade), trade.ordersInTrade);
+
+  const splitIndex = orders.findIndex(order => order.id === orderId);
+  if (splitIndex === -1) {
+    throw new TradeCorrectionError('Execution not found in this trade', 404);
+  }
+  if (splitIndex === 0) {
+    throw new TradeCorrectionError('Choose an execution after the first one to split the trade there');
+  }
+
+  const kept = orders.slice(0, splitIndex);
+  const moved = orders.slice(splitIndex);
+  assertOneTrade(kept);
+  assertOneTrade(moved);
+
+  const builder = await getBuilder(userId);
+  await builder.saveCorrectedTrade(userId, kept.map(order => order.id), trade.id);
+  const newTrade = await builder.saveCorrectedTrade(userId, moved.map(order => order.id));
+  await recordLocked(userId, [trade], CHANGE_SOURCES.SPLIT);
+  await cashActivitiesRepo.attributeFinancingCosts(userId);
+  await optionStrategiesRepo.detectStrategies(userId);
+
+  console.log(`[TRADE CORRECTIONS] Split trade ${trade.id} at order ${orderId} into ${newTrade.id}`);
+  return { tradeIds: [trade.id, newTrade.id], deletedTradeIds: [] };
+}
+
+/**
+ * Move executions from their trades into another trade, or into a new trade when no target is given
+ * Trades left without executions are deleted.
+ */
+export async function moveOrders(
+  userId: string,
+  orderIds: string[],
+  targetTradeId: string | null
+): Promise<TradeCorrectionResult> {
+  const requestedIds = Array.from(new Set(orderIds));
+  const requested = (await ordersRepo.getOrdersByIds(requestedIds)).filter(order => order.userId === userId);
+  if (requested.length !== requestedIds.length) {
+    throw new TradeCorrectionError('Execution not found', 404);
+  }
+  if (requested.some(order => !order.tradeId)) {
+    throw new TradeCorrectionError('Only executions that belong to a trade can be moved');
+  }
+
+  const target = targetTradeId ? (await getTrades(userId, [targetTradeId]))[0] : null;
+  const moving = requested.filter(order => order.tradeId !== target?.id);
+  if (moving.length === 0) {
+    throw new TradeCorrectionError('The executions are already in that trade');
+  }
+  const movingIds = new Set(moving.map(order => order.id));
+
+  const sources = await getTrades(userId, Array.from(new Set(moving.map(order => order.tradeId!))));
+  const allOrderIds = [...sources, ...(target ? [target] : [])].flatMap(trade => trade.ordersInTrade);
+  const ordersById = new Map((await ordersRepo.getOrdersByIds(allOrderIds)).map(order => [order.id, order]));
+  const ordersOf = (ids: string[]) => inExecutionOrder(
+    ids.map(id => ordersById.get(id)).filter((order): order is Order => !!order),
+    ids
+  );
+
+  // Validate every resulting trade before anything is saved
+  const targetOrders = ordersOf([...(target?.ordersInTrade ?? []), ...moving.map(order => order.id)]);
+  assertOneTrade(targetOrders);
+  const remaining = sources.map(source => ({
+    trade: source,
+    orders: ordersOf(source.ordersInTrade.filter(id => !movingIds.has(id))),
+  }));
+  remaining.filter(source => source.orders.length > 0).forEach(source => assertOneTrade(source.orders));
+
+  const builder = await getBuilder(userId);
+  const saved = await builder.saveCorrectedTrade(userId, targetOrders.map(order => order.id), target?.id);
+  const tradeIds = [saved.id];
+  const deletedTradeIds: string[] = [];
+
+  for (const source of remaining) {
+    if (source.orders.length > 0) {
+      await builder.saveCorrectedTrade(userId, source.orders.map(order => order.id), source.trade.id);
+      tradeIds.push(source.trade.id);
+    } else {
+      deletedTradeIds.push(source.trade.id);
+    }
+  }
+
+  await tradesRepo.deleteEmptyTrades(userId, deletedTradeIds);
+  await recordLocked(
+    userId,
+    [...(target ? [target] : []), ...sources].filter(trade => tradeIds.includes(trade.id)),
+    CHANGE_SOURCES.MOVE
+  );
+  await cashActivitiesRepo.attributeFinancingCosts(userId);
+  await optionStrategiesRepo.detectStrategies(userId);
+
+  console.log(`[TRADE CORRECTIONS] Moved ${moving.length} orders into trade ${saved.id}`, {
+    sourceTrades: sources.length,
+    deletedTrades: deletedTradeIds.length,
+  });
+  return { tradeIds, deletedTradeIds };
+}
+
+/**
+ * Lock or unlock a trade; an unlocked trade can be regrouped by the next rebuild
+ */
+export async function setTradeLocked(userId: string, tradeId: string, locked: boolean): Promise<void> {
+  const trade = await tradesRepo.getTradeById(userId, tradeId);
+  if (!trade || !await tradesRepo.setTradeLocked(userId, tradeId, locked)) {
+    throw new TradeCorrectionError('Trade not found', 404);
+  }
+  await changeHistoryRepo.recordChanges(
+    userId, userId, ChangeEntityType.TRADE, trade.id, trade, { isLocked: locked }, CHANGE_SOURCES.LOCK
+  );
+}
+
+/**
+ * Record the lock a correction put on trades that existed before it
+ */
+async function recordLocked(userId: string, trades: Trade[], source: ChangeSource): Promise<void> {
+  for (const trade of trades) {
+    await changeHistoryRepo.recordChanges(
+      userId, userId, ChangeEntityType.TRADE, trade.id, trade, { isLocked: true }, source
+    );
+  }
+}
+
+/**
+ * Get the user's calculated trades by id, failing when any is missing
+ */
+async function getTrades(userId: string, tradeIds: string[]): Promise<Trade[]> {
+  const trades = await Promise.all(tradeIds.map(tradeId => tradesRepo.getTradeById(userId, tradeId)));
+  if (trades.some(trade => !trade || !trade.isCalculated)) {
+    throw new TradeCorrectionError('Trade not found', 404);
+  }
+  return trades as Trade[];
+}
+
+async function getBuilder(userId: string): Promise<TradeBuilder> {
+  return new TradeBuilder(await tradeLotsRepo.getLotMatchingMethod(userId));
+}
@@ -0,0 +1,58 @@
+/**
+ * Commission and fee allocation
+ *
+ * Orders carry their own commission/fees. Trades roll those up so every trade knows its
+ * costs and can report net P&L alongside the gross figure. Financing costs come from the
+ * cash ledger instead (see financingCosts.ts).
+ */
+
+type CostValue = { toString(): string } | number | string | null | undefined;
+
+export interface TradeCosts {
+  commission: number;
+  fees: number;
+}
+
+function toAmount(value: CostValue): number {
+  if (value === null || value === undefined) return 0;
+  const parsed = typeof value === 'number' ? value : parseFloat(value.toString());
+  return isFinite(parsed) ? parsed : 0;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100 || 0;
+}
+
+/**
+ * Sum commission and fees across the orders that make up a trade
+ */
+export function sumOrderCosts(orders: Array<{ commission?: CostValue; fees?: CostValue }>): TradeCosts {
+  return orders.reduce<TradeCosts>(
+    (total, order) => ({
+      commission: roundCents(total.commission + toAmount(order.commission)),
+      fees: roundCents(total.fees + toAmount(order.fees)),
+    }),
+    { commission: 0, fees: 0 }
+  );
+}
+
+/**
+ * Net P&L after commission, fees and any borrow fees or margin interest attributed to the trade
+ */
+export function calculateNetPnl(grossPnl: number, commission: CostValue, fees: CostValue, financingCost?: CostValue): number {
+  return roundCents(grossPnl - toAmount(commission) - toAmount(fees) - toAmount(financingCost));
+}
+
+/**
+ * Split a cost between two order parts by quantity
+ * The second part takes the rounding remainder so the parts always add back to the original
+ */
+export function prorateCost(amount: CostValue, quantity1: number, quantity2: number): [number, number] | null {
+  if (amount === null || amount === undefined) return null;
+
+  const total = toAmount(amount);
+  const totalQuantity = quantity1 + quantity2;
+  const first = totalQuantity > 0 ? roundCents(total * (quantity1 / totalQuantity)) : 0;
+
+  return [first, roundCents(total - first)];
+}
@@ -0,0 +1,69 @@
+/**
+ * Trade grouping rules
+ *
+ * Flat-to-flat is the default: a trade runs from opening a position until it is flat again.
+ * Round trip reports every exit as its own trade with the entries it closed, and time-merged
+ * keeps flat-to-flat but folds a same-side reopen within a few minutes back into the closed trade.
+ */
+
+import { TradeGroupingMode } from '@prisma/client';
+import { ClosedLot, PositionLot } from './lotMatching';
+import { roundQuantity } from './precision';
+
+export interface TradeGroupingSettings {
+  mode: TradeGroupingMode;
+  mergeWindowMinutes: number;
+}
+
+export interface EntrySplit {
+  orderId: string;
+  closedQuantity: number;
+  remainingQuantity: number; // Left open after the exit; 0 when the whole entry was closed
+}
+
+export const MAX_MERGE_WINDOW_MINUTES = 24 * 60;
+
+export const DEFAULT_TRADE_GROUPING: TradeGroupingSettings = {
+  mode: TradeGroupingMode.FLAT_TO_FLAT,
+  mergeWindowMinutes: 5,
+};
+
+export const TRADE_GROUPING_MODE_LABELS: Record<TradeGroupingMode, string> = {
+  FLAT_TO_FLAT: 'Flat to flat',
+  ROUND_TRIP: 'Each exit separately',
+  TIME_MERGED: 'Merge quick re-entries',
+};
+
+/**
+ * Whether a same-side reopen continues the trade that closed at closeTime
+ */
+export function canMergeReopen(settings: TradeGroupingSettings, closeTime: Date, reopenTime: Date): boolean {
+  if (settings.mode !== TradeGroupingMode.TIME_MERGED) return false;
+  const gap = reopenTime.getTime() - closeTime.getTime();
+  return gap >= 0 && gap <= settings.mergeWindowMinutes * 60 * 1000;
+}
+
+/**
+ * How far back a new execution can reach into earlier trades of the same position
+ * Only time-merged grouping joins trades across a gap
+ */
+export function getMergeWindowMs(settings: TradeGroupingSettings): number {
+  return settings.mode === TradeGroupingMode.TIME_MERGED ? settings.mergeWindowMinutes * 60 * 1000 : 0;
+}
+
+/**
+ * Entries an exit closed, with the quantity each leaves open
+ * Entries left partly open must be split so the round trip and the open position each keep whole orders
+ */
+export function planEntrySplits(exitLots: ClosedLot[], remainingLots: PositionLot[]): EntrySplit[] {
+  const closedByOrder = new Map<string, number>();
+  for (const lot of exitLots) {
+    closedByOrder.set(lot.openOrderId, roundQuantity((closedByOrder.get(lot.openOrderId) ?? 0) + lot.quantity));
+  }
+
+  return Array.from(closedByOrder, ([orderId, closedQuantity]) => ({
+    orderId,
+    closedQuantity,
+    remainingQuantity: remainingLots.find(lot => lot.orderId === orderId)?.quantity ?? 0,
+  }));
+}
@@ -1,5 +1,6 @@
 import { ExecutionOrder } from '@/components/ExecutionsTable';
 import { OHLCData } from '@/lib/marketData/types';
+import { getFuturesContractSpec, calculateFuturesPnlMeasures } from '@/lib/futuresContracts';
 
 export interface TradeMetrics {
   mfe: number;           // Maximum Favorable Excursion (max unrealized profit)
@@ -13,6 +14,8 @@ export interface TradeMetrics {
   exitPrice?: number;    // Average exit price (if closed)
   realizedPnl?: number;  // Actual P&L if trade is closed
   efficiency?: number;   // How much of MFE was captured (realizedPnl/mfe)
+  realizedPoints?: number; // Futures only: per-contract P&L in points
+  realizedTicks?: number;  // Futures only: per-contract P&L in ticks
 }
 
 export interface TradePosition {
@@ -78,9 +81,16 @@ export function calculateTradeMetrics(position: TradePosition): TradeMetrics | n
   // Calculate MFE/MAE ratio (avoid division by zero)
   const mfeRatio = mae > 0 ? mfe / mae : mfe > 0 ? Infinity : 0;
 
+  // Futures and options move in points, not dollars per share
+  const futuresSpec = executions[0].assetClass === 'FUTURES' ? getFuturesContractSpec(position.symbol) : null;
+  const storedMultiplier = Number(executions[0].contractMultiplier ?? 1) || 1;
+  const multiplier = futuresSpec && storedMultiplier === 1 ? futuresSpec.pointValue : storedMultiplier;
+
   // Calculate realized P&L if trade is closed
   let realizedPnl: number | undefined;
   let efficiency: number | undefined;
+  let realizedPoints: number | undefined;
+  let realizedTicks: number | undefined;
   
   if (exitPrice !== undefined) {
     const totalEntryQty = entryExecutions.reduce((sum, e) => sum + e.orderQuantity, 0);
@@ -88,14 +98,20 @@ export function calculateTradeMetrics(position: TradePosition): TradeMetrics | n
     const closedQty = Math.min(totalEntryQty, totalExitQty);
     
     realizedPnl = isLongTrade 
-      ? (exitPrice - entryPrice) * closedQty
-      : (entryPrice - exitPrice) * closedQty;
+      ? (exitPrice - entryPrice) * closedQty * multiplier
+      : (entryPrice - exitPrice) * closedQty * multiplier;
     
     // Calculate efficiency (what % of MFE was captured)
     if (mfe > 0) {
-      const maxPossibleProfit = mfe * closedQty;
+      const maxPossibleProfit = mfe * closedQty * multiplier;
       efficiency = (realizedPnl / maxPossibleProfit) * 100;
     }
+
+    if (futuresSpec) {
+      const measures = calculateFuturesPnlMeasures(futuresSpec, isLongTrade ? 'LONG' : 'SHORT', entryPrice, exitPrice);
+      realizedPoints = measures.pnlPoints;
+      realizedTicks = measures.pnlTicks;
+    }
   }
 
   return {
@@ -109,7 +125,9 @@ export function calculateTradeMetrics(position: TradePosition): TradeMetrics | n
     entryPrice,
     exitPrice,
     realizedPnl,
-    efficiency
+    efficiency,
+    realizedPoints,
+    realizedTicks
   };
 }
 
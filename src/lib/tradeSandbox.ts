@@ -0,0 +1,189 @@
+import { AssetClass, BrokerType, CorporateAction, DatePrecision, ImportSource, Order, OrderSide, Prisma, Trade } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { getEffectiveTime, restateOrder, toCorporateActionTerms } from './corporateActions';
+import { toQuantity } from './precision';
+import { prorateCost } from './tradeFees';
+import type { TradeBuilderStore } from './tradeBuilder';
+
+type DecimalInput = Prisma.Decimal | Prisma.DecimalJsLike | number | string;
+type ListInput = string[] | { set: string[] };
+
+const toDecimal = (value: DecimalInput): Decimal => new Decimal(typeof value === 'number' ? value : value.toString());
+const toNullableDecimal = (value: DecimalInput | null | undefined): Decimal | null =>
+  value === null || value === undefined ? null : toDecimal(value);
+const toNullableDate = (value: Date | string | null | undefined): Date | null =>
+  value === null || value === undefined ? null : new Date(value);
+const toList = (value: ListInput | undefined): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : value.set;
+
+/**
+ * The order an import would store, as the trade builder reads it back
+ */
+export function toSandboxOrder(id: string, data: Prisma.OrderUncheckedCreateInput): Order {
+  return {
+    id,
+    userId: data.userId,
+    orderId: data.orderId,
+    parentOrderId: data.parentOrderId ?? null,
+    splitFromOrderId: data.splitFromOrderId ?? null,
+    symbol: data.symbol,
+    assetClass: data.assetClass ?? AssetClass.EQUITY,
+    orderType: data.orderType,
+    side: data.side,
+    timeInForce: data.timeInForce,
+    orderQuantity: toDecimal(data.orderQuantity),
+    limitPrice: toNullableDecimal(data.limitPrice),
+    stopPrice: toNullableDecimal(data.stopPrice),
+    orderStatus: data.orderStatus,
+    orderPlacedTime: new Date(data.orderPlacedTime),
+    orderExecutedTime: toNullableDate(data.orderExecutedTime),
+    orderUpdatedTime: toNullableDate(data.orderUpdatedTime),
+    orderCancelledTime: toNullableDate(data.orderCancelledTime),
+    accountId: data.accountId ?? null,
+    orderAccount: data.orderAccount ?? null,
+    tradingAccountId: data.tradingAccountId ?? null,
+    orderRoute: data.orderRoute ?? null,
+    brokerType: data.brokerType ?? BrokerType.GENERIC_CSV,
+    brokerId: data.brokerId ?? null,
+    commission: toNullableDecimal(data.commission),
+    fees: toNullableDecimal(data.fees),
+    currency: data.currency ?? null,
+    tags: toList(data.tags),
+    usedInTrade: false,
+    tradeId: null,
+    importBatchId: data.importBatchId ?? null,
+    importSource: data.importSource ?? ImportSource.CSV,
+    activityHash: data.activityHash ?? null,
+    brokerMetadata: null, // Trades are built without it
+    datePrecision: data.datePrecision ?? DatePrecision.MILLISECOND,
+    importSequence: data.importSequence ?? null,
+    snapTradeActivityId: data.snapTradeActivityId ?? null,
+    underlyingSymbol: data.underlyingSymbol ?? null,
+    optionRight: data.optionRight ?? null,
+    strikePrice: toNullableDecimal(data.strikePrice),
+    expirationDate: toNullableDate(data.expirationDate),
+    contractMultiplier: toDecimal(data.contractMultiplier ?? 1),
+    optionEvent: data.optionEvent ?? null,
+    appliedCorporateActionIds: toList(data.appliedCorporateActionIds),
+  };
+}
+
+/**
+ * In-memory orders for a trade build that must not touch the database
+ * Orders start unlinked from their trades, so a build over them rebuilds every trade they make.
+ * Splits, side changes and corporate action restatements change the sandbox's copies only.
+ */
+export class TradeSandbox implements TradeBuilderStore {
+  private orders = new Map<string, Order>();
+
+  constructor(orders: Order[]) {
+    for (const order of orders) {
+      this.orders.set(order.id, { ...order, tradeId: null, usedInTrade: false });
+    }
+  }
+
+  async getUnprocessedOrders(userId: string): Promise<Order[]> {
+    return this.getUserOrders(userId)
+      .filter(order => order.orderExecutedTime && !order.orderCancelledTime && !order.tradeId && !order.usedInTrade)
+      .sort((a, b) => a.orderExecutedTime!.getTime() - b.orderExecutedTime!.getTime())
+      .map(order => ({ ...order }));
+  }
+
+  async getOrdersByIds(orderIds: string[]): Promise<Order[]> {
+    return orderIds
+      .map(id => this.orders.get(id))
+      .filter((order): order is Order => order !== undefined)
+      .map(order => ({ ...order }));
+  }
+
+  // The sandbox holds no trades, so there is nothing to unwind
+  async getTradeIdsExecutedSince(): Promise<string[]> {
+    return [];
+  }
+
+  async unwindTrades(): Promise<Trade[]> {
+    return [];
+  }
+
+  async getAllOpenTrades(): Promise<Trade[]> {
+    return [];
+  }
+
+  async getPendingTradeIds(): Promise<string[]> {
+    return [];
+  }
+
+  async getShareSymbols(userId: string): Promise<string[]> {
+    return Array.from(new Set(
+      this.getUserOrders(userId).filter(order => !order.optionRight).map(order => order.symbol)
+    ));
+  }
+
+  async splitOrder(orderId: string, quantity1: number, quantity2: number): Promise<[string, string]> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    const [commission1, commission2] = prorateCost(order.commission, quantity1, quantity2) ?? [null, null];
+    const [fees1, fees2] = prorateCost(order.fees, quantity1, quantity2) ?? [null, null];
+    const toPart = (part: number, quantity: number, commission: number | null, fees: number | null): Order => ({
+      ...order,
+      id: `${order.id}-split-${part}`,
+      orderId: `${order.orderId}-split-${part}`,
+      splitFromOrderId: order.id,
+      orderQuantity: new Decimal(quantity),
+      commission: commission !== null ? new Decimal(commission) : null,
+      fees: fees !== null ? new Decimal(fees) : null,
+    });
+    const parts = [toPart(1, quantity1, commission1, fees1), toPart(2, quantity2, commission2, fees2)];
+
+    this.orders.delete(orderId);
+    for (const part of parts) {
+      this.orders.set(part.id, part);
+    }
+    return [parts[0].id, parts[1].id];
+  }
+
+  async updateOrderSide(orderId: string, side: OrderSide): Promise<void> {
+    const order = this.orders.get(orderId);
+    if (order) {
+      order.side = side;
+    }
+  }
+
+  async restateOrders(userId: string, action: CorporateAction): Promise<number> {
+    const effectiveTime = getEffectiveTime(action.effectiveDate);
+    const pending = this.getUserOrders(userId).filter(order =>
+      order.symbol === action.symbol &&
+      !order.optionRight &&
+      !order.tradeId &&
+      order.orderExecutedTime !== null && order.orderExecutedTime < effectiveTime &&
+      !order.appliedCorporateActionIds.includes(action.id)
+    );
+
+    const terms = toCorporateActionTerms(action);
+    for (const order of pending) {
+      const restated = restateOrder({
+        symbol: order.symbol,
+        orderQuantity: toQuantity(order.orderQuantity),
+        limitPrice: order.limitPrice !== null ? Number(order.limitPrice) : null,
+        stopPrice: order.stopPrice !== null ? Number(order.stopPrice) : null,
+      }, terms);
+
+      this.orders.set(order.id, {
+        ...order,
+        symbol: restated.symbol,
+        orderQuantity: new Decimal(restated.orderQuantity),
+        limitPrice: restated.limitPrice !== null ? new Decimal(restated.limitPrice) : null,
+        stopPrice: restated.stopPrice !== null ? new Decimal(restated.stopPrice) : null,
+        appliedCorporateActionIds: [...order.appliedCorporateActionIds, action.id],
+      });
+    }
+    return pending.length;
+  }
+
+  private getUserOrders(userId: string): Order[] {
+    return Array.from(this.orders.values()).filter(order => order.userId === userId);
+  }
+}
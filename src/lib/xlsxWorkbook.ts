@@ -0,0 +1,355 @@
+/**
+ * Excel workbook (.xlsx) reading
+ *
+ * An .xlsx file is a zip of XML parts: the workbook lists its sheets, each sheet holds rows of
+ * cells, and text lives in a shared string table. One sheet is turned into CSV text from the
+ * header row down, so spreadsheet statements go through the same CSV ingestion, broker format
+ * detection and header fingerprinting as CSV exports of the same statement.
+ */
+
+import { inflateRawSync } from 'zlib';
+import { decodeEntities, readAttributes } from '@/lib/xmlText';
+
+// Rows searched for the header row when the user has not picked one
+const HEADER_SEARCH_ROWS = 20;
+
+// Built-in number formats that display dates or times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Uncompressed size the parts read from one workbook may add up to, so a zip bomb cannot exhaust memory
+const MAX_INFLATED_BYTES = 200 * 1024 * 1024;
+
+const INVALID_WORKBOOK = 'The file is not a valid .xlsx workbook';
+const WORKBOOK_TOO_LARGE = `The workbook is larger than ${MAX_INFLATED_BYTES / 1024 / 1024} MB uncompressed`;
+
+/**
+ * A workbook that cannot be read or a sheet / header row that does not exist
+ */
+export class XlsxReadError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'XlsxReadError';
+  }
+}
+
+export interface XlsxSheet {
+  name: string;
+  readRows: () => string[][]; // Cell text by row and column, dates as "YYYY-MM-DD HH:MM:SS"
+}
+
+export interface XlsxSheetSummary {
+  name: string;
+  rowCount: number | null; // Rows with at least one value; null for sheets that were not read
+}
+
+export interface XlsxConversionOptions {
+  sheetName?: string; // Defaults to the first sheet with data
+  headerRow?: number; // 1-based, as numbered in Excel; detected when not given
+}
+
+export interface XlsxConversion {
+  csv: string;
+  sheets: XlsxSheetSummary[];
+  sheetName: string;
+  headerRow: number; // 1-based
+}
+
+export function isXlsxFile(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith('.xlsx');
+}
+
+/**
+ * Run a read of the archive, reporting truncated, malformed and oversized archives as XlsxReadError
+ */
+function readArchive<T>(read: () => T): T {
+  try {
+    return read();
+  } catch (error: unknown) {
+    if (error instanceof XlsxReadError) throw error;
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new XlsxReadError(WORKBOOK_TOO_LARGE);
+    }
+    // Offsets past the end of the file and corrupt deflate data
+    throw new XlsxReadError(INVALID_WORKBOOK);
+  }
+}
+
+/**
+ * Files of a zip archive, read from its central directory
+ * Files are inflated when read, and all reads together stay within MAX_INFLATED_BYTES.
+ */
+function readZipEntries(buffer: Buffer): Map<string, () => Buffer> {
+  return readArchive(() => readCentralDirectory(buffer));
+}
+
+function readCentralDirectory(buffer: Buffer): Map<string, () => Buffer> {
+  let endOffset = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new XlsxReadError(INVALID_WORKBOOK);
+  }
+
+  const entries = new Map<string, () => Buffer>();
+  let inflatedBytes = 0;
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+
+  for (let i = 0; i < entryCount && buffer.readUInt32LE(offset) === 0x02014b50; i++) {
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => readArchive(() => {
+      const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      if (dataStart + compressedSize > buffer.length) {
+        throw new XlsxReadError(INVALID_WORKBOOK);
+      }
+      if (method !== 0 && method !== 8) {
+        throw new XlsxReadError(`Unsupported compression in ${name}`);
+      }
+
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+      const remaining = MAX_INFLATED_BYTES - inflatedBytes;
+      const content = method === 0 || data.length === 0 ? data : inflateRawSync(data, { maxOutputLength: Math.max(remaining, 1) });
+      if (content.length > remaining) {
+        throw new XlsxReadError(WORKBOOK_TOO_LARGE);
+      }
+      inflatedBytes += content.length;
+      return content;
+    }));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function readPart(entries: Map<string, () => Buffer>, path: string): string | undefined {
+  return entries.get(path.replace(/^\//, ''))?.().toString('utf8');
+}
+
+function readSharedStrings(xml: string | undefined): string[] {
+  if (!xml) return [];
+  return [...xml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(([, item]) =>
+    // Phonetic runs (rPh) are reading aids, not part of the text
+    [...item.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)]
+      .map(([, text]) => decodeEntities(text))
+      .join('')
+  );
+}
+
+/**
+ * Which cell styles display numbers as dates or times, and whether with a time of day
+ */
+function readDateStyles(xml: string | undefined): Map<number, 'date' | 'datetime' | 'time'> {
+  const styles = new Map<number, 'date' | 'datetime' | 'time'>();
+  if (!xml) return styles;
+
+  const customFormats = new Map<number, string>();
+  for (const [tag] of xml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const { numFmtId, formatCode } = readAttributes(tag);
+    customFormats.set(Number(numFmtId), formatCode ?? '');
+  }
+
+  const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? '';
+  [...cellXfs.matchAll(/<xf\b[^>]*>/g)].forEach(([tag], index) => {
+    const numFmtId = Number(readAttributes(tag).numFmtId ?? 0);
+    const format = customFormats.get(numFmtId);
+
+    if (format !== undefined) {
+      // Quoted text and [color] / [$-locale] sections are not date parts
+      const code = format.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '').toLowerCase();
+      const hasDate = /[dy]/.test(code) || /m/.test(code.replace(/h+:?m+|m+:?s+/g, ''));
+      const hasTime = /[hs]/.test(code);
+      if (hasDate || hasTime) styles.set(index, hasDate && hasTime ? 'datetime' : hasDate ? 'date' : 'time');
+    } else if (BUILTIN_DATE_FORMATS.has(numFmtId)) {
+      // 14-17 are dates, 22 a date with time, the rest times and durations
+      styles.set(index, numFmtId <= 17 ? 'date' : numFmtId === 22 ? 'datetime' : 'time');
+    }
+  });
+
+  return styles;
+}
+
+/**
+ * An Excel serial date as text CSV date parsing understands, in the workbook's own (local) time
+ */
+export function formatExcelDate(serial: number, kind: 'date' | 'datetime' | 'time'): string {
+  const date = new Date(EXCEL_EPOCH + Math.round(serial * MS_PER_DAY / 1000) * 1000);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+
+  if (kind === 'time' && serial < 1) return time;
+  if (kind === 'date' && Number.isInteger(serial)) return day;
+  return `${day} ${time}`;
+}
+
+function columnIndex(reference: string | undefined): number | null {
+  const letters = reference?.match(/^([A-Z]+)/i)?.[1].toUpperCase();
+  if (!letters) return null;
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function readSheetRows(xml: string, sharedStrings: string[], dateStyles: Map<number, 'date' | 'datetime' | 'time'>): string[][] {
+  const rows: string[][] = [];
+
+  for (const [, rowTag, rowBody] of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(readAttributes(rowTag).r) || rows.length + 1;
+    const cells: string[] = [];
+
+    for (const [, cellTag, cellBody = ''] of (rowBody ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const { r, t, s } = readAttributes(cellTag);
+      const column = columnIndex(r) ?? cells.length;
+      const raw = cellBody.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (t === 's') {
+        value = sharedStrings[Number(raw)] ?? '';
+      } else if (t === 'inlineStr') {
+        value = [...cellBody.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map(([, text]) => decodeEntities(text)).join('');
+      } else if (t === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else if (raw !== undefined) {
+        const dateKind = t === undefined || t === 'n' ? dateStyles.get(Number(s ?? 0)) : undefined;
+        value = dateKind && raw.trim() !== '' ? formatExcelDate(Number(raw), dateKind) : decodeEntities(raw);
+      }
+
+      // Formatted but empty cells can sit far to the right of the data
+      if (value !== '') cells[column] = value;
+    }
+
+    if (cells.length > 0) rows[rowNumber - 1] = Array.from(cells, cell => cell ?? '');
+  }
+
+  return Array.from(rows, row => row ?? []);
+}
+
+/**
+ * The worksheets of a workbook, in tab order
+ * A sheet's part is only inflated and parsed when its rows are read.
+ */
+export function readXlsxWorkbook(buffer: Buffer): XlsxSheet[] {
+  const entries = readZipEntries(buffer);
+  const workbook = readPart(entries, 'xl/workbook.xml');
+  if (!workbook) {
+    throw new XlsxReadError(INVALID_WORKBOOK);
+  }
+
+  const targets = new Map<string, string>();
+  for (const [tag] of (readPart(entries, 'xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\b[^>]*>/g)) {
+    const { Id, Target } = readAttributes(tag);
+    if (Id && Target) targets.set(Id, Target.startsWith('/') ? Target.slice(1) : `xl/${Target}`);
+  }
+
+  let sharedStrings: string[] | undefined;
+  let dateStyles: Map<number, 'date' | 'datetime' | 'time'> | undefined;
+
+  return [...workbook.matchAll(/<sheet\b[^>]*>/g)].flatMap(([tag]) => {
+    const attributes = readAttributes(tag);
+    const relationId = Object.entries(attributes).find(([name]) => /(^|:)id$/.test(name) && name !== 'sheetId')?.[1];
+    const path = relationId ? targets.get(relationId) : undefined;
+    // Chart sheets and dialog sheets have no worksheet part
+    if (!path || !entries.has(path)) return [];
+
+    return [{
+      name: attributes.name,
+      readRows: () => {
+        sharedStrings ??= readSharedStrings(readPart(entries, 'xl/sharedStrings.xml'));
+        dateStyles ??= readDateStyles(readPart(entries, 'xl/styles.xml'));
+        return readSheetRows(readPart(entries, path) ?? '', sharedStrings, dateStyles);
+      },
+    }];
+  });
+}
+
+function hasValue(cell: string | undefined): boolean {
+  return !!cell && cell.trim() !== '';
+}
+
+/**
+ * Index of the likely header row: among the first rows, the first with the most text (non-numeric) cells
+ * Statements often open with a title, account details and a blank line before the table.
+ */
+export function detectHeaderRow(rows: string[][]): number {
+  let best = 0;
+  let bestScore = 0;
+  rows.slice(0, HEADER_SEARCH_ROWS).forEach((row, index) => {
+    const score = row.filter(cell => hasValue(cell) && isNaN(Number(cell))).length;
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV text of one sheet from its header row down
+ * Header cells are trimmed and line breaks in them collapsed, so they fingerprint like the same
+ * broker's CSV headers; columns without a header or any value are dropped, as are blank rows.
+ */
+export function sheetToCsv(rows: string[][], headerIndex: number): string {
+  const header = (rows[headerIndex] ?? []).map(cell => cell.replace(/\s+/g, ' ').trim());
+  const body = rows.slice(headerIndex + 1).filter(row => row.some(hasValue));
+  const width = body.reduce((max, row) => Math.max(max, row.length), header.length);
+  const columns = Array.from({ length: width }, (_, index) => index)
+    .filter(index => hasValue(header[index]) || body.some(row => hasValue(row[index])));
+
+  return [header, ...body]
+    .map(row => columns.map(index => toCsvField(row[index] ?? '')).join(','))
+    .join('\n');
+}
+
+/**
+ * Convert the chosen sheet of a workbook to CSV text for ingestion
+ */
+export function convertXlsxToCsv(buffer: Buffer, options: XlsxConversionOptions = {}): XlsxConversion {
+  const sheets = readXlsxWorkbook(buffer);
+  const rowsRead = new Map<string, string[][]>();
+  const readRows = (sheet: XlsxSheet) => {
+    const rows = rowsRead.get(sheet.name) ?? sheet.readRows();
+    rowsRead.set(sheet.name, rows);
+    return rows;
+  };
+
+  // Sheets are read in tab order only until the one to convert is found
+  const sheet = options.sheetName
+    ? sheets.find(candidate => candidate.name === options.sheetName)
+    : sheets.find(candidate => readRows(candidate).some(row => row.some(hasValue))) ?? sheets[0];
+  if (!sheet) {
+    throw new XlsxReadError(options.sheetName ? `Sheet "${options.sheetName}" not found in the workbook` : 'The workbook has no sheets');
+  }
+  const rows = readRows(sheet);
+
+  const headerIndex = options.headerRow ? options.headerRow - 1 : detectHeaderRow(rows);
+  if (headerIndex < 0 || !rows[headerIndex]?.some(hasValue)) {
+    throw new XlsxReadError(`Row ${headerIndex + 1} of "${sheet.name}" is empty; choose the row with the column headers`);
+  }
+
+  return {
+    csv: sheetToCsv(rows, headerIndex),
+    sheets: sheets.map(({ name }) => ({
+      name,
+      rowCount: rowsRead.get(name)?.filter(row => row.some(hasValue)).length ?? null,
+    })),
+    sheetName: sheet.name,
+    headerRow: headerIndex + 1,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * XML text
+ *
+ * Entity decoding and attribute reading shared by the parsers that read XML without a DOM: Excel
+ * workbooks, IBKR Flex Query exports and OFX/QFX statements.
+ */
+
+// The predefined XML entities, plus &nbsp; from the SGML flavour of OFX
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Replace named and numeric character references; unknown names are left as they are
+ * Names are matched in any case, as SGML statements write them.
+ */
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    }
+    return XML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Attributes of a start tag, by name with decoded values
+ */
+export function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of tag.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[name] = decodeEntities(doubleQuoted ?? singleQuoted ?? '');
+  }
+  return attributes;
+}
@@ -1,5 +1,9 @@
 import { prisma } from '@/lib/prisma';
-import { Order, Trade, OrderSide, TradeSide, OrderStatus } from '@prisma/client';
+import { Order, Trade, OrderSide, TradeSide, OrderStatus, TradeGroupingMode } from '@prisma/client';
+import { roundQuantity, toQuantity } from '@/lib/precision';
+import { tradesRepo } from '@/lib/repositories/tradesRepo';
+import { TradeGroupingSettings, DEFAULT_TRADE_GROUPING, canMergeReopen } from '@/lib/tradeGrouping';
+import { calculateNetPnl, prorateCost, sumOrderCosts, TradeCosts } from '@/lib/tradeFees';
 
 interface OpenPosition {
   symbol: string;
@@ -9,6 +13,10 @@ interface OpenPosition {
   costBasis: number;
   openTime: Date;
   totalQuantity: number;
+  multiplier: number; // Contract multiplier (100 for standard options, 1 for shares)
+  commission: number; // Entry costs of the quantity still open
+  fees: number;
+  closedSoFar?: CalculatedTrade; // Partial exits not reported yet (flat-to-flat and time-merged grouping)
 }
 
 interface CalculatedTrade {
@@ -22,11 +30,16 @@ interface CalculatedTrade {
   profitLoss: number;
   ordersInTrade: string[];
   ordersCount: number;
+  multiplier: number;
+  commission: number;
+  fees: number;
 }
 
 export class TradeCalculationService {
   private openPositions: Map<string, OpenPosition> = new Map();
   private completedTrades: CalculatedTrade[] = [];
+  private recentlyClosed: Map<string, CalculatedTrade> = new Map();
+  private grouping: TradeGroupingSettings = DEFAULT_TRADE_GROUPING;
 
   /**
    * Main function to build trades from orders
@@ -37,6 +50,8 @@ export class TradeCalculationService {
     // Reset state
     this.openPositions.clear();
     this.completedTrades = [];
+    this.recentlyClosed.clear();
+    this.grouping = await tradesRepo.getTradeGroupingSettings(userId);
 
     // Load existing open positions from calculated trades
     await this.loadOpenPositions(userId);
@@ -49,6 +64,13 @@ export class TradeCalculationService {
       await this.processOrder(order);
     }
 
+    // Only closed trades are stored here, so exits from positions still open are reported now
+    for (const position of this.openPositions.values()) {
+      if (position.closedSoFar) {
+        this.completedTrades.push(position.closedSoFar);
+      }
+    }
+
     // Store calculated trades in database
     await this.storeTrades(userId);
 
@@ -73,11 +95,14 @@ export class TradeCalculationService {
       this.openPositions.set(trade.symbol, {
         symbol: trade.symbol,
         side: trade.side,
-        remainingQuantity: trade.quantity || 0,
+        remainingQuantity: toQuantity(trade.quantity),
         orders: trade.ordersInTrade,
         costBasis: Number(trade.costBasis || 0),
         openTime: trade.openTime || trade.entryDate,
-        totalQuantity: trade.quantity || 0,
+        totalQuantity: toQuantity(trade.quantity),
+        multiplier: Number(trade.contractMultiplier ?? 1) || 1,
+        commission: Number(trade.commission ?? 0),
+        fees: Number(trade.fees ?? 0),
       });
     }
   }
@@ -107,11 +132,19 @@ export class TradeCalculationService {
     const symbol = order.symbol;
     const orderSide = order.side;
     const tradeSide = orderSide === OrderSide.BUY ? TradeSide.LONG : TradeSide.SHORT;
-    const quantity = order.orderQuantity;
+    const quantity = toQuantity(order.orderQuantity);
     const price = order.limitPrice ? Number(order.limitPrice) : 0;
 
     const openPosition = this.openPositions.get(symbol);
 
+    // Option expirations/assignments/exercises only ever close the open position
+    if (order.optionEvent) {
+      if (openPosition) {
+        this.handleOppositeOrder(openPosition, Math.min(quantity, openPosition.remainingQuantity), price, order);
+      }
+      return;
+    }
+
     if (!openPosition) {
       // No open position - create new one
       this.openNewPosition(symbol, tradeSide, quantity, price, order);
@@ -135,6 +168,22 @@ export class TradeCalculationService {
            (positionSide === TradeSide.SHORT && orderSide === OrderSide.SELL);
   }
 
+  /**
+   * Contract multiplier for an order (1 for shares)
+   */
+  private getMultiplier(order: Order): number {
+    return Number(order.contractMultiplier ?? 1) || 1;
+  }
+
+  /**
+   * Split costs between a part of a quantity and the rest of it
+   */
+  private splitCosts(costs: TradeCosts, partQuantity: number, restQuantity: number): [TradeCosts, TradeCosts] {
+    const [partCommission, restCommission] = prorateCost(costs.commission, partQuantity, restQuantity)!;
+    const [partFees, restFees] = prorateCost(costs.fees, partQuantity, restQuantity)!;
+    return [{ commission: partCommission, fees: partFees }, { commission: restCommission, fees: restFees }];
+  }
+
   /**
    * Open a new position
    */
@@ -150,14 +199,45 @@ export class TradeCalculationService {
       side,
       remainingQuantity: quantity,
       orders: [order.orderId],
-      costBasis: quantity * price,
+      costBasis: quantity * price * this.getMultiplier(order),
       openTime: order.orderExecutedTime!,
       totalQuantity: quantity,
+      multiplier: this.getMultiplier(order),
+      ...sumOrderCosts([order]),
     };
 
+    // Time-merged grouping - a quick same-side reopen continues the trade that just closed
+    const recent = this.recentlyClosed.get(symbol);
+    if (recent && recent.side === side && canMergeReopen(this.grouping, recent.closeTime, order.orderExecutedTime!)) {
+      this.completedTrades = this.completedTrades.filter(trade => trade !== recent);
+      position.closedSoFar = recent;
+      position.openTime = recent.openTime;
+    }
+    this.recentlyClosed.delete(symbol);
+
     this.openPositions.set(symbol, position);
   }
 
+  /**
+   * Fold an exit into the exits a position already reported
+   */
+  private mergeExit(closedSoFar: CalculatedTrade | undefined, exit: CalculatedTrade): CalculatedTrade {
+    if (!closedSoFar) return exit;
+
+    const ordersInTrade = Array.from(new Set([...closedSoFar.ordersInTrade, ...exit.ordersInTrade]));
+    return {
+      ...closedSoFar,
+      closeTime: exit.closeTime,
+      quantity: roundQuantity(closedSoFar.quantity + exit.quantity),
+      costBasis: closedSoFar.costBasis + exit.costBasis,
+      proceeds: closedSoFar.proceeds + exit.proceeds,
+      profitLoss: closedSoFar.profitLoss + exit.profitLoss,
+      ordersInTrade,
+      ordersCount: ordersInTrade.length,
+      ...sumOrderCosts([closedSoFar, exit]),
+    };
+  }
+
   /**
    * Add to existing position (same side)
    */
@@ -167,10 +247,13 @@ export class TradeCalculationService {
     price: number,
     order: Order
   ): void {
-    position.remainingQuantity += quantity;
-    position.totalQuantity += quantity;
-    position.costBasis += quantity * price;
+    position.remainingQuantity = roundQuantity(position.remainingQuantity + quantity);
+    position.totalQuantity = roundQuantity(position.totalQuantity + quantity);
+    position.costBasis += quantity * price * position.multiplier;
     position.orders.push(order.orderId);
+    const costs = sumOrderCosts([position, order]);
+    position.commission = costs.commission;
+    position.fees = costs.fees;
   }
 
   /**
@@ -184,11 +267,15 @@ export class TradeCalculationService {
   ): void {
     const closingQuantity = Math.min(quantity, position.remainingQuantity);
     
-    // Calculate proceeds for closing portion
-    const proceeds = closingQuantity * price;
+    // Calculate proceeds for closing portion (in dollars, scaled by the contract multiplier)
+    const proceeds = closingQuantity * price * position.multiplier;
     
-    // Calculate cost basis for closed portion
-    const closedCostBasis = (position.costBasis / position.totalQuantity) * closingQuantity;
+    // Calculate cost basis for closed portion (costBasis only covers the quantity still open)
+    const closedCostBasis = (position.costBasis / position.remainingQuantity) * closingQuantity;
+
+    // The closed portion carries its share of the entry costs and of the exit order's costs
+    const [closedEntryCosts, openEntryCosts] = this.splitCosts(position, closingQuantity, roundQuantity(position.remainingQuantity - closingQuantity));
+    const [exitCosts, reversalCosts] = this.splitCosts(sumOrderCosts([order]), closingQuantity, roundQuantity(quantity - closingQuantity));
     
     // Create completed trade
     const completedTrade: CalculatedTrade = {
@@ -204,32 +291,49 @@ export class TradeCalculationService {
         : closedCostBasis - proceeds,
       ordersInTrade: [...position.orders, order.orderId],
       ordersCount: position.orders.length + 1,
+      multiplier: position.multiplier,
+      ...sumOrderCosts([closedEntryCosts, exitCosts]),
     };
 
-    this.completedTrades.push(completedTrade);
+    const isFlat = quantity >= position.remainingQuantity;
+    if (this.grouping.mode === TradeGroupingMode.ROUND_TRIP) {
+      // Every exit is its own trade
+      this.completedTrades.push(completedTrade);
+    } else if (isFlat) {
+      const closedTrade = this.mergeExit(position.closedSoFar, completedTrade);
+      this.completedTrades.push(closedTrade);
+      this.recentlyClosed.set(position.symbol, closedTrade);
+    } else {
+      // Flat-to-flat - partial exits are reported with the exit that flattens the position
+      position.closedSoFar = this.mergeExit(position.closedSoFar, completedTrade);
+    }
 
     // Update or remove position
     if (quantity > position.remainingQuantity) {
       // Reverse position - open new position in opposite direction
       const newSide = position.side === TradeSide.LONG ? TradeSide.SHORT : TradeSide.LONG;
-      const remainingQuantity = quantity - position.remainingQuantity;
+      const remainingQuantity = roundQuantity(quantity - position.remainingQuantity);
       
       this.openPositions.set(position.symbol, {
         symbol: position.symbol,
         side: newSide,
         remainingQuantity,
         orders: [order.orderId],
-        costBasis: remainingQuantity * price,
+        costBasis: remainingQuantity * price * position.multiplier,
         openTime: order.orderExecutedTime!,
         totalQuantity: remainingQuantity,
+        multiplier: position.multiplier,
+        ...reversalCosts,
       });
     } else if (quantity === position.remainingQuantity) {
       // Exact close - remove position
       this.openPositions.delete(position.symbol);
     } else {
       // Partial close - update position
-      position.remainingQuantity -= closingQuantity;
+      position.remainingQuantity = roundQuantity(position.remainingQuantity - closingQuantity);
       position.costBasis -= closedCostBasis;
+      position.commission = openEntryCosts.commission;
+      position.fees = openEntryCosts.fees;
     }
   }
 
@@ -264,14 +368,18 @@ export class TradeCalculationService {
           costBasis: trade.costBasis,
           proceeds: trade.proceeds,
           pnl: trade.profitLoss,
+          netPnl: calculateNetPnl(trade.profitLoss, trade.commission, trade.fees),
+          commission: trade.commission,
+          fees: trade.fees,
           ordersInTrade: trade.ordersInTrade,
           ordersCount: trade.ordersCount,
           isCalculated: true,
           entryDate: trade.openTime,
           exitDate: trade.closeTime,
           date: trade.closeTime,
-          entryPrice: trade.costBasis / trade.quantity,
-          exitPrice: trade.proceeds / trade.quantity,
+          entryPrice: trade.costBasis / (trade.quantity * trade.multiplier),
+          exitPrice: trade.proceeds / (trade.quantity * trade.multiplier),
+          contractMultiplier: trade.multiplier,
           importBatchId,
         },
       });
@@ -291,10 +399,10 @@ export class TradeCalculationService {
   }
 
   /**
-   * Recalculate trades for a specific import batch
+   * Recalculate trades after an import batch
+   * Every unprocessed order is built, so the batch's orders need no filter of their own.
    */
-  async recalculateForImportBatch(userId: string, _importBatchId: string): Promise<CalculatedTrade[]> {
-    // You can filter orders by import batch if needed
+  async recalculateForImportBatch(userId: string): Promise<CalculatedTrade[]> {
     return this.buildTrades(userId);
   }
 
@@ -4,7 +4,7 @@ export interface Trade {
   time: string;
   symbol: string;
   side: 'long' | 'short';
-  quantity: number;
+  quantity: number; // May be fractional (crypto, fractional shares)
   executions: number;
   pnl: number;
   entryPrice?: number;
@@ -21,8 +21,22 @@ export interface Trade {
   tags?: string[];
   commission?: number;
   fees?: number;
+  financingCost?: number; // Borrow fees and margin interest attributed from the cash ledger
   marketSession?: 'PRE_MARKET' | 'REGULAR' | 'AFTER_HOURS' | 'EXTENDED';
   orderType?: 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP' | 'MARKET_ON_CLOSE' | 'LIMIT_ON_CLOSE' | 'PEGGED_TO_MIDPOINT';
+  strategy?: TradeStrategy; // Set when this trade is one leg of a multi-leg option strategy
+  isLocked?: boolean; // Merged, split or reassigned by hand, so rebuilds leave it alone
+}
+
+export type StrategyType = 'VERTICAL' | 'IRON_CONDOR' | 'IRON_BUTTERFLY' | 'BUTTERFLY' | 'STRADDLE' | 'STRANGLE' | 'CALENDAR' | 'DIAGONAL' | 'CUSTOM';
+
+export interface TradeStrategy {
+  id: string;
+  type: StrategyType;
+  underlyingSymbol: string;
+  legCount: number;
+  pnl: number; // Combined P&L of every leg
+  maxRisk: number | null; // null when the loss is unlimited
 }
 
 export interface DayData {
@@ -107,6 +121,7 @@ export interface RecordsEntry {
 
 export interface FilterOptions {
   symbol?: string;
+  accountId?: string; // Managed Account.id; all accounts when unset
   side?: 'all' | 'long' | 'short';
   dateFrom?: string;
   dateTo?: string;
@@ -118,6 +133,7 @@ export interface FilterOptions {
   volumeRange?: { min: number; max: number };
   executionCountRange?: { min: number; max: number };
   timeRange?: { start: string; end: string }; // time of day, not date
+  viewMode?: PnlViewMode; // Report P&L gross or net of commission/fees
 }
 
 export interface TradeFilters {
@@ -131,6 +147,17 @@ export interface TradeFilters {
   side?: 'all' | 'long' | 'short';
   duration?: 'all' | 'intraday' | 'swing';
   showOpenTrades?: boolean;
+  accountId?: string;
+}
+
+export interface BrokerageAccount {
+  id: string;
+  externalId: string;
+  brokerId: string | null;
+  nickname: string | null;
+  type: 'LIVE' | 'PAPER' | 'IRA' | 'PROP';
+  startingBalance: number | null;
+  currency: string;
 }
 
 export interface TradesMetadata {
@@ -150,6 +177,7 @@ export interface ColumnConfiguration {
 }
 
 export type ViewMode = 'table' | 'gross' | 'net';
+export type PnlViewMode = Extract<ViewMode, 'gross' | 'net'>;
 export type ReportType = 'overview' | 'detailed' | 'win-vs-loss-days' | 'drawdown' | 'compare' | 'tag-breakdown' | 'advanced';
 export type DateRangeType = 'recent' | 'year-month-day' | 'calendar';
 
@@ -251,6 +279,7 @@ export interface AnalyticsData {
     dateTo?: string;
     symbol?: string;
     side?: string;
+    accountId?: string;
   };
 }
 
@@ -5,6 +5,8 @@
  * and provide IntelliSense support in IDEs.
  */
 
+import { PnlViewMode } from '@/types';
+
 // Win/Loss Report Types
 export interface WinLossMetrics {
   winRate: number;
@@ -169,6 +171,8 @@ export interface ReportFilters {
   side?: 'LONG' | 'SHORT' | 'all';
   tags?: string[];
   duration?: 'intraday' | 'multiday' | 'all';
+  viewMode?: PnlViewMode;
+  accountId?: string;
 }
 
 // Chart Data Types
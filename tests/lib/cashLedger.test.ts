@@ -0,0 +1,70 @@
+import { calculateAccountEquity, classifyCashActivity, detectCashRow, parseCashAmount, signCashAmount } from '@/lib/cashLedger';
+import { CashActivityType } from '@prisma/client';
+
+describe('cashLedger', () => {
+  it('should classify cash rows and leave trade rows alone', () => {
+    expect(classifyCashActivity('Qualified Dividend')).toBe(CashActivityType.DIVIDEND);
+    expect(classifyCashActivity('MARGIN INTEREST')).toBe(CashActivityType.MARGIN_INTEREST);
+    expect(classifyCashActivity('Hard to borrow fee')).toBe(CashActivityType.BORROW_FEE);
+    expect(classifyCashActivity('Short-term capital gains distribution')).toBe(CashActivityType.DIVIDEND);
+    expect(classifyCashActivity('Buy')).toBeNull();
+    expect(classifyCashActivity('Sell Short')).toBeNull();
+
+    expect(detectCashRow({ Date: '03/15/2024', Action: 'Sell', Symbol: 'AAPL', Amount: '$1,700.00' })).toBeNull();
+    expect(detectCashRow({
+      Date: '03/15/2024 as of 03/14/2024',
+      Action: 'Qualified Dividend',
+      Symbol: 'aapl',
+      Description: 'APPLE INC',
+      Amount: '$12.34',
+    })).toEqual({
+      activityType: CashActivityType.DIVIDEND,
+      amount: 12.34,
+      occurredAt: new Date('03/15/2024'),
+      description: 'Qualified Dividend - APPLE INC',
+      symbol: 'AAPL',
+      currency: undefined,
+      externalAccountId: undefined,
+    });
+  });
+
+  it('should read rows with a mapped side, quantity or price as trades', () => {
+    const tradeColumns = { side: 'Side', quantity: 'Qty', price: 'Price' };
+    const buy = { Date: '03/15/2024', Side: 'B', Symbol: 'VIG', Description: 'VANGUARD DIVIDEND APPRECIATION ETF', Amount: '-1,700.00' };
+
+    // Without the mapping the description reads as a dividend
+    expect(detectCashRow(buy)?.activityType).toBe(CashActivityType.DIVIDEND);
+    expect(detectCashRow(buy, tradeColumns)).toBeNull();
+    expect(detectCashRow({ ...buy, Side: '', Qty: '10', Price: '170' }, tradeColumns)).toBeNull();
+
+    const dividend = { Date: '03/15/2024', Side: 'Qualified Dividend', Qty: '', Price: '', Symbol: 'VIG', Amount: '$12.34' };
+    expect(detectCashRow(dividend, tradeColumns)).toMatchObject({ activityType: CashActivityType.DIVIDEND, amount: 12.34 });
+  });
+
+  it('should parse broker amounts and sign outflows', () => {
+    expect(parseCashAmount('$1,234.56')).toBe(1234.56);
+    expect(parseCashAmount('(12.50)')).toBe(-12.5);
+    expect(parseCashAmount('')).toBeNull();
+
+    expect(signCashAmount(CashActivityType.FEE, 4.95)).toBe(-4.95);
+    expect(signCashAmount(CashActivityType.WITHDRAWAL, -500)).toBe(-500);
+    expect(signCashAmount(CashActivityType.DIVIDEND, -3.2)).toBe(-3.2);
+  });
+
+  it('should separate trading P&L from cash flows in account equity', () => {
+    const trades = [
+      { date: new Date(2024, 2, 1, 10), exitDate: new Date(2024, 2, 2, 15), pnl: 150 },
+      { date: new Date(2024, 2, 4, 10), exitDate: null, pnl: -50 },
+    ];
+    const cash = [
+      { occurredAt: new Date(2024, 2, 1, 9), amount: 1000 },
+      { occurredAt: new Date(2024, 2, 4, 12), amount: -2.5 },
+    ];
+
+    expect(calculateAccountEquity(trades, cash, 5000)).toEqual([
+      { date: '2024-03-01', tradingPnl: 0, cashFlows: 1000, equity: 6000 },
+      { date: '2024-03-02', tradingPnl: 150, cashFlows: 1000, equity: 6150 },
+      { date: '2024-03-04', tradingPnl: 100, cashFlows: 997.5, equity: 6097.5 },
+    ]);
+  });
+});
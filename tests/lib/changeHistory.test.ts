@@ -0,0 +1,36 @@
+import { diffFields, formatChangeValue, toChangeValue } from '@/lib/changeHistory';
+import { ChangeEntityType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+describe('changeHistory', () => {
+  it('should store dates, decimals and empty strings in a comparable form', () => {
+    expect(toChangeValue(new Date('2024-03-01T14:30:00Z'))).toBe('2024-03-01T14:30:00.000Z');
+    expect(toChangeValue(new Decimal('1.25'))).toBe(1.25);
+    expect(toChangeValue('')).toBeNull();
+    expect(toChangeValue(undefined)).toBeNull();
+  });
+
+  it('should only diff tracked fields present in the update', () => {
+    const before = { notes: 'Early entry', tags: ['breakout'], isLocked: false, pnl: 120 };
+
+    expect(diffFields(ChangeEntityType.TRADE, before, { notes: 'Late entry', pnl: 80 })).toEqual([
+      { field: 'notes', oldValue: 'Early entry', newValue: 'Late entry' },
+    ]);
+    expect(diffFields(ChangeEntityType.TRADE, before, { tags: ['breakout'], isLocked: true })).toEqual([
+      { field: 'isLocked', oldValue: false, newValue: true },
+    ]);
+    expect(diffFields(ChangeEntityType.RECORDS_ENTRY, before, { tags: [] })).toEqual([]);
+  });
+
+  it('should diff manual execution fields across types', () => {
+    const before = { executedAt: new Date('2024-03-01T14:30:00Z'), price: new Decimal('101.5'), fees: null };
+    const after = { executedAt: '2024-03-01T14:30:00.000Z', price: 101.75, fees: 0.5 };
+
+    expect(diffFields(ChangeEntityType.ORDER, before, after)).toEqual([
+      { field: 'price', oldValue: 101.5, newValue: 101.75 },
+      { field: 'fees', oldValue: null, newValue: 0.5 },
+    ]);
+    expect(formatChangeValue(null)).toBe('(empty)');
+    expect(formatChangeValue([])).toBe('(none)');
+  });
+});
@@ -0,0 +1,144 @@
+import { CorporateAction, CorporateActionType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { CorporateActionTerms, getEffectiveTime, parseSplitRatio, restateOrder } from '@/lib/corporateActions';
+import { corporateActionsRepo } from '@/lib/repositories/corporateActionsRepo';
+
+interface StoredOrder {
+  id: string;
+  userId: string;
+  symbol: string;
+  optionRight: null;
+  orderExecutedTime: Date;
+  orderQuantity: Decimal;
+  limitPrice: Decimal | null;
+  stopPrice: Decimal | null;
+  appliedCorporateActionIds: string[];
+  tradeId: string | null;
+}
+
+// Stored orders behind the few queries the repository makes
+const mockOrders: StoredOrder[] = [];
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    order: {
+      findMany: jest.fn(async ({ where, distinct }) => {
+        const matches = mockOrders.filter(order =>
+          order.userId === where.userId &&
+          order.symbol === where.symbol &&
+          order.orderExecutedTime < where.orderExecutedTime.lt &&
+          !order.appliedCorporateActionIds.includes(where.NOT.appliedCorporateActionIds.has) &&
+          (where.tradeId === null ? order.tradeId === null : order.tradeId !== null)
+        );
+        return distinct
+          ? matches.filter((order, index) => matches.findIndex(other => other.tradeId === order.tradeId) === index)
+          : matches;
+      }),
+      update: jest.fn(async ({ where, data }) => {
+        const order = mockOrders.find(candidate => candidate.id === where.id)!;
+        Object.assign(order, { ...data, appliedCorporateActionIds: [...order.appliedCorporateActionIds, data.appliedCorporateActionIds.push] });
+        return order;
+      }),
+    },
+    $transaction: jest.fn((updates: Promise<unknown>[]) => Promise.all(updates)),
+  },
+}));
+
+describe('corporateActions', () => {
+  const reverseSplit: CorporateActionTerms = {
+    symbol: 'GE',
+    actionType: CorporateActionType.REVERSE_SPLIT,
+    effectiveDate: new Date('2021-08-02T00:00:00Z'),
+    ratioFrom: 8,
+    ratioTo: 1,
+    newSymbol: null,
+  };
+
+  it('should restate quantity and price inversely so cost basis is unchanged', () => {
+    const restated = restateOrder({ symbol: 'GE', orderQuantity: 800, limitPrice: 13, stopPrice: null }, reverseSplit);
+
+    expect(restated).toEqual({ symbol: 'GE', orderQuantity: 100, limitPrice: 104, stopPrice: null });
+  });
+
+  it('should move a ticker change onto the new symbol without touching quantity or price', () => {
+    const rename: CorporateActionTerms = {
+      ...reverseSplit,
+      symbol: 'FB',
+      actionType: CorporateActionType.SYMBOL_CHANGE,
+      ratioFrom: null,
+      ratioTo: null,
+      newSymbol: 'META',
+    };
+
+    expect(restateOrder({ symbol: 'FB', orderQuantity: 10, limitPrice: 196.64, stopPrice: 190 }, rename))
+      .toEqual({ symbol: 'META', orderQuantity: 10, limitPrice: 196.64, stopPrice: 190 });
+  });
+
+  it('should place the effective time between after-hours and pre-market', () => {
+    expect(getEffectiveTime(new Date('2024-06-10T00:00:00Z')).toISOString()).toBe('2024-06-10T05:00:00.000Z');
+  });
+
+  it('should read split ratios in either order from broker descriptions', () => {
+    expect(parseSplitRatio('NVDA 10 for 1 stock split', CorporateActionType.SPLIT)).toEqual({ ratioFrom: 1, ratioTo: 10 });
+    expect(parseSplitRatio('Reverse split 1:8', CorporateActionType.REVERSE_SPLIT)).toEqual({ ratioFrom: 8, ratioTo: 1 });
+    expect(parseSplitRatio('Stock split', CorporateActionType.SPLIT)).toBeNull();
+  });
+});
+
+describe('corporateActionsRepo', () => {
+  const userId = 'user-1';
+  const split = {
+    id: 'action-split',
+    symbol: 'AAPL',
+    actionType: CorporateActionType.SPLIT,
+    effectiveDate: new Date('2024-06-10T00:00:00Z'),
+    ratioFrom: new Decimal(1),
+    ratioTo: new Decimal(2),
+    newSymbol: null,
+  } as unknown as CorporateAction;
+
+  const storeOrders = (tradeId: string | null) => {
+    const order = (id: string, quantity: number, price: number, executedAt: string): StoredOrder => ({
+      id,
+      userId,
+      symbol: 'AAPL',
+      optionRight: null,
+      orderExecutedTime: new Date(executedAt),
+      orderQuantity: new Decimal(quantity),
+      limitPrice: new Decimal(price),
+      stopPrice: null,
+      appliedCorporateActionIds: [],
+      tradeId,
+    });
+    // A round trip closed before the split
+    mockOrders.splice(0, mockOrders.length, order('buy-1', 100, 10, '2024-03-01T15:00:00Z'), order('sell-1', 100, 12, '2024-04-01T15:00:00Z'));
+  };
+
+  // What the trade builder does for each action: unwind the pending trades, then restate
+  const applyAction = async () => {
+    const tradeIds = await corporateActionsRepo.getPendingTradeIds(userId, split);
+    for (const order of mockOrders) {
+      if (order.tradeId && tradeIds.includes(order.tradeId)) order.tradeId = null;
+    }
+    return await corporateActionsRepo.restateOrders(userId, split);
+  };
+
+  const restatedTerms = () => mockOrders.map(order => [order.orderQuantity.toNumber(), Number(order.limitPrice), order.tradeId]);
+
+  it('should restate orders from before an action whether their trade was built before or after it was added', async () => {
+    // Orders imported after the action was added
+    storeOrders(null);
+    expect(await applyAction()).toBe(2);
+    const importedAfter = restatedTerms();
+
+    // Trades built before the action was added
+    storeOrders('trade-1');
+    expect(await applyAction()).toBe(2);
+
+    expect(restatedTerms()).toEqual(importedAfter);
+    expect(importedAfter).toEqual([[200, 5, null], [200, 6, null]]);
+
+    // Each order takes an action once
+    expect(await applyAction()).toBe(0);
+  });
+});
@@ -0,0 +1,161 @@
+import { detectSectionedFormat, mapSectionedStatement, reconcilePositions, splitCsvSections } from '@/lib/csvSections';
+import { IBKR_ACTIVITY_STATEMENT, SCHWAB_ACCOUNT_STATEMENT, SECTIONED_STATEMENT_FORMATS } from '@/lib/brokerFormats/sectionedStatements';
+import { AssetClass, CashActivityType, DatePrecision, OptionRight, OrderSide, OrderType } from '@prisma/client';
+
+const ibkrStatement = [
+  'Statement,Header,Field Name,Field Value',
+  'Statement,Data,Title,Activity Statement',
+  'Account Information,Header,Field Name,Field Value',
+  'Account Information,Data,Account,U1234567',
+  'Trades,Header,DataDiscriminator,Asset Category,Currency,Symbol,Date/Time,Exchange,Quantity,T. Price,C. Price,Proceeds,Comm/Fee,Basis,Realized P/L,Code',
+  'Trades,Data,Order,Stocks,USD,AAPL,"2024-03-15, 09:30:12",-,"1,000",171.25,171.5,-171250,-5,171255,0,O',
+  'Trades,Data,Trade,Stocks,USD,AAPL,"2024-03-15, 09:30:12",ARCA,600,171.25,171.5,-102750,-3,102753,0,O',
+  'Trades,Data,Trade,Stocks,USD,AAPL,"2024-03-15, 09:30:12",NSDQ,400,171.25,171.5,-68500,-2,68502,0,O',
+  'Trades,SubTotal,,Stocks,USD,AAPL,,,"1,000",,,-171250,-5,171255,0,',
+  'Trades,Data,Trade,Equity and Index Options,USD,SPY 19APR24 510 P,"2024-03-15, 10:05:00",CBOE,-3,4.1,4.2,1230,-1.95,-1228.05,0,O',
+  'Trades,Data,Trade,Forex,USD,EUR.USD,"2024-03-15, 11:00:00",IDEALFX,1000,1.09,1.09,-1090,-2,0,0,',
+  'Trades,Total,,,,,,,,,,,,,,',
+  'Dividends,Header,Currency,Date,Description,Amount',
+  'Dividends,Data,USD,2024-03-20,AAPL(US0378331005) Cash Dividend USD 0.24 per Share (Ordinary Dividend),240',
+  'Dividends,Data,Total,,,240',
+  'Withholding Tax,Header,Currency,Date,Description,Amount,Code',
+  'Withholding Tax,Data,USD,2024-03-20,AAPL(US0378331005) Cash Dividend USD 0.24 per Share - US Tax,-36,',
+  'Fees,Header,Subtitle,Currency,Date,Description,Amount',
+  'Fees,Data,Other Fees,USD,2024-03-05,Market data subscription,-10',
+  'Interest,Header,Currency,Date,Description,Amount',
+  'Interest,Data,USD,2024-03-05,USD Debit Interest for Feb-2024,-12.5',
+  'Deposits & Withdrawals,Header,Currency,Settle Date,Description,Amount',
+  'Deposits & Withdrawals,Data,USD,2024-03-01,Electronic Fund Transfer,5000',
+  'Open Positions,Header,DataDiscriminator,Asset Category,Currency,Symbol,Quantity,Mult,Cost Price',
+  'Open Positions,Data,Summary,Stocks,USD,AAPL,"1,000",1,171.255',
+  'Open Positions,Data,Lot,Stocks,USD,AAPL,600,1,171.255',
+].join('\n');
+
+const schwabStatement = [
+  'This document was exported from the thinkorswim platform.',
+  '',
+  'Account Statement for 12345678 (margin) since 3/1/24 through 3/15/24',
+  '',
+  'Cash Balance',
+  'DATE,TIME,TYPE,REF #,DESCRIPTION,Misc Fees,Commissions & Fees,AMOUNT,BALANCE',
+  '3/1/24,00:00:00,BAL,,Cash balance at the start of business day,,,,"10,000.00"',
+  '3/15/24,09:30:12,TRD,="5123456789",BOT +100 AAPL @171.25,,,"-17,125.00","-7,125.00"',
+  '3/15/24,16:00:00,DOI,="5123456790",MARGIN INTEREST ADJUSTMENT,,,(4.21),"-7,129.21"',
+  ',,,,TOTAL,,,"-17,129.21",',
+  '',
+  'Account Trade History',
+  ',Exec Time,Spread,Side,Qty,Pos Effect,Symbol,Exp,Strike,Type,Price,Net Price,Order Type',
+  ',3/15/24 09:30:12,STOCK,BUY,+100,TO OPEN,AAPL,,,STOCK,171.25,171.25,LMT',
+  ',3/15/24 10:05:00,VERTICAL,SELL,-1,TO OPEN,SPY,19 APR 24,510,PUT,4.10,1.25,LMT',
+  ',,,BUY,+1,TO OPEN,SPY,19 APR 24,500,PUT,2.85,DEBIT,',
+  '',
+  'Equities',
+  'Symbol,Description,Qty,Trade Price,Mark,Mark Value',
+  'AAPL,APPLE INC,100,171.25,172.00,"$17,200.00"',
+  ',OVERALL TOTALS,,,,"$17,200.00"',
+].join('\n');
+
+describe('csvSections', () => {
+  it('should read an IBKR Activity Statement section by section', () => {
+    expect(detectSectionedFormat(ibkrStatement, SECTIONED_STATEMENT_FORMATS)).toBe(IBKR_ACTIVITY_STATEMENT);
+
+    const sections = splitCsvSections(ibkrStatement);
+    expect(sections.map(section => section.name)).toEqual([
+      'Statement', 'Account Information', 'Trades', 'Dividends', 'Withholding Tax', 'Fees', 'Interest', 'Deposits & Withdrawals', 'Open Positions',
+    ]);
+    expect(sections.find(section => section.name === 'Dividends')).toMatchObject({ accountId: 'U1234567', rows: [expect.any(Object)] });
+
+    const statement = mapSectionedStatement(sections, IBKR_ACTIVITY_STATEMENT);
+    expect(statement.errors).toEqual([]);
+
+    // Executions are read instead of the order summary, currency conversions are skipped
+    expect(statement.executions).toHaveLength(3);
+    expect(statement.executions[0]).toMatchObject({
+      accountId: 'U1234567',
+      symbol: 'AAPL',
+      assetClass: AssetClass.EQUITY,
+      side: OrderSide.BUY,
+      quantity: 600,
+      price: 171.25,
+      commission: 3,
+      executedAt: new Date(2024, 2, 15, 9, 30, 12),
+      datePrecision: DatePrecision.MILLISECOND,
+    });
+    expect(statement.executions[2]).toMatchObject({
+      symbol: 'SPY240419P00510000',
+      assetClass: AssetClass.OPTIONS,
+      side: OrderSide.SELL,
+      quantity: 3,
+      commission: 1.95,
+      contract: { underlyingSymbol: 'SPY', optionRight: OptionRight.PUT, strikePrice: 510, contractMultiplier: 100 },
+    });
+    expect(new Set(statement.executions.map(execution => execution.externalId)).size).toBe(3);
+
+    expect(statement.cashActivities.map(activity => [activity.activityType, activity.amount, activity.symbol])).toEqual([
+      [CashActivityType.DIVIDEND, 240, 'AAPL'],
+      [CashActivityType.DIVIDEND, -36, 'AAPL'],
+      [CashActivityType.FEE, -10, undefined],
+      [CashActivityType.MARGIN_INTEREST, -12.5, undefined],
+      [CashActivityType.DEPOSIT, 5000, undefined],
+    ]);
+    expect(statement.positions).toEqual([
+      { section: 'Open Positions', accountId: 'U1234567', symbol: 'AAPL', assetClass: AssetClass.EQUITY, quantity: 1000 },
+    ]);
+  });
+
+  it('should read Schwab account statement blocks with spread legs and classified cash rows', () => {
+    expect(detectSectionedFormat(schwabStatement, SECTIONED_STATEMENT_FORMATS)).toBe(SCHWAB_ACCOUNT_STATEMENT);
+
+    const statement = mapSectionedStatement(splitCsvSections(schwabStatement), SCHWAB_ACCOUNT_STATEMENT);
+    expect(statement.errors).toEqual([]);
+    expect(statement.sections).toEqual([
+      { name: 'Cash Balance', kind: 'cash', rows: 3 },
+      { name: 'Account Trade History', kind: 'trades', rows: 3 },
+      { name: 'Equities', kind: 'positions', rows: 1 },
+    ]);
+
+    expect(statement.executions.map(execution => [execution.symbol, execution.side, execution.quantity, execution.price])).toEqual([
+      ['AAPL', OrderSide.BUY, 100, 171.25],
+      ['SPY240419P00510000', OrderSide.SELL, 1, 4.1],
+      ['SPY240419P00500000', OrderSide.BUY, 1, 2.85],
+    ]);
+    // The second leg takes the execution time and order type of the first
+    expect(statement.executions[2]).toMatchObject({
+      accountId: '12345678',
+      executedAt: new Date(2024, 2, 15, 10, 5, 0),
+      orderType: OrderType.LIMIT,
+    });
+
+    // Balance and trade rows of the cash section are not cash activity
+    expect(statement.skipped).toBe(2);
+    expect(statement.cashActivities).toEqual([expect.objectContaining({
+      activityType: CashActivityType.MARGIN_INTEREST,
+      amount: -4.21,
+      occurredAt: new Date(2024, 2, 15, 16, 0, 0),
+      accountId: '12345678',
+    })]);
+    expect(statement.positions).toEqual([expect.objectContaining({ symbol: 'AAPL', quantity: 100 })]);
+  });
+
+  it('should leave single-table files alone and report positions that differ from the journal', () => {
+    expect(detectSectionedFormat('Symbol,Side,Qty,Price\nAAPL,BUY,100,171.25', SECTIONED_STATEMENT_FORMATS)).toBeNull();
+    expect(detectSectionedFormat('Date,Description,Fees,Amount\n2024-03-01,Trades,1,2', SECTIONED_STATEMENT_FORMATS)).toBeNull();
+
+    const positions = [
+      { section: 'Open Positions', symbol: 'AAPL', assetClass: AssetClass.EQUITY, quantity: 1000 },
+      { section: 'Open Positions', symbol: 'TSLA', assetClass: AssetClass.EQUITY, quantity: -50 },
+      { section: 'Open Positions', symbol: 'MSFT', assetClass: AssetClass.EQUITY, quantity: 20 },
+    ];
+    const journal = [
+      { symbol: 'AAPL', quantity: 600 },
+      { symbol: 'AAPL', quantity: 400 },
+      { symbol: 'TSLA', quantity: -30 },
+      { symbol: 'NVDA', quantity: 10 },
+    ];
+
+    expect(reconcilePositions(positions, journal)).toEqual([
+      'TSLA: statement shows -50 open, journal has -30',
+      'MSFT: statement shows 20 open, journal has 0',
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+import { convertMoney, normalizeCurrency, parseFxRatesCsv } from '@/lib/currency';
+
+describe('currency', () => {
+  it('should normalize three letter currency codes', () => {
+    expect(normalizeCurrency(' cad ')).toBe('CAD');
+    expect(normalizeCurrency('CAD$')).toBeNull();
+    expect(normalizeCurrency(undefined)).toBeNull();
+  });
+
+  it('should convert money fields and round to cents', () => {
+    expect(convertMoney({ pnl: 100, netPnl: 98.5, commission: 1.5 }, 0.73333)).toEqual({
+      pnl: 73.33,
+      netPnl: 72.23,
+      commission: 1.1,
+      fees: undefined,
+    });
+  });
+
+  it('should parse rates and report unreadable lines', () => {
+    const { rates, errors } = parseFxRatesCsv([
+      'Date,Base,Quote,Rate',
+      '2024-03-01,cad,usd,0.7371',
+      '2024-03-01,USD,USD,1',
+      '03/01/2024,EUR,USD,1.08',
+      '2024-03-01,EUR,USD,-1',
+    ].join('\n'));
+
+    expect(rates).toEqual([{ fromCurrency: 'CAD', toCurrency: 'USD', date: '2024-03-01', rate: 0.7371 }]);
+    expect(errors).toEqual([
+      'Line 3: from and to must be different three letter currency codes',
+      'Line 4: date must be YYYY-MM-DD',
+      'Line 5: rate must be a positive number',
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { allocateFinancingCosts, daysHeldInWindow, FinancedPosition } from '@/lib/financingCosts';
+import { calculateNetPnl } from '@/lib/tradeFees';
+import { CashActivityType, TradeSide } from '@prisma/client';
+
+const position = (overrides: Partial<FinancedPosition>): FinancedPosition => ({
+  id: 'trade',
+  symbol: 'GME',
+  side: TradeSide.SHORT,
+  quantity: 100,
+  price: 20,
+  entryDate: new Date(2024, 2, 1, 10),
+  exitDate: new Date(2024, 2, 10, 15),
+  ...overrides,
+});
+
+describe('financingCosts', () => {
+  it('should split a borrow fee across short positions in the symbol by notional and days held', () => {
+    const positions = [
+      position({ id: 'ten-days' }),
+      position({ id: 'five-days', entryDate: new Date(2024, 2, 6, 10) }),
+      position({ id: 'long', side: TradeSide.LONG }),
+      position({ id: 'other-symbol', symbol: 'AMC' }),
+    ];
+    const charges = [
+      { id: 'fee', activityType: CashActivityType.BORROW_FEE, amount: -30, symbol: 'gme', occurredAt: new Date(2024, 2, 31) },
+    ];
+
+    expect(allocateFinancingCosts(charges, positions)).toEqual([
+      { cashActivityId: 'fee', tradeId: 'ten-days', amount: 20, days: 10 },
+      { cashActivityId: 'fee', tradeId: 'five-days', amount: 10, days: 5 },
+    ]);
+    expect(calculateNetPnl(150, 1, 0.5, 20)).toBe(128.5);
+  });
+
+  it('should only cover the days since the previous charge of the same kind', () => {
+    const windowStart = new Date(2024, 2, 6);
+    const windowEnd = new Date(2024, 2, 31);
+    expect(daysHeldInWindow(position({}), windowStart, windowEnd)).toBe(5);
+    expect(daysHeldInWindow(position({ exitDate: null }), windowStart, windowEnd)).toBe(26);
+
+    const charges = [
+      { id: 'first', activityType: CashActivityType.BORROW_FEE, amount: -5, symbol: 'GME', occurredAt: new Date(2024, 2, 5) },
+      { id: 'second', activityType: CashActivityType.BORROW_FEE, amount: -8, symbol: 'GME', occurredAt: new Date(2024, 2, 31) },
+    ];
+    expect(allocateFinancingCosts(charges, [position({})])).toEqual([
+      { cashActivityId: 'first', tradeId: 'trade', amount: 5, days: 5 },
+      { cashActivityId: 'second', tradeId: 'trade', amount: 8, days: 5 },
+    ]);
+  });
+
+  it('should attribute margin interest to long positions in the charged account', () => {
+    const positions = [
+      position({ id: 'long-a', side: TradeSide.LONG, accountId: 'a', price: 10 }),
+      position({ id: 'long-b', side: TradeSide.LONG, accountId: 'b' }),
+      position({ id: 'short-a', accountId: 'a' }),
+    ];
+    const charges = [
+      { id: 'interest', activityType: CashActivityType.MARGIN_INTEREST, amount: -12.34, accountId: 'a', occurredAt: new Date(2024, 2, 31) },
+      { id: 'dividend', activityType: CashActivityType.DIVIDEND, amount: 4, accountId: 'a', occurredAt: new Date(2024, 2, 31) },
+      { id: 'no-position', activityType: CashActivityType.MARGIN_INTEREST, amount: -3, accountId: 'c', occurredAt: new Date(2024, 2, 31) },
+    ];
+
+    expect(allocateFinancingCosts(charges, positions)).toEqual([
+      { cashActivityId: 'interest', tradeId: 'long-a', amount: 12.34, days: 10 },
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { isFixLog, parseFixExecutionReports, parseFixMessage, parseFixTimestamp } from '@/lib/brokerFormats/fixExecutionReports';
+import { AssetClass, OptionRight, OrderSide, OrderType, TimeInForce } from '@prisma/client';
+
+const SOH = String.fromCharCode(1);
+
+function message(fields: string): string {
+  return `8=FIX.4.2${SOH}9=200${SOH}${fields.split('|').join(SOH)}${SOH}10=000${SOH}`;
+}
+
+const fixLog = [
+  // New order acknowledgement: not a fill
+  `2024-03-15 09:30:11.950 IN  ${message('35=8|49=DAS|37=O-1|11=C-1|17=E-0|20=0|150=0|39=0|1=TRD01|55=AAPL|54=1|38=300|40=2|44=171.30|59=0|60=20240315-13:30:11.950')}`,
+  `2024-03-15 09:30:12.345 IN  ${message('35=8|49=DAS|37=O-1|11=C-1|17=E-1|20=0|150=1|39=1|1=TRD01|55=AAPL|54=1|38=300|40=2|44=171.30|32=100|31=171.25|59=0|30=ARCA|60=20240315-13:30:12.345|12=0.005|13=1')}`,
+  `2024-03-15 09:30:12.871 IN  ${message('35=8|49=DAS|37=O-1|11=C-1|17=E-2|20=0|150=2|39=2|1=TRD01|55=AAPL|54=1|38=300|40=2|44=171.30|32=200|31=171.28|59=0|30=NSDQ|60=20240315-13:30:12.871|12=1.00|13=3')}`,
+  // Resent after a reconnect
+  `2024-03-15 09:30:13.002 IN  ${message('35=8|43=Y|49=DAS|37=O-1|17=E-2|20=0|150=2|39=2|55=AAPL|54=1|32=200|31=171.28|60=20240315-13:30:12.871')}`,
+  // Heartbeat
+  `2024-03-15 09:30:30.000 IN  ${message('35=0|49=DAS|52=20240315-13:30:30.000')}`,
+  `2024-03-15 09:45:00.120 IN  8=FIX.4.4|9=180|35=8|49=STERLING|37=O-2|17=E-3|150=F|39=2|1=TRD01|55=SPY|167=OPT|201=0|202=510|541=20240419|54=5|32=3|31=4.10|40=1|59=3|60=20240315-13:45:00.120|12=1.95|10=000|`,
+  `2024-03-15 09:46:00.000 IN  8=FIX.4.4^A9=180^A35=8^A37=O-3^A17=E-4^A150=F^A55=ES^A167=FUT^A200=202406^A54=1^A32=1^A31=5200.25^A60=20240315-13:46:00.000^A10=000^A`,
+  // The broker busts the SPY fill
+  `2024-03-15 10:02:00.000 IN  8=FIX.4.4|9=120|35=8|37=O-2|17=E-5|19=E-3|150=H|39=4|55=SPY|54=5|32=0|31=0|60=20240315-14:02:00.000|10=000|`,
+].join('\n');
+
+describe('fixExecutionReports', () => {
+  it('should recognise FIX logs and read messages and timestamps with any field separator', () => {
+    expect(isFixLog(fixLog)).toBe(true);
+    expect(isFixLog('Symbol,Side,Qty,Price\nAAPL,BUY,100,171.25')).toBe(false);
+
+    const fields = parseFixMessage('12:00:00 OUT 8=FIX.4.2^A35=8^A17=X-1^A55=MSFT^A');
+    expect(Object.fromEntries(fields!)).toEqual({ '8': 'FIX.4.2', '35': '8', '17': 'X-1', '55': 'MSFT' });
+
+    expect(parseFixTimestamp('20240315-13:30:12.345')).toEqual(new Date(Date.UTC(2024, 2, 15, 13, 30, 12, 345)));
+    expect(parseFixTimestamp('20240315-13:30:12.345678')).toEqual(new Date(Date.UTC(2024, 2, 15, 13, 30, 12, 345)));
+    expect(parseFixTimestamp('20240315-13:30:12')).toEqual(new Date(Date.UTC(2024, 2, 15, 13, 30, 12)));
+  });
+
+  it('should build one execution per fill with its commission, skipping acknowledgements and resends', () => {
+    const result = parseFixExecutionReports(fixLog);
+
+    expect(result.errors).toEqual([]);
+    expect(result.skipped).toBe(2);
+    expect(result.executions.map(execution => execution.execId)).toEqual(['E-1', 'E-2', 'E-4']);
+
+    const [partial, fill] = result.executions;
+    expect(partial).toMatchObject({
+      orderId: 'O-1',
+      accountId: 'TRD01',
+      symbol: 'AAPL',
+      assetClass: AssetClass.EQUITY,
+      side: OrderSide.BUY,
+      quantity: 100,
+      price: 171.25,
+      executedAt: new Date(Date.UTC(2024, 2, 15, 13, 30, 12, 345)),
+      orderType: OrderType.LIMIT,
+      timeInForce: TimeInForce.DAY,
+      exchange: 'ARCA',
+      commission: 0.5, // 0.005 per share
+    });
+    expect(partial.attributes).toMatchObject({ ExecID: 'E-1', LastQty: '100', LastPx: '171.25', Commission: '0.005' });
+    expect(fill).toMatchObject({ quantity: 200, price: 171.28, commission: 1, exchange: 'NSDQ' });
+  });
+
+  it('should resolve futures and option contracts and drop busted fills', () => {
+    const result = parseFixExecutionReports(fixLog);
+
+    expect(result.cancelled).toBe(1);
+    expect(result.executions.find(execution => execution.execId === 'E-4')).toMatchObject({
+      symbol: 'ESM4',
+      assetClass: AssetClass.FUTURES,
+      contract: { underlyingSymbol: 'ES', contractMultiplier: 50 },
+    });
+
+    const withoutBust = parseFixExecutionReports(fixLog.split('\n').slice(0, -1).join('\n'));
+    expect(withoutBust.executions.find(execution => execution.execId === 'E-3')).toMatchObject({
+      symbol: 'SPY240419P00510000',
+      assetClass: AssetClass.OPTIONS,
+      side: OrderSide.SELL,
+      quantity: 3,
+      orderType: OrderType.MARKET,
+      timeInForce: TimeInForce.IOC,
+      commission: 1.95,
+      contract: { underlyingSymbol: 'SPY', optionRight: OptionRight.PUT, strikePrice: 510, contractMultiplier: 100 },
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  parseFuturesSymbol,
+  isFuturesContractSymbol,
+  getFuturesRoot,
+  calculateFuturesPnlMeasures,
+  getFuturesMarketSession,
+  FUTURES_CONTRACT_SPECS,
+} from '@/lib/futuresContracts';
+
+describe('futuresContracts', () => {
+  describe('parseFuturesSymbol', () => {
+    it('should resolve monthly contracts to their root', () => {
+      const parsed = parseFuturesSymbol('/ESZ25');
+
+      expect(parsed).toMatchObject({
+        root: 'ES',
+        monthCode: 'Z',
+        year: 2025,
+        contractSymbol: 'ESZ5',
+      });
+      expect(parsed?.spec.pointValue).toBe(50);
+      expect(parseFuturesSymbol('ESZ2025')?.contractSymbol).toBe('ESZ5');
+    });
+
+    it('should prefer the longest matching root', () => {
+      expect(getFuturesRoot('MESH6')).toBe('MES');
+      expect(getFuturesRoot('MNQM26')).toBe('MNQ');
+      expect(getFuturesRoot('6EU5')).toBe('6E');
+    });
+
+    it('should accept continuous symbols but not treat them as contracts', () => {
+      expect(parseFuturesSymbol('NQ')?.root).toBe('NQ');
+      expect(isFuturesContractSymbol('NQ')).toBe(false);
+      expect(isFuturesContractSymbol('NQH6')).toBe(true);
+    });
+
+    it('should return null for unknown roots and equities', () => {
+      expect(parseFuturesSymbol('AAPL')).toBeNull();
+      expect(parseFuturesSymbol('XYZZ5')).toBeNull();
+      expect(parseFuturesSymbol(undefined)).toBeNull();
+    });
+  });
+
+  describe('calculateFuturesPnlMeasures', () => {
+    it('should express price moves in points and ticks', () => {
+      expect(calculateFuturesPnlMeasures(FUTURES_CONTRACT_SPECS.ES, 'LONG', 5000, 5010.5)).toEqual({
+        pnlPoints: 10.5,
+        pnlTicks: 42,
+      });
+      expect(calculateFuturesPnlMeasures(FUTURES_CONTRACT_SPECS.CL, 'SHORT', 75.5, 75.25)).toEqual({
+        pnlPoints: 0.25,
+        pnlTicks: 25,
+      });
+    });
+  });
+
+  describe('getFuturesMarketSession', () => {
+    const serverTimezone = process.env.TZ;
+
+    beforeEach(() => {
+      process.env.TZ = 'Asia/Tokyo'; // The server clock must not decide the session
+    });
+
+    afterEach(() => {
+      process.env.TZ = serverTimezone;
+    });
+
+    it('should read times on the exchange clock across daylight saving time', () => {
+      const { ES, CL } = FUTURES_CONTRACT_SPECS;
+
+      // Summer: CDT is UTC-5, so the ES regular session opens at 13:30 UTC
+      expect(getFuturesMarketSession(ES, new Date('2024-07-15T13:29:00Z'))).toBe('PRE_MARKET');
+      expect(getFuturesMarketSession(ES, new Date('2024-07-15T13:30:00Z'))).toBe('REGULAR');
+      expect(getFuturesMarketSession(ES, new Date('2024-07-15T20:00:00Z'))).toBe('AFTER_HOURS');
+
+      // Winter: CST is UTC-6
+      expect(getFuturesMarketSession(ES, new Date('2024-01-15T14:29:00Z'))).toBe('PRE_MARKET');
+      expect(getFuturesMarketSession(ES, new Date('2024-01-15T14:30:00Z'))).toBe('REGULAR');
+      expect(getFuturesMarketSession(CL, new Date('2024-01-15T19:30:00Z'))).toBe('AFTER_HOURS');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { headerSimilarity, matchHeaders, normalizeHeader, sniffValues } from '@/lib/ai/headerMatcher';
+import { OpenAiMappingService } from '@/lib/ai/openAiMappingService';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: { brokerCsvFormat: { findMany: jest.fn().mockResolvedValue([]) } },
+}));
+
+function fieldsOf(result: ReturnType<typeof matchHeaders>): Record<string, string> {
+  return Object.fromEntries(result.mappings.map(mapping => [mapping.sourceColumn, mapping.targetColumn]));
+}
+
+describe('headerMatcher', () => {
+  it('should map broker headers from synonyms confirmed by their sample values', () => {
+    expect(normalizeHeader('OrderQty')).toBe('order qty');
+    expect(normalizeHeader('Order #')).toBe('order no');
+    expect(sniffValues(['BOT', 'SLD', 'Buy'], 'side')).toBe(1);
+    expect(sniffValues(['2024-03-15', '3/15/24', 'AAPL'], 'date')).toBeCloseTo(2 / 3);
+    expect(sniffValues([], 'ticker')).toBeNull();
+
+    const headers = ['Trade Date', 'Time', 'Ticker', 'B/S', 'Qty', 'Fill Price', 'Order Type', 'TIF', 'Comm', 'Notes'];
+    const sampleRows = [
+      { 'Trade Date': '2024-03-15', Time: '09:30:12', Ticker: 'AAPL', 'B/S': 'BOT', Qty: '100', 'Fill Price': '171.25', 'Order Type': 'LMT', TIF: 'DAY', Comm: '1.00', Notes: 'opening' },
+      { 'Trade Date': '2024-03-15', Time: '10:02:45', Ticker: 'AAPL', 'B/S': 'SLD', Qty: '100', 'Fill Price': '172.10', 'Order Type': 'MKT', TIF: 'DAY', Comm: '1.00', Notes: '' },
+    ];
+
+    const result = matchHeaders(headers, sampleRows);
+    expect(fieldsOf(result)).toEqual({
+      'Trade Date': 'orderExecutedTime',
+      Ticker: 'symbol',
+      'B/S': 'side',
+      Qty: 'orderQuantity',
+      'Fill Price': 'limitPrice',
+      'Order Type': 'orderType',
+      TIF: 'timeInForce',
+      Comm: 'commission',
+    });
+    // The time-only column is joined to the date column instead of mapped on its own
+    expect(result.mappings.find(mapping => mapping.sourceColumn === 'Trade Date')?.combinedWith).toEqual(['Time']);
+    expect(result.missingRequired).toEqual([]);
+    expect(result.overallConfidence).toBeGreaterThanOrEqual(0.8);
+    expect(result.requiresUserReview).toBe(false);
+
+    // Signed quantities carry the side, so no side column is needed
+    const signed = matchHeaders(['Symbol', 'Quantity', 'Price', 'Execution Time'], [
+      { Symbol: 'MSFT', Quantity: '-25', Price: '410.5', 'Execution Time': '2024-03-15 10:00:00' },
+    ]);
+    expect(signed.missingRequired).toEqual([]);
+    expect(signed.requiresUserReview).toBe(false);
+  });
+
+  it('should map headers known broker formats use and columns whose values identify them', () => {
+    expect(headerSimilarity('Exec_Qty', 'ExecQty')).toBe(1);
+    expect(headerSimilarity('Symbol', 'Commission')).toBeLessThan(0.5);
+
+    const knownFormats = [{
+      headers: ['Sym', 'Acct Ref', 'Px Filled'],
+      fieldMappings: {
+        'Acct Ref': { fields: ['accountId'], confidence: 1 },
+        'Px Filled': { field: 'limitPrice', confidence: 0.9 },
+        Sym: 'symbol',
+      },
+    }];
+    const headers = ['Sym', 'AcctRef', 'PxFilled', 'Col4', 'Amount', 'When'];
+    const sampleRows = [
+      { Sym: 'TSLA', AcctRef: 'U123', PxFilled: '180.10', Col4: 'Buy', Amount: '10', When: '2024-03-15T14:30:00Z' },
+      { Sym: 'TSLA', AcctRef: 'U123', PxFilled: '181.00', Col4: 'Sell', Amount: '10', When: '2024-03-15T15:30:00Z' },
+    ];
+
+    const result = matchHeaders(headers, sampleRows, knownFormats);
+    const fields = fieldsOf(result);
+    expect(fields).toMatchObject({ Sym: 'symbol', AcctRef: 'accountId', PxFilled: 'limitPrice', Col4: 'side' });
+    expect(result.mappings.find(mapping => mapping.sourceColumn === 'AcctRef')?.reasoning).toContain('known broker format');
+    expect(result.mappings.find(mapping => mapping.sourceColumn === 'Col4')?.confidence).toBe(0.55);
+    // Nothing names the quantity or the time, so they are reported missing
+    expect(result.missingRequired).toEqual(['orderQuantity', 'orderExecutedTime']);
+    expect(result.requiresUserReview).toBe(true);
+  });
+
+  it('should lower confidence when sample values contradict the header name', () => {
+    const headers = ['Symbol', 'Side', 'Quantity', 'Date'];
+    const rows = [
+      { Symbol: 'AAPL', Side: 'BUY', Quantity: '100', Date: '2024-03-15 09:30' },
+      { Symbol: 'MSFT', Side: 'SELL', Quantity: '50', Date: '2024-03-15 09:31' },
+    ];
+    const confirmed = matchHeaders(headers, rows);
+
+    const contradicted = matchHeaders(headers, rows.map(row => ({ ...row, Symbol: 'Apple Inc', Side: '100' })));
+    const confidenceOf = (result: ReturnType<typeof matchHeaders>, header: string) =>
+      result.mappings.find(mapping => mapping.sourceColumn === header)?.confidence ?? 0;
+
+    expect(confidenceOf(contradicted, 'Symbol')).toBeLessThan(confidenceOf(confirmed, 'Symbol'));
+    expect(confidenceOf(contradicted, 'Side')).toBeLessThan(confidenceOf(confirmed, 'Side'));
+    expect(contradicted.overallConfidence).toBeLessThan(0.8);
+    expect(contradicted.requiresUserReview).toBe(true);
+    expect(contradicted.suggestions.join(' ')).toContain('Please review low-confidence mappings: Symbol, Side');
+
+    // Without samples, names alone decide
+    expect(fieldsOf(matchHeaders(headers))).toEqual({ Symbol: 'symbol', Side: 'side', Quantity: 'orderQuantity', Date: 'orderPlacedTime' });
+  });
+
+  it('should report unmatched headers as unmapped and missing order fields separately without OpenAI', async () => {
+    const apiKey = process.env.OPENAI_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    try {
+      const result = await new OpenAiMappingService().analyzeHeaders({
+        csvHeaders: ['Symbol', 'Qty', 'Date', 'Time', 'Memo'],
+        sampleData: [{ Symbol: 'AAPL', Qty: '100', Date: '2024-03-15', Time: '09:30:00', Memo: 'first fill' }],
+      });
+
+      expect(result.mappings).toMatchObject({
+        Symbol: { field: 'symbol' },
+        Qty: { field: 'orderQuantity' },
+        Date: { field: 'orderPlacedTime', combinedWith: ['Time'] },
+        Memo: { field: 'brokerMetadata' },
+      });
+      expect(result.mappings.Time).toBeUndefined();
+      expect(result.unmappedFields).toEqual(['Memo']);
+      expect(result.brokerMetadataFields).toEqual(['Memo']);
+      expect(result.missingRequired).toEqual(['side']);
+    } finally {
+      if (apiKey !== undefined) process.env.OPENAI_API_KEY = apiKey;
+    }
+  });
+});
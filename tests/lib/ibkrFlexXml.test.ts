@@ -0,0 +1,79 @@
+import { isIbkrFlexXml, parseFlexDateTime, parseIbkrFlexXml } from '@/lib/brokerFormats/ibkrFlexXml';
+import { AssetClass, DatePrecision, OptionRight, OrderSide, OrderType } from '@prisma/client';
+
+const flexXml = `<?xml version="1.0" encoding="UTF-8"?>
+<FlexQueryResponse queryName="Trades" type="AF">
+  <FlexStatements count="1">
+    <FlexStatement accountId="U1234567" fromDate="20240301" toDate="20240329">
+      <Trades>
+        <Trade accountId="U1234567" currency="USD" fxRateToBase="1" assetCategory="STK" symbol="AAPL" description="APPLE INC" multiplier="1" tradeID="111" ibExecID="0000e0d5.65f1a2b3.01.01" ibOrderID="555" dateTime="20240315;093012" quantity="100" tradePrice="171.25" ibCommission="-1.25" ibCommissionCurrency="USD" buySell="BUY" orderType="LMT" exchange="ISLAND" levelOfDetail="EXECUTION" />
+        <Trade accountId="U1234567" currency="USD" assetCategory="OPT" symbol="AAPL  240419C00180000" underlyingSymbol="AAPL" multiplier="100" strike="180" expiry="20240419" putCall="C" ibExecID="0000e0d5.65f1a2b3.02.01" dateTime="2024-03-15;10:15:00" quantity="-2" tradePrice="3.4" ibCommission="-1.30" buySell="SELL" orderType="MKT" levelOfDetail="EXECUTION" />
+        <Trade accountId="U1234567" currency="EUR" fxRateToBase="1.08" assetCategory="FUT" symbol="FESXM4" underlyingSymbol="ESTX50" multiplier="10" ibExecID="0000e0d5.65f1a2b3.03.01" dateTime="20240315;11:00:00" quantity="1" tradePrice="5000" ibCommission="-2.16" ibCommissionCurrency="USD" buySell="BUY" levelOfDetail="EXECUTION" />
+        <Trade accountId="U1234567" currency="USD" assetCategory="STK" symbol="AAPL" ibOrderID="555" dateTime="20240315;093012" quantity="100" tradePrice="171.25" buySell="BUY" levelOfDetail="ORDER" />
+        <Trade accountId="U1234567" currency="USD" assetCategory="STK" symbol="MSFT" ibExecID="0000e0d5.65f1a2b3.04.01" dateTime="20240315;093500" quantity="-10" tradePrice="410" buySell="SELL (Ca.)" levelOfDetail="EXECUTION" />
+        <Trade accountId="U1234567" currency="USD" assetCategory="CASH" symbol="EUR.USD" ibExecID="0000e0d5.65f1a2b3.05.01" dateTime="20240315;093600" quantity="1000" tradePrice="1.08" buySell="BUY" levelOfDetail="EXECUTION" />
+        <Trade accountId="U1234567" currency="USD" assetCategory="STK" symbol="AT&amp;T" tradeDate="20240318" quantity="5" tradePrice="17" buySell="BUY" />
+      </Trades>
+    </FlexStatement>
+  </FlexStatements>
+</FlexQueryResponse>`;
+
+describe('ibkrFlexXml', () => {
+  it('should recognise Flex Query exports and their date formats', () => {
+    expect(isIbkrFlexXml(flexXml)).toBe(true);
+    expect(isIbkrFlexXml('Date,Symbol,Buy/Sell\n2024-03-15,AAPL,BOT')).toBe(false);
+
+    expect(parseFlexDateTime('20240315;093012')).toEqual(new Date(2024, 2, 15, 9, 30, 12));
+    expect(parseFlexDateTime('2024-03-15, 09:30:12')).toEqual(new Date(2024, 2, 15, 9, 30, 12));
+    expect(parseFlexDateTime('03/15/2024')).toEqual(new Date(2024, 2, 15));
+  });
+
+  it('should map execution-level trades to orders and skip summaries, cancellations and conversions', () => {
+    const result = parseIbkrFlexXml(flexXml);
+
+    expect(result.skipped).toBe(3);
+    expect(result.errors).toEqual(['Trade 7: missing execution id, symbol, quantity or date']);
+    expect(result.executions).toHaveLength(3);
+
+    const [stock, option, future] = result.executions;
+    expect(stock).toMatchObject({
+      execId: '0000e0d5.65f1a2b3.01.01',
+      ibOrderId: '555',
+      accountId: 'U1234567',
+      symbol: 'AAPL',
+      assetClass: AssetClass.EQUITY,
+      side: OrderSide.BUY,
+      quantity: 100,
+      price: 171.25,
+      executedAt: new Date(2024, 2, 15, 9, 30, 12),
+      datePrecision: DatePrecision.MILLISECOND,
+      orderType: OrderType.LIMIT,
+      exchange: 'ISLAND',
+      commission: 1.25,
+      fees: 0,
+    });
+    expect(stock.contract).toBeUndefined();
+
+    expect(option).toMatchObject({
+      symbol: 'AAPL240419C00180000',
+      assetClass: AssetClass.OPTIONS,
+      side: OrderSide.SELL,
+      quantity: 2,
+      contract: {
+        underlyingSymbol: 'AAPL',
+        optionRight: OptionRight.CALL,
+        strikePrice: 180,
+        expirationDate: new Date(Date.UTC(2024, 3, 19)),
+        contractMultiplier: 100,
+      },
+    });
+
+    // Commission charged in the USD base currency is restated in the EUR trade currency
+    expect(future).toMatchObject({
+      assetClass: AssetClass.FUTURES,
+      currency: 'EUR',
+      commission: 2,
+      contract: { underlyingSymbol: 'ESTX50', contractMultiplier: 10 },
+    });
+  });
+});
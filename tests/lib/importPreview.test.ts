@@ -0,0 +1,95 @@
+import { TradeSide, TradeStatus } from '@prisma/client';
+import { buildImportPreview, diffTrades, PREVIEW_SAMPLE_SIZE, toPreviewTrades, type PreviewOrderRow, type PreviewTradeRow } from '@/lib/importPreview';
+
+function trade(key: string, netPnl: number, overrides: Partial<PreviewTradeRow> = {}): PreviewTradeRow {
+  return { key, status: 'CLOSED', quantity: 100, pnl: netPnl + 2, netPnl, exitDate: new Date('2024-03-15T15:00:00Z'), ...overrides };
+}
+
+function order(orderId: string, executedAt: string, overrides: Partial<PreviewOrderRow> = {}): PreviewOrderRow {
+  return {
+    orderId,
+    symbol: 'AAPL',
+    side: 'BUY',
+    orderQuantity: '100',
+    limitPrice: '171.25',
+    orderExecutedTime: new Date(executedAt),
+    accountId: 'U1234567',
+    ...overrides,
+  };
+}
+
+describe('importPreview', () => {
+  it('should count trades created, changed and removed and the net P&L they move', () => {
+    const before = [trade('t1', 100), trade('t2', -50), trade('t3', 20, { status: 'OPEN', exitDate: null })];
+    const after = [
+      trade('t1', 100),
+      trade('t3', 75.5, { quantity: 0 }), // Closed by the import
+      trade('t4', 12.25),
+      trade('t5', -40),
+    ];
+
+    expect(diffTrades(before, after)).toEqual({ created: 2, changed: 1, removed: 1, pnlDelta: 77.75 });
+    expect(diffTrades(before, before)).toEqual({ created: 0, changed: 0, removed: 0, pnlDelta: 0 });
+  });
+
+  it('should key built trades by position, side and open time', () => {
+    const built = (symbol: string, openTime: string, netPnl?: number) => ({
+      userId: 'user-1',
+      symbol,
+      side: TradeSide.LONG,
+      status: TradeStatus.CLOSED,
+      openTime: new Date(openTime),
+      closeTime: new Date('2024-03-15T15:00:00Z'),
+      pnl: 10,
+      netPnl,
+      ordersInTrade: [],
+      ordersCount: 2,
+      executions: 2,
+      quantity: 100,
+      timeInTrade: 5400,
+      marketSession: 'REGULAR',
+      brokerId: 'broker-1',
+    });
+
+    const rows = toPreviewTrades([
+      built('AAPL', '2024-03-15T13:30:00Z', 8),
+      built('AAPL', '2024-03-15T13:30:00Z'),
+      built('MSFT', '2024-03-15T13:30:00Z', 8),
+    ]);
+    expect(rows.map(row => row.key)).toEqual([
+      'AAPL|broker-1||LONG|2024-03-15T13:30:00.000Z|0',
+      'AAPL|broker-1||LONG|2024-03-15T13:30:00.000Z|1',
+      'MSFT|broker-1||LONG|2024-03-15T13:30:00.000Z|0',
+    ]);
+    // Trades saved without costs have their gross P&L as net P&L
+    expect(rows.map(row => row.netPnl)).toEqual([8, 10, 8]);
+  });
+
+  it('should give the same token to the same effects whatever order the orders were created in', () => {
+    const orders = [order('A-1', '2024-03-15T13:30:00Z'), order('A-2', '2024-03-15T13:31:00Z', { side: 'SELL' })];
+    const result = { successCount: 2, errorCount: 0, duplicateCount: 1 };
+    const trades = [trade('t1', 10)];
+
+    const preview = buildImportPreview(result, orders, [], trades);
+    expect(buildImportPreview(result, [...orders].reverse(), [], [trade('t9', 10)]).token).toBe(preview.token);
+
+    expect(preview).toMatchObject({ newOrders: 2, duplicates: 1, cashActivities: 0, tradesCreated: 1, pnlDelta: 10 });
+    expect(preview.orders[0]).toEqual({ symbol: 'AAPL', side: 'BUY', quantity: 100, price: 171.25, executedAt: '2024-03-15T13:30:00.000Z' });
+
+    // A different fill, duplicate count or trade effect is a different import
+    expect(buildImportPreview(result, [orders[0], order('A-2', '2024-03-15T13:31:00Z', { limitPrice: '171.30' })], [], trades).token)
+      .not.toBe(preview.token);
+    expect(buildImportPreview({ ...result, duplicateCount: 0 }, orders, [], trades).token).not.toBe(preview.token);
+    expect(buildImportPreview(result, orders, [], [trade('t1', 11)]).token).not.toBe(preview.token);
+  });
+
+  it('should list only the first orders by execution time', () => {
+    const orders = Array.from({ length: PREVIEW_SAMPLE_SIZE + 5 }, (_, index) =>
+      order(`A-${index}`, new Date(Date.UTC(2024, 2, 15, 13, 30) + (PREVIEW_SAMPLE_SIZE + 5 - index) * 1000).toISOString())
+    );
+
+    const preview = buildImportPreview({ successCount: orders.length, errorCount: 0 }, orders, [], []);
+    expect(preview.orders).toHaveLength(PREVIEW_SAMPLE_SIZE);
+    expect(preview.orders[0].executedAt).toBe(new Date(Date.UTC(2024, 2, 15, 13, 30, 1)).toISOString());
+  });
+});
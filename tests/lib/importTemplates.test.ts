@@ -0,0 +1,74 @@
+import {
+  applyTemplateTransformer,
+  ImportTemplateError,
+  normalizeTemplateDates,
+  parseTemplateDate,
+  validateTemplate,
+  type TemplateFieldMappings,
+} from '@/lib/importTemplates';
+
+const headers = ['Trade Date', 'Ticker', 'B/S', 'Shares', 'Fill'];
+
+const fieldMappings: TemplateFieldMappings = {
+  'Trade Date': { fields: ['orderExecutedTime'], confidence: 1 },
+  Ticker: { fields: ['symbol'], confidence: 1 },
+  'B/S': { fields: ['side'], confidence: 1, transformer: 'ibkrSideMapping' },
+  Shares: { fields: ['orderQuantity'], confidence: 1 },
+  Fill: { fields: ['limitPrice'], confidence: 1 },
+};
+
+describe('importTemplates', () => {
+  it('should read dates in the template format as wall-clock times of its timezone', () => {
+    // Daylight saving time in both zones
+    expect(parseTemplateDate('15/07/2024 09:30:12', { dateFormat: 'DD/MM/YYYY HH:mm:ss', timezone: 'Europe/London' }))
+      .toEqual(new Date('2024-07-15T08:30:12.000Z'));
+    expect(parseTemplateDate('7/15/24 9:30:12.250 AM', { dateFormat: 'M/D/YY h:mm:ss.SSS A', timezone: 'America/New_York' }))
+      .toEqual(new Date('2024-07-15T13:30:12.250Z'));
+    // Standard time, and midday/midnight in 12-hour clocks
+    expect(parseTemplateDate('2024-01-15 12:05 PM', { dateFormat: 'YYYY-MM-DD hh:mm A', timezone: 'America/New_York' }))
+      .toEqual(new Date('2024-01-15T17:05:00.000Z'));
+    expect(parseTemplateDate('2024-01-15 12:05 am', { dateFormat: 'YYYY-MM-DD hh:mm a', timezone: 'UTC' }))
+      .toEqual(new Date('2024-01-15T00:05:00.000Z'));
+
+    // Without a format, native parsing; an explicit offset wins over the timezone
+    expect(parseTemplateDate('2024-07-15 09:30:12', { timezone: 'Asia/Tokyo' })).toEqual(new Date('2024-07-15T00:30:12.000Z'));
+    expect(parseTemplateDate('2024-07-15T09:30:12Z', { timezone: 'Asia/Tokyo' })).toEqual(new Date('2024-07-15T09:30:12.000Z'));
+    expect(parseTemplateDate('2024-07-15 09:30:12')).toEqual(new Date(2024, 6, 15, 9, 30, 12));
+
+    // Dates that do not match or roll over are not read
+    expect(parseTemplateDate('2024-07-15 09:30:12', { dateFormat: 'DD/MM/YYYY HH:mm:ss' })).toBeNull();
+    expect(parseTemplateDate('31/02/2024', { dateFormat: 'DD/MM/YYYY' })).toBeNull();
+    expect(parseTemplateDate('', { dateFormat: 'DD/MM/YYYY' })).toBeNull();
+  });
+
+  it('should transform mapped values and replace their dates with ISO timestamps', () => {
+    expect(applyTemplateTransformer('BOT', 'ibkrSideMapping')).toBe('BUY');
+    expect(applyTemplateTransformer('$1,234.50', 'removeCurrency')).toBe(1234.5);
+    expect(applyTemplateTransformer('SLD', undefined)).toBe('SLD');
+    expect(applyTemplateTransformer('', 'ibkrSideMapping')).toBe('');
+
+    const mappedData: Record<string, unknown> = { symbol: 'AAPL', orderExecutedTime: '05/03/2024 14:00', orderPlacedTime: '' };
+    normalizeTemplateDates(mappedData, { dateFormat: 'DD/MM/YYYY HH:mm', timezone: 'Europe/Berlin' });
+    expect(mappedData).toEqual({ symbol: 'AAPL', orderExecutedTime: '2024-03-05T13:00:00.000Z', orderPlacedTime: '' });
+
+    expect(() => normalizeTemplateDates({ orderExecutedTime: '2024-03-05' }, { dateFormat: 'DD/MM/YYYY' }))
+      .toThrow('orderExecutedTime "2024-03-05" does not match the template\'s date format DD/MM/YYYY');
+  });
+
+  it('should refuse templates that cannot be applied to their headers', () => {
+    expect(() => validateTemplate(headers, fieldMappings, { dateFormat: 'DD/MM/YYYY', timezone: 'Europe/London' })).not.toThrow();
+
+    const invalid: Array<[TemplateFieldMappings, { dateFormat?: string; timezone?: string }, string]> = [
+      [{ ...fieldMappings, Price: { fields: ['limitPrice'], confidence: 1 } }, {}, 'Column "Price" is not one of the file\'s headers'],
+      [{ ...fieldMappings, 'Trade Date': { fields: ['orderExecutedTime'], confidence: 1, combinedWith: ['Time'] } }, {}, 'Column "Time"'],
+      [{ ...fieldMappings, 'B/S': { fields: ['side'], confidence: 1, transformer: 'toUpper' } }, {}, 'Unknown transformer "toUpper"'],
+      [{ Ticker: fieldMappings.Ticker }, {}, 'A template must map orderQuantity'],
+      [fieldMappings, { dateFormat: 'HH:mm' }, 'needs a year, month and day'],
+      [fieldMappings, { timezone: 'Mars/Olympus_Mons' }, 'Unknown timezone "Mars/Olympus_Mons"'],
+    ];
+    for (const [mappings, options, message] of invalid) {
+      expect(() => validateTemplate(headers, mappings, options)).toThrow(ImportTemplateError);
+      expect(() => validateTemplate(headers, mappings, options)).toThrow(message);
+    }
+  });
+});
@@ -0,0 +1,40 @@
+import { LotMatchingMethod, TradeSide } from '@prisma/client';
+import { matchLots, PositionLot } from '@/lib/lotMatching';
+
+describe('lotMatching', () => {
+  const lots: PositionLot[] = [
+    { orderId: 'buy-1', quantity: 100, price: 10, openTime: new Date('2024-01-02T14:30:00Z') },
+    { orderId: 'buy-2', quantity: 100, price: 12, openTime: new Date('2024-01-02T15:00:00Z') },
+    { orderId: 'buy-3', quantity: 100, price: 11, openTime: new Date('2024-01-02T15:30:00Z') },
+  ];
+  const exit = { orderId: 'sell-1', quantity: 150, price: 13, time: new Date('2024-01-02T16:00:00Z') };
+
+  it('should close the oldest lots first with FIFO', () => {
+    const { closedLots, remainingLots } = matchLots(lots, exit, LotMatchingMethod.FIFO, TradeSide.LONG);
+
+    expect(closedLots.map(lot => [lot.openOrderId, lot.quantity, lot.pnl])).toEqual([
+      ['buy-1', 100, 300],
+      ['buy-2', 50, 50],
+    ]);
+    expect(remainingLots.map(lot => [lot.orderId, lot.quantity])).toEqual([['buy-2', 50], ['buy-3', 100]]);
+  });
+
+  it('should close the newest lots first with LIFO', () => {
+    const { closedLots } = matchLots(lots, exit, LotMatchingMethod.LIFO, TradeSide.LONG);
+
+    expect(closedLots.map(lot => [lot.openOrderId, lot.quantity])).toEqual([['buy-3', 100], ['buy-2', 50]]);
+  });
+
+  it('should close the highest cost lots first for longs and the lowest sale for shorts', () => {
+    expect(matchLots(lots, exit, LotMatchingMethod.HIGHEST_COST, TradeSide.LONG).closedLots[0].openOrderId).toBe('buy-2');
+    expect(matchLots(lots, exit, LotMatchingMethod.HIGHEST_COST, TradeSide.SHORT).closedLots[0].openOrderId).toBe('buy-1');
+  });
+
+  it('should price every slice at the average with average cost', () => {
+    const { closedLots, remainingLots } = matchLots(lots, exit, LotMatchingMethod.AVERAGE_COST, TradeSide.LONG, 100);
+
+    expect(closedLots.every(lot => lot.openPrice === 11)).toBe(true);
+    expect(closedLots.reduce((sum, lot) => sum + lot.pnl, 0)).toBe(30000);
+    expect(remainingLots.every(lot => lot.price === 11)).toBe(true);
+  });
+});
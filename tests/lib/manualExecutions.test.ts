@@ -0,0 +1,48 @@
+import { AssetClass, OrderSide } from '@prisma/client';
+import { parseExecutionRows, resolveManualInstrument, toManualExecutionInputs } from '@/lib/manualExecutions';
+
+describe('manualExecutions', () => {
+  it('should read pasted rows in grid order when there is no header', () => {
+    const drafts = parseExecutionRows('2024-03-01 09:31:05\taapl\tB\t100\t187.25\t1.00\n2024-03-01 10:02:00\tAAPL\t\t-100\t189.10');
+
+    expect(drafts).toEqual([
+      { executedAt: '2024-03-01 09:31:05', symbol: 'AAPL', side: OrderSide.BUY, quantity: '100', price: '187.25', commission: '1.00', fees: '' },
+      { executedAt: '2024-03-01 10:02:00', symbol: 'AAPL', side: OrderSide.SELL, quantity: '100', price: '189.10', commission: '', fees: '' },
+    ]);
+  });
+
+  it('should match columns by header and join separate date and time columns', () => {
+    const drafts = parseExecutionRows('Symbol,Action,Qty,Price,Date,Time\nTSLA,Sell Short,50,"$1,010.50",03/04/2024,14:15:00');
+
+    expect(drafts[0]).toMatchObject({
+      executedAt: '03/04/2024 14:15:00',
+      symbol: 'TSLA',
+      side: OrderSide.SELL,
+      quantity: '50',
+      price: '$1,010.50',
+    });
+    expect(toManualExecutionInputs(drafts).executions[0]).toMatchObject({ price: 1010.5, quantity: 50 });
+  });
+
+  it('should skip blank rows and report invalid ones by row number', () => {
+    const { executions, errors } = toManualExecutionInputs([
+      { executedAt: '2024-03-01 09:31:05', symbol: 'AAPL', side: OrderSide.BUY, quantity: '100', price: '187.25', commission: '', fees: '(0.05)' },
+      { executedAt: '', symbol: '', side: '', quantity: '', price: '', commission: '', fees: '' },
+      { executedAt: '2024-03-01 09:35:00', symbol: 'AAPL', side: '', quantity: '100', price: '188', commission: '', fees: '' },
+    ], 'account-1');
+
+    expect(executions).toHaveLength(1);
+    expect(executions[0]).toMatchObject({ fees: 0.05, commission: undefined, accountId: 'account-1' });
+    expect(errors).toEqual(['Row 3: choose buy or sell']);
+  });
+
+  it('should resolve option and futures symbols to their contracts', () => {
+    expect(resolveManualInstrument('AAPL240119C00190000')).toMatchObject({
+      assetClass: AssetClass.OPTIONS,
+      underlyingSymbol: 'AAPL',
+      contractMultiplier: 100,
+    });
+    expect(resolveManualInstrument('esz5')).toMatchObject({ assetClass: AssetClass.FUTURES, underlyingSymbol: 'ES' });
+    expect(resolveManualInstrument('msft')).toEqual({ symbol: 'MSFT', assetClass: AssetClass.EQUITY, contractMultiplier: 1 });
+  });
+});
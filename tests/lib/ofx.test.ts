@@ -0,0 +1,127 @@
+import { isOfxFile, parseOfx, parseOfxDate } from '@/lib/brokerFormats/ofx';
+import { AssetClass, CashActivityType, DatePrecision, OptionRight, OrderSide } from '@prisma/client';
+
+// Version 1 SGML: simple elements are not closed
+const sgmlStatement = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS><FI><ORG>fidelity.com<FID>7776</FI></SONRS></SIGNONMSGSRSV1>
+<INVSTMTMSGSRSV1><INVSTMTTRNRS><TRNUID>1<STATUS><CODE>0<SEVERITY>INFO</STATUS>
+<INVSTMTRS><DTASOF>20240329<CURDEF>USD<INVACCTFROM><BROKERID>fidelity.com<ACCTID>X12345678</INVACCTFROM>
+<INVTRANLIST><DTSTART>20240301<DTEND>20240329
+<BUYSTOCK><INVBUY><INVTRAN><FITID>1001<DTTRADE>20240315093012.000[-4:EDT]<DTSETTLE>20240319</INVTRAN>
+<SECID><UNIQUEID>037833100<UNIQUEIDTYPE>CUSIP</SECID><UNITS>100<UNITPRICE>171.25<COMMISSION>0<FEES>0.02<TOTAL>-17125.02<SUBACCTSEC>CASH<SUBACCTFUND>CASH</INVBUY><BUYTYPE>BUY</BUYSTOCK>
+<SELLOPT><INVSELL><INVTRAN><FITID>1002<DTTRADE>20240318</INVTRAN>
+<SECID><UNIQUEID>AAPL240419C00180000<UNIQUEIDTYPE>OCC</SECID><UNITS>-2<UNITPRICE>3.40<COMMISSION>1.30<TOTAL>678.70<SUBACCTSEC>CASH<SUBACCTFUND>CASH</INVSELL><OPTSELLTYPE>SELLTOOPEN<SHPERCTRCT>100</SELLOPT>
+<INCOME><INVTRAN><FITID>1003<DTTRADE>20240320<MEMO>DIVIDEND RECEIVED</INVTRAN>
+<SECID><UNIQUEID>037833100<UNIQUEIDTYPE>CUSIP</SECID><INCOMETYPE>DIV<TOTAL>24.00<SUBACCTSEC>CASH<SUBACCTFUND>CASH</INCOME>
+<MARGININTEREST><INVTRAN><FITID>1004<DTTRADE>20240328</INVTRAN><TOTAL>12.50<SUBACCTFUND>CASH</MARGININTEREST>
+<BUYDEBT><INVBUY><INVTRAN><FITID>1005<DTTRADE>20240321</INVTRAN>
+<SECID><UNIQUEID>912828ZT0<UNIQUEIDTYPE>CUSIP</SECID><UNITS>1000<UNITPRICE>99.5<TOTAL>-995<SUBACCTSEC>CASH<SUBACCTFUND>CASH</INVBUY></BUYDEBT>
+<SPLIT><INVTRAN><FITID>1006<DTTRADE>20240322</INVTRAN><SECID><UNIQUEID>037833100<UNIQUEIDTYPE>CUSIP</SECID><OLDUNITS>100<NEWUNITS>200<NUMERATOR>2<DENOMINATOR>1</SPLIT>
+<INVBANKTRAN><STMTTRN><TRNTYPE>DEP<DTPOSTED>20240301<TRNAMT>5000.00<FITID>1007<NAME>ELECTRONIC FUNDS TRANSFER</STMTTRN><SUBACCTFUND>CASH</INVBANKTRAN>
+</INVTRANLIST></INVSTMTRS></INVSTMTTRNRS></INVSTMTMSGSRSV1>
+<SECLISTMSGSRSV1><SECLIST>
+<OPTINFO><SECINFO><SECID><UNIQUEID>AAPL240419C00180000<UNIQUEIDTYPE>OCC</SECID><SECNAME>CALL (AAPL) APR 19 24 $180</SECNAME><TICKER>AAPL 240419C180</SECINFO>
+<OPTTYPE>CALL<STRIKEPRICE>180<DTEXPIRE>20240419<SHPERCTRCT>100<SECID><UNIQUEID>037833100<UNIQUEIDTYPE>CUSIP</SECID></OPTINFO>
+<STOCKINFO><SECINFO><SECID><UNIQUEID>037833100<UNIQUEIDTYPE>CUSIP</SECID><SECNAME>APPLE INC<TICKER>AAPL</SECINFO></STOCKINFO>
+<DEBTINFO><SECINFO><SECID><UNIQUEID>912828ZT0<UNIQUEIDTYPE>CUSIP</SECID><SECNAME>US TREASURY NOTE</SECINFO><PARVALUE>1000<DEBTTYPE>COUPON</DEBTINFO>
+</SECLIST></SECLISTMSGSRSV1>
+</OFX>`;
+
+// Version 2 XML with every element closed
+const xmlStatement = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <INVSTMTMSGSRSV1><INVSTMTTRNRS><INVSTMTRS>
+    <CURDEF>USD</CURDEF>
+    <INVACCTFROM><BROKERID>vanguard.com</BROKERID><ACCTID>88887777</ACCTID></INVACCTFROM>
+    <INVTRANLIST>
+      <REINVEST>
+        <INVTRAN><FITID>R-1</FITID><DTTRADE>20240328000000</DTTRADE><MEMO></MEMO></INVTRAN>
+        <SECID><UNIQUEID>922908769</UNIQUEID><UNIQUEIDTYPE>CUSIP</UNIQUEIDTYPE></SECID>
+        <INCOMETYPE>DIV</INCOMETYPE><TOTAL>-45.60</TOTAL><UNITS>0.181</UNITS><UNITPRICE>251.93</UNITPRICE>
+      </REINVEST>
+    </INVTRANLIST>
+  </INVSTMTRS></INVSTMTTRNRS></INVSTMTMSGSRSV1>
+  <SECLISTMSGSRSV1><SECLIST>
+    <MFINFO><SECINFO><SECID><UNIQUEID>922908769</UNIQUEID><UNIQUEIDTYPE>CUSIP</UNIQUEIDTYPE></SECID><SECNAME>Vanguard Total Stock Market Index Fund Admiral</SECNAME><TICKER>VTSAX</TICKER></SECINFO></MFINFO>
+  </SECLIST></SECLISTMSGSRSV1>
+</OFX>`;
+
+describe('ofx', () => {
+  it('should recognise both OFX flavours and read their dates', () => {
+    expect(isOfxFile(sgmlStatement)).toBe(true);
+    expect(isOfxFile(xmlStatement)).toBe(true);
+    expect(isOfxFile('<?xml version="1.0"?>\n<FlexQueryResponse queryName="Trades">')).toBe(false);
+
+    expect(parseOfxDate('20240315093012.000[-4:EDT]')).toEqual({ date: new Date(Date.UTC(2024, 2, 15, 13, 30, 12)), hasTime: true });
+    expect(parseOfxDate('20240318')).toEqual({ date: new Date(2024, 2, 18), hasTime: false });
+    expect(parseOfxDate('20240328000000')?.hasTime).toBe(false);
+  });
+
+  it('should map trades through the security list and record income, interest and deposits as cash', () => {
+    const result = parseOfx(sgmlStatement);
+
+    expect(result.institution).toBe('Fidelity');
+    expect(result.errors).toEqual([]);
+    expect(result.skipped).toBe(2); // Treasury note purchase and the split
+
+    const [stock, option] = result.executions;
+    expect(result.executions).toHaveLength(2);
+    expect(stock).toMatchObject({
+      externalId: 'X12345678:1001',
+      accountId: 'X12345678',
+      symbol: 'AAPL',
+      assetClass: AssetClass.EQUITY,
+      side: OrderSide.BUY,
+      quantity: 100,
+      price: 171.25,
+      executedAt: new Date(Date.UTC(2024, 2, 15, 13, 30, 12)),
+      datePrecision: DatePrecision.MILLISECOND,
+      fees: 0.02,
+    });
+    expect(option).toMatchObject({
+      symbol: 'AAPL240419C00180000',
+      assetClass: AssetClass.OPTIONS,
+      side: OrderSide.SELL,
+      quantity: 2,
+      commission: 1.3,
+      datePrecision: DatePrecision.DAILY,
+      contract: { underlyingSymbol: 'AAPL', optionRight: OptionRight.CALL, strikePrice: 180, contractMultiplier: 100 },
+    });
+
+    expect(result.cashActivities.map(({ activityType, amount, symbol, description }) => ({ activityType, amount, symbol, description }))).toEqual([
+      { activityType: CashActivityType.DIVIDEND, amount: 24, symbol: 'AAPL', description: 'DIVIDEND RECEIVED' },
+      { activityType: CashActivityType.MARGIN_INTEREST, amount: -12.5, symbol: undefined, description: 'Margin interest' },
+      { activityType: CashActivityType.DEPOSIT, amount: 5000, symbol: undefined, description: 'ELECTRONIC FUNDS TRANSFER' },
+    ]);
+  });
+
+  it('should split a reinvested dividend into income and a fund purchase', () => {
+    const result = parseOfx(xmlStatement);
+
+    expect(result.institution).toBe('Vanguard');
+    expect(result.cashActivities).toEqual([
+      expect.objectContaining({
+        externalId: '88887777:R-1',
+        activityType: CashActivityType.DIVIDEND,
+        amount: 45.6,
+        symbol: 'VTSAX',
+        description: 'Reinvested dividend - Vanguard Total Stock Market Index Fund Admiral',
+      }),
+    ]);
+    expect(result.executions).toEqual([
+      expect.objectContaining({
+        symbol: 'VTSAX',
+        assetClass: AssetClass.EQUITY,
+        side: OrderSide.BUY,
+        quantity: 0.181,
+        price: 251.93,
+        datePrecision: DatePrecision.DAILY,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import { OptionRight, StrategyType, TradeSide } from '@prisma/client';
+import { StrategyLeg, groupStrategyLegs, classifyStrategy, calculateMaxRisk } from '@/lib/optionStrategies';
+
+const OPEN_TIME = new Date('2024-03-01T15:00:00Z');
+const EXPIRY = new Date('2024-03-15T00:00:00Z');
+const LATER_EXPIRY = new Date('2024-04-19T00:00:00Z');
+
+let legId = 0;
+function leg(
+  optionRight: OptionRight,
+  strikePrice: number,
+  side: TradeSide,
+  entryPrice: number,
+  overrides: Partial<StrategyLeg> = {}
+): StrategyLeg {
+  legId += 1;
+  return {
+    tradeId: `trade-${legId}`,
+    underlyingSymbol: 'SPY',
+    optionRight,
+    strikePrice,
+    expirationDate: EXPIRY,
+    side,
+    quantity: 1,
+    entryPrice,
+    multiplier: 100,
+    openTime: OPEN_TIME,
+    brokerId: null,
+    tradingAccountId: null,
+    ...overrides,
+  };
+}
+
+describe('optionStrategies', () => {
+  describe('classifyStrategy', () => {
+    it('should classify a long and short call at different strikes as a vertical', () => {
+      const legs = [
+        leg(OptionRight.CALL, 500, TradeSide.LONG, 5),
+        leg(OptionRight.CALL, 505, TradeSide.SHORT, 3),
+      ];
+
+      expect(classifyStrategy(legs)).toBe(StrategyType.VERTICAL);
+    });
+
+    it('should tell an iron condor from an iron butterfly by the inner strikes', () => {
+      const condor = [
+        leg(OptionRight.PUT, 490, TradeSide.LONG, 1),
+        leg(OptionRight.PUT, 495, TradeSide.SHORT, 2),
+        leg(OptionRight.CALL, 505, TradeSide.SHORT, 2),
+        leg(OptionRight.CALL, 510, TradeSide.LONG, 1),
+      ];
+      const butterfly = [
+        leg(OptionRight.PUT, 490, TradeSide.LONG, 1),
+        leg(OptionRight.PUT, 500, TradeSide.SHORT, 4),
+        leg(OptionRight.CALL, 500, TradeSide.SHORT, 4),
+        leg(OptionRight.CALL, 510, TradeSide.LONG, 1),
+      ];
+
+      expect(classifyStrategy(condor)).toBe(StrategyType.IRON_CONDOR);
+      expect(classifyStrategy(butterfly)).toBe(StrategyType.IRON_BUTTERFLY);
+    });
+
+    it('should classify straddles, strangles and calendars', () => {
+      expect(classifyStrategy([
+        leg(OptionRight.CALL, 500, TradeSide.LONG, 5),
+        leg(OptionRight.PUT, 500, TradeSide.LONG, 5),
+      ])).toBe(StrategyType.STRADDLE);
+      expect(classifyStrategy([
+        leg(OptionRight.CALL, 510, TradeSide.SHORT, 2),
+        leg(OptionRight.PUT, 490, TradeSide.SHORT, 2),
+      ])).toBe(StrategyType.STRANGLE);
+      expect(classifyStrategy([
+        leg(OptionRight.CALL, 500, TradeSide.SHORT, 3),
+        leg(OptionRight.CALL, 500, TradeSide.LONG, 6, { expirationDate: LATER_EXPIRY }),
+      ])).toBe(StrategyType.CALENDAR);
+    });
+  });
+
+  describe('calculateMaxRisk', () => {
+    it('should risk the spread width less the credit on a credit vertical', () => {
+      const legs = [
+        leg(OptionRight.PUT, 495, TradeSide.SHORT, 3),
+        leg(OptionRight.PUT, 490, TradeSide.LONG, 1),
+      ];
+
+      // (5 wide - 2 credit) * 100
+      expect(calculateMaxRisk(legs)).toBe(300);
+    });
+
+    it('should report unlimited risk for net short calls', () => {
+      const legs = [
+        leg(OptionRight.CALL, 510, TradeSide.SHORT, 2),
+        leg(OptionRight.PUT, 490, TradeSide.SHORT, 2),
+      ];
+
+      expect(calculateMaxRisk(legs)).toBeNull();
+    });
+  });
+
+  describe('groupStrategyLegs', () => {
+    it('should group legs opened together and leave lone legs out', () => {
+      const spread = [
+        leg(OptionRight.CALL, 500, TradeSide.LONG, 5),
+        leg(OptionRight.CALL, 505, TradeSide.SHORT, 3, { openTime: new Date(OPEN_TIME.getTime() + 5000) }),
+      ];
+      const later = leg(OptionRight.PUT, 490, TradeSide.LONG, 1, { openTime: new Date(OPEN_TIME.getTime() + 3600000) });
+      const otherUnderlying = leg(OptionRight.PUT, 190, TradeSide.LONG, 1, { underlyingSymbol: 'AAPL' });
+
+      const groups = groupStrategyLegs([later, ...spread, otherUnderlying]);
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].map(l => l.tradeId)).toEqual(spread.map(l => l.tradeId));
+    });
+  });
+});
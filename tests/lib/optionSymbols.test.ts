@@ -0,0 +1,59 @@
+import { parseOptionSymbol, formatOccSymbol, normalizeOptionRight } from '@/lib/optionSymbols';
+import { OptionRight } from '@prisma/client';
+
+describe('optionSymbols', () => {
+  describe('parseOptionSymbol', () => {
+    it('should parse padded and compact OCC symbols', () => {
+      const padded = parseOptionSymbol('AAPL  240119C00190000');
+      const compact = parseOptionSymbol('AAPL240119C00190000');
+
+      expect(padded).toMatchObject({
+        underlyingSymbol: 'AAPL',
+        optionRight: OptionRight.CALL,
+        strikePrice: 190,
+        occSymbol: 'AAPL240119C00190000',
+      });
+      expect(padded?.expirationDate.toISOString()).toBe('2024-01-19T00:00:00.000Z');
+      expect(compact).toEqual(padded);
+    });
+
+    it('should parse fractional strikes', () => {
+      expect(parseOptionSymbol('SPY240315P00412500')).toMatchObject({
+        underlyingSymbol: 'SPY',
+        optionRight: OptionRight.PUT,
+        strikePrice: 412.5,
+      });
+    });
+
+    it('should normalize broker notations to the same OCC symbol', () => {
+      const expected = 'AAPL240119C00187500';
+
+      expect(parseOptionSymbol('.AAPL240119C187.5')?.occSymbol).toBe(expected);
+      expect(parseOptionSymbol('AAPL 01/19/2024 187.50 C')?.occSymbol).toBe(expected);
+      expect(parseOptionSymbol('AAPL 19JAN24 187.5 CALL')?.occSymbol).toBe(expected);
+    });
+
+    it('should return null for equities and invalid dates', () => {
+      expect(parseOptionSymbol('AAPL')).toBeNull();
+      expect(parseOptionSymbol('BRK.B')).toBeNull();
+      expect(parseOptionSymbol('')).toBeNull();
+      expect(parseOptionSymbol(undefined)).toBeNull();
+      expect(parseOptionSymbol('AAPL241319C00190000')).toBeNull();
+    });
+  });
+
+  describe('formatOccSymbol', () => {
+    it('should pad the strike to eight digits', () => {
+      expect(formatOccSymbol('tsla', new Date(Date.UTC(2025, 5, 20)), OptionRight.PUT, 5)).toBe('TSLA250620P00005000');
+    });
+  });
+
+  describe('normalizeOptionRight', () => {
+    it('should accept common call/put spellings', () => {
+      expect(normalizeOptionRight('C')).toBe(OptionRight.CALL);
+      expect(normalizeOptionRight('put')).toBe(OptionRight.PUT);
+      expect(normalizeOptionRight('STOCK')).toBeNull();
+      expect(normalizeOptionRight(null)).toBeNull();
+    });
+  });
+});
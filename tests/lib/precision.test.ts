@@ -0,0 +1,22 @@
+import { roundQuantity, toQuantity, parseQuantity } from '@/lib/precision';
+import { Prisma } from '@prisma/client';
+
+describe('precision', () => {
+  it('should remove float drift from position math', () => {
+    expect(roundQuantity(0.1 + 0.2)).toBe(0.3);
+    expect(roundQuantity(0.3 - 0.1 - 0.2)).toBe(0);
+  });
+
+  it('should convert stored decimals without truncating fractions', () => {
+    expect(toQuantity(new Prisma.Decimal('0.0153'))).toBe(0.0153);
+    expect(toQuantity(null)).toBe(0);
+  });
+
+  it('should parse fractional and comma-separated input', () => {
+    expect(parseQuantity('0.00012345')).toBe(0.00012345);
+    expect(parseQuantity('1,250.5')).toBe(1250.5);
+    expect(parseQuantity('-3.5')).toBe(-3.5);
+    expect(parseQuantity('abc')).toBeNull();
+    expect(parseQuantity('')).toBeNull();
+  });
+});
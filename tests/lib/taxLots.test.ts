@@ -0,0 +1,130 @@
+import { AssetClass, TradeSide } from '@prisma/client';
+import { buildForm8949Rows, isLongTerm, TaxLotAcquisition, TaxLotDisposition } from '@/lib/taxLots';
+import { filterTaxYearRows, toForm8949Pdf } from '@/lib/form8949';
+
+describe('taxLots', () => {
+  const sale = (overrides: Partial<TaxLotDisposition>): TaxLotDisposition => ({
+    id: 'lot-1',
+    symbol: 'AAPL',
+    side: TradeSide.LONG,
+    assetClass: AssetClass.EQUITY,
+    quantity: 100,
+    openOrderId: 'buy-1',
+    acquiredTime: new Date('2024-01-02T15:00:00Z'),
+    soldTime: new Date('2024-03-01T15:00:00Z'),
+    proceeds: 9000,
+    costBasis: 10000,
+    accountName: null,
+    ...overrides,
+  });
+
+  const purchase = (overrides: Partial<TaxLotAcquisition>): TaxLotAcquisition => ({
+    orderId: 'buy-1',
+    symbol: 'AAPL',
+    side: TradeSide.LONG,
+    quantity: 100,
+    acquiredTime: new Date('2024-01-02T15:00:00Z'),
+    ...overrides,
+  });
+
+  it('should disallow a loss replaced within 30 days and add it to the replacement basis', () => {
+    const rows = buildForm8949Rows(
+      [
+        sale({}),
+        sale({
+          id: 'lot-2',
+          openOrderId: 'buy-2',
+          acquiredTime: new Date('2024-03-20T15:00:00Z'),
+          soldTime: new Date('2024-06-03T15:00:00Z'),
+          proceeds: 9500,
+          costBasis: 9200,
+        }),
+      ],
+      [purchase({}), purchase({ orderId: 'buy-2', acquiredTime: new Date('2024-03-20T15:00:00Z') })]
+    );
+
+    expect(rows[0]).toMatchObject({ adjustmentCode: 'W', adjustment: 1000, gainOrLoss: 0 });
+    // Replacement carries the $1,000 washed loss and the 59 days the first lot was held
+    expect(rows[1]).toMatchObject({ costBasis: 10200, gainOrLoss: -700, adjustmentCode: '' });
+    expect(rows[1].dateAcquired.toISOString()).toBe('2024-01-21T15:00:00.000Z');
+  });
+
+  it('should only wash the share of a loss covered by replacement shares', () => {
+    const rows = buildForm8949Rows(
+      [sale({})],
+      [purchase({}), purchase({ orderId: 'buy-2', quantity: 40, acquiredTime: new Date('2024-02-15T15:00:00Z') })]
+    );
+
+    expect(rows[0]).toMatchObject({ adjustment: 400, gainOrLoss: -600 });
+  });
+
+  it('should let held replacement shares wash a later loss once the washed shares are sold', () => {
+    const rows = buildForm8949Rows(
+      [
+        sale({ quantity: 40, proceeds: 3600, costBasis: 4000 }),
+        // Sells the 40 replacement shares of buy-2 carrying the first loss
+        sale({
+          id: 'lot-2',
+          openOrderId: 'buy-2',
+          quantity: 40,
+          acquiredTime: new Date('2024-03-05T15:00:00Z'),
+          soldTime: new Date('2024-03-10T15:00:00Z'),
+          proceeds: 4500,
+          costBasis: 4000,
+        }),
+        sale({
+          id: 'lot-3',
+          openOrderId: 'buy-3',
+          quantity: 60,
+          acquiredTime: new Date('2024-01-15T15:00:00Z'),
+          soldTime: new Date('2024-03-20T15:00:00Z'),
+          proceeds: 5400,
+          costBasis: 6000,
+        }),
+      ],
+      [
+        purchase({ quantity: 40 }),
+        purchase({ orderId: 'buy-2', acquiredTime: new Date('2024-03-05T15:00:00Z') }),
+        purchase({ orderId: 'buy-3', quantity: 60, acquiredTime: new Date('2024-01-15T15:00:00Z') }),
+      ]
+    );
+
+    expect(rows[0]).toMatchObject({ adjustment: 400, gainOrLoss: 0 });
+    expect(rows[1]).toMatchObject({ costBasis: 4400, gainOrLoss: 100 });
+    // The 60 buy-2 shares still held replace the whole second loss
+    expect(rows[2]).toMatchObject({ adjustmentCode: 'W', adjustment: 600, gainOrLoss: 0 });
+  });
+
+  it('should leave losses alone when nothing was bought within the window', () => {
+    const rows = buildForm8949Rows(
+      [sale({})],
+      [purchase({}), purchase({ orderId: 'buy-2', acquiredTime: new Date('2024-04-05T15:00:00Z') })]
+    );
+
+    expect(rows[0]).toMatchObject({ adjustmentCode: '', adjustment: 0, gainOrLoss: -1000 });
+  });
+
+  it('should split short-term and long-term at the one year anniversary', () => {
+    expect(isLongTerm(new Date('2023-03-01T15:00:00Z'), new Date('2024-03-01T15:00:00Z'))).toBe(false);
+    expect(isLongTerm(new Date('2023-03-01T15:00:00Z'), new Date('2024-03-02T15:00:00Z'))).toBe(true);
+
+    const rows = filterTaxYearRows(buildForm8949Rows(
+      [
+        sale({ soldTime: new Date('2025-02-01T15:00:00Z'), proceeds: 12000 }),
+        sale({ id: 'lot-2', soldTime: new Date('2024-12-30T15:00:00Z'), proceeds: 12000 }),
+      ],
+      [purchase({})]
+    ), 2025);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ term: 'LONG', gainOrLoss: 2000 });
+  });
+
+  it('should render the worksheet as a PDF document', () => {
+    const pdf = toForm8949Pdf(buildForm8949Rows([sale({})], [purchase({})]), 2024).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Part I - Short-Term \\(held one year or less\\)) Tj');
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+});
@@ -1,15 +1,18 @@
 import { TradeBuilder, processUserOrders } from '@/lib/tradeBuilder';
 import { ordersRepo } from '@/lib/repositories/ordersRepo';
 import { tradesRepo } from '@/lib/repositories/tradesRepo';
-import { Order, OrderSide, OrderStatus, TradeStatus, TradeSide, BrokerType, OrderType, TimeInForce } from '@prisma/client';
+import { corporateActionsRepo } from '@/lib/repositories/corporateActionsRepo';
+import { AssetClass, CorporateAction, CorporateActionType, DatePrecision, ImportSource, Order, OrderSide, OrderStatus, Trade, TradeStatus, TradeSide, TradeGroupingMode, BrokerType, OrderType, TimeInForce } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 
 // Mock the repositories
 jest.mock('@/lib/repositories/ordersRepo');
 jest.mock('@/lib/repositories/tradesRepo');
+jest.mock('@/lib/repositories/corporateActionsRepo');
 
 const mockOrdersRepo = ordersRepo as jest.Mocked<typeof ordersRepo>;
 const mockTradesRepo = tradesRepo as jest.Mocked<typeof tradesRepo>;
+const mockCorporateActionsRepo = corporateActionsRepo as jest.Mocked<typeof corporateActionsRepo>;
 
 describe('TradeBuilder', () => {
   let tradeBuilder: TradeBuilder;
@@ -26,6 +29,8 @@ describe('TradeBuilder', () => {
       id: 'mock-trade-id',
     } as any);
     mockOrdersRepo.updateOrdersWithTradeId.mockResolvedValue();
+    mockOrdersRepo.getTradeIdsExecutedSince.mockResolvedValue([]);
+    mockCorporateActionsRepo.getCorporateActions.mockResolvedValue([]);
   });
 
   describe('processUserOrders', () => {
@@ -45,7 +50,7 @@ describe('TradeBuilder', () => {
         orderId: 'order-123',
         symbol: 'AAPL',
         side: OrderSide.BUY,
-        orderQuantity: 100,
+        orderQuantity: new Decimal(100),
         limitPrice: new Decimal(150.00),
         orderExecutedTime: new Date('2023-01-01T10:00:00Z'),
         orderStatus: OrderStatus.FILLED,
@@ -67,10 +72,23 @@ describe('TradeBuilder', () => {
         importBatchId: null,
         usedInTrade: false,
         snapTradeActivityId: null,
-        datePrecision: 'MILLISECOND' as any,
+        datePrecision: DatePrecision.MILLISECOND,
         importSequence: null,
         activityHash: null,
         brokerMetadata: null,
+        splitFromOrderId: null,
+        assetClass: AssetClass.EQUITY,
+        tradingAccountId: null,
+        brokerId: null,
+        currency: null,
+        importSource: ImportSource.CSV,
+        underlyingSymbol: null,
+        optionRight: null,
+        strikePrice: null,
+        expirationDate: null,
+        contractMultiplier: new Decimal(1),
+        optionEvent: null,
+        appliedCorporateActionIds: [],
       };
 
       mockOrdersRepo.getUnprocessedOrders.mockResolvedValue([mockOrder]);
@@ -96,7 +114,7 @@ describe('TradeBuilder', () => {
         orderId: 'buy-123',
         symbol: 'AAPL',
         side: OrderSide.BUY,
-        orderQuantity: 100,
+        orderQuantity: new Decimal(100),
         limitPrice: new Decimal(150.00),
         orderExecutedTime: new Date('2023-01-01T10:00:00Z'),
         orderStatus: OrderStatus.FILLED,
@@ -118,10 +136,23 @@ describe('TradeBuilder', () => {
         importBatchId: null,
         usedInTrade: false,
         snapTradeActivityId: null,
-        datePrecision: 'MILLISECOND' as any,
+        datePrecision: DatePrecision.MILLISECOND,
         importSequence: null,
         activityHash: null,
         brokerMetadata: null,
+        splitFromOrderId: null,
+        assetClass: AssetClass.EQUITY,
+        tradingAccountId: null,
+        brokerId: null,
+        currency: null,
+        importSource: ImportSource.CSV,
+        underlyingSymbol: null,
+        optionRight: null,
+        strikePrice: null,
+        expirationDate: null,
+        contractMultiplier: new Decimal(1),
+        optionEvent: null,
+        appliedCorporateActionIds: [],
       };
 
       const sellOrder: Order = {
@@ -158,7 +189,7 @@ describe('TradeBuilder', () => {
         orderId: 'buy-123',
         symbol: 'AAPL',
         side: OrderSide.BUY,
-        orderQuantity: 100,
+        orderQuantity: new Decimal(100),
         limitPrice: new Decimal(150.00),
         orderExecutedTime: new Date('2023-01-01T10:00:00Z'),
         orderStatus: OrderStatus.FILLED,
@@ -180,10 +211,23 @@ describe('TradeBuilder', () => {
         importBatchId: null,
         usedInTrade: false,
         snapTradeActivityId: null,
-        datePrecision: 'MILLISECOND' as any,
+        datePrecision: DatePrecision.MILLISECOND,
         importSequence: null,
         activityHash: null,
         brokerMetadata: null,
+        splitFromOrderId: null,
+        assetClass: AssetClass.EQUITY,
+        tradingAccountId: null,
+        brokerId: null,
+        currency: null,
+        importSource: ImportSource.CSV,
+        underlyingSymbol: null,
+        optionRight: null,
+        strikePrice: null,
+        expirationDate: null,
+        contractMultiplier: new Decimal(1),
+        optionEvent: null,
+        appliedCorporateActionIds: [],
       };
 
       const partialSellOrder: Order = {
@@ -191,7 +235,7 @@ describe('TradeBuilder', () => {
         id: 'order-2',
         orderId: 'sell-123',
         side: OrderSide.SELL,
-        orderQuantity: 50,
+        orderQuantity: new Decimal(50),
         limitPrice: new Decimal(160.00),
         orderExecutedTime: new Date('2023-01-01T11:00:00Z'),
       };
@@ -219,7 +263,7 @@ describe('TradeBuilder', () => {
         orderId: 'buy-123',
         symbol: 'AAPL',
         side: OrderSide.BUY,
-        orderQuantity: 100,
+        orderQuantity: new Decimal(100),
         limitPrice: new Decimal(150.00),
         orderExecutedTime: new Date('2023-01-01T10:00:00Z'),
         orderStatus: OrderStatus.FILLED,
@@ -241,10 +285,23 @@ describe('TradeBuilder', () => {
         importBatchId: null,
         usedInTrade: false,
         snapTradeActivityId: null,
-        datePrecision: 'MILLISECOND' as any,
+        datePrecision: DatePrecision.MILLISECOND,
         importSequence: null,
         activityHash: null,
         brokerMetadata: null,
+        splitFromOrderId: null,
+        assetClass: AssetClass.EQUITY,
+        tradingAccountId: null,
+        brokerId: null,
+        currency: null,
+        importSource: ImportSource.CSV,
+        underlyingSymbol: null,
+        optionRight: null,
+        strikePrice: null,
+        expirationDate: null,
+        contractMultiplier: new Decimal(1),
+        optionEvent: null,
+        appliedCorporateActionIds: [],
       };
 
       const oversellOrder: Order = {
@@ -252,7 +309,7 @@ describe('TradeBuilder', () => {
         id: 'order-2',
         orderId: 'sell-123',
         side: OrderSide.SELL,
-        orderQuantity: 150,
+        orderQuantity: new Decimal(150),
         limitPrice: new Decimal(160.00),
         orderExecutedTime: new Date('2023-01-01T11:00:00Z'),
       };
@@ -291,7 +348,7 @@ describe('TradeBuilder', () => {
         orderId: 'sell-123',
         symbol: 'AAPL',
         side: OrderSide.SELL,
-        orderQuantity: 100,
+        orderQuantity: new Decimal(100),
         limitPrice: new Decimal(150.00),
         orderExecutedTime: new Date('2023-01-01T10:00:00Z'),
         orderStatus: OrderStatus.FILLED,
@@ -313,10 +370,23 @@ describe('TradeBuilder', () => {
         importBatchId: null,
         usedInTrade: false,
         snapTradeActivityId: null,
-        datePrecision: 'MILLISECOND' as any,
+        datePrecision: DatePrecision.MILLISECOND,
         importSequence: null,
         activityHash: null,
         brokerMetadata: null,
+        splitFromOrderId: null,
+        assetClass: AssetClass.EQUITY,
+        tradingAccountId: null,
+        brokerId: null,
+        currency: null,
+        importSource: ImportSource.CSV,
+        underlyingSymbol: null,
+        optionRight: null,
+        strikePrice: null,
+        expirationDate: null,
+        contractMultiplier: new Decimal(1),
+        optionEvent: null,
+        appliedCorporateActionIds: [],
       };
 
       const coverOrder: Order = {
@@ -350,7 +420,7 @@ describe('TradeBuilder', () => {
         orderId: 'invalid-123',
         symbol: 'AAPL',
         side: OrderSide.BUY,
-        orderQuantity: 100,
+        orderQuantity: new Decimal(100),
         limitPrice: null, // Missing price
         orderExecutedTime: new Date('2023-01-01T10:00:00Z'),
         orderStatus: OrderStatus.FILLED,
@@ -372,10 +442,23 @@ describe('TradeBuilder', () => {
         importBatchId: null,
         usedInTrade: false,
         snapTradeActivityId: null,
-        datePrecision: 'MILLISECOND' as any,
+        datePrecision: DatePrecision.MILLISECOND,
         importSequence: null,
         activityHash: null,
         brokerMetadata: null,
+        splitFromOrderId: null,
+        assetClass: AssetClass.EQUITY,
+        tradingAccountId: null,
+        brokerId: null,
+        currency: null,
+        importSource: ImportSource.CSV,
+        underlyingSymbol: null,
+        optionRight: null,
+        strikePrice: null,
+        expirationDate: null,
+        contractMultiplier: new Decimal(1),
+        optionEvent: null,
+        appliedCorporateActionIds: [],
       };
 
       mockOrdersRepo.getUnprocessedOrders.mockResolvedValue([invalidOrder]);
@@ -386,6 +469,252 @@ describe('TradeBuilder', () => {
     });
   });
 
+  describe('back-dated orders', () => {
+    it('should unwind trades the back-dated order lands inside of and rebuild them', async () => {
+      const backdatedOrder = {
+        id: 'order-backdated',
+        userId: testUserId,
+        orderId: 'backdated-1',
+        symbol: 'AAPL',
+        side: OrderSide.BUY,
+        orderQuantity: new Decimal(50),
+        limitPrice: new Decimal(140),
+        orderExecutedTime: new Date('2023-01-01T09:30:00Z'),
+        brokerId: null,
+        tradingAccountId: null,
+        optionEvent: null,
+        tradeId: null,
+      } as unknown as Order;
+      const unwoundOrder = {
+        ...backdatedOrder,
+        id: 'order-existing',
+        orderId: 'existing-1',
+        limitPrice: new Decimal(150),
+        orderExecutedTime: new Date('2023-01-01T10:00:00Z'),
+      } as unknown as Order;
+
+      mockOrdersRepo.getUnprocessedOrders
+        .mockResolvedValueOnce([backdatedOrder])
+        .mockResolvedValueOnce([backdatedOrder, unwoundOrder]);
+      mockOrdersRepo.getTradeIdsExecutedSince.mockResolvedValue(['trade-existing']);
+      mockOrdersRepo.unwindTrades.mockResolvedValue([
+        { id: 'trade-existing', symbol: 'AAPL', side: TradeSide.LONG, notes: null, tags: [] } as unknown as Trade,
+      ]);
+      mockOrdersRepo.getOrdersByIds.mockResolvedValue([backdatedOrder, unwoundOrder]);
+
+      const result = await tradeBuilder.processUserOrders(testUserId);
+
+      expect(mockOrdersRepo.getTradeIdsExecutedSince).toHaveBeenCalledWith(
+        testUserId,
+        { symbol: 'AAPL', brokerId: null, tradingAccountId: null },
+        backdatedOrder.orderExecutedTime
+      );
+      expect(mockOrdersRepo.unwindTrades).toHaveBeenCalledWith(testUserId, ['trade-existing']);
+      expect(result).toHaveLength(1);
+      expect(result[0].ordersInTrade).toEqual(['order-backdated', 'order-existing']);
+      expect(result[0].avgEntryPrice).toBe(145);
+    });
+
+    it('should not unwind anything when new orders come after existing trades', async () => {
+      mockOrdersRepo.getTradeIdsExecutedSince.mockResolvedValue([]);
+      mockOrdersRepo.getUnprocessedOrders.mockResolvedValue([]);
+
+      await tradeBuilder.processUserOrders(testUserId);
+
+      expect(mockOrdersRepo.unwindTrades).not.toHaveBeenCalled();
+      expect(mockOrdersRepo.getUnprocessedOrders).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('manual order changes', () => {
+    it('should unwind the affected trades before applying the change and rebuild from the changed orders', async () => {
+      const editedOrder = {
+        id: 'order-manual',
+        userId: testUserId,
+        orderId: 'manual-1',
+        symbol: 'AAPL',
+        side: OrderSide.BUY,
+        orderQuantity: new Decimal(100),
+        limitPrice: new Decimal(151),
+        orderExecutedTime: new Date('2023-01-01T10:00:00Z'),
+        brokerId: null,
+        tradingAccountId: null,
+        optionEvent: null,
+        tradeId: null,
+      } as unknown as Order;
+
+      mockOrdersRepo.unwindTrades.mockResolvedValue([
+        { id: 'trade-manual', symbol: 'AAPL', side: TradeSide.LONG, notes: null, tags: [] } as unknown as Trade,
+      ]);
+      mockOrdersRepo.getUnprocessedOrders.mockResolvedValue([editedOrder]);
+      mockOrdersRepo.getOrdersByIds.mockResolvedValue([editedOrder]);
+      const applyChange = jest.fn().mockResolvedValue(true);
+
+      const result = await tradeBuilder.rebuildAfterOrderChange(testUserId, ['trade-manual'], applyChange);
+
+      expect(result).toBe(true);
+      expect(mockOrdersRepo.unwindTrades).toHaveBeenCalledWith(testUserId, ['trade-manual']);
+      expect(mockOrdersRepo.unwindTrades.mock.invocationCallOrder[0])
+        .toBeLessThan(applyChange.mock.invocationCallOrder[0]);
+      expect(applyChange.mock.invocationCallOrder[0])
+        .toBeLessThan(mockOrdersRepo.getUnprocessedOrders.mock.invocationCallOrder[0]);
+    });
+
+    it('should rebuild the unwound trades when the change fails', async () => {
+      mockOrdersRepo.unwindTrades.mockResolvedValue([]);
+      mockOrdersRepo.getUnprocessedOrders.mockResolvedValue([]);
+      const applyChange = jest.fn().mockRejectedValue(new Error('Order not found'));
+
+      await expect(tradeBuilder.rebuildAfterOrderChange(testUserId, ['trade-manual'], applyChange)).rejects.toThrow('Order not found');
+
+      expect(mockOrdersRepo.getUnprocessedOrders).toHaveBeenCalled();
+      expect(applyChange.mock.invocationCallOrder[0])
+        .toBeLessThan(mockOrdersRepo.getUnprocessedOrders.mock.invocationCallOrder[0]);
+    });
+  });
+
+  describe('corporate actions', () => {
+    const split = {
+      id: 'action-split',
+      symbol: 'AAPL',
+      actionType: CorporateActionType.SPLIT,
+      effectiveDate: new Date('2023-06-01T00:00:00Z'),
+    } as unknown as CorporateAction;
+    const rename = {
+      id: 'action-rename',
+      symbol: 'FB',
+      actionType: CorporateActionType.SYMBOL_CHANGE,
+      effectiveDate: new Date('2023-06-01T00:00:00Z'),
+      newSymbol: 'META',
+    } as unknown as CorporateAction;
+
+    it('should unwind trades holding orders from before an action before restating them', async () => {
+      mockCorporateActionsRepo.getCorporateActions.mockResolvedValue([split]);
+      mockOrdersRepo.getShareSymbols.mockResolvedValue(['AAPL']);
+      mockCorporateActionsRepo.getPendingTradeIds.mockResolvedValue(['trade-open']);
+      mockOrdersRepo.unwindTrades.mockResolvedValue([]);
+      mockCorporateActionsRepo.restateOrders.mockResolvedValue(2);
+
+      await tradeBuilder.processUserOrders(testUserId);
+
+      expect(mockOrdersRepo.unwindTrades).toHaveBeenCalledWith(testUserId, ['trade-open']);
+      expect(mockCorporateActionsRepo.restateOrders).toHaveBeenCalledWith(testUserId, split);
+      expect(mockOrdersRepo.unwindTrades.mock.invocationCallOrder[0])
+        .toBeLessThan(mockCorporateActionsRepo.restateOrders.mock.invocationCallOrder[0]);
+    });
+
+    it('should follow a ticker change onto the new symbol and skip symbols the user never traded', async () => {
+      const metaSplit = { ...split, id: 'action-meta-split', symbol: 'META', effectiveDate: new Date('2023-07-01T00:00:00Z') };
+      mockCorporateActionsRepo.getCorporateActions.mockResolvedValue([split, rename, metaSplit]);
+      mockOrdersRepo.getShareSymbols.mockResolvedValue(['FB']);
+      mockCorporateActionsRepo.getPendingTradeIds.mockResolvedValue([]);
+      mockCorporateActionsRepo.restateOrders.mockResolvedValue(0);
+
+      await tradeBuilder.processUserOrders(testUserId);
+
+      expect(mockCorporateActionsRepo.restateOrders.mock.calls.map(call => call[1].id))
+        .toEqual(['action-rename', 'action-meta-split']);
+    });
+  });
+
+  describe('trade grouping', () => {
+    const buyOrder = {
+      id: 'order-1',
+      userId: testUserId,
+      orderId: 'buy-123',
+      symbol: 'AAPL',
+      side: OrderSide.BUY,
+      orderQuantity: new Decimal(100),
+      limitPrice: new Decimal(150.00),
+      orderExecutedTime: new Date('2023-01-01T10:00:00Z'),
+      orderStatus: OrderStatus.FILLED,
+      tradeId: null,
+      orderCancelledTime: null,
+      parentOrderId: null,
+      orderType: 'MARKET',
+      timeInForce: 'DAY',
+      stopPrice: null,
+      orderPlacedTime: new Date('2023-01-01T09:00:00Z'),
+      orderUpdatedTime: null,
+      accountId: null,
+      orderAccount: null,
+      orderRoute: null,
+      brokerType: BrokerType.GENERIC_CSV,
+      commission: null,
+      fees: null,
+      tags: [],
+      importBatchId: null,
+      usedInTrade: false,
+      snapTradeActivityId: null,
+      datePrecision: DatePrecision.MILLISECOND,
+      importSequence: null,
+      activityHash: null,
+      brokerMetadata: null,
+      splitFromOrderId: null,
+      assetClass: AssetClass.EQUITY,
+      tradingAccountId: null,
+      brokerId: null,
+      currency: null,
+      importSource: ImportSource.CSV,
+      underlyingSymbol: null,
+      optionRight: null,
+      strikePrice: null,
+      expirationDate: null,
+      contractMultiplier: new Decimal(1),
+      optionEvent: null,
+      appliedCorporateActionIds: [],
+    } as unknown as Order;
+
+    const sellOrder = {
+      ...buyOrder,
+      id: 'order-2',
+      orderId: 'sell-123',
+      side: OrderSide.SELL,
+      orderQuantity: new Decimal(40),
+      limitPrice: new Decimal(160.00),
+      orderExecutedTime: new Date('2023-01-01T11:00:00Z'),
+    } as unknown as Order;
+
+    it('should report a partial exit as its own trade and split the entry under round trip grouping', async () => {
+      tradeBuilder = new TradeBuilder(undefined, { mode: TradeGroupingMode.ROUND_TRIP, mergeWindowMinutes: 5 });
+      mockOrdersRepo.getUnprocessedOrders.mockResolvedValue([buyOrder, sellOrder]);
+      mockOrdersRepo.splitOrder.mockResolvedValue(['split-closed', 'split-open']);
+      mockOrdersRepo.getOrdersByIds.mockResolvedValue([buyOrder, sellOrder]);
+
+      const result = await tradeBuilder.processUserOrders(testUserId);
+
+      expect(mockOrdersRepo.splitOrder).toHaveBeenCalledWith(expect.any(String), 40, 60);
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({
+        status: TradeStatus.CLOSED,
+        openQuantity: 40,
+        closeQuantity: 40,
+        pnl: 400.00, // (160 - 150) * 40
+        ordersInTrade: ['split-closed', expect.any(String)],
+      });
+      expect(result[1]).toMatchObject({ status: TradeStatus.OPEN, ordersInTrade: ['split-open'] });
+    });
+
+    it('should fold a quick same-side reopen into the closed trade under time-merged grouping', async () => {
+      tradeBuilder = new TradeBuilder(undefined, { mode: TradeGroupingMode.TIME_MERGED, mergeWindowMinutes: 5 });
+      const fullSell = { ...sellOrder, orderQuantity: new Decimal(100) } as unknown as Order;
+      const reopen = {
+        ...buyOrder,
+        id: 'order-3',
+        orderId: 'buy-456',
+        orderExecutedTime: new Date('2023-01-01T11:03:00Z'),
+      } as unknown as Order;
+      mockOrdersRepo.getUnprocessedOrders.mockResolvedValue([buyOrder, fullSell, reopen]);
+      mockOrdersRepo.getOrdersByIds.mockResolvedValue([buyOrder, fullSell, reopen]);
+
+      const result = await tradeBuilder.processUserOrders(testUserId);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ status: TradeStatus.OPEN });
+      expect(result[0].ordersInTrade).toHaveLength(3);
+    });
+  });
+
   describe('idempotency', () => {
     it('should not process orders that already have tradeId', async () => {
       // Mock that no unprocessed orders exist (already processed)
@@ -404,7 +733,7 @@ describe('TradeBuilder', () => {
         orderId: 'order-123',
         symbol: 'AAPL',
         side: OrderSide.BUY,
-        orderQuantity: 100,
+        orderQuantity: new Decimal(100),
         limitPrice: new Decimal(150.00),
         orderExecutedTime: new Date('2023-01-01T10:00:00Z'),
         orderStatus: OrderStatus.FILLED,
@@ -426,10 +755,23 @@ describe('TradeBuilder', () => {
         importBatchId: null,
         usedInTrade: false,
         snapTradeActivityId: null,
-        datePrecision: 'MILLISECOND' as any,
+        datePrecision: DatePrecision.MILLISECOND,
         importSequence: null,
         activityHash: null,
         brokerMetadata: null,
+        splitFromOrderId: null,
+        assetClass: AssetClass.EQUITY,
+        tradingAccountId: null,
+        brokerId: null,
+        currency: null,
+        importSource: ImportSource.CSV,
+        underlyingSymbol: null,
+        optionRight: null,
+        strikePrice: null,
+        expirationDate: null,
+        contractMultiplier: new Decimal(1),
+        optionEvent: null,
+        appliedCorporateActionIds: [],
       };
 
       // First run - order exists
@@ -459,7 +801,7 @@ describe('processUserOrders integration', () => {
       orderId: 'order-123',
       symbol: 'AAPL',
       side: OrderSide.BUY,
-      orderQuantity: 100,
+      orderQuantity: new Decimal(100),
       limitPrice: new Decimal(150.00),
       orderExecutedTime: new Date('2023-01-01T10:00:00Z'),
       orderStatus: OrderStatus.FILLED,
@@ -481,10 +823,23 @@ describe('processUserOrders integration', () => {
       fees: null,
       importBatchId: null,
       snapTradeActivityId: null,
-      datePrecision: 'MILLISECOND' as any,
+      datePrecision: DatePrecision.MILLISECOND,
       importSequence: null,
       activityHash: null,
       brokerMetadata: null,
+      splitFromOrderId: null,
+      assetClass: AssetClass.EQUITY,
+      tradingAccountId: null,
+      brokerId: null,
+      currency: null,
+      importSource: ImportSource.CSV,
+      underlyingSymbol: null,
+      optionRight: null,
+      strikePrice: null,
+      expirationDate: null,
+      contractMultiplier: new Decimal(1),
+      optionEvent: null,
+      appliedCorporateActionIds: [],
     };
 
     mockOrdersRepo.getUnprocessedOrders.mockResolvedValue([mockOrder]);
@@ -0,0 +1,85 @@
+import { TradeCalculationService } from '@/services/tradeCalculation';
+import { prisma } from '@/lib/prisma';
+import { tradesRepo } from '@/lib/repositories/tradesRepo';
+import { DEFAULT_TRADE_GROUPING } from '@/lib/tradeGrouping';
+import { Order, OrderSide, TradeSide } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    trade: { findMany: jest.fn(), create: jest.fn() },
+    order: { findMany: jest.fn(), updateMany: jest.fn() },
+  },
+}));
+jest.mock('@/lib/repositories/tradesRepo');
+
+const mockPrisma = prisma as unknown as {
+  trade: { findMany: jest.Mock; create: jest.Mock };
+  order: { findMany: jest.Mock; updateMany: jest.Mock };
+};
+
+function order(orderId: string, side: OrderSide, quantity: number, price: number, minute: number, commission: number, fees: number): Order {
+  return {
+    orderId,
+    symbol: 'AAPL',
+    side,
+    orderQuantity: new Decimal(quantity),
+    limitPrice: new Decimal(price),
+    orderExecutedTime: new Date(Date.UTC(2024, 2, 15, 14, minute)),
+    contractMultiplier: new Decimal(1),
+    commission: new Decimal(commission),
+    fees: new Decimal(fees),
+    optionEvent: null,
+  } as unknown as Order;
+}
+
+describe('TradeCalculationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (tradesRepo.getTradeGroupingSettings as jest.Mock).mockResolvedValue(DEFAULT_TRADE_GROUPING);
+    mockPrisma.trade.findMany.mockResolvedValue([]);
+    mockPrisma.trade.create.mockImplementation(async ({ data }) => ({ id: `trade-${data.quantity}`, ...data }));
+    mockPrisma.order.updateMany.mockResolvedValue({ count: 0 });
+  });
+
+  it('should store commission, fees and net P&L on the trades it builds', async () => {
+    mockPrisma.order.findMany
+      .mockResolvedValueOnce([
+        order('buy-1', OrderSide.BUY, 100, 150, 0, 1, 0.1),
+        order('buy-2', OrderSide.BUY, 100, 152, 1, 1, 0.1),
+        order('sell-1', OrderSide.SELL, 200, 155, 2, 2, 0.5),
+      ])
+      .mockResolvedValue([]);
+
+    await new TradeCalculationService().buildTrades('user-1');
+
+    expect(mockPrisma.trade.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.trade.create.mock.calls[0][0].data).toMatchObject({
+      side: TradeSide.LONG,
+      pnl: 800, // (155 - 150) * 100 + (155 - 152) * 100
+      commission: 4,
+      fees: 0.7,
+      netPnl: 795.3,
+    });
+  });
+
+  it('should prorate entry and exit costs between the part that closes and the part that stays open or reverses', async () => {
+    mockPrisma.order.findMany
+      .mockResolvedValueOnce([
+        order('buy-1', OrderSide.BUY, 100, 150, 0, 3, 0.3),
+        order('sell-1', OrderSide.SELL, 40, 160, 1, 1, 0.1), // Partial exit
+        order('sell-2', OrderSide.SELL, 120, 158, 2, 3, 0.3), // Closes 60, opens a 60 short
+        order('buy-2', OrderSide.BUY, 60, 156, 3, 1, 0),
+      ])
+      .mockResolvedValue([]);
+
+    await new TradeCalculationService().buildTrades('user-1');
+
+    const stored = mockPrisma.trade.create.mock.calls.map(call => call[0].data);
+    expect(stored).toHaveLength(2);
+    // Long: all of buy-1 and sell-1, half of sell-2
+    expect(stored[0]).toMatchObject({ side: TradeSide.LONG, commission: 5.5, fees: 0.55, pnl: 880, netPnl: 873.95 });
+    // Short: the other half of sell-2 and buy-2
+    expect(stored[1]).toMatchObject({ side: TradeSide.SHORT, commission: 2.5, fees: 0.15, pnl: 120, netPnl: 117.35 });
+  });
+});
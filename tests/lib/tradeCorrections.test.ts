@@ -0,0 +1,50 @@
+import { assertOneTrade, inExecutionOrder, TradeCorrectionError } from '@/lib/tradeCorrections';
+import { Order, OrderSide } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+// Only the pure helpers are tested, so no database client is needed
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+function order(id: string, side: OrderSide, quantity: number, time: string, symbol = 'AAPL'): Order {
+  return {
+    id,
+    symbol,
+    side,
+    orderQuantity: new Decimal(quantity),
+    orderExecutedTime: new Date(time),
+    tradingAccountId: null,
+  } as unknown as Order;
+}
+
+describe('tradeCorrections', () => {
+  it('should sort orders by execution time and keep the given order for fills at the same time', () => {
+    const orders = [
+      order('exit', OrderSide.SELL, 100, '2024-03-01T15:00:00Z'),
+      order('add-b', OrderSide.BUY, 50, '2024-03-01T14:00:00Z'),
+      order('add-a', OrderSide.BUY, 50, '2024-03-01T14:00:00Z'),
+    ];
+
+    expect(inExecutionOrder(orders, ['add-a', 'add-b', 'exit']).map(o => o.id)).toEqual(['add-a', 'add-b', 'exit']);
+  });
+
+  it('should accept round trips that reach flat and open again', () => {
+    expect(() => assertOneTrade([
+      order('buy-1', OrderSide.BUY, 100, '2024-03-01T14:00:00Z'),
+      order('sell-1', OrderSide.SELL, 100, '2024-03-01T14:30:00Z'),
+      order('buy-2', OrderSide.BUY, 50, '2024-03-01T15:00:00Z'),
+      order('sell-2', OrderSide.SELL, 50, '2024-03-01T15:30:00Z'),
+    ])).not.toThrow();
+  });
+
+  it('should reject exits larger than the open position and mixed symbols', () => {
+    expect(() => assertOneTrade([
+      order('buy', OrderSide.BUY, 100, '2024-03-01T14:00:00Z'),
+      order('sell', OrderSide.SELL, 150, '2024-03-01T14:30:00Z'),
+    ])).toThrow(TradeCorrectionError);
+
+    expect(() => assertOneTrade([
+      order('buy', OrderSide.BUY, 100, '2024-03-01T14:00:00Z'),
+      order('sell', OrderSide.SELL, 100, '2024-03-01T14:30:00Z', 'MSFT'),
+    ])).toThrow('Only executions of the same symbol and account can be in one trade');
+  });
+});
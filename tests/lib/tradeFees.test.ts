@@ -0,0 +1,31 @@
+import { sumOrderCosts, calculateNetPnl, prorateCost } from '@/lib/tradeFees';
+
+describe('tradeFees', () => {
+  describe('sumOrderCosts', () => {
+    it('should roll up commission and fees across orders', () => {
+      expect(sumOrderCosts([
+        { commission: 1.25, fees: '0.02' },
+        { commission: null, fees: 0.01 },
+        { commission: '0.1' },
+      ])).toEqual({ commission: 1.35, fees: 0.03 });
+    });
+  });
+
+  describe('calculateNetPnl', () => {
+    it('should subtract commission and fees from gross P&L', () => {
+      expect(calculateNetPnl(100, 1.35, 0.03)).toBe(98.62);
+      expect(calculateNetPnl(-50, null, undefined)).toBe(-50);
+    });
+  });
+
+  describe('prorateCost', () => {
+    it('should split a cost by quantity and keep the total', () => {
+      expect(prorateCost(1, 1, 2)).toEqual([0.33, 0.67]);
+      expect(prorateCost('4.00', 25, 75)).toEqual([1, 3]);
+    });
+
+    it('should leave missing costs unset', () => {
+      expect(prorateCost(null, 1, 1)).toBeNull();
+    });
+  });
+});
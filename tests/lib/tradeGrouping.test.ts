@@ -0,0 +1,38 @@
+import { TradeGroupingMode } from '@prisma/client';
+import { canMergeReopen, getMergeWindowMs, planEntrySplits, TradeGroupingSettings } from '@/lib/tradeGrouping';
+
+describe('tradeGrouping', () => {
+  const timeMerged: TradeGroupingSettings = { mode: TradeGroupingMode.TIME_MERGED, mergeWindowMinutes: 5 };
+  const closeTime = new Date('2024-03-01T14:30:00Z');
+
+  it('should merge a reopen only within the window under time-merged grouping', () => {
+    expect(canMergeReopen(timeMerged, closeTime, new Date('2024-03-01T14:35:00Z'))).toBe(true);
+    expect(canMergeReopen(timeMerged, closeTime, new Date('2024-03-01T14:35:01Z'))).toBe(false);
+    expect(canMergeReopen(timeMerged, closeTime, new Date('2024-03-01T14:29:00Z'))).toBe(false);
+    expect(canMergeReopen(
+      { ...timeMerged, mode: TradeGroupingMode.FLAT_TO_FLAT },
+      closeTime,
+      new Date('2024-03-01T14:31:00Z')
+    )).toBe(false);
+  });
+
+  it('should only look back across trades when merging', () => {
+    expect(getMergeWindowMs(timeMerged)).toBe(5 * 60 * 1000);
+    expect(getMergeWindowMs({ ...timeMerged, mode: TradeGroupingMode.ROUND_TRIP })).toBe(0);
+  });
+
+  it('should plan a split for entries the exit left partly open', () => {
+    const splits = planEntrySplits(
+      [
+        { openOrderId: 'buy-1', closeOrderId: 'sell-1', quantity: 100, openPrice: 10, closePrice: 11, openTime: closeTime, closeTime, pnl: 100 },
+        { openOrderId: 'buy-2', closeOrderId: 'sell-1', quantity: 20, openPrice: 10.5, closePrice: 11, openTime: closeTime, closeTime, pnl: 10 },
+      ],
+      [{ orderId: 'buy-2', quantity: 30, price: 10.5, openTime: closeTime }]
+    );
+
+    expect(splits).toEqual([
+      { orderId: 'buy-1', closedQuantity: 100, remainingQuantity: 0 },
+      { orderId: 'buy-2', closedQuantity: 20, remainingQuantity: 30 },
+    ]);
+  });
+});
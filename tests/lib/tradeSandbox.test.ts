@@ -0,0 +1,108 @@
+import { TradeBuilder } from '@/lib/tradeBuilder';
+import { TradeSandbox, toSandboxOrder } from '@/lib/tradeSandbox';
+import { ordersRepo } from '@/lib/repositories/ordersRepo';
+import { tradesRepo } from '@/lib/repositories/tradesRepo';
+import { corporateActionsRepo } from '@/lib/repositories/corporateActionsRepo';
+import { fxRatesRepo } from '@/lib/repositories/fxRatesRepo';
+import { accountsRepo } from '@/lib/repositories/accountsRepo';
+import { CorporateActionType, Order, OrderSide, OrderStatus, OrderType, TimeInForce, TradeSide, TradeStatus } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+jest.mock('@/lib/repositories/ordersRepo');
+jest.mock('@/lib/repositories/tradesRepo');
+jest.mock('@/lib/repositories/corporateActionsRepo');
+jest.mock('@/lib/repositories/fxRatesRepo');
+jest.mock('@/lib/repositories/accountsRepo');
+
+const mockCorporateActionsRepo = corporateActionsRepo as jest.Mocked<typeof corporateActionsRepo>;
+const mockFxRatesRepo = fxRatesRepo as jest.Mocked<typeof fxRatesRepo>;
+const mockAccountsRepo = accountsRepo as jest.Mocked<typeof accountsRepo>;
+
+const userId = 'user-1';
+
+function order(id: string, side: OrderSide, quantity: number, price: number, executedAt: string): Order {
+  return toSandboxOrder(id, {
+    userId,
+    orderId: `broker-${id}`,
+    symbol: 'AAPL',
+    orderType: OrderType.MARKET,
+    side,
+    timeInForce: TimeInForce.DAY,
+    orderQuantity: quantity,
+    limitPrice: price,
+    orderStatus: OrderStatus.FILLED,
+    orderPlacedTime: executedAt,
+    orderExecutedTime: executedAt,
+    brokerId: 'broker-1',
+    commission: 1,
+    tags: [],
+  });
+}
+
+function buildTrades(orders: Order[]) {
+  return new TradeBuilder(undefined, undefined, new TradeSandbox(orders)).buildTradeData(userId);
+}
+
+describe('TradeSandbox', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCorporateActionsRepo.getCorporateActions.mockResolvedValue([]);
+    mockFxRatesRepo.getBaseCurrency.mockResolvedValue('USD');
+    mockFxRatesRepo.getRate.mockResolvedValue(1);
+    mockAccountsRepo.getAccounts.mockResolvedValue([]);
+  });
+
+  it('should build trades over copies of the orders without reading or writing stored orders and trades', async () => {
+    const orders = [
+      order('o1', OrderSide.BUY, 100, 10, '2024-03-15T13:30:00Z'),
+      order('o2', OrderSide.SELL, 150, 12, '2024-03-15T14:00:00Z'), // Closes the long and opens a short
+      order('o3', OrderSide.BUY, 50, 11, '2024-03-15T15:00:00Z'),
+    ];
+
+    const trades = await buildTrades(orders);
+
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({ side: TradeSide.LONG, status: TradeStatus.CLOSED, pnl: 200, ordersInTrade: ['o1', 'o2-split-1'] });
+    expect(trades[1]).toMatchObject({ side: TradeSide.SHORT, status: TradeStatus.CLOSED, pnl: 50, ordersInTrade: ['o2-split-2', 'o3'] });
+    // The reversing order's commission is shared by its two parts
+    expect(trades[0].netPnl).toBeCloseTo(198.33);
+    expect(trades[1].netPnl).toBeCloseTo(48.67);
+
+    expect(ordersRepo.getUnprocessedOrders).not.toHaveBeenCalled();
+    expect(ordersRepo.splitOrder).not.toHaveBeenCalled();
+    expect(tradesRepo.getAllOpenTrades).not.toHaveBeenCalled();
+    expect(tradesRepo.saveTrade).not.toHaveBeenCalled();
+    expect(orders[1].orderQuantity.toNumber()).toBe(150);
+
+    // Building again over the same orders gives the same trades
+    expect(await buildTrades(orders)).toEqual(trades);
+  });
+
+  it('should restate its orders for corporate actions before building', async () => {
+    mockCorporateActionsRepo.getCorporateActions.mockResolvedValue([{
+      id: 'action-1',
+      symbol: 'AAPL',
+      actionType: CorporateActionType.SPLIT,
+      effectiveDate: new Date('2024-06-10T00:00:00Z'),
+      ratioFrom: new Decimal(1),
+      ratioTo: new Decimal(2),
+      newSymbol: null,
+      source: 'ADMIN',
+      notes: null,
+      createdAt: new Date('2024-06-01T00:00:00Z'),
+      updatedAt: new Date('2024-06-01T00:00:00Z'),
+    }]);
+    const orders = [
+      order('o1', OrderSide.BUY, 100, 10, '2024-06-03T13:30:00Z'),
+      order('o2', OrderSide.SELL, 200, 6, '2024-06-12T13:30:00Z'),
+    ];
+
+    const trades = await buildTrades(orders);
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ status: TradeStatus.CLOSED, quantity: 400, pnl: 200 });
+    expect(corporateActionsRepo.restateOrders).not.toHaveBeenCalled();
+    expect(orders[0].orderQuantity.toNumber()).toBe(100);
+  });
+});
@@ -0,0 +1,123 @@
+import { deflateRawSync } from 'zlib';
+import { convertXlsxToCsv, detectHeaderRow, formatExcelDate, sheetToCsv, XlsxReadError } from '@/lib/xlsxWorkbook';
+
+// Minimal zip writer: deflated entries and a central directory (CRCs are not checked by the reader)
+function buildZip(files: Record<string, string | Buffer>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(typeof content === 'string' ? Buffer.from(content) : content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const workbookFiles = {
+  'xl/workbook.xml': `<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>
+    <sheet name="Summary" sheetId="1" r:id="rId1"/><sheet name="Trades &amp; Fills" sheetId="2" r:id="rId2"/></sheets></workbook>`,
+  'xl/_rels/workbook.xml.rels': `<Relationships>
+    <Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/>
+    <Relationship Id="rId2" Type="worksheet" Target="/xl/worksheets/sheet2.xml"/></Relationships>`,
+  'xl/sharedStrings.xml': `<sst><si><t>Account statement</t></si><si><t>Trade
+Date</t></si><si><r><t>Sym</t></r><r><t>bol</t></r></si><si><t>Side</t></si><si><t>Qty</t></si><si><t>Price</t></si>
+    <si><t>AAPL</t></si><si><t>BUY</t></si><si><t>Net, after fees</t></si></sst>`,
+  'xl/styles.xml': `<styleSheet><numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy\\-mm\\-dd hh:mm:ss"/></numFmts>
+    <cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/></cellXfs></styleSheet>`,
+  'xl/worksheets/sheet1.xml': '<worksheet><sheetData/></worksheet>',
+  'xl/worksheets/sheet2.xml': `<worksheet><sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c></row>
+    <row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3" t="s"><v>2</v></c><c r="C3" t="s"><v>3</v></c><c r="D3" t="s"><v>4</v></c><c r="E3" t="s"><v>5</v></c><c r="H3" s="1"/></row>
+    <row r="4"><c r="A4" s="2"><v>45366.5625</v></c><c r="B4" t="s"><v>6</v></c><c r="C4" t="s"><v>7</v></c><c r="D4"><v>100</v></c><c r="E4"><v>171.25</v></c><c r="F4" t="s"><v>8</v></c></row>
+    <row r="5"><c r="A5" s="1"><v>45369</v></c><c r="B5" t="inlineStr"><is><t>MSFT</t></is></c><c r="C5" t="str"><v>SELL</v></c><c r="D5"><v>10</v></c><c r="E5"><v>410</v></c></row>
+  </sheetData></worksheet>`,
+};
+const workbook = buildZip(workbookFiles);
+
+describe('xlsxWorkbook', () => {
+  it('should convert the first sheet with data to CSV from the detected header row', () => {
+    const result = convertXlsxToCsv(workbook);
+
+    expect(result.sheets).toEqual([
+      { name: 'Summary', rowCount: 0 },
+      { name: 'Trades & Fills', rowCount: 4 },
+    ]);
+    expect(result.sheetName).toBe('Trades & Fills');
+    expect(result.headerRow).toBe(3);
+    // Header line breaks are collapsed; the unnamed column with a value is kept
+    expect(result.csv).toBe([
+      'Trade Date,Symbol,Side,Qty,Price,',
+      '2024-03-15 13:30:00,AAPL,BUY,100,171.25,"Net, after fees"',
+      '2024-03-18,MSFT,SELL,10,410,',
+    ].join('\n'));
+  });
+
+  it('should read the sheet and header row the user picked', () => {
+    const result = convertXlsxToCsv(workbook, { sheetName: 'Trades & Fills', headerRow: 1 });
+    expect(result.headerRow).toBe(1);
+    expect(result.csv.split('\n')[0]).toBe('Account statement,,,,,');
+
+    expect(() => convertXlsxToCsv(workbook, { sheetName: 'Positions' })).toThrow(XlsxReadError);
+    expect(() => convertXlsxToCsv(workbook, { sheetName: 'Trades & Fills', headerRow: 2 })).toThrow('Row 2 of "Trades & Fills" is empty');
+    expect(() => convertXlsxToCsv(Buffer.from('Date,Symbol\n'))).toThrow('The file is not a valid .xlsx workbook');
+  });
+
+  it('should only inflate the sheet it reads, within a size cap', () => {
+    // Zeros compress over a thousand to one, so the bomb stays small on disk
+    const bomb = buildZip({ ...workbookFiles, 'xl/worksheets/sheet1.xml': Buffer.alloc(201 * 1024 * 1024) });
+
+    const picked = convertXlsxToCsv(bomb, { sheetName: 'Trades & Fills' });
+    expect(picked.sheets).toEqual([
+      { name: 'Summary', rowCount: null },
+      { name: 'Trades & Fills', rowCount: 4 },
+    ]);
+
+    expect(() => convertXlsxToCsv(bomb)).toThrow('The workbook is larger than 200 MB uncompressed');
+  });
+
+  it('should reject truncated archives as invalid workbooks', () => {
+    // The end record still points at a central directory that was cut off
+    const truncated = Buffer.concat([workbook.subarray(0, 40), workbook.subarray(workbook.length - 22)]);
+    expect(() => convertXlsxToCsv(truncated)).toThrow(XlsxReadError);
+    expect(() => convertXlsxToCsv(truncated)).toThrow('The file is not a valid .xlsx workbook');
+  });
+
+  it('should format serial dates and pick the header row by its text cells', () => {
+    expect(formatExcelDate(45366, 'date')).toBe('2024-03-15');
+    expect(formatExcelDate(45366.75, 'datetime')).toBe('2024-03-15 18:00:00');
+    expect(formatExcelDate(0.3958333333, 'time')).toBe('09:30:00');
+
+    const rows = [['Statement for U123'], [], ['Date', 'Symbol', 'Qty'], ['2024-03-15', 'AAPL', '100']];
+    expect(detectHeaderRow(rows)).toBe(2);
+    expect(sheetToCsv(rows, 2)).toBe('Date,Symbol,Qty\n2024-03-15,AAPL,100');
+  });
+});